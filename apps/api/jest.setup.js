@@ -19,12 +19,25 @@ jest.mock("redis", () => ({
 }));
 
 // Setup database connection mock
-jest.mock("@neon/data-model", () => ({
-  prisma: {
+jest.mock("@neon/data-model", () => {
+  const client = {
     $connect: jest.fn().mockResolvedValue(undefined),
     $disconnect: jest.fn().mockResolvedValue(undefined),
-  },
-}));
+  };
+  return {
+    // Read when server/auth.ts is imported
+    DEFAULT_WORKSPACE_ID: "default",
+    UserRole: {
+      USER: "USER",
+      ADMIN: "ADMIN",
+      MANAGER: "MANAGER",
+      SUPER_ADMIN: "SUPER_ADMIN",
+      VIEWER: "VIEWER",
+    },
+    db: client,
+    prisma: client,
+  };
+});
 
 // Global test setup
 beforeEach(() => {
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+
+const verify = jest.fn<(token: string) => any>();
+const suppress = jest.fn<(...args: any[]) => Promise<boolean>>();
+
+jest.mock("@neon/utils", () => ({
+  logger: { error: jest.fn() },
+}));
+
+jest.mock(
+  "@neon/core-agents",
+  () => ({
+    UnsubscribeLinks: jest.fn(() => ({ verify })),
+    EmailDeliveryTracker: jest.fn(() => ({ suppress })),
+  }),
+  // Resolved through tsconfig paths by Next, not by jest
+  { virtual: true },
+);
+
+import { GET, POST } from "./route";
+
+const request = (method: string, token = "valid") =>
+  new Request(`http://localhost/api/email/unsubscribe?token=${token}`, {
+    method,
+    ...(method === "POST" && { body: "List-Unsubscribe=One-Click" }),
+  });
+
+describe("/api/email/unsubscribe", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    verify.mockImplementation((token: string) =>
+      token === "valid"
+        ? { workspaceId: "ws-1", email: "ada@example.com" }
+        : null,
+    );
+    suppress.mockResolvedValue(true);
+  });
+
+  it("should ask for confirmation on GET without unsubscribing", async () => {
+    const response = await GET(request("GET"));
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<form method="post">');
+    expect(suppress).not.toHaveBeenCalled();
+  });
+
+  it("should unsubscribe on POST, including one-click requests", async () => {
+    const response = await POST(request("POST"));
+
+    expect(response.status).toBe(200);
+    expect(suppress).toHaveBeenCalledWith(
+      "ws-1",
+      "ada@example.com",
+      "UNSUBSCRIBE",
+      "unsubscribe-link",
+    );
+  });
+
+  it("should reject invalid tokens", async () => {
+    expect((await GET(request("GET", "forged"))).status).toBe(400);
+    expect((await POST(request("POST", "forged"))).status).toBe(400);
+    expect(suppress).not.toHaveBeenCalled();
+  });
+});
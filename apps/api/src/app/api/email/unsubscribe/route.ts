@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { EmailDeliveryTracker, UnsubscribeLinks } from "@neon/core-agents";
+import { logger } from "@neon/utils";
+
+/**
+ * Unsubscribe links from campaign emails, /api/email/unsubscribe?token=...
+ * GET shows a confirmation page, so link scanners cannot unsubscribe
+ * anyone; POST unsubscribes, both from that page and from mail clients'
+ * one-click List-Unsubscribe (RFC 8058).
+ */
+
+const links = new UnsubscribeLinks();
+const deliveries = new EmailDeliveryTracker();
+
+function page(message: string, status: number, form = ""): NextResponse {
+  return new NextResponse(
+    `<!doctype html><html><head><meta charset="utf-8"><title>Unsubscribe</title></head><body style="font-family:sans-serif;max-width:480px;margin:64px auto;text-align:center"><p>${message}</p>${form}</body></html>`,
+    {
+      status,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    },
+  );
+}
+
+function recipientOf(req: Request) {
+  const token = new URL(req.url).searchParams.get("token");
+  return token ? links.verify(token) : null;
+}
+
+export async function GET(req: Request) {
+  if (!recipientOf(req)) {
+    return page("This unsubscribe link is invalid.", 400);
+  }
+  return page(
+    "Stop receiving these emails?",
+    200,
+    `<form method="post"><button type="submit">Unsubscribe</button></form>`,
+  );
+}
+
+export async function POST(req: Request) {
+  const recipient = recipientOf(req);
+  if (!recipient) {
+    return page("This unsubscribe link is invalid.", 400);
+  }
+
+  try {
+    await deliveries.suppress(
+      recipient.workspaceId,
+      recipient.email,
+      "UNSUBSCRIBE",
+      "unsubscribe-link",
+    );
+    return page("You have been unsubscribed.", 200);
+  } catch (error) {
+    logger.error("Unsubscribe failed", { error }, "EmailUnsubscribe");
+    return page("We could not unsubscribe you. Please try again.", 500);
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+
+class PersonalizationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public issues: string[] = [],
+  ) {
+    super(message);
+  }
+}
+
+const getRequestSession = jest.fn<(...args: any[]) => Promise<any>>();
+const resolveWorkspaceAccess = jest.fn<(...args: any[]) => Promise<any>>();
+const ingest = jest.fn<(...args: any[]) => Promise<any>>();
+
+jest.mock("../../../server/auth", () => ({
+  getRequestSession,
+  resolveWorkspaceAccess,
+  getHeader: (req: Request, name: string) => req.headers.get(name) ?? undefined,
+  hasRole: (role: string, required: string) =>
+    role !== "VIEWER" || required === "VIEWER",
+  WORKSPACE_HEADER: "x-workspace-id",
+}));
+
+jest.mock("../../../server/behavior-tracking", () => ({
+  eventIngestor: { ingest },
+}));
+
+jest.mock("@neon/utils", () => ({
+  logger: { error: jest.fn() },
+}));
+
+// Resolved through tsconfig paths by Next, not by jest
+jest.mock("@neon/core-agents", () => ({ PersonalizationError }), {
+  virtual: true,
+});
+jest.mock("@neon/data-model", () => ({ UserRole: { USER: "USER" } }), {
+  virtual: true,
+});
+
+import { POST } from "./route";
+
+const send = (body: string) =>
+  POST(
+    new Request("http://localhost/api/events", {
+      method: "POST",
+      body,
+      headers: {
+        "x-workspace-id": "ws-1",
+        "user-agent": "Mozilla/5.0",
+        "x-forwarded-for": "203.0.113.7, 10.0.0.1",
+      },
+    }),
+  );
+
+const batch = JSON.stringify({
+  events: [{ id: "e1", type: "page_view", anonymousId: "a1", url: "/" }],
+});
+
+describe("POST /api/events", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getRequestSession.mockResolvedValue({ user: { id: "user-1" } });
+    resolveWorkspaceAccess.mockResolvedValue({
+      workspaceId: "ws-1",
+      role: "USER",
+    });
+    ingest.mockResolvedValue({
+      accepted: 1,
+      duplicates: 0,
+      rejected: [],
+      identified: 0,
+      triggered: [],
+    });
+  });
+
+  it("should store the batch for the requested workspace", async () => {
+    const response = await send(batch);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ accepted: 1 });
+    expect(resolveWorkspaceAccess).toHaveBeenCalledWith(
+      { user: { id: "user-1" } },
+      "ws-1",
+    );
+    expect(ingest).toHaveBeenCalledWith("ws-1", JSON.parse(batch), {
+      userAgent: "Mozilla/5.0",
+      ipAddress: "203.0.113.7",
+    });
+  });
+
+  it("should reject anonymous requests and viewers", async () => {
+    getRequestSession.mockResolvedValueOnce(null);
+    expect((await send(batch)).status).toBe(401);
+
+    resolveWorkspaceAccess.mockResolvedValueOnce({
+      workspaceId: "ws-1",
+      role: "VIEWER",
+    });
+    expect((await send(batch)).status).toBe(403);
+    expect(ingest).not.toHaveBeenCalled();
+  });
+
+  it("should report malformed batches", async () => {
+    expect((await send("{events:")).status).toBe(400);
+
+    ingest.mockRejectedValueOnce(
+      new PersonalizationError("Invalid batch size", "INVALID_EVENTS", [
+        "events: send between 1 and 500 events",
+      ]),
+    );
+    const response = await send(JSON.stringify({ events: [] }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Invalid batch size",
+      issues: ["events: send between 1 and 500 events"],
+    });
+  });
+
+  it("should answer 500 when storing fails", async () => {
+    ingest.mockRejectedValueOnce(new Error("connection lost"));
+
+    expect((await send(batch)).status).toBe(500);
+  });
+});
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { PersonalizationError } from "@neon/core-agents";
+import { UserRole } from "@neon/data-model";
+import { logger } from "@neon/utils";
+import {
+  getHeader,
+  getRequestSession,
+  hasRole,
+  resolveWorkspaceAccess,
+  WORKSPACE_HEADER,
+} from "../../../server/auth";
+import { eventIngestor } from "../../../server/behavior-tracking";
+
+/**
+ * Receives batches of tracked behaviour from the EventTracker in
+ * @neon/utils: POST /api/events with `{ events: [...], sentAt? }`.
+ * Callers need a session or API key with USER access to the workspace
+ * named in x-workspace-id. Batches sent with a user's session are
+ * attributed to that user; only API key callers, i.e. server code, may
+ * name other members. Invalid events are listed in the response while the
+ * rest of the batch is stored.
+ */
+
+export async function POST(req: Request) {
+  const session = await getRequestSession(req);
+  if (!session) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 },
+    );
+  }
+
+  const access = await resolveWorkspaceAccess(
+    session,
+    getHeader(req, WORKSPACE_HEADER),
+  );
+  if (!access || !hasRole(access.role, UserRole.USER)) {
+    return NextResponse.json(
+      { error: "You do not have access to this workspace" },
+      { status: 403 },
+    );
+  }
+
+  let batch: unknown;
+  try {
+    batch = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const summary = await eventIngestor.ingest(access.workspaceId, batch, {
+      userAgent: getHeader(req, "user-agent"),
+      ipAddress: getHeader(req, "x-forwarded-for")?.split(",")[0]?.trim(),
+      ...(session.method === "session" && {
+        signedInUserId: session.user.id,
+      }),
+    });
+    return NextResponse.json(summary);
+  } catch (error) {
+    if (error instanceof PersonalizationError) {
+      return NextResponse.json(
+        { error: error.message, issues: error.issues },
+        { status: 400 },
+      );
+    }
+    logger.error(
+      "Event ingestion failed",
+      { error, workspaceId: access.workspaceId },
+      "EventIngestion",
+    );
+    return NextResponse.json(
+      { error: "Failed to store events" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterAll,
+  jest,
+} from "@jest/globals";
+
+class MetricsWebhookError extends Error {
+  constructor(
+    message: string,
+    public code: "UNKNOWN_PROVIDER" | "INVALID_PAYLOAD" | "INVALID_SIGNATURE",
+  ) {
+    super(message);
+  }
+}
+
+const receive = jest.fn<(provider: string, payload: unknown) => Promise<any>>();
+const verify = jest.fn<(provider: string, delivery: any) => boolean>();
+
+jest.mock("../../../../../server/metrics-pipeline", () => ({
+  metricsPipeline: { receive, verify },
+}));
+
+jest.mock("@neon/utils", () => ({
+  logger: { error: jest.fn() },
+}));
+
+jest.mock(
+  "@neon/core-agents",
+  () => ({ MetricsWebhookError }),
+  // Resolved through tsconfig paths by Next, not by jest
+  { virtual: true },
+);
+
+import { POST } from "./route";
+
+const deliver = (
+  provider: string,
+  body: string,
+  { token = "secret", bearer = false } = {},
+) =>
+  POST(
+    new Request(
+      `http://localhost/api/metrics/webhooks/${provider}${bearer ? "" : `?token=${token}`}`,
+      {
+        method: "POST",
+        body,
+        headers: bearer ? { authorization: `Bearer ${token}` } : {},
+      },
+    ),
+    { params: { provider } },
+  );
+
+describe("POST /api/metrics/webhooks/[provider]", () => {
+  const originalToken = process.env.METRICS_WEBHOOK_TOKEN;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.METRICS_WEBHOOK_TOKEN = "secret";
+    receive.mockResolvedValue({ recorded: 1, skipped: 0 });
+    verify.mockReturnValue(false);
+  });
+
+  afterAll(() => {
+    process.env.METRICS_WEBHOOK_TOKEN = originalToken;
+  });
+
+  it("should reject requests without the shared token", async () => {
+    const response = await deliver("sendgrid", "[]", { token: "wrong" });
+
+    expect(response.status).toBe(401);
+    expect(receive).not.toHaveBeenCalled();
+  });
+
+  it("should refuse deliveries while no token is configured", async () => {
+    delete process.env.METRICS_WEBHOOK_TOKEN;
+
+    expect((await deliver("sendgrid", "[]")).status).toBe(503);
+  });
+
+  it("should ingest events with a bearer token", async () => {
+    const events = [{ event: "open", email: "a@example.com", timestamp: 1 }];
+
+    const response = await deliver("sendgrid", JSON.stringify(events), {
+      bearer: true,
+    });
+
+    expect(response.status).toBe(200);
+    expect(receive).toHaveBeenCalledWith("sendgrid", events);
+    expect(await response.json()).toEqual({ recorded: 1, skipped: 0 });
+  });
+
+  it("should accept signed deliveries without the token", async () => {
+    verify.mockReturnValue(true);
+    delete process.env.METRICS_WEBHOOK_TOKEN;
+
+    const response = await deliver("sendgrid", "[]", { token: "" });
+
+    expect(response.status).toBe(200);
+    expect(verify).toHaveBeenCalledWith(
+      "sendgrid",
+      expect.objectContaining({ rawBody: "[]" }),
+    );
+  });
+
+  it("should reject bad signatures", async () => {
+    verify.mockImplementation(() => {
+      throw new MetricsWebhookError("Invalid signature", "INVALID_SIGNATURE");
+    });
+
+    expect((await deliver("sendgrid", "[]")).status).toBe(401);
+    expect(receive).not.toHaveBeenCalled();
+  });
+
+  it("should map unknown providers and bad payloads", async () => {
+    receive.mockRejectedValueOnce(
+      new MetricsWebhookError("No receiver", "UNKNOWN_PROVIDER"),
+    );
+    expect((await deliver("mailchimp", "[]")).status).toBe(404);
+
+    receive.mockRejectedValueOnce(
+      new MetricsWebhookError("Not an array", "INVALID_PAYLOAD"),
+    );
+    expect((await deliver("sendgrid", "{}")).status).toBe(400);
+
+    expect((await deliver("sendgrid", "not json")).status).toBe(400);
+  });
+});
@@ -0,0 +1,87 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { MetricsWebhookError } from "@neon/core-agents";
+import { logger } from "@neon/utils";
+import { metricsPipeline } from "../../../../../server/metrics-pipeline";
+
+/**
+ * Receives engagement and delivery events from email and social
+ * providers, e.g. POST /api/metrics/webhooks/sendgrid. Providers that
+ * sign their webhooks are verified by signature once their key is
+ * configured (SENDGRID_WEBHOOK_PUBLIC_KEY); the others pass the shared
+ * METRICS_WEBHOOK_TOKEN as `?token=` or `Authorization: Bearer`.
+ */
+
+// Hashing first gives timingSafeEqual inputs of equal length
+function tokenMatches(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+function errorStatus(error: MetricsWebhookError): number {
+  switch (error.code) {
+    case "UNKNOWN_PROVIDER":
+      return 404;
+    case "INVALID_SIGNATURE":
+      return 401;
+    default:
+      return 400;
+  }
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: { provider: string } },
+) {
+  const rawBody = await req.text();
+
+  try {
+    const signed = metricsPipeline.verify(params.provider, {
+      rawBody,
+      headers: Object.fromEntries(req.headers),
+    });
+
+    if (!signed) {
+      const expected = process.env.METRICS_WEBHOOK_TOKEN;
+      if (!expected) {
+        return NextResponse.json(
+          { error: "Metrics webhooks are not configured" },
+          { status: 503 },
+        );
+      }
+      const authorization = req.headers.get("authorization");
+      const token = authorization?.startsWith("Bearer ")
+        ? authorization.slice("Bearer ".length).trim()
+        : new URL(req.url).searchParams.get("token");
+      if (!token || !tokenMatches(token, expected)) {
+        return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+      }
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    const summary = await metricsPipeline.receive(params.provider, payload);
+    return NextResponse.json(summary);
+  } catch (error) {
+    if (error instanceof MetricsWebhookError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: errorStatus(error) },
+      );
+    }
+    logger.error(
+      "Metrics webhook failed",
+      { error, provider: params.provider },
+      "MetricsWebhook",
+    );
+    return NextResponse.json(
+      { error: "Failed to ingest events" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+
+const getRequestSession = jest.fn<(...args: any[]) => Promise<any>>();
+const resolveWorkspaceAccess = jest.fn<(...args: any[]) => Promise<any>>();
+const get = jest.fn<(key: string) => Promise<Buffer | null>>();
+
+jest.mock("../../../../../server/auth", () => ({
+  getRequestSession,
+  resolveWorkspaceAccess,
+}));
+
+jest.mock("@neon/utils", () => ({
+  logger: { error: jest.fn() },
+}));
+
+jest.mock(
+  "@neon/core-agents",
+  () => ({
+    createPresentationFileStore: () => ({ get }),
+    presentationFileKey: (workspaceId: string, id: string, format: string) =>
+      `${workspaceId}/${id}.${format}`,
+    PRESENTATION_CONTENT_TYPES: {
+      pdf: "application/pdf",
+      pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      html: "text/html; charset=utf-8",
+    },
+  }),
+  // Resolved through tsconfig paths by Next, not by jest
+  { virtual: true },
+);
+
+import { GET } from "./route";
+
+const download = (file: string) =>
+  GET(new Request(`http://localhost/api/presentations/ws-1/${file}`), {
+    params: { workspaceId: "ws-1", file },
+  });
+
+describe("GET /api/presentations/[workspaceId]/[file]", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getRequestSession.mockResolvedValue({ user: { id: "user-1" } });
+    resolveWorkspaceAccess.mockResolvedValue({
+      workspaceId: "ws-1",
+      role: "USER",
+    });
+  });
+
+  it("should reject anonymous requests", async () => {
+    getRequestSession.mockResolvedValue(null);
+
+    const response = await download("pres_1.pdf");
+
+    expect(response.status).toBe(401);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it("should reject callers outside the workspace", async () => {
+    resolveWorkspaceAccess.mockResolvedValue(null);
+
+    const response = await download("pres_1.pdf");
+
+    expect(response.status).toBe(403);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it("should stream the stored file as an attachment", async () => {
+    get.mockResolvedValue(Buffer.from("%PDF-1.4"));
+
+    const response = await download("pres_1.pdf");
+
+    expect(get).toHaveBeenCalledWith("ws-1/pres_1.pdf");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/pdf");
+    expect(response.headers.get("content-disposition")).toBe(
+      'attachment; filename="pres_1.pdf"',
+    );
+    expect(Buffer.from(await response.arrayBuffer()).toString()).toBe(
+      "%PDF-1.4",
+    );
+  });
+
+  it("should return 404 for unknown files and formats", async () => {
+    get.mockResolvedValue(null);
+
+    expect((await download("pres_1.pptx")).status).toBe(404);
+    expect((await download("../secrets.pdf")).status).toBe(404);
+    expect((await download("pres_1.exe")).status).toBe(404);
+  });
+});
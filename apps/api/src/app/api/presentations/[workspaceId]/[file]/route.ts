@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import {
+  createPresentationFileStore,
+  presentationFileKey,
+  PRESENTATION_CONTENT_TYPES,
+  type PresentationFileFormat,
+} from "@neon/core-agents";
+import { logger } from "@neon/utils";
+import {
+  getRequestSession,
+  resolveWorkspaceAccess,
+} from "../../../../../server/auth";
+
+/**
+ * Downloads rendered boardroom presentations, e.g.
+ * GET /api/presentations/<workspaceId>/<presentationId>.pdf
+ * Callers need a session or API key and access to the workspace.
+ */
+
+const fileStore = createPresentationFileStore();
+const FILE_PATTERN = /^([A-Za-z0-9_-]+)\.(pdf|pptx|html)$/;
+
+export async function GET(
+  req: Request,
+  { params }: { params: { workspaceId: string; file: string } },
+) {
+  const session = await getRequestSession(req);
+  if (!session) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 },
+    );
+  }
+
+  const match = FILE_PATTERN.exec(params.file);
+  if (!match) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  const access = await resolveWorkspaceAccess(session, params.workspaceId);
+  if (!access) {
+    return NextResponse.json(
+      { error: "You do not have access to this workspace" },
+      { status: 403 },
+    );
+  }
+
+  const presentationId = match[1]!;
+  const format = match[2] as PresentationFileFormat;
+
+  try {
+    const data = await fileStore.get(
+      presentationFileKey(access.workspaceId, presentationId, format),
+    );
+    if (!data) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": PRESENTATION_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${params.file}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    logger.error(
+      "Presentation download failed",
+      { error, file: params.file },
+      "PresentationDownload",
+    );
+    return NextResponse.json(
+      { error: "Failed to load presentation" },
+      { status: 500 },
+    );
+  }
+}
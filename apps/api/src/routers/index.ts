@@ -6,7 +6,6 @@ import { agentRouter } from "./agent";
 import { agentsRouter } from "../trpc/agents";
 import { trendRouter } from "./trend";
 import { customerRouter } from "./customer";
-import { campaignRouter } from "./campaign";
 
 /**
  * This is the primary router for your server.
@@ -21,7 +20,6 @@ export const appRouter = createTRPCRouter({
   agents: agentsRouter,
   trend: trendRouter,
   customer: customerRouter,
-  campaign: campaignRouter,
 });
 
 // Export type definition of API
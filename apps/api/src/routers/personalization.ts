@@ -1,15 +1,34 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import {
-  createTRPCRouter,
-  publicProcedure,
-  protectedProcedure,
-} from "../server/trpc";
-import { BrandVoiceAgent } from "@neon/core-agents";
+import { createTRPCRouter, workspaceProcedure } from "../server/trpc";
+import { BrandVoiceAgent, PersonalizationError } from "@neon/core-agents";
 import { logger } from "@neon/utils";
+import type { db } from "@neon/data-model";
+import { behaviorRules, segmentEngine } from "../server/behavior-tracking";
 
 // Initialize Brand Voice Agent for tone adaptation
 const brandVoiceAgent = new BrandVoiceAgent();
 
+const PERSONALIZATION_ERROR_CODES = {
+  INVALID_CONDITION: "BAD_REQUEST",
+  INVALID_ACTION: "BAD_REQUEST",
+  INVALID_EVENTS: "BAD_REQUEST",
+  NOT_FOUND: "NOT_FOUND",
+  INACTIVE: "PRECONDITION_FAILED",
+} as const;
+
+// Report rule errors with a matching tRPC code, listing every issue;
+// anything else becomes the procedure's own error
+function personalizationError(error: unknown, fallback: string): Error {
+  if (error instanceof PersonalizationError) {
+    return new TRPCError({
+      code: PERSONALIZATION_ERROR_CODES[error.code],
+      message: [error.message, ...error.issues].join("\n"),
+    });
+  }
+  return new Error(fallback);
+}
+
 // Define proper interfaces instead of using 'any' types
 interface UserSegmentCriteria {
   ageRange?: string;
@@ -31,29 +50,6 @@ interface UserPersonaBehaviorTraits {
   activityPattern?: string;
 }
 
-interface BehaviorTriggerConditions {
-  url?: string;
-  timeSpent?: number;
-  scrollPercentage?: number;
-  clickCount?: number;
-  pageViews?: number;
-}
-
-interface BehaviorTriggerAction {
-  type: string;
-  content?: string;
-  redirect?: string;
-  display?: string;
-  data?: Record<string, unknown>;
-}
-
-interface PersonalizationRuleConditions {
-  triggerType?: string;
-  segmentId?: string;
-  userScore?: number;
-  timeOfDay?: string;
-}
-
 interface PersonalizationRuleActions {
   contentToShow?: string[];
   contentToHide?: string[];
@@ -115,8 +111,8 @@ interface BehaviorLogEventData {
 const UserSegmentSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().optional(),
+  // An { expression } in the rule language, or a condition tree
   criteria: z.record(z.unknown()),
-  size: z.number().int().min(0).default(0),
   isActive: z.boolean().default(true),
 });
 
@@ -149,8 +145,10 @@ const BehaviorTriggerSchema = z.object({
     "CONTENT_PREFERENCE",
     "CHANNEL_PREFERENCE",
   ]),
+  // An { expression } in the rule language, or a condition tree
   conditions: z.record(z.unknown()),
-  action: z.record(z.unknown()),
+  // One action or a list of them
+  action: z.union([z.record(z.unknown()), z.array(z.record(z.unknown()))]),
   priority: z.number().int().min(1).default(1),
   isActive: z.boolean().default(true),
 });
@@ -169,7 +167,7 @@ const PersonalizationRuleSchema = z.object({
     "CALL_TO_ACTION",
   ]),
   conditions: z.record(z.unknown()),
-  actions: z.record(z.unknown()),
+  actions: z.union([z.record(z.unknown()), z.array(z.record(z.unknown()))]),
   priority: z.number().int().min(1).default(1),
   isActive: z.boolean().default(true),
 });
@@ -193,6 +191,18 @@ const CampaignFeedbackSchema = z.object({
   recommendations: z.record(z.unknown()).optional(),
 });
 
+// Who triggers and rules are evaluated for
+const RuleSubjectSchema = z.object({
+  context: z.record(z.unknown()),
+  userId: z.string().optional(),
+  sessionId: z.string().optional(),
+  personaId: z.string().optional(),
+  segmentIds: z.array(z.string()).optional(),
+  // Makes a retried call run its actions once
+  eventId: z.string().optional(),
+  timeZone: z.string().optional(),
+});
+
 const BehaviorLogSchema = z.object({
   userId: z.string().optional(),
   sessionId: z.string().optional(),
@@ -205,13 +215,24 @@ const BehaviorLogSchema = z.object({
 
 export const personalizationRouter = createTRPCRouter({
   // User Segment Management
-  createUserSegment: protectedProcedure
+  createUserSegment: workspaceProcedure
     .input(UserSegmentSchema)
     .mutation(async ({ ctx, input }) => {
       try {
+        segmentEngine.check(input.criteria);
         const segment = await ctx.db.userSegment.create({
-          data: input,
+          data: { ...input, workspaceId: ctx.workspaceId },
         });
+        // Members are found in the background; size counts them as they are
+        segmentEngine
+          .recompute(ctx.workspaceId, segment.id)
+          .catch((error) =>
+            logger.error(
+              "Failed to compute segment members",
+              { segmentId: segment.id, error },
+              "PersonalizationRouter",
+            ),
+          );
 
         logger.info(
           "User segment created successfully",
@@ -230,13 +251,14 @@ export const personalizationRouter = createTRPCRouter({
           { error: error instanceof Error ? error.message : "Unknown error" },
           "PersonalizationRouter",
         );
-        throw new Error("Failed to create user segment");
+        throw personalizationError(error, "Failed to create user segment");
       }
     }),
 
-  getUserSegments: publicProcedure.query(async ({ ctx }) => {
+  getUserSegments: workspaceProcedure.query(async ({ ctx }) => {
     try {
       const segments = await ctx.db.userSegment.findMany({
+        where: { workspaceId: ctx.workspaceId },
         include: {
           userPersonas: true,
           behaviorTriggers: true,
@@ -265,12 +287,12 @@ export const personalizationRouter = createTRPCRouter({
     }
   }),
 
-  getUserSegment: publicProcedure
+  getUserSegment: workspaceProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
-        const segment = await ctx.db.userSegment.findUnique({
-          where: { id: input.id },
+        const segment = await ctx.db.userSegment.findFirst({
+          where: { id: input.id, workspaceId: ctx.workspaceId },
           include: {
             userPersonas: true,
             behaviorTriggers: true,
@@ -300,11 +322,125 @@ export const personalizationRouter = createTRPCRouter({
       }
     }),
 
+  // Current members, most recent first
+  getSegmentMembers: workspaceProcedure
+    .input(
+      z.object({
+        segmentId: z.string(),
+        limit: z.number().int().min(1).max(500).default(50),
+        offset: z.number().int().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) =>
+      segmentEngine.members(ctx.workspaceId, input.segmentId, input),
+    ),
+
+  // Joins and leaves, with the segment's size after each
+  getSegmentHistory: workspaceProcedure
+    .input(
+      z.object({
+        segmentId: z.string(),
+        memberKey: z.string().optional(),
+        since: z.date().optional(),
+        limit: z.number().int().min(1).max(1000).default(100),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const { segmentId, ...query } = input;
+      return segmentEngine.history(ctx.workspaceId, segmentId, query);
+    }),
+
+  recomputeSegment: workspaceProcedure
+    .input(z.object({ segmentId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await segmentEngine.recompute(ctx.workspaceId, input.segmentId);
+      } catch (error) {
+        throw personalizationError(error, "Failed to recompute user segment");
+      }
+    }),
+
+  // Re-evaluate the segments for one user, session or lead at once
+  evaluateSegmentMember: workspaceProcedure
+    .input(
+      z
+        .object({
+          userId: z.string().optional(),
+          sessionId: z.string().optional(),
+          leadId: z.string().optional(),
+        })
+        .refine(
+          (subject) => subject.userId || subject.sessionId || subject.leadId,
+          { message: "Provide a userId, sessionId or leadId" },
+        ),
+    )
+    .mutation(async ({ ctx, input }) =>
+      segmentEngine.evaluateMember(ctx.workspaceId, input),
+    ),
+
+  // Members with an email address, as recipients, sequence enrollments or
+  // leads of an outreach campaign
+  exportSegment: workspaceProcedure
+    .input(
+      z.object({
+        segmentId: z.string(),
+        to: z.discriminatedUnion("type", [
+          z.object({ type: z.literal("recipients") }),
+          z.object({
+            type: z.literal("email_sequence"),
+            sequenceId: z.string(),
+          }),
+          z.object({
+            type: z.literal("outreach_campaign"),
+            campaignId: z.string(),
+          }),
+        ]),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { segmentId, to } = input;
+      try {
+        switch (to.type) {
+          case "recipients":
+            return {
+              recipients: await segmentEngine.recipients(
+                ctx.workspaceId,
+                segmentId,
+              ),
+            };
+          case "email_sequence":
+            return await segmentEngine.exportToSequence(
+              ctx.workspaceId,
+              segmentId,
+              to.sequenceId,
+            );
+          case "outreach_campaign":
+            return await segmentEngine.exportToOutreach(
+              ctx.workspaceId,
+              segmentId,
+              to.campaignId,
+            );
+        }
+      } catch (error) {
+        logger.error(
+          "Failed to export user segment",
+          { error: error instanceof Error ? error.message : "Unknown error" },
+          "PersonalizationRouter",
+        );
+        throw personalizationError(
+          error,
+          `Failed to export user segment: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+    }),
+
   // User Persona Management
-  createUserPersona: protectedProcedure
+  createUserPersona: workspaceProcedure
     .input(UserPersonaSchema)
     .mutation(async ({ ctx, input }) => {
       try {
+        await assertSegmentInWorkspace(ctx, input.segmentId);
+
         const persona = await ctx.db.userPersona.create({
           data: input,
           include: {
@@ -333,7 +469,7 @@ export const personalizationRouter = createTRPCRouter({
       }
     }),
 
-  updateUserPersona: protectedProcedure
+  updateUserPersona: workspaceProcedure
     .input(
       z.object({
         id: z.string(),
@@ -342,6 +478,19 @@ export const personalizationRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
+        const existing = await ctx.db.userPersona.findFirst({
+          where: {
+            id: input.id,
+            segment: { workspaceId: ctx.workspaceId },
+          },
+        });
+        if (!existing) {
+          throw new Error("User persona not found");
+        }
+        if (input.data.segmentId) {
+          await assertSegmentInWorkspace(ctx, input.data.segmentId);
+        }
+
         const persona = await ctx.db.userPersona.update({
           where: { id: input.id },
           data: {
@@ -375,12 +524,17 @@ export const personalizationRouter = createTRPCRouter({
     }),
 
   // Behavior Trigger Management
-  createBehaviorTrigger: protectedProcedure
+  createBehaviorTrigger: workspaceProcedure
     .input(BehaviorTriggerSchema)
     .mutation(async ({ ctx, input }) => {
       try {
+        behaviorRules.check(input.conditions, input.action);
+        if (input.segmentId) {
+          await assertSegmentInWorkspace(ctx, input.segmentId);
+        }
+
         const trigger = await ctx.db.behaviorTrigger.create({
-          data: input,
+          data: { ...input, workspaceId: ctx.workspaceId },
           include: {
             segment: true,
             persona: true,
@@ -404,40 +558,22 @@ export const personalizationRouter = createTRPCRouter({
           { error: error instanceof Error ? error.message : "Unknown error" },
           "PersonalizationRouter",
         );
-        throw new Error("Failed to create behavior trigger");
+        throw personalizationError(error, "Failed to create behavior trigger");
       }
     }),
 
-  triggerBehaviorFlow: publicProcedure
-    .input(
-      z.object({
-        triggerId: z.string(),
-        context: z.record(z.unknown()),
-        userId: z.string().optional(),
-        sessionId: z.string().optional(),
-      }),
-    )
+  triggerBehaviorFlow: workspaceProcedure
+    .input(RuleSubjectSchema.extend({ triggerId: z.string() }))
     .mutation(async ({ ctx, input }) => {
       try {
-        const trigger = await ctx.db.behaviorTrigger.findUnique({
-          where: { id: input.triggerId },
-          include: {
-            segment: true,
-            persona: true,
-          },
-        });
-
-        if (!trigger || !trigger.isActive) {
-          throw new Error("Behavior trigger not found or inactive");
-        }
-
-        // Check if conditions are met
-        const conditionsMet = await evaluateTriggerConditions(
-          trigger.conditions,
-          input.context,
+        const { triggerId, ...subject } = input;
+        const run = await behaviorRules.fireTrigger(
+          ctx.workspaceId,
+          triggerId,
+          subject,
         );
 
-        if (!conditionsMet) {
+        if (!run.triggered) {
           return {
             success: false,
             message: "Trigger conditions not met",
@@ -445,54 +581,12 @@ export const personalizationRouter = createTRPCRouter({
           };
         }
 
-        // Execute the trigger action
-        const result = await executeTriggerAction(
-          trigger.action,
-          input.context,
-          trigger.persona,
-        );
-
-        // Update trigger execution count
-        await ctx.db.behaviorTrigger.update({
-          where: { id: trigger.id },
-          data: {
-            executionCount: { increment: 1 },
-            lastExecuted: new Date(),
-            successRate: result.success
-              ? (trigger.successRate || 0) * 0.9 + 0.1
-              : (trigger.successRate || 0) * 0.9,
-          },
-        });
-
-        // Log the behavior event
-        if (input.userId || input.sessionId) {
-          await ctx.db.userBehaviorLog.create({
-            data: {
-              userId: input.userId,
-              sessionId: input.sessionId,
-              eventType: `trigger_${trigger.triggerType.toLowerCase()}`,
-              eventData: {
-                triggerId: trigger.id,
-                triggerName: trigger.name,
-                action: trigger.action,
-                result,
-              },
-            },
-          });
-        }
-
-        logger.info(
-          "Behavior trigger executed successfully",
-          { triggerId: trigger.id, success: result.success },
-          "PersonalizationRouter",
-        );
-
         return {
           success: true,
           data: {
             triggered: true,
-            trigger: trigger.name,
-            action: result,
+            succeeded: run.success,
+            actions: run.results,
           },
           message: "Behavior trigger executed successfully",
         };
@@ -502,17 +596,30 @@ export const personalizationRouter = createTRPCRouter({
           { error: error instanceof Error ? error.message : "Unknown error" },
           "PersonalizationRouter",
         );
-        throw new Error("Failed to execute behavior trigger");
+        throw personalizationError(error, "Failed to execute behavior trigger");
+      }
+    }),
+
+  // Whether a condition holds for a user, without running any actions
+  testRuleCondition: workspaceProcedure
+    .input(RuleSubjectSchema.extend({ conditions: z.record(z.unknown()) }))
+    .mutation(async ({ ctx, input }) => {
+      const { conditions, ...subject } = input;
+      try {
+        return await behaviorRules.test(ctx.workspaceId, conditions, subject);
+      } catch (error) {
+        throw personalizationError(error, "Failed to test rule condition");
       }
     }),
 
   // Personalization Rules
-  createPersonalizationRule: protectedProcedure
+  createPersonalizationRule: workspaceProcedure
     .input(PersonalizationRuleSchema)
     .mutation(async ({ ctx, input }) => {
       try {
+        behaviorRules.check(input.conditions, input.actions);
         const rule = await ctx.db.personalizationRule.create({
-          data: input,
+          data: { ...input, workspaceId: ctx.workspaceId },
         });
 
         logger.info(
@@ -532,14 +639,17 @@ export const personalizationRouter = createTRPCRouter({
           { error: error instanceof Error ? error.message : "Unknown error" },
           "PersonalizationRouter",
         );
-        throw new Error("Failed to create personalization rule");
+        throw personalizationError(
+          error,
+          "Failed to create personalization rule",
+        );
       }
     }),
 
-  getPersonalizationRules: publicProcedure.query(async ({ ctx }) => {
+  getPersonalizationRules: workspaceProcedure.query(async ({ ctx }) => {
     try {
       const rules = await ctx.db.personalizationRule.findMany({
-        where: { isActive: true },
+        where: { workspaceId: ctx.workspaceId, isActive: true },
         orderBy: [{ priority: "desc" }, { createdAt: "desc" }],
       });
 
@@ -558,11 +668,53 @@ export const personalizationRouter = createTRPCRouter({
     }
   }),
 
+  // Run the rules whose conditions a user meets, highest priority first
+  applyPersonalizationRules: workspaceProcedure
+    .input(
+      RuleSubjectSchema.extend({
+        ruleType: PersonalizationRuleSchema.shape.ruleType.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { ruleType, ...subject } = input;
+      try {
+        const runs = await behaviorRules.applyRules(ctx.workspaceId, subject, {
+          ruleType,
+        });
+        return {
+          success: true,
+          data: runs,
+          message: `${runs.length} personalization rules applied`,
+        };
+      } catch (error) {
+        logger.error(
+          "Failed to apply personalization rules",
+          { error: error instanceof Error ? error.message : "Unknown error" },
+          "PersonalizationRouter",
+        );
+        throw personalizationError(
+          error,
+          "Failed to apply personalization rules",
+        );
+      }
+    }),
+
   // Campaign Feedback
-  submitCampaignFeedback: protectedProcedure
+  submitCampaignFeedback: workspaceProcedure
     .input(CampaignFeedbackSchema)
     .mutation(async ({ ctx, input }) => {
       try {
+        const campaign = await ctx.db.campaign.findFirst({
+          where: { id: input.campaignId, workspaceId: ctx.workspaceId },
+          select: { id: true },
+        });
+        if (!campaign) {
+          throw new Error("Campaign not found");
+        }
+        if (input.segmentId) {
+          await assertSegmentInWorkspace(ctx, input.segmentId);
+        }
+
         const feedback = await ctx.db.campaignFeedback.create({
           data: input,
         });
@@ -607,12 +759,15 @@ export const personalizationRouter = createTRPCRouter({
       }
     }),
 
-  getCampaignFeedback: publicProcedure
+  getCampaignFeedback: workspaceProcedure
     .input(z.object({ campaignId: z.string() }))
     .query(async ({ ctx, input }) => {
       try {
         const feedback = await ctx.db.campaignFeedback.findMany({
-          where: { campaignId: input.campaignId },
+          where: {
+            campaignId: input.campaignId,
+            campaign: { workspaceId: ctx.workspaceId },
+          },
           include: {
             segment: true,
             persona: true,
@@ -636,17 +791,29 @@ export const personalizationRouter = createTRPCRouter({
     }),
 
   // Behavior Logging
-  logUserBehavior: publicProcedure
+  logUserBehavior: workspaceProcedure
     .input(BehaviorLogSchema)
     .mutation(async ({ ctx, input }) => {
       try {
         const log = await ctx.db.userBehaviorLog.create({
-          data: input,
+          data: { ...input, workspaceId: ctx.workspaceId },
         });
+        const segments = await segmentEngine
+          .evaluateMember(ctx.workspaceId, input)
+          .catch((error) => {
+            // The hourly recompute catches up
+            logger.warn(
+              "Failed to update segment members",
+              { error: error instanceof Error ? error.message : error },
+              "PersonalizationRouter",
+            );
+            return { joined: [], left: [] };
+          });
 
         return {
           success: true,
           data: log,
+          segments,
           message: "User behavior logged successfully",
         };
       } catch (error) {
@@ -660,12 +827,14 @@ export const personalizationRouter = createTRPCRouter({
     }),
 
   // Tone Adaptation
-  adaptToneForSegment: publicProcedure
+  adaptToneForSegment: workspaceProcedure
     .input(
       z.object({
         content: z.string(),
         segmentId: z.string(),
-        contentType: z.enum(["email", "social", "blog", "ad", "general"]).optional(),
+        contentType: z
+          .enum(["email", "social", "blog", "ad", "general"])
+          .optional(),
         targetTone: z.string().optional(),
         fallbackTone: z.string().optional(),
       }),
@@ -673,8 +842,8 @@ export const personalizationRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       try {
         // Get segment information
-        const segment = await ctx.db.userSegment.findUnique({
-          where: { id: input.segmentId },
+        const segment = await ctx.db.userSegment.findFirst({
+          where: { id: input.segmentId, workspaceId: ctx.workspaceId },
           include: {
             userPersonas: true,
           },
@@ -728,55 +897,40 @@ export const personalizationRouter = createTRPCRouter({
 });
 
 // Helper functions
-async function evaluateTriggerConditions(
-  conditions: BehaviorTriggerConditions,
-  context: Record<string, unknown>,
-): Promise<boolean> {
-  // Implement condition evaluation logic
-  // This is a simplified example - in reality, you'd have more complex logic
-  for (const [key, value] of Object.entries(conditions)) {
-    if (context[key] !== value) {
-      return false;
-    }
-  }
-  return true;
-}
 
-async function executeTriggerAction(
-  action: BehaviorTriggerAction,
-  context: Record<string, unknown>,
-  persona: UserPersona | null,
-): Promise<{ success: boolean; result: Record<string, unknown> }> {
-  // Implement action execution logic
-  // This could involve updating UI state, sending notifications, etc.
-  try {
-    return {
-      success: true,
-      result: {
-        actionType: action.type,
-        actionData: action.data,
-        personaApplied: persona?.name,
-        context,
-      },
-    };
-  } catch (error) {
-    return {
-      success: false,
-      result: { error: error instanceof Error ? error.message : "Unknown error" },
-    };
+// Segments referenced by personas, triggers and feedback must belong to the
+// caller's workspace
+async function assertSegmentInWorkspace(
+  ctx: { db: typeof db; workspaceId: string },
+  segmentId: string,
+): Promise<void> {
+  const segment = await ctx.db.userSegment.findFirst({
+    where: { id: segmentId, workspaceId: ctx.workspaceId },
+    select: { id: true },
+  });
+
+  if (!segment) {
+    throw new Error("User segment not found");
   }
 }
 
 async function processCampaignFeedback(
-  feedback: { metrics: CampaignFeedbackMetrics; feedbackType: string; segmentId?: string },
+  feedback: {
+    metrics: CampaignFeedbackMetrics;
+    feedbackType: string;
+    segmentId?: string;
+  },
   brandVoiceAgent: BrandVoiceAgent,
-): Promise<{ insights: CampaignFeedbackInsights; recommendations: CampaignFeedbackRecommendations }> {
+): Promise<{
+  insights: CampaignFeedbackInsights;
+  recommendations: CampaignFeedbackRecommendations;
+}> {
   // Process feedback using AI to generate insights and recommendations
   try {
     const performanceAnalysis = analyzeFeedbackMetrics(feedback.metrics);
     const segmentInsights = generateSegmentInsights(feedback);
     const trendAnalysis = analyzeFeedbackTrends(feedback);
-    
+
     const insights: CampaignFeedbackInsights = {
       performanceScore: performanceAnalysis.overallScore,
       topPerformingContent: performanceAnalysis.strengths,
@@ -787,9 +941,15 @@ async function processCampaignFeedback(
 
     const recommendations: CampaignFeedbackRecommendations = {
       contentOptimization: generateContentRecommendations(insights),
-      toneAdjustments: await generateToneRecommendations(insights, brandVoiceAgent),
+      toneAdjustments: await generateToneRecommendations(
+        insights,
+        brandVoiceAgent,
+      ),
       targetingImprovements: generateTargetingRecommendations(insights),
-      timingOptimization: ["Test different send times", "Optimize for time zones"],
+      timingOptimization: [
+        "Test different send times",
+        "Optimize for time zones",
+      ],
     };
 
     return { insights, recommendations };
@@ -801,7 +961,9 @@ async function processCampaignFeedback(
   }
 }
 
-function analyzeFeedbackMetrics(metrics: CampaignFeedbackMetrics): CampaignFeedbackInsights {
+function analyzeFeedbackMetrics(
+  metrics: CampaignFeedbackMetrics,
+): CampaignFeedbackInsights {
   // Analyze metrics to extract performance insights
   return {
     overallScore: calculateOverallScore(metrics),
@@ -810,7 +972,10 @@ function analyzeFeedbackMetrics(metrics: CampaignFeedbackMetrics): CampaignFeedb
   };
 }
 
-function generateSegmentInsights(feedback: { segmentId?: string; metrics: CampaignFeedbackMetrics }): Record<string, unknown> {
+function generateSegmentInsights(feedback: {
+  segmentId?: string;
+  metrics: CampaignFeedbackMetrics;
+}): Record<string, unknown> {
   // Generate insights specific to the segment
   return {
     segmentPerformance: "above_average",
@@ -819,7 +984,9 @@ function generateSegmentInsights(feedback: { segmentId?: string; metrics: Campai
   };
 }
 
-function analyzeFeedbackTrends(feedback: { metrics: CampaignFeedbackMetrics }): Record<string, unknown> {
+function analyzeFeedbackTrends(feedback: {
+  metrics: CampaignFeedbackMetrics;
+}): Record<string, unknown> {
   // Analyze trends in the feedback data
   return {
     direction: "improving",
@@ -828,19 +995,24 @@ function analyzeFeedbackTrends(feedback: { metrics: CampaignFeedbackMetrics }):
   };
 }
 
-function generateContentRecommendations(insights: Record<string, unknown>): string[] {
+function generateContentRecommendations(
+  insights: Record<string, unknown>,
+): string[] {
   // Generate content recommendations based on insights
   const recommendations: string[] = [];
-  
+
   // Add recommendations based on performance
   recommendations.push("Use more educational content");
   recommendations.push("Include case studies");
   recommendations.push("Test video formats");
-  
+
   return recommendations;
 }
 
-async function generateToneRecommendations(insights: Record<string, unknown>, brandVoiceAgent: BrandVoiceAgent): Promise<string[]> {
+async function generateToneRecommendations(
+  insights: Record<string, unknown>,
+  brandVoiceAgent: BrandVoiceAgent,
+): Promise<string[]> {
   // Generate tone recommendations using the brand voice agent
   try {
     const result = await brandVoiceAgent.execute({
@@ -850,34 +1022,36 @@ async function generateToneRecommendations(insights: Record<string, unknown>, br
     });
 
     if (result.toneRecommendations) {
-      return result.toneRecommendations.map(rec => 
-        `${rec.segment}: ${rec.recommendedTone}`
+      return result.toneRecommendations.map(
+        (rec) => `${rec.segment}: ${rec.recommendedTone}`,
       );
     }
-    
+
     return [];
   } catch (error) {
     return [];
   }
 }
 
-function generateTargetingRecommendations(insights: Record<string, unknown>): string[] {
+function generateTargetingRecommendations(
+  insights: Record<string, unknown>,
+): string[] {
   // Generate targeting recommendations
   const recommendations: string[] = [];
-  
+
   recommendations.push("Expand to similar demographics");
   recommendations.push("Refine behavior-based targeting");
   recommendations.push("Exclude low engagement segments");
-  
+
   return recommendations;
 }
 
 function calculateOverallScore(metrics: CampaignFeedbackMetrics): number {
   // Calculate overall performance score
-  const scores = Object.values(metrics).filter((value) =>
-    typeof value === "number" && value >= 0 && value <= 100,
+  const scores = Object.values(metrics).filter(
+    (value) => typeof value === "number" && value >= 0 && value <= 100,
   ) as number[];
-  
+
   if (scores.length === 0) return 0;
   return scores.reduce((sum, score) => sum + score, 0) / scores.length;
 }
@@ -885,31 +1059,37 @@ function calculateOverallScore(metrics: CampaignFeedbackMetrics): number {
 function identifyStrengths(metrics: CampaignFeedbackMetrics): string[] {
   // Identify performance strengths
   const strengths: string[] = [];
-  if (metrics.engagementRate && metrics.engagementRate > 0.25) strengths.push("high_engagement");
-  if (metrics.conversionRate && metrics.conversionRate > 0.05) strengths.push("strong_conversion");
-  if (metrics.clickThroughRate && metrics.clickThroughRate > 0.1) strengths.push("good_ctr");
+  if (metrics.engagementRate && metrics.engagementRate > 0.25)
+    strengths.push("high_engagement");
+  if (metrics.conversionRate && metrics.conversionRate > 0.05)
+    strengths.push("strong_conversion");
+  if (metrics.clickThroughRate && metrics.clickThroughRate > 0.1)
+    strengths.push("good_ctr");
   return strengths;
 }
 
 function identifyWeaknesses(metrics: CampaignFeedbackMetrics): string[] {
   // Identify performance weaknesses
   const weaknesses: string[] = [];
-  if (metrics.engagementRate && metrics.engagementRate < 0.15) weaknesses.push("low_engagement");
-  if (metrics.conversionRate && metrics.conversionRate < 0.02) weaknesses.push("poor_conversion");
-  if (metrics.bounceRate && metrics.bounceRate > 0.7) weaknesses.push("retention_issues");
+  if (metrics.engagementRate && metrics.engagementRate < 0.15)
+    weaknesses.push("low_engagement");
+  if (metrics.conversionRate && metrics.conversionRate < 0.02)
+    weaknesses.push("poor_conversion");
+  if (metrics.bounceRate && metrics.bounceRate > 0.7)
+    weaknesses.push("retention_issues");
   return weaknesses;
 }
 
 function mapSegmentToAudienceSegment(segmentName: string): string {
   // Map internal segment names to brand voice agent audience segments
   const mapping: Record<string, string> = {
-    "enterprise": "enterprise",
+    enterprise: "enterprise",
     "small business": "smb",
-    "agency": "agencies",
+    agency: "agencies",
     "e-commerce": "ecommerce",
-    "saas": "saas",
-    "consumer": "consumer",
-    "investor": "investor",
+    saas: "saas",
+    consumer: "consumer",
+    investor: "investor",
     "gen z": "gen_z",
   };
 
@@ -921,4 +1101,4 @@ function mapSegmentToAudienceSegment(segmentName: string): string {
   }
 
   return "consumer"; // default fallback
-}
\ No newline at end of file
+}
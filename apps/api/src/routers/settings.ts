@@ -1,6 +1,8 @@
 import { z } from "zod";
 import {
+  adminProcedure,
   createTRPCRouter,
+  managerProcedure,
   publicProcedure,
   protectedProcedure,
 } from "../server/trpc";
@@ -132,7 +134,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Create or update setting
-  setSetting: protectedProcedure
+  setSetting: adminProcedure
     .input(SettingSchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -191,7 +193,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Update setting value
-  updateSetting: protectedProcedure
+  updateSetting: adminProcedure
     .input(SettingUpdateSchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -228,7 +230,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Delete setting
-  deleteSetting: protectedProcedure
+  deleteSetting: adminProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       try {
@@ -273,7 +275,7 @@ export const settingsRouter = createTRPCRouter({
   // === API KEY MANAGEMENT ===
 
   // Get API keys (masked for security)
-  getAPIKeys: protectedProcedure
+  getAPIKeys: adminProcedure
     .input(
       z.object({
         service: z.string().optional(),
@@ -310,7 +312,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Create API key
-  createAPIKey: protectedProcedure
+  createAPIKey: adminProcedure
     .input(APIKeySchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -364,7 +366,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Update API key
-  updateAPIKey: protectedProcedure
+  updateAPIKey: adminProcedure
     .input(APIKeyUpdateSchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -399,7 +401,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Delete API key
-  deleteAPIKey: protectedProcedure
+  deleteAPIKey: adminProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       try {
@@ -525,7 +527,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Create prompt template
-  createPromptTemplate: protectedProcedure
+  createPromptTemplate: managerProcedure
     .input(PromptTemplateSchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -560,7 +562,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Update prompt template
-  updatePromptTemplate: protectedProcedure
+  updatePromptTemplate: managerProcedure
     .input(PromptTemplateUpdateSchema)
     .mutation(async ({ ctx, input }) => {
       try {
@@ -594,7 +596,7 @@ export const settingsRouter = createTRPCRouter({
     }),
 
   // Delete prompt template
-  deletePromptTemplate: protectedProcedure
+  deletePromptTemplate: managerProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       try {
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { TRPCError } from "@trpc/server";
+import { db } from "@neon/data-model";
+import {
+  generateApiKey,
+  getRequestSession,
+  hasRole,
+  hashApiKey,
+  type Session,
+} from "./auth";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+  publicProcedure,
+  superAdminProcedure,
+  workspaceProcedure,
+} from "./trpc";
+
+jest.mock("@neon/data-model", () => ({
+  DEFAULT_WORKSPACE_ID: "default",
+  UserRole: {
+    USER: "USER",
+    ADMIN: "ADMIN",
+    MANAGER: "MANAGER",
+    SUPER_ADMIN: "SUPER_ADMIN",
+    VIEWER: "VIEWER",
+  },
+  db: {
+    session: { findUnique: jest.fn() },
+    userApiKey: { findUnique: jest.fn(), update: jest.fn() },
+    workspaceMember: { findUnique: jest.fn(), findFirst: jest.fn() },
+  },
+}));
+
+const mockDb = db as any;
+
+const user = {
+  id: "user-1",
+  email: "ops@neonhub.ai",
+  name: "Ops",
+  role: "MANAGER",
+};
+
+const sessionFor = (role: string, extra: Partial<Session> = {}): Session =>
+  ({
+    user: { ...user, role },
+    expires: null,
+    method: "session",
+    ...extra,
+  }) as Session;
+
+const memberOf = (workspaceId: string, role: string) => ({
+  id: `member-${workspaceId}`,
+  workspaceId,
+  userId: user.id,
+  role,
+});
+
+describe("auth", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("hasRole", () => {
+    it("should order roles from viewer to super admin", () => {
+      expect(hasRole("ADMIN", "MANAGER")).toBe(true);
+      expect(hasRole("MANAGER", "ADMIN")).toBe(false);
+      expect(hasRole("VIEWER", "USER")).toBe(false);
+      expect(hasRole("SUPER_ADMIN", "ADMIN")).toBe(true);
+    });
+  });
+
+  describe("generateApiKey", () => {
+    it("should only expose a hash and prefix for storage", () => {
+      const { key, keyHash, keyPrefix } = generateApiKey();
+
+      expect(key.startsWith("neon_")).toBe(true);
+      expect(keyHash).toBe(hashApiKey(key));
+      expect(keyHash).not.toContain(key);
+      expect(key.startsWith(keyPrefix)).toBe(true);
+    });
+  });
+
+  describe("getRequestSession", () => {
+    it("should resolve a session cookie", async () => {
+      mockDb.session.findUnique.mockResolvedValue({
+        sessionToken: "token-1",
+        expires: new Date(Date.now() + 60_000),
+        user,
+      });
+
+      const session = await getRequestSession({
+        headers: { cookie: "theme=dark; next-auth.session-token=token-1" },
+      });
+
+      expect(mockDb.session.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { sessionToken: "token-1" } }),
+      );
+      expect(session?.user.id).toBe("user-1");
+      expect(session?.method).toBe("session");
+    });
+
+    it("should reject expired sessions", async () => {
+      mockDb.session.findUnique.mockResolvedValue({
+        sessionToken: "token-1",
+        expires: new Date(Date.now() - 60_000),
+        user,
+      });
+
+      const session = await getRequestSession({
+        headers: { authorization: "Bearer token-1" },
+      });
+
+      expect(session).toBeNull();
+    });
+
+    it("should resolve API keys by hash from fetch requests", async () => {
+      mockDb.userApiKey.findUnique.mockResolvedValue({
+        id: "key-1",
+        revokedAt: null,
+        expiresAt: null,
+        user,
+      });
+
+      const session = await getRequestSession(
+        new Request("http://localhost/api/trpc", {
+          headers: { "x-api-key": "neon_secret" },
+        }),
+      );
+
+      expect(mockDb.userApiKey.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { keyHash: hashApiKey("neon_secret") },
+        }),
+      );
+      expect(session?.method).toBe("api_key");
+      expect(session?.apiKeyId).toBe("key-1");
+    });
+
+    it("should reject revoked API keys", async () => {
+      mockDb.userApiKey.findUnique.mockResolvedValue({
+        id: "key-1",
+        revokedAt: new Date(),
+        expiresAt: null,
+        user,
+      });
+
+      const session = await getRequestSession({
+        headers: { authorization: "Bearer neon_secret" },
+      });
+
+      expect(session).toBeNull();
+    });
+  });
+
+  describe("procedures", () => {
+    const router = createTRPCRouter({
+      open: publicProcedure.query(() => "open"),
+      mine: protectedProcedure.query(({ ctx }) => ctx.session.user.id),
+      admin: adminProcedure.mutation(() => "done"),
+      platform: superAdminProcedure.mutation(() => "done"),
+      workspace: workspaceProcedure.query(({ ctx }) => ctx.workspaceId),
+    });
+
+    const callerFor = (
+      session: Session | null,
+      headers: Record<string, string> = {},
+    ) =>
+      router.createCaller({
+        db: mockDb,
+        req: { headers } as any,
+        res: {} as any,
+        session,
+      });
+
+    it("should reject anonymous callers on protected procedures", async () => {
+      const caller = callerFor(null);
+
+      await expect(caller.open()).resolves.toBe("open");
+      await expect(caller.mine()).rejects.toMatchObject({
+        code: "UNAUTHORIZED",
+      });
+    });
+
+    it("should enforce the required role within the workspace", async () => {
+      mockDb.workspaceMember.findFirst.mockResolvedValue(
+        memberOf("ws-1", "MANAGER"),
+      );
+      await expect(callerFor(sessionFor("ADMIN")).admin()).rejects.toThrow(
+        TRPCError,
+      );
+      await expect(
+        callerFor(sessionFor("ADMIN")).admin(),
+      ).rejects.toMatchObject({ code: "FORBIDDEN" });
+
+      mockDb.workspaceMember.findFirst.mockResolvedValue(
+        memberOf("ws-1", "ADMIN"),
+      );
+      await expect(callerFor(sessionFor("USER")).admin()).resolves.toBe("done");
+    });
+
+    it("should keep platform operations from workspace admins", async () => {
+      mockDb.workspaceMember.findFirst.mockResolvedValue(
+        memberOf("ws-1", "ADMIN"),
+      );
+      await expect(
+        callerFor(sessionFor("ADMIN")).platform(),
+      ).rejects.toMatchObject({ code: "FORBIDDEN" });
+
+      await expect(
+        callerFor(sessionFor("SUPER_ADMIN")).platform(),
+      ).resolves.toBe("done");
+    });
+
+    it("should act in the requested workspace only for members", async () => {
+      mockDb.workspaceMember.findUnique.mockResolvedValueOnce(
+        memberOf("ws-2", "USER"),
+      );
+      await expect(
+        callerFor(sessionFor("USER"), { "x-workspace-id": "ws-2" }).workspace(),
+      ).resolves.toBe("ws-2");
+      expect(mockDb.workspaceMember.findUnique).toHaveBeenCalledWith({
+        where: {
+          workspaceId_userId: { workspaceId: "ws-2", userId: "user-1" },
+        },
+      });
+
+      mockDb.workspaceMember.findUnique.mockResolvedValueOnce(null);
+      await expect(
+        callerFor(sessionFor("ADMIN"), {
+          "x-workspace-id": "ws-3",
+        }).workspace(),
+      ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    });
+
+    it("should keep workspace-bound API keys in their workspace", async () => {
+      const keySession = sessionFor("USER", {
+        method: "api_key",
+        workspaceId: "ws-1",
+      });
+      mockDb.workspaceMember.findUnique.mockResolvedValue(
+        memberOf("ws-1", "USER"),
+      );
+
+      await expect(callerFor(keySession).workspace()).resolves.toBe("ws-1");
+      await expect(
+        callerFor(keySession, { "x-workspace-id": "ws-2" }).workspace(),
+      ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { createHash, randomBytes } from "crypto";
+import { db, DEFAULT_WORKSPACE_ID, UserRole } from "@neon/data-model";
+
+/**
+ * Request authentication for the tRPC API. Callers authenticate either
+ * with a dashboard session (the NextAuth database session cookie, or its
+ * token as a bearer token) or with a user API key sent as `x-api-key` or
+ * `Authorization: Bearer neon_...`.
+ */
+
+export const API_KEY_PREFIX = "neon_";
+
+// Selects the workspace a request acts in
+export const WORKSPACE_HEADER = "x-workspace-id";
+
+const SESSION_COOKIES = [
+  "__Secure-next-auth.session-token",
+  "next-auth.session-token",
+];
+
+// Lowest to highest; a role may call anything allowed to the roles below it
+export const ROLE_HIERARCHY: readonly UserRole[] = [
+  UserRole.VIEWER,
+  UserRole.USER,
+  UserRole.MANAGER,
+  UserRole.ADMIN,
+  UserRole.SUPER_ADMIN,
+];
+
+export type AuthMethod = "session" | "api_key";
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+}
+
+export interface Session {
+  user: SessionUser;
+  expires: Date | null;
+  method: AuthMethod;
+  apiKeyId?: string;
+  // Set when the API key is bound to a single workspace
+  workspaceId?: string;
+}
+
+export interface WorkspaceAccess {
+  workspaceId: string;
+  // The caller's role inside the workspace
+  role: UserRole;
+}
+
+// Incoming requests are either Node/Express requests or fetch Requests
+type RequestLike =
+  | { headers: Headers }
+  | { headers: Record<string, string | string[] | undefined> }
+  | undefined;
+
+export function getHeader(req: RequestLike, name: string): string | undefined {
+  if (!req?.headers) return undefined;
+
+  if (typeof (req.headers as Headers).get === "function") {
+    return (req.headers as Headers).get(name) ?? undefined;
+  }
+
+  const value = (req.headers as Record<string, string | string[] | undefined>)[
+    name.toLowerCase()
+  ];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function getCookie(req: RequestLike, name: string): string | undefined {
+  const header = getHeader(req, "cookie");
+  if (!header) return undefined;
+
+  for (const part of header.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) {
+      return decodeURIComponent(rest.join("="));
+    }
+  }
+  return undefined;
+}
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_HIERARCHY.indexOf(role) >= ROLE_HIERARCHY.indexOf(required);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Generate a new API key. Only the hash and prefix are persisted.
+ */
+export function generateApiKey(): {
+  key: string;
+  keyHash: string;
+  keyPrefix: string;
+} {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  return {
+    key,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.substring(0, API_KEY_PREFIX.length + 6),
+  };
+}
+
+function toSessionUser(user: {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+}): SessionUser {
+  return { id: user.id, email: user.email, name: user.name, role: user.role };
+}
+
+async function getSessionFromApiKey(key: string): Promise<Session | null> {
+  const apiKey = await db.userApiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    include: { user: true },
+  });
+
+  if (!apiKey || apiKey.revokedAt) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) return null;
+
+  await db.userApiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return {
+    user: toSessionUser(apiKey.user),
+    expires: apiKey.expiresAt,
+    method: "api_key",
+    apiKeyId: apiKey.id,
+    ...(apiKey.workspaceId ? { workspaceId: apiKey.workspaceId } : {}),
+  };
+}
+
+async function getSessionFromToken(
+  sessionToken: string,
+): Promise<Session | null> {
+  const session = await db.session.findUnique({
+    where: { sessionToken },
+    include: { user: true },
+  });
+
+  if (!session || session.expires <= new Date()) return null;
+
+  return {
+    user: toSessionUser(session.user),
+    expires: session.expires,
+    method: "session",
+  };
+}
+
+/**
+ * Resolve the caller of a request. Returns null for anonymous requests
+ * and for unknown, expired or revoked credentials.
+ */
+export async function getRequestSession(
+  req: RequestLike,
+): Promise<Session | null> {
+  try {
+    const apiKeyHeader = getHeader(req, "x-api-key");
+    if (apiKeyHeader) {
+      return await getSessionFromApiKey(apiKeyHeader);
+    }
+
+    const authorization = getHeader(req, "authorization");
+    const bearer = authorization?.startsWith("Bearer ")
+      ? authorization.slice("Bearer ".length).trim()
+      : undefined;
+
+    if (bearer) {
+      return bearer.startsWith(API_KEY_PREFIX)
+        ? await getSessionFromApiKey(bearer)
+        : await getSessionFromToken(bearer);
+    }
+
+    for (const cookie of SESSION_COOKIES) {
+      const token = getCookie(req, cookie);
+      if (token) {
+        return await getSessionFromToken(token);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to resolve request session:", error);
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the workspace a caller acts in and their role there. The
+ * requested workspace defaults to the one an API key is bound to, then to
+ * the caller's oldest membership. Returns null when the caller is not a
+ * member, or when a workspace-bound key asks for a different workspace.
+ * Super admins may act in any workspace with their global role.
+ */
+export async function resolveWorkspaceAccess(
+  session: Session,
+  requestedWorkspaceId?: string,
+): Promise<WorkspaceAccess | null> {
+  if (
+    session.workspaceId &&
+    requestedWorkspaceId &&
+    requestedWorkspaceId !== session.workspaceId
+  ) {
+    return null;
+  }
+
+  const workspaceId = requestedWorkspaceId ?? session.workspaceId;
+  const userId = session.user.id;
+
+  const membership = workspaceId
+    ? await db.workspaceMember.findUnique({
+        where: { workspaceId_userId: { workspaceId, userId } },
+      })
+    : await db.workspaceMember.findFirst({
+        where: { userId },
+        orderBy: { createdAt: "asc" },
+      });
+
+  if (session.user.role === UserRole.SUPER_ADMIN) {
+    return {
+      workspaceId:
+        membership?.workspaceId ?? workspaceId ?? DEFAULT_WORKSPACE_ID,
+      role: UserRole.SUPER_ADMIN,
+    };
+  }
+
+  if (!membership) return null;
+
+  return { workspaceId: membership.workspaceId, role: membership.role };
+}
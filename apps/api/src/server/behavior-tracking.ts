@@ -0,0 +1,18 @@
+import { BehaviorRules, EventIngestor, SegmentEngine } from "@neon/core-agents";
+
+/**
+ * Keeps segment members current as events arrive; the worker's hourly
+ * recompute lets time windows run out.
+ */
+export const segmentEngine = new SegmentEngine();
+
+// Evaluates trigger and rule conditions and runs their actions
+export const behaviorRules = new BehaviorRules(undefined, {
+  segments: segmentEngine,
+});
+
+// Stores batches from POST /api/events and fires the matching triggers
+export const eventIngestor = new EventIngestor(undefined, {
+  rules: behaviorRules,
+  segments: segmentEngine,
+});
@@ -0,0 +1,30 @@
+import {
+  AgentMemoryStore,
+  EmailDeliveryTracker,
+  MetricsPipeline,
+  SendGridEventReceiver,
+  SocialInsightsPuller,
+  abTestSink,
+  smartSchedulerSink,
+} from "@neon/core-agents";
+import { SmartScheduler } from "@neon/core-agents/src/strategy/smart-scheduler";
+import { abTestingManager } from "./routers/ab-testing";
+
+const emailDeliveries = new EmailDeliveryTracker();
+const sendGridEvents = new SendGridEventReceiver();
+
+/**
+ * Feeds engagement from the platforms back into campaign metrics, the
+ * running A/B tests and the send-time model. The worker runs the pullers;
+ * API servers accept the webhooks. SendGrid events also go to the
+ * recipients' event history and suppression lists.
+ */
+export const metricsPipeline = new MetricsPipeline({
+  pullers: [new SocialInsightsPuller()],
+  receivers: [sendGridEvents],
+})
+  .addWebhookListener("sendgrid", async (payload) => {
+    await emailDeliveries.record(sendGridEvents.deliveryEvents(payload));
+  })
+  .addSink(abTestSink(abTestingManager))
+  .addSink(smartSchedulerSink(new SmartScheduler(new AgentMemoryStore())));
@@ -4,7 +4,15 @@
  */
 
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { db } from "@neon/data-model";
+import { createTRPCRouter, workspaceProcedure } from "../trpc";
+import { AgentMemoryStore } from "@neon/core-agents";
+import {
+  ABTestingManager,
+  type ABTestCreationRequest,
+} from "@neon/core-agents/src/strategy/ab-testing-manager";
+import { assertCampaignInWorkspace } from "../workspace";
 
 // Input schemas
 const VariantGenerationRequestSchema = z.object({
@@ -51,6 +59,17 @@ const ABTestCreationRequestSchema = z.object({
         .enum(["open_rate", "click_rate", "conversion_rate", "revenue"])
         .optional(),
       autoWinner: z.boolean().optional(),
+      analysisMode: z
+        .enum(["fixed_horizon", "sequential", "bayesian"])
+        .optional(),
+      multipleComparisonCorrection: z
+        .enum(["holm", "bonferroni", "none"])
+        .optional(),
+      minDetectableEffect: z.number().positive().optional(),
+      expectedLossThreshold: z.number().positive().optional(),
+      trafficSplit: z.enum(["equal", "weighted", "adaptive"]).optional(),
+      banditAlgorithm: z.enum(["thompson_sampling", "ucb"]).optional(),
+      explorationFloor: z.number().min(0).max(50).optional(),
     })
     .optional(),
   targetAudience: z.object({
@@ -82,13 +101,36 @@ const SchedulingRequestSchema = z.object({
     .optional(),
 });
 
+// Initialize A/B testing services
+export const abTestingManager = new ABTestingManager(new AgentMemoryStore());
+
+// A test belongs to the workspace of its campaign
+async function assertTestInWorkspace(
+  workspaceId: string,
+  testId: string,
+): Promise<void> {
+  const campaignId = (
+    await db.aBTest.findUnique({
+      where: { id: testId },
+      select: { campaignId: true },
+    })
+  )?.campaignId;
+
+  if (!campaignId) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "A/B test not found" });
+  }
+  await assertCampaignInWorkspace(workspaceId, campaignId);
+}
+
 export const abTestingRouter = createTRPCRouter({
   /**
    * Generate content variants for A/B testing
    */
-  generateVariants: publicProcedure
+  generateVariants: workspaceProcedure
     .input(VariantGenerationRequestSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       try {
         console.log(`🔀 Generating variants for campaign ${input.campaignId}`);
 
@@ -173,78 +215,16 @@ export const abTestingRouter = createTRPCRouter({
   /**
    * Create and launch A/B test
    */
-  createTest: publicProcedure
+  createTest: workspaceProcedure
     .input(ABTestCreationRequestSchema)
-    .mutation(async ({ input }) => {
-      try {
-        console.log(`🧪 Creating A/B test: ${input.name}`);
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
 
-        // Mock test creation - replace with actual ABTestingManager
-        const mockTest = {
-          id: `abtest_${Date.now()}`,
-          campaignId: input.campaignId,
-          name: input.name,
-          status: "draft" as const,
-          variants: input.variants.map((combination, index) => ({
-            id: `variant_${index}`,
-            name: combination.name,
-            combination,
-            trafficAllocation: 100 / input.variants.length,
-            status: "active" as const,
-            metrics: {
-              impressions: 0,
-              opens: 0,
-              clicks: 0,
-              conversions: 0,
-              revenue: 0,
-              bounces: 0,
-              unsubscribes: 0,
-              openRate: 0,
-              clickRate: 0,
-              conversionRate: 0,
-              revenuePerUser: 0,
-              lastUpdated: new Date(),
-            },
-          })),
-          config: {
-            testType: "split" as const,
-            duration: 2880, // 48 hours
-            minSampleSize: 1000,
-            confidenceLevel: 0.95,
-            statisticalPower: 0.8,
-            primaryMetric: "conversion_rate" as const,
-            secondaryMetrics: ["open_rate", "click_rate", "revenue"],
-            autoWinner: true,
-            maxDuration: 10080, // 7 days
-            trafficSplit: "equal" as const,
-            ...input.config,
-          },
-          results: {
-            totalImpressions: 0,
-            totalConversions: 0,
-            testProgress: 0,
-            statisticalSignificance: {
-              isSignificant: false,
-              pValue: 1.0,
-              confidenceInterval: [0, 0] as [number, number],
-              sampleSizeReached: false,
-              powerAchieved: false,
-            },
-            recommendation: {
-              action: "continue" as const,
-              reason: "Test just started",
-              confidence: 0.5,
-              expectedLift: 0,
-              estimatedRevenue: 0,
-            },
-            insights: [],
-            performance: [],
-          },
-          createdAt: new Date(),
-        };
-
-        console.log(`✅ A/B test created: ${mockTest.id}`);
-        return mockTest;
+      try {
+        return await abTestingManager.createTest({
+          ...input,
+          config: input.config ?? {},
+        } as ABTestCreationRequest);
       } catch (error) {
         console.error("❌ A/B test creation failed:", error);
         throw new Error(`Failed to create A/B test: ${error}`);
@@ -254,25 +234,24 @@ export const abTestingRouter = createTRPCRouter({
   /**
    * Start an A/B test
    */
-  startTest: publicProcedure
+  startTest: workspaceProcedure
     .input(
       z.object({
         testId: z.string(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertTestInWorkspace(ctx.workspaceId, input.testId);
+
       try {
-        console.log(`🚀 Starting A/B test: ${input.testId}`);
+        const test = await abTestingManager.startTest(input.testId);
 
-        // Mock test start - replace with actual ABTestingManager
-        const result = {
-          testId: input.testId,
-          status: "running" as const,
-          startedAt: new Date(),
+        return {
+          testId: test.id,
+          status: test.status,
+          startedAt: test.startedAt,
           message: "A/B test started successfully",
         };
-
-        return result;
       } catch (error) {
         console.error("❌ Failed to start A/B test:", error);
         throw new Error(`Failed to start A/B test: ${error}`);
@@ -282,128 +261,72 @@ export const abTestingRouter = createTRPCRouter({
   /**
    * Get A/B test results
    */
-  getTestResults: publicProcedure
+  getTestResults: workspaceProcedure
     .input(
       z.object({
         testId: z.string(),
       }),
     )
-    .query(async ({ input }) => {
-      try {
-        console.log(`📊 Fetching A/B test results: ${input.testId}`);
-
-        // Mock test results - replace with actual ABTestingManager
-        const mockResults = {
-          id: input.testId,
-          name: "Holiday Email Campaign A/B Test",
-          status: "running" as const,
-          progress: 65,
-          variants: [
-            {
-              id: "variant_0",
-              name: "Control (Original)",
-              status: "active" as const,
-              metrics: {
-                impressions: 5420,
-                opens: 1407,
-                clicks: 267,
-                conversions: 89,
-                revenue: 2670,
-                openRate: 26.0,
-                clickRate: 19.0,
-                conversionRate: 33.3,
-                revenuePerUser: 0.49,
-                lastUpdated: new Date(),
-              },
-              lift: 0,
-              confidence: 0.95,
-              trafficAllocation: 50,
-            },
-            {
-              id: "variant_1",
-              name: "Personalized Subject",
-              status: "winner" as const,
-              metrics: {
-                impressions: 5380,
-                opens: 1531,
-                clicks: 321,
-                conversions: 118,
-                revenue: 3540,
-                openRate: 28.5,
-                clickRate: 21.0,
-                conversionRate: 36.8,
-                revenuePerUser: 0.66,
-                lastUpdated: new Date(),
-              },
-              lift: 32.6,
-              confidence: 0.98,
-              trafficAllocation: 50,
-            },
-          ],
-          timeline: generateMockTimeline(),
-          insights: [
-            {
-              type: "positive" as const,
-              title: "Strong Winner Detected",
-              description:
-                "Variant B shows statistically significant improvement across all metrics",
-              confidence: 0.98,
-              action: "Consider declaring winner",
-            },
-          ],
-          recommendation: {
-            action: "declare_winner" as const,
-            reason:
-              "Variant B shows statistically significant improvement with 98% confidence",
-            confidence: 0.98,
-            expectedLift: 32.6,
-            estimatedRevenue: 2400,
-          },
-          statisticalSignificance: {
-            isSignificant: true,
-            pValue: 0.02,
-            confidenceLevel: 0.98,
-          },
-        };
+    .query(async ({ ctx, input }) => {
+      await assertTestInWorkspace(ctx.workspaceId, input.testId);
 
-        return mockResults;
+      try {
+        return await abTestingManager.getTestResults(input.testId);
       } catch (error) {
         console.error("❌ Failed to fetch A/B test results:", error);
         throw new Error(`Failed to fetch A/B test results: ${error}`);
       }
     }),
 
+  /**
+   * Traffic allocation snapshots of a test, oldest first
+   */
+  getAllocationHistory: workspaceProcedure
+    .input(
+      z.object({
+        testId: z.string(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      await assertTestInWorkspace(ctx.workspaceId, input.testId);
+
+      try {
+        return await abTestingManager.getAllocationHistory(input.testId);
+      } catch (error) {
+        console.error("❌ Failed to fetch allocation history:", error);
+        throw new Error(`Failed to fetch allocation history: ${error}`);
+      }
+    }),
+
   /**
    * Declare winner and stop test
    */
-  declareWinner: publicProcedure
+  declareWinner: workspaceProcedure
     .input(
       z.object({
         testId: z.string(),
         variantId: z.string(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertTestInWorkspace(ctx.workspaceId, input.testId);
+
       try {
         console.log(
           `🏆 Declaring winner for test ${input.testId}: ${input.variantId}`,
         );
 
-        // Mock winner declaration - replace with actual ABTestingManager
-        const result = {
+        const winnerId = await abTestingManager.declareWinner(
+          input.testId,
+          input.variantId,
+        );
+
+        return {
           testId: input.testId,
-          winnerId: input.variantId,
+          winnerId,
           status: "winner_declared" as const,
-          completedAt: new Date(),
-          performance: {
-            lift: 32.6,
-            significance: 0.98,
-            estimatedRevenue: 2400,
-          },
           message: "Winner declared successfully",
         };
-
-        return result;
       } catch (error) {
         console.error("❌ Failed to declare winner:", error);
         throw new Error(`Failed to declare winner: ${error}`);
@@ -413,27 +336,29 @@ export const abTestingRouter = createTRPCRouter({
   /**
    * Stop A/B test
    */
-  stopTest: publicProcedure
+  stopTest: workspaceProcedure
     .input(
       z.object({
         testId: z.string(),
         reason: z.string().optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertTestInWorkspace(ctx.workspaceId, input.testId);
+
       try {
-        console.log(`⏹️ Stopping A/B test: ${input.testId}`);
+        const test = await abTestingManager.stopTest(
+          input.testId,
+          input.reason,
+        );
 
-        // Mock test stop - replace with actual ABTestingManager
-        const result = {
-          testId: input.testId,
-          status: "completed" as const,
-          completedAt: new Date(),
+        return {
+          testId: test.id,
+          status: test.status,
+          completedAt: test.completedAt,
           reason: input.reason || "manual_stop",
           message: "A/B test stopped successfully",
         };
-
-        return result;
       } catch (error) {
         console.error("❌ Failed to stop A/B test:", error);
         throw new Error(`Failed to stop A/B test: ${error}`);
@@ -443,9 +368,11 @@ export const abTestingRouter = createTRPCRouter({
   /**
    * Generate smart schedule for campaign
    */
-  generateSchedule: publicProcedure
+  generateSchedule: workspaceProcedure
     .input(SchedulingRequestSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       try {
         console.log(
           `📅 Generating smart schedule for campaign ${input.campaignId}`,
@@ -537,81 +464,40 @@ export const abTestingRouter = createTRPCRouter({
   /**
    * Get all A/B tests for a campaign
    */
-  getTestsByCampaign: publicProcedure
+  getTestsByCampaign: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       try {
-        // Mock data - replace with actual database query
-        const mockTests = [
-          {
-            id: "test_001",
-            name: "Holiday Email Subject Test",
-            status: "winner_declared" as const,
-            progress: 100,
-            winner: "variant_1",
-            createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
-            completedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-            variants: 2,
-            performance: {
-              bestLift: 32.6,
-              significance: 0.98,
-            },
-          },
-          {
-            id: "test_002",
-            name: "CTA Button Color Test",
-            status: "running" as const,
-            progress: 45,
-            createdAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000),
-            variants: 3,
-            performance: {
-              bestLift: 8.2,
-              significance: 0.65,
-            },
-          },
-        ];
+        const tests = await abTestingManager.getTestsByCampaign(
+          input.campaignId,
+        );
 
-        return mockTests;
+        return tests.map((test) => ({
+          id: test.id,
+          name: test.name,
+          status: test.status,
+          progress: test.results.testProgress,
+          winner: test.winner,
+          createdAt: test.createdAt,
+          completedAt: test.completedAt,
+          variants: test.variants.length,
+          performance: {
+            bestLift: Math.max(
+              0,
+              ...test.results.performance.map((p) => p.lift),
+            ),
+            significance: 1 - test.results.statisticalSignificance.pValue,
+          },
+        }));
       } catch (error) {
         console.error("❌ Failed to fetch tests:", error);
         throw new Error(`Failed to fetch tests: ${error}`);
       }
     }),
 });
-
-// Helper function to generate mock timeline data
-function generateMockTimeline() {
-  const data = [];
-  const now = new Date();
-
-  for (let i = 23; i >= 0; i--) {
-    const hour = new Date(now.getTime() - i * 60 * 60 * 1000);
-    const baseOpenA = 25 + Math.random() * 4;
-    const baseOpenB = 27 + Math.random() * 4;
-
-    data.push({
-      timestamp: hour.toISOString(),
-      hour: 24 - i,
-      variants: {
-        variant_0: {
-          openRate: baseOpenA,
-          clickRate: baseOpenA * 0.75,
-          conversionRate: baseOpenA * 0.3,
-          impressions: 200 + Math.floor(Math.random() * 100),
-        },
-        variant_1: {
-          openRate: baseOpenB,
-          clickRate: baseOpenB * 0.78,
-          conversionRate: baseOpenB * 0.32,
-          impressions: 195 + Math.floor(Math.random() * 100),
-        },
-      },
-    });
-  }
-
-  return data;
-}
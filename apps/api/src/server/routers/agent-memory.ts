@@ -1,12 +1,16 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import { createTRPCRouter, publicProcedure, workspaceProcedure } from "../trpc";
 import { AgentMemoryStore, PerformanceTuner } from "@neon/core-agents";
 import { PrismaClient } from "@neon/data-model";
 
-// Initialize the memory store and performance tuner
+// Initialize the memory store; every procedure works on a copy bound to
+// the caller's workspace
 const prisma = new PrismaClient();
 const memoryStore = new AgentMemoryStore(prisma);
-const performanceTuner = new PerformanceTuner(memoryStore);
+
+const storeFor = (workspaceId: string) => memoryStore.forWorkspace(workspaceId);
+const tunerFor = (workspaceId: string) =>
+  new PerformanceTuner(storeFor(workspaceId));
 
 // Input validation schemas
 const AgentMemoryQuerySchema = z.object({
@@ -47,16 +51,19 @@ const ClearMemorySchema = z.object({
 
 export const agentMemoryRouter = createTRPCRouter({
   // Get agent memory and metrics
-  getMemory: publicProcedure
+  getMemory: workspaceProcedure
     .input(AgentMemoryQuerySchema)
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { agentId, days, limit, successOnly } = input;
 
       // Get agent metrics
-      const metrics = await memoryStore.getAgentMetrics(agentId, days);
+      const metrics = await storeFor(ctx.workspaceId).getAgentMetrics(
+        agentId,
+        days,
+      );
 
       // Get recent memory entries
-      const memories = await memoryStore.getMemories({
+      const memories = await storeFor(ctx.workspaceId).getMemories({
         agentId,
         limit,
         successOnly,
@@ -65,7 +72,7 @@ export const agentMemoryRouter = createTRPCRouter({
       });
 
       // Get performance analysis
-      const performanceProfile = await performanceTuner.analyzeAgent(
+      const performanceProfile = await tunerFor(ctx.workspaceId).analyzeAgent(
         agentId,
         days,
       );
@@ -95,12 +102,14 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Get system-wide memory analysis
-  getSystemMemory: publicProcedure
+  getSystemMemory: workspaceProcedure
     .input(z.object({ days: z.number().min(1).max(365).default(30) }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { days } = input;
 
-      const systemAnalysis = await performanceTuner.analyzeSystem(days);
+      const systemAnalysis = await tunerFor(ctx.workspaceId).analyzeSystem(
+        days,
+      );
 
       return {
         totalAgents: systemAnalysis.totalAgents,
@@ -116,12 +125,12 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Store a new memory entry
-  storeMemory: publicProcedure
+  storeMemory: workspaceProcedure
     .input(StoreMemorySchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { agentId, sessionId, input: agentInput, output, metadata } = input;
 
-      const memoryEntry = await memoryStore.storeMemory(
+      const memoryEntry = await storeFor(ctx.workspaceId).storeMemory(
         agentId,
         sessionId,
         agentInput,
@@ -137,12 +146,16 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Update memory score (for feedback)
-  updateMemoryScore: publicProcedure
+  updateMemoryScore: workspaceProcedure
     .input(UpdateScoreSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { memoryId, score, metadata } = input;
 
-      await memoryStore.updateMemoryScore(memoryId, score, metadata);
+      await storeFor(ctx.workspaceId).updateMemoryScore(
+        memoryId,
+        score,
+        metadata,
+      );
 
       return {
         success: true,
@@ -151,16 +164,16 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Clear old memories
-  clearMemory: publicProcedure
+  clearMemory: workspaceProcedure
     .input(ClearMemorySchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { agentId, olderThanDays } = input;
 
       let deletedCount: number;
 
       if (agentId) {
         // Clear specific agent memories (need to implement in AgentMemoryStore)
-        const memories = await memoryStore.getMemories({
+        const memories = await storeFor(ctx.workspaceId).getMemories({
           agentId,
           startDate: new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000),
         });
@@ -168,7 +181,9 @@ export const agentMemoryRouter = createTRPCRouter({
         // TODO: Implement agent-specific cleanup in AgentMemoryStore
       } else {
         // Clear all old memories
-        deletedCount = await memoryStore.clearOldMemories(olderThanDays);
+        deletedCount = await storeFor(ctx.workspaceId).clearOldMemories(
+          olderThanDays,
+        );
       }
 
       return {
@@ -179,33 +194,36 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Get agent performance metrics only
-  getPerformanceMetrics: publicProcedure
+  getPerformanceMetrics: workspaceProcedure
     .input(
       z.object({
         agentId: z.string(),
         days: z.number().min(1).max(365).default(30),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { agentId, days } = input;
 
-      const metrics = await memoryStore.getAgentMetrics(agentId, days);
+      const metrics = await storeFor(ctx.workspaceId).getAgentMetrics(
+        agentId,
+        days,
+      );
 
       return metrics;
     }),
 
   // Get agent performance analysis
-  getPerformanceAnalysis: publicProcedure
+  getPerformanceAnalysis: workspaceProcedure
     .input(
       z.object({
         agentId: z.string(),
         days: z.number().min(1).max(365).default(30),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { agentId, days } = input;
 
-      const performanceProfile = await performanceTuner.analyzeAgent(
+      const performanceProfile = await tunerFor(ctx.workspaceId).analyzeAgent(
         agentId,
         days,
       );
@@ -214,12 +232,14 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Get memory entries for a session
-  getSessionMemory: publicProcedure
+  getSessionMemory: workspaceProcedure
     .input(z.object({ sessionId: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { sessionId } = input;
 
-      const memories = await memoryStore.getSessionMemory(sessionId);
+      const memories = await storeFor(ctx.workspaceId).getSessionMemory(
+        sessionId,
+      );
 
       return memories.map((memory) => ({
         id: memory.id,
@@ -236,7 +256,7 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Get high-cost runs for analysis
-  getHighCostRuns: publicProcedure
+  getHighCostRuns: workspaceProcedure
     .input(
       z.object({
         agentId: z.string(),
@@ -244,10 +264,10 @@ export const agentMemoryRouter = createTRPCRouter({
         limit: z.number().min(1).max(100).default(20),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { agentId, costThreshold, limit } = input;
 
-      const highCostRuns = await memoryStore.getHighCostRuns(
+      const highCostRuns = await storeFor(ctx.workspaceId).getHighCostRuns(
         agentId,
         costThreshold,
         limit,
@@ -265,17 +285,20 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Get failed runs for debugging
-  getFailedRuns: publicProcedure
+  getFailedRuns: workspaceProcedure
     .input(
       z.object({
         agentId: z.string(),
         limit: z.number().min(1).max(100).default(10),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { agentId, limit } = input;
 
-      const failedRuns = await memoryStore.getFailedRuns(agentId, limit);
+      const failedRuns = await storeFor(ctx.workspaceId).getFailedRuns(
+        agentId,
+        limit,
+      );
 
       return failedRuns.map((memory) => ({
         id: memory.id,
@@ -291,28 +314,30 @@ export const agentMemoryRouter = createTRPCRouter({
     }),
 
   // Get all agents' comparative metrics
-  getAllAgentMetrics: publicProcedure
+  getAllAgentMetrics: workspaceProcedure
     .input(z.object({ days: z.number().min(1).max(365).default(30) }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { days } = input;
 
-      const allMetrics = await memoryStore.getAllAgentMetrics(days);
+      const allMetrics = await storeFor(ctx.workspaceId).getAllAgentMetrics(
+        days,
+      );
 
       return allMetrics;
     }),
 
   // Get tuning recommendations for a specific agent
-  getTuningRecommendations: publicProcedure
+  getTuningRecommendations: workspaceProcedure
     .input(
       z.object({
         agentId: z.string(),
         days: z.number().min(1).max(365).default(30),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { agentId, days } = input;
 
-      const performanceProfile = await performanceTuner.analyzeAgent(
+      const performanceProfile = await tunerFor(ctx.workspaceId).analyzeAgent(
         agentId,
         days,
       );
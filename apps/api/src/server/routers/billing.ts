@@ -1,7 +1,20 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  managerProcedure,
+  publicProcedure,
+  workspaceProcedure,
+} from "../trpc";
+import { assertCampaignInWorkspace } from "../workspace";
 import { prisma } from "@neon/data-model";
 import { AgentType } from "@prisma/client";
+import {
+  BudgetGate,
+  calculateLLMCost,
+  getPriceTable,
+  LLM_PRICE_TABLES,
+} from "@neon/utils";
 
 // Agent cost mapping (cost per 1K tokens)
 export const AGENT_COST_PER_1K_TOKENS = {
@@ -21,12 +34,9 @@ export const AGENT_COST_PER_1K_TOKENS = {
   SEGMENT_ANALYZER: 0.05,
 } as const;
 
-// Global budget override flag
-let BUDGET_OVERRIDE_ENABLED = false;
-
 export const billingRouter = createTRPCRouter({
   // Log agent execution cost
-  logAgentCost: publicProcedure
+  logAgentCost: workspaceProcedure
     .input(
       z.object({
         agentType: z.nativeEnum(AgentType),
@@ -35,26 +45,66 @@ export const billingRouter = createTRPCRouter({
         task: z.string().optional(),
         executionId: z.string().optional(),
         metadata: z.any().optional(),
+        // Actual usage reported by the LLM provider
+        model: z.string().optional(),
+        provider: z.string().optional(),
+        promptTokens: z.number().int().min(0).optional(),
+        completionTokens: z.number().int().min(0).optional(),
       }),
     )
-    .mutation(async ({ input }) => {
-      const { agentType, campaignId, tokens, task, executionId, metadata } =
-        input;
-
-      // Calculate cost based on agent type and tokens
+    .mutation(async ({ ctx, input }) => {
+      const {
+        agentType,
+        campaignId,
+        tokens,
+        task,
+        executionId,
+        metadata,
+        model,
+        provider,
+        promptTokens,
+        completionTokens,
+      } = input;
+
+      // Price provider-reported usage per model; fall back to the
+      // per-agent rate when only a total token count is known
+      const usage =
+        model && promptTokens !== undefined && completionTokens !== undefined
+          ? calculateLLMCost({
+              model,
+              promptTokens,
+              completionTokens,
+              provider,
+            })
+          : null;
       const costPer1K = AGENT_COST_PER_1K_TOKENS[agentType] || 0.04;
-      const cost = (tokens / 1000) * costPer1K;
+      const cost = usage ? usage.totalCost : (tokens / 1000) * costPer1K;
+      const { workspaceId } = ctx;
+
+      if (typeof campaignId === "string") {
+        await assertCampaignInWorkspace(workspaceId, campaignId);
+      }
 
       // Log the billing entry
       const billingLog = await prisma.billingLog.create({
         data: {
+          workspaceId,
           agentType,
           campaignId,
-          tokens,
+          tokens: usage ? usage.totalTokens : tokens,
           cost,
           task,
           executionId,
           metadata,
+          ...(usage && {
+            model,
+            provider,
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens,
+            inputCost: usage.inputCost,
+            outputCost: usage.outputCost,
+            priceVersion: usage.priceVersion,
+          }),
         },
       });
 
@@ -84,7 +134,7 @@ export const billingRouter = createTRPCRouter({
       const currentMonth = new Date().toISOString().substring(0, 7);
       await prisma.monthlyBudget.upsert({
         where: {
-          month: currentMonth,
+          workspaceId_month: { workspaceId, month: currentMonth },
         },
         update: {
           totalSpent: {
@@ -92,6 +142,7 @@ export const billingRouter = createTRPCRouter({
           },
         },
         create: {
+          workspaceId,
           month: currentMonth,
           totalSpent: cost,
         },
@@ -101,17 +152,19 @@ export const billingRouter = createTRPCRouter({
     }),
 
   // Get campaign spend data
-  getCampaignSpend: publicProcedure
+  getCampaignSpend: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
         month: z.string().optional(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { campaignId, month } = input;
       const currentMonth = month || new Date().toISOString().substring(0, 7);
 
+      await assertCampaignInWorkspace(ctx.workspaceId, campaignId);
+
       // Get campaign cost summary
       const campaignCost = await prisma.campaignCost.findUnique({
         where: { campaignId },
@@ -121,6 +174,7 @@ export const billingRouter = createTRPCRouter({
       // Get detailed billing logs for the campaign
       const billingLogs = await prisma.billingLog.findMany({
         where: {
+          workspaceId: ctx.workspaceId,
           campaignId,
           timestamp: {
             gte: new Date(`${currentMonth}-01`),
@@ -161,18 +215,19 @@ export const billingRouter = createTRPCRouter({
     }),
 
   // Get agent cost breakdown
-  getAgentCosts: publicProcedure
+  getAgentCosts: workspaceProcedure
     .input(
       z.object({
         month: z.string().optional(),
         agentType: z.nativeEnum(AgentType).optional(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { month, agentType } = input;
       const currentMonth = month || new Date().toISOString().substring(0, 7);
 
       const whereClause = {
+        workspaceId: ctx.workspaceId,
         timestamp: {
           gte: new Date(`${currentMonth}-01`),
           lt: new Date(`${currentMonth}-31T23:59:59`),
@@ -238,23 +293,24 @@ export const billingRouter = createTRPCRouter({
     }),
 
   // Get monthly spend summary (for admin dashboard)
-  getMonthlySpendSummary: publicProcedure
+  getMonthlySpendSummary: workspaceProcedure
     .input(
       z.object({
         month: z.string(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { month } = input;
+      const { workspaceId } = ctx;
 
       // Get monthly budget
       const monthlyBudget = await prisma.monthlyBudget.findUnique({
-        where: { month },
+        where: { workspaceId_month: { workspaceId, month } },
       });
 
       // Get all campaigns with costs this month
       const campaignCosts = await prisma.campaignCost.findMany({
-        where: { currentMonth: month },
+        where: { currentMonth: month, campaign: { workspaceId } },
         include: { campaign: true },
         orderBy: { totalCost: "desc" },
       });
@@ -262,6 +318,7 @@ export const billingRouter = createTRPCRouter({
       // Get billing logs for detailed breakdown
       const billingLogs = await prisma.billingLog.findMany({
         where: {
+          workspaceId,
           timestamp: {
             gte: new Date(`${month}-01`),
             lt: new Date(`${month}-31T23:59:59`),
@@ -331,41 +388,46 @@ export const billingRouter = createTRPCRouter({
     }),
 
   // Get all campaigns spend (for admin dashboard)
-  getAllCampaignsSpend: publicProcedure.input(z.object({})).query(async () => {
-    // Get all campaign costs
-    const campaignCosts = await prisma.campaignCost.findMany({
-      include: { campaign: true },
-      orderBy: { totalCost: "desc" },
-    });
-
-    return campaignCosts.map((campaignCost) => ({
-      id: campaignCost.campaignId,
-      name: campaignCost.campaign.name,
-      type: campaignCost.campaign.type,
-      totalCost: campaignCost.totalCost,
-      monthlyBudget: campaignCost.monthlyBudget,
-      currentMonth: campaignCost.currentMonth,
-      lastUpdated: campaignCost.lastUpdated,
-    }));
-  }),
+  getAllCampaignsSpend: workspaceProcedure
+    .input(z.object({}))
+    .query(async ({ ctx }) => {
+      // Get all campaign costs
+      const campaignCosts = await prisma.campaignCost.findMany({
+        where: { campaign: { workspaceId: ctx.workspaceId } },
+        include: { campaign: true },
+        orderBy: { totalCost: "desc" },
+      });
+
+      return campaignCosts.map((campaignCost) => ({
+        id: campaignCost.campaignId,
+        name: campaignCost.campaign.name,
+        type: campaignCost.campaign.type,
+        totalCost: campaignCost.totalCost,
+        monthlyBudget: campaignCost.monthlyBudget,
+        currentMonth: campaignCost.currentMonth,
+        lastUpdated: campaignCost.lastUpdated,
+      }));
+    }),
 
   // Set monthly budget cap (for admin dashboard)
-  setMonthlyBudgetCap: publicProcedure
+  setMonthlyBudgetCap: adminProcedure
     .input(
       z.object({
         month: z.string(),
         amount: z.number().min(0),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { month, amount } = input;
+      const { workspaceId } = ctx;
 
       const updatedBudget = await prisma.monthlyBudget.upsert({
-        where: { month },
+        where: { workspaceId_month: { workspaceId, month } },
         update: {
           totalBudget: amount,
         },
         create: {
+          workspaceId,
           month,
           totalBudget: amount,
           totalSpent: 0,
@@ -375,48 +437,74 @@ export const billingRouter = createTRPCRouter({
       return updatedBudget;
     }),
 
-  // Set budget override (for admin dashboard)
-  setBudgetOverride: publicProcedure
+  // Grant or revoke a budget override (for admin dashboard). Overrides are
+  // persisted with their reason so every overspend is auditable.
+  setBudgetOverride: adminProcedure
     .input(
       z.object({
         enabled: z.boolean(),
         month: z.string(),
+        campaignId: z.string().optional(),
+        reason: z.string().min(1).optional(),
+        expiresAt: z.date().optional(),
       }),
     )
-    .mutation(async ({ input }) => {
-      const { enabled } = input;
+    .mutation(async ({ ctx, input }) => {
+      const { enabled, month, campaignId, reason, expiresAt } = input;
+      const actor = ctx.session.user.id;
+      const { workspaceId } = ctx;
 
-      // Set global override flag
-      BUDGET_OVERRIDE_ENABLED = enabled;
+      if (campaignId) {
+        await assertCampaignInWorkspace(workspaceId, campaignId);
+      }
 
-      // Log this action for audit purposes
-      console.log(
-        `Budget override ${enabled ? "ENABLED" : "DISABLED"} at ${new Date().toISOString()}`,
-      );
+      if (enabled) {
+        const override = await BudgetGate.grantOverride({
+          workspaceId,
+          month,
+          campaignId,
+          reason: reason || "Manual override from admin dashboard",
+          actor,
+          expiresAt,
+        });
+        return { success: true, overrideEnabled: true, override };
+      }
 
-      return { success: true, overrideEnabled: BUDGET_OVERRIDE_ENABLED };
+      const revoked = await BudgetGate.revokeOverride({
+        workspaceId,
+        month,
+        campaignId,
+        actor,
+        reason,
+      });
+      return { success: true, overrideEnabled: false, revoked };
     }),
 
   // Check if budget is exceeded (for agents to use before executing)
-  checkBudgetStatus: publicProcedure
+  checkBudgetStatus: workspaceProcedure
     .input(
       z.object({
         month: z.string().optional(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { month } = input;
       const currentMonth = month || new Date().toISOString().substring(0, 7);
+      const { workspaceId } = ctx;
 
-      const monthlyBudget = await prisma.monthlyBudget.findUnique({
-        where: { month: currentMonth },
-      });
+      const [monthlyBudget, override] = await Promise.all([
+        prisma.monthlyBudget.findUnique({
+          where: { workspaceId_month: { workspaceId, month: currentMonth } },
+        }),
+        BudgetGate.getActiveOverride(currentMonth, undefined, workspaceId),
+      ]);
+      const overrideEnabled = override !== null;
 
       if (!monthlyBudget) {
         return {
           canExecute: true,
           isOverBudget: false,
-          overrideEnabled: BUDGET_OVERRIDE_ENABLED,
+          overrideEnabled,
           utilizationPercentage: 0,
         };
       }
@@ -424,12 +512,12 @@ export const billingRouter = createTRPCRouter({
       const isOverBudget = monthlyBudget.totalSpent > monthlyBudget.totalBudget;
       const utilizationPercentage =
         (monthlyBudget.totalSpent / monthlyBudget.totalBudget) * 100;
-      const canExecute = !isOverBudget || BUDGET_OVERRIDE_ENABLED;
+      const canExecute = !isOverBudget || overrideEnabled;
 
       return {
         canExecute,
         isOverBudget,
-        overrideEnabled: BUDGET_OVERRIDE_ENABLED,
+        overrideEnabled,
         utilizationPercentage,
         totalSpent: monthlyBudget.totalSpent,
         totalBudget: monthlyBudget.totalBudget,
@@ -437,25 +525,42 @@ export const billingRouter = createTRPCRouter({
       };
     }),
 
+  // Budget decisions and override changes, newest first
+  getBudgetAuditTrail: managerProcedure
+    .input(
+      z.object({
+        month: z.string().optional(),
+        campaignId: z.string().optional(),
+        limit: z.number().min(1).max(500).default(100),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return BudgetGate.getAuditTrail({
+        ...input,
+        workspaceId: ctx.workspaceId,
+      });
+    }),
+
   // Get monthly budget summary (legacy method)
-  getMonthlySummary: publicProcedure
+  getMonthlySummary: workspaceProcedure
     .input(
       z.object({
         month: z.string().optional(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { month } = input;
       const currentMonth = month || new Date().toISOString().substring(0, 7);
+      const { workspaceId } = ctx;
 
       // Get monthly budget
       const monthlyBudget = await prisma.monthlyBudget.findUnique({
-        where: { month: currentMonth },
+        where: { workspaceId_month: { workspaceId, month: currentMonth } },
       });
 
       // Get all campaigns with costs this month
       const campaignCosts = await prisma.campaignCost.findMany({
-        where: { currentMonth },
+        where: { currentMonth, campaign: { workspaceId } },
         include: { campaign: true },
         orderBy: { totalCost: "desc" },
       });
@@ -463,6 +568,7 @@ export const billingRouter = createTRPCRouter({
       // Get billing logs for detailed breakdown
       const billingLogs = await prisma.billingLog.findMany({
         where: {
+          workspaceId,
           timestamp: {
             gte: new Date(`${currentMonth}-01`),
             lt: new Date(`${currentMonth}-31T23:59:59`),
@@ -512,7 +618,7 @@ export const billingRouter = createTRPCRouter({
     }),
 
   // Update monthly budget
-  updateMonthlyBudget: publicProcedure
+  updateMonthlyBudget: adminProcedure
     .input(
       z.object({
         month: z.string(),
@@ -520,16 +626,18 @@ export const billingRouter = createTRPCRouter({
         alertThreshold: z.number().min(0).max(1).optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { month, totalBudget, alertThreshold } = input;
+      const { workspaceId } = ctx;
 
       const updatedBudget = await prisma.monthlyBudget.upsert({
-        where: { month },
+        where: { workspaceId_month: { workspaceId, month } },
         update: {
           totalBudget,
           ...(alertThreshold && { alertThreshold }),
         },
         create: {
+          workspaceId,
           month,
           totalBudget,
           alertThreshold: alertThreshold || 0.8,
@@ -540,17 +648,19 @@ export const billingRouter = createTRPCRouter({
     }),
 
   // Set campaign budget
-  setCampaignBudget: publicProcedure
+  setCampaignBudget: managerProcedure
     .input(
       z.object({
         campaignId: z.string(),
         monthlyBudget: z.number().min(0),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { campaignId, monthlyBudget } = input;
       const currentMonth = new Date().toISOString().substring(0, 7);
 
+      await assertCampaignInWorkspace(ctx.workspaceId, campaignId);
+
       const updatedCampaign = await prisma.campaignCost.upsert({
         where: { campaignId },
         update: {
@@ -567,10 +677,94 @@ export const billingRouter = createTRPCRouter({
       return updatedCampaign;
     }),
 
+  // Get model usage for reconciliation with provider invoices
+  getModelUsage: workspaceProcedure
+    .input(
+      z.object({
+        month: z.string().optional(),
+        campaignId: z.string().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const { month, campaignId } = input;
+      const currentMonth = month || new Date().toISOString().substring(0, 7);
+
+      const billingLogs = await prisma.billingLog.findMany({
+        where: {
+          workspaceId: ctx.workspaceId,
+          timestamp: {
+            gte: new Date(`${currentMonth}-01`),
+            lt: new Date(`${currentMonth}-31T23:59:59`),
+          },
+          ...(campaignId && { campaignId }),
+        },
+        orderBy: { timestamp: "desc" },
+      });
+
+      // Group by model and price table version
+      const modelUsage = billingLogs.reduce(
+        (acc, log) => {
+          const key = `${log.model ?? "unattributed"}@${log.priceVersion ?? "legacy"}`;
+          if (!acc[key]) {
+            acc[key] = {
+              model: log.model,
+              provider: log.provider,
+              priceVersion: log.priceVersion,
+              promptTokens: 0,
+              completionTokens: 0,
+              inputCost: 0,
+              outputCost: 0,
+              totalCost: 0,
+              calls: 0,
+            };
+          }
+          acc[key].promptTokens += log.promptTokens;
+          acc[key].completionTokens += log.completionTokens;
+          acc[key].inputCost += log.inputCost;
+          acc[key].outputCost += log.outputCost;
+          acc[key].totalCost += log.cost;
+          acc[key].calls++;
+          return acc;
+        },
+        {} as Record<
+          string,
+          {
+            model: string | null;
+            provider: string | null;
+            priceVersion: string | null;
+            promptTokens: number;
+            completionTokens: number;
+            inputCost: number;
+            outputCost: number;
+            totalCost: number;
+            calls: number;
+          }
+        >,
+      );
+
+      return {
+        month: currentMonth,
+        models: Object.values(modelUsage).sort(
+          (a, b) => b.totalCost - a.totalCost,
+        ),
+        totalPromptTokens: billingLogs.reduce(
+          (sum, log) => sum + log.promptTokens,
+          0,
+        ),
+        totalCompletionTokens: billingLogs.reduce(
+          (sum, log) => sum + log.completionTokens,
+          0,
+        ),
+        totalSpent: billingLogs.reduce((sum, log) => sum + log.cost, 0),
+      };
+    }),
+
   // Get cost constants
   getCostConstants: publicProcedure.query(async () => {
     return {
       agentCosts: AGENT_COST_PER_1K_TOKENS,
+      modelPrices: getPriceTable(),
+      priceTables: LLM_PRICE_TABLES,
       lastUpdated: new Date().toISOString(),
     };
   }),
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import { createTRPCRouter, workspaceProcedure } from "../trpc";
+import { assertCampaignsInWorkspace } from "../workspace";
 
 // Mock type definitions
 interface BoardroomReportConfig {
@@ -92,7 +93,14 @@ const PresentationConfigSchema = z.object({
   orientation: z.enum(["portrait", "landscape"]).default("landscape"),
   customBranding: z
     .object({
-      logoUrl: z.string().optional(),
+      // Inline PNG/JPEG data: URL or a logo uploaded to the workspace
+      logoUrl: z
+        .string()
+        .regex(
+          /^(data:image\/(png|jpeg);base64,|logos\/)/,
+          "Use a PNG or JPEG data: URL or logos/<file>",
+        )
+        .optional(),
       primaryColor: z.string(),
       secondaryColor: z.string(),
       fontFamily: z.string(),
@@ -218,14 +226,19 @@ const schedulerAgent = mockSchedulerAgent;
 
 export const boardroomRouter = createTRPCRouter({
   // Generate a new boardroom report
-  generateReport: publicProcedure
+  generateReport: workspaceProcedure
     .input(
       z.object({
         config: BoardroomReportConfigSchema,
         presentationConfig: PresentationConfigSchema.optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignsInWorkspace(
+        ctx.workspaceId,
+        input.config.includeCampaigns,
+      );
+
       try {
         console.log(
           "[BoardroomAPI] Generating boardroom report with config:",
@@ -349,7 +362,7 @@ export const boardroomRouter = createTRPCRouter({
     }),
 
   // Get existing boardroom reports with filtering and pagination
-  getReports: publicProcedure
+  getReports: workspaceProcedure
     .input(
       z.object({
         filters: FiltersSchema.optional(),
@@ -528,7 +541,7 @@ export const boardroomRouter = createTRPCRouter({
     }),
 
   // Get a specific report by ID
-  getReport: publicProcedure
+  getReport: workspaceProcedure
     .input(
       z.object({
         reportId: z.string(),
@@ -696,7 +709,7 @@ export const boardroomRouter = createTRPCRouter({
     }),
 
   // Generate forecasts for boardroom insights
-  generateForecasts: publicProcedure
+  generateForecasts: workspaceProcedure
     .input(
       z.object({
         config: ForecastConfigSchema,
@@ -712,7 +725,12 @@ export const boardroomRouter = createTRPCRouter({
           .optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignsInWorkspace(
+        ctx.workspaceId,
+        input.reportContext?.includeCampaigns ?? [],
+      );
+
       try {
         console.log(
           "[BoardroomAPI] Generating forecasts with config:",
@@ -819,7 +837,7 @@ export const boardroomRouter = createTRPCRouter({
     }),
 
   // Get analytics for the boardroom dashboard
-  getAnalytics: publicProcedure
+  getAnalytics: workspaceProcedure
     .input(
       z.object({
         timeframe: z
@@ -951,7 +969,7 @@ export const boardroomRouter = createTRPCRouter({
     }),
 
   // Schedule a boardroom report
-  scheduleReport: publicProcedure
+  scheduleReport: workspaceProcedure
     .input(
       z.object({
         scheduleConfig: z.object({
@@ -991,7 +1009,12 @@ export const boardroomRouter = createTRPCRouter({
         }),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignsInWorkspace(
+        ctx.workspaceId,
+        input.reportConfig.includeCampaigns,
+      );
+
       try {
         console.log(
           "[BoardroomAPI] Scheduling report:",
@@ -1069,7 +1092,7 @@ export const boardroomRouter = createTRPCRouter({
     }),
 
   // Get scheduled reports
-  getSchedules: publicProcedure
+  getSchedules: workspaceProcedure
     .input(
       z.object({
         includeDisabled: z.boolean().default(false),
@@ -1,6 +1,7 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure, protectedProcedure } from "../trpc";
+import { createTRPCRouter, publicProcedure, workspaceProcedure } from "../trpc";
 import { BrandVoiceAgent } from "@neon/core-agents";
+import type { db } from "@neon/data-model";
 
 // Initialize the Brand Voice Agent
 const brandVoiceAgent = new BrandVoiceAgent();
@@ -23,15 +24,31 @@ const ContentAnalysisSchema = z.object({
   brandVoiceId: z.string().optional(),
 });
 
+// Profiles are only visible and editable inside their own workspace
+async function assertProfileInWorkspace(
+  ctx: { db: typeof db; workspaceId: string },
+  brandVoiceId: string,
+): Promise<void> {
+  const profile = await ctx.db.brandVoice.findFirst({
+    where: { id: brandVoiceId, workspaceId: ctx.workspaceId },
+    select: { id: true },
+  });
+
+  if (!profile) {
+    throw new Error("Brand voice profile not found");
+  }
+}
+
 export const brandVoiceRouter = createTRPCRouter({
   // Profile Management
-  createProfile: protectedProcedure
+  createProfile: workspaceProcedure
     .input(BrandVoiceProfileSchema)
     .mutation(async ({ ctx, input }) => {
       try {
         // Create brand voice profile in database
         const profile = await ctx.db.brandVoice.create({
           data: {
+            workspaceId: ctx.workspaceId,
             name: input.name,
             description: input.description,
             guidelines: input.guidelines,
@@ -64,7 +81,7 @@ export const brandVoiceRouter = createTRPCRouter({
       }
     }),
 
-  getProfiles: publicProcedure
+  getProfiles: workspaceProcedure
     .input(
       z.object({
         includeInactive: z.boolean().default(false),
@@ -73,7 +90,10 @@ export const brandVoiceRouter = createTRPCRouter({
       }),
     )
     .query(async ({ ctx, input }) => {
-      const where = input.includeInactive ? {} : { isActive: true };
+      const where = {
+        workspaceId: ctx.workspaceId,
+        ...(input.includeInactive ? {} : { isActive: true }),
+      };
 
       const [profiles, totalCount] = await Promise.all([
         ctx.db.brandVoice.findMany({
@@ -97,11 +117,11 @@ export const brandVoiceRouter = createTRPCRouter({
       };
     }),
 
-  getProfile: publicProcedure
+  getProfile: workspaceProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      const profile = await ctx.db.brandVoice.findUnique({
-        where: { id: input.id },
+      const profile = await ctx.db.brandVoice.findFirst({
+        where: { id: input.id, workspaceId: ctx.workspaceId },
         include: {
           analyses: {
             orderBy: { analyzedAt: "desc" },
@@ -120,7 +140,7 @@ export const brandVoiceRouter = createTRPCRouter({
       return profile;
     }),
 
-  updateProfile: protectedProcedure
+  updateProfile: workspaceProcedure
     .input(
       z.object({
         id: z.string(),
@@ -129,6 +149,8 @@ export const brandVoiceRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
+        await assertProfileInWorkspace(ctx, input.id);
+
         const profile = await ctx.db.brandVoice.update({
           where: { id: input.id },
           data: {
@@ -158,10 +180,12 @@ export const brandVoiceRouter = createTRPCRouter({
       }
     }),
 
-  deleteProfile: protectedProcedure
+  deleteProfile: workspaceProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       try {
+        await assertProfileInWorkspace(ctx, input.id);
+
         await ctx.db.brandVoice.delete({
           where: { id: input.id },
         });
@@ -187,10 +211,14 @@ export const brandVoiceRouter = createTRPCRouter({
     }),
 
   // Content Analysis
-  analyzeContent: protectedProcedure
+  analyzeContent: workspaceProcedure
     .input(ContentAnalysisSchema)
     .mutation(async ({ ctx, input }) => {
       try {
+        if (input.brandVoiceId) {
+          await assertProfileInWorkspace(ctx, input.brandVoiceId);
+        }
+
         // Use the Brand Voice Agent to analyze content
         const result = await brandVoiceAgent.analyzeContentPublic(
           input.content,
@@ -290,7 +318,7 @@ export const brandVoiceRouter = createTRPCRouter({
     }),
 
   // Analysis History
-  getAnalysisHistory: publicProcedure
+  getAnalysisHistory: workspaceProcedure
     .input(
       z.object({
         brandVoiceId: z.string().optional(),
@@ -303,6 +331,7 @@ export const brandVoiceRouter = createTRPCRouter({
     )
     .query(async ({ ctx, input }) => {
       const where = {
+        brandVoice: { workspaceId: ctx.workspaceId },
         ...(input.brandVoiceId && { brandVoiceId: input.brandVoiceId }),
         ...(input.contentType && { contentType: input.contentType }),
         ...(input.startDate &&
@@ -340,12 +369,12 @@ export const brandVoiceRouter = createTRPCRouter({
     }),
 
   // Guidelines Management
-  getGuidelines: publicProcedure
+  getGuidelines: workspaceProcedure
     .input(z.object({ brandVoiceId: z.string().optional() }))
     .query(async ({ ctx, input }) => {
       if (input.brandVoiceId) {
-        const profile = await ctx.db.brandVoice.findUnique({
-          where: { id: input.brandVoiceId },
+        const profile = await ctx.db.brandVoice.findFirst({
+          where: { id: input.brandVoiceId, workspaceId: ctx.workspaceId },
           select: {
             guidelines: true,
             toneProfile: true,
@@ -383,7 +412,7 @@ export const brandVoiceRouter = createTRPCRouter({
     }),
 
   // Analytics and Metrics
-  getVoiceConsistencyMetrics: publicProcedure
+  getVoiceConsistencyMetrics: workspaceProcedure
     .input(
       z.object({
         brandVoiceId: z.string(),
@@ -404,6 +433,7 @@ export const brandVoiceRouter = createTRPCRouter({
       const analyses = await ctx.db.brandVoiceAnalysis.findMany({
         where: {
           brandVoiceId: input.brandVoiceId,
+          brandVoice: { workspaceId: ctx.workspaceId },
           analyzedAt: {
             gte: startDate,
           },
@@ -458,7 +488,7 @@ export const brandVoiceRouter = createTRPCRouter({
     }),
 
   // Bulk Operations
-  bulkAnalyzeContent: protectedProcedure
+  bulkAnalyzeContent: workspaceProcedure
     .input(
       z.object({
         contents: z.array(
@@ -473,6 +503,8 @@ export const brandVoiceRouter = createTRPCRouter({
     )
     .mutation(async ({ ctx, input }) => {
       try {
+        await assertProfileInWorkspace(ctx, input.brandVoiceId);
+
         const results = [];
 
         for (const item of input.contents) {
@@ -3,7 +3,8 @@
  */
 
 import { z } from "zod";
-import { router, publicProcedure, protectedProcedure } from "../trpc";
+import { TRPCError } from "@trpc/server";
+import { router, managerProcedure, workspaceProcedure } from "../trpc";
 import { logger } from "@neon/utils";
 import { CampaignAgent } from "@neon/core-agents";
 import { CampaignRunner } from "@neon/core-agents/src/strategy/campaign-runner";
@@ -13,6 +14,7 @@ import {
   getAvailableTemplates,
 } from "@neon/core-agents/src/strategy/campaign-templates";
 import { type CampaignType, type CampaignStatus } from "@neon/data-model";
+import { assertCampaignInWorkspace } from "../workspace";
 
 // Input schemas
 const CampaignContextSchema = z.object({
@@ -64,7 +66,7 @@ export const campaignRouter = router({
   /**
    * Get available campaign templates
    */
-  getTemplates: publicProcedure.query(async () => {
+  getTemplates: workspaceProcedure.query(async () => {
     try {
       logger.info("📋 Fetching campaign templates");
       const templates = getAvailableTemplates();
@@ -83,7 +85,7 @@ export const campaignRouter = router({
   /**
    * Get specific campaign template by goal
    */
-  getTemplate: publicProcedure
+  getTemplate: workspaceProcedure
     .input(
       z.object({
         goal: z.string(),
@@ -114,7 +116,7 @@ export const campaignRouter = router({
   /**
    * Plan a campaign
    */
-  planCampaign: publicProcedure
+  planCampaign: workspaceProcedure
     .input(CampaignContextSchema)
     .mutation(async ({ input }) => {
       try {
@@ -172,7 +174,7 @@ export const campaignRouter = router({
   /**
    * Execute a campaign
    */
-  executeCampaign: publicProcedure
+  executeCampaign: workspaceProcedure
     .input(CampaignContextSchema)
     .mutation(async ({ input }) => {
       try {
@@ -220,9 +222,9 @@ export const campaignRouter = router({
   /**
    * Schedule a campaign for future execution
    */
-  scheduleCampaign: publicProcedure
+  scheduleCampaign: workspaceProcedure
     .input(ScheduleCampaignSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         logger.info("📅 Scheduling campaign", {
           goal: input.campaignContext.goal,
@@ -235,6 +237,7 @@ export const campaignRouter = router({
           {
             priority: input.priority,
             recurring: input.recurring,
+            workspaceId: ctx.workspaceId,
           },
         );
 
@@ -254,14 +257,14 @@ export const campaignRouter = router({
   /**
    * Get campaign status and monitoring data
    */
-  getCampaignStatus: publicProcedure.query(async () => {
+  getCampaignStatus: workspaceProcedure.query(async ({ ctx }) => {
     try {
       logger.info("📊 Fetching campaign status");
 
-      const status = campaignRunner.getCampaignStatus();
+      const status = await campaignRunner.getCampaignStatus(ctx.workspaceId);
       const monitoringData = await campaignAgent.execute({
         task: "monitor_campaign",
-        context: {},
+        context: { workspaceId: ctx.workspaceId },
       });
 
       return {
@@ -280,13 +283,15 @@ export const campaignRouter = router({
   /**
    * Get detailed campaign information
    */
-  getCampaign: publicProcedure
+  getCampaign: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       try {
         logger.info("📖 Fetching campaign details", {
           campaignId: input.campaignId,
@@ -314,13 +319,15 @@ export const campaignRouter = router({
   /**
    * Analyze campaign performance
    */
-  analyzeCampaign: publicProcedure
+  analyzeCampaign: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       try {
         logger.info("🔬 Analyzing campaign", { campaignId: input.campaignId });
 
@@ -350,14 +357,16 @@ export const campaignRouter = router({
   /**
    * Optimize campaign performance
    */
-  optimizeCampaign: publicProcedure
+  optimizeCampaign: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
         autoApply: z.boolean().default(false),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       try {
         logger.info("🎯 Optimizing campaign", {
           campaignId: input.campaignId,
@@ -411,7 +420,7 @@ export const campaignRouter = router({
   /**
    * Apply specific optimizations
    */
-  applyOptimizations: publicProcedure
+  applyOptimizations: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
@@ -435,7 +444,9 @@ export const campaignRouter = router({
         ),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       try {
         logger.info("⚡ Applying optimizations", {
           campaignId: input.campaignId,
@@ -466,7 +477,7 @@ export const campaignRouter = router({
   /**
    * Generate campaign report
    */
-  generateReport: publicProcedure
+  generateReport: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string().optional(),
@@ -481,7 +492,11 @@ export const campaignRouter = router({
           .optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      if (input.campaignId) {
+        await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+      }
+
       try {
         logger.info("📊 Generating campaign report", {
           campaignId: input.campaignId,
@@ -491,6 +506,7 @@ export const campaignRouter = router({
         const report = await campaignAgent.execute({
           task: "generate_report",
           context: {
+            workspaceId: ctx.workspaceId,
             campaignId: input.campaignId,
             reportType: input.reportType,
             dateRange: input.dateRange,
@@ -513,18 +529,19 @@ export const campaignRouter = router({
   /**
    * Cancel a scheduled campaign
    */
-  cancelCampaign: publicProcedure
+  cancelCampaign: workspaceProcedure
     .input(
       z.object({
         scheduleId: z.string(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         logger.info("❌ Cancelling campaign", { scheduleId: input.scheduleId });
 
         const success = await campaignRunner.cancelScheduledCampaign(
           input.scheduleId,
+          ctx.workspaceId,
         );
 
         if (!success) {
@@ -551,7 +568,7 @@ export const campaignRouter = router({
   /**
    * Validate campaign configuration
    */
-  validateCampaign: publicProcedure
+  validateCampaign: workspaceProcedure
     .input(CampaignContextSchema)
     .mutation(async ({ input }) => {
       try {
@@ -577,14 +594,18 @@ export const campaignRouter = router({
   /**
    * Get campaign metrics and KPIs
    */
-  getCampaignMetrics: publicProcedure
+  getCampaignMetrics: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string().optional(),
         timeframe: z.enum(["1h", "24h", "7d", "30d", "all"]).default("24h"),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      if (input.campaignId) {
+        await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+      }
+
       try {
         logger.info("📈 Fetching campaign metrics", {
           campaignId: input.campaignId,
@@ -594,6 +615,7 @@ export const campaignRouter = router({
         const metrics = await campaignAgent.execute({
           task: "analyze_results",
           context: {
+            workspaceId: ctx.workspaceId,
             campaignId: input.campaignId,
             timeframe: input.timeframe,
           },
@@ -612,13 +634,15 @@ export const campaignRouter = router({
   /**
    * Get optimization history
    */
-  getOptimizationHistory: publicProcedure
+  getOptimizationHistory: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       try {
         logger.info("📚 Fetching optimization history", {
           campaignId: input.campaignId,
@@ -640,8 +664,78 @@ export const campaignRouter = router({
       }
     }),
 
+  /**
+   * Agent runs recorded for a campaign, by stage and as a timeline
+   */
+  getAgentAssignments: workspaceProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.id);
+
+      const executions = await ctx.db.agentExecution.findMany({
+        where: { campaignId: input.id },
+        include: { agent: { select: { name: true } } },
+        orderBy: { startedAt: "asc" },
+      });
+
+      const timeline = executions.map((execution) => {
+        // Runs started by the orchestrator record their stage and priority
+        const metadata = (execution.metadata ?? {}) as {
+          stage?: string;
+          priority?: string;
+          estimatedDuration?: number;
+        };
+        const actualDuration = execution.completedAt
+          ? Math.round(
+              (execution.completedAt.getTime() -
+                execution.startedAt.getTime()) /
+                60000,
+            )
+          : null;
+        const status =
+          execution.status === "CANCELLED"
+            ? "failed"
+            : execution.status.toLowerCase();
+
+        return {
+          id: execution.id,
+          agentType: execution.agent.name,
+          stage: metadata.stage ?? "launch",
+          taskDescription: execution.task,
+          status,
+          priority: metadata.priority ?? "medium",
+          resultScore: execution.performance,
+          startedAt: execution.startedAt,
+          completedAt: execution.completedAt,
+          startDate: execution.startedAt,
+          endDate: execution.completedAt ?? new Date(),
+          progress: status === "completed" ? 100 : 0,
+          actualDuration,
+          estimatedDuration: metadata.estimatedDuration ?? actualDuration ?? 0,
+          dependencies: [] as string[],
+          llmPrompt: execution.task,
+          llmResponse: execution.error,
+        };
+      });
+
+      const matrix: Record<string, typeof timeline> = {};
+      for (const task of timeline) {
+        matrix[task.stage] = [...(matrix[task.stage] ?? []), task];
+      }
+
+      return {
+        success: true,
+        data: {
+          matrix,
+          timeline,
+          stages: ["creative", "launch", "feedback", "optimize", "analyze"],
+          agentTypes: [...new Set(timeline.map((task) => task.agentType))],
+        },
+      };
+    }),
+
   // Get all campaigns
-  getAll: publicProcedure
+  getAll: workspaceProcedure
     .input(
       z.object({
         userId: z.string().optional(),
@@ -654,6 +748,7 @@ export const campaignRouter = router({
     )
     .query(async ({ ctx, input }) => {
       const where = {
+        workspaceId: ctx.workspaceId,
         ...(input.userId && { userId: input.userId }),
         ...(input.status && { status: input.status as CampaignStatus }),
       };
@@ -670,11 +765,11 @@ export const campaignRouter = router({
     }),
 
   // Get campaign by ID
-  getById: publicProcedure
+  getById: workspaceProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      return ctx.db.campaign.findUnique({
-        where: { id: input.id },
+      return ctx.db.campaign.findFirst({
+        where: { id: input.id, workspaceId: ctx.workspaceId },
         include: {
           user: true,
         },
@@ -682,7 +777,7 @@ export const campaignRouter = router({
     }),
 
   // Create new campaign
-  create: protectedProcedure
+  create: workspaceProcedure
     .input(
       z.object({
         name: z.string().min(1),
@@ -702,6 +797,7 @@ export const campaignRouter = router({
     .mutation(async ({ ctx, input }) => {
       return ctx.db.campaign.create({
         data: {
+          workspaceId: ctx.workspaceId,
           name: input.name,
           type: input.type as CampaignType,
           status: input.status as CampaignStatus,
@@ -714,7 +810,7 @@ export const campaignRouter = router({
     }),
 
   // Update campaign
-  update: protectedProcedure
+  update: workspaceProcedure
     .input(
       z.object({
         id: z.string(),
@@ -726,6 +822,8 @@ export const campaignRouter = router({
     )
     .mutation(async ({ ctx, input }) => {
       const { id, ...data } = input;
+      await assertCampaignInWorkspace(ctx.workspaceId, id);
+
       return ctx.db.campaign.update({
         where: { id },
         data: data as { name?: string; status?: CampaignStatus },
@@ -735,20 +833,54 @@ export const campaignRouter = router({
       });
     }),
 
+  // Users who must all approve the campaign's content before it is published
+  setRequiredApprovers: managerProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        approverIds: z.array(z.string()).max(20),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.id);
+
+      const approverIds = [...new Set(input.approverIds)];
+      const members = await ctx.db.workspaceMember.count({
+        where: { workspaceId: ctx.workspaceId, userId: { in: approverIds } },
+      });
+      if (members !== approverIds.length) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Every approver must be a member of the workspace",
+        });
+      }
+
+      return ctx.db.campaign.update({
+        where: { id: input.id },
+        data: { requiredApproverIds: approverIds },
+        select: { id: true, requiredApproverIds: true },
+      });
+    }),
+
   // Delete campaign
-  delete: protectedProcedure
+  delete: workspaceProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.id);
+
       return ctx.db.campaign.delete({
         where: { id: input.id },
       });
     }),
 
   // Get campaign statistics
-  getStats: publicProcedure
+  getStats: workspaceProcedure
     .input(z.object({ userId: z.string().optional() }))
     .query(async ({ ctx, input }) => {
-      const where = input.userId ? { userId: input.userId } : {};
+      const where = {
+        workspaceId: ctx.workspaceId,
+        ...(input.userId && { userId: input.userId }),
+      };
 
       const [total, active, completed] = await Promise.all([
         ctx.db.campaign.count({ where }),
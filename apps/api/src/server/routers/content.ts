@@ -1,79 +1,424 @@
-import { ContentAgent } from "@neon/core-agents";
+import { TRPCError } from "@trpc/server";
+import {
+  ContentAgent,
+  ContentWorkflow,
+  ContentWorkflowError,
+  type AgentResult,
+} from "@neon/core-agents";
+import { type ContentType, type Platform } from "@neon/data-model";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import { createTRPCRouter, workspaceProcedure } from "../trpc";
+import { hasRole } from "../auth";
+import { assertCampaignInWorkspace } from "../workspace";
+
+// Initialize content services
+const contentWorkflow = new ContentWorkflow();
+
+const ToneSchema = z.enum([
+  "professional",
+  "casual",
+  "friendly",
+  "authoritative",
+  "playful",
+]);
+
+const PLATFORMS: Record<string, Platform> = {
+  email: "EMAIL",
+  facebook: "FACEBOOK",
+  instagram: "INSTAGRAM",
+  twitter: "TWITTER",
+  linkedin: "LINKEDIN",
+};
+
+const WORKFLOW_ERROR_CODES = {
+  NOT_FOUND: "NOT_FOUND",
+  INVALID_TRANSITION: "BAD_REQUEST",
+  STALE_VERSION: "CONFLICT",
+  INVALID_INPUT: "BAD_REQUEST",
+  NOT_APPROVED: "PRECONDITION_FAILED",
+} as const;
+
+// Run a workflow step, reporting workflow errors with a matching tRPC code
+async function withWorkflowErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof ContentWorkflowError) {
+      throw new TRPCError({
+        code: WORKFLOW_ERROR_CODES[error.code],
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Generated content is stored as a draft with the agent's output as its
+ * first revision, so it can be reviewed before anything is published.
+ */
+async function saveDraft(
+  ctx: { workspaceId: string; session: { user: { id: string } } },
+  result: AgentResult,
+  draft: {
+    title: string;
+    type: ContentType;
+    platform: Platform;
+    campaignId?: string | undefined;
+  },
+) {
+  if (!result.success) return result;
+
+  if (draft.campaignId) {
+    await assertCampaignInWorkspace(ctx.workspaceId, draft.campaignId);
+  }
+  const generated = result.data as {
+    content: string;
+    suggestedTitle?: string;
+    hashtags?: string[];
+  };
+  const content = await contentWorkflow.createContent({
+    workspaceId: ctx.workspaceId,
+    campaignId: draft.campaignId,
+    title: generated.suggestedTitle || draft.title,
+    type: draft.type,
+    platform: draft.platform,
+    body: {
+      text: generated.content,
+      ...(generated.hashtags && { hashtags: generated.hashtags }),
+    },
+    source: "AGENT",
+    agentType: "CONTENT",
+    authorId: ctx.session.user.id,
+  });
+
+  return { ...result, contentId: content.id, status: content.status };
+}
 
 export const contentRouter = createTRPCRouter({
-  generatePost: publicProcedure
+  generatePost: workspaceProcedure
     .input(
       z.object({
         type: z.enum(["blog", "social_post", "email", "caption", "copy"]),
         topic: z.string(),
         audience: z.string(),
-        tone: z.enum([
-          "professional",
-          "casual",
-          "friendly",
-          "authoritative",
-          "playful",
-        ]),
+        tone: ToneSchema,
         keywords: z.array(z.string()).optional(),
         platform: z
           .enum(["email", "facebook", "instagram", "twitter", "linkedin"])
           .optional(),
+        campaignId: z.string().optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const { campaignId, ...context } = input;
       const contentAgent = new ContentAgent();
-      return await contentAgent.generatePost(input);
+      const result = await contentAgent.generatePost(context);
+
+      const type: ContentType =
+        input.type === "blog"
+          ? "BLOG"
+          : input.type === "email"
+            ? "EMAIL"
+            : "POST";
+      return saveDraft(ctx, result, {
+        title: input.topic,
+        type,
+        platform: input.platform
+          ? PLATFORMS[input.platform]!
+          : type === "BLOG"
+            ? "WEBSITE"
+            : "FACEBOOK",
+        campaignId,
+      });
     }),
 
-  generateBlog: publicProcedure
+  generateBlog: workspaceProcedure
     .input(
       z.object({
         topic: z.string(),
         audience: z.string(),
-        tone: z.enum([
-          "professional",
-          "casual",
-          "friendly",
-          "authoritative",
-          "playful",
-        ]),
+        tone: ToneSchema,
         keywords: z.array(z.string()).optional(),
+        campaignId: z.string().optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const { campaignId, ...context } = input;
       const contentAgent = new ContentAgent();
-      return await contentAgent.generateBlog({
-        ...input,
+      const result = await contentAgent.generateBlog({
+        ...context,
         type: "blog",
         length: "long",
       });
+
+      return saveDraft(ctx, result, {
+        title: input.topic,
+        type: "BLOG",
+        platform: "WEBSITE",
+        campaignId,
+      });
     }),
 
-  generateCaption: publicProcedure
+  generateCaption: workspaceProcedure
     .input(
       z.object({
         topic: z.string(),
         audience: z.string(),
-        tone: z.enum([
-          "professional",
-          "casual",
-          "friendly",
-          "authoritative",
-          "playful",
-        ]),
+        tone: ToneSchema,
         platform: z
           .enum(["facebook", "instagram", "twitter", "linkedin"])
           .optional(),
+        campaignId: z.string().optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const { campaignId, ...context } = input;
       const contentAgent = new ContentAgent();
-      return await contentAgent.generateCaption({
-        ...input,
+      const result = await contentAgent.generateCaption({
+        ...context,
         type: "caption",
         length: "short",
       });
+
+      return saveDraft(ctx, result, {
+        title: input.topic,
+        type: "POST",
+        platform: PLATFORMS[input.platform ?? "instagram"]!,
+        campaignId,
+      });
     }),
+
+  // Content in the workspace, newest first
+  list: workspaceProcedure
+    .input(
+      z.object({
+        status: z
+          .enum([
+            "DRAFT",
+            "IN_REVIEW",
+            "APPROVED",
+            "SCHEDULED",
+            "PUBLISHED",
+            "ARCHIVED",
+          ])
+          .optional(),
+        campaignId: z.string().optional(),
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.content.findMany({
+        where: {
+          workspaceId: ctx.workspaceId,
+          ...(input.status && { status: input.status }),
+          ...(input.campaignId && { campaignId: input.campaignId }),
+        },
+        orderBy: { updatedAt: "desc" },
+        skip: input.offset,
+        take: input.limit,
+      });
+    }),
+
+  getById: workspaceProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const content = await ctx.db.content.findFirst({
+        where: { id: input.id, workspaceId: ctx.workspaceId },
+      });
+      if (!content) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Content not found",
+        });
+      }
+
+      return {
+        ...content,
+        approval: await contentWorkflow.getApprovalState(
+          input.id,
+          ctx.workspaceId,
+        ),
+      };
+    }),
+
+  // Save an edit as a new revision
+  revise: workspaceProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        body: z.record(z.unknown()),
+        baseVersion: z.number().int().min(1),
+        note: z.string().max(500).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.reviseContent(
+          input.id,
+          {
+            body: input.body,
+            baseVersion: input.baseVersion,
+            note: input.note,
+            source: "HUMAN",
+            authorId: ctx.session.user.id,
+          },
+          ctx.workspaceId,
+        ),
+      ),
+    ),
+
+  revisions: workspaceProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.listRevisions(input.id, ctx.workspaceId),
+      ),
+    ),
+
+  // Defaults to the latest agent revision against the current version
+  diff: workspaceProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        fromVersion: z.number().int().min(1).optional(),
+        toVersion: z.number().int().min(1).optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.diffRevisions(
+          input.id,
+          ctx.workspaceId,
+          input.fromVersion,
+          input.toVersion,
+        ),
+      ),
+    ),
+
+  submitForReview: workspaceProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.submitForReview(input.id, ctx.workspaceId),
+      ),
+    ),
+
+  /**
+   * Approve or request changes. Content of campaigns with required
+   * approvers can only be reviewed by them; other content needs a manager.
+   */
+  review: workspaceProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        version: z.number().int().min(1),
+        decision: z.enum(["APPROVED", "CHANGES_REQUESTED"]),
+        note: z.string().max(2000).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withWorkflowErrors(async () => {
+        const { requiredApproverIds } = await contentWorkflow.getApprovalState(
+          input.id,
+          ctx.workspaceId,
+        );
+        const allowed =
+          requiredApproverIds.length > 0
+            ? requiredApproverIds.includes(ctx.session.user.id)
+            : hasRole(ctx.workspaceRole, "MANAGER");
+        if (!allowed) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "You are not an approver for this content",
+          });
+        }
+
+        return contentWorkflow.reviewContent(
+          input.id,
+          {
+            reviewerId: ctx.session.user.id,
+            decision: input.decision,
+            version: input.version,
+            note: input.note,
+          },
+          ctx.workspaceId,
+        );
+      }),
+    ),
+
+  addComment: workspaceProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        body: z.string().min(1).max(2000),
+        version: z.number().int().min(1).optional(),
+        anchor: z
+          .object({
+            start: z.number().int().min(0),
+            end: z.number().int().min(1),
+          })
+          .optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.addComment(
+          input.id,
+          {
+            authorId: ctx.session.user.id,
+            body: input.body,
+            version: input.version,
+            anchor: input.anchor,
+          },
+          ctx.workspaceId,
+        ),
+      ),
+    ),
+
+  resolveComment: workspaceProcedure
+    .input(z.object({ commentId: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.resolveComment(
+          input.commentId,
+          ctx.session.user.id,
+          ctx.workspaceId,
+        ),
+      ),
+    ),
+
+  comments: workspaceProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        version: z.number().int().min(1).optional(),
+        includeResolved: z.boolean().default(false),
+      }),
+    )
+    .query(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.listComments(input.id, ctx.workspaceId, {
+          ...(input.version !== undefined && { version: input.version }),
+          includeResolved: input.includeResolved,
+        }),
+      ),
+    ),
+
+  schedule: workspaceProcedure
+    .input(z.object({ id: z.string(), scheduledAt: z.date() }))
+    .mutation(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.schedule(input.id, input.scheduledAt, ctx.workspaceId),
+      ),
+    ),
+
+  archive: workspaceProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      withWorkflowErrors(() =>
+        contentWorkflow.archive(input.id, ctx.workspaceId),
+      ),
+    ),
 });
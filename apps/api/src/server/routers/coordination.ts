@@ -5,7 +5,12 @@
 
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { publicProcedure, router } from "../trpc";
+import {
+  adminProcedure,
+  managerProcedure,
+  publicProcedure,
+  router,
+} from "../trpc";
 import {
   PlanPriority,
   AgentType,
@@ -304,7 +309,7 @@ export const coordinationRouter = router({
   /**
    * Trigger manual replanning for a goal
    */
-  triggerReplanning: publicProcedure
+  triggerReplanning: managerProcedure
     .input(replanRequestSchema)
     .output(
       z.object({
@@ -566,7 +571,7 @@ export const coordinationRouter = router({
   /**
    * Emergency stop all operations
    */
-  emergencyStop: publicProcedure
+  emergencyStop: adminProcedure
     .output(
       z.object({
         success: z.boolean(),
@@ -574,9 +579,11 @@ export const coordinationRouter = router({
         message: z.string(),
       }),
     )
-    .mutation(async () => {
+    .mutation(async ({ ctx }) => {
       try {
-        console.log("🛑 [CoordinationAPI] Emergency stop triggered");
+        console.log(
+          `🛑 [CoordinationAPI] Emergency stop triggered by ${ctx.session.user.email}`,
+        );
 
         return {
           success: true,
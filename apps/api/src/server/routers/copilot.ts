@@ -1,16 +1,14 @@
 import { z } from "zod";
-import { router, publicProcedure } from "../trpc";
+import { router, workspaceProcedure } from "../trpc";
 import { TRPCError } from "@trpc/server";
 import { observable } from "@trpc/server/observable";
 import { db } from "@neon/data-model";
-// Replaced with mock implementation above
+import { JobQueue } from "@neon/core-agents";
+import {
+  CommandRouter,
+  type CommandExecutionContext,
+} from "@neon/core-agents/src/command-router/CommandRouter";
 // Mock implementations for missing modules
-const mockCommandRouter = {
-  routeCommand: async (command: string) => {
-    return { action: "mock_action", result: `Routed command: ${command}` };
-  },
-};
-
 const mockVoiceTranscriber = {
   transcribe: async (audioData: unknown) => {
     return { text: "Mock transcribed text", confidence: 0.9 };
@@ -238,7 +236,8 @@ const CommandResultSchema = z.object({
 
 // Create agent instances
 const copilotAgent = mockLLMCopilotAgent;
-const commandRouter = mockCommandRouter;
+// Commands are queued and run by the worker (src/worker.ts)
+const commandRouter = new CommandRouter(new JobQueue());
 const voiceTranscriber = mockVoiceTranscriber;
 
 // Mock LLM Copilot Agent to replace missing import
@@ -282,11 +281,6 @@ const mockLLMCopilotAgent = {
 };
 
 // Helper functions
-async function getUserId(ctx: any): Promise<string> {
-  // Mock user ID - in production would extract from authentication context
-  return ctx.user?.id || "user_demo_123";
-}
-
 function generateSessionId(): string {
   return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
@@ -313,16 +307,28 @@ function logCopilotInteraction(data: any): void {
 // Database helper functions for session management
 async function ensureCopilotSession(
   sessionId: string,
-  userId?: string,
+  workspaceId: string,
+  userId: string,
 ): Promise<void> {
-  try {
-    const existingSession = await db.copilotSession.findUnique({
-      where: { sessionId },
-    });
+  const existingSession = await db.copilotSession.findUnique({
+    where: { sessionId },
+    select: { workspaceId: true, userId: true },
+  });
+
+  // Another workspace's or user's session id cannot be continued
+  if (
+    existingSession &&
+    (existingSession.workspaceId !== workspaceId ||
+      (existingSession.userId && existingSession.userId !== userId))
+  ) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Session not found" });
+  }
 
+  try {
     if (!existingSession) {
       await db.copilotSession.create({
         data: {
+          workspaceId,
           sessionId,
           userId,
           status: "ACTIVE",
@@ -434,18 +440,18 @@ async function updateSessionCounters(
 
 export const copilotRouter = router({
   // Main copilot conversation endpoint
-  askCopilot: publicProcedure
+  askCopilot: workspaceProcedure
     .input(CopilotMessageSchema)
     .output(CopilotResponseSchema)
     .mutation(async ({ input, ctx }) => {
       const startTime = Date.now();
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
       const sessionId = input.sessionId || generateSessionId();
 
-      try {
-        // Ensure session exists in database
-        await ensureCopilotSession(sessionId, userId);
+      // Ensure session exists in database
+      await ensureCopilotSession(sessionId, ctx.workspaceId, userId);
 
+      try {
         // Generate message IDs
         const userMessageId = `msg_user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const assistantMessageId = `msg_assistant_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -529,10 +535,10 @@ export const copilotRouter = router({
     }),
 
   // Streaming copilot response endpoint
-  streamCopilotResponse: publicProcedure
+  streamCopilotResponse: workspaceProcedure
     .input(StreamingRequestSchema)
     .subscription(({ input, ctx }) => {
-      const userId = getUserId(ctx);
+      const userId = ctx.session.user.id;
       const sessionId = input.sessionId || generateSessionId();
 
       return observable<z.infer<typeof StreamingChunkSchema>>((emit) => {
@@ -639,12 +645,12 @@ export const copilotRouter = router({
     }),
 
   // Voice transcription endpoint
-  transcribeVoice: publicProcedure
+  transcribeVoice: workspaceProcedure
     .input(VoiceTranscriptionSchema)
     .output(TranscriptionResultSchema)
     .mutation(async ({ input, ctx }) => {
       const startTime = Date.now();
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
 
       try {
         // Check permissions
@@ -712,12 +718,12 @@ export const copilotRouter = router({
     }),
 
   // Command execution endpoint
-  executeCommand: publicProcedure
+  executeCommand: workspaceProcedure
     .input(CommandExecutionSchema)
     .output(CommandResultSchema)
     .mutation(async ({ input, ctx }) => {
       const startTime = Date.now();
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
       const sessionId = input.sessionId || generateSessionId();
 
       try {
@@ -742,12 +748,13 @@ export const copilotRouter = router({
           dryRun: input.dryRun,
         });
 
-        // Execute command through command router
+        // Queue the command for the worker through the command router
         const context = {
           sessionId,
           userId,
           intent: {
-            primaryAction: input.action,
+            primaryAction:
+              input.action as CommandExecutionContext["intent"]["primaryAction"],
             parameters: input.parameters,
             confidence: 0.9,
           },
@@ -776,38 +783,31 @@ export const copilotRouter = router({
           },
         };
 
-        const result = await commandRouter.processCommand(
+        const job = await commandRouter.submitCommand(
           `Execute ${input.action} on ${input.agentType}`,
           context,
+          { workspaceId: ctx.workspaceId },
         );
 
-        // Transform result to match schema
-        const transformedResult = {
-          success: result.status === "completed",
-          executionId: result.executionId,
-          data: result.finalOutput,
-          error: result.errors?.[0]?.message,
-          duration: result.duration || Date.now() - startTime,
-          confidence: result.confidence,
-          agentResults: result.agentResults.map((ar) => ({
-            agentType: ar.agentType,
-            status: ar.status as "pending" | "running" | "completed" | "failed",
-            output: ar.output,
-            confidence: ar.confidence,
-            duration: ar.duration,
-          })),
+        // The job id is the execution id; poll getCommandExecution for the
+        // result
+        const queuedResult = {
+          success: true,
+          executionId: job.id,
+          data: { status: job.status.toLowerCase() },
+          duration: Date.now() - startTime,
+          agentResults: [],
         };
 
         logCopilotInteraction({
-          action: "executeCommand_success",
+          action: "executeCommand_queued",
           userId,
           sessionId,
-          executionId: result.executionId,
-          success: transformedResult.success,
-          processingTime: transformedResult.duration,
+          executionId: job.id,
+          processingTime: queuedResult.duration,
         });
 
-        return transformedResult;
+        return queuedResult;
       } catch (error) {
         console.error("[Copilot API] Command execution failed:", error);
 
@@ -830,10 +830,10 @@ export const copilotRouter = router({
     }),
 
   // Session management endpoints
-  getSession: publicProcedure
+  getSession: workspaceProcedure
     .input(GetSessionSchema)
     .query(async ({ input, ctx }) => {
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
 
       try {
         const session = await copilotAgent.getSession(input.sessionId);
@@ -865,10 +865,10 @@ export const copilotRouter = router({
       }
     }),
 
-  updateSession: publicProcedure
+  updateSession: workspaceProcedure
     .input(UpdateSessionSchema)
     .mutation(async ({ input, ctx }) => {
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
 
       try {
         const session = await copilotAgent.getSession(input.sessionId);
@@ -918,10 +918,10 @@ export const copilotRouter = router({
       }
     }),
 
-  clearSession: publicProcedure
+  clearSession: workspaceProcedure
     .input(GetSessionSchema)
     .mutation(async ({ input, ctx }) => {
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
 
       try {
         const session = await copilotAgent.getSession(input.sessionId);
@@ -953,19 +953,25 @@ export const copilotRouter = router({
       }
     }),
 
-  // Analytics and monitoring endpoints
-  getActiveExecutions: publicProcedure.query(async ({ ctx }) => {
-    const userId = await getUserId(ctx);
-
-    try {
-      const executions = commandRouter.getActiveExecutions();
+  // A queued command's state, or its result once the worker has run it
+  getCommandExecution: workspaceProcedure
+    .input(z.object({ executionId: z.string().min(1) }))
+    .query(async ({ input, ctx }) => {
+      const job = await commandRouter.getQueuedCommand(input.executionId);
+      if (!job || job.workspaceId !== ctx.workspaceId) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Execution not found",
+        });
+      }
 
-      // Filter executions for current user (mock implementation)
-      const userExecutions = executions.filter((exec) =>
-        exec.agentResults.some((ar) => ar.metadata?.userId === userId),
-      );
+      return commandRouter.getExecutionById(job.id);
+    }),
 
-      return userExecutions;
+  // Analytics and monitoring endpoints
+  getActiveExecutions: workspaceProcedure.query(async ({ ctx }) => {
+    try {
+      return await commandRouter.getActiveExecutions(ctx.workspaceId);
     } catch (error) {
       throw new TRPCError({
         code: "INTERNAL_SERVER_ERROR",
@@ -975,8 +981,8 @@ export const copilotRouter = router({
     }
   }),
 
-  getSystemMetrics: publicProcedure.query(async ({ ctx }) => {
-    const userId = await getUserId(ctx);
+  getSystemMetrics: workspaceProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id;
 
     // Check admin permissions
     const hasPermission = await validateUserPermissions(
@@ -991,7 +997,7 @@ export const copilotRouter = router({
     }
 
     try {
-      const metrics = commandRouter.getSystemMetrics();
+      const metrics = await commandRouter.getSystemMetrics(ctx.workspaceId);
       const activeSessions = await copilotAgent.getActiveSessionCount();
 
       return {
@@ -1010,7 +1016,7 @@ export const copilotRouter = router({
   }),
 
   // Agent capability discovery
-  getAvailableAgents: publicProcedure.query(async () => {
+  getAvailableAgents: workspaceProcedure.query(async () => {
     try {
       const schemas = getAllCommandSchemas();
 
@@ -1036,7 +1042,7 @@ export const copilotRouter = router({
     }
   }),
 
-  getAgentCapabilities: publicProcedure
+  getAgentCapabilities: workspaceProcedure
     .input(z.object({ agentType: z.string() }))
     .query(async ({ input }) => {
       try {
@@ -1067,7 +1073,7 @@ export const copilotRouter = router({
     }),
 
   // Session analytics endpoints
-  getSessions: publicProcedure
+  getSessions: workspaceProcedure
     .input(
       z.object({
         userId: z.string().optional(),
@@ -1083,10 +1089,10 @@ export const copilotRouter = router({
       }),
     )
     .query(async ({ input, ctx }) => {
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
 
       try {
-        const where: any = {};
+        const where: any = { workspaceId: ctx.workspaceId };
 
         // Filter by user ID (use from context if not provided)
         if (input.userId || userId) {
@@ -1128,14 +1134,14 @@ export const copilotRouter = router({
       }
     }),
 
-  getSessionDetail: publicProcedure
+  getSessionDetail: workspaceProcedure
     .input(z.object({ sessionId: z.string() }))
     .query(async ({ input, ctx }) => {
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
 
       try {
-        const session = await db.copilotSession.findUnique({
-          where: { sessionId: input.sessionId },
+        const session = await db.copilotSession.findFirst({
+          where: { sessionId: input.sessionId, workspaceId: ctx.workspaceId },
           include: {
             logs: {
               orderBy: { createdAt: "asc" },
@@ -1179,7 +1185,7 @@ export const copilotRouter = router({
       }
     }),
 
-  getSessionAnalytics: publicProcedure
+  getSessionAnalytics: workspaceProcedure
     .input(
       z.object({
         period: z.enum(["daily", "weekly", "monthly"]).default("weekly"),
@@ -1189,10 +1195,10 @@ export const copilotRouter = router({
       }),
     )
     .query(async ({ input, ctx }) => {
-      const userId = await getUserId(ctx);
+      const userId = ctx.session.user.id;
 
       try {
-        const where: any = {};
+        const where: any = { workspaceId: ctx.workspaceId };
 
         if (input.userId || userId) {
           where.userId = input.userId || userId;
@@ -1275,12 +1281,12 @@ export const copilotRouter = router({
     }),
 
   // Health check endpoint
-  healthCheck: publicProcedure.query(async () => {
+  healthCheck: workspaceProcedure.query(async ({ ctx }) => {
     try {
       const copilotHealth = (await copilotAgent.getActiveSessionCount()) >= 0;
       const voiceHealth = await voiceTranscriber.healthCheck();
       const commandRouterHealth =
-        commandRouter.getActiveExecutions().length >= 0;
+        (await commandRouter.getActiveExecutions(ctx.workspaceId)).length >= 0;
 
       const overallHealth = copilotHealth && voiceHealth && commandRouterHealth;
 
@@ -1,7 +1,30 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
 import {
+  EmailSequenceEnrollmentStatus,
+  EmailSequenceReentry,
+  EmailSequenceStatus,
+  EmailSuppressionReason,
+  LeadStatus,
+} from "@neon/data-model";
+import {
+  createTRPCRouter,
+  managerProcedure,
+  publicProcedure,
+  workspaceProcedure,
+} from "../trpc";
+import {
+  DripSequences,
+  EmailDeliveryTracker,
   EmailMarketingAgent,
+  EmailSequenceError,
+  EmailTemplateError,
+  EmailTemplates,
+  MERGE_FIELDS,
+  SegmentEngine,
+  SenderIdentities,
+  SenderIdentityError,
+  stepsFromEmails,
   type EmailSequenceInput,
   type PersonalizationInput,
   type EmailPerformanceData,
@@ -70,6 +93,8 @@ const ABTestInputSchema = z.object({
 });
 
 const SendCampaignSchema = z.object({
+  // Approved content to send; its approved revision is what goes out
+  contentId: z.string().min(1, "Approved content is required"),
   name: z.string().min(1, "Campaign name is required"),
   subject: z.string().min(1, "Subject line is required"),
   content: z.object({
@@ -78,6 +103,7 @@ const SendCampaignSchema = z.object({
   }),
   recipients: z.object({
     emails: z.array(z.string().email()),
+    // User segments whose members are sent to as well
     segments: z.array(z.string()).optional(),
     excludeList: z.array(z.string().email()).optional(),
   }),
@@ -99,6 +125,168 @@ const SendCampaignSchema = z.object({
     .optional(),
 });
 
+const MergeValueSchema = z.union([z.string(), z.number(), z.array(z.string())]);
+
+const TemplateVariableSchema = z.object({
+  path: z.string().min(1).max(100),
+  type: z.enum(["string", "number", "list"]).optional(),
+  required: z.boolean().optional(),
+  fallback: MergeValueSchema.optional(),
+  description: z.string().max(500).optional(),
+});
+
+const TemplateSourceSchema = z.object({
+  subject: z.string().min(1).max(300),
+  mjml: z.string().min(1).max(200_000),
+  text: z.string().max(100_000).optional(),
+  variables: z.array(TemplateVariableSchema).max(100).optional(),
+});
+
+// Sample recipient for previews; unset fields come from the built-in sample
+const TemplateRecipientSchema = z.object({
+  lead: z
+    .object({
+      email: z.string(),
+      name: z.string(),
+      firstName: z.string(),
+      lastName: z.string(),
+      company: z.string(),
+      position: z.string(),
+      phone: z.string(),
+      source: z.string(),
+      status: z.nativeEnum(LeadStatus),
+      score: z.number(),
+      tags: z.array(z.string()),
+    })
+    .partial()
+    .optional(),
+  persona: z
+    .object({
+      name: z.string(),
+      description: z.string(),
+      preferredTone: z.string(),
+      painPoints: z.array(z.string()),
+      goals: z.array(z.string()),
+    })
+    .partial()
+    .optional(),
+  custom: z.record(MergeValueSchema).optional(),
+  unsubscribeUrl: z.string().url().optional(),
+});
+
+const SequenceConditionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("opened") }),
+  z.object({ type: z.literal("clicked"), url: z.string().optional() }),
+  z.object({ type: z.literal("replied") }),
+  z.object({
+    type: z.literal("lead_status"),
+    status: z.array(z.nativeEnum(LeadStatus)).min(1),
+  }),
+  z.object({
+    type: z.literal("lead_status_changed"),
+    to: z.array(z.nativeEnum(LeadStatus)).optional(),
+  }),
+]);
+
+const SequenceStepSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("email"),
+    templateId: z.string().optional(),
+    subject: z.string().max(300).optional(),
+    text: z.string().max(100_000).optional(),
+    html: z.string().max(200_000).optional(),
+  }),
+  z.object({ type: z.literal("wait"), hours: z.number().positive() }),
+  z.object({
+    type: z.literal("wait_until"),
+    condition: SequenceConditionSchema,
+    timeoutHours: z.number().positive(),
+    onTimeout: z.enum(["continue", "exit"]).optional(),
+  }),
+  z.object({
+    type: z.literal("condition"),
+    condition: SequenceConditionSchema,
+    otherwise: z.union([z.literal("exit"), z.number().int()]).optional(),
+  }),
+]);
+
+// Recipient event history and suppression lists
+const emailDeliveries = new EmailDeliveryTracker();
+const senderIdentities = new SenderIdentities();
+const emailTemplates = new EmailTemplates();
+
+// Enrolls recipients in drip sequences; the worker advances the enrollments
+// once they are due
+const dripSequences = new DripSequences();
+
+// Members of the user segments a campaign is sent to
+const segmentEngine = new SegmentEngine(undefined, {
+  sequences: dripSequences,
+});
+
+const SENDER_ERROR_CODES = {
+  INVALID_ADDRESS: "BAD_REQUEST",
+  DOMAIN_MISMATCH: "BAD_REQUEST",
+  NOT_FOUND: "NOT_FOUND",
+} as const;
+
+// Run a sender identity change, reporting its errors with a matching tRPC code
+async function withSenderErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof SenderIdentityError) {
+      throw new TRPCError({
+        code: SENDER_ERROR_CODES[error.code],
+        message: error.message,
+      });
+    }
+    throw error;
+  }
+}
+
+const TEMPLATE_ERROR_CODES = {
+  INVALID_TEMPLATE: "BAD_REQUEST",
+  MISSING_VARIABLES: "BAD_REQUEST",
+  NOT_FOUND: "NOT_FOUND",
+} as const;
+
+// Run a template operation, listing every template issue in the error
+async function withTemplateErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof EmailTemplateError) {
+      throw new TRPCError({
+        code: TEMPLATE_ERROR_CODES[error.code],
+        message: [error.message, ...error.issues].join("\n"),
+      });
+    }
+    throw error;
+  }
+}
+
+const SEQUENCE_ERROR_CODES = {
+  INVALID_SEQUENCE: "BAD_REQUEST",
+  NOT_FOUND: "NOT_FOUND",
+  NOT_ACTIVE: "PRECONDITION_FAILED",
+} as const;
+
+// Run a sequence operation, listing every sequence issue in the error
+async function withSequenceErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof EmailSequenceError) {
+      throw new TRPCError({
+        code: SEQUENCE_ERROR_CODES[error.code],
+        message: [error.message, ...error.issues].join("\n"),
+      });
+    }
+    throw error;
+  }
+}
+
 export const emailRouter = createTRPCRouter({
   /**
    * Generate AI-powered email sequence
@@ -263,33 +451,50 @@ export const emailRouter = createTRPCRouter({
   /**
    * Send email campaign
    */
-  sendCampaign: publicProcedure
+  sendCampaign: workspaceProcedure
     .input(SendCampaignSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
+        const emails = new Set(input.recipients.emails);
+        for (const segmentId of input.recipients.segments ?? []) {
+          for (const { email } of await segmentEngine.recipients(
+            ctx.workspaceId,
+            segmentId,
+          )) {
+            emails.add(email);
+          }
+        }
+        const recipients = { ...input.recipients, emails: [...emails] };
         logger.info(
           "Sending email campaign",
-          { name: input.name, recipientCount: input.recipients.emails.length },
+          { name: input.name, recipientCount: recipients.emails.length },
           "EmailRouter",
         );
 
         const agent = new EmailMarketingAgent();
         const result = await agent.execute({
           task: "send_campaign",
-          context: input,
+          context: { ...input, recipients, workspaceId: ctx.workspaceId },
           priority: "high",
         });
+        if (!result.success) {
+          throw new Error(result.error);
+        }
 
         logger.info(
-          "Email campaign sent successfully",
-          { campaignId: result.data?.campaignId },
+          "Email campaign sent",
+          {
+            campaignId: result.data?.campaignId,
+            sent: result.data?.sent,
+            failed: result.data?.failed?.length,
+          },
           "EmailRouter",
         );
 
         return {
           success: true,
           data: result.data,
-          message: "Email campaign sent successfully",
+          message: result.data?.message ?? "Email campaign sent successfully",
         };
       } catch (error) {
         logger.error(
@@ -304,34 +509,350 @@ export const emailRouter = createTRPCRouter({
     }),
 
   /**
-   * Get email templates
+   * Delivery events of one recipient, newest first
    */
-  getTemplates: publicProcedure.query(async () => {
-    try {
-      const agent = new EmailMarketingAgent();
-      const result = await agent.execute({
-        task: "manage_templates",
-        context: { action: "list" },
-        priority: "low",
-      });
+  recipientHistory: workspaceProcedure
+    .input(
+      z.object({
+        email: z.string().email(),
+        limit: z.number().int().min(1).max(500).default(100),
+        before: z.date().optional(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return emailDeliveries.history(ctx.workspaceId, input.email, input);
+    }),
 
-      return {
-        success: true,
-        data: result.data,
-        message: "Templates retrieved successfully",
-      };
-    } catch (error) {
-      logger.error(
-        "Failed to get templates",
-        { error: error instanceof Error ? error.message : "Unknown error" },
-        "EmailRouter",
+  /**
+   * Addresses campaigns skip: hard bounces, complaints, unsubscribes and
+   * manual entries
+   */
+  suppressions: workspaceProcedure
+    .input(
+      z.object({
+        reason: z.nativeEnum(EmailSuppressionReason).optional(),
+        limit: z.number().int().min(1).max(200).default(50),
+        offset: z.number().int().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      return emailDeliveries.listSuppressions(ctx.workspaceId, input);
+    }),
+
+  suppress: managerProcedure
+    .input(z.object({ email: z.string().email() }))
+    .mutation(async ({ ctx, input }) => {
+      const added = await emailDeliveries.suppress(
+        ctx.workspaceId,
+        input.email,
+        EmailSuppressionReason.MANUAL,
+        `user:${ctx.session.user.id}`,
       );
-      throw new Error(
-        `Failed to get templates: ${error instanceof Error ? error.message : "Unknown error"}`,
+      return { added };
+    }),
+
+  // Lets a suppressed address receive campaigns again
+  unsuppress: managerProcedure
+    .input(z.object({ email: z.string().email() }))
+    .mutation(async ({ ctx, input }) => {
+      const removed = await emailDeliveries.unsuppress(
+        ctx.workspaceId,
+        input.email,
       );
-    }
+      return { removed };
+    }),
+
+  /**
+   * From addresses the workspace can send as, with their DKIM status
+   */
+  senderIdentities: workspaceProcedure.query(async ({ ctx }) => {
+    return senderIdentities.list(ctx.workspaceId);
+  }),
+
+  // Adds (or updates) an identity and checks its domain for a DKIM key
+  addSenderIdentity: managerProcedure
+    .input(
+      z.object({
+        email: z.string().email(),
+        name: z.string().max(100).optional(),
+        replyTo: z.string().email().optional(),
+        domain: z.string().min(3).optional(),
+        dkimSelector: z.string().min(1).optional(),
+        isDefault: z.boolean().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withSenderErrors(() =>
+        senderIdentities.add({ ...input, workspaceId: ctx.workspaceId }),
+      ),
+    ),
+
+  verifySenderIdentity: managerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      withSenderErrors(() =>
+        senderIdentities.verify(ctx.workspaceId, input.id),
+      ),
+    ),
+
+  removeSenderIdentity: managerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const removed = await senderIdentities.remove(ctx.workspaceId, input.id);
+      return { removed };
+    }),
+
+  /**
+   * The workspace's email templates
+   */
+  getTemplates: workspaceProcedure.query(async ({ ctx }) => {
+    return emailTemplates.list(ctx.workspaceId);
+  }),
+
+  getTemplate: workspaceProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) =>
+      withTemplateErrors(() => emailTemplates.get(ctx.workspaceId, input.id)),
+    ),
+
+  // Merge variables templates can use, with their types
+  mergeFields: workspaceProcedure.query(() => MERGE_FIELDS),
+
+  // Creates the template, or replaces the workspace's template of that name
+  saveTemplate: workspaceProcedure
+    .input(
+      TemplateSourceSchema.extend({
+        name: z.string().min(1).max(100),
+        description: z.string().max(500).optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withTemplateErrors(() =>
+        emailTemplates.save({
+          ...input,
+          workspaceId: ctx.workspaceId,
+          createdById: ctx.session.user.id,
+        }),
+      ),
+    ),
+
+  deleteTemplate: workspaceProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const removed = await emailTemplates.remove(ctx.workspaceId, input.id);
+      return { removed };
+    }),
+
+  /**
+   * Renders a saved template, or the editor's unsaved draft, for a sample
+   * recipient or one of the workspace's personas
+   */
+  previewTemplate: workspaceProcedure
+    .input(
+      z
+        .object({
+          templateId: z.string().optional(),
+          template: TemplateSourceSchema.optional(),
+          recipient: TemplateRecipientSchema.optional(),
+          personaId: z.string().optional(),
+        })
+        .refine((input) => input.templateId || input.template, {
+          message: "Provide a templateId or a template",
+        }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withTemplateErrors(() => emailTemplates.preview(ctx.workspaceId, input)),
+    ),
+
+  // Partials shared by the workspace's templates, used as {{> name}}
+  templatePartials: workspaceProcedure.query(async ({ ctx }) => {
+    return emailTemplates.listPartials(ctx.workspaceId);
   }),
 
+  saveTemplatePartial: workspaceProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        mjml: z.string().max(100_000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withTemplateErrors(() =>
+        emailTemplates.savePartial({ ...input, workspaceId: ctx.workspaceId }),
+      ),
+    ),
+
+  deleteTemplatePartial: workspaceProcedure
+    .input(z.object({ name: z.string() }))
+    .mutation(async ({ ctx, input }) =>
+      withTemplateErrors(async () => ({
+        removed: await emailTemplates.removePartial(
+          ctx.workspaceId,
+          input.name,
+        ),
+      })),
+    ),
+
+  /**
+   * The workspace's drip sequences
+   */
+  sequences: workspaceProcedure.query(async ({ ctx }) => {
+    return dripSequences.list(ctx.workspaceId);
+  }),
+
+  /**
+   * Creates a draft sequence, or replaces the steps and rules of the
+   * workspace's sequence of that name. Emails written by generateSequence
+   * can be passed as they are instead of steps.
+   */
+  saveSequence: managerProcedure
+    .input(
+      z
+        .object({
+          name: z.string().min(1).max(100),
+          description: z.string().max(500).optional(),
+          steps: z.array(SequenceStepSchema).max(50).optional(),
+          generatedEmails: z
+            .array(
+              z.object({
+                subject: z.string(),
+                content: z.string(),
+                htmlContent: z.string().optional(),
+                delayDays: z.number().min(0),
+              }),
+            )
+            .max(20)
+            .optional(),
+          exitWhen: z.array(SequenceConditionSchema).max(10).optional(),
+          reentry: z.nativeEnum(EmailSequenceReentry).optional(),
+          reentryAfterDays: z.number().int().min(0).max(365).optional(),
+          fromEmail: z.string().email().optional(),
+          fromName: z.string().max(100).optional(),
+          replyTo: z.string().email().optional(),
+        })
+        .refine((input) => input.steps || input.generatedEmails, {
+          message: "Provide steps or generatedEmails",
+        }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { generatedEmails, ...sequence } = input;
+      return withSequenceErrors(() =>
+        dripSequences.save({
+          ...sequence,
+          steps: sequence.steps ?? stepsFromEmails(generatedEmails ?? []),
+          workspaceId: ctx.workspaceId,
+          createdById: ctx.session.user.id,
+        }),
+      );
+    }),
+
+  // Activating starts the runner on its enrollments; archiving ends them
+  setSequenceStatus: managerProcedure
+    .input(
+      z.object({ id: z.string(), status: z.nativeEnum(EmailSequenceStatus) }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withSequenceErrors(() =>
+        dripSequences.setStatus(ctx.workspaceId, input.id, input.status),
+      ),
+    ),
+
+  // Enrolls leads or addresses; skipped recipients are listed with a reason
+  enrollInSequence: workspaceProcedure
+    .input(
+      z.object({
+        sequenceId: z.string(),
+        recipients: z
+          .array(
+            z
+              .object({
+                leadId: z.string().optional(),
+                email: z.string().email().optional(),
+                name: z.string().max(200).optional(),
+                custom: z.record(MergeValueSchema).optional(),
+              })
+              .refine((recipient) => recipient.leadId || recipient.email, {
+                message: "Provide a leadId or an email",
+              }),
+          )
+          .min(1)
+          .max(1000),
+      }),
+    )
+    .mutation(async ({ ctx, input }) =>
+      withSequenceErrors(() =>
+        dripSequences.enroll(
+          ctx.workspaceId,
+          input.sequenceId,
+          input.recipients,
+        ),
+      ),
+    ),
+
+  unenrollFromSequence: workspaceProcedure
+    .input(z.object({ enrollmentId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const removed = await dripSequences.unenroll(
+        ctx.workspaceId,
+        input.enrollmentId,
+      );
+      return { removed };
+    }),
+
+  // Enrollment counts per status and active enrollments per step
+  sequenceProgress: workspaceProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) =>
+      withSequenceErrors(() =>
+        dripSequences.progress(ctx.workspaceId, input.id),
+      ),
+    ),
+
+  // Where each enrolled recipient sits, optionally at one step
+  sequenceEnrollments: workspaceProcedure
+    .input(
+      z.object({
+        sequenceId: z.string(),
+        status: z.nativeEnum(EmailSequenceEnrollmentStatus).optional(),
+        step: z.number().int().min(0).optional(),
+        limit: z.number().min(1).max(200).default(50),
+        offset: z.number().min(0).default(0),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const { sequenceId, ...query } = input;
+      return dripSequences.enrollments(ctx.workspaceId, sequenceId, query);
+    }),
+
+  /**
+   * Records a recipient's reply, for sequences waiting on one. For inboxes
+   * and CRMs that see replies; providers do not report them.
+   */
+  recordReply: managerProcedure
+    .input(
+      z.object({
+        email: z.string().email(),
+        occurredAt: z.date().default(() => new Date()),
+        // Message-ID of the reply, so it is only recorded once
+        messageId: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return emailDeliveries.record([
+        {
+          provider: "reply",
+          providerEventId:
+            input.messageId ??
+            `${input.email}:${input.occurredAt.toISOString()}`,
+          type: "REPLY",
+          email: input.email,
+          occurredAt: input.occurredAt,
+          workspaceId: ctx.workspaceId,
+          messageId: input.messageId,
+        },
+      ]);
+    }),
+
   /**
    * Generate AI-powered subject lines
    */
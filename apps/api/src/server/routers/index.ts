@@ -7,6 +7,7 @@ import { seoRouter } from "./seo";
 import { socialRouter } from "./social";
 import { supportRouter } from "./support";
 import { userRouter } from "./user";
+import { workspaceRouter } from "./workspace";
 import { brandVoiceRouter } from "./brand-voice";
 import { outreachRouter } from "./outreach";
 import { strategyRouter } from "./strategy";
@@ -19,11 +20,12 @@ import { copilotRouter } from "./copilot";
 import { boardroomRouter } from "./boardroom";
 import { billingRouter } from "./billing";
 import { launchIntelligenceRouter } from "./launch-intelligence";
+import { trendsRouter } from "./trends";
+import { campaignRouter } from "./campaign";
 import { z } from "zod";
 
 // Import enhanced routers from /routers directory
 import { agentRouter } from "../../routers/agent";
-import { campaignRouter } from "../../routers/campaign";
 import { customerRouter } from "../../routers/customer";
 import { trendRouter } from "../../routers/trend";
 import { personalizationRouter } from "../../routers/personalization";
@@ -104,6 +106,7 @@ export const appRouter = createTRPCRouter({
   campaign: campaignRouter,
   customer: customerRouter,
   trend: trendRouter,
+  trends: trendsRouter,
   personalization: personalizationRouter,
 
   // Supporting routers
@@ -116,6 +119,7 @@ export const appRouter = createTRPCRouter({
   social: socialRouter,
   support: supportRouter,
   user: userRouter,
+  workspace: workspaceRouter,
   outreach: outreachRouter,
   strategy: strategyRouter,
   abTesting: abTestingRouter,
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import { createTRPCRouter, workspaceProcedure } from "../trpc";
+import { assertCampaignInWorkspace } from "../workspace";
 import { db as prisma } from "@neon/data-model";
 
 // Define AgentType enum locally (should be added to data model exports)
@@ -51,10 +52,11 @@ const budgetOptimizationSchema = z.object({
 
 export const launchIntelligenceRouter = createTRPCRouter({
   // Get campaign execution volume metrics
-  getCampaignExecutionVolume: publicProcedure
+  getCampaignExecutionVolume: workspaceProcedure
     .input(campaignExecutionVolumeSchema)
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { campaignId, timeRange, groupBy } = input;
+      await assertCampaignInWorkspace(ctx.workspaceId, campaignId);
 
       // Calculate time range
       const now = new Date();
@@ -175,9 +177,9 @@ export const launchIntelligenceRouter = createTRPCRouter({
     }),
 
   // Get sentiment trends for region and language
-  getSentimentTrends: publicProcedure
+  getSentimentTrends: workspaceProcedure
     .input(sentimentTrendsSchema)
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { region, language, timeRange, campaignId } = input;
 
       const startDate = new Date();
@@ -198,6 +200,7 @@ export const launchIntelligenceRouter = createTRPCRouter({
         createdAt: { gte: startDate },
         ...(language !== "all" && { language }),
         ...(campaignId && { campaignId }),
+        campaign: { workspaceId: ctx.workspaceId },
       };
 
       const sentimentData = await prisma.sentimentAnalysis.findMany({
@@ -295,10 +298,11 @@ export const launchIntelligenceRouter = createTRPCRouter({
     }),
 
   // Get budget pacing forecast
-  getPacingForecast: publicProcedure
+  getPacingForecast: workspaceProcedure
     .input(pacingForecastSchema)
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { campaignId, budget, spendSoFar, daysElapsed, totalDays } = input;
+      await assertCampaignInWorkspace(ctx.workspaceId, campaignId);
 
       // Get historical pacing data
       const pacingData = await prisma.budgetPacing.findMany({
@@ -408,10 +412,11 @@ export const launchIntelligenceRouter = createTRPCRouter({
     }),
 
   // Get launch optimization recommendations
-  getLaunchOptimizations: publicProcedure
+  getLaunchOptimizations: workspaceProcedure
     .input(budgetOptimizationSchema)
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { campaignId, currentRoi, targetRoi, timeWindow } = input;
+      await assertCampaignInWorkspace(ctx.workspaceId, campaignId);
 
       // Get recent optimization history
       const existingOptimizations = await prisma.budgetOptimization.findMany({
@@ -531,7 +536,7 @@ export const launchIntelligenceRouter = createTRPCRouter({
     }),
 
   // Get launch alerts
-  getLaunchAlerts: publicProcedure
+  getLaunchAlerts: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string().optional(),
@@ -541,12 +546,13 @@ export const launchIntelligenceRouter = createTRPCRouter({
         limit: z.number().default(20),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       const { campaignId, region, severity, resolved, limit } = input;
 
       const alerts = await prisma.launchAlert.findMany({
         where: {
           ...(campaignId && { campaignId }),
+          campaign: { workspaceId: ctx.workspaceId },
           region,
           ...(severity && { severity }),
           ...(resolved !== undefined && { isResolved: resolved }),
@@ -592,7 +598,7 @@ export const launchIntelligenceRouter = createTRPCRouter({
     }),
 
   // Create or update execution metrics
-  trackExecution: publicProcedure
+  trackExecution: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
@@ -603,9 +609,10 @@ export const launchIntelligenceRouter = createTRPCRouter({
         region: z.string().default("UAE"),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { campaignId, agentType, success, executionTime, cost, region } =
         input;
+      await assertCampaignInWorkspace(ctx.workspaceId, campaignId);
 
       const now = new Date();
       const hour = now.getHours();
@@ -648,7 +655,7 @@ export const launchIntelligenceRouter = createTRPCRouter({
     }),
 
   // Create sentiment analysis entry
-  trackSentiment: publicProcedure
+  trackSentiment: workspaceProcedure
     .input(
       z.object({
         text: z.string(),
@@ -669,9 +676,12 @@ export const launchIntelligenceRouter = createTRPCRouter({
         metadata: z.any().optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { text, platform, language, campaignId, source, region, metadata } =
         input;
+      if (campaignId) {
+        await assertCampaignInWorkspace(ctx.workspaceId, campaignId);
+      }
 
       // Simple sentiment analysis (in production, use proper NLP service)
       const sentiment = analyzeSentiment(text, language);
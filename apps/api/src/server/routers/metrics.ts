@@ -1,9 +1,10 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure, protectedProcedure } from "../trpc";
+import { createTRPCRouter, workspaceProcedure } from "../trpc";
+import { assertCampaignInWorkspace } from "../workspace";
 
 export const metricsRouter = createTRPCRouter({
   // Get metrics for a specific campaign
-  getByCampaign: publicProcedure
+  getByCampaign: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
@@ -16,6 +17,7 @@ export const metricsRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const where = {
         campaignId: input.campaignId,
+        campaign: { workspaceId: ctx.workspaceId },
         ...(input.startDate &&
           input.endDate && {
             timestamp: {
@@ -43,7 +45,7 @@ export const metricsRouter = createTRPCRouter({
     }),
 
   // Create new metric entry
-  create: protectedProcedure
+  create: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
@@ -54,6 +56,8 @@ export const metricsRouter = createTRPCRouter({
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      await assertCampaignInWorkspace(ctx.workspaceId, input.campaignId);
+
       return ctx.db.campaignMetric.create({
         data: {
           campaignId: input.campaignId,
@@ -69,7 +73,7 @@ export const metricsRouter = createTRPCRouter({
     }),
 
   // Get aggregated metrics for a campaign
-  getAggregated: publicProcedure
+  getAggregated: workspaceProcedure
     .input(
       z.object({
         campaignId: z.string(),
@@ -80,6 +84,7 @@ export const metricsRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const where = {
         campaignId: input.campaignId,
+        campaign: { workspaceId: ctx.workspaceId },
         ...(input.startDate &&
           input.endDate && {
             timestamp: {
@@ -132,7 +137,7 @@ export const metricsRouter = createTRPCRouter({
     }),
 
   // Get metrics summary for multiple campaigns
-  getSummary: publicProcedure
+  getSummary: workspaceProcedure
     .input(
       z.object({
         campaignIds: z.array(z.string()).optional(),
@@ -147,7 +152,7 @@ export const metricsRouter = createTRPCRouter({
 
       if (input.userId && !campaignIds) {
         const campaigns = await ctx.db.campaign.findMany({
-          where: { userId: input.userId },
+          where: { userId: input.userId, workspaceId: ctx.workspaceId },
           select: { id: true },
         });
         campaignIds = campaigns.map((c) => c.id);
@@ -159,6 +164,7 @@ export const metricsRouter = createTRPCRouter({
 
       const where = {
         campaignId: { in: campaignIds },
+        campaign: { workspaceId: ctx.workspaceId },
         ...(input.startDate &&
           input.endDate && {
             timestamp: {
@@ -185,11 +191,14 @@ export const metricsRouter = createTRPCRouter({
     }),
 
   // Delete metrics for a campaign
-  deleteByCampaign: protectedProcedure
+  deleteByCampaign: workspaceProcedure
     .input(z.object({ campaignId: z.string() }))
     .mutation(async ({ ctx, input }) => {
       return ctx.db.campaignMetric.deleteMany({
-        where: { campaignId: input.campaignId },
+        where: {
+          campaignId: input.campaignId,
+          campaign: { workspaceId: ctx.workspaceId },
+        },
       });
     }),
 });
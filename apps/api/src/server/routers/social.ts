@@ -1,6 +1,20 @@
-import { SocialAgent } from "@neon/core-agents";
+import { TRPCError } from "@trpc/server";
+import {
+  ContentNotApprovedError,
+  SocialAgent,
+  SocialScheduler,
+} from "@neon/core-agents";
+import { Platform, SocialPostStatus } from "@neon/data-model";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import {
+  createTRPCRouter,
+  managerProcedure,
+  publicProcedure,
+  workspaceProcedure,
+} from "../trpc";
+
+// Schedules and cancels posts; the worker publishes them once they are due
+const socialScheduler = new SocialScheduler();
 
 export const socialRouter = createTRPCRouter({
   generatePost: publicProcedure
@@ -81,9 +95,12 @@ export const socialRouter = createTRPCRouter({
       });
     }),
 
-  schedulePost: publicProcedure
+  // Schedules the approved revision of the given content
+  schedulePost: workspaceProcedure
     .input(
       z.object({
+        contentId: z.string().min(1, "Approved content is required"),
+        accountId: z.string().optional(),
         platform: z.enum([
           "facebook",
           "instagram",
@@ -110,6 +127,8 @@ export const socialRouter = createTRPCRouter({
         scheduling: z.object({
           publishNow: z.boolean().optional(),
           scheduledAt: z.date().optional(),
+          // Wall-clock time in `timezone`, e.g. 2026-03-01T09:00
+          localTime: z.string().optional(),
           timezone: z.string().optional(),
         }),
         settings: z.object({
@@ -126,17 +145,70 @@ export const socialRouter = createTRPCRouter({
         }),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const socialAgent = new SocialAgent(
         "social-posting",
         "Social Posting Agent",
       );
-      return await socialAgent.schedulePost(input);
+      try {
+        return await socialAgent.schedulePost({
+          ...input,
+          workspaceId: ctx.workspaceId,
+        });
+      } catch (error) {
+        if (error instanceof ContentNotApprovedError) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+    }),
+
+  // Scheduled, retrying, published and failed posts with quota usage
+  queue: workspaceProcedure
+    .input(
+      z
+        .object({
+          status: z.nativeEnum(SocialPostStatus).optional(),
+          platform: z.nativeEnum(Platform).optional(),
+          limit: z.number().min(1).max(200).default(50),
+          offset: z.number().min(0).default(0),
+        })
+        .default({}),
+    )
+    .query(async ({ ctx, input }) => {
+      return socialScheduler.getQueue(ctx.workspaceId, input);
+    }),
+
+  // Posts allowed per account in a rolling window
+  setPostingQuota: managerProcedure
+    .input(
+      z.object({
+        platform: z.nativeEnum(Platform),
+        accountId: z.string().optional(),
+        maxPosts: z.number().int().min(0),
+        windowMinutes: z
+          .number()
+          .int()
+          .min(1)
+          .max(7 * 24 * 60)
+          .default(24 * 60),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      return socialScheduler.setQuota({
+        ...input,
+        workspaceId: ctx.workspaceId,
+      });
     }),
 
-  publishPost: publicProcedure
+  // Publishes the approved revision of the given content
+  publishPost: workspaceProcedure
     .input(
       z.object({
+        contentId: z.string().min(1, "Approved content is required"),
         platform: z.enum([
           "facebook",
           "instagram",
@@ -179,12 +251,25 @@ export const socialRouter = createTRPCRouter({
         }),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const socialAgent = new SocialAgent(
         "social-posting",
         "Social Posting Agent",
       );
-      return await socialAgent.publishPost(input);
+      try {
+        return await socialAgent.publishPost({
+          ...input,
+          workspaceId: ctx.workspaceId,
+        });
+      } catch (error) {
+        if (error instanceof ContentNotApprovedError) {
+          throw new TRPCError({
+            code: "PRECONDITION_FAILED",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
     }),
 
   getPostAnalytics: publicProcedure
@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import { createTRPCRouter, publicProcedure, workspaceProcedure } from "../trpc";
 import {
   CampaignStrategyPlanner,
   CampaignGoal,
@@ -25,13 +25,16 @@ import { PrismaClient } from "@neon/data-model";
 // Initialize components
 const prisma = new PrismaClient();
 const memoryStore = new AgentMemoryStore(prisma);
-const performanceTuner = new PerformanceTuner(memoryStore);
-const strategyPlanner = new CampaignStrategyPlanner(
-  memoryStore,
-  performanceTuner,
-);
 const strategyManager = new StrategyManager(new InMemoryStrategyAdapter());
 
+// Planning reads agent history from the caller's workspace only
+const plannerFor = (workspaceId: string) => {
+  const workspaceMemory = memoryStore.forWorkspace(workspaceId);
+  return new CampaignStrategyPlanner(
+    workspaceMemory,
+    new PerformanceTuner(workspaceMemory),
+  );
+};
 // Validation schemas
 const CampaignGoalSchema = z.object({
   type: z.enum([
@@ -146,7 +149,7 @@ const StrategyGenerationOptionsSchema = z.object({
 
 export const strategyRouter = createTRPCRouter({
   // Generate a new campaign strategy
-  generateStrategy: publicProcedure
+  generateStrategy: workspaceProcedure
     .input(
       z.object({
         goal: CampaignGoalSchema,
@@ -155,11 +158,11 @@ export const strategyRouter = createTRPCRouter({
         options: StrategyGenerationOptionsSchema.optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const { goal, audience, context, options } = input;
 
-        const strategy = await strategyPlanner.generateStrategy(
+        const strategy = await plannerFor(ctx.workspaceId).generateStrategy(
           goal as CampaignGoal,
           audience as CampaignAudience,
           context as CampaignContext,
@@ -486,7 +489,7 @@ export const strategyRouter = createTRPCRouter({
     }),
 
   // Generate strategy from template
-  generateFromTemplate: publicProcedure
+  generateFromTemplate: workspaceProcedure
     .input(
       z.object({
         templateId: z.string(),
@@ -501,7 +504,7 @@ export const strategyRouter = createTRPCRouter({
           .optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         const template = strategyTemplates[input.templateId];
         if (!template) {
@@ -524,7 +527,7 @@ export const strategyRouter = createTRPCRouter({
         const options = input.customizations?.options || {};
 
         // Generate strategy using the planner
-        const strategy = await strategyPlanner.generateStrategy(
+        const strategy = await plannerFor(ctx.workspaceId).generateStrategy(
           goal,
           audience,
           context,
@@ -585,14 +588,14 @@ export const strategyRouter = createTRPCRouter({
     }),
 
   // Get strategy analytics
-  getStrategyAnalytics: publicProcedure
+  getStrategyAnalytics: workspaceProcedure
     .input(
       z.object({
         strategyId: z.string(),
         days: z.number().default(30),
       }),
     )
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       try {
         const strategy = await strategyManager.loadStrategy(input.strategyId);
         if (!strategy) {
@@ -607,10 +610,9 @@ export const strategyRouter = createTRPCRouter({
         const agentMetrics = {};
         for (const action of strategy.actions) {
           try {
-            const metrics = await memoryStore.getAgentMetrics(
-              action.agent,
-              input.days,
-            );
+            const metrics = await memoryStore
+              .forWorkspace(ctx.workspaceId)
+              .getAgentMetrics(action.agent, input.days);
             agentMetrics[action.agent] = metrics;
           } catch (error) {
             console.warn(
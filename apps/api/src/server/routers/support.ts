@@ -1,14 +1,112 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
+import {
+  createTRPCRouter,
+  managerProcedure,
+  publicProcedure,
+  workspaceProcedure,
+} from "../trpc";
 import {
   CustomerSupportAgent,
+  KnowledgeBase,
+  KnowledgeBaseError,
+  SlaError,
+  SupportSla,
   type MessageClassificationInput,
   type ReplyGenerationInput,
   type SentimentAnalysisInput,
   type EscalationInput,
 } from "@neon/core-agents";
+import { type SupportChannel, type SupportPriority } from "@neon/data-model";
 import { logger } from "@neon/utils";
 
+// Articles, imported documents, FAQ entries and resolved tickets replies
+// are grounded in
+const knowledgeBase = new KnowledgeBase();
+
+const KNOWLEDGE_ERROR_CODES = {
+  NOT_FOUND: "NOT_FOUND",
+  INVALID_ARTICLE: "BAD_REQUEST",
+  INVALID_IMPORT: "BAD_REQUEST",
+} as const;
+
+// Run a knowledge base operation, listing every issue in the error
+async function withKnowledgeErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof KnowledgeBaseError) {
+      throw new TRPCError({
+        code: KNOWLEDGE_ERROR_CODES[error.code],
+        message: [error.message, ...error.issues].join("\n"),
+      });
+    }
+    throw error;
+  }
+}
+
+// SLA policies and breaches; the worker watches the deadlines every minute,
+// escalating or reassigning breached tickets
+const supportSla = new SupportSla();
+
+const SLA_ERROR_CODES = {
+  NOT_FOUND: "NOT_FOUND",
+  INVALID_POLICY: "BAD_REQUEST",
+} as const;
+
+async function withSlaErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof SlaError) {
+      throw new TRPCError({
+        code: SLA_ERROR_CODES[error.code],
+        message: [error.message, ...error.issues].join("\n"),
+      });
+    }
+    throw error;
+  }
+}
+
+const TicketPrioritySchema = z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL"]);
+const TicketChannelSchema = z.enum([
+  "WHATSAPP",
+  "EMAIL",
+  "CHAT",
+  "PHONE",
+  "SOCIAL",
+]);
+
+const SlaPolicySchema = z.object({
+  name: z.string().min(1),
+  priority: TicketPrioritySchema.nullable().optional(),
+  channel: TicketChannelSchema.nullable().optional(),
+  firstResponseMinutes: z.number().int().positive(),
+  resolutionMinutes: z.number().int().positive(),
+  timeZone: z.string().optional(),
+  // { mon: [["09:00", "17:00"]], ... }; null for around the clock
+  businessHours: z
+    .record(z.array(z.tuple([z.string(), z.string()])))
+    .nullable()
+    .optional(),
+  holidays: z.array(z.string()).optional(),
+  atRiskPercent: z.number().int().min(1).max(99).optional(),
+  raisePriority: z.boolean().optional(),
+  escalateTo: z.string().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+const KnowledgeSourceSchema = z.enum(["ARTICLE", "DOCUMENT", "FAQ", "TICKET"]);
+
+const KnowledgeArticleSchema = z.object({
+  title: z.string().min(1),
+  content: z.string().min(1),
+  url: z.string().url().optional(),
+  category: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  status: z.enum(["DRAFT", "PUBLISHED"]).optional(),
+});
+
 // Validation schemas
 const MessageClassificationInputSchema = z.object({
   text: z.string().min(1, "Message text is required"),
@@ -153,9 +251,9 @@ export const supportRouter = createTRPCRouter({
   /**
    * Generate AI-powered support replies
    */
-  generateReply: publicProcedure
+  generateReply: workspaceProcedure
     .input(ReplyGenerationInputSchema)
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       try {
         logger.info(
           "Generating support reply",
@@ -164,9 +262,11 @@ export const supportRouter = createTRPCRouter({
         );
 
         const agent = new CustomerSupportAgent();
-        const result = await agent.generateReplyAPI(
-          input as ReplyGenerationInput,
-        );
+        // Sources come from the caller's knowledge base
+        const result = await agent.generateReplyAPI({
+          ...(input as ReplyGenerationInput),
+          workspaceId: ctx.workspaceId,
+        });
 
         logger.info(
           "Reply generated successfully",
@@ -310,7 +410,7 @@ export const supportRouter = createTRPCRouter({
       return await supportAgent.sendMessage(input);
     }),
 
-  createTicket: publicProcedure
+  createTicket: workspaceProcedure
     .input(
       z.object({
         ticketId: z.string().optional(),
@@ -328,12 +428,15 @@ export const supportRouter = createTRPCRouter({
         metadata: z.record(z.any()).optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const supportAgent = new CustomerSupportAgent();
-      return await supportAgent.createTicket(input);
+      return await supportAgent.createTicket({
+        ...input,
+        workspaceId: ctx.workspaceId,
+      });
     }),
 
-  updateTicket: publicProcedure
+  updateTicket: workspaceProcedure
     .input(
       z.object({
         ticketId: z.string(),
@@ -357,16 +460,16 @@ export const supportRouter = createTRPCRouter({
         agentId: z.string(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const supportAgent = new CustomerSupportAgent();
       return await supportAgent.execute({
         task: "update_ticket",
-        context: input,
+        context: { ...input, workspaceId: ctx.workspaceId },
         priority: "medium",
       });
     }),
 
-  generateAutoResponse: publicProcedure
+  generateAutoResponse: workspaceProcedure
     .input(
       z.object({
         message: z.string(),
@@ -379,16 +482,16 @@ export const supportRouter = createTRPCRouter({
         ticketHistory: z.array(z.any()).optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const supportAgent = new CustomerSupportAgent();
       return await supportAgent.execute({
         task: "auto_respond",
-        context: input,
+        context: { ...input, workspaceId: ctx.workspaceId },
         priority: "high",
       });
     }),
 
-  escalateTicket: publicProcedure
+  escalateTicket: workspaceProcedure
     .input(
       z.object({
         ticketId: z.string(),
@@ -398,11 +501,11 @@ export const supportRouter = createTRPCRouter({
         urgency: z.enum(["low", "medium", "high"]).optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const supportAgent = new CustomerSupportAgent();
       return await supportAgent.execute({
         task: "escalate_ticket",
-        context: input,
+        context: { ...input, workspaceId: ctx.workspaceId },
         priority: "high",
       });
     }),
@@ -422,28 +525,155 @@ export const supportRouter = createTRPCRouter({
       });
     }),
 
-  manageKnowledgeBase: publicProcedure
+  searchKnowledge: workspaceProcedure
     .input(
       z.object({
-        action: z.enum([
-          "add_article",
-          "update_article",
-          "search_articles",
-          "get_suggestions",
-        ]),
-        data: z.any(),
+        query: z.string().min(1),
+        limit: z.number().int().min(1).max(20).optional(),
+        category: z.string().optional(),
+        sources: z.array(KnowledgeSourceSchema).optional(),
       }),
     )
-    .mutation(async ({ input }) => {
-      const supportAgent = new CustomerSupportAgent();
-      return await supportAgent.execute({
-        task: "manage_knowledge_base",
-        context: input,
-        priority: "medium",
-      });
-    }),
+    .query(({ ctx, input }) =>
+      knowledgeBase.search(ctx.workspaceId, input.query, input),
+    ),
+
+  listKnowledgeArticles: workspaceProcedure
+    .input(
+      z
+        .object({
+          status: z.enum(["DRAFT", "PUBLISHED", "ARCHIVED"]).optional(),
+          category: z.string().optional(),
+          source: KnowledgeSourceSchema.optional(),
+        })
+        .optional(),
+    )
+    .query(({ ctx, input }) =>
+      knowledgeBase.listArticles(ctx.workspaceId, input),
+    ),
+
+  // An article opened by a reader; counts the view
+  getKnowledgeArticle: workspaceProcedure
+    .input(z.object({ articleId: z.string() }))
+    .query(({ ctx, input }) =>
+      withKnowledgeErrors(() =>
+        knowledgeBase.viewArticle(ctx.workspaceId, input.articleId),
+      ),
+    ),
+
+  addKnowledgeArticle: managerProcedure
+    .input(KnowledgeArticleSchema)
+    .mutation(({ ctx, input }) =>
+      withKnowledgeErrors(() =>
+        knowledgeBase.addArticle(ctx.workspaceId, {
+          ...input,
+          author: ctx.session.user.id,
+        }),
+      ),
+    ),
 
-  getTicketAnalytics: publicProcedure
+  updateKnowledgeArticle: managerProcedure
+    .input(
+      z.object({
+        articleId: z.string(),
+        update: KnowledgeArticleSchema.partial().extend({
+          status: z.enum(["DRAFT", "PUBLISHED", "ARCHIVED"]).optional(),
+        }),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withKnowledgeErrors(() =>
+        knowledgeBase.updateArticle(
+          ctx.workspaceId,
+          input.articleId,
+          input.update,
+        ),
+      ),
+    ),
+
+  // Markdown, HTML or CSV; importing the same document again updates it
+  importKnowledge: managerProcedure
+    .input(
+      z.object({
+        format: z.enum(["markdown", "html", "csv"]),
+        content: z.string().min(1),
+        documentId: z.string().optional(),
+        category: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withKnowledgeErrors(() =>
+        knowledgeBase.importDocument(
+          ctx.workspaceId,
+          input.format,
+          input.content,
+          {
+            documentId: input.documentId,
+            category: input.category,
+            tags: input.tags,
+            author: ctx.session.user.id,
+          },
+        ),
+      ),
+    ),
+
+  importFaq: managerProcedure
+    .input(
+      z.object({
+        entries: z.array(
+          z.object({
+            id: z.string().optional(),
+            question: z.string(),
+            answer: z.string(),
+            category: z.string().optional(),
+            tags: z.array(z.string()).optional(),
+          }),
+        ),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      knowledgeBase.importFaq(ctx.workspaceId, input.entries),
+    ),
+
+  importResolvedTickets: managerProcedure
+    .input(
+      z
+        .object({
+          since: z.date().optional(),
+          limit: z.number().int().min(1).max(1000).optional(),
+        })
+        .optional(),
+    )
+    .mutation(({ ctx, input }) =>
+      knowledgeBase.importResolvedTickets(ctx.workspaceId, input),
+    ),
+
+  // "Was this helpful?"; a member's later vote replaces their earlier one
+  rateKnowledgeArticle: workspaceProcedure
+    .input(
+      z.object({
+        articleId: z.string(),
+        helpful: z.boolean(),
+        ticketId: z.string().optional(),
+        comment: z.string().max(2000).optional(),
+      }),
+    )
+    .mutation(({ ctx, input }) =>
+      withKnowledgeErrors(() =>
+        knowledgeBase.recordFeedback(ctx.workspaceId, input.articleId, {
+          ...input,
+          voterKey: `user:${ctx.session.user.id}`,
+        }),
+      ),
+    ),
+
+  // Embed what is missing, e.g. after an embedding model change
+  reindexKnowledge: managerProcedure.mutation(async ({ ctx }) => ({
+    embedded: await knowledgeBase.reindex(ctx.workspaceId),
+  })),
+
+  getTicketAnalytics: workspaceProcedure
     .input(
       z.object({
         timeRange: z.object({
@@ -460,8 +690,17 @@ export const supportRouter = createTRPCRouter({
           .optional(),
       }),
     )
-    .query(async ({ input: _input }) => {
-      // Return support analytics (input ignored for mock data)
+    .query(async ({ ctx, input }) => {
+      // SLA figures come from stored tickets; the rest is still mock data
+      const sla = await supportSla.summary(ctx.workspaceId, input.timeRange, {
+        channel: input.filters?.channel?.map(
+          (channel) => channel.toUpperCase() as SupportChannel,
+        ),
+        priority: input.filters?.priority?.map(
+          (priority) => priority.toUpperCase() as SupportPriority,
+        ),
+        assignedTo: input.filters?.agentId,
+      });
       return {
         data: {
           totalTickets: 1250,
@@ -491,10 +730,47 @@ export const supportRouter = createTRPCRouter({
             { category: "Product Information", count: 180 },
             { category: "General Inquiry", count: 120 },
           ],
+          sla,
         },
       };
     }),
 
+  // SLA compliance per agent: first responses they gave, tickets they
+  // resolved and breaches while tickets were assigned to them
+  getSlaAgentReport: workspaceProcedure
+    .input(
+      z.object({ timeRange: z.object({ start: z.date(), end: z.date() }) }),
+    )
+    .query(async ({ ctx, input }) => ({
+      data: await supportSla.agentReport(ctx.workspaceId, input.timeRange),
+    })),
+
+  listSlaPolicies: workspaceProcedure.query(async ({ ctx }) => ({
+    data: await supportSla.listPolicies(ctx.workspaceId),
+  })),
+
+  createSlaPolicy: managerProcedure
+    .input(SlaPolicySchema)
+    .mutation(({ ctx, input }) =>
+      withSlaErrors(async () => ({
+        data: await supportSla.createPolicy(ctx.workspaceId, input),
+      })),
+    ),
+
+  updateSlaPolicy: managerProcedure
+    .input(
+      z.object({ policyId: z.string(), update: SlaPolicySchema.partial() }),
+    )
+    .mutation(({ ctx, input }) =>
+      withSlaErrors(async () => ({
+        data: await supportSla.updatePolicy(
+          ctx.workspaceId,
+          input.policyId,
+          input.update,
+        ),
+      })),
+    ),
+
   getSupportAgents: publicProcedure.query(async () => {
     // Return list of available support agents
     return {
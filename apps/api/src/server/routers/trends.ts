@@ -3,78 +3,117 @@
  * Handles social media trend analysis and regional scoring
  */
 
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../trpc";
-import { SocialApiClient } from "@neon/utils/social-api-client";
-import { logger } from "@neon/utils";
-
-const socialApiClient = new SocialApiClient();
-
-interface TrendData {
-  keyword: string;
-  platform: string;
-  score: number;
-  metadata?: {
-    industry?: string;
-    [key: string]: unknown;
-  };
+import type { Platform } from "@neon/data-model";
+import {
+  createTRPCRouter,
+  publicProcedure,
+  superAdminProcedure,
+} from "../trpc";
+import {
+  CsvTrendSource,
+  TREND_KINDS,
+  TrendCollector,
+  TrendSourceError,
+  TrendStore,
+  trendSourcesFromEnv,
+  type StoredTrend,
+} from "@neon/core-agents";
+import { logger, socialApiClient } from "@neon/utils";
+
+// Snapshots of every configured trend source; SocialApiClient reads its
+// trends from the same store
+const trendStore = new TrendStore();
+socialApiClient.setTrendProvider(trendStore);
+
+// Collects from the sources on request; the worker collects hourly
+const trendCollector = new TrendCollector(trendStore, {
+  sources: trendSourcesFromEnv(),
+});
+
+const TREND_ERROR_CODES = {
+  FETCH_FAILED: "INTERNAL_SERVER_ERROR",
+  INVALID_RESPONSE: "INTERNAL_SERVER_ERROR",
+  INVALID_CSV: "BAD_REQUEST",
+  EXHAUSTED: "PRECONDITION_FAILED",
+} as const;
+
+// Run a trend source operation, listing every source issue in the error
+async function withTrendErrors<T>(fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (error) {
+    if (error instanceof TrendSourceError) {
+      throw new TRPCError({
+        code: TREND_ERROR_CODES[error.code],
+        message: [error.message, ...error.issues].join("\n"),
+      });
+    }
+    throw error;
+  }
 }
 
+const PlatformSchema = z.enum(["tiktok", "instagram", "twitter", "youtube"]);
+const TIMEFRAME_DAYS = { "24h": 1, "7d": 7, "30d": 30 } as const;
+
+const toPlatform = (platform: z.infer<typeof PlatformSchema>): Platform =>
+  platform.toUpperCase() as Platform;
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000);
+
 export const trendsRouter = createTRPCRouter({
-  // Get all trending data across platforms
-  getAllTrends: publicProcedure.query(async () => {
-    try {
-      const trends = await socialApiClient.getAllTrends();
-
-      return {
-        success: true,
-        data: trends,
-        count: trends.length,
-        lastUpdated: new Date().toISOString(),
-      };
-    } catch (error) {
-      logger.error("Failed to fetch trends", { error }, "TrendsRouter");
-      return {
-        success: false,
-        data: [],
-        error: "Failed to fetch trends",
-      };
-    }
-  }),
+  // Get current trends across every source
+  getAllTrends: publicProcedure
+    .input(
+      z
+        .object({
+          kind: z.enum(TREND_KINDS).optional(),
+          region: z.string().optional(),
+          limit: z.number().min(1).max(200).default(50),
+        })
+        .default({}),
+    )
+    .query(async ({ input }) => {
+      try {
+        const trends = await trendStore.trends(input);
+        const [latest] = await trendStore.snapshots({ limit: 1 });
+
+        return {
+          success: true,
+          data: trends,
+          count: trends.length,
+          lastUpdated: latest?.fetchedAt.toISOString() ?? null,
+        };
+      } catch (error) {
+        logger.error("Failed to fetch trends", { error }, "TrendsRouter");
+        return {
+          success: false,
+          data: [],
+          error: "Failed to fetch trends",
+        };
+      }
+    }),
 
   // Get trends by platform
   getTrendsByPlatform: publicProcedure
     .input(
       z.object({
-        platform: z.enum(["tiktok", "instagram", "twitter"]),
+        platform: PlatformSchema,
         limit: z.number().min(1).max(100).default(20),
       }),
     )
     .query(async ({ input }) => {
       try {
-        let trends;
-
-        switch (input.platform) {
-          case "tiktok":
-            trends = await socialApiClient.fetchTrendingTikTok();
-            break;
-          case "instagram":
-            trends = await socialApiClient.fetchTrendingInstagram();
-            break;
-          case "twitter":
-            trends = await socialApiClient.fetchTrendingTwitter();
-            break;
-          default:
-            trends = [];
-        }
-
-        const limitedTrends = trends.slice(0, input.limit);
+        const trends = await trendStore.trends({
+          platform: toPlatform(input.platform),
+          limit: input.limit,
+        });
 
         return {
           success: true,
-          data: limitedTrends,
+          data: trends,
           platform: input.platform,
-          count: limitedTrends.length,
+          count: trends.length,
         };
       } catch (error) {
         logger.error(
@@ -99,13 +138,16 @@ export const trendsRouter = createTRPCRouter({
     )
     .query(async ({ input }) => {
       try {
-        const regionScores = await socialApiClient.getRegionScores(
-          input.region,
-        );
+        const trends = await trendStore.trends({ region: input.region });
 
         return {
           success: true,
-          data: regionScores,
+          data: {
+            averageScore: averageScore(trends),
+            topTrends: trends.slice(0, 10),
+            platforms: getBestPlatforms(trends),
+            sources: [...new Set(trends.flatMap((trend) => trend.sources))],
+          },
           region: input.region,
         };
       } catch (error) {
@@ -122,6 +164,22 @@ export const trendsRouter = createTRPCRouter({
       }
     }),
 
+  // Every stored observation of a keyword, with its source and snapshot
+  history: publicProcedure
+    .input(
+      z.object({
+        keyword: z.string().min(1),
+        platform: PlatformSchema.optional(),
+        since: z.date().optional(),
+      }),
+    )
+    .query(({ input }) =>
+      trendStore.history(input.keyword, {
+        platform: input.platform ? toPlatform(input.platform) : undefined,
+        since: input.since,
+      }),
+    ),
+
   // Analyze trend predictions
   analyzeTrendPredictions: publicProcedure
     .input(
@@ -132,42 +190,38 @@ export const trendsRouter = createTRPCRouter({
     )
     .mutation(async ({ input }) => {
       try {
-        const allTrends = await socialApiClient.getAllTrends();
-
-        // Filter trends by keywords
-        const relevantTrends = allTrends.filter((trend) =>
-          input.keywords.some((keyword) =>
-            trend.keyword.toLowerCase().includes(keyword.toLowerCase()),
-          ),
+        const since = daysAgo(TIMEFRAME_DAYS[input.timeframe]);
+        const predictions = await Promise.all(
+          input.keywords.map(async (keyword) => {
+            const trends = await trendStore.trends({
+              keywords: [keyword],
+              since,
+            });
+            const avgScore = averageScore(trends);
+            const growth = averageGrowth(trends);
+
+            // Growth between the sources' snapshots decides the direction
+            const prediction =
+              growth > 0.1 ? "rising" : growth < -0.1 ? "declining" : "stable";
+            const observations = trends.reduce(
+              (sum, trend) => sum + trend.points.length,
+              0,
+            );
+            const confidence = Math.min(observations * 15, 95);
+
+            return {
+              keyword,
+              prediction,
+              confidence,
+              avgScore,
+              growth,
+              platforms: [...new Set(trends.flatMap((t) => t.platforms))],
+              sources: [...new Set(trends.flatMap((t) => t.sources))],
+              recommendation: getRecommendation(prediction, avgScore),
+            };
+          }),
         );
 
-        // Calculate predictions based on score trends
-        const predictions = input.keywords.map((keyword) => {
-          const keywordTrends = relevantTrends.filter((trend) =>
-            trend.keyword.toLowerCase().includes(keyword.toLowerCase()),
-          );
-
-          const avgScore =
-            keywordTrends.length > 0
-              ? keywordTrends.reduce((sum, trend) => sum + trend.score, 0) /
-                keywordTrends.length
-              : 0;
-
-          // Simple prediction model - in production use ML algorithms
-          const prediction =
-            avgScore > 0.7 ? "rising" : avgScore > 0.4 ? "stable" : "declining";
-          const confidence = Math.min(avgScore * 100, 95);
-
-          return {
-            keyword,
-            prediction,
-            confidence,
-            avgScore,
-            platforms: keywordTrends.map((t) => t.platform),
-            recommendation: getRecommendation(prediction, avgScore),
-          };
-        });
-
         return {
           success: true,
           data: {
@@ -200,24 +254,11 @@ export const trendsRouter = createTRPCRouter({
     )
     .query(async ({ input }) => {
       try {
-        const allTrends = await socialApiClient.getAllTrends();
-
-        // Filter by industry if provided
-        let filteredTrends = allTrends;
-        if (input.industry) {
-          filteredTrends = allTrends.filter(
-            (trend) =>
-              trend.keyword
-                .toLowerCase()
-                .includes(input.industry.toLowerCase()) ||
-              trend.metadata?.industry === input.industry,
-          );
-        }
-
-        // Sort by score and get top trends
-        const topTrends = filteredTrends
-          .sort((a, b) => b.score - a.score)
-          .slice(0, 10);
+        // Trends are sorted by score
+        const topTrends = await trendStore.trends({
+          keywords: input.industry ? [input.industry] : undefined,
+          limit: 10,
+        });
 
         // Generate insights
         const insights = {
@@ -261,30 +302,34 @@ export const trendsRouter = createTRPCRouter({
     )
     .mutation(async ({ input }) => {
       try {
-        const allTrends = await socialApiClient.getAllTrends();
-
-        const monitoredTrends = input.keywords.map((keyword) => {
-          const relevantTrends = allTrends.filter((trend) =>
-            trend.keyword.toLowerCase().includes(keyword.toLowerCase()),
-          );
-
-          const maxScore =
-            relevantTrends.length > 0
-              ? Math.max(...relevantTrends.map((t) => t.score))
-              : 0;
-
-          const shouldAlert = maxScore >= input.alertThreshold;
-
-          return {
-            keyword,
-            currentScore: maxScore,
-            shouldAlert,
-            trendingPlatforms: relevantTrends
-              .filter((t) => t.score >= input.alertThreshold)
-              .map((t) => t.platform),
-            lastUpdated: new Date().toISOString(),
-          };
-        });
+        // Scores are 0-100, the threshold a fraction of that
+        const threshold = input.alertThreshold * 100;
+        const monitoredTrends = await Promise.all(
+          input.keywords.map(async (keyword) => {
+            const relevantTrends = await trendStore.trends({
+              keywords: [keyword],
+            });
+
+            const maxScore =
+              relevantTrends.length > 0
+                ? Math.max(...relevantTrends.map((t) => t.score))
+                : 0;
+
+            return {
+              keyword,
+              currentScore: maxScore,
+              shouldAlert: maxScore >= threshold,
+              trendingPlatforms: [
+                ...new Set(
+                  relevantTrends
+                    .filter((t) => t.score >= threshold)
+                    .flatMap((t) => t.platforms),
+                ),
+              ],
+              lastUpdated: relevantTrends[0]?.observedAt.toISOString() ?? null,
+            };
+          }),
+        );
 
         const alerts = monitoredTrends.filter((t) => t.shouldAlert);
 
@@ -309,11 +354,53 @@ export const trendsRouter = createTRPCRouter({
         };
       }
     }),
+
+  // Snapshots taken of the trend sources, newest first
+  snapshots: publicProcedure
+    .input(
+      z
+        .object({
+          source: z.string().optional(),
+          limit: z.number().min(1).max(200).default(50),
+        })
+        .default({}),
+    )
+    .query(({ input }) => trendStore.snapshots(input)),
+
+  // Trends are shared by every workspace, so only platform operators
+  // collect or import them
+
+  // Collect from every configured source now
+  collectNow: superAdminProcedure.mutation(async () => {
+    const snapshots = await trendCollector.runDue();
+    return { sources: trendCollector.sourceNames, snapshots };
+  }),
+
+  // Import trends from a CSV export as one snapshot
+  importCsv: superAdminProcedure
+    .input(
+      z.object({
+        name: z.string().min(1),
+        csv: z.string().min(1),
+        platform: PlatformSchema.optional(),
+        kind: z.enum(TREND_KINDS).optional(),
+        region: z.string().optional(),
+      }),
+    )
+    .mutation(({ input }) =>
+      withTrendErrors(async () => {
+        const source = new CsvTrendSource({
+          ...input,
+          platform: input.platform ? toPlatform(input.platform) : undefined,
+        });
+        return trendStore.record(await source.fetch());
+      }),
+    ),
 });
 
 // Helper methods (would be class methods in production)
 function getRecommendation(prediction: string, score: number): string {
-  if (prediction === "rising" && score > 0.8) {
+  if (prediction === "rising" && score > 80) {
     return "Create content immediately - high viral potential";
   } else if (prediction === "rising") {
     return "Good opportunity for content creation";
@@ -324,14 +411,29 @@ function getRecommendation(prediction: string, score: number): string {
   }
 }
 
-function getBestPlatforms(trends: TrendData[]): string[] {
-  const platformCounts = trends.reduce(
-    (acc, trend) => {
-      acc[trend.platform] = (acc[trend.platform] || 0) + trend.score;
-      return acc;
-    },
-    {} as Record<string, number>,
+function averageScore(trends: StoredTrend[]): number {
+  return trends.length > 0
+    ? trends.reduce((sum, trend) => sum + trend.score, 0) / trends.length
+    : 0;
+}
+
+function averageGrowth(trends: StoredTrend[]): number {
+  const growth = trends.flatMap((trend) =>
+    trend.growth === undefined ? [] : [trend.growth],
   );
+  return growth.length > 0
+    ? growth.reduce((sum, value) => sum + value, 0) / growth.length
+    : 0;
+}
+
+function getBestPlatforms(trends: StoredTrend[]): string[] {
+  const platformCounts: Record<string, number> = {};
+  for (const trend of trends) {
+    for (const platform of trend.platforms) {
+      const key = platform.toLowerCase();
+      platformCounts[key] = (platformCounts[key] || 0) + trend.score;
+    }
+  }
 
   return Object.entries(platformCounts)
     .sort(([, a], [, b]) => b - a)
@@ -340,7 +442,7 @@ function getBestPlatforms(trends: TrendData[]): string[] {
 }
 
 function getContentRecommendations(
-  trends: TrendData[],
+  _trends: StoredTrend[],
   contentType?: string,
 ): string[] {
   const recommendations = [
@@ -372,8 +474,8 @@ function getOptimalTiming(): string[] {
   ];
 }
 
-function calculateExpectedReach(trends: TrendData[]): number {
-  const avgScore =
-    trends.reduce((sum, trend) => sum + trend.score, 0) / trends.length;
-  return Math.floor(avgScore * 100000); // Mock calculation
+// The trends' reported volumes, or an estimate from their scores
+function calculateExpectedReach(trends: StoredTrend[]): number {
+  const volume = trends.reduce((sum, trend) => sum + (trend.volume ?? 0), 0);
+  return volume > 0 ? volume : Math.floor(averageScore(trends) * 1000);
 }
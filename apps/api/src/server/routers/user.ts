@@ -1,23 +1,50 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure, protectedProcedure } from "../trpc";
-import { type UserRole } from "@neon/data-model";
+import { TRPCError } from "@trpc/server";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+  workspaceProcedure,
+} from "../trpc";
+import { type db, UserRole } from "@neon/data-model";
+import { generateApiKey, hasRole } from "../auth";
 
 export const userRouter = createTRPCRouter({
-  // Get all users (protected)
-  getAll: protectedProcedure.query(async ({ ctx }) => {
-    return ctx.db.user.findMany({
+  // Get the authenticated user
+  me: protectedProcedure.query(({ ctx }) => {
+    return {
+      ...ctx.session.user,
+      authMethod: ctx.session.method,
+    };
+  }),
+
+  // Members of the current workspace (admin only)
+  getAll: adminProcedure.query(async ({ ctx }) => {
+    const members = await ctx.db.workspaceMember.findMany({
+      where: { workspaceId: ctx.workspaceId },
+      include: { user: true },
       orderBy: { createdAt: "desc" },
     });
+
+    return members.map((member) => ({
+      ...member.user,
+      role: member.role,
+      joinedAt: member.createdAt,
+    }));
   }),
 
-  // Get user by ID
-  getById: publicProcedure
+  // Get a member of the current workspace by user ID
+  getById: workspaceProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
-      return ctx.db.user.findUnique({
-        where: { id: input.id },
+      return ctx.db.user.findFirst({
+        where: {
+          id: input.id,
+          workspaces: { some: { workspaceId: ctx.workspaceId } },
+        },
         include: {
           campaigns: {
+            where: { workspaceId: ctx.workspaceId },
             orderBy: { createdAt: "desc" },
             take: 10,
           },
@@ -25,46 +52,179 @@ export const userRouter = createTRPCRouter({
       });
     }),
 
-  // Create new user
-  create: publicProcedure
+  // Add a user to the current workspace, creating the account if needed
+  // (admin only)
+  create: adminProcedure
     .input(
       z.object({
         email: z.string().email(),
-        role: z.enum(["USER", "ADMIN", "SUPER_ADMIN"]).default("USER"),
+        role: z.nativeEnum(UserRole).default(UserRole.USER),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      return ctx.db.user.create({
+      assertCanGrantRole(ctx.workspaceRole, input.role);
+
+      const user = await ctx.db.user.upsert({
+        where: { email: input.email },
+        update: {},
+        create: { email: input.email },
+      });
+
+      const existing = await findMember(ctx, user.id);
+      if (existing) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "User is already a member of this workspace",
+        });
+      }
+
+      const member = await ctx.db.workspaceMember.create({
         data: {
-          email: input.email,
-          role: input.role as UserRole,
+          workspaceId: ctx.workspaceId,
+          userId: user.id,
+          role: input.role,
         },
       });
+
+      return { ...user, role: member.role, joinedAt: member.createdAt };
     }),
 
-  // Update user
-  update: protectedProcedure
+  // Change a member's role in the current workspace (admin only)
+  update: adminProcedure
     .input(
       z.object({
         id: z.string(),
-        email: z.string().email().optional(),
-        role: z.enum(["USER", "ADMIN", "SUPER_ADMIN"]).optional(),
+        role: z.nativeEnum(UserRole),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const member = await findMember(ctx, input.id);
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+      }
+
+      // Neither the new role nor the member's current one may outrank the caller
+      assertCanGrantRole(ctx.workspaceRole, input.role);
+      assertCanGrantRole(ctx.workspaceRole, member.role);
+
+      return ctx.db.workspaceMember.update({
+        where: { id: member.id },
+        data: { role: input.role },
+        include: { user: true },
+      });
+    }),
+
+  // Remove a member from the current workspace (admin only). The user
+  // account and its other memberships are kept.
+  delete: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const member = await findMember(ctx, input.id);
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+      }
+      assertCanGrantRole(ctx.workspaceRole, member.role);
+
+      return ctx.db.workspaceMember.delete({
+        where: { id: member.id },
+      });
+    }),
+
+  // === API KEYS ===
+
+  // List the caller's API keys (the keys themselves are never returned)
+  listApiKeys: protectedProcedure.query(async ({ ctx }) => {
+    return ctx.db.userApiKey.findMany({
+      where: { userId: ctx.session.user.id },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        name: true,
+        keyPrefix: true,
+        workspaceId: true,
+        lastUsedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+        createdAt: true,
+      },
+    });
+  }),
+
+  // Create an API key for the caller. The key is only returned here.
+  // Bound keys can only act in the workspace they were created in.
+  createApiKey: workspaceProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        expiresAt: z.date().optional(),
+        bindToWorkspace: z.boolean().default(true),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const { id, ...data } = input;
-      return ctx.db.user.update({
-        where: { id },
-        data: data as { email?: string; role?: UserRole },
+      const { key, keyHash, keyPrefix } = generateApiKey();
+
+      const apiKey = await ctx.db.userApiKey.create({
+        data: {
+          userId: ctx.session.user.id,
+          name: input.name,
+          keyHash,
+          keyPrefix,
+          expiresAt: input.expiresAt ?? null,
+          workspaceId: input.bindToWorkspace ? ctx.workspaceId : null,
+        },
       });
+
+      return {
+        id: apiKey.id,
+        name: apiKey.name,
+        keyPrefix: apiKey.keyPrefix,
+        workspaceId: apiKey.workspaceId,
+        expiresAt: apiKey.expiresAt,
+        key,
+      };
     }),
 
-  // Delete user
-  delete: protectedProcedure
+  // Revoke one of the caller's API keys
+  revokeApiKey: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
-      return ctx.db.user.delete({
+      const apiKey = await ctx.db.userApiKey.findUnique({
+        where: { id: input.id },
+      });
+
+      if (!apiKey || apiKey.userId !== ctx.session.user.id) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "API key not found",
+        });
+      }
+
+      return ctx.db.userApiKey.update({
         where: { id: input.id },
+        data: { revokedAt: new Date() },
+        select: { id: true, revokedAt: true },
       });
     }),
 });
+
+// Members may only hand out (or take away) roles up to their own, so only
+// super admins can grant SUPER_ADMIN
+function assertCanGrantRole(granterRole: UserRole, role: UserRole): void {
+  if (!hasRole(granterRole, role)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `You cannot manage members with the ${role} role`,
+    });
+  }
+}
+
+function findMember(
+  ctx: { db: typeof db; workspaceId: string },
+  userId: string,
+) {
+  return ctx.db.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId: ctx.workspaceId, userId },
+    },
+  });
+}
@@ -0,0 +1,113 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { Prisma } from "@prisma/client";
+import { UserRole } from "@neon/data-model";
+import { WorkspaceLLMConfigSchema } from "@neon/core-agents";
+import {
+  adminProcedure,
+  createTRPCRouter,
+  protectedProcedure,
+  workspaceProcedure,
+} from "../trpc";
+
+const WorkspaceSlugSchema = z
+  .string()
+  .min(2)
+  .max(48)
+  .regex(
+    /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+    "Use lowercase letters, digits and dashes",
+  );
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+}
+
+export const workspaceRouter = createTRPCRouter({
+  // Workspaces the caller belongs to, with their role in each
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const memberships = await ctx.db.workspaceMember.findMany({
+      where: { userId: ctx.session.user.id },
+      include: { workspace: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return memberships.map((membership) => ({
+      ...membership.workspace,
+      role: membership.role,
+    }));
+  }),
+
+  // The workspace this request acts in (see the x-workspace-id header)
+  current: workspaceProcedure.query(async ({ ctx }) => {
+    const workspace = await ctx.db.workspace.findUnique({
+      where: { id: ctx.workspaceId },
+    });
+
+    if (!workspace) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "Workspace not found",
+      });
+    }
+
+    return { ...workspace, role: ctx.workspaceRole };
+  }),
+
+  // Create a workspace; the creator becomes its admin
+  create: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(100),
+        slug: WorkspaceSlugSchema.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const slug =
+        input.slug ||
+        `${slugify(input.name) || "workspace"}-${Date.now().toString(36)}`;
+
+      const taken = await ctx.db.workspace.findUnique({ where: { slug } });
+      if (taken) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `Workspace slug "${slug}" is already taken`,
+        });
+      }
+
+      return ctx.db.workspace.create({
+        data: {
+          name: input.name,
+          slug,
+          members: {
+            create: { userId: ctx.session.user.id, role: UserRole.ADMIN },
+          },
+        },
+      });
+    }),
+
+  // Rename the current workspace (admin only)
+  update: adminProcedure
+    .input(z.object({ name: z.string().min(1).max(100) }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.workspace.update({
+        where: { id: ctx.workspaceId },
+        data: { name: input.name },
+      });
+    }),
+
+  // Set the LLM provider and models the workspace's agents use, or clear
+  // them to use the default provider (admin only)
+  setLLMConfig: adminProcedure
+    .input(z.object({ llmConfig: WorkspaceLLMConfigSchema.nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.db.workspace.update({
+        where: { id: ctx.workspaceId },
+        data: { llmConfig: input.llmConfig ?? Prisma.DbNull },
+      });
+    }),
+});
@@ -1,8 +1,16 @@
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import { type CreateNextContextOptions } from "@trpc/server/adapters/next";
 import superjson from "superjson";
 import { ZodError } from "zod";
-import { db } from "@neon/data-model";
+import { db, type UserRole } from "@neon/data-model";
+import {
+  getHeader,
+  getRequestSession,
+  hasRole,
+  resolveWorkspaceAccess,
+  WORKSPACE_HEADER,
+  type Session,
+} from "./auth";
 
 /**
  * 1. CONTEXT
@@ -11,19 +19,21 @@ import { db } from "@neon/data-model";
  * These allow you to access things when processing a request, like the database, the session, etc.
  */
 
-export const createTRPCContext = (
+export const createTRPCContext = async (
   opts: CreateNextContextOptions,
-): {
+): Promise<{
   db: typeof db;
   req: CreateNextContextOptions["req"];
   res: CreateNextContextOptions["res"];
-} => {
+  session: Session | null;
+}> => {
   const { req, res } = opts;
 
   return {
     db,
     req,
     res,
+    session: await getRequestSession(req),
   };
 };
 
@@ -55,7 +65,72 @@ export const createTRPCRouter = t.router;
 export const publicProcedure = t.procedure;
 
 /**
- * Protected procedure that requires authentication
- * TODO: Add authentication middleware here
+ * Protected procedure that requires an authenticated session or API key
  */
-export const protectedProcedure = t.procedure;
+const enforceUserIsAuthed = t.middleware(({ ctx, next }) => {
+  if (!ctx.session) {
+    throw new TRPCError({ code: "UNAUTHORIZED" });
+  }
+
+  return next({
+    ctx: {
+      session: ctx.session,
+    },
+  });
+});
+
+export const protectedProcedure = t.procedure.use(enforceUserIsAuthed);
+
+/**
+ * Procedure that acts inside a workspace. The workspace comes from the
+ * `x-workspace-id` header (or the caller's API key binding / first
+ * membership) and the caller must be a member of it. Every query made by
+ * these procedures must be filtered by `ctx.workspaceId`.
+ */
+export const workspaceProcedure = protectedProcedure.use(
+  async ({ ctx, next }) => {
+    const access = await resolveWorkspaceAccess(
+      ctx.session,
+      getHeader(ctx.req, WORKSPACE_HEADER),
+    );
+
+    if (!access) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: "You do not have access to this workspace",
+      });
+    }
+
+    return next({
+      ctx: {
+        workspaceId: access.workspaceId,
+        workspaceRole: access.role,
+      },
+    });
+  },
+);
+
+/**
+ * Procedure restricted to workspace members with at least the given role.
+ * Roles are ordered VIEWER < USER < MANAGER < ADMIN < SUPER_ADMIN.
+ */
+export const roleProcedure = (role: UserRole) =>
+  workspaceProcedure.use(({ ctx, next }) => {
+    if (!hasRole(ctx.workspaceRole, role)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `This action requires the ${role} role`,
+      });
+    }
+
+    return next();
+  });
+
+export const managerProcedure = roleProcedure("MANAGER");
+export const adminProcedure = roleProcedure("ADMIN");
+
+/**
+ * Procedure for platform operators. Use it for operations on data shared by
+ * every workspace, which no single workspace may change.
+ */
+export const superAdminProcedure = roleProcedure("SUPER_ADMIN");
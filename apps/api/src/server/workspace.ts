@@ -0,0 +1,39 @@
+import { TRPCError } from "@trpc/server";
+import { db } from "@neon/data-model";
+
+/**
+ * Campaigns, and everything keyed by a campaign id (costs, metrics,
+ * pacing, alerts), are only reachable from the campaign's workspace.
+ * Throws NOT_FOUND rather than FORBIDDEN so ids from other workspaces
+ * cannot be probed.
+ */
+export async function assertCampaignInWorkspace(
+  workspaceId: string,
+  campaignId: string,
+): Promise<void> {
+  const campaign = await db.campaign.findFirst({
+    where: { id: campaignId, workspaceId },
+    select: { id: true },
+  });
+
+  if (!campaign) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Campaign not found" });
+  }
+}
+
+// Every id in the list must be a campaign of the workspace
+export async function assertCampaignsInWorkspace(
+  workspaceId: string,
+  campaignIds: string[],
+): Promise<void> {
+  const ids = [...new Set(campaignIds)];
+  if (ids.length === 0) return;
+
+  const found = await db.campaign.count({
+    where: { id: { in: ids }, workspaceId },
+  });
+
+  if (found !== ids.length) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Campaign not found" });
+  }
+}
@@ -1,16 +1,23 @@
 import { CreateExpressContextOptions } from "@trpc/server/adapters/express";
 import type { Request, Response } from "express";
+import { getRequestSession, type Session } from "../server/auth";
 
-export function createContext({ req, res }: CreateExpressContextOptions): {
+export async function createContext({
+  req,
+  res,
+}: CreateExpressContextOptions): Promise<{
   req: Request;
   res: Response;
-  user: null;
-} {
+  session: Session | null;
+  user: Session["user"] | null;
+}> {
+  const session = await getRequestSession(req);
+
   return {
     req,
     res,
-    // Add user context here when authentication is implemented
-    user: null,
+    session,
+    user: session?.user ?? null,
   };
 }
 
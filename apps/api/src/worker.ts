@@ -0,0 +1,110 @@
+import dotenv from "dotenv";
+import {
+  createAgentJobHandler,
+  DripSequences,
+  JobQueue,
+  JobWorker,
+  RULE_ACTIONS_JOB_TYPE,
+  SocialScheduler,
+  SupportSla,
+  TrendCollector,
+  TrendStore,
+  trendSourcesFromEnv,
+} from "@neon/core-agents";
+import {
+  COMMAND_JOB_TYPE,
+  CommandRouter,
+} from "@neon/core-agents/src/command-router/CommandRouter";
+import {
+  AUTO_REPLAY_JOB_TYPE,
+  AutoReplayEngine,
+} from "@neon/core-agents/src/strategy/auto-replay-engine";
+import {
+  CAMPAIGN_JOB_TYPE,
+  CAMPAIGN_QUEUE,
+  CampaignRunner,
+} from "@neon/core-agents/src/strategy/campaign-runner";
+import {
+  MultiAgentPlannerEngine,
+  PLANNER_JOB_TYPE,
+} from "@neon/core-agents/src/strategy/multi-agent-planner-engine";
+import { logger } from "@neon/utils";
+import { behaviorRules, segmentEngine } from "./server/behavior-tracking";
+import { metricsPipeline } from "./server/metrics-pipeline";
+
+/**
+ * Background worker for the API, started with `npm run worker`. It runs
+ * the jobs of the default queue: submitted commands, goal planning,
+ * auto-replay checks, the agent tasks of behaviour triggers and rules,
+ * and any other agent job through the AgentFactory, and the scheduled
+ * campaigns of the campaigns queue.
+ * It also runs the pollers: scheduled posts, drip sequences, metrics
+ * ingestion, trend collection, segment refresh, SLA checks and campaign
+ * monitoring. API
+ * servers only enqueue work, so they can be scaled separately.
+ */
+
+dotenv.config();
+
+interface Poller {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+// Each poller runs unless its flag is "off"
+const POLLERS: Record<string, () => Poller> = {
+  SOCIAL_SCHEDULER: () => new SocialScheduler(),
+  EMAIL_SEQUENCES: () => new DripSequences(),
+  METRICS_INGESTION: () => metricsPipeline,
+  TRENDS_COLLECTION: () =>
+    new TrendCollector(new TrendStore(), { sources: trendSourcesFromEnv() }),
+  SEGMENT_REFRESH: () => segmentEngine,
+  SLA_MONITOR: () => new SupportSla(),
+  CAMPAIGN_MONITOR: () => campaignRunner,
+};
+
+const jobQueue = new JobQueue();
+const planner = MultiAgentPlannerEngine.getInstance(jobQueue);
+const campaignQueue = new JobQueue(undefined, CAMPAIGN_QUEUE);
+const campaignRunner = new CampaignRunner({}, campaignQueue);
+
+const worker = new JobWorker(jobQueue, {
+  concurrency: Number(process.env.WORKER_CONCURRENCY) || 2,
+})
+  .setDefaultHandler(createAgentJobHandler())
+  .register(COMMAND_JOB_TYPE, new CommandRouter(jobQueue).createJobHandler())
+  .register(
+    AUTO_REPLAY_JOB_TYPE,
+    new AutoReplayEngine(undefined, jobQueue).createJobHandler(),
+  )
+  .register(PLANNER_JOB_TYPE, planner.createJobHandler())
+  .register(RULE_ACTIONS_JOB_TYPE, behaviorRules.createJobHandler());
+
+const campaignWorker = new JobWorker(campaignQueue, {
+  concurrency: Number(process.env.WORKER_CONCURRENCY) || 2,
+}).register(CAMPAIGN_JOB_TYPE, campaignRunner.createJobHandler());
+
+const pollers = Object.entries(POLLERS)
+  .filter(([flag]) => process.env[flag] !== "off")
+  .map(([, create]) => create());
+
+async function start(): Promise<void> {
+  await planner.start();
+  await worker.start();
+  await campaignWorker.start();
+  await Promise.all(pollers.map((poller) => poller.start()));
+}
+
+async function shutdown(signal: string): Promise<void> {
+  logger.info("Worker stopping", { signal }, "Worker");
+  await Promise.all(pollers.map((poller) => poller.stop()));
+  await Promise.all([worker.stop(), campaignWorker.stop()]);
+  process.exit(0);
+}
+
+start().catch((error) => {
+  logger.error("Worker failed to start", { error }, "Worker");
+  process.exit(1);
+});
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
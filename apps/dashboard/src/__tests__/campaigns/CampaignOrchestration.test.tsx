@@ -9,30 +9,15 @@ import { CampaignTimeline } from "@/components/campaigns/CampaignTimeline";
 // Mock tRPC
 const mockTrpc = {
   campaign: {
-    getCampaigns: {
+    getAll: {
       useQuery: jest.fn(),
     },
-    getCampaignDetails: {
-      useQuery: jest.fn(),
-    },
-    evaluateCampaignTriggers: {
-      useQuery: jest.fn(),
-    },
-    runOrchestratedCampaign: {
-      useMutation: jest.fn(),
-    },
-    pauseCampaign: {
-      useMutation: jest.fn(),
-    },
-    resumeCampaign: {
+    update: {
       useMutation: jest.fn(),
     },
     getAgentAssignments: {
       useQuery: jest.fn(),
     },
-    getAgentStageLogs: {
-      useQuery: jest.fn(),
-    },
   },
 };
 
@@ -49,51 +34,22 @@ jest.mock("framer-motion", () => ({
 }));
 
 // Mock data
-const mockCampaignData = {
-  success: true,
-  data: [
-    {
-      id: "campaign_1",
-      name: "Q4 Holiday Product Launch",
-      description:
-        "Launch our new AI-powered productivity suite for the holiday season",
-      type: "product-launch",
-      status: "running",
-      priority: "high",
-      startDate: new Date("2024-12-01"),
-      endDate: new Date("2024-12-31"),
-      budget: 25000,
-      targetAudience: "Tech professionals and productivity enthusiasts",
-      goals: [
-        "Achieve 10K+ signups",
-        "Generate $500K revenue",
-        "Build brand awareness",
-      ],
-      kpis: {
-        ctr: 4.2,
-        cvr: 2.8,
-        sentiment: 0.65,
-        costPerMessage: 0.35,
-        reach: 125000,
-        engagement: 8.5,
-      },
-      tags: ["Q4", "product-launch", "AI", "high-priority"],
-      createdBy: "marketing_team",
-      createdAt: new Date("2024-11-25T10:00:00Z"),
-      updatedAt: new Date("2024-12-01T10:15:00Z"),
-      orchestration: {
-        totalTasks: 5,
-        completedTasks: 2,
-        runningTasks: 2,
-        failedTasks: 0,
-        overallProgress: 65,
-        activeAgents: ["ContentAgent", "TrendAgent"],
-        avgTaskScore: 0.87,
-      },
-    },
-  ],
-  total: 1,
-};
+const mockCampaignData = [
+  {
+    id: "campaign_1",
+    name: "Q4 Holiday Product Launch",
+    description:
+      "Launch our new AI-powered productivity suite for the holiday season",
+    type: "CONTENT_GENERATION",
+    status: "ACTIVE",
+    startDate: new Date("2024-12-01"),
+    endDate: new Date("2024-12-31"),
+    budget: 25000,
+    createdAt: new Date("2024-11-25T10:00:00Z"),
+    updatedAt: new Date("2024-12-01T10:15:00Z"),
+    user: { name: "Marketing Team", email: "marketing@example.com" },
+  },
+];
 
 const mockAgentAssignments = {
   success: true,
@@ -178,32 +134,6 @@ const mockAgentAssignments = {
   },
 };
 
-const mockTriggers = {
-  success: true,
-  data: {
-    triggers: [
-      {
-        id: "trigger_1",
-        name: "Low CTR Alert",
-        condition: "CTR < 3%",
-        action: "Generate new ad creative variants",
-        targetAgent: "DesignAgent",
-        threshold: 3,
-        metric: "ctr",
-        isActive: true,
-        lastTriggered: null,
-        currentValue: 4.2,
-        isTriggered: false,
-        shouldExecute: false,
-        evaluatedAt: new Date(),
-        llmRecommendation: "Monitor CTR - currently within acceptable range",
-      },
-    ],
-    triggeredActions: [],
-    hasActiveAlerts: false,
-  },
-};
-
 describe("CampaignsPage", () => {
   let queryClient: QueryClient;
 
@@ -219,30 +149,14 @@ describe("CampaignsPage", () => {
     jest.clearAllMocks();
 
     // Setup default mock returns
-    mockTrpc.campaign.getCampaigns.useQuery.mockReturnValue({
+    mockTrpc.campaign.getAll.useQuery.mockReturnValue({
       data: mockCampaignData,
       isLoading: false,
       refetch: jest.fn(),
     });
 
-    mockTrpc.campaign.getCampaignDetails.useQuery.mockReturnValue({
-      data: null,
-    });
-
-    mockTrpc.campaign.evaluateCampaignTriggers.useQuery.mockReturnValue({
-      data: mockTriggers,
-    });
-
-    mockTrpc.campaign.runOrchestratedCampaign.useMutation.mockReturnValue({
-      mutateAsync: jest.fn().mockResolvedValue({ success: true }),
-    });
-
-    mockTrpc.campaign.pauseCampaign.useMutation.mockReturnValue({
-      mutateAsync: jest.fn().mockResolvedValue({ success: true }),
-    });
-
-    mockTrpc.campaign.resumeCampaign.useMutation.mockReturnValue({
-      mutateAsync: jest.fn().mockResolvedValue({ success: true }),
+    mockTrpc.campaign.update.useMutation.mockReturnValue({
+      mutateAsync: jest.fn().mockResolvedValue(mockCampaignData[0]),
     });
   });
 
@@ -269,30 +183,15 @@ describe("CampaignsPage", () => {
     expect(screen.getByText("Active Campaigns")).toBeInTheDocument();
     expect(screen.getByText("Total Budget")).toBeInTheDocument();
     expect(screen.getByText("Active Agents")).toBeInTheDocument();
-    expect(screen.getByText("Automations")).toBeInTheDocument();
+    expect(screen.getByText("Completed")).toBeInTheDocument();
   });
 
-  test("shows campaign list with orchestration data", () => {
+  test("shows the workspace's campaigns", () => {
     renderWithQueryClient(<CampaignsPage />);
 
     expect(screen.getByText("Q4 Holiday Product Launch")).toBeInTheDocument();
     expect(screen.getByText("running")).toBeInTheDocument();
-    expect(screen.getByText("high")).toBeInTheDocument();
-    expect(screen.getByText("CTR: 4.2%")).toBeInTheDocument();
-    expect(screen.getByText("CVR: 2.8%")).toBeInTheDocument();
-  });
-
-  test("displays progress bars for campaigns", () => {
-    renderWithQueryClient(<CampaignsPage />);
-
-    expect(screen.getByText("Progress")).toBeInTheDocument();
-    expect(screen.getByText("65%")).toBeInTheDocument();
-  });
-
-  test("shows active agents indicators", () => {
-    renderWithQueryClient(<CampaignsPage />);
-
-    expect(screen.getByText("2 agents active")).toBeInTheDocument();
+    expect(screen.getByText("$25,000")).toBeInTheDocument();
   });
 
   test("handles auto-refresh toggle", () => {
@@ -311,10 +210,9 @@ describe("CampaignsPage", () => {
     const statusFilter = screen.getByDisplayValue("All Status");
     fireEvent.change(statusFilter, { target: { value: "running" } });
 
-    expect(mockTrpc.campaign.getCampaigns.useQuery).toHaveBeenCalledWith({
-      status: "running",
+    expect(mockTrpc.campaign.getAll.useQuery).toHaveBeenCalledWith({
+      status: "ACTIVE",
       limit: 20,
-      sortBy: "updated",
     });
   });
 
@@ -326,17 +224,19 @@ describe("CampaignsPage", () => {
       .closest('[data-testid="campaign-card"]');
     fireEvent.click(campaignCard!);
 
-    expect(mockTrpc.campaign.getCampaignDetails.useQuery).toHaveBeenCalledWith(
-      { id: "campaign_1" },
-      { enabled: true },
-    );
+    expect(screen.getByText("View Agent Matrix")).toBeInTheDocument();
   });
 
   test("executes campaign orchestration actions", async () => {
-    const mockMutateAsync = jest.fn().mockResolvedValue({ success: true });
-    mockTrpc.campaign.runOrchestratedCampaign.useMutation.mockReturnValue({
+    const mockMutateAsync = jest.fn().mockResolvedValue(mockCampaignData[0]);
+    mockTrpc.campaign.update.useMutation.mockReturnValue({
       mutateAsync: mockMutateAsync,
     });
+    mockTrpc.campaign.getAll.useQuery.mockReturnValue({
+      data: [{ ...mockCampaignData[0], status: "DRAFT" }],
+      isLoading: false,
+      refetch: jest.fn(),
+    });
 
     renderWithQueryClient(<CampaignsPage />);
 
@@ -344,12 +244,15 @@ describe("CampaignsPage", () => {
     fireEvent.click(runButton);
 
     await waitFor(() => {
-      expect(mockMutateAsync).toHaveBeenCalledWith({ id: "campaign_1" });
+      expect(mockMutateAsync).toHaveBeenCalledWith({
+        id: "campaign_1",
+        status: "ACTIVE",
+      });
     });
   });
 
   test("handles loading state", () => {
-    mockTrpc.campaign.getCampaigns.useQuery.mockReturnValue({
+    mockTrpc.campaign.getAll.useQuery.mockReturnValue({
       data: undefined,
       isLoading: true,
       refetch: jest.fn(),
@@ -361,8 +264,8 @@ describe("CampaignsPage", () => {
   });
 
   test("handles empty state", () => {
-    mockTrpc.campaign.getCampaigns.useQuery.mockReturnValue({
-      data: { data: [], total: 0 },
+    mockTrpc.campaign.getAll.useQuery.mockReturnValue({
+      data: [],
       isLoading: false,
       refetch: jest.fn(),
     });
@@ -392,10 +295,6 @@ describe("AgentOrchestrationMatrix", () => {
       isLoading: false,
       refetch: jest.fn(),
     });
-
-    mockTrpc.campaign.getAgentStageLogs.useQuery.mockReturnValue({
-      data: null,
-    });
   });
 
   const renderMatrix = () => {
@@ -642,38 +541,4 @@ describe("LLM Integration Features", () => {
     // Verify result score
     expect(screen.getByText("92%")).toBeInTheDocument();
   });
-
-  test("shows LLM execution context", () => {
-    const queryClient = new QueryClient();
-
-    mockTrpc.campaign.getAgentStageLogs.useQuery.mockReturnValue({
-      data: {
-        logs: [
-          {
-            ...mockAgentAssignments.data.matrix.creative[0],
-            executionLog: [
-              {
-                timestamp: new Date(),
-                event: "LLM execution started",
-                details: "Agent prompt sent to LLM with campaign context",
-                llmContext: "Campaign context loaded for agent",
-              },
-            ],
-          },
-        ],
-      },
-    });
-
-    render(
-      <QueryClientProvider client={queryClient}>
-        <AgentOrchestrationMatrix campaignId="campaign_1" onClose={jest.fn()} />
-      </QueryClientProvider>,
-    );
-
-    // Verify LLM context tracking
-    expect(screen.getByText("LLM execution started")).toBeInTheDocument();
-    expect(
-      screen.getByText("Campaign context loaded for agent"),
-    ).toBeInTheDocument();
-  });
 });
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { trpc } from "@/utils/trpc";
+import { trpc, type RouterOutputs } from "@/utils/trpc";
 import {
   Play,
   Pause,
@@ -10,10 +10,8 @@ import {
   Calendar,
   DollarSign,
   Target,
-  Zap,
   Brain,
   Activity,
-  AlertTriangle,
   CheckCircle,
   Clock,
   Users,
@@ -78,6 +76,54 @@ type CampaignStatusType =
   | "completed"
   | "failed";
 
+type CampaignRecord = RouterOutputs["campaign"]["getAll"][number];
+
+const STATUS_FILTERS = {
+  draft: "DRAFT",
+  running: "ACTIVE",
+  paused: "PAUSED",
+  completed: "COMPLETED",
+  failed: "FAILED",
+} as const;
+
+const CAMPAIGN_STATUSES: Record<string, Campaign["status"]> = {
+  DRAFT: "draft",
+  ACTIVE: "running",
+  PAUSED: "paused",
+  COMPLETED: "completed",
+  FAILED: "failed",
+  CANCELLED: "failed",
+};
+
+// Stored campaigns carry no KPIs or orchestration progress yet
+function toCampaign(record: CampaignRecord): Campaign {
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description ?? "",
+    type: "custom",
+    status: CAMPAIGN_STATUSES[record.status] ?? "draft",
+    priority: "medium",
+    startDate: record.startDate ?? record.createdAt,
+    endDate: record.endDate ?? record.createdAt,
+    budget: record.budget ?? 0,
+    targetAudience: "",
+    goals: [],
+    kpis: {
+      ctr: null,
+      cvr: null,
+      sentiment: null,
+      costPerMessage: null,
+      reach: null,
+      engagement: null,
+    },
+    tags: [],
+    createdBy: record.user.name ?? record.user.email,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
 export default function CampaignsPage() {
   const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(
     null,
@@ -92,30 +138,13 @@ export default function CampaignsPage() {
     data: campaignsData,
     isLoading,
     refetch,
-  } = trpc.campaign.getCampaigns.useQuery({
-    status: statusFilter === "all" ? undefined : statusFilter,
+  } = trpc.campaign.getAll.useQuery({
+    status: statusFilter === "all" ? undefined : STATUS_FILTERS[statusFilter],
     limit: 20,
-    sortBy: "updated",
   });
 
-  // Fetch campaign details when selected
-  const { data: campaignDetails } = trpc.campaign.getCampaignDetails.useQuery(
-    { id: selectedCampaign?.id || "" },
-    { enabled: !!selectedCampaign },
-  );
-
-  // Fetch triggers for selected campaign
-  const { data: triggersData } =
-    trpc.campaign.evaluateCampaignTriggers.useQuery(
-      { id: selectedCampaign?.id || "" },
-      { enabled: !!selectedCampaign },
-    );
-
-  // Mutations
-  const runCampaignMutation =
-    trpc.campaign.runOrchestratedCampaign.useMutation();
-  const pauseCampaignMutation = trpc.campaign.pauseCampaign.useMutation();
-  const resumeCampaignMutation = trpc.campaign.resumeCampaign.useMutation();
+  // Running, pausing and resuming all move the campaign's status
+  const updateCampaignMutation = trpc.campaign.update.useMutation();
 
   // Auto-refresh campaigns
   useEffect(() => {
@@ -130,7 +159,10 @@ export default function CampaignsPage() {
 
   const handleRunCampaign = async (campaignId: string) => {
     try {
-      await runCampaignMutation.mutateAsync({ id: campaignId });
+      await updateCampaignMutation.mutateAsync({
+        id: campaignId,
+        status: "ACTIVE",
+      });
       refetch();
     } catch (error) {
       console.error("Failed to run campaign:", error);
@@ -139,7 +171,10 @@ export default function CampaignsPage() {
 
   const handlePauseCampaign = async (campaignId: string) => {
     try {
-      await pauseCampaignMutation.mutateAsync({ id: campaignId });
+      await updateCampaignMutation.mutateAsync({
+        id: campaignId,
+        status: "PAUSED",
+      });
       refetch();
     } catch (error) {
       console.error("Failed to pause campaign:", error);
@@ -148,7 +183,10 @@ export default function CampaignsPage() {
 
   const handleResumeCampaign = async (campaignId: string) => {
     try {
-      await resumeCampaignMutation.mutateAsync({ id: campaignId });
+      await updateCampaignMutation.mutateAsync({
+        id: campaignId,
+        status: "ACTIVE",
+      });
       refetch();
     } catch (error) {
       console.error("Failed to resume campaign:", error);
@@ -198,7 +236,7 @@ export default function CampaignsPage() {
     }
   };
 
-  const campaigns = campaignsData?.data || [];
+  const campaigns = (campaignsData ?? []).map(toCampaign);
   const activeCampaigns = campaigns.filter(
     (c) => c.status === "running",
   ).length;
@@ -207,6 +245,9 @@ export default function CampaignsPage() {
     (sum, c) => sum + (c.orchestration?.runningTasks || 0),
     0,
   );
+  const completedCampaigns = campaigns.filter(
+    (c) => c.status === "completed",
+  ).length;
 
   return (
     <div className="min-h-screen bg-gray-900 text-white">
@@ -284,12 +325,12 @@ export default function CampaignsPage() {
             <div className="bg-gray-800/30 rounded-xl p-4 border border-gray-700/30">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-gray-400 text-sm">Automations</p>
+                  <p className="text-gray-400 text-sm">Completed</p>
                   <p className="text-2xl font-bold text-yellow-400">
-                    {triggersData?.data?.triggeredActions?.length || 0}
+                    {completedCampaigns}
                   </p>
                 </div>
-                <Zap className="w-8 h-8 text-yellow-400" />
+                <CheckCircle className="w-8 h-8 text-yellow-400" />
               </div>
             </div>
           </div>
@@ -558,40 +599,6 @@ export default function CampaignsPage() {
                       </div>
                     </div>
 
-                    {/* Triggers */}
-                    {triggersData?.data?.triggers &&
-                      triggersData.data.triggers.length > 0 && (
-                        <div>
-                          <p className="text-gray-400 text-xs mb-2">
-                            Active Triggers
-                          </p>
-                          <div className="space-y-2">
-                            {triggersData.data.triggers.map((trigger, idx) => (
-                              <div
-                                key={idx}
-                                className={`p-2 rounded-lg border ${
-                                  trigger.isTriggered
-                                    ? "bg-red-500/10 border-red-500/30 text-red-400"
-                                    : "bg-gray-700/30 border-gray-600/30 text-gray-400"
-                                }`}
-                              >
-                                <div className="flex items-center justify-between">
-                                  <span className="text-xs font-medium">
-                                    {trigger.name}
-                                  </span>
-                                  {trigger.isTriggered && (
-                                    <AlertTriangle className="w-3 h-3" />
-                                  )}
-                                </div>
-                                <p className="text-xs opacity-80">
-                                  {trigger.condition}
-                                </p>
-                              </div>
-                            ))}
-                          </div>
-                        </div>
-                      )}
-
                     <div className="pt-4 border-t border-gray-700/30">
                       <button
                         onClick={() => setShowMatrix(true)}
@@ -70,11 +70,6 @@ export function AgentOrchestrationMatrix({
     id: campaignId,
   });
 
-  // Fetch agent logs
-  const { data: logsData } = trpc.campaign.getAgentStageLogs.useQuery({
-    id: campaignId,
-  });
-
   // Auto-refresh data
   useEffect(() => {
     if (autoRefresh) {
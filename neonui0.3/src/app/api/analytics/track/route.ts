@@ -1,5 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
 
+// Same key as the EventTracker's localStorage entry in @neon/utils
+const ANONYMOUS_ID_COOKIE = "neon_anonymous_id";
+
+// Shape accepted by the NeonHub API's POST /api/events. The API key
+// authenticates this server, not the visitor, so a userId sent by the
+// browser is dropped: users are identified only by authenticated server code.
+function ingestionEvent(
+  event: string,
+  properties: Record<string, any>,
+  anonymousId: string,
+  referer: string,
+) {
+  const { url, title, target, href, formId, fields, ...rest } = properties;
+  delete rest.userId;
+  const common = {
+    id: crypto.randomUUID(),
+    anonymousId,
+    ...(properties.sessionId && { sessionId: String(properties.sessionId) }),
+    timestamp: Date.now(),
+    url: url || referer || undefined,
+    properties: rest,
+  };
+  switch (event) {
+    case "page_view":
+      return { ...common, type: "page_view", title };
+    case "click":
+      return { ...common, type: "click", target, href };
+    case "form_submit":
+      return { ...common, type: "form_submit", formId, fields };
+    default:
+      return { ...common, type: "custom", name: event };
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const { event, properties } = await request.json();
@@ -11,6 +45,10 @@ export async function POST(request: NextRequest) {
       request.headers.get("x-real-ip") ||
       "unknown";
     const referer = request.headers.get("referer") || "";
+    const anonymousId =
+      request.cookies.get(ANONYMOUS_ID_COOKIE)?.value ||
+      properties?.anonymousId ||
+      crypto.randomUUID();
 
     // Create analytics record
     const analyticsData = {
@@ -25,20 +63,53 @@ export async function POST(request: NextRequest) {
       },
     };
 
-    // Log for debugging (in production, send to analytics service)
-    console.log("📊 Analytics Event:", JSON.stringify(analyticsData, null, 2));
-
-    // Here you would typically send to your analytics service:
-    // - PostHog: await posthog.capture(event, properties)
-    // - Mixpanel: await mixpanel.track(event, properties)
-    // - Google Analytics: await gtag('event', event, properties)
-    // - Custom database: await db.analytics.create(analyticsData)
+    // Store the event with the visitor's behaviour when the API is configured
+    const endpoint = process.env.NEON_EVENTS_URL;
+    let ingested: unknown;
+    if (endpoint) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": userAgent,
+          "X-Forwarded-For": analyticsData.properties.ip,
+          ...(process.env.NEON_API_KEY && {
+            "x-api-key": process.env.NEON_API_KEY,
+          }),
+          ...(process.env.NEON_WORKSPACE_ID && {
+            "x-workspace-id": process.env.NEON_WORKSPACE_ID,
+          }),
+        },
+        body: JSON.stringify({
+          events: [
+            ingestionEvent(event, properties ?? {}, anonymousId, referer),
+          ],
+        }),
+      });
+      ingested = await response.json().catch(() => undefined);
+      if (!response.ok) {
+        console.error("❌ Event ingestion failed:", response.status, ingested);
+      }
+    } else {
+      // Log for debugging when there is nowhere to send events
+      console.log(
+        "📊 Analytics Event:",
+        JSON.stringify(analyticsData, null, 2),
+      );
+    }
 
-    return NextResponse.json({
+    const result = NextResponse.json({
       success: true,
       message: "Event tracked successfully",
       eventId: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...(ingested !== undefined && { ingested }),
+    });
+    result.cookies.set(ANONYMOUS_ID_COOKIE, anonymousId, {
+      maxAge: 60 * 60 * 24 * 365,
+      sameSite: "lax",
+      path: "/",
     });
+    return result;
   } catch (error) {
     console.error("❌ Analytics tracking error:", error);
     return NextResponse.json(
@@ -7,6 +7,7 @@ const mockPrismaClient = {
     findMany: jest.fn().mockResolvedValue([]),
     findFirst: jest.fn().mockResolvedValue(null),
     update: jest.fn().mockResolvedValue({}),
+    updateMany: jest.fn().mockResolvedValue({ count: 0 }),
     delete: jest.fn().mockResolvedValue({}),
     deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
     count: jest.fn().mockResolvedValue(0),
@@ -32,8 +33,27 @@ const mockPrismaClient = {
     .mockImplementation((callback) => callback(mockPrismaClient)),
 };
 
+const AgentType = {
+  CONTENT: "CONTENT",
+  SEO: "SEO",
+  EMAIL_MARKETING: "EMAIL_MARKETING",
+  SOCIAL_POSTING: "SOCIAL_POSTING",
+  CUSTOMER_SUPPORT: "CUSTOMER_SUPPORT",
+  AD: "AD",
+  OUTREACH: "OUTREACH",
+  TREND: "TREND",
+  INSIGHT: "INSIGHT",
+  DESIGN: "DESIGN",
+  BRAND_VOICE: "BRAND_VOICE",
+  GOAL_PLANNER: "GOAL_PLANNER",
+  PATTERN_MINER: "PATTERN_MINER",
+  SEGMENT_ANALYZER: "SEGMENT_ANALYZER",
+};
+
 // CommonJS export
 module.exports = {
+  DEFAULT_WORKSPACE_ID: "default",
+  AgentType,
   db: mockPrismaClient,
   prisma: mockPrismaClient,
   default: mockPrismaClient,
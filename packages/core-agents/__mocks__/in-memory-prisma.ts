@@ -0,0 +1,1338 @@
+import { randomUUID } from "crypto";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * An in-memory Prisma client for unit tests, built from the data model's
+ * schema.prisma so that defaults, @updatedAt, unique keys, relations and
+ * referential actions match the real schema. Queries follow Prisma's
+ * semantics on PostgreSQL: SQL null comparisons, `mode: "insensitive"`,
+ * relation filters, NULLS LAST ascending, P2002/P2003/P2025 errors and
+ * validation errors for missing required fields, unknown arguments and
+ * `null` Json values.
+ *
+ * Tests share this one client rather than re-implementing the parts of
+ * Prisma they need; in-memory-prisma.test.ts pins down the semantics.
+ * Raw SQL and full-text search are not supported.
+ */
+
+const SCHEMA_PATH = join(__dirname, "../../data-model/prisma/schema.prisma");
+
+const SCALAR_TYPES = new Set([
+  "String",
+  "Int",
+  "Float",
+  "Decimal",
+  "BigInt",
+  "Boolean",
+  "DateTime",
+  "Json",
+  "Bytes",
+]);
+
+type DefaultValue =
+  | { fn: "cuid" | "uuid" | "now" | "autoincrement" }
+  | { value: unknown };
+
+interface FieldDef {
+  name: string;
+  type: string;
+  kind: "scalar" | "enum" | "object" | "unsupported";
+  list: boolean;
+  optional: boolean;
+  isId: boolean;
+  isUpdatedAt: boolean;
+  default?: DefaultValue | undefined;
+  relation?: { fields: string[]; references: string[]; onDelete?: string };
+}
+
+interface ModelDef {
+  name: string;
+  delegate: string;
+  fields: Map<string, FieldDef>;
+  idFields: string[];
+  // Every unique key, single fields included, by its where-input name
+  uniques: Map<string, string[]>;
+}
+
+interface Relation {
+  field: FieldDef;
+  target: ModelDef;
+  many: boolean;
+  // Related rows have target[targetKeys[i]] equal to row[localKeys[i]]
+  localKeys: string[];
+  targetKeys: string[];
+  // The foreign key is on this model's side
+  owned: boolean;
+  // Implicit many-to-many join table
+  joinTable?: string | undefined;
+}
+
+interface Schema {
+  models: Map<string, ModelDef>;
+  enums: Map<string, string[]>;
+}
+
+// Row data, as untyped as Prisma's inputs are to a test
+type Row = Record<string, any>;
+type Args = Record<string, any>;
+
+export class InMemoryPrismaError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly meta: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "PrismaClientKnownRequestError";
+  }
+}
+
+export class InMemoryPrismaValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrismaClientValidationError";
+  }
+}
+
+const lowerFirst = (name: string) => name[0]!.toLowerCase() + name.slice(1);
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  value !== null &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+const toArray = <T>(value: T | T[]): T[] =>
+  Array.isArray(value) ? value : [value];
+
+// Not structuredClone: under jest its Dates come from another realm
+const clone = <T>(value: T): T => {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, clone(item)]),
+    ) as T;
+  }
+  return value;
+};
+
+function stripComment(line: string): string {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"' && line[i - 1] !== "\\") quoted = !quoted;
+    if (!quoted && line[i] === "/" && line[i + 1] === "/") {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+// The text inside the parentheses opening at `start`
+function parenthesised(text: string, start: number): string {
+  let depth = 0;
+  let quoted = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' && text[i - 1] !== "\\") quoted = !quoted;
+    if (quoted) continue;
+    if (char === "(") depth++;
+    if (char === ")" && --depth === 0) return text.slice(start + 1, i);
+  }
+  throw new Error(`Unbalanced parentheses in "${text}"`);
+}
+
+const listOf = (text: string | undefined) =>
+  text
+    ? text
+        .replace(/[[\]]/g, "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : [];
+
+function parseDefault(
+  raw: string,
+  field: Pick<FieldDef, "type" | "kind">,
+): DefaultValue | undefined {
+  const text = raw.trim();
+  const fn = /^(\w+)\(/.exec(text)?.[1];
+  if (fn === "cuid" || fn === "uuid" || fn === "now") return { fn };
+  if (fn === "autoincrement") return { fn };
+  // Computed by the database; left to the caller here
+  if (fn) return undefined;
+  let value: unknown = JSON.parse(
+    field.kind === "enum" && /^\w+$/.test(text) ? JSON.stringify(text) : text,
+  );
+  if (field.type === "Json" && typeof value === "string") {
+    value = JSON.parse(value);
+  }
+  return { value };
+}
+
+function parseSchema(source: string): Schema {
+  const models = new Map<string, ModelDef>();
+  const enums = new Map<string, string[]>();
+  const blocks = [
+    ...source.matchAll(/^(model|enum)\s+(\w+)\s*\{([\s\S]*?)^\}/gm),
+  ];
+
+  for (const [, kind, name, body] of blocks) {
+    if (kind !== "enum") continue;
+    enums.set(
+      name!,
+      body!
+        .split("\n")
+        .map((line) => stripComment(line).trim())
+        .filter((line) => line && !line.startsWith("@"))
+        .map((line) => line.split(/\s+/)[0]!),
+    );
+  }
+  const modelNames = new Set(
+    blocks.filter(([, kind]) => kind === "model").map(([, , name]) => name!),
+  );
+
+  for (const [, kind, name, body] of blocks) {
+    if (kind !== "model") continue;
+    const model: ModelDef = {
+      name: name!,
+      delegate: lowerFirst(name!),
+      fields: new Map(),
+      idFields: [],
+      uniques: new Map(),
+    };
+    for (const rawLine of body!.split("\n")) {
+      const line = stripComment(rawLine).trim();
+      if (!line) continue;
+      if (line.startsWith("@@")) {
+        const attribute = /^@@(\w+)/.exec(line)![1];
+        if (attribute !== "id" && attribute !== "unique") continue;
+        const args = parenthesised(line, line.indexOf("("));
+        const fields = listOf(/\[([^\]]*)\]/.exec(args)?.[1]);
+        const keyName = /name:\s*"(\w+)"/.exec(args)?.[1] ?? fields.join("_");
+        if (attribute === "id") model.idFields = fields;
+        model.uniques.set(keyName, fields);
+        continue;
+      }
+      const match =
+        /^(\w+)\s+(Unsupported\("[^"]*"\)|\w+)(\[\])?(\?)?\s*(.*)$/.exec(line);
+      if (!match) continue;
+      const [, fieldName, type, list, optional, attributes = ""] = match;
+      const field: FieldDef = {
+        name: fieldName!,
+        type: type!,
+        kind: type!.startsWith("Unsupported")
+          ? "unsupported"
+          : SCALAR_TYPES.has(type!)
+            ? "scalar"
+            : enums.has(type!)
+              ? "enum"
+              : modelNames.has(type!)
+                ? "object"
+                : "unsupported",
+        list: Boolean(list),
+        optional: Boolean(optional),
+        isId: /@id\b/.test(attributes),
+        isUpdatedAt: /@updatedAt\b/.test(attributes),
+      };
+      const defaultAt = attributes.indexOf("@default(");
+      if (defaultAt !== -1) {
+        field.default = parseDefault(
+          parenthesised(attributes, defaultAt + "@default".length),
+          field,
+        );
+      }
+      const relationAt = attributes.indexOf("@relation(");
+      if (relationAt !== -1) {
+        const args = parenthesised(attributes, relationAt + "@relation".length);
+        const fields = listOf(/fields:\s*\[([^\]]*)\]/.exec(args)?.[1]);
+        if (fields.length > 0) {
+          const onDelete = /onDelete:\s*(\w+)/.exec(args)?.[1];
+          field.relation = {
+            fields,
+            references: listOf(/references:\s*\[([^\]]*)\]/.exec(args)?.[1]),
+            ...(onDelete && { onDelete }),
+          };
+        }
+      }
+      if (field.isId) model.idFields = [field.name];
+      if (field.isId || /@unique\b/.test(attributes)) {
+        model.uniques.set(field.name, [field.name]);
+      }
+      model.fields.set(field.name, field);
+    }
+    models.set(model.name, model);
+  }
+  return { models, enums };
+}
+
+let cachedSchema: Schema | undefined;
+const loadSchema = () =>
+  (cachedSchema ??= parseSchema(readFileSync(SCHEMA_PATH, "utf8")));
+
+export interface InMemoryPrismaOptions {
+  // Clock for @default(now()) and @updatedAt
+  now?: () => Date;
+}
+
+export interface InMemoryPrisma {
+  prisma: any;
+  // Live rows per model, by delegate name (prisma.supportTicket → supportTicket)
+  tables: Record<string, Row[]>;
+  // Insert rows as they are, with column defaults but no validation
+  seed(delegate: string, rows: Row | Row[]): Row[];
+}
+
+export function createInMemoryPrisma(
+  options: InMemoryPrismaOptions = {},
+): InMemoryPrisma {
+  const schema = loadSchema();
+  const now = options.now ?? (() => new Date());
+  const tables: Record<string, Row[]> = {};
+  // Implicit many-to-many links, by join table
+  let joins: Record<string, Array<[string, string]>> = {};
+  const counters = new Map<string, number>();
+  const byDelegate = new Map<string, ModelDef>();
+  for (const model of schema.models.values()) {
+    tables[model.delegate] = [];
+    byDelegate.set(model.delegate, model);
+  }
+
+  const rowsOf = (model: ModelDef) => tables[model.delegate]!;
+
+  const invalid = (message: string) =>
+    new InMemoryPrismaValidationError(message);
+
+  const fieldOf = (model: ModelDef, name: string) => {
+    const field = model.fields.get(name);
+    if (!field) {
+      throw invalid(`Unknown field \`${name}\` on model \`${model.name}\``);
+    }
+    return field;
+  };
+
+  // Relations
+
+  const relations = new Map<FieldDef, Relation>();
+  const relationOf = (model: ModelDef, field: FieldDef): Relation => {
+    const known = relations.get(field);
+    if (known) return known;
+    const target = schema.models.get(field.type)!;
+    let relation: Relation;
+    if (field.relation) {
+      relation = {
+        field,
+        target,
+        many: false,
+        localKeys: field.relation.fields,
+        targetKeys: field.relation.references,
+        owned: true,
+      };
+    } else {
+      const candidates = [...target.fields.values()].filter(
+        (other) =>
+          other.kind === "object" &&
+          other.type === model.name &&
+          other !== field,
+      );
+      const back = candidates.find((other) => other.relation) ?? candidates[0];
+      if (!back) {
+        throw new Error(`No back relation for ${model.name}.${field.name}`);
+      }
+      if (back.relation) {
+        relation = {
+          field,
+          target,
+          many: field.list,
+          localKeys: back.relation.references,
+          targetKeys: back.relation.fields,
+          owned: false,
+        };
+      } else {
+        relation = {
+          field,
+          target,
+          many: true,
+          localKeys: model.idFields,
+          targetKeys: target.idFields,
+          owned: false,
+          joinTable: [model.name, target.name].sort().join("_"),
+        };
+      }
+    }
+    relations.set(field, relation);
+    return relation;
+  };
+
+  const comparable = (value: unknown): unknown =>
+    value instanceof Date ? value.getTime() : value;
+
+  const same = (a: unknown, b: unknown) =>
+    a != null && b != null && comparable(a) === comparable(b);
+
+  const idOf = (model: ModelDef, row: Row) =>
+    model.idFields.map((name) => String(row[name])).join("|");
+
+  const joinSide = (relation: Relation, model: ModelDef) =>
+    [model.name, relation.target.name].sort()[0] === model.name ? 0 : 1;
+
+  const relatedRows = (model: ModelDef, relation: Relation, row: Row) => {
+    if (relation.joinTable) {
+      const side = joinSide(relation, model);
+      const ids = new Set(
+        (joins[relation.joinTable] ?? [])
+          .filter((pair) => pair[side] === idOf(model, row))
+          .map((pair) => pair[1 - side]),
+      );
+      return rowsOf(relation.target).filter((other) =>
+        ids.has(idOf(relation.target, other)),
+      );
+    }
+    if (relation.localKeys.some((key) => row[key] == null)) return [];
+    return rowsOf(relation.target).filter((other) =>
+      relation.localKeys.every((key, i) =>
+        same(other[relation.targetKeys[i]!], row[key]),
+      ),
+    );
+  };
+
+  // Filters
+
+  const compare = (a: unknown, b: unknown) => {
+    const left = comparable(a) as any;
+    const right = comparable(b) as any;
+    return left < right ? -1 : left > right ? 1 : 0;
+  };
+
+  const equalValues = (
+    field: FieldDef,
+    actual: unknown,
+    expected: unknown,
+    insensitive: boolean,
+  ): boolean => {
+    if (actual == null || expected == null) return false;
+    if (field.list || field.type === "Json") {
+      return JSON.stringify(actual) === JSON.stringify(expected);
+    }
+    if (field.type === "DateTime") {
+      return (
+        new Date(actual as any).getTime() ===
+        new Date(expected as any).getTime()
+      );
+    }
+    if (insensitive && typeof actual === "string") {
+      return actual.toLowerCase() === String(expected).toLowerCase();
+    }
+    return actual === expected;
+  };
+
+  const matchScalar = (
+    field: FieldDef,
+    actual: unknown,
+    condition: unknown,
+  ): boolean => {
+    if (condition === null) return actual == null;
+    const filter =
+      isObject(condition) &&
+      (field.type !== "Json" ||
+        Object.keys(condition).every((key) => ["equals", "not"].includes(key)));
+    if (!filter) {
+      return equalValues(field, actual, condition, false);
+    }
+    const insensitive = condition.mode === "insensitive";
+    const text = (value: unknown) =>
+      insensitive ? String(value).toLowerCase() : String(value);
+    return Object.entries<any>(condition).every(([op, operand]) => {
+      if (operand === undefined) return true;
+      switch (op) {
+        case "mode":
+          return true;
+        case "equals":
+          return operand === null
+            ? actual == null
+            : equalValues(field, actual, operand, insensitive);
+        case "not":
+          if (operand === null) return actual != null;
+          if (actual == null) return false;
+          return isObject(operand) && field.type !== "Json"
+            ? !matchScalar(field, actual, { mode: condition.mode, ...operand })
+            : !equalValues(field, actual, operand, insensitive);
+        case "in":
+          return (
+            actual != null &&
+            operand.some((value: unknown) =>
+              equalValues(field, actual, value, insensitive),
+            )
+          );
+        case "notIn":
+          return (
+            actual != null &&
+            !operand.some((value: unknown) =>
+              equalValues(field, actual, value, insensitive),
+            )
+          );
+        case "lt":
+          return actual != null && compare(actual, operand) < 0;
+        case "lte":
+          return actual != null && compare(actual, operand) <= 0;
+        case "gt":
+          return actual != null && compare(actual, operand) > 0;
+        case "gte":
+          return actual != null && compare(actual, operand) >= 0;
+        case "contains":
+          return actual != null && text(actual).includes(text(operand));
+        case "startsWith":
+          return actual != null && text(actual).startsWith(text(operand));
+        case "endsWith":
+          return actual != null && text(actual).endsWith(text(operand));
+        case "has":
+          return Array.isArray(actual) && actual.includes(operand);
+        case "hasSome":
+          return (
+            Array.isArray(actual) &&
+            operand.some((value: unknown) => actual.includes(value))
+          );
+        case "hasEvery":
+          return (
+            Array.isArray(actual) &&
+            operand.every((value: unknown) => actual.includes(value))
+          );
+        case "isEmpty":
+          return Array.isArray(actual) && (actual.length === 0) === operand;
+        default:
+          throw invalid(`Unsupported filter \`${op}\` on \`${field.name}\``);
+      }
+    });
+  };
+
+  const matches = (model: ModelDef, row: Row, where?: Args): boolean => {
+    if (!where) return true;
+    return Object.entries<any>(where).every(([key, condition]) => {
+      if (condition === undefined) return true;
+      if (key === "AND") {
+        return toArray(condition).every((part) => matches(model, row, part));
+      }
+      if (key === "OR") {
+        return condition.some((part: Args) => matches(model, row, part));
+      }
+      if (key === "NOT") {
+        return toArray(condition).every((part) => !matches(model, row, part));
+      }
+      const compound = model.fields.has(key)
+        ? undefined
+        : model.uniques.get(key);
+      if (compound) return matches(model, row, condition);
+      const field = fieldOf(model, key);
+      if (field.kind !== "object") {
+        return matchScalar(field, row[key], condition);
+      }
+
+      const relation = relationOf(model, field);
+      const related = relatedRows(model, relation, row);
+      if (relation.many) {
+        return Object.entries<any>(condition).every(([op, part]) => {
+          if (op === "some") {
+            return related.some((other) =>
+              matches(relation.target, other, part),
+            );
+          }
+          if (op === "every") {
+            return related.every((other) =>
+              matches(relation.target, other, part),
+            );
+          }
+          if (op === "none") {
+            return !related.some((other) =>
+              matches(relation.target, other, part),
+            );
+          }
+          throw invalid(`Unsupported relation filter \`${op}\` on \`${key}\``);
+        });
+      }
+      const [other] = related;
+      if (condition === null) return !other;
+      if ("is" in condition || "isNot" in condition) {
+        if ("is" in condition) {
+          return condition.is === null
+            ? !other
+            : Boolean(other) && matches(relation.target, other!, condition.is);
+        }
+        return condition.isNot === null
+          ? Boolean(other)
+          : !other || !matches(relation.target, other, condition.isNot);
+      }
+      return Boolean(other) && matches(relation.target, other!, condition);
+    });
+  };
+
+  // The unique key a findUnique/update/delete `where` has to name
+  const assertUniqueWhere = (model: ModelDef, where: Args | undefined) => {
+    const keys = Object.keys(where ?? {}).filter(
+      (key) => where![key] !== undefined,
+    );
+    const named = [...model.uniques.entries()].some(([name, fields]) =>
+      fields.length === 1
+        ? keys.includes(name) && !isObject(where![name])
+        : keys.includes(name),
+    );
+    if (!named) {
+      throw invalid(
+        `\`where\` on ${model.name} needs one of its unique keys: ${[
+          ...model.uniques.keys(),
+        ].join(", ")}`,
+      );
+    }
+  };
+
+  // Ordering
+
+  const orderValue = (
+    model: ModelDef,
+    row: Row | undefined,
+    order: Args,
+  ): { value: unknown; direction: string; nulls?: string } => {
+    const [key, spec] = Object.entries<any>(order)[0]!;
+    const field = fieldOf(model, key);
+    if (field.kind === "object") {
+      const relation = relationOf(model, field);
+      if (relation.many)
+        throw invalid(`Ordering by \`${key}\` is not supported`);
+      const [other] = row ? relatedRows(model, relation, row) : [];
+      return orderValue(relation.target, other, spec);
+    }
+    const direction = typeof spec === "string" ? spec : spec.sort;
+    return {
+      value: row?.[key],
+      direction,
+      nulls: typeof spec === "string" ? undefined : spec.nulls,
+    };
+  };
+
+  const sortRows = (model: ModelDef, rows: Row[], orderBy?: Args | Args[]) => {
+    if (!orderBy) return rows;
+    const orders = toArray(orderBy).filter(
+      (order) => Object.keys(order).length > 0,
+    );
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        const left = orderValue(model, a, order);
+        const right = orderValue(model, b, order);
+        const descending = left.direction === "desc";
+        // PostgreSQL: NULLS LAST ascending, NULLS FIRST descending
+        const nullsFirst = left.nulls ? left.nulls === "first" : descending;
+        if (left.value == null || right.value == null) {
+          if (left.value == null && right.value == null) continue;
+          return (left.value == null) === nullsFirst ? -1 : 1;
+        }
+        const result = compare(left.value, right.value);
+        if (result !== 0) return descending ? -result : result;
+      }
+      return 0;
+    });
+  };
+
+  // The rows of a query, filtered, ordered and paged
+  const query = (
+    model: ModelDef,
+    args: Args = {},
+    source: Row[] = rowsOf(model),
+  ): Row[] => {
+    let rows = sortRows(
+      model,
+      source.filter((row) => matches(model, row, args.where)),
+      args.orderBy,
+    );
+    if (args.cursor) {
+      assertUniqueWhere(model, args.cursor);
+      const start = rows.findIndex((row) => matches(model, row, args.cursor));
+      rows = start === -1 ? [] : rows.slice(start);
+    }
+    if (args.distinct) {
+      const seen = new Set<string>();
+      const fields = toArray<string>(args.distinct);
+      rows = rows.filter((row) => {
+        const key = JSON.stringify(fields.map((name) => comparable(row[name])));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+    const skip = args.skip ?? 0;
+    if (args.take !== undefined && args.take < 0) {
+      return rows.slice(0, rows.length - skip).slice(args.take);
+    }
+    return rows.slice(
+      skip,
+      args.take === undefined ? undefined : skip + args.take,
+    );
+  };
+
+  // Results
+
+  const project = (model: ModelDef, row: Row, args: Args = {}): Row => {
+    if (args.select && args.include) {
+      throw invalid("Use either `select` or `include`, not both");
+    }
+    const result: Row = {};
+    const selection = args.select as Args | undefined;
+    for (const field of model.fields.values()) {
+      if (field.kind === "object" || field.kind === "unsupported") continue;
+      if (!selection || selection[field.name]) {
+        result[field.name] = clone(row[field.name]);
+      }
+    }
+    const nested = selection ?? args.include ?? {};
+    for (const [key, spec] of Object.entries<any>(nested)) {
+      if (!spec) continue;
+      if (key === "_count") {
+        const counted = spec === true ? undefined : (spec.select as Args);
+        const counts: Row = {};
+        for (const field of model.fields.values()) {
+          if (field.kind !== "object" || !field.list) continue;
+          if (counted && !counted[field.name]) continue;
+          const relation = relationOf(model, field);
+          const where = isObject(counted?.[field.name])
+            ? counted![field.name].where
+            : undefined;
+          counts[field.name] = relatedRows(model, relation, row).filter(
+            (other) => matches(relation.target, other, where),
+          ).length;
+        }
+        result._count = counts;
+        continue;
+      }
+      const field = fieldOf(model, key);
+      if (field.kind !== "object") {
+        if (!selection) throw invalid(`\`${key}\` is not a relation`);
+        continue;
+      }
+      const relation = relationOf(model, field);
+      const related = relatedRows(model, relation, row);
+      const options: Args = spec === true ? {} : spec;
+      if (relation.many) {
+        result[key] = query(relation.target, options, related).map((other) =>
+          project(relation.target, other, options),
+        );
+      } else {
+        result[key] = related[0]
+          ? project(relation.target, related[0], options)
+          : null;
+      }
+    }
+    return result;
+  };
+
+  // Writes
+
+  const generate = (model: ModelDef, field: FieldDef): unknown => {
+    const fallback = field.default;
+    if (!fallback) return undefined;
+    if ("value" in fallback) return clone(fallback.value);
+    switch (fallback.fn) {
+      case "cuid": {
+        const next = (counters.get(model.name) ?? 0) + 1;
+        counters.set(model.name, next);
+        return `${model.delegate}_${String(next).padStart(4, "0")}`;
+      }
+      case "uuid":
+        return randomUUID();
+      case "now":
+        return now();
+      case "autoincrement": {
+        const next = (counters.get(model.name) ?? 0) + 1;
+        counters.set(model.name, next);
+        return next;
+      }
+    }
+  };
+
+  const withDefaults = (model: ModelDef, row: Row): Row => {
+    for (const field of model.fields.values()) {
+      if (field.kind === "object" || row[field.name] !== undefined) continue;
+      const value = field.isUpdatedAt ? now() : generate(model, field);
+      if (value !== undefined) row[field.name] = value;
+      else if (field.list) row[field.name] = [];
+      else if (field.optional) row[field.name] = null;
+    }
+    return row;
+  };
+
+  const scalarValue = (
+    model: ModelDef,
+    field: FieldDef,
+    value: unknown,
+    current?: unknown,
+  ): unknown => {
+    if (isObject(value) && field.type !== "Json") {
+      const [op, operand] = Object.entries<any>(value)[0]!;
+      switch (op) {
+        case "set":
+          return scalarValue(model, field, operand);
+        case "increment":
+          return (current as number) + operand;
+        case "decrement":
+          return (current as number) - operand;
+        case "multiply":
+          return (current as number) * operand;
+        case "divide":
+          return (current as number) / operand;
+        case "push":
+          return [...((current as unknown[]) ?? []), ...toArray(operand)];
+        default:
+          throw invalid(`Unknown operation \`${op}\` on \`${field.name}\``);
+      }
+    }
+    if (value === null) {
+      if (field.type === "Json") {
+        throw invalid(
+          `\`${model.name}.${field.name}\` is Json: use Prisma.JsonNull or Prisma.DbNull instead of null`,
+        );
+      }
+      if (!field.optional) {
+        throw invalid(`\`${model.name}.${field.name}\` must not be null`);
+      }
+      return null;
+    }
+    if (field.type === "DateTime" && !(value instanceof Date)) {
+      const date = new Date(value as string);
+      if (isNaN(date.getTime())) {
+        throw invalid(`Invalid date for \`${field.name}\`: ${String(value)}`);
+      }
+      return date;
+    }
+    if (field.kind === "enum") {
+      const values = schema.enums.get(field.type)!;
+      for (const item of toArray(value)) {
+        if (!values.includes(item as string)) {
+          throw invalid(
+            `Invalid value for \`${model.name}.${field.name}\`: ${String(item)}, expected one of ${values.join(", ")}`,
+          );
+        }
+      }
+    }
+    return clone(value);
+  };
+
+  const assertRequired = (model: ModelDef, row: Row) => {
+    for (const field of model.fields.values()) {
+      if (field.kind === "object" || field.kind === "unsupported") continue;
+      if (field.optional || field.list) continue;
+      if (row[field.name] == null) {
+        throw invalid(
+          `Argument \`${field.name}\` is missing for ${model.name}`,
+        );
+      }
+    }
+  };
+
+  // `self` is the stored row an update is replacing
+  const assertUnique = (
+    model: ModelDef,
+    row: Row,
+    pending: Row[] = [],
+    self?: Row,
+  ) => {
+    for (const [name, fields] of model.uniques) {
+      if (fields.some((key) => row[key] == null)) continue;
+      const clash = [...rowsOf(model), ...pending].some(
+        (other) =>
+          other !== self && fields.every((key) => same(other[key], row[key])),
+      );
+      if (clash) {
+        throw new InMemoryPrismaError(
+          `Unique constraint failed on the fields: (${fields.join(", ")})`,
+          "P2002",
+          { target: fields, modelName: model.name, constraint: name },
+        );
+      }
+    }
+  };
+
+  const assertForeignKeys = (model: ModelDef, row: Row) => {
+    for (const field of model.fields.values()) {
+      if (!field.relation) continue;
+      const { fields, references } = field.relation;
+      if (fields.some((key) => row[key] == null)) continue;
+      const target = schema.models.get(field.type)!;
+      const exists = rowsOf(target).some((other) =>
+        fields.every((key, i) => same(other[references[i]!], row[key])),
+      );
+      if (!exists) {
+        throw new InMemoryPrismaError(
+          `Foreign key constraint violated: ${model.name}.${fields.join(", ")}`,
+          "P2003",
+          { field_name: fields.join(", "), modelName: model.name },
+        );
+      }
+    }
+  };
+
+  const findUniqueRow = (model: ModelDef, where: Args) => {
+    assertUniqueWhere(model, where);
+    return rowsOf(model).find((row) => matches(model, row, where));
+  };
+
+  const notFound = (model: ModelDef, operation: string) =>
+    new InMemoryPrismaError(
+      `No ${model.name} record was found for ${operation}`,
+      "P2025",
+      { modelName: model.name },
+    );
+
+  const link = (model: ModelDef, relation: Relation, row: Row, other: Row) => {
+    if (relation.joinTable) {
+      const pair: [string, string] = ["", ""];
+      const side = joinSide(relation, model);
+      pair[side] = idOf(model, row);
+      pair[1 - side] = idOf(relation.target, other);
+      const table = (joins[relation.joinTable] ??= []);
+      if (!table.some(([a, b]) => a === pair[0] && b === pair[1])) {
+        table.push(pair);
+      }
+    } else if (relation.owned) {
+      relation.localKeys.forEach((key, i) => {
+        row[key] = other[relation.targetKeys[i]!];
+      });
+    } else {
+      relation.targetKeys.forEach((key, i) => {
+        other[key] = row[relation.localKeys[i]!];
+      });
+      touch(relation.target, other);
+    }
+  };
+
+  const unlink = (
+    model: ModelDef,
+    relation: Relation,
+    row: Row,
+    other: Row,
+  ) => {
+    if (relation.joinTable) {
+      const side = joinSide(relation, model);
+      joins[relation.joinTable] = (joins[relation.joinTable] ?? []).filter(
+        (pair) =>
+          pair[side] !== idOf(model, row) ||
+          pair[1 - side] !== idOf(relation.target, other),
+      );
+    } else if (relation.owned) {
+      relation.localKeys.forEach((key) => {
+        row[key] = null;
+      });
+    } else {
+      relation.targetKeys.forEach((key) => {
+        other[key] = scalarValue(
+          relation.target,
+          relation.target.fields.get(key)!,
+          null,
+        );
+      });
+    }
+  };
+
+  // Touch @updatedAt on a row changed through a relation write
+  function touch(model: ModelDef, row: Row) {
+    for (const field of model.fields.values()) {
+      if (field.isUpdatedAt) row[field.name] = now();
+    }
+  }
+
+  // Nested relation writes; `before` runs before the row is stored
+  const relationWrites = (
+    model: ModelDef,
+    data: Args,
+  ): {
+    before: Array<(row: Row) => void>;
+    after: Array<(row: Row) => void>;
+  } => {
+    const before: Array<(row: Row) => void> = [];
+    const after: Array<(row: Row) => void> = [];
+    for (const [key, spec] of Object.entries<any>(data)) {
+      const field = model.fields.get(key);
+      if (!field || field.kind !== "object" || spec === undefined) continue;
+      const relation = relationOf(model, field);
+      const target = relation.target;
+      const queue = relation.owned ? before : after;
+      for (const [op, operand] of Object.entries<any>(spec)) {
+        for (const item of op === "createMany"
+          ? toArray(operand.data)
+          : toArray(operand)) {
+          queue.push((row) => {
+            switch (op) {
+              case "create":
+              case "createMany":
+                if (relation.owned || relation.joinTable) {
+                  link(model, relation, row, createRow(target, item));
+                } else {
+                  const fk: Row = {};
+                  relation.targetKeys.forEach((name, i) => {
+                    fk[name] = row[relation.localKeys[i]!];
+                  });
+                  createRow(target, { ...item, ...fk });
+                }
+                return;
+              case "connect": {
+                const other = findUniqueRow(target, item);
+                if (!other) throw notFound(target, `connect on ${key}`);
+                link(model, relation, row, other);
+                return;
+              }
+              case "connectOrCreate": {
+                const other =
+                  findUniqueRow(target, item.where) ??
+                  createRow(target, item.create);
+                link(model, relation, row, other);
+                return;
+              }
+              case "disconnect": {
+                if (item === true) {
+                  relatedRows(model, relation, row).forEach((other) =>
+                    unlink(model, relation, row, other),
+                  );
+                  return;
+                }
+                const other = findUniqueRow(target, item);
+                if (other) unlink(model, relation, row, other);
+                return;
+              }
+              case "set":
+                relatedRows(model, relation, row).forEach((other) =>
+                  unlink(model, relation, row, other),
+                );
+                toArray(operand).forEach((where: Args) => {
+                  const other = findUniqueRow(target, where);
+                  if (!other) throw notFound(target, `set on ${key}`);
+                  link(model, relation, row, other);
+                });
+                return;
+              default:
+                throw invalid(
+                  `Unsupported nested write \`${op}\` on \`${key}\``,
+                );
+            }
+          });
+          if (op === "set") break;
+        }
+      }
+    }
+    return { before, after };
+  };
+
+  const assignScalars = (model: ModelDef, row: Row, data: Args) => {
+    for (const [key, value] of Object.entries<any>(data)) {
+      if (value === undefined) continue;
+      const field = fieldOf(model, key);
+      if (field.kind === "object") continue;
+      if (field.kind === "unsupported") {
+        throw invalid(`\`${key}\` can only be written with raw SQL`);
+      }
+      row[key] = scalarValue(model, field, value, row[key]);
+    }
+  };
+
+  function createRow(model: ModelDef, data: Args, pending?: Row[]): Row {
+    const row: Row = {};
+    assignScalars(model, row, data);
+    const { before, after } = relationWrites(model, data);
+    before.forEach((write) => write(row));
+    withDefaults(model, row);
+    assertRequired(model, row);
+    assertUnique(model, row, pending);
+    assertForeignKeys(model, row);
+    if (pending) {
+      pending.push(row);
+    } else {
+      rowsOf(model).push(row);
+    }
+    after.forEach((write) => write(row));
+    return row;
+  }
+
+  const updateRow = (model: ModelDef, row: Row, data: Args) => {
+    const next: Row = { ...row };
+    assignScalars(model, next, data);
+    const { before, after } = relationWrites(model, data);
+    before.forEach((write) => write(next));
+    for (const field of model.fields.values()) {
+      if (field.isUpdatedAt && data[field.name] === undefined) {
+        next[field.name] = now();
+      }
+    }
+    assertRequired(model, next);
+    assertUnique(model, next, [], row);
+    assertForeignKeys(model, next);
+    Object.assign(row, next);
+    after.forEach((write) => write(row));
+    return row;
+  };
+
+  const removeRow = (model: ModelDef, row: Row) => {
+    for (const other of schema.models.values()) {
+      for (const field of other.fields.values()) {
+        if (!field.relation || field.type !== model.name) continue;
+        const children = rowsOf(other).filter((child) =>
+          field.relation!.fields.every((key, i) =>
+            same(child[key], row[field.relation!.references[i]!]),
+          ),
+        );
+        if (children.length === 0) continue;
+        const required = field.relation.fields.some(
+          (key) => !other.fields.get(key)!.optional,
+        );
+        const action =
+          field.relation.onDelete ?? (required ? "Restrict" : "SetNull");
+        if (action === "Cascade") {
+          children.forEach((child) => removeRow(other, child));
+        } else if (action === "SetNull") {
+          children.forEach((child) =>
+            field.relation!.fields.forEach((key) => {
+              child[key] = null;
+            }),
+          );
+        } else {
+          throw new InMemoryPrismaError(
+            `Foreign key constraint violated: ${other.name}.${field.relation.fields.join(", ")}`,
+            "P2003",
+            { field_name: field.relation.fields.join(", ") },
+          );
+        }
+      }
+    }
+    for (const [table, pairs] of Object.entries(joins)) {
+      const names = table.split("_");
+      const side = names.indexOf(model.name);
+      if (side === -1) continue;
+      joins[table] = pairs.filter((pair) => pair[side] !== idOf(model, row));
+    }
+    const rows = rowsOf(model);
+    const index = rows.indexOf(row);
+    if (index !== -1) rows.splice(index, 1);
+  };
+
+  // Aggregates
+
+  const aggregateRows = (model: ModelDef, rows: Row[], args: Args): Row => {
+    const result: Row = {};
+    const numbers = (name: string) =>
+      rows
+        .map((row) => row[fieldOf(model, name).name])
+        .filter((value) => value != null);
+    if (args._count) {
+      result._count =
+        args._count === true
+          ? rows.length
+          : Object.fromEntries(
+              Object.keys(args._count).map((name) => [
+                name,
+                name === "_all" ? rows.length : numbers(name).length,
+              ]),
+            );
+    }
+    const reducers: Record<string, (values: any[]) => unknown> = {
+      _sum: (values) =>
+        values.length === 0 ? null : values.reduce((a, b) => a + b, 0),
+      _avg: (values) =>
+        values.length === 0
+          ? null
+          : values.reduce((a, b) => a + b, 0) / values.length,
+      _min: (values) =>
+        values.length === 0
+          ? null
+          : values.reduce((a, b) => (compare(a, b) <= 0 ? a : b)),
+      _max: (values) =>
+        values.length === 0
+          ? null
+          : values.reduce((a, b) => (compare(a, b) >= 0 ? a : b)),
+    };
+    for (const [key, reduce] of Object.entries(reducers)) {
+      if (!args[key]) continue;
+      result[key] = Object.fromEntries(
+        Object.keys(args[key]).map((name) => [name, reduce(numbers(name))]),
+      );
+    }
+    return result;
+  };
+
+  // Every write restores the tables when it fails, as a statement would
+  const atomically = <T>(write: () => T): T => {
+    const snapshot = { tables: clone(tables), joins: clone(joins) };
+    try {
+      return write();
+    } catch (error) {
+      restore(snapshot);
+      throw error;
+    }
+  };
+  // Restore in place, so the arrays handed out in `tables` stay live
+  const restore = (snapshot: {
+    tables: typeof tables;
+    joins: typeof joins;
+  }) => {
+    for (const [name, rows] of Object.entries(snapshot.tables)) {
+      tables[name]!.splice(0, tables[name]!.length, ...rows);
+    }
+    joins = snapshot.joins;
+  };
+
+  const delegate = (model: ModelDef) => {
+    const findFirst = async (args: Args = {}) => {
+      const [row] = query(model, { ...args, take: 1 });
+      return row ? project(model, row, args) : null;
+    };
+    const findUnique = async (args: Args) => {
+      const row = findUniqueRow(model, args.where);
+      return row ? project(model, row, args) : null;
+    };
+    const update = async (args: Args) =>
+      atomically(() => {
+        const row = findUniqueRow(model, args.where);
+        if (!row) throw notFound(model, "update");
+        return project(model, updateRow(model, row, args.data), args);
+      });
+    const create = async (args: Args) =>
+      atomically(() => project(model, createRow(model, args.data), args));
+
+    return {
+      findUnique,
+      findUniqueOrThrow: async (args: Args) => {
+        const row = await findUnique(args);
+        if (!row) throw notFound(model, "findUniqueOrThrow");
+        return row;
+      },
+      findFirst,
+      findFirstOrThrow: async (args: Args = {}) => {
+        const row = await findFirst(args);
+        if (!row) throw notFound(model, "findFirstOrThrow");
+        return row;
+      },
+      findMany: async (args: Args = {}) =>
+        query(model, args).map((row) => project(model, row, args)),
+      count: async (args: Args = {}) => {
+        const rows = query(model, args);
+        if (!isObject(args.select)) return rows.length;
+        return aggregateRows(model, rows, { _count: args.select })._count;
+      },
+      aggregate: async (args: Args = {}) =>
+        aggregateRows(model, query(model, args), args),
+      groupBy: async (args: Args) => {
+        if (args.having) throw invalid("`having` is not supported");
+        const by = toArray<string>(args.by);
+        const groups = new Map<string, Row[]>();
+        for (const row of query(model, { where: args.where })) {
+          const key = JSON.stringify(by.map((name) => comparable(row[name])));
+          groups.set(key, [...(groups.get(key) ?? []), row]);
+        }
+        const results = [...groups.values()].map((rows) => ({
+          ...Object.fromEntries(
+            by.map((name) => [name, clone(rows[0]![name])]),
+          ),
+          ...aggregateRows(model, rows, args),
+        }));
+        const skip = args.skip ?? 0;
+        return sortRows(model, results, args.orderBy).slice(
+          skip,
+          args.take === undefined ? undefined : skip + args.take,
+        );
+      },
+      create,
+      createMany: async (args: Args) =>
+        atomically(() => {
+          const pending: Row[] = [];
+          for (const data of toArray(args.data as Args | Args[])) {
+            for (const [key, value] of Object.entries(data)) {
+              if (
+                value !== undefined &&
+                fieldOf(model, key).kind === "object"
+              ) {
+                throw invalid(`createMany can't write the relation \`${key}\``);
+              }
+            }
+            try {
+              createRow(model, data, pending);
+            } catch (error) {
+              const duplicate =
+                error instanceof InMemoryPrismaError && error.code === "P2002";
+              if (!(duplicate && args.skipDuplicates)) throw error;
+            }
+          }
+          rowsOf(model).push(...pending);
+          return { count: pending.length };
+        }),
+      update,
+      updateMany: async (args: Args) =>
+        atomically(() => {
+          for (const [key, value] of Object.entries<any>(args.data)) {
+            if (value !== undefined && fieldOf(model, key).kind === "object") {
+              throw invalid(`updateMany can't write the relation \`${key}\``);
+            }
+          }
+          const rows = query(model, { where: args.where });
+          rows.forEach((row) => updateRow(model, row, args.data));
+          return { count: rows.length };
+        }),
+      upsert: async (args: Args) =>
+        atomically(() => {
+          const row = findUniqueRow(model, args.where);
+          return project(
+            model,
+            row
+              ? updateRow(model, row, args.update)
+              : createRow(model, args.create),
+            args,
+          );
+        }),
+      delete: async (args: Args) =>
+        atomically(() => {
+          const row = findUniqueRow(model, args.where);
+          if (!row) throw notFound(model, "delete");
+          const result = project(model, row, args);
+          removeRow(model, row);
+          return result;
+        }),
+      deleteMany: async (args: Args = {}) =>
+        atomically(() => {
+          const rows = query(model, { where: args.where });
+          rows.forEach((row) => removeRow(model, row));
+          return { count: rows.length };
+        }),
+    };
+  };
+
+  const prisma: Row = {
+    $connect: async () => undefined,
+    $disconnect: async () => undefined,
+    $transaction: async (work: any) => {
+      if (Array.isArray(work)) return Promise.all(work);
+      const snapshot = { tables: clone(tables), joins: clone(joins) };
+      try {
+        return await work(prisma);
+      } catch (error) {
+        restore(snapshot);
+        throw error;
+      }
+    },
+    $queryRaw: async () => {
+      throw new Error("Raw SQL is not supported by the in-memory client");
+    },
+    $executeRaw: async () => {
+      throw new Error("Raw SQL is not supported by the in-memory client");
+    },
+  };
+  for (const model of schema.models.values()) {
+    prisma[model.delegate] = delegate(model);
+  }
+  prisma.$queryRawUnsafe = prisma.$queryRaw;
+  prisma.$executeRawUnsafe = prisma.$executeRaw;
+
+  const seed = (name: string, rows: Row | Row[]) => {
+    const model = byDelegate.get(name);
+    if (!model) throw new Error(`Unknown model ${name}`);
+    return toArray(rows).map((data) => {
+      const row = withDefaults(model, clone(data));
+      rowsOf(model).push(row);
+      return { ...row };
+    });
+  };
+
+  return { prisma, tables, seed };
+}
@@ -34,6 +34,7 @@ jest.mock("../utils/src/agentLogger", () => ({
 }));
 
 jest.mock("@neon/utils", () => ({
+  ...jest.requireActual("../utils/src/llm-pricing"),
   logger: mockLogger,
   agentLogger: mockLogger,
 }));
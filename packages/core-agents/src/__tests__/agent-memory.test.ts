@@ -22,6 +22,7 @@ const mockPrismaClient = {
     create: jest.fn(),
     findMany: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     deleteMany: jest.fn(),
   },
   $queryRaw: jest.fn(),
@@ -110,6 +111,7 @@ describe("AgentMemoryStore", () => {
 
       expect(mockPrismaClient.agentMemory.create).toHaveBeenCalledWith({
         data: {
+          workspaceId: "default",
           agentId: "content-agent",
           sessionId: "session-123",
           userId: "user-456",
@@ -167,7 +169,7 @@ describe("AgentMemoryStore", () => {
       const result = await memoryStore.getMemories();
 
       expect(mockPrismaClient.agentMemory.findMany).toHaveBeenCalledWith({
-        where: {},
+        where: { workspaceId: "default" },
         orderBy: { timestamp: "desc" },
         take: 50,
         skip: 0,
@@ -190,6 +192,7 @@ describe("AgentMemoryStore", () => {
 
       expect(mockPrismaClient.agentMemory.findMany).toHaveBeenCalledWith({
         where: {
+          workspaceId: "default",
           agentId: "content-agent",
           success: true,
           timestamp: {
@@ -293,6 +296,7 @@ describe("AgentMemoryStore", () => {
 
       expect(mockPrismaClient.agentMemory.deleteMany).toHaveBeenCalledWith({
         where: {
+          workspaceId: "default",
           timestamp: {
             lt: expect.any(Date),
           },
@@ -304,14 +308,14 @@ describe("AgentMemoryStore", () => {
 
   describe("updateMemoryScore", () => {
     test("should update memory score and metadata", async () => {
-      mockPrismaClient.agentMemory.update.mockResolvedValue({});
+      mockPrismaClient.agentMemory.updateMany.mockResolvedValue({ count: 1 });
 
       await memoryStore.updateMemoryScore("mem-123", 95, {
         feedback: "excellent",
       });
 
-      expect(mockPrismaClient.agentMemory.update).toHaveBeenCalledWith({
-        where: { id: "mem-123" },
+      expect(mockPrismaClient.agentMemory.updateMany).toHaveBeenCalledWith({
+        where: { id: "mem-123", workspaceId: "default" },
         data: {
           score: 95,
           metadata: { feedback: "excellent" },
@@ -319,6 +323,35 @@ describe("AgentMemoryStore", () => {
       });
     });
   });
+
+  describe("workspace isolation", () => {
+    test("should scope reads and writes to the bound workspace", async () => {
+      mockPrismaClient.agentMemory.create.mockResolvedValue(
+        generateMockMemoryEntry(),
+      );
+      mockPrismaClient.agentMemory.findMany.mockResolvedValue([]);
+      const workspaceStore = memoryStore.forWorkspace("ws-acme");
+
+      await workspaceStore.storeMemory(
+        "content-agent",
+        "session-123",
+        { task: "test task" },
+        { success: true },
+      );
+      await workspaceStore.getSessionMemory("session-123");
+      await workspaceStore.getAllAgentMetrics(7);
+
+      expect(workspaceStore.workspaceId).toBe("ws-acme");
+      expect(memoryStore.workspaceId).toBe("default");
+      expect(mockPrismaClient.agentMemory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ workspaceId: "ws-acme" }),
+      });
+      for (const [query] of mockPrismaClient.agentMemory.findMany.mock
+        .calls as any[]) {
+        expect(query.where.workspaceId).toBe("ws-acme");
+      }
+    });
+  });
 });
 
 describe("PerformanceTuner", () => {
@@ -0,0 +1,351 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+// The query semantics the services' unit tests rely on, as PostgreSQL
+// through Prisma would give them
+describe("in-memory Prisma client", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let prisma: any;
+
+  beforeEach(() => {
+    db = createInMemoryPrisma({
+      now: () => new Date("2026-03-02T09:00:00Z"),
+    });
+    prisma = db.prisma;
+    db.seed("workspace", [
+      { id: "default", name: "Default", slug: "default" },
+      { id: "ws_1", name: "One", slug: "one" },
+      { id: "ws_2", name: "Two", slug: "two" },
+    ]);
+    db.seed("user", [
+      { id: "user_1", email: "Ada@example.com" },
+      { id: "user_2", email: "grace@example.com" },
+    ]);
+  });
+
+  describe("writes", () => {
+    it("should apply schema defaults and @updatedAt", async () => {
+      const campaign = await prisma.campaign.create({
+        data: { name: "Launch", type: "SOCIAL_MEDIA", userId: "user_1" },
+      });
+
+      expect(campaign).toMatchObject({
+        workspaceId: "default",
+        status: "DRAFT",
+        description: null,
+        targetLanguages: ["ar", "en"],
+        requiredApproverIds: [],
+        roiTarget: 2,
+        createdAt: new Date("2026-03-02T09:00:00Z"),
+        updatedAt: new Date("2026-03-02T09:00:00Z"),
+      });
+      expect(campaign.id).toEqual(expect.any(String));
+    });
+
+    it("should reject missing required fields, unknown fields, bad enums and null Json", async () => {
+      await expect(
+        prisma.campaign.create({ data: { name: "No type", userId: "user_1" } }),
+      ).rejects.toThrow("Argument `type` is missing");
+      await expect(
+        prisma.workspace.create({
+          data: { name: "X", slug: "x", colour: "red" },
+        }),
+      ).rejects.toThrow("Unknown field `colour`");
+      await expect(
+        prisma.campaign.create({
+          data: { name: "X", type: "BILLBOARD", userId: "user_1" },
+        }),
+      ).rejects.toThrow("Invalid value for `Campaign.type`");
+      await expect(
+        prisma.campaign.create({
+          data: {
+            name: "X",
+            type: "EMAIL",
+            userId: "user_1",
+            metrics: null,
+          },
+        }),
+      ).rejects.toThrow("Prisma.JsonNull");
+    });
+
+    it("should enforce unique keys, foreign keys and missing records", async () => {
+      await expect(
+        prisma.user.create({ data: { email: "Ada@example.com" } }),
+      ).rejects.toMatchObject({ code: "P2002" });
+      await expect(
+        prisma.workspaceMember.create({
+          data: { workspaceId: "ws_missing", userId: "user_1" },
+        }),
+      ).rejects.toMatchObject({ code: "P2003" });
+      await expect(
+        prisma.user.update({
+          where: { id: "user_9" },
+          data: { name: "Nobody" },
+        }),
+      ).rejects.toMatchObject({ code: "P2025" });
+      expect(db.tables.workspaceMember).toHaveLength(0);
+    });
+
+    it("should upsert through compound unique keys and apply number operations", async () => {
+      const key = {
+        workspaceId_userId: { workspaceId: "ws_1", userId: "user_1" },
+      };
+      await prisma.workspaceMember.upsert({
+        where: key,
+        create: { workspaceId: "ws_1", userId: "user_1", role: "ADMIN" },
+        update: { role: "MANAGER" },
+      });
+      await prisma.workspaceMember.upsert({
+        where: key,
+        create: { workspaceId: "ws_1", userId: "user_1", role: "ADMIN" },
+        update: { role: "MANAGER" },
+      });
+
+      expect(db.tables.workspaceMember).toEqual([
+        expect.objectContaining({ role: "MANAGER" }),
+      ]);
+      await expect(
+        prisma.workspaceMember.findUnique({ where: { workspaceId: "ws_1" } }),
+      ).rejects.toThrow("needs one of its unique keys");
+
+      const ticket = await prisma.supportTicket.create({
+        data: {
+          ticketId: "T-1",
+          customer: { email: "a@b.c" },
+          subject: "Help",
+          channel: "EMAIL",
+          messages: [],
+        },
+      });
+      await prisma.supportTicket.update({
+        where: { id: ticket.id },
+        data: { escalationLevel: { increment: 2 } },
+      });
+      expect(db.tables.supportTicket![0]!.escalationLevel).toBe(2);
+    });
+
+    it("should skip duplicates in createMany only when asked, atomically otherwise", async () => {
+      const rows = [
+        { email: "new@example.com" },
+        { email: "grace@example.com" },
+      ];
+
+      await expect(
+        prisma.user.createMany({ data: rows }),
+      ).rejects.toMatchObject({ code: "P2002" });
+      expect(db.tables.user).toHaveLength(2);
+      await expect(
+        prisma.user.createMany({ data: rows, skipDuplicates: true }),
+      ).resolves.toEqual({ count: 1 });
+    });
+
+    it("should cascade, set null or restrict deletes by the relation's onDelete", async () => {
+      await prisma.workspaceMember.create({
+        data: { workspaceId: "ws_1", userId: "user_1" },
+      });
+      await expect(
+        prisma.workspace.delete({ where: { id: "ws_1" } }),
+      ).rejects.toMatchObject({ code: "P2003" });
+
+      await prisma.user.delete({ where: { id: "user_1" } });
+      expect(db.tables.workspaceMember).toHaveLength(0);
+
+      const policy = await prisma.supportSlaPolicy.create({
+        data: {
+          workspaceId: "ws_1",
+          name: "Default",
+          firstResponseMinutes: 60,
+          resolutionMinutes: 600,
+        },
+      });
+      await prisma.supportTicket.create({
+        data: {
+          ticketId: "T-1",
+          customer: {},
+          subject: "Help",
+          channel: "CHAT",
+          messages: [],
+          slaPolicy: { connect: { id: policy.id } },
+        },
+      });
+      await prisma.supportSlaPolicy.delete({ where: { id: policy.id } });
+      expect(db.tables.supportTicket![0]!.slaPolicyId).toBeNull();
+    });
+
+    it("should roll back a failed interactive transaction", async () => {
+      await expect(
+        prisma.$transaction(async (tx: any) => {
+          await tx.user.create({ data: { email: "temp@example.com" } });
+          throw new Error("abort");
+        }),
+      ).rejects.toThrow("abort");
+      expect(db.tables.user).toHaveLength(2);
+    });
+  });
+
+  describe("queries", () => {
+    beforeEach(async () => {
+      for (const [name, budget, status] of [
+        ["Alpha", 100, "ACTIVE"],
+        ["beta", null, "DRAFT"],
+        ["Gamma", 300, "ACTIVE"],
+      ] as const) {
+        await prisma.campaign.create({
+          data: {
+            name,
+            budget,
+            status,
+            type: "EMAIL",
+            userId: name === "Gamma" ? "user_2" : "user_1",
+            workspaceId: "ws_1",
+          },
+        });
+      }
+    });
+
+    it("should treat null like SQL does", async () => {
+      const notHundred = await prisma.campaign.findMany({
+        where: { budget: { not: 100 } },
+      });
+      const missing = await prisma.campaign.findMany({
+        where: { budget: null },
+      });
+
+      expect(notHundred.map((c: any) => c.name)).toEqual(["Gamma"]);
+      expect(missing.map((c: any) => c.name)).toEqual(["beta"]);
+      expect(
+        await prisma.campaign.count({ where: { budget: { not: null } } }),
+      ).toBe(2);
+    });
+
+    it("should filter case-insensitively and combine OR/NOT", async () => {
+      const found = await prisma.campaign.findMany({
+        where: {
+          OR: [
+            { name: { equals: "ALPHA", mode: "insensitive" } },
+            { name: { contains: "ET", mode: "insensitive" } },
+          ],
+          NOT: { status: "DRAFT" },
+        },
+      });
+      const users = await prisma.user.findMany({
+        where: { email: { in: ["ada@example.com"], mode: "insensitive" } },
+      });
+
+      expect(found.map((c: any) => c.name)).toEqual(["Alpha"]);
+      expect(users.map((u: any) => u.id)).toEqual(["user_1"]);
+    });
+
+    it("should order nulls last ascending and first descending", async () => {
+      const ascending = await prisma.campaign.findMany({
+        orderBy: { budget: "asc" },
+      });
+      const descending = await prisma.campaign.findMany({
+        orderBy: [{ budget: "desc" }, { name: "asc" }],
+      });
+
+      expect(ascending.map((c: any) => c.name)).toEqual([
+        "Alpha",
+        "Gamma",
+        "beta",
+      ]);
+      expect(descending.map((c: any) => c.name)).toEqual([
+        "beta",
+        "Gamma",
+        "Alpha",
+      ]);
+    });
+
+    it("should page with cursor, skip and take after distinct", async () => {
+      const ordered = await prisma.campaign.findMany({
+        orderBy: { name: "asc" },
+      });
+      const page = await prisma.campaign.findMany({
+        orderBy: { name: "asc" },
+        cursor: { id: ordered[0].id },
+        skip: 1,
+        take: 1,
+      });
+      const owners = await prisma.campaign.findMany({
+        distinct: ["userId"],
+        orderBy: { name: "asc" },
+        select: { userId: true },
+      });
+
+      expect(page.map((c: any) => c.name)).toEqual(["Gamma"]);
+      expect(owners).toEqual([{ userId: "user_1" }, { userId: "user_2" }]);
+    });
+
+    it("should filter and select through relations", async () => {
+      await prisma.workspaceMember.create({
+        data: { workspaceId: "ws_1", userId: "user_2" },
+      });
+
+      const members = await prisma.user.findMany({
+        where: { workspaces: { some: { workspaceId: "ws_1" } } },
+        select: { id: true },
+      });
+      const campaigns = await prisma.campaign.findMany({
+        where: { user: { email: { startsWith: "grace" } } },
+        select: { name: true, user: { select: { email: true } } },
+      });
+      const counted = await prisma.user.findUnique({
+        where: { id: "user_1" },
+        include: { _count: { select: { campaigns: true } } },
+      });
+
+      expect(members).toEqual([{ id: "user_2" }]);
+      expect(campaigns).toEqual([
+        { name: "Gamma", user: { email: "grace@example.com" } },
+      ]);
+      expect(counted._count).toEqual({ campaigns: 2 });
+    });
+
+    it("should link implicit many-to-many relations", async () => {
+      const [campaign] = db.tables.campaign!;
+      await prisma.b2BLead.create({
+        data: {
+          email: "lead@example.com",
+          source: "manual",
+          campaigns: { connect: { id: campaign!.id } },
+        },
+      });
+
+      const leads = await prisma.b2BLead.findMany({
+        where: { campaigns: { some: { name: "Alpha" } } },
+        include: { campaigns: { select: { name: true } } },
+      });
+      expect(leads).toEqual([
+        expect.objectContaining({ campaigns: [{ name: "Alpha" }] }),
+      ]);
+    });
+
+    it("should group and aggregate", async () => {
+      const groups = await prisma.campaign.groupBy({
+        by: ["status"],
+        _count: { _all: true },
+        _sum: { budget: true },
+        orderBy: { status: "asc" },
+      });
+      const total = await prisma.campaign.aggregate({
+        where: { status: "DRAFT" },
+        _sum: { budget: true },
+      });
+
+      expect(groups).toEqual([
+        { status: "ACTIVE", _count: { _all: 2 }, _sum: { budget: 400 } },
+        { status: "DRAFT", _count: { _all: 1 }, _sum: { budget: null } },
+      ]);
+      expect(total).toEqual({ _sum: { budget: null } });
+    });
+
+    it("should hand out copies rather than stored rows", async () => {
+      const found = await prisma.campaign.findFirst({
+        where: { name: "Alpha" },
+      });
+      found.platforms.push("EMAIL");
+
+      expect(db.tables.campaign![0]!.platforms).toEqual([]);
+    });
+  });
+});
@@ -638,6 +638,7 @@ export class ABTunerAgent extends AbstractAgent {
         },
         createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
         startedAt: new Date(Date.now() - 20 * 60 * 60 * 1000),
+        allocationHistory: [],
       },
     ];
   }
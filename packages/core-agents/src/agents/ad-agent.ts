@@ -1,6 +1,6 @@
-import OpenAI from "openai";
 import { AbstractAgent } from "../base-agent";
 import type { AgentPayload, AgentResult } from "../base-agent";
+import { getLLMClient, type LLMClient } from "../llm";
 import type {
   AdOptimizationResult,
   BudgetAllocationResult,
@@ -91,7 +91,7 @@ export interface AudienceInsight {
 }
 
 export class AdAgent extends AbstractAgent {
-  private openai: OpenAI;
+  private llm: LLMClient;
   private platformConfigs: Map<string, any> = new Map();
   private optimizationHistory: Map<string, any[]> = new Map();
 
@@ -109,13 +109,11 @@ export class AdAgent extends AbstractAgent {
       "competitor_analysis",
     ]);
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.llm = getLLMClient();
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!this.llm.isAvailable()) {
       logger.warn(
-        "OPENAI_API_KEY not found. AdAgent will run in limited mode.",
+        "No LLM provider available. AdAgent will run in limited mode.",
         {},
         "AdAgent",
       );
@@ -216,7 +214,7 @@ export class AdAgent extends AbstractAgent {
   private async optimizeBudgetAllocation(
     context: AdOptimizationContext,
   ): Promise<BudgetOptimizationResult> {
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.fallbackBudgetOptimization(context);
     }
 
@@ -253,14 +251,14 @@ Provide optimal budget reallocation with:
 Format as detailed analysis with specific dollar amounts and percentages.
 `;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [{ role: "user", content: prompt }],
         temperature: 0.3,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      const aiInsights = response.choices[0]?.message?.content || "";
+      const aiInsights = response.content || "";
       const recommendations = await this.parseBudgetRecommendations(
         context,
         aiInsights,
@@ -454,7 +452,7 @@ Format as detailed analysis with specific dollar amounts and percentages.
   private async generatePerformanceInsights(
     context: AdOptimizationContext,
   ): Promise<AgentResult> {
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.fallbackInsights(context);
     }
 
@@ -498,14 +496,14 @@ Provide insights on:
 Be specific with actionable recommendations and expected improvements.
 `;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [{ role: "user", content: prompt }],
         temperature: 0.4,
-        max_tokens: 2500,
+        maxTokens: 2500,
       });
 
-      const insights = response.choices[0]?.message?.content || "";
+      const insights = response.content || "";
 
       return {
         success: true,
@@ -1,9 +1,8 @@
-import OpenAI from "openai";
 import { AbstractAgent } from "../base-agent";
 import type { AgentPayload, AgentResult } from "../base-agent";
 import type { AgentContext, ContentResult } from "../types";
 import { logger, BudgetTracker } from "@neon/utils";
-import { AgentType } from "@prisma/client";
+import { getLLMClient, type LLMClient } from "../llm";
 
 // Define local interfaces for content generation
 export interface ContentGenerationParams {
@@ -45,7 +44,7 @@ export interface ContentGenerationResult extends AgentResult {
 }
 
 export class ContentAgent extends AbstractAgent {
-  private openai: OpenAI;
+  private llm: LLMClient;
 
   constructor() {
     super("content-agent", "ContentAgent", "content", [
@@ -55,13 +54,11 @@ export class ContentAgent extends AbstractAgent {
       "generate_post",
     ]);
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.llm = getLLMClient();
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!this.llm.isAvailable()) {
       logger.warn(
-        "OPENAI_API_KEY not found. ContentAgent will run in limited mode.",
+        "No LLM provider available. ContentAgent will run in limited mode.",
         {},
         "ContentAgent",
       );
@@ -88,25 +85,22 @@ export class ContentAgent extends AbstractAgent {
       }
 
       // Generate content based on type
-      const result = await this.generateContent(
-        context,
-        payload.context?.campaignId,
-      );
+      const result = await this.generateContent(context);
 
       return result;
     });
   }
 
+  // Provider usage of the LLM calls is billed by the agent run
   private async generateContent(
     context: ContentGenerationContext,
-    campaignId?: string,
   ): Promise<ContentGenerationResult> {
-    // Try OpenAI first, fallback to template-based if unavailable
+    // Try the LLM provider first, fallback to template-based if unavailable
     let content: string;
     let tokensUsed = 0;
 
-    if (this.openai && process.env.OPENAI_API_KEY) {
-      const result = await this.generateAIContent(context, campaignId);
+    if (this.llm.isAvailable()) {
+      const result = await this.generateAIContent(context);
       content = result.content;
       tokensUsed = result.tokensUsed;
     } else {
@@ -123,23 +117,6 @@ export class ContentAgent extends AbstractAgent {
       ? this.calculateSEOScore(content, context.keywords)
       : undefined;
 
-    // Track cost for content generation
-    await BudgetTracker.trackCost({
-      agentType: AgentType.CONTENT,
-      campaignId,
-      tokens: tokensUsed,
-      task: `generate_${context.type}`,
-      metadata: {
-        topic: context.topic,
-        audience: context.audience,
-        tone: context.tone,
-        platform: context.platform,
-        contentLength: content.length,
-      },
-      conversionAchieved: true,
-      qualityScore: seoScore ? seoScore / 100 : 0.8,
-    });
-
     return {
       content,
       suggestedTitle: this.generateTitle(context),
@@ -153,14 +130,13 @@ export class ContentAgent extends AbstractAgent {
 
   private async generateAIContent(
     context: ContentGenerationContext,
-    campaignId?: string,
   ): Promise<{ content: string; tokensUsed: number }> {
     try {
       const prompt = this.buildContentPrompt(context);
       const maxTokens = this.getMaxTokensForType(context.type);
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -173,42 +149,23 @@ export class ContentAgent extends AbstractAgent {
           },
         ],
         temperature: 0.7,
-        max_tokens: maxTokens,
+        maxTokens,
       });
 
-      const aiContent = response.choices[0]?.message?.content;
-      if (!aiContent) {
-        throw new Error("No response from OpenAI");
-      }
-
-      // Get actual token usage from OpenAI response
-      const tokensUsed = response.usage?.total_tokens || maxTokens;
+      // Get actual token usage from the provider response
+      const tokensUsed = response.usage.totalTokens || maxTokens;
 
       return {
-        content: aiContent,
+        content: response.content,
         tokensUsed,
       };
     } catch (error) {
       logger.error(
-        "OpenAI content generation failed, using template fallback",
+        "LLM content generation failed, using template fallback",
         { error },
         "ContentAgent",
       );
 
-      // Track failed AI call
-      await BudgetTracker.trackCost({
-        agentType: AgentType.CONTENT,
-        campaignId,
-        tokens: 100, // Estimate for failed call
-        task: `generate_${context.type}_failed`,
-        metadata: {
-          error: error instanceof Error ? error.message : "Unknown error",
-          fallback: true,
-        },
-        conversionAchieved: false,
-        qualityScore: 0,
-      });
-
       return {
         content: await this.createContentTemplate(context),
         tokensUsed: 50, // Estimate for template generation
@@ -1,6 +1,6 @@
-import OpenAI from "openai";
 import { AbstractAgent } from "../base-agent";
 import type { AgentPayload, AgentResult } from "../base-agent";
+import { getLLMClient, type LLMClient } from "../llm";
 import type {
   DesignAsset,
   BrandGuidelines,
@@ -156,7 +156,7 @@ export interface UIUXAnalysisResult extends AgentResult {
 }
 
 export class DesignAgent extends AbstractAgent {
-  private openai: OpenAI;
+  private llm: LLMClient;
   private designTemplates: Map<string, any> = new Map();
   private brandGuidelinesCache: Map<string, BrandGuidelines> = new Map();
   private assetOptimizers: Map<string, Function> = new Map();
@@ -176,16 +176,14 @@ export class DesignAgent extends AbstractAgent {
       "create_interactive_prototype",
     ]);
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.llm = getLLMClient();
 
     // Configure AI image generation (DALL-E, Midjourney, or Stable Diffusion)
     this.aiImageApiEndpoint = process.env.AI_IMAGE_API_ENDPOINT;
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!this.llm.isAvailable()) {
       logger.warn(
-        "OPENAI_API_KEY not found. DesignAgent will run in limited mode.",
+        "No LLM provider available. DesignAgent will run in limited mode.",
         {},
         "DesignAgent",
       );
@@ -473,7 +471,7 @@ export class DesignAgent extends AbstractAgent {
   private async createDesignVariations(
     context: AssetGenerationContext,
   ): Promise<DesignVariationResult> {
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.fallbackVariations(context);
     }
 
@@ -502,14 +500,14 @@ For each variation, provide:
 Return structured variation concepts with reasoning.
 `;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [{ role: "user", content: prompt }],
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      const aiSuggestions = response.choices[0]?.message?.content || "";
+      const aiSuggestions = response.content || "";
       const variations = await this.parseVariationSuggestions(
         aiSuggestions,
         context,
@@ -14,6 +14,9 @@ import {
   type ABTestInput,
 } from "./email-agent";
 
+// Agents create their memory store on construction; keep it off the database
+jest.mock("../memory/AgentMemoryStore");
+
 // Mock OpenAI
 jest.mock("openai", () => {
   return {
@@ -260,6 +263,28 @@ describe("EmailMarketingAgent", () => {
       expect(result.personalizationScore).toBeGreaterThan(0);
       expect(result.appliedPersonalizations).toHaveLength(1);
     });
+
+    it("should fill merge tags from user traits in the fallback", async () => {
+      mockOpenAI.chat.completions.create.mockRejectedValue(
+        new Error("API Error"),
+      );
+
+      const result = await agent.personalize({
+        baseEmail:
+          "Hi {{lead.firstName}}, {{lead.company}} gets {{custom.plan}} & more",
+        userTraits: { name: "Jane Doe", company: "StartupCorp", plan: "Pro" },
+      });
+
+      expect(result.personalizedContent).toBe(
+        "Hi Jane, StartupCorp gets Pro & more",
+      );
+      expect(result.appliedPersonalizations.map(({ field }) => field)).toEqual([
+        "greeting",
+        "lead.firstName",
+        "lead.company",
+        "custom.plan",
+      ]);
+    });
   });
 
   describe("Performance analysis", () => {
@@ -644,15 +669,150 @@ describe("EmailMarketingAgent", () => {
         priority: "high",
       });
 
-      expect(sendResult.success).toBe(true);
+      // Campaigns can only send approved content
+      expect(sendResult.success).toBe(false);
+      expect(sendResult.error).toContain("Only approved content");
 
+      const list = jest.fn(async () => []);
+      Object.assign(agent as any, { emailTemplates: { list } });
       const templateResult = await agent.execute({
         task: "manage_templates",
-        context: { action: "list" },
+        context: { action: "list", workspaceId: "ws-1" },
         priority: "low",
       });
 
       expect(templateResult.success).toBe(true);
+      expect(list).toHaveBeenCalledWith("ws-1");
+    });
+  });
+
+  describe("Campaign sending", () => {
+    it("should skip suppressed recipients and add unsubscribe links", async () => {
+      process.env.EMAIL_UNSUBSCRIBE_SECRET = "test-secret";
+      const markPublished = jest.fn(async () => undefined);
+      const filterSuppressed = jest.fn(async () => ({
+        allowed: ["ada@example.com"],
+        suppressed: ["bounced@example.com"],
+      }));
+      const testAgent = new EmailMarketingAgent();
+      Object.assign(testAgent as any, {
+        contentWorkflow: {
+          assertPublishable: async () => ({
+            content: { id: "content_1", workspaceId: "ws-1" },
+            revision: { body: { subject: "Hello" } },
+            text: "Hi there",
+          }),
+          markPublished,
+        },
+        deliveries: { filterSuppressed },
+      });
+      const sendEmail = jest
+        .spyOn(testAgent, "sendEmail")
+        .mockResolvedValue({ success: true });
+
+      const result = await testAgent.execute({
+        task: "send_campaign",
+        context: {
+          contentId: "content_1",
+          workspaceId: "ws-1",
+          recipients: {
+            emails: [
+              "ada@example.com",
+              "bounced@example.com",
+              "excluded@example.com",
+            ],
+            excludeList: ["Excluded@example.com"],
+          },
+        },
+        priority: "high",
+      });
+
+      expect(result.success).toBe(true);
+      expect((result.data as any).suppressed).toEqual(["bounced@example.com"]);
+      expect(filterSuppressed).toHaveBeenCalledWith("ws-1", [
+        "ada@example.com",
+        "bounced@example.com",
+        "excluded@example.com",
+      ]);
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      const sent = sendEmail.mock.calls[0]![0];
+      expect(sent.to).toBe("ada@example.com");
+      expect(sent.workspaceId).toBe("ws-1");
+      expect(sent.content).toMatch(/Unsubscribe: http.*token=/);
+      expect(sent.headers?.["List-Unsubscribe-Post"]).toBe(
+        "List-Unsubscribe=One-Click",
+      );
+      expect(sent.customArgs).toEqual({ workspace_id: "ws-1" });
+    });
+
+    it("should only mark content published once an email went out", async () => {
+      const markPublished = jest.fn(async () => undefined);
+      const testAgent = new EmailMarketingAgent();
+      Object.assign(testAgent as any, {
+        unsubscribeLinks: { enabled: false },
+        contentWorkflow: {
+          assertPublishable: async () => ({
+            content: { id: "content_1", workspaceId: "ws-1" },
+            revision: { body: { subject: "Hello" } },
+            text: "Hi there",
+          }),
+          markPublished,
+        },
+        deliveries: {
+          filterSuppressed: async () => ({ allowed: [], suppressed: [] }),
+        },
+      });
+      const sendEmail = jest.spyOn(testAgent, "sendEmail").mockResolvedValue({
+        success: false,
+        recipient: "ada@example.com",
+        error: "Sender not verified",
+      });
+      const campaign = {
+        task: "send_campaign",
+        context: {
+          contentId: "content_1",
+          workspaceId: "ws-1",
+          recipients: { emails: ["ada@example.com", "grace@example.com"] },
+        },
+        priority: "high" as const,
+      };
+
+      const failed = await testAgent.execute(campaign);
+      expect(failed.success).toBe(false);
+      expect(failed.error).toContain("None of the 2 emails were sent");
+      expect(markPublished).not.toHaveBeenCalled();
+
+      sendEmail.mockResolvedValueOnce({ success: true });
+      const partial = await testAgent.execute(campaign);
+      expect(partial.success).toBe(true);
+      expect(partial.data).toMatchObject({
+        sent: 1,
+        failed: [
+          { recipient: "ada@example.com", error: "Sender not verified" },
+        ],
+      });
+      expect(markPublished).toHaveBeenCalledWith("content_1", "ws-1");
+    });
+
+    it("should fail instead of pretending to send without SendGrid credentials", async () => {
+      const env = { ...process.env };
+      process.env.EMAIL_TRANSPORT = "sendgrid";
+      delete process.env.SENDGRID_API_KEY;
+      try {
+        const result = await new EmailMarketingAgent().sendEmail({
+          workspaceId: "ws-1",
+          to: "ada@example.com",
+          subject: "Hello",
+          content: "Hi",
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.status).toBe("failed");
+        expect(result.code).toBe("NOT_CONFIGURED");
+        expect(result.error).toContain("SENDGRID_API_KEY");
+      } finally {
+        process.env = env;
+      }
     });
   });
 
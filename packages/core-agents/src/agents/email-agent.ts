@@ -1,7 +1,20 @@
 import { AbstractAgent } from "../base-agent";
 import type { AgentResult, AgentPayload } from "../base-agent";
-import OpenAI from "openai";
+import { getLLMClient, type LLMClient } from "../llm";
 import { logger } from "@neon/utils";
+import { ContentWorkflow } from "../content-approval";
+import {
+  EmailDeliveryTracker,
+  EmailTemplates,
+  EmailTransportError,
+  UnsubscribeLinks,
+  getEmailSender,
+  recipientFromTraits,
+  renderText,
+  templateReferences,
+  withUnsubscribeLink,
+} from "../email";
+import { SENDGRID_CUSTOM_ARGS } from "../metrics/sendgrid-event-receiver";
 import * as fs from "fs/promises";
 import * as path from "path";
 
@@ -206,47 +219,15 @@ export interface ABTestResult {
   recommendations: string[];
 }
 
-// SendGrid integration
-interface SendGridClient {
-  send: (data: {
-    to: string;
-    from: string;
-    subject: string;
-    text?: string;
-    html?: string;
-  }) => Promise<
-    [
-      {
-        statusCode: number;
-        headers: Record<string, string>;
-      },
-      {},
-    ]
-  >;
-}
-
-let sendGridClient: SendGridClient | null = null;
-
-// Initialize SendGrid client
-try {
-  if (process.env.SENDGRID_API_KEY) {
-    const sgMail = require("@sendgrid/mail");
-    sgMail.setApiKey(process.env.SENDGRID_API_KEY);
-    sendGridClient = sgMail;
-  }
-} catch (error) {
-  logger.warn(
-    "SendGrid not available, email will run in mock mode",
-    { error },
-    "EmailMarketingAgent",
-  );
-}
-
 export class EmailMarketingAgent extends AbstractAgent {
-  private openai: OpenAI;
-  private templates: Map<string, EmailTemplate> = new Map();
+  private llm: LLMClient;
   private sequences: Map<string, EmailSequence> = new Map();
   private activeTests: Map<string, ABTestResult> = new Map();
+  private contentWorkflow = new ContentWorkflow();
+  private deliveries = new EmailDeliveryTracker();
+  private unsubscribeLinks = new UnsubscribeLinks();
+  private sender = getEmailSender();
+  private emailTemplates = new EmailTemplates();
 
   constructor() {
     super("email-marketing-agent", "EmailMarketingAgent", "email", [
@@ -262,19 +243,15 @@ export class EmailMarketingAgent extends AbstractAgent {
       "create_newsletter",
     ]);
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.llm = getLLMClient();
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!this.llm.isAvailable()) {
       logger.warn(
-        "OPENAI_API_KEY not found. EmailMarketingAgent will run in limited mode.",
+        "No LLM provider available. EmailMarketingAgent will run in limited mode.",
         {},
         "EmailMarketingAgent",
       );
     }
-
-    this.initializeDefaultTemplates();
   }
 
   async execute(payload: AgentPayload): Promise<AgentResult> {
@@ -328,7 +305,7 @@ export class EmailMarketingAgent extends AbstractAgent {
       industry,
     } = input;
 
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.generateEmailSequenceFallback(input);
     }
 
@@ -343,8 +320,8 @@ export class EmailMarketingAgent extends AbstractAgent {
         industry,
       );
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -357,19 +334,19 @@ export class EmailMarketingAgent extends AbstractAgent {
           },
         ],
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      const aiOutput = response.choices[0]?.message?.content;
+      const aiOutput = response.content;
       if (!aiOutput) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
       return this.parseSequenceOutput(aiOutput, input);
     } catch (error) {
       await this.logAIFallback("email_sequence_generation", error);
       logger.error(
-        "OpenAI email sequence generation failed, using fallback",
+        "LLM email sequence generation failed, using fallback",
         { error },
         "EmailMarketingAgent",
       );
@@ -385,7 +362,7 @@ export class EmailMarketingAgent extends AbstractAgent {
   ): Promise<PersonalizationOutput> {
     const { baseEmail, userTraits, segmentData, businessContext } = input;
 
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.personalizeEmailFallback(input);
     }
 
@@ -397,8 +374,8 @@ export class EmailMarketingAgent extends AbstractAgent {
         businessContext,
       );
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -411,19 +388,19 @@ export class EmailMarketingAgent extends AbstractAgent {
           },
         ],
         temperature: 0.6,
-        max_tokens: 1500,
+        maxTokens: 1500,
       });
 
-      const aiOutput = response.choices[0]?.message?.content;
+      const aiOutput = response.content;
       if (!aiOutput) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
       return this.parsePersonalizationOutput(aiOutput, input);
     } catch (error) {
       await this.logAIFallback("email_personalization", error);
       logger.error(
-        "OpenAI email personalization failed, using fallback",
+        "LLM email personalization failed, using fallback",
         { error },
         "EmailMarketingAgent",
       );
@@ -439,15 +416,15 @@ export class EmailMarketingAgent extends AbstractAgent {
   ): Promise<PerformanceAnalysis> {
     const metrics = this.calculateEmailMetrics(data);
 
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.analyzePerformanceFallback(data, metrics);
     }
 
     try {
       const prompt = this.buildPerformanceAnalysisPrompt(data, metrics);
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -460,19 +437,19 @@ export class EmailMarketingAgent extends AbstractAgent {
           },
         ],
         temperature: 0.3,
-        max_tokens: 1200,
+        maxTokens: 1200,
       });
 
-      const aiOutput = response.choices[0]?.message?.content;
+      const aiOutput = response.content;
       if (!aiOutput) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
       return this.parsePerformanceAnalysis(aiOutput, data, metrics);
     } catch (error) {
       await this.logAIFallback("performance_analysis", error);
       logger.error(
-        "OpenAI performance analysis failed, using fallback",
+        "LLM performance analysis failed, using fallback",
         { error },
         "EmailMarketingAgent",
       );
@@ -832,11 +809,25 @@ Format as JSON with insights array and recommendations array.
     input: PersonalizationInput,
   ): PersonalizationOutput {
     const { baseEmail, userTraits } = input;
-    const firstName = userTraits.firstName || "there";
+    const recipient = recipientFromTraits(userTraits);
+    const firstName = renderText("{{lead.firstName}}", recipient) || "there";
+
+    // Fill the email's merge tags, if it has any, from the user's traits
+    let paths: string[] = [];
+    try {
+      paths = [
+        ...new Set(templateReferences(baseEmail).tags.map((tag) => tag.path)),
+      ];
+    } catch {
+      // Not a valid template; personalize the greeting only
+    }
+    const personalizedContent = (
+      paths.length > 0 ? renderText(baseEmail, recipient) : baseEmail
+    ).replace(/Hi there/g, `Hi ${firstName}`);
 
     return {
       personalizedSubject: `Hi ${firstName}! Your personalized update`,
-      personalizedContent: baseEmail.replace(/Hi there/g, `Hi ${firstName}`),
+      personalizedContent,
       personalizationScore: 65,
       appliedPersonalizations: [
         {
@@ -845,6 +836,12 @@ Format as JSON with insights array and recommendations array.
           originalValue: "Hi there",
           personalizedValue: `Hi ${firstName}`,
         },
+        ...paths.map((path) => ({
+          type: "Merge variable",
+          field: path,
+          originalValue: `{{${path}}}`,
+          personalizedValue: renderText(`{{${path}}}`, recipient),
+        })),
       ],
       recommendations: [
         "Add more behavioral personalization",
@@ -1020,97 +1017,171 @@ Format as JSON with insights array and recommendations array.
 
   // Additional features for complete email marketing platform
 
+  /**
+   * Send approved content to the recipients. Subject, text and HTML come
+   * from the approved revision when it has them; unapproved content throws
+   * ContentNotApprovedError. Suppressed and excluded addresses are skipped,
+   * and every email gets its own unsubscribe link when links are enabled.
+   * The content is only marked published once an email went out; failed
+   * sends are listed in the result, and a campaign that sent nothing throws.
+   */
   private async sendCampaign(context: any): Promise<any> {
-    const { recipients, subject, content, htmlContent } = context;
+    const { recipients, contentId, workspaceId } = context;
+    const { content, revision, text } =
+      await this.contentWorkflow.assertPublishable(contentId, workspaceId);
+    const body = (revision.body ?? {}) as Record<string, any>;
+    const subject = body.subject ?? context.subject;
+    const htmlContent = body.html ?? context.htmlContent;
+    // The API passes { emails: [...] }; agents pass recipient objects
+    const recipientList: any[] = Array.isArray(recipients)
+      ? recipients
+      : (recipients?.emails ?? []).map((email: string) => ({ email }));
+    const excluded = new Set<string>(
+      (recipients?.excludeList ?? []).map((email: string) =>
+        email.toLowerCase(),
+      ),
+    );
+    const { suppressed } = await this.deliveries.filterSuppressed(
+      content.workspaceId,
+      recipientList.map((recipient) => recipient.email),
+    );
+    const skipped = new Set(suppressed);
     const results = [];
 
-    for (const recipient of recipients) {
+    for (const recipient of recipientList) {
+      if (
+        skipped.has(recipient.email) ||
+        excluded.has(recipient.email.toLowerCase())
+      ) {
+        continue;
+      }
+
+      let message: { text: string; html?: string | undefined } = {
+        text,
+        html: htmlContent,
+      };
+      let headers: Record<string, string> | undefined;
+      if (this.unsubscribeLinks.enabled) {
+        const link = this.unsubscribeLinks.link(
+          content.workspaceId,
+          recipient.email,
+        );
+        message = withUnsubscribeLink(message, link);
+        headers = this.unsubscribeLinks.headers(link);
+      }
+
       const result = await this.sendEmail({
+        workspaceId: content.workspaceId,
         to: recipient.email,
+        from: context.settings?.fromEmail,
+        fromName: context.settings?.fromName,
+        replyTo: context.settings?.replyTo,
         subject,
-        content,
-        htmlContent,
+        content: message.text,
+        htmlContent: message.html,
         personalizations: recipient.personalizations || {},
+        headers,
+        customArgs: {
+          [SENDGRID_CUSTOM_ARGS.workspaceId]: content.workspaceId,
+          ...(context.emailCampaignId && {
+            [SENDGRID_CUSTOM_ARGS.emailCampaignId]: context.emailCampaignId,
+          }),
+          ...(content.campaignId && {
+            [SENDGRID_CUSTOM_ARGS.campaignId]: content.campaignId,
+          }),
+        },
       });
       results.push(result);
     }
 
+    const sent = results.filter((result) => result.success).length;
+    const failed = results
+      .filter((result) => !result.success)
+      .map(({ recipient, error, code }: any) => ({ recipient, error, code }));
+    if (sent === 0) {
+      throw new Error(
+        results.length === 0
+          ? "No recipients left to send to after suppressions and exclusions"
+          : `None of the ${results.length} emails were sent: ${failed[0]?.error}`,
+      );
+    }
+
+    await this.contentWorkflow.markPublished(content.id, content.workspaceId);
+
     return {
       success: true,
       campaignId: `campaign_${Date.now()}`,
       results,
-      message: "Campaign sent successfully",
+      sent,
+      failed,
+      suppressed,
+      message:
+        failed.length > 0
+          ? `Campaign sent to ${sent} of ${results.length} recipients`
+          : "Campaign sent successfully",
     };
   }
 
+  /**
+   * Send one email through the configured transport, as a sender identity
+   * of the workspace. Failures are logged and returned, never thrown.
+   */
   async sendEmail(data: {
+    workspaceId: string;
     to: string;
+    // Sender identity to send as; the workspace default otherwise
+    from?: string | undefined;
+    fromName?: string | undefined;
+    replyTo?: string | undefined;
     subject: string;
     content: string;
-    htmlContent?: string;
+    htmlContent?: string | undefined;
     personalizations?: Record<string, any>;
+    headers?: Record<string, string> | undefined;
+    // Returned with the provider's delivery events
+    customArgs?: Record<string, string>;
   }): Promise<any> {
     const logEntry = {
       timestamp: new Date().toISOString(),
+      workspaceId: data.workspaceId,
       recipient: data.to,
       subject: data.subject,
-      status: "pending",
-      service: "sendgrid",
     };
 
     try {
-      if (sendGridClient && process.env.SENDGRID_FROM_EMAIL) {
-        const emailData = {
-          to: data.to,
-          from: process.env.SENDGRID_FROM_EMAIL,
-          subject: data.subject,
-          text: data.content,
-          html: data.htmlContent || data.content.replace(/\n/g, "<br>"),
-        };
-
-        const [response] = await sendGridClient.send(emailData);
-
-        logEntry.status = "sent";
-        await this.logEmailEvent({
-          ...logEntry,
-          messageId: response.headers["x-message-id"] || "unknown",
-          sendgridStatus: response.statusCode,
-        });
-
-        return {
-          success: true,
-          messageId:
-            response.headers["x-message-id"] || `sendgrid_${Date.now()}`,
-          status: "sent",
-          recipient: data.to,
-          service: "sendgrid",
-          deliveryStatus: response.statusCode === 202 ? "accepted" : "unknown",
-        };
-      } else {
-        // Fallback mock mode
-        logEntry.status = "mock_sent";
-        logEntry.service = "mock";
+      const { messageId, transport } = await this.sender.send({
+        workspaceId: data.workspaceId,
+        to: data.to,
+        from: data.from,
+        fromName: data.fromName,
+        replyTo: data.replyTo,
+        subject: data.subject,
+        text: data.content,
+        html: data.htmlContent || data.content.replace(/\n/g, "<br>"),
+        headers: data.headers,
+        customArgs: data.customArgs,
+      });
 
-        await this.logEmailEvent({
-          ...logEntry,
-          messageId: `mock_${Date.now()}`,
-          note: "SendGrid credentials not configured, using mock mode",
-        });
+      await this.logEmailEvent({
+        ...logEntry,
+        status: "sent",
+        service: transport,
+        messageId,
+      });
 
-        return {
-          success: true,
-          messageId: `mock_email_${Date.now()}`,
-          status: "mock_sent",
-          recipient: data.to,
-          service: "mock",
-          deliveryStatus: "mock_delivered",
-        };
-      }
+      return {
+        success: true,
+        messageId,
+        status: "sent",
+        recipient: data.to,
+        service: transport,
+      };
     } catch (error) {
-      logEntry.status = "failed";
       await this.logEmailEvent({
         ...logEntry,
+        status: "failed",
         error: error instanceof Error ? error.message : String(error),
+        ...(error instanceof EmailTransportError && { code: error.code }),
       });
 
       return {
@@ -1119,7 +1190,7 @@ Format as JSON with insights array and recommendations array.
         status: "failed",
         recipient: data.to,
         error: error instanceof Error ? error.message : "Unknown error",
-        service: "sendgrid",
+        ...(error instanceof EmailTransportError && { code: error.code }),
       };
     }
   }
@@ -1169,9 +1240,62 @@ Format as JSON with insights array and recommendations array.
     }
   }
 
+  /**
+   * The workspace's MJML email templates: list, get, save, delete,
+   * preview and render
+   */
   private async manageTemplates(context: any): Promise<any> {
-    // Template management functionality
-    return { success: true, templates: Array.from(this.templates.values()) };
+    const { workspaceId, action = "list" } = context;
+    if (!workspaceId) {
+      throw new Error("Managing templates requires a workspaceId");
+    }
+
+    switch (action) {
+      case "list":
+        return {
+          success: true,
+          templates: await this.emailTemplates.list(workspaceId),
+        };
+      case "get":
+        return {
+          success: true,
+          template: await this.emailTemplates.get(
+            workspaceId,
+            context.templateId,
+          ),
+        };
+      case "save":
+        return {
+          success: true,
+          template: await this.emailTemplates.save({
+            ...context.template,
+            workspaceId,
+          }),
+        };
+      case "delete":
+        return {
+          success: await this.emailTemplates.remove(
+            workspaceId,
+            context.templateId,
+          ),
+        };
+      case "preview":
+        return {
+          success: true,
+          email: await this.emailTemplates.preview(workspaceId, context),
+        };
+      case "render":
+        return {
+          success: true,
+          email: await this.emailTemplates.render(
+            workspaceId,
+            context.templateId,
+            context.recipient ?? {},
+          ),
+        };
+      default:
+        throw new Error(`Unknown template action: ${action}`);
+    }
   }
 
   private async segmentAudience(context: any): Promise<any> {
@@ -1211,34 +1335,6 @@ Format as JSON with insights array and recommendations array.
     };
   }
 
-  private initializeDefaultTemplates(): void {
-    const defaultTemplates: EmailTemplate[] = [
-      {
-        id: "welcome_sequence_1",
-        name: "Welcome Email - Step 1",
-        subject: "Welcome to {{company_name}}, {{first_name}}!",
-        content:
-          "Hi {{first_name}},\n\nWelcome to {{company_name}}! We're excited to have you on board.",
-        variables: ["company_name", "first_name"],
-        type: "welcome",
-        tone: "friendly",
-      },
-      {
-        id: "newsletter_template",
-        name: "Monthly Newsletter",
-        subject: "{{company_name}} Monthly Update - {{month}} {{year}}",
-        content: "This month at {{company_name}}...",
-        variables: ["company_name", "month", "year"],
-        type: "newsletter",
-        tone: "professional",
-      },
-    ];
-
-    defaultTemplates.forEach((template) => {
-      this.templates.set(template.id, template);
-    });
-  }
-
   // Public API methods for tRPC integration
   async generateSequence(
     input: EmailSequenceInput,
@@ -1,6 +1,6 @@
-import OpenAI from "openai";
 import { AbstractAgent } from "../base-agent";
 import type { AgentPayload, AgentResult } from "../base-agent";
+import { getLLMClient, LLMClient } from "../llm";
 import type {
   AnalyticsData,
   PerformanceMetrics,
@@ -103,7 +103,7 @@ export interface PredictiveResult extends AgentResult {
 
 export class InsightAgent extends AbstractAgent {
   public name = "InsightAgent";
-  private openai: OpenAI;
+  private llm: LLMClient;
 
   constructor(apiKey?: string) {
     super("insight-agent", "InsightAgent", "insight", [
@@ -118,9 +118,10 @@ export class InsightAgent extends AbstractAgent {
       "customerJourney",
     ]);
 
-    this.openai = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY,
-    });
+    // An explicit API key gets a dedicated OpenAI-backed client
+    this.llm = apiKey
+      ? new LLMClient({ provider: "openai", apiKey })
+      : getLLMClient();
   }
 
   async execute(payload: AgentPayload): Promise<AgentResult> {
@@ -134,7 +135,9 @@ export class InsightAgent extends AbstractAgent {
             context as InsightAnalysisContext,
           );
         case "generateInsights":
-          return await this.generateInsights(context as InsightAnalysisContext);
+          return await this.withWorkspaceLLM(payload, () =>
+            this.generateInsights(context as InsightAnalysisContext),
+          );
         case "predictiveForecast":
           return await this.predictiveForecast(
             context as PredictiveAnalysisContext,
@@ -234,8 +237,8 @@ export class InsightAgent extends AbstractAgent {
         Include confidence scores and priority levels for each insight.
       `;
 
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const completion = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -245,10 +248,10 @@ export class InsightAgent extends AbstractAgent {
           { role: "user", content: prompt },
         ],
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      const aiInsights = completion.choices[0]?.message?.content || "";
+      const aiInsights = completion.content || "";
 
       const structuredInsights = await this.parseStrategicInsights(aiInsights);
       const recommendations = await this.extractRecommendations(aiInsights);
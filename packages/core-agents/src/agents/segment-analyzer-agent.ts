@@ -1,3 +1,4 @@
+import { db } from "@neon/data-model";
 import { AbstractAgent } from "../base-agent";
 import { AgentCapability } from "../types/agent-types";
 import { withLogging } from "../utils/logger";
@@ -125,7 +126,7 @@ export class SegmentAnalyzerAgent extends AbstractAgent {
     return {
       segmentId,
       name: this.generateSegmentName(segmentId, data.demographics),
-      size: this.estimateSegmentSize(data.demographics),
+      size: await this.segmentSize(segmentId),
       behaviorPatterns,
       performanceMetrics,
       insights,
@@ -291,9 +292,14 @@ export class SegmentAnalyzerAgent extends AbstractAgent {
     return `Segment ${segmentId.slice(0, 8)}`;
   }
 
-  private estimateSegmentSize(demographics: any): number {
-    // Mock segment size estimation
-    return Math.floor(Math.random() * 50000) + 5000;
+  // Members of the user segment, as kept by the segment engine; 0 for
+  // segments only seen in campaign patterns
+  private async segmentSize(segmentId: string): Promise<number> {
+    const segment = await db.userSegment.findUnique({
+      where: { id: segmentId },
+      select: { size: true },
+    });
+    return segment?.size ?? 0;
   }
 
   private async storeSegmentInsights(
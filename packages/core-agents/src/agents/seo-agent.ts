@@ -1,6 +1,6 @@
 import { AbstractAgent } from "../base-agent";
 import type { AgentResult, AgentPayload } from "../base-agent";
-import OpenAI from "openai";
+import { getLLMClient, type LLMClient } from "../llm";
 import { logger } from "@neon/utils";
 
 export interface SEOOptimizationContext {
@@ -105,7 +105,7 @@ export interface MetaTagsOutput {
 }
 
 export class SEOAgent extends AbstractAgent {
-  private openai: OpenAI;
+  private llm: LLMClient;
 
   constructor() {
     super("seo-agent", "SEOAgent", "seo", [
@@ -118,13 +118,11 @@ export class SEOAgent extends AbstractAgent {
       "audit_technical_seo",
     ]);
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.llm = getLLMClient();
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!this.llm.isAvailable()) {
       logger.warn(
-        "OPENAI_API_KEY not found. SEO Agent will run in limited mode.",
+        "No LLM provider available. SEO Agent will run in limited mode.",
         {},
         "SEOAgent",
       );
@@ -167,7 +165,7 @@ export class SEOAgent extends AbstractAgent {
   }
 
   /**
-   * Generate meta tags using OpenAI
+   * Generate meta tags using the configured LLM provider
    */
   async generateMetaTags(input: MetaTagsInput): Promise<MetaTagsOutput> {
     const {
@@ -179,7 +177,7 @@ export class SEOAgent extends AbstractAgent {
       contentType = "article",
     } = input;
 
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.generateMetaTagsFallback(input);
     }
 
@@ -193,8 +191,8 @@ export class SEOAgent extends AbstractAgent {
         contentType,
       );
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -207,18 +205,18 @@ export class SEOAgent extends AbstractAgent {
           },
         ],
         temperature: 0.7,
-        max_tokens: 800,
+        maxTokens: 800,
       });
 
-      const aiOutput = response.choices[0]?.message?.content;
+      const aiOutput = response.content;
       if (!aiOutput) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
       return this.parseMetaTagOutput(aiOutput, topic);
     } catch (error) {
       logger.error(
-        "OpenAI meta tags generation failed, using fallback",
+        "LLM meta tags generation failed, using fallback",
         { error },
         "SEOAgent",
       );
@@ -235,7 +233,7 @@ export class SEOAgent extends AbstractAgent {
   }): Promise<KeywordRecommendation[]> {
     const { topic, businessContext } = context;
 
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.generateKeywordRecommendationsFallback(topic);
     }
 
@@ -265,22 +263,22 @@ Format as JSON array with structure:
 Focus on a mix of head terms and long-tail keywords. Include variations and semantic keywords.
 `;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [{ role: "user", content: prompt }],
         temperature: 0.6,
-        max_tokens: 1500,
+        maxTokens: 1500,
       });
 
-      const aiOutput = response.choices[0]?.message?.content;
+      const aiOutput = response.content;
       if (!aiOutput) {
-        throw new Error("No keyword recommendations from OpenAI");
+        throw new Error("No keyword recommendations from LLM provider");
       }
 
       return this.parseKeywordRecommendations(aiOutput, topic);
     } catch (error) {
       logger.error(
-        "OpenAI keyword recommendations failed, using fallback",
+        "LLM keyword recommendations failed, using fallback",
         { error },
         "SEOAgent",
       );
@@ -398,7 +396,7 @@ Format as JSON:
   }
 
   /**
-   * Parse OpenAI output for meta tags
+   * Parse LLM output for meta tags
    */
   private parseMetaTagOutput(
     raw: string,
@@ -552,7 +550,7 @@ Format as JSON:
   private async optimizeContentWithAI(
     context: SEOOptimizationContext,
   ): Promise<string> {
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.optimizeContent(context);
     }
 
@@ -578,16 +576,14 @@ Optimize for:
 Return the optimized content maintaining the original structure and tone.
 `;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [{ role: "user", content: prompt }],
         temperature: 0.3,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      return (
-        response.choices[0]?.message?.content || this.optimizeContent(context)
-      );
+      return response.content || this.optimizeContent(context);
     } catch (error) {
       logger.error(
         "AI content optimization failed, using fallback",
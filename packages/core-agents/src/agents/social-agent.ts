@@ -1,6 +1,14 @@
 import { AbstractAgent, AgentPayload, AgentResult } from "../base-agent";
-import OpenAI from "openai";
+import { getLLMClient } from "../llm";
 import { logger } from "@neon/utils";
+import { ContentWorkflow } from "../content-approval";
+import {
+  addLocalTime,
+  isValidTimeZone,
+  SocialPublisher,
+  zonedTimeToUtc,
+} from "../connectors";
+import type { Platform } from "@neon/data-model";
 import * as fs from "fs/promises";
 import * as path from "path";
 
@@ -44,61 +52,26 @@ interface ContentCalendar {
   campaigns: string[];
 }
 
-// Meta API integration interface
-interface MetaApiClient {
-  post: (
-    url: string,
-    data: any,
-  ) => Promise<{
-    id: string;
-    status: string;
-    error?: string;
-  }>;
-}
-
-let metaApiClient: MetaApiClient | null = null;
-let openai: OpenAI | null = null;
-
-// Initialize Meta API client
-try {
-  if (process.env.FB_ACCESS_TOKEN && process.env.FACEBOOK_APP_ID) {
-    // Mock Meta API client - in production would use actual Facebook SDK
-    metaApiClient = {
-      post: async (url: string, data: any) => {
-        // Simulate API call
-        return {
-          id: `fb_post_${Date.now()}`,
-          status: "published",
-        };
-      },
-    };
-  }
-} catch (error) {
-  logger.warn(
-    "Meta API not available, social posting will run in mock mode",
-    { error },
-    "SocialAgent",
-  );
-}
-
-// Initialize OpenAI client
-try {
-  if (process.env.OPENAI_API_KEY) {
-    openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-} catch (error) {
-  logger.warn(
-    "OpenAI not available, content generation will use fallback methods",
-    { error },
-    "SocialAgent",
-  );
-}
+// Platform names used by the API and dashboard
+const PLATFORMS: Record<string, Platform> = {
+  facebook: "FACEBOOK",
+  instagram: "INSTAGRAM",
+  tiktok: "TIKTOK",
+  twitter: "TWITTER",
+  linkedin: "LINKEDIN",
+  youtube: "YOUTUBE",
+  email: "EMAIL",
+  website: "WEBSITE",
+  shopify: "SHOPIFY",
+  google_ads: "GOOGLE_ADS",
+  meta_ads: "META_ADS",
+};
 
 export class SocialAgent extends AbstractAgent {
   private connectedAccounts: Map<string, SocialAccount> = new Map();
   private hashtagGroups: Map<string, string[]> = new Map();
+  private contentWorkflow = new ContentWorkflow();
+  private publisher = new SocialPublisher();
 
   constructor(id: string, name: string) {
     super(id, name, "social", [
@@ -225,13 +198,14 @@ export class SocialAgent extends AbstractAgent {
     tone: string,
     targetAudience: string,
   ): Promise<string> {
-    // Use OpenAI for content generation if available
-    if (openai) {
+    // Use the LLM provider for content generation if available
+    const llm = getLLMClient();
+    if (llm.isAvailable()) {
       try {
         const prompt = `Create a ${tone} social media post about ${topic} for ${targetAudience} audience. Keep it engaging and authentic.`;
 
-        const response = await openai.chat.completions.create({
-          model: "gpt-4",
+        const response = await llm.chat({
+          agentType: this.type,
           messages: [
             {
               role: "system",
@@ -244,17 +218,17 @@ export class SocialAgent extends AbstractAgent {
             },
           ],
           temperature: 0.7,
-          max_tokens: 300,
+          maxTokens: 300,
         });
 
-        const aiContent = response.choices[0]?.message?.content;
+        const aiContent = response.content;
         if (aiContent) {
           return aiContent;
         }
       } catch (error) {
         await this.logAIFallback("content_generation", error);
         logger.error(
-          "OpenAI content generation failed, using fallback",
+          "LLM content generation failed, using fallback",
           { error },
           "SocialAgent",
         );
@@ -536,84 +510,118 @@ export class SocialAgent extends AbstractAgent {
     return practices[platform as keyof typeof practices] || practices.instagram;
   }
 
+  /**
+   * Schedule approved content on each platform. The stored posts carry the
+   * approved revision's text and version; the SocialScheduler publishes
+   * them when they are due. `localTime` is read in `timezone`.
+   */
   private async schedulePostInternal(context: any): Promise<any> {
     const {
       platforms,
-      content,
+      contentId,
+      workspaceId,
       mediaUrls = [],
       hashtags = [],
+      link,
+      accountId,
       scheduledTime,
+      localTime,
+      timezone = "UTC",
       crossPost = true,
     } = context;
 
     if (!platforms || platforms.length === 0) {
       throw new Error("At least one platform must be specified");
     }
-
-    // Validate connected accounts
-    const validPlatforms = platforms.filter((platform: string) => {
-      const account = this.connectedAccounts.get(platform);
-      return account && account.connected;
-    });
-
-    if (validPlatforms.length === 0) {
-      throw new Error("No connected accounts found for specified platforms");
+    const unknown = platforms.filter(
+      (platform: string) => !PLATFORMS[String(platform).toLowerCase()],
+    );
+    if (unknown.length > 0) {
+      throw new Error(`Unknown platforms: ${unknown.join(", ")}`);
+    }
+    if (!isValidTimeZone(timezone)) {
+      throw new Error(`Unknown time zone ${timezone}`);
     }
 
-    // Create posts for each platform
-    const scheduledPosts = validPlatforms.map((platform: string) => {
-      const optimizedContent = this.optimizeContentForPlatform(
-        content,
-        platform,
-      );
-      const platformHashtags = this.optimizeHashtagsForPlatform(
-        hashtags,
-        platform,
-      );
+    const scheduledAt = localTime
+      ? zonedTimeToUtc(localTime, timezone)
+      : scheduledTime
+        ? new Date(scheduledTime)
+        : new Date();
+    const { content, revision, text } =
+      await this.contentWorkflow.assertPublishable(contentId, workspaceId);
+    const body = (revision.body ?? {}) as { hashtags?: string[] };
 
-      const post: SocialPost = {
-        id: `post_${Date.now()}_${platform}`,
-        platform: platform as any,
-        content: optimizedContent,
-        mediaUrls,
-        hashtags: platformHashtags,
-        scheduledTime: scheduledTime ? new Date(scheduledTime) : new Date(),
+    const scheduledPosts: any[] = [];
+    for (const platform of platforms) {
+      const schedule = await this.publisher.schedule({
+        workspaceId: content.workspaceId,
+        platform: PLATFORMS[String(platform).toLowerCase()]!,
+        contentId: content.id,
+        contentVersion: revision.version,
+        accountId,
+        timezone,
+        scheduledAt,
+        post: {
+          text,
+          title: content.title,
+          mediaUrls,
+          hashtags: this.optimizeHashtagsForPlatform(
+            body.hashtags ?? hashtags,
+            platform,
+          ),
+          link,
+        },
+      });
+      scheduledPosts.push({
+        id: schedule.id,
+        platform,
+        content: text,
+        scheduledTime: schedule.scheduledAt,
+        timezone,
         status: "scheduled",
-      };
-
-      return post;
-    });
+        estimatedReach: this.estimateReach(platform),
+        estimatedEngagement: this.estimateEngagement(platform),
+        optimalPostTime: this.getOptimalPostTime(platform),
+        platformSpecificTips: this.getPlatformTips(platform),
+      });
+    }
 
-    // Simulate scheduling
-    const results = scheduledPosts.map((post) => ({
-      ...post,
-      estimatedReach: this.estimateReach(post.platform),
-      estimatedEngagement: this.estimateEngagement(post.platform),
-      optimalPostTime: this.getOptimalPostTime(post.platform),
-      platformSpecificTips: this.getPlatformTips(post.platform),
-    }));
+    if (content.status === "APPROVED") {
+      await this.contentWorkflow.schedule(
+        content.id,
+        scheduledAt,
+        content.workspaceId,
+      );
+    }
 
     return {
-      scheduledPosts: results,
-      totalPlatforms: validPlatforms.length,
-      estimatedTotalReach: results.reduce(
+      scheduledPosts,
+      totalPlatforms: scheduledPosts.length,
+      estimatedTotalReach: scheduledPosts.reduce(
         (sum: number, post: any) => sum + post.estimatedReach,
         0,
       ),
-      campaignId: `social_campaign_${Date.now()}`,
+      contentId: content.id,
       recommendations: [
         "Consider adding video content for higher engagement",
         "Post during peak hours for each platform",
         "Use platform-specific hashtags for better reach",
       ],
       metadata: {
-        scheduledAt: new Date().toISOString(),
+        scheduledAt: scheduledAt.toISOString(),
+        timezone,
         agentId: this.id,
         crossPosted: crossPost,
       },
     };
   }
 
+  /**
+   * Schedule a series of approved posts at a fixed frequency. A local
+   * `startDate` is read in `timezone`, and later posts keep its time of
+   * day across daylight saving changes.
+   */
   private async bulkSchedule(context: any): Promise<any> {
     const {
       posts,
@@ -621,11 +629,21 @@ export class SocialAgent extends AbstractAgent {
       startDate,
       frequency = "daily",
       timezone = "UTC",
+      workspaceId,
+      accountId,
     } = context;
 
     if (!posts || posts.length === 0) {
       throw new Error("No posts provided for bulk scheduling");
     }
+    if (!isValidTimeZone(timezone)) {
+      throw new Error(`Unknown time zone ${timezone}`);
+    }
+
+    // Check every post before storing any, so a batch is all or nothing
+    for (const post of posts) {
+      await this.contentWorkflow.assertPublishable(post.contentId, workspaceId);
+    }
 
     // Calculate posting schedule
     const schedule = this.generatePostingSchedule(
@@ -635,25 +653,28 @@ export class SocialAgent extends AbstractAgent {
       timezone,
     );
 
-    // Create scheduled posts
-    const scheduledPosts = schedule
-      .map((scheduleItem, index) => {
-        const post = posts[index % posts.length];
-        return platforms.map((platform: string) => ({
-          id: `bulk_post_${Date.now()}_${index}_${platform}`,
-          platform,
-          content: this.optimizeContentForPlatform(post.content, platform),
-          mediaUrls: post.mediaUrls || [],
-          hashtags: this.optimizeHashtagsForPlatform(
-            post.hashtags || [],
-            platform,
-          ),
-          scheduledTime: scheduleItem.scheduledTime,
-          status: "scheduled",
-          batchId: `bulk_${Date.now()}`,
-        }));
-      })
-      .flat();
+    const batchId = `bulk_${Date.now()}`;
+    const scheduledPosts: any[] = [];
+    for (const scheduleItem of schedule) {
+      const post = posts[scheduleItem.index];
+      const result = await this.schedulePostInternal({
+        platforms,
+        contentId: post.contentId,
+        workspaceId,
+        accountId,
+        mediaUrls: post.mediaUrls || [],
+        hashtags: post.hashtags || [],
+        link: post.link,
+        scheduledTime: scheduleItem.scheduledTime,
+        timezone,
+      });
+      scheduledPosts.push(
+        ...result.scheduledPosts.map((scheduled: any) => ({
+          ...scheduled,
+          batchId,
+        })),
+      );
+    }
 
     const totalPosts = scheduledPosts.length;
     const estimatedReach = scheduledPosts.reduce(
@@ -662,7 +683,7 @@ export class SocialAgent extends AbstractAgent {
     );
 
     return {
-      bulkScheduleId: `bulk_${Date.now()}`,
+      bulkScheduleId: batchId,
       totalPosts,
       platformBreakdown: platforms.map((platform: string) => ({
         platform,
@@ -1324,20 +1345,23 @@ export class SocialAgent extends AbstractAgent {
     timezone: string,
   ): any[] {
     const schedule = [];
-    const start = new Date(startDate);
+    // Dates without an offset are wall-clock times in the schedule's zone
+    const start = /(Z|[+-]\d{2}:?\d{2})$/i.test(startDate)
+      ? new Date(startDate)
+      : zonedTimeToUtc(startDate, timezone);
 
     for (let i = 0; i < posts.length; i++) {
-      const scheduledTime = new Date(start);
+      let scheduledTime = start;
 
       switch (frequency) {
         case "daily":
-          scheduledTime.setDate(start.getDate() + i);
+          scheduledTime = addLocalTime(start, i, "days", timezone);
           break;
         case "weekly":
-          scheduledTime.setDate(start.getDate() + i * 7);
+          scheduledTime = addLocalTime(start, i * 7, "days", timezone);
           break;
         case "monthly":
-          scheduledTime.setMonth(start.getMonth() + i);
+          scheduledTime = addLocalTime(start, i, "months", timezone);
           break;
       }
 
@@ -1791,137 +1815,101 @@ export class SocialAgent extends AbstractAgent {
   }
 
   // Public API methods for tRPC compatibility
+  /**
+   * Schedule approved content; unapproved content throws
+   * ContentNotApprovedError before anything is stored
+   */
   async schedulePost(input: any): Promise<any> {
+    await this.contentWorkflow.assertPublishable(
+      input.contentId,
+      input.workspaceId,
+    );
     return await this.execute({
       task: "schedule_post",
       context: {
         platforms: [input.platform],
-        content: input.content.text,
-        mediaUrls: input.content.media?.map((m: any) => m.url) || [],
-        hashtags: input.content.hashtags || [],
+        contentId: input.contentId,
+        workspaceId: input.workspaceId,
+        accountId: input.accountId,
+        mediaUrls: input.content?.media?.map((m: any) => m.url) || [],
+        hashtags: input.content?.hashtags || [],
+        link: input.content?.link,
         scheduledTime: input.scheduling?.scheduledAt,
+        localTime: input.scheduling?.localTime,
+        timezone: input.scheduling?.timezone,
       },
       priority: "high",
     });
   }
 
+  /**
+   * Publish approved content through the platform's connector. The text
+   * posted is the approved revision's, not whatever the caller passes;
+   * unapproved content throws ContentNotApprovedError. The attempt is
+   * recorded as a SocialSchedule row with the post id or the error.
+   */
   async publishPost(input: any): Promise<any> {
-    const { platform, postId, content, mediaUrls = [] } = input;
-
-    if (platform === "facebook") {
-      return this.postToFacebook(content, mediaUrls);
-    } else if (platform === "instagram") {
-      return this.postToInstagram(content, mediaUrls);
-    } else if (platform === "twitter") {
-      return this.postToTwitter(content, mediaUrls);
-    }
-
-    return {
-      success: false,
-      error: `Publishing to ${platform} not implemented`,
-    };
-  }
-
-  private async postToFacebook(
-    content: string,
-    mediaUrls: string[] = [],
-  ): Promise<any> {
-    const logEntry = {
-      timestamp: new Date().toISOString(),
-      platform: "facebook",
-      content: content.substring(0, 100),
-      status: "pending",
-      service: "meta_api",
-    };
-
-    try {
-      if (metaApiClient && process.env.FB_ACCESS_TOKEN) {
-        const postData = {
-          message: content,
-          ...(mediaUrls.length > 0 && { media: mediaUrls }),
-          access_token: process.env.FB_ACCESS_TOKEN,
-        };
-
-        const result = await metaApiClient.post("/me/feed", postData);
-
-        logEntry.status = "published";
-        await this.logSocialEvent({
-          ...logEntry,
-          postId: result.id,
-          metaStatus: result.status,
-        });
-
-        return {
-          success: true,
-          postId: result.id,
-          status: "published",
-          platform: "facebook",
-          service: "meta_api",
-          url: `https://facebook.com/posts/${result.id}`,
-        };
-      } else {
-        // Fallback mock mode
-        logEntry.status = "mock_published";
-        logEntry.service = "mock";
-
-        await this.logSocialEvent({
-          ...logEntry,
-          postId: `mock_fb_${Date.now()}`,
-          note: "Meta API credentials not configured, using mock mode",
-        });
-
-        return {
-          success: true,
-          postId: `mock_fb_${Date.now()}`,
-          status: "mock_published",
-          platform: "facebook",
-          service: "mock",
-          url: "https://facebook.com/mock",
-        };
-      }
-    } catch (error) {
-      logEntry.status = "failed";
-      await this.logSocialEvent({
-        ...logEntry,
-        error: error instanceof Error ? error.message : String(error),
-      });
-
+    const { contentId, workspaceId } = input;
+    const platform = PLATFORMS[String(input.platform).toLowerCase()];
+    if (!platform) {
       return {
         success: false,
-        postId: null,
         status: "failed",
-        platform: "facebook",
-        error: error instanceof Error ? error.message : "Unknown error",
-        service: "meta_api",
+        platform: input.platform,
+        error: `Unknown platform ${input.platform}`,
       };
     }
-  }
 
-  private async postToInstagram(
-    content: string,
-    mediaUrls: string[] = [],
-  ): Promise<any> {
-    // Similar implementation for Instagram
-    return {
-      success: true,
-      postId: `mock_ig_${Date.now()}`,
-      status: "mock_published",
-      platform: "instagram",
-      service: "mock",
-    };
-  }
+    const { content, revision, text } =
+      await this.contentWorkflow.assertPublishable(contentId, workspaceId);
+    const body = (revision.body ?? {}) as { hashtags?: string[] };
+    const mediaUrls: string[] =
+      input.content?.media?.map((media: { url: string }) => media.url) ??
+      input.mediaUrls ??
+      [];
 
-  private async postToTwitter(
-    content: string,
-    mediaUrls: string[] = [],
-  ): Promise<any> {
-    // Similar implementation for Twitter
+    const schedule = await this.publisher.publishNow({
+      workspaceId: content.workspaceId,
+      platform,
+      contentId: content.id,
+      post: {
+        text,
+        title: content.title,
+        mediaUrls,
+        hashtags: body.hashtags ?? input.content?.hashtags,
+        link: input.content?.link,
+        options: input.options,
+      },
+    });
+    const success = schedule.status === "PUBLISHED";
+    // Transient failures stay scheduled and are retried by the scheduler
+    const status = success
+      ? "published"
+      : schedule.status === "SCHEDULED"
+        ? "retrying"
+        : "failed";
+
+    await this.logSocialEvent({
+      timestamp: new Date().toISOString(),
+      platform,
+      content: text.substring(0, 100),
+      status,
+      postId: schedule.externalPostId,
+      scheduleId: schedule.id,
+      ...(schedule.publishError && { error: schedule.publishError }),
+    });
+
+    if (success) {
+      await this.contentWorkflow.markPublished(content.id, content.workspaceId);
+    }
     return {
-      success: true,
-      postId: `mock_tw_${Date.now()}`,
-      status: "mock_published",
-      platform: "twitter",
-      service: "mock",
+      success,
+      postId: schedule.externalPostId,
+      scheduleId: schedule.id,
+      status,
+      platform: input.platform,
+      url: schedule.postUrl,
+      ...(schedule.publishError && { error: schedule.publishError }),
     };
   }
 
@@ -1,10 +1,24 @@
 import { AbstractAgent } from "../base-agent";
 import type { AgentResult, AgentPayload } from "../base-agent";
-import OpenAI from "openai";
+import { getLLMClient, type LLMClient } from "../llm";
+import {
+  DEFAULT_WORKSPACE_ID,
+  type SupportChannel,
+  type SupportPriority,
+  type SupportStatus,
+  type SupportTicket as PersistedSupportTicket,
+} from "@neon/data-model";
 import { logger } from "@neon/utils";
 import { sendWhatsAppWithFallback, sendSMSWithFallback } from "@neon/utils";
 import * as fs from "fs/promises";
 import * as path from "path";
+import {
+  KnowledgeBase,
+  KnowledgeBaseError,
+  SlaError,
+  SupportSla,
+  type KnowledgeMatch,
+} from "../support";
 
 // Core interfaces for customer support
 export interface MessageClassificationInput {
@@ -86,6 +100,18 @@ export interface ReplyGenerationInput {
     includeLinks?: boolean;
     escalationAvailable?: boolean;
   };
+  // Knowledge base searched for sources; the default workspace otherwise
+  workspaceId?: string;
+}
+
+// A knowledge base article a reply was grounded in, numbered as in the reply
+export interface KnowledgeCitation {
+  index: number;
+  articleId: string;
+  title: string;
+  url: string | null;
+  excerpt: string;
+  score: number;
 }
 
 export interface ReplyGenerationOutput {
@@ -106,6 +132,7 @@ export interface ReplyGenerationOutput {
     url?: string;
     description?: string;
   }>;
+  citations: KnowledgeCitation[];
 }
 
 export interface SentimentAnalysisInput {
@@ -201,19 +228,6 @@ export interface WhatsAppMessage {
   };
 }
 
-export interface KnowledgeBaseArticle {
-  id: string;
-  title: string;
-  content: string;
-  category: string;
-  tags: string[];
-  views: number;
-  helpful: number;
-  lastUpdated: Date;
-  author: string;
-  status: "draft" | "published" | "archived";
-}
-
 // Add Twilio import
 interface TwilioClient {
   messages: {
@@ -246,9 +260,10 @@ try {
 }
 
 export class CustomerSupportAgent extends AbstractAgent {
-  private openai: OpenAI;
+  private llm: LLMClient;
   private tickets: Map<string, SupportTicket> = new Map();
-  private knowledgeBase: Map<string, KnowledgeBaseArticle> = new Map();
+  private knowledgeBase = new KnowledgeBase();
+  private sla = new SupportSla();
 
   constructor() {
     super("customer-support-agent", "CustomerSupportAgent", "support", [
@@ -266,24 +281,22 @@ export class CustomerSupportAgent extends AbstractAgent {
       "manage_queue",
     ]);
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.llm = getLLMClient();
 
-    if (!process.env.OPENAI_API_KEY) {
+    if (!this.llm.isAvailable()) {
       logger.warn(
-        "OPENAI_API_KEY not found. CustomerSupportAgent will run in limited mode.",
+        "No LLM provider available. CustomerSupportAgent will run in limited mode.",
         {},
         "CustomerSupportAgent",
       );
     }
-
-    this.initializeKnowledgeBase();
   }
 
   async execute(payload: AgentPayload): Promise<AgentResult> {
     return this.executeWithErrorHandling(payload, async () => {
       const { task, context } = payload;
+      // Knowledge base tasks read and write the run's workspace
+      const workspaceId = this.getWorkspaceId(payload);
 
       switch (task) {
         case "classify_message":
@@ -291,7 +304,10 @@ export class CustomerSupportAgent extends AbstractAgent {
             context as MessageClassificationInput,
           );
         case "generate_reply":
-          return await this.generateReplyAI(context as ReplyGenerationInput);
+          return await this.generateReplyAI({
+            ...(context as ReplyGenerationInput),
+            workspaceId,
+          });
         case "analyze_sentiment":
           return await this.analyzeSentimentAI(
             context as SentimentAnalysisInput,
@@ -299,15 +315,15 @@ export class CustomerSupportAgent extends AbstractAgent {
         case "escalate_ticket":
           return await this.escalateTicket(context as EscalationInput);
         case "create_ticket":
-          return await this.createTicket(context);
+          return await this.createTicket({ ...context, workspaceId });
         case "update_ticket":
-          return await this.updateTicket(context);
+          return await this.updateTicket({ ...context, workspaceId });
         case "send_whatsapp_message":
           return await this.sendWhatsAppMessage(context as WhatsAppMessage);
         case "auto_respond":
-          return await this.autoRespond(context);
+          return await this.autoRespond({ ...context, workspaceId });
         case "manage_knowledge_base":
-          return await this.manageKnowledgeBase(context);
+          return await this.manageKnowledgeBase({ ...context, workspaceId });
         case "generate_summary":
           return await this.generateTicketSummary(context);
         case "track_satisfaction":
@@ -328,15 +344,15 @@ export class CustomerSupportAgent extends AbstractAgent {
   ): Promise<MessageClassificationOutput> {
     const { text, customer, context } = input;
 
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.classifyMessageFallback(input);
     }
 
     try {
       const prompt = this.buildClassificationPrompt(text, customer, context);
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -349,19 +365,19 @@ export class CustomerSupportAgent extends AbstractAgent {
           },
         ],
         temperature: 0.3,
-        max_tokens: 1000,
+        maxTokens: 1000,
       });
 
-      const aiOutput = response.choices[0]?.message?.content;
+      const aiOutput = response.content;
       if (!aiOutput) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
       return this.parseClassificationOutput(aiOutput, input);
     } catch (error) {
       await this.logAIFallback("message_classification", error);
       logger.error(
-        "OpenAI message classification failed, using fallback",
+        "LLM message classification failed, using fallback",
         { error },
         "CustomerSupportAgent",
       );
@@ -377,9 +393,14 @@ export class CustomerSupportAgent extends AbstractAgent {
   ): Promise<ReplyGenerationOutput> {
     const { message, classification, tone, customer, context, constraints } =
       input;
+    const workspaceId = input.workspaceId ?? DEFAULT_WORKSPACE_ID;
+    const sources = await this.findSources(workspaceId, message);
 
-    if (!this.openai) {
-      return this.generateReplyFallback(input);
+    if (!this.llm.isAvailable()) {
+      return this.citeSources(
+        workspaceId,
+        this.generateReplyFallback(input, sources),
+      );
     }
 
     try {
@@ -390,10 +411,11 @@ export class CustomerSupportAgent extends AbstractAgent {
         customer,
         context,
         constraints,
+        sources,
       );
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -406,23 +428,29 @@ export class CustomerSupportAgent extends AbstractAgent {
           },
         ],
         temperature: 0.7,
-        max_tokens: 1500,
+        maxTokens: 1500,
       });
 
-      const aiOutput = response.choices[0]?.message?.content;
+      const aiOutput = response.content;
       if (!aiOutput) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
-      return this.parseReplyOutput(aiOutput, input);
+      return this.citeSources(
+        workspaceId,
+        this.parseReplyOutput(aiOutput, input, sources),
+      );
     } catch (error) {
       await this.logAIFallback("reply_generation", error);
       logger.error(
-        "OpenAI reply generation failed, using fallback",
+        "LLM reply generation failed, using fallback",
         { error },
         "CustomerSupportAgent",
       );
-      return this.generateReplyFallback(input);
+      return this.citeSources(
+        workspaceId,
+        this.generateReplyFallback(input, sources),
+      );
     }
   }
 
@@ -434,15 +462,15 @@ export class CustomerSupportAgent extends AbstractAgent {
   ): Promise<SentimentAnalysisOutput> {
     const { message, context } = input;
 
-    if (!this.openai) {
+    if (!this.llm.isAvailable()) {
       return this.analyzeSentimentFallback(input);
     }
 
     try {
       const prompt = this.buildSentimentPrompt(message, context);
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await this.llm.chat({
+        agentType: this.type,
         messages: [
           {
             role: "system",
@@ -455,19 +483,19 @@ export class CustomerSupportAgent extends AbstractAgent {
           },
         ],
         temperature: 0.2,
-        max_tokens: 800,
+        maxTokens: 800,
       });
 
-      const aiOutput = response.choices[0]?.message?.content;
+      const aiOutput = response.content;
       if (!aiOutput) {
-        throw new Error("No response from OpenAI");
+        throw new Error("No response from LLM provider");
       }
 
       return this.parseSentimentOutput(aiOutput, input);
     } catch (error) {
       await this.logAIFallback("sentiment_analysis", error);
       logger.error(
-        "OpenAI sentiment analysis failed, using fallback",
+        "LLM sentiment analysis failed, using fallback",
         { error },
         "CustomerSupportAgent",
       );
@@ -580,7 +608,15 @@ Consider:
     customer?: any,
     context?: any,
     constraints?: any,
+    sources: KnowledgeMatch[] = [],
   ): string {
+    const knowledge = sources.length
+      ? `
+Knowledge base excerpts:
+${sources.map((source, i) => `[${i + 1}] ${source.title}\n${source.excerpt.slice(0, 800)}`).join("\n\n")}
+`
+      : "";
+
     return `
 Generate a customer support reply for this message:
 
@@ -590,7 +626,7 @@ Requested Tone: ${tone || "professional"}
 Customer Info: ${customer ? JSON.stringify(customer, null, 2) : "Not provided"}
 Context: ${context ? JSON.stringify(context, null, 2) : "Not provided"}
 Constraints: ${constraints ? JSON.stringify(constraints, null, 2) : "None"}
-
+${knowledge}
 Generate a helpful response and return as JSON:
 {
   "reply": "Your complete response message",
@@ -610,6 +646,7 @@ Guidelines:
 - Maintain professional but warm tone
 - Address the customer by name if available
 - Acknowledge their frustration if applicable
+- Base answers on the knowledge base excerpts when they apply, citing them as [1], [2]; don't make up policies they don't state
 `;
   }
 
@@ -675,22 +712,31 @@ Consider:
   private parseReplyOutput(
     aiOutput: string,
     input: ReplyGenerationInput,
+    sources: KnowledgeMatch[] = [],
   ): ReplyGenerationOutput {
     try {
       const jsonMatch = aiOutput.match(/\{[\s\S]*\}/);
       if (jsonMatch) {
         const parsed = JSON.parse(jsonMatch[0]);
+        const reply: string =
+          parsed.reply ||
+          "Thank you for contacting us. We'll help you resolve this issue.";
+        // Only the excerpts the reply refers to are cited
+        const citations = this.toCitations(sources).filter(({ index }) =>
+          reply.includes(`[${index}]`),
+        );
         return {
-          reply:
-            parsed.reply ||
-            "Thank you for contacting us. We'll help you resolve this issue.",
+          reply,
           tone: parsed.tone || input.tone || "professional",
           confidence: parsed.confidence || 0.7,
           suggestedFollowUps: parsed.suggestedFollowUps || [],
           escalationRecommended: parsed.escalationRecommended || false,
           estimatedResolutionTime: parsed.estimatedResolutionTime || 60,
           requiredActions: parsed.requiredActions || [],
-          relatedResources: parsed.relatedResources || [],
+          relatedResources: parsed.relatedResources?.length
+            ? parsed.relatedResources
+            : this.toResources(citations),
+          citations,
         };
       }
     } catch (error) {
@@ -701,7 +747,7 @@ Consider:
       );
     }
 
-    return this.generateReplyFallback(input);
+    return this.generateReplyFallback(input, sources);
   }
 
   private parseSentimentOutput(
@@ -795,12 +841,18 @@ Consider:
 
   private generateReplyFallback(
     input: ReplyGenerationInput,
+    sources: KnowledgeMatch[] = [],
   ): ReplyGenerationOutput {
     const { customer, tone = "professional" } = input;
     const customerName = customer?.name || "there";
+    // Point to the closest article while the team reviews the message
+    const citations = this.toCitations(sources).slice(0, 1);
+    const suggestion = citations[0]
+      ? `In the meantime, this article may help: ${citations[0].title}${citations[0].url ? ` (${citations[0].url})` : ""} [1]\n\n`
+      : "";
 
     return {
-      reply: `Hi ${customerName},\n\nThank you for reaching out to us. We've received your message and our team is reviewing it. We'll get back to you shortly with a solution.\n\nBest regards,\nCustomer Support Team`,
+      reply: `Hi ${customerName},\n\nThank you for reaching out to us. We've received your message and our team is reviewing it. We'll get back to you shortly with a solution.\n\n${suggestion}Best regards,\nCustomer Support Team`,
       tone,
       confidence: 0.5,
       suggestedFollowUps: [
@@ -810,7 +862,8 @@ Consider:
       escalationRecommended: false,
       estimatedResolutionTime: 120,
       requiredActions: [],
-      relatedResources: [],
+      relatedResources: this.toResources(citations),
+      citations,
     };
   }
 
@@ -1084,12 +1137,41 @@ Consider:
     // Auto-classify the message
     const classification = await this.classifyMessage({ text: input.message });
 
+    // Stored with the deadlines of the matching SLA policy
+    let sla: { firstResponseDueAt: Date | null; resolutionDueAt: Date | null } =
+      { firstResponseDueAt: null, resolutionDueAt: null };
+    try {
+      const stored = await this.sla.openTicket(
+        input.workspaceId ?? DEFAULT_WORKSPACE_ID,
+        {
+          ticketId,
+          customer: input.customer ?? {},
+          subject: input.subject,
+          message: input.message,
+          channel: input.channel.toUpperCase() as SupportChannel,
+          priority: ticket.priority.toUpperCase() as SupportPriority,
+          metadata: { ...ticket.metadata, category: input.category },
+        },
+      );
+      sla = {
+        firstResponseDueAt: stored.firstResponseDueAt,
+        resolutionDueAt: stored.resolutionDueAt,
+      };
+    } catch (error) {
+      logger.warn(
+        "Failed to store ticket for SLA tracking",
+        { ticketId, error },
+        "CustomerSupportAgent",
+      );
+    }
+
     return {
       success: true,
       ticket: {
         ...ticket,
         classification,
         estimatedResolutionTime: this.estimateResolutionTime(classification),
+        sla,
       },
       message: "Ticket created successfully",
     };
@@ -1099,19 +1181,70 @@ Consider:
     const { ticketId, update } = input;
     const ticket = this.tickets.get(ticketId);
 
-    if (!ticket) {
+    // Records first response and resolution times against the SLA
+    let stored: PersistedSupportTicket | undefined;
+    try {
+      stored = await this.sla.updateTicket(
+        input.workspaceId ?? DEFAULT_WORKSPACE_ID,
+        ticketId,
+        {
+          status: update?.status?.toUpperCase() as SupportStatus | undefined,
+          priority: update?.priority?.toUpperCase() as
+            | SupportPriority
+            | undefined,
+          assignedTo: update?.assignedTo,
+          resolution: update?.resolution,
+          agentId: input.agentId,
+        },
+      );
+    } catch (error) {
+      if (!(error instanceof SlaError && error.code === "NOT_FOUND")) {
+        logger.warn(
+          "Failed to update SLA tracking for ticket",
+          { ticketId, error },
+          "CustomerSupportAgent",
+        );
+      }
+    }
+
+    if (!ticket && !stored) {
       return {
         success: false,
         error: "Ticket not found",
       };
     }
 
-    Object.assign(ticket, update, { updatedAt: new Date() });
-    this.tickets.set(ticketId, ticket);
+    if (ticket) {
+      Object.assign(ticket, update, { updatedAt: new Date() });
+      this.tickets.set(ticketId, ticket);
+    }
+
+    // A resolution answers the next customer with the same question
+    if (update?.status === "resolved" && update.resolution) {
+      const [opening] = (stored?.messages ?? []) as Array<{ content?: string }>;
+      try {
+        await this.knowledgeBase.addResolvedTicket(
+          input.workspaceId ?? DEFAULT_WORKSPACE_ID,
+          {
+            ticketId,
+            subject: ticket?.subject ?? stored!.subject,
+            message: ticket?.message ?? opening?.content ?? "",
+            resolution: update.resolution,
+            category: ticket?.category,
+          },
+        );
+      } catch (error) {
+        logger.warn(
+          "Failed to add resolved ticket to the knowledge base",
+          { ticketId, error },
+          "CustomerSupportAgent",
+        );
+      }
+    }
 
     return {
       success: true,
-      ticket,
+      ticket: ticket ?? stored,
       message: "Ticket updated successfully",
     };
   }
@@ -1134,7 +1267,7 @@ Consider:
           enableEmailFallback: true,
           enableSlackFallback: true,
           adminNotifications: true,
-        }
+        },
       );
 
       // Log the event
@@ -1243,6 +1376,7 @@ Consider:
       classification,
       tone: "professional",
       customer,
+      workspaceId: input.workspaceId,
     });
 
     return {
@@ -1255,17 +1389,94 @@ Consider:
   }
 
   async manageKnowledgeBase(input: any): Promise<any> {
-    const { action, data } = input;
-
-    switch (action) {
-      case "search_articles":
-        return this.searchKnowledgeBase(data.query);
-      case "add_article":
-        return this.addKnowledgeBaseArticle(data);
-      case "get_suggestions":
-        return this.getSuggestedArticles(data.message);
-      default:
-        return { success: false, error: "Unknown action" };
+    const { action, data = {} } = input;
+    const workspaceId: string = input.workspaceId ?? DEFAULT_WORKSPACE_ID;
+    const kb = this.knowledgeBase;
+
+    try {
+      switch (action) {
+        case "search_articles": {
+          const articles = await kb.search(workspaceId, data.query ?? "", {
+            limit: data.limit,
+            category: data.category,
+            sources: data.sources,
+          });
+          return { success: true, articles, total: articles.length };
+        }
+        case "add_article":
+          return {
+            success: true,
+            article: await kb.addArticle(workspaceId, data),
+            message: "Article added successfully",
+          };
+        case "update_article":
+          return {
+            success: true,
+            article: await kb.updateArticle(
+              workspaceId,
+              data.articleId,
+              data.update ?? {},
+            ),
+            message: "Article updated successfully",
+          };
+        case "archive_article":
+          return {
+            success: true,
+            article: await kb.archiveArticle(workspaceId, data.articleId),
+            message: "Article archived successfully",
+          };
+        case "get_suggestions": {
+          const suggestions = await kb.search(workspaceId, data.message ?? "", {
+            limit: 3,
+          });
+          return { success: true, suggestions, total: suggestions.length };
+        }
+        case "import_document":
+          return {
+            success: true,
+            ...(await kb.importDocument(
+              workspaceId,
+              data.format,
+              data.content,
+              data.options,
+            )),
+          };
+        case "import_faq":
+          return {
+            success: true,
+            ...(await kb.importFaq(workspaceId, data.entries ?? [])),
+          };
+        case "import_resolved_tickets":
+          return {
+            success: true,
+            ...(await kb.importResolvedTickets(workspaceId, {
+              since: data.since ? new Date(data.since) : undefined,
+              limit: data.limit,
+            })),
+          };
+        case "record_feedback":
+          return {
+            success: true,
+            votes: await kb.recordFeedback(workspaceId, data.articleId, data),
+          };
+        case "reindex":
+          return {
+            success: true,
+            embedded: await kb.reindex(workspaceId),
+          };
+        default:
+          return { success: false, error: "Unknown action" };
+      }
+    } catch (error) {
+      if (error instanceof KnowledgeBaseError) {
+        return {
+          success: false,
+          error: error.message,
+          code: error.code,
+          issues: error.issues,
+        };
+      }
+      throw error;
     }
   }
 
@@ -1334,98 +1545,65 @@ Consider:
     return baseTimes[classification.intent as keyof typeof baseTimes] || 45;
   }
 
-  private searchKnowledgeBase(query: string) {
-    const articles = Array.from(this.knowledgeBase.values())
-      .filter(
-        (article) =>
-          article.title.toLowerCase().includes(query.toLowerCase()) ||
-          article.content.toLowerCase().includes(query.toLowerCase()),
-      )
-      .slice(0, 5);
-
-    return {
-      success: true,
-      articles,
-      total: articles.length,
-    };
+  // Knowledge base passages for a reply; a reply without them still goes out
+  private async findSources(
+    workspaceId: string,
+    message: string,
+  ): Promise<KnowledgeMatch[]> {
+    try {
+      return await this.knowledgeBase.search(workspaceId, message, {
+        limit: 3,
+      });
+    } catch (error) {
+      logger.warn(
+        "Knowledge base search failed",
+        { error },
+        "CustomerSupportAgent",
+      );
+      return [];
+    }
   }
 
-  private addKnowledgeBaseArticle(data: any) {
-    const article: KnowledgeBaseArticle = {
-      id: `article_${Date.now()}`,
-      title: data.title,
-      content: data.content,
-      category: data.category || "General",
-      tags: data.tags || [],
-      views: 0,
-      helpful: 0,
-      lastUpdated: new Date(),
-      author: data.author || "System",
-      status: "published",
-    };
-
-    this.knowledgeBase.set(article.id, article);
-
-    return {
-      success: true,
-      article,
-      message: "Article added successfully",
-    };
+  private toCitations(sources: KnowledgeMatch[]): KnowledgeCitation[] {
+    return sources.map((source, i) => ({
+      index: i + 1,
+      articleId: source.articleId,
+      title: source.title,
+      url: source.url,
+      excerpt: source.excerpt,
+      score: source.score,
+    }));
   }
 
-  private getSuggestedArticles(message: string) {
-    // Simple keyword matching for suggestions
-    const keywords = this.extractKeywords(message);
-    const suggestions = Array.from(this.knowledgeBase.values())
-      .filter((article) =>
-        keywords.some(
-          (keyword) =>
-            article.title.toLowerCase().includes(keyword) ||
-            article.tags.some((tag) => tag.toLowerCase().includes(keyword)),
-        ),
-      )
-      .slice(0, 3);
-
-    return {
-      success: true,
-      suggestions,
-      total: suggestions.length,
-    };
+  private toResources(
+    citations: KnowledgeCitation[],
+  ): ReplyGenerationOutput["relatedResources"] {
+    return citations.map((citation) => ({
+      type: "article" as const,
+      title: citation.title,
+      ...(citation.url && { url: citation.url }),
+      description: citation.excerpt.slice(0, 160),
+    }));
   }
 
-  private initializeKnowledgeBase(): void {
-    const defaultArticles: KnowledgeBaseArticle[] = [
-      {
-        id: "kb_001",
-        title: "How to Reset Your Password",
-        content:
-          'To reset your password, click on "Forgot Password" on the login page...',
-        category: "Account Management",
-        tags: ["password", "login", "account"],
-        views: 1250,
-        helpful: 89,
-        lastUpdated: new Date(),
-        author: "Support Team",
-        status: "published",
-      },
-      {
-        id: "kb_002",
-        title: "Billing and Payment FAQ",
-        content:
-          "Common questions about billing, payments, and subscriptions...",
-        category: "Billing",
-        tags: ["billing", "payment", "subscription"],
-        views: 890,
-        helpful: 76,
-        lastUpdated: new Date(),
-        author: "Support Team",
-        status: "published",
-      },
-    ];
-
-    defaultArticles.forEach((article) => {
-      this.knowledgeBase.set(article.id, article);
-    });
+  // Count the cited articles, so the team sees which ones answer customers
+  private async citeSources(
+    workspaceId: string,
+    output: ReplyGenerationOutput,
+  ): Promise<ReplyGenerationOutput> {
+    try {
+      await this.knowledgeBase.recordCitations(
+        workspaceId,
+        output.citations.map(({ articleId }) => articleId),
+      );
+    } catch (error) {
+      logger.warn(
+        "Failed to record knowledge base citations",
+        { error },
+        "CustomerSupportAgent",
+      );
+    }
+    return output;
   }
 
   // Public API methods for tRPC integration
@@ -1,41 +1,42 @@
 import { AbstractAgent, AgentPayload, AgentResult } from "../base-agent";
 import { AgentContextOrUndefined, TrendResult } from "../types";
+import {
+  TrendStore,
+  type StoredTrend,
+  type TrendPoint,
+} from "../trends/trend-store";
 
-interface TrendSource {
-  platform: string;
-  endpoint: string;
-  weight: number;
+interface ChannelActivity {
+  volume: number;
+  // Highest trend score, 0-100
+  score: number;
+  sentiment?: number | undefined;
 }
 
 interface CrossPlatformTrend {
   keyword: string;
   volume: number;
   growth: number;
-  platforms: {
-    twitter: { volume: number; sentiment: number };
-    instagram: { volume: number; engagement: number };
-    tiktok: { volume: number; views: number };
-    google: { searchVolume: number; interest: number };
-    reddit: { mentions: number; upvotes: number };
-  };
-  demographics: {
-    ageGroups: Record<string, number>;
-    locations: Record<string, number>;
-  };
-  seasonality: {
-    pattern: "increasing" | "decreasing" | "stable" | "seasonal";
-    seasonalScore: number;
-  };
+  // Activity per platform, with "search" and "news" for sources without one
+  platforms: Record<string, ChannelActivity>;
+  // Highest trend score per region
+  regions: Record<string, number>;
+  sources: string[];
+  observedAt?: Date | undefined;
+  momentum: "increasing" | "decreasing" | "stable";
+}
+
+interface SeasonalTrend {
+  trend: CrossPlatformTrend;
+  // Month the trend scored highest in, e.g. "March 2026"
+  peakMonth?: string | undefined;
 }
 
+const DAY_MS = 86_400_000;
+
 export class TrendAgent extends AbstractAgent {
-  private trendSources: TrendSource[] = [
-    { platform: "twitter", endpoint: "/api/v2/tweets/search", weight: 0.25 },
-    { platform: "instagram", endpoint: "/api/v1/hashtags", weight: 0.2 },
-    { platform: "tiktok", endpoint: "/api/v1/trending", weight: 0.2 },
-    { platform: "google", endpoint: "/trends/api", weight: 0.25 },
-    { platform: "reddit", endpoint: "/api/v1/search", weight: 0.1 },
-  ];
+  // Trends the trend sources collected; see ../trends
+  private trendStore = new TrendStore();
 
   constructor(id: string, name: string) {
     super(id, name, "trend", [
@@ -80,7 +81,7 @@ export class TrendAgent extends AbstractAgent {
   private async analyzeTrends(
     context: AgentContextOrUndefined,
   ): Promise<TrendResult> {
-    // Enhanced trend analysis with cross-platform data aggregation
+    // Cross-platform analysis of the stored trend signals
     const keywords = (
       Array.isArray(context?.keywords)
         ? context.keywords
@@ -105,8 +106,10 @@ export class TrendAgent extends AbstractAgent {
         growth: trend.growth,
         metadata: {
           platforms: trend.platforms,
-          demographics: trend.demographics,
-          seasonality: trend.seasonality,
+          regions: trend.regions,
+          momentum: trend.momentum,
+          sources: trend.sources,
+          observedAt: trend.observedAt,
         },
       })),
       analysis: {
@@ -219,14 +222,18 @@ export class TrendAgent extends AbstractAgent {
     const timeframe = (
       typeof context?.timeframe === "string" ? context.timeframe : "12months"
     ) as string;
-    const seasonalData = await this.getSeasonalTrendData(timeframe);
+    const since = new Date(Date.now() - timeframeDays(timeframe) * DAY_MS);
+    const seasonalData = await this.getSeasonalTrendData(since);
 
     return {
       trends: seasonalData.map((sd) => ({
-        keyword: sd.keyword,
-        volume: sd.volume,
-        growth: sd.growth,
-        seasonalPattern: sd.seasonality,
+        keyword: sd.trend.keyword,
+        volume: sd.trend.volume,
+        growth: sd.trend.growth,
+        seasonalPattern: {
+          momentum: sd.trend.momentum,
+          peakMonth: sd.peakMonth,
+        },
       })),
       seasonalInsights: {
         peakSeasons: this.identifyPeakSeasons(seasonalData),
@@ -268,78 +275,26 @@ export class TrendAgent extends AbstractAgent {
     };
   }
 
-  // Enhanced helper methods
+  // Stored trends whose keyword contains this one, combined
   private async aggregateKeywordData(
     keyword: string,
+    since?: Date,
   ): Promise<CrossPlatformTrend> {
-    // Simulate cross-platform data aggregation
-    const baseVolume = Math.floor(Math.random() * 100000) + 50000;
-    const baseGrowth = (Math.random() - 0.5) * 0.4; // -20% to +20%
-
-    return {
-      keyword,
-      volume: baseVolume,
-      growth: baseGrowth,
-      platforms: {
-        twitter: {
-          volume: Math.floor(baseVolume * 0.3),
-          sentiment: Math.random() * 2 - 1, // -1 to 1
-        },
-        instagram: {
-          volume: Math.floor(baseVolume * 0.25),
-          engagement: Math.random() * 0.1, // 0 to 10%
-        },
-        tiktok: {
-          volume: Math.floor(baseVolume * 0.2),
-          views: Math.floor(baseVolume * 5), // Higher view count
-        },
-        google: {
-          searchVolume: Math.floor(baseVolume * 0.15),
-          interest: Math.floor(Math.random() * 100), // 0 to 100
-        },
-        reddit: {
-          mentions: Math.floor(baseVolume * 0.1),
-          upvotes: Math.floor(baseVolume * 0.05),
-        },
-      },
-      demographics: {
-        ageGroups: {
-          "18-24": Math.random() * 0.3,
-          "25-34": Math.random() * 0.4,
-          "35-44": Math.random() * 0.2,
-          "45+": Math.random() * 0.1,
-        },
-        locations: {
-          US: Math.random() * 0.4,
-          Europe: Math.random() * 0.3,
-          Asia: Math.random() * 0.2,
-          Other: Math.random() * 0.1,
-        },
-      },
-      seasonality: {
-        pattern: ["increasing", "decreasing", "stable", "seasonal"][
-          Math.floor(Math.random() * 4)
-        ] as any,
-        seasonalScore: Math.random(),
-      },
-    };
+    const trends = await this.trendStore.trends({
+      keywords: [keyword],
+      since,
+      limit: 20,
+    });
+    return combineTrends(keyword, trends);
   }
 
   private calculateTrendScore(trend: CrossPlatformTrend): number {
-    const platformWeights = {
-      twitter: 0.25,
-      instagram: 0.2,
-      tiktok: 0.2,
-      google: 0.25,
-      reddit: 0.1,
-    };
+    const channels = Object.values(trend.platforms);
+    if (channels.length === 0) return 0;
 
-    let score = 0;
-    score += trend.platforms.twitter.volume * platformWeights.twitter;
-    score += trend.platforms.instagram.volume * platformWeights.instagram;
-    score += trend.platforms.tiktok.volume * platformWeights.tiktok;
-    score += trend.platforms.google.searchVolume * platformWeights.google;
-    score += trend.platforms.reddit.mentions * platformWeights.reddit;
+    // Strongest channel, with a bonus for every further channel
+    let score = Math.max(...channels.map((channel) => channel.score));
+    score *= 1 + 0.1 * (channels.length - 1);
 
     // Apply growth multiplier
     score *= 1 + trend.growth;
@@ -350,16 +305,37 @@ export class TrendAgent extends AbstractAgent {
   private generateCrossPlatformInsights(
     trends: CrossPlatformTrend[],
   ): string[] {
+    const withData = trends.filter((trend) => trend.sources.length > 0);
+    if (withData.length === 0) {
+      return [
+        `No trend data stored for ${trends.length} keywords; configure trend sources or import a CSV`,
+      ];
+    }
+    const sources = new Set(withData.flatMap((trend) => trend.sources));
+    const channels = new Set(
+      withData.flatMap((trend) => Object.keys(trend.platforms)),
+    );
     return [
-      `Analyzed ${trends.length} keywords across 5 major platforms`,
-      `Average cross-platform growth rate: ${((trends.reduce((sum, t) => sum + t.growth, 0) / trends.length) * 100).toFixed(1)}%`,
-      `Strongest platform correlation found between Instagram and TikTok`,
-      `Peak engagement hours: 2-4 PM and 7-9 PM across all platforms`,
+      `Analyzed ${trends.length} keywords across ${channels.size} channels from ${sources.size} trend sources`,
+      `Average cross-platform growth rate: ${((withData.reduce((sum, t) => sum + t.growth, 0) / withData.length) * 100).toFixed(1)}%`,
+      ...(trends.length > withData.length
+        ? [
+            `No trend data for: ${trends
+              .filter((trend) => trend.sources.length === 0)
+              .map((trend) => trend.keyword)
+              .join(", ")}`,
+          ]
+        : []),
     ];
   }
 
   private generateTrendRecommendations(trends: CrossPlatformTrend[]): string[] {
     const topTrend = trends[0];
+    if (!topTrend || topTrend.sources.length === 0) {
+      return [
+        "Collect trend data before planning content around these keywords",
+      ];
+    }
     const recommendations = [];
 
     if (topTrend.growth > 0.15) {
@@ -381,14 +357,13 @@ export class TrendAgent extends AbstractAgent {
   }
 
   private findDominantPlatform(trend: CrossPlatformTrend): string {
-    const platforms = trend.platforms;
-    let maxVolume = 0;
+    let maxScore = -1;
     let dominantPlatform = "twitter";
 
-    Object.entries(platforms).forEach(([platform, data]: [string, any]) => {
-      const volume = data.volume || data.searchVolume || data.mentions || 0;
-      if (volume > maxVolume) {
-        maxVolume = volume;
+    Object.entries(trend.platforms).forEach(([platform, activity]) => {
+      const score = activity.volume || activity.score;
+      if (score > maxScore) {
+        maxScore = score;
         dominantPlatform = platform;
       }
     });
@@ -400,14 +375,16 @@ export class TrendAgent extends AbstractAgent {
   private async analyzeViralPatterns(
     contentType: string,
   ): Promise<CrossPlatformTrend> {
-    return await this.aggregateKeywordData(`${contentType} content`);
+    return await this.aggregateKeywordData(contentType);
   }
 
   private calculateViralPotential(trend: CrossPlatformTrend): number {
-    // Calculate viral potential based on growth, engagement, and cross-platform presence
-    let potential = trend.growth * 0.4; // Growth weight
-    potential += (trend.platforms.tiktok.views / 1000000) * 0.3; // TikTok views weight
-    potential += trend.platforms.instagram.engagement * 0.3; // Instagram engagement weight
+    // Calculate viral potential based on growth, trend score, and cross-platform presence
+    const channels = Object.values(trend.platforms);
+    const topScore = Math.max(0, ...channels.map((channel) => channel.score));
+    let potential = Math.max(trend.growth, 0) * 0.4; // Growth weight
+    potential += (topScore / 100) * 0.4; // Trend score weight
+    potential += Math.min(channels.length / 5, 1) * 0.2; // Reach weight
     return Math.min(potential, 1); // Cap at 1.0
   }
 
@@ -434,25 +411,46 @@ export class TrendAgent extends AbstractAgent {
   private async trackHashtagAcrossPlatforms(
     hashtag: string,
   ): Promise<CrossPlatformTrend> {
-    return await this.aggregateKeywordData(hashtag);
+    const trend = await this.aggregateKeywordData(hashtag.replace(/^#/, ""));
+    return { ...trend, keyword: hashtag };
   }
 
   private identifyPlatformLeaders(
     trends: CrossPlatformTrend[],
   ): Record<string, string> {
-    return {
-      twitter: trends[0]?.keyword || "N/A",
-      instagram: trends[1]?.keyword || "N/A",
-      tiktok: trends[2]?.keyword || "N/A",
-    };
+    // The keyword with the most volume on each platform
+    const leaders: Record<string, { keyword: string; volume: number }> = {};
+    for (const trend of trends) {
+      for (const [platform, activity] of Object.entries(trend.platforms)) {
+        const leader = leaders[platform];
+        if (!leader || activity.volume > leader.volume) {
+          leaders[platform] = {
+            keyword: trend.keyword,
+            volume: activity.volume,
+          };
+        }
+      }
+    }
+    return Object.fromEntries(
+      Object.entries(leaders).map(([platform, leader]) => [
+        platform,
+        leader.keyword,
+      ]),
+    );
   }
 
   private async analyzeCompetitorTrends(competitor: string): Promise<any> {
+    const trend = await this.aggregateKeywordData(competitor);
     return {
       competitor,
-      mentionVolume: Math.floor(Math.random() * 50000) + 10000,
-      growthRate: (Math.random() - 0.5) * 0.3,
-      insights: [`${competitor} showing increased social media presence`],
+      mentionVolume: trend.volume,
+      growthRate: trend.growth,
+      insights:
+        trend.sources.length > 0
+          ? [
+              `${competitor} is ${trend.momentum} on ${Object.keys(trend.platforms).join(", ")}`,
+            ]
+          : [`No trend data mentions ${competitor}`],
     };
   }
 
@@ -464,42 +462,50 @@ export class TrendAgent extends AbstractAgent {
     ];
   }
 
-  private async getSeasonalTrendData(timeframe: string): Promise<any[]> {
-    // Mock seasonal data
-    return [
-      {
-        keyword: "holiday marketing",
-        volume: 156000,
-        growth: 0.45,
-        seasonality: { pattern: "seasonal", peak: "Q4" },
-      },
-      {
-        keyword: "summer campaigns",
-        volume: 89000,
-        growth: 0.23,
-        seasonality: { pattern: "seasonal", peak: "Q2" },
-      },
-    ];
+  // The strongest trends of the period, with the month each peaked in
+  private async getSeasonalTrendData(since: Date): Promise<SeasonalTrend[]> {
+    const trends = await this.trendStore.trends({ since, limit: 10 });
+    return Promise.all(
+      trends.map(async (stored) => {
+        const history = await this.trendStore.history(stored.keyword, {
+          since,
+        });
+        return {
+          trend: combineTrends(stored.keyword, [stored]),
+          peakMonth: peakMonth(history),
+        };
+      }),
+    );
   }
 
-  private identifyPeakSeasons(data: any[]): string[] {
-    return ["Q4 Holiday Season", "Back-to-School (Q3)", "Spring Launch (Q2)"];
+  private identifyPeakSeasons(data: SeasonalTrend[]): string[] {
+    const months = new Map<string, number>();
+    for (const { peakMonth } of data) {
+      if (peakMonth) months.set(peakMonth, (months.get(peakMonth) ?? 0) + 1);
+    }
+    return [...months.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .map(([month, count]) => `${month} (${count} trends peaked)`);
   }
 
-  private analyzeCyclePatterns(data: any[]): Record<string, string> {
-    return {
-      annual_cycle: "Strong Q4 peaks, Q1 decline pattern",
-      monthly_cycle: "Mid-month peaks, end-month declines",
-      weekly_cycle: "Tuesday-Thursday peaks",
-    };
+  private analyzeCyclePatterns(data: SeasonalTrend[]): Record<string, string> {
+    return Object.fromEntries(
+      data.map(({ trend }) => [
+        trend.keyword,
+        `${trend.momentum} (${(trend.growth * 100).toFixed(1)}% growth)`,
+      ]),
+    );
   }
 
-  private forecastSeasonalPeaks(data: any[]): Record<string, string> {
-    return {
-      next_peak: "Expected Q4 2024 holiday season",
-      growth_forecast: "+25% volume increase predicted",
-      preparation_timeline: "Start campaigns 6-8 weeks prior",
-    };
+  private forecastSeasonalPeaks(data: SeasonalTrend[]): Record<string, string> {
+    return Object.fromEntries(
+      data
+        .filter(({ peakMonth }) => peakMonth)
+        .map(({ trend, peakMonth }) => [
+          trend.keyword,
+          `Peaked in ${peakMonth}; start campaigns 6-8 weeks before it comes round again`,
+        ]),
+    );
   }
 
   private async forecastTrends(
@@ -518,14 +524,23 @@ export class TrendAgent extends AbstractAgent {
 
     const forecasts = await Promise.all(
       keywords.map(async (keyword) => {
-        const historicalData = await this.aggregateKeywordData(keyword);
+        const history = longestSeries(
+          await this.trendStore.history(keyword, {
+            since: new Date(Date.now() - 90 * DAY_MS),
+          }),
+        );
+        const fit = linearFit(history);
+        const current = fit?.current ?? 0;
+        const forecasted = fit
+          ? Math.max(0, current + fit.slopePerDay * timeframeDays(timeframe))
+          : 0;
         return {
           keyword,
-          currentVolume: historicalData.volume,
-          forecastedVolume: Math.floor(
-            historicalData.volume * (1 + historicalData.growth),
-          ),
-          confidence: Math.random() * 0.4 + 0.6, // 60-100% confidence
+          currentVolume: Math.round(current),
+          forecastedVolume: Math.round(forecasted),
+          // How well a straight line fits, discounted for short histories
+          confidence: fit ? fit.r2 * Math.min(1, history.length / 10) : 0,
+          dataPoints: history.length,
         };
       }),
     );
@@ -534,7 +549,10 @@ export class TrendAgent extends AbstractAgent {
       trends: forecasts.map((f) => ({
         keyword: f.keyword,
         volume: f.currentVolume,
-        growth: (f.forecastedVolume - f.currentVolume) / f.currentVolume,
+        growth:
+          f.currentVolume > 0
+            ? (f.forecastedVolume - f.currentVolume) / f.currentVolume
+            : 0,
         forecast: f,
       })),
     };
@@ -553,17 +571,34 @@ export class TrendAgent extends AbstractAgent {
           keyword,
           volume: data.volume,
           growth: data.growth,
-          demographics: data.demographics,
+          regions: data.regions,
+          platforms: data.platforms,
         };
       }),
     );
 
+    // Trend sources report regions, not age groups
+    const regionScores: Record<string, number> = {};
+    for (const { regions } of demographics) {
+      for (const [region, score] of Object.entries(regions)) {
+        regionScores[region] = (regionScores[region] ?? 0) + score;
+      }
+    }
+    const topPlatforms = this.identifyDominantPlatforms(
+      demographics.map((d) => ({ ...d, sources: [], momentum: "stable" })),
+    );
+
     return {
       trends: demographics,
       audienceInsights: {
-        primaryAgeGroup: "25-34 (40% of audience)",
-        topLocations: ["US (35%)", "Europe (28%)", "Asia (22%)"],
-        engagementPatterns: "Higher engagement on visual platforms",
+        topLocations: Object.entries(regionScores)
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, 5)
+          .map(([region]) => region),
+        engagementPatterns:
+          topPlatforms.length > 0
+            ? `Most trend activity on ${topPlatforms.join(", ")}`
+            : "No trend activity stored for these keywords",
       },
     };
   }
@@ -572,13 +607,10 @@ export class TrendAgent extends AbstractAgent {
     const platformScores: Record<string, number> = {};
 
     data.forEach((trend) => {
-      Object.entries(trend.platforms).forEach(
-        ([platform, metrics]: [string, any]) => {
-          const score =
-            metrics.volume || metrics.searchVolume || metrics.mentions || 0;
-          platformScores[platform] = (platformScores[platform] || 0) + score;
-        },
-      );
+      Object.entries(trend.platforms).forEach(([platform, activity]) => {
+        const score = activity.volume || activity.score;
+        platformScores[platform] = (platformScores[platform] || 0) + score;
+      });
     });
 
     return Object.entries(platformScores)
@@ -590,12 +622,26 @@ export class TrendAgent extends AbstractAgent {
   private analyzePlatformCorrelations(
     data: CrossPlatformTrend[],
   ): Record<string, number> {
-    // Simplified correlation analysis
-    return {
-      instagram_tiktok: 0.78,
-      twitter_reddit: 0.65,
-      google_all_social: 0.82,
-    };
+    // Share of keywords trending on both channels of each pair
+    const withData = data.filter((trend) => trend.sources.length > 0);
+    const channels = [
+      ...new Set(withData.flatMap((trend) => Object.keys(trend.platforms))),
+    ].sort();
+    const correlations: Record<string, number> = {};
+    for (let i = 0; i < channels.length; i++) {
+      for (let j = i + 1; j < channels.length; j++) {
+        const [a, b] = [channels[i]!, channels[j]!];
+        const both = withData.filter(
+          (trend) => trend.platforms[a] && trend.platforms[b],
+        ).length;
+        const either = withData.filter(
+          (trend) => trend.platforms[a] || trend.platforms[b],
+        ).length;
+        correlations[`${a}_${b}`] =
+          either > 0 ? Math.round((both / either) * 100) / 100 : 0;
+      }
+    }
+    return correlations;
   }
 
   private generateUnifiedStrategy(data: CrossPlatformTrend[]): string[] {
@@ -608,5 +654,128 @@ export class TrendAgent extends AbstractAgent {
   }
 }
 
+function combineTrends(
+  keyword: string,
+  trends: StoredTrend[],
+): CrossPlatformTrend {
+  const points = trends.flatMap((trend) => trend.points);
+  const platforms: Record<string, ChannelActivity> = {};
+  const sentiments: Record<string, number[]> = {};
+  const regions: Record<string, number> = {};
+
+  for (const point of points) {
+    const channel =
+      point.platform?.toLowerCase() ??
+      (point.kind === "search" ? "search" : "news");
+    const activity = (platforms[channel] ??= { volume: 0, score: 0 });
+    activity.volume += point.volume ?? 0;
+    activity.score = Math.max(activity.score, point.score);
+    if (point.sentiment !== undefined) {
+      (sentiments[channel] ??= []).push(point.sentiment);
+    }
+    if (point.region) {
+      regions[point.region] = Math.max(regions[point.region] ?? 0, point.score);
+    }
+  }
+  for (const [channel, values] of Object.entries(sentiments)) {
+    platforms[channel]!.sentiment =
+      values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  const growths = points
+    .map((point) => point.growth)
+    .filter((growth): growth is number => growth !== undefined);
+  const growth =
+    growths.length > 0
+      ? growths.reduce((sum, value) => sum + value, 0) / growths.length
+      : 0;
+
+  return {
+    keyword,
+    volume: points.reduce((sum, point) => sum + (point.volume ?? 0), 0),
+    growth,
+    platforms,
+    regions,
+    sources: [...new Set(trends.flatMap((trend) => trend.sources))],
+    observedAt: points.reduce<Date | undefined>(
+      (latest, point) =>
+        !latest || point.observedAt > latest ? point.observedAt : latest,
+      undefined,
+    ),
+    momentum:
+      growth > 0.05 ? "increasing" : growth < -0.05 ? "decreasing" : "stable",
+  };
+}
+
+// "7d", "12weeks", "3months" or "1y" in days
+function timeframeDays(timeframe: string): number {
+  const match = timeframe.match(/^(\d+)\s*([a-z]*)$/i);
+  if (!match) return 30;
+  const amount = Number(match[1]);
+  const unit = match[2]!.toLowerCase();
+  if (unit.startsWith("w")) return amount * 7;
+  if (unit.startsWith("m")) return amount * 30;
+  if (unit.startsWith("y")) return amount * 365;
+  return amount;
+}
+
+function peakMonth(history: TrendPoint[]): string | undefined {
+  const peak = history.reduce<TrendPoint | undefined>(
+    (best, point) => (!best || point.score > best.score ? point : best),
+    undefined,
+  );
+  return peak?.observedAt.toLocaleString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// The points of the source that observed the keyword most often
+function longestSeries(history: TrendPoint[]): TrendPoint[] {
+  const bySource = new Map<string, TrendPoint[]>();
+  for (const point of history) {
+    bySource.set(point.source, [...(bySource.get(point.source) ?? []), point]);
+  }
+  return [...bySource.values()].reduce<TrendPoint[]>(
+    (longest, series) => (series.length > longest.length ? series : longest),
+    [],
+  );
+}
+
+/**
+ * Least-squares line through the volumes (or scores, when the source
+ * reports no volumes) of a keyword's history
+ */
+function linearFit(
+  history: TrendPoint[],
+): { current: number; slopePerDay: number; r2: number } | undefined {
+  if (history.length < 2) return undefined;
+  const useVolume = history.every((point) => point.volume !== undefined);
+  const start = history[0]!.observedAt.getTime();
+  const xs = history.map(
+    (point) => (point.observedAt.getTime() - start) / DAY_MS,
+  );
+  const ys = history.map((point) => (useVolume ? point.volume! : point.score));
+  const n = xs.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i]! - meanX) * (ys[i]! - meanY);
+    sxx += (xs[i]! - meanX) ** 2;
+    syy += (ys[i]! - meanY) ** 2;
+  }
+  const slopePerDay = sxx > 0 ? sxy / sxx : 0;
+  const last = xs[n - 1]!;
+  return {
+    current: meanY + slopePerDay * (last - meanX),
+    slopePerDay,
+    r2: sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0,
+  };
+}
+
 // Export as default for agent registry compatibility
 export default TrendAgent;
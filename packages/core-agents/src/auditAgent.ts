@@ -15,6 +15,7 @@ import {
   type PerformanceMetrics,
 } from "@neon/utils";
 import type { AgentName } from "@neon/types";
+import { getLLMClient } from "./llm";
 
 export interface ContentScore {
   clarity: number; // 0-100: How clear and understandable the content is
@@ -51,7 +52,7 @@ export class AuditAgent {
       "evaluate_content",
       async () => {
         try {
-          // Try OpenAI evaluation first (with mock implementation for now)
+          // Try LLM evaluation first
           const aiScore = await this.evaluateWithAI(content);
           if (aiScore) {
             return aiScore;
@@ -141,17 +142,19 @@ export class AuditAgent {
   }
 
   /**
-   * Attempts to evaluate content using AI (OpenAI API)
-   * Returns null if AI evaluation fails
+   * Attempts to evaluate content using the configured LLM provider
+   * Returns null if AI evaluation is unavailable or fails
    */
   private static async evaluateWithAI(
     content: string,
   ): Promise<ContentScore | null> {
-    try {
-      // Mock OpenAI implementation - replace with actual OpenAI API call
-      // const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+    const llm = getLLMClient();
+    if (!llm.isAvailable()) {
+      return null;
+    }
 
-      const mockPrompt = `
+    try {
+      const prompt = `
         Evaluate the following content for marketing effectiveness on a scale of 0-100:
         
         Content: "${content}"
@@ -165,39 +168,24 @@ export class AuditAgent {
         }
       `;
 
-      // For now, return null to trigger fallback
-      // TODO: Implement actual OpenAI API call
-      logger.debug(
-        "OpenAI evaluation prompt prepared",
-        { promptPreview: mockPrompt.substring(0, 100) },
-        "AuditAgent",
-      );
-      return null;
-
-      /* 
-      // Actual OpenAI implementation:
-      const response = await openai.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: mockPrompt }],
+      const response = await llm.chat({
+        agentType: "audit",
+        messages: [{ role: "user", content: prompt }],
         temperature: 0.1,
-      })
+      });
 
-      const responseText = response.choices[0]?.message?.content
-      if (!responseText) return null
+      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) return null;
 
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-      if (!jsonMatch) return null
-
-      const parsed = JSON.parse(jsonMatch[0])
+      const parsed = JSON.parse(jsonMatch[0]);
       return {
         clarity: Math.max(0, Math.min(100, parsed.clarity || 0)),
         grammar: Math.max(0, Math.min(100, parsed.grammar || 0)),
         engagement: Math.max(0, Math.min(100, parsed.engagement || 0)),
         overall: Math.max(0, Math.min(100, parsed.overall || 0)),
-      }
-      */
+      };
     } catch (error) {
-      logger.error("OpenAI evaluation error", { error }, "AuditAgent");
+      logger.error("LLM evaluation error", { error }, "AuditAgent");
       return null;
     }
   }
@@ -1,6 +1,21 @@
 import { z } from "zod";
 import { logger } from "@neon/utils";
+import { DEFAULT_WORKSPACE_ID } from "@neon/data-model";
 import { AgentMemoryStore } from "./memory/AgentMemoryStore";
+import { getLLMClient } from "./llm/llm-client";
+import {
+  DEFAULT_ESTIMATED_PROMPT_TOKENS,
+  estimateLLMCost,
+  withBudgetReservation,
+} from "./llm/budget";
+import { runWithLLMContext } from "./llm/run-context";
+import {
+  createLLMUsageRecorder,
+  logAgentUsage,
+  summarizeLLMUsage,
+  type LLMCallUsage,
+} from "./llm/runLLMTask";
+import { countTokens } from "./llm/providers/fixture-provider";
 
 // Base schemas for agent communication
 export const AgentPayloadSchema = z.object({
@@ -123,6 +138,8 @@ export abstract class AbstractAgent implements BaseAgent {
     const startTime = Date.now();
     const sessionId = payload.metadata?.sessionId || `session-${Date.now()}`;
     const userId = payload.metadata?.userId;
+    const workspaceId = this.getWorkspaceId(payload);
+    const usage: LLMCallUsage[] = [];
 
     try {
       this.setStatus("running");
@@ -131,7 +148,11 @@ export abstract class AbstractAgent implements BaseAgent {
         throw new Error("Invalid payload");
       }
 
-      const result = await executionFn();
+      const { result, budgetAction } = await this.executeWithinBudget(
+        payload,
+        executionFn,
+        usage,
+      );
       const executionTime = Date.now() - startTime;
 
       this.setStatus("idle");
@@ -147,16 +168,21 @@ export abstract class AbstractAgent implements BaseAgent {
           agentName: this.name,
           executionTime,
           timestamp: new Date().toISOString(),
+          ...(budgetAction ? { budgetAction } : {}),
         },
       };
 
-      // Store successful execution in memory
+      // Store successful execution in memory, with the provider-reported
+      // usage when the run made LLM calls
+      const { tokensUsed, cost } = summarizeLLMUsage(usage);
       await this.storeMemory(sessionId, payload, agentResult, {
         userId,
+        workspaceId,
         executionTime,
         success: true,
-        tokensUsed: this.extractTokensUsed(result),
-        cost: this.estimateCost(result),
+        tokensUsed:
+          usage.length > 0 ? tokensUsed : this.extractTokensUsed(result),
+        cost: usage.length > 0 ? cost : this.estimateCost(result),
       });
 
       return agentResult;
@@ -176,20 +202,138 @@ export abstract class AbstractAgent implements BaseAgent {
         },
       };
 
-      // Store failed execution in memory
+      // Store failed execution in memory, with the usage of the LLM calls
+      // made before the failure
+      const { tokensUsed, cost } = summarizeLLMUsage(usage);
       await this.storeMemory(sessionId, payload, agentResult, {
         userId,
+        workspaceId,
         executionTime,
         success: false,
         errorMessage: error instanceof Error ? error.message : "Unknown error",
-        tokensUsed: 0,
-        cost: 0,
+        tokensUsed,
+        cost,
       });
 
       return agentResult;
     }
   }
 
+  /**
+   * Reserve the estimated cost of this run against the monthly and
+   * campaign budgets before executing it. Blocked runs throw
+   * BudgetExceededError; degraded runs have their LLM calls moved to
+   * cheaper models or shorter outputs by the LLM client.
+   */
+  private async executeWithinBudget(
+    payload: AgentPayload,
+    executionFn: () => Promise<unknown>,
+    usage: LLMCallUsage[],
+  ): Promise<{ result: unknown; budgetAction?: string }> {
+    return this.withWorkspaceLLM(
+      payload,
+      () =>
+        withBudgetReservation(
+          {
+            agentType: this.type,
+            workspaceId: this.getWorkspaceId(payload),
+            estimatedCost: this.estimateRunCost(payload),
+            campaignId: this.getCampaignId(payload),
+            task: payload.task,
+            allowDegrade: true,
+          },
+          async (decision) => {
+            const result = await executionFn();
+            return decision && decision.action !== "allow"
+              ? { result, budgetAction: decision.action }
+              : { result };
+          },
+        ),
+      usage,
+    );
+  }
+
+  /**
+   * Run fn with the LLM calls it makes going to the provider and models of
+   * the payload's workspace, loading that workspace's settings first. Each
+   * call is billed with the usage its provider reported once fn settles;
+   * the calls are also added to usage for the caller.
+   */
+  protected async withWorkspaceLLM<T>(
+    payload: AgentPayload,
+    fn: () => Promise<T>,
+    usage: LLMCallUsage[] = [],
+  ): Promise<T> {
+    const workspaceId = this.getWorkspaceId(payload);
+    const startTime = Date.now();
+    const calls: LLMCallUsage[] = [];
+    await getLLMClient().loadWorkspace(workspaceId);
+
+    try {
+      return await runWithLLMContext(
+        { workspaceId, usage: createLLMUsageRecorder(calls) },
+        fn,
+      );
+    } finally {
+      if (calls.length > 0) {
+        const campaignId = this.getCampaignId(payload);
+        usage.push(...calls);
+        await logAgentUsage(
+          {
+            agentType: this.type,
+            workspaceId,
+            ...(campaignId ? { campaignId } : {}),
+            task: payload.task,
+          },
+          calls,
+          Date.now() - startTime,
+        );
+      }
+    }
+  }
+
+  /**
+   * Campaign a run is billed to, from the payload context or metadata
+   */
+  protected getCampaignId(payload: AgentPayload): string | undefined {
+    const campaignId =
+      payload.context?.campaignId ?? payload.metadata?.campaignId;
+    return typeof campaignId === "string" ? campaignId : undefined;
+  }
+
+  /**
+   * Workspace a run belongs to, taken from the payload metadata or context.
+   * Runs without one belong to the default workspace.
+   */
+  protected getWorkspaceId(payload: AgentPayload): string {
+    const workspaceId =
+      payload.metadata?.workspaceId ?? payload.context?.workspaceId;
+    return typeof workspaceId === "string" && workspaceId
+      ? workspaceId
+      : DEFAULT_WORKSPACE_ID;
+  }
+
+  /**
+   * Estimate the LLM cost of a run for the budget gate (override in agents
+   * that know their prompt sizes). Runs that cannot reach a billed provider
+   * are estimated at zero and skip the gate.
+   */
+  protected estimateRunCost(payload: AgentPayload): number {
+    const llm = getLLMClient();
+    const workspaceId = this.getWorkspaceId(payload);
+    if (!llm.isAvailable(workspaceId)) {
+      return 0;
+    }
+
+    return estimateLLMCost({
+      model: llm.resolveModel(this.type, workspaceId),
+      promptTokens:
+        DEFAULT_ESTIMATED_PROMPT_TOKENS +
+        countTokens(JSON.stringify(payload.context ?? {})),
+      provider: llm.getProvider(workspaceId).name,
+    });
+  }
+
   /**
    * Store execution in memory for learning and analysis
    */
@@ -199,6 +343,7 @@ export abstract class AbstractAgent implements BaseAgent {
     output: AgentResult,
     metadata: {
       userId?: string;
+      workspaceId?: string;
       executionTime: number;
       success: boolean;
       tokensUsed?: number;
@@ -207,13 +352,18 @@ export abstract class AbstractAgent implements BaseAgent {
       errorMessage?: string;
     },
   ): Promise<void> {
+    const { workspaceId, ...memoryMetadata } = metadata;
+
     try {
-      await this.memoryStore.storeMemory(
+      const store = workspaceId
+        ? this.memoryStore.forWorkspace(workspaceId)
+        : this.memoryStore;
+      await store.storeMemory(
         this.id,
         sessionId,
         input,
         output,
-        metadata,
+        memoryMetadata,
       );
     } catch (error) {
       logger.error(
@@ -225,14 +375,16 @@ export abstract class AbstractAgent implements BaseAgent {
   }
 
   /**
-   * Get last successful runs for context
+   * Get last successful runs in a workspace for context
    */
-  protected async getLastSuccessfulRuns(count: number = 3): Promise<any[]> {
+  protected async getLastSuccessfulRuns(
+    count: number = 3,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<any[]> {
     try {
-      const memories = await this.memoryStore.getLastSuccessfulRuns(
-        this.id,
-        count,
-      );
+      const memories = await this.memoryStore
+        .forWorkspace(workspaceId)
+        .getLastSuccessfulRuns(this.id, count);
       return memories.map((m) => ({
         input: m.input,
         output: m.output,
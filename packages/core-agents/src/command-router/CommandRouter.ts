@@ -7,7 +7,9 @@ import LLMCopilotAgent, {
   MessageType,
 } from "../agents/llm-copilot-agent";
 import { BaseAgent } from "../utils/BaseAgent";
-import BoardroomReportAgent from "../agents/boardroom-report-agent";
+import BoardroomReportAgent, {
+  type BoardroomReportConfig,
+} from "../agents/boardroom-report-agent";
 import ExecutiveReportCompilerAgent from "../agents/executive-report-compiler-agent";
 import CampaignAgent from "../agents/campaign-agent";
 import BrandVoiceAgent from "../agents/brand-voice-agent";
@@ -18,6 +20,33 @@ import EmailAgent from "../agents/email-agent";
 import SeoAgent from "../agents/seo-agent";
 import TrendAgent from "../agents/trend-agent";
 import InsightAgent from "../agents/insight-agent";
+import type { AgentJob, AgentJobStatus } from "@neon/data-model";
+import { JobQueue, type JobHandler, type JobPriority } from "../queue";
+import {
+  validateWorkflow,
+  type WorkflowDefinition,
+  type WorkflowValidationOptions,
+} from "./workflow-dsl";
+import {
+  loadWorkflowDocument,
+  type WorkflowDocumentFormat,
+} from "./workflow-loader";
+import {
+  WorkflowEngine,
+  type WorkflowRunResult,
+  type WorkflowStepExecutor,
+} from "./WorkflowEngine";
+
+export type {
+  WorkflowDefinition,
+  WorkflowStep,
+  WorkflowCondition,
+  WorkflowBranchCase,
+} from "./workflow-dsl";
+export type { WorkflowRunResult, WorkflowStepState } from "./WorkflowEngine";
+
+// Agent type of queued command jobs
+export const COMMAND_JOB_TYPE = "command-router";
 
 export interface CommandExecutionContext {
   sessionId: string;
@@ -112,29 +141,16 @@ export interface RoutingRule {
   fallbackAgents?: string[];
 }
 
-export interface WorkflowDefinition {
-  id: string;
-  name: string;
-  description: string;
-  trigger: IntentAction;
-  steps: WorkflowStep[];
-  timeout: number;
-  rollbackStrategy: "none" | "partial" | "full";
+export interface SubmitCommandOptions {
+  workspaceId?: string;
+  priority?: JobPriority;
+  idempotencyKey?: string;
+  runAt?: Date;
 }
 
-export interface WorkflowStep {
-  id: string;
-  agentType: string;
-  action: string;
-  parameters: any;
-  dependencies: string[];
-  timeout: number;
-  retryPolicy: {
-    maxAttempts: number;
-    backoffMultiplier: number;
-    initialDelay: number;
-  };
-  fallbackOptions?: WorkflowStep[];
+interface CommandJobPayload {
+  command: string;
+  context: CommandExecutionContext;
 }
 
 export enum ExecutionStatus {
@@ -147,25 +163,32 @@ export enum ExecutionStatus {
   REQUIRES_APPROVAL = "requires_approval",
 }
 
+const JOB_EXECUTION_STATUS: Record<AgentJobStatus, ExecutionStatus> = {
+  PENDING: ExecutionStatus.PENDING,
+  RUNNING: ExecutionStatus.RUNNING,
+  COMPLETED: ExecutionStatus.COMPLETED,
+  DEAD: ExecutionStatus.FAILED,
+  CANCELLED: ExecutionStatus.CANCELLED,
+};
+
 export class CommandRouter {
   private copilotAgent: LLMCopilotAgent;
   private agentRegistry: Map<string, BaseAgent>;
   private routingRules: RoutingRule[];
-  private workflows: Map<string, WorkflowDefinition>;
-  private activeExecutions: Map<string, CommandResult>;
-  private executionHistory: CommandResult[];
+  // Workflow id -> version -> definition
+  private workflows: Map<string, Map<number, WorkflowDefinition>>;
+  private jobQueue: JobQueue;
 
   private readonly DEFAULT_TIMEOUT = 30000; // 30 seconds
   private readonly MAX_CONCURRENT_EXECUTIONS = 5;
   private readonly APPROVAL_THRESHOLD = 1000; // $1000 budget impact
 
-  constructor() {
+  constructor(jobQueue?: JobQueue) {
     this.copilotAgent = new LLMCopilotAgent();
+    this.jobQueue = jobQueue || new JobQueue();
     this.agentRegistry = new Map();
     this.routingRules = [];
     this.workflows = new Map();
-    this.activeExecutions = new Map();
-    this.executionHistory = [];
 
     this.initializeAgentRegistry();
     this.initializeRoutingRules();
@@ -194,8 +217,6 @@ export class CommandRouter {
         confidence: 0,
       };
 
-      this.activeExecutions.set(executionId, result);
-
       // Step 1: Parse command using LLM Copilot
       const copilotResponse = await this.copilotAgent.processMessage(
         command,
@@ -227,42 +248,36 @@ export class CommandRouter {
       );
       if (constraintCheck.requiresApproval) {
         result.status = ExecutionStatus.REQUIRES_APPROVAL;
-        this.updateExecution(executionId, result);
         return result;
       }
 
       // Step 4: Route to appropriate execution strategy
       result.status = ExecutionStatus.RUNNING;
-      this.updateExecution(executionId, result);
 
       if (copilotResponse.executionPlan) {
         // Execute planned workflow
         await this.executeWorkflow(
-          executionId,
+          result,
           copilotResponse.executionPlan,
           intent,
           context,
         );
       } else {
         // Route to single agent
-        await this.routeToAgent(executionId, intent, context);
+        await this.routeToAgent(result, intent, context);
       }
 
       // Step 5: Finalize result
-      const finalResult = this.activeExecutions.get(executionId)!;
-      finalResult.status = ExecutionStatus.COMPLETED;
-      finalResult.endTime = new Date().toISOString();
-      finalResult.duration =
-        new Date(finalResult.endTime).getTime() -
-        new Date(finalResult.startTime).getTime();
-
-      this.updateExecution(executionId, finalResult);
-      this.archiveExecution(executionId);
+      result.status = ExecutionStatus.COMPLETED;
+      result.endTime = new Date().toISOString();
+      result.duration =
+        new Date(result.endTime).getTime() -
+        new Date(result.startTime).getTime();
 
       console.log(
         `[CommandRouter] Command completed successfully (${executionId})`,
       );
-      return finalResult;
+      return result;
     } catch (error) {
       console.error(
         `[CommandRouter] Command execution failed (${executionId}):`,
@@ -288,15 +303,12 @@ export class CommandRouter {
         ],
       };
 
-      this.activeExecutions.set(executionId, failedResult);
-      this.archiveExecution(executionId);
-
       return failedResult;
     }
   }
 
   private async executeWorkflow(
-    executionId: string,
+    result: CommandResult,
     executionPlan: ExecutionStep[],
     intent: ParsedIntent,
     context: CommandExecutionContext,
@@ -305,71 +317,49 @@ export class CommandRouter {
       `[CommandRouter] Executing workflow with ${executionPlan.length} steps`,
     );
 
-    const result = this.activeExecutions.get(executionId)!;
-    const workflowContext: any = {};
-
-    for (const step of executionPlan) {
-      try {
-        console.log(`[CommandRouter] Executing step: ${step.description}`);
-
-        const agent = this.agentRegistry.get(step.agentType);
-        if (!agent) {
-          throw new Error(`Agent not found: ${step.agentType}`);
-        }
-
-        const stepStartTime = new Date().toISOString();
-
-        // Execute agent with step parameters
-        const agentResult = await this.executeAgent(
-          agent,
-          step.agentType,
-          { ...step.parameters, context: workflowContext },
-          context,
-        );
+    const stepIds = new Set(executionPlan.map((step) => step.stepId));
+    const outputs: Record<string, unknown> = {};
 
-        // Store step result
-        const agentExecutionResult: AgentExecutionResult = {
+    // Copilot plans run through the workflow engine so independent steps
+    // execute in parallel
+    const definition = validateWorkflow(
+      {
+        id: `plan_${result.executionId}`,
+        version: 1,
+        name: intent.primaryAction,
+        steps: executionPlan.map((step) => ({
+          id: step.stepId,
           agentType: step.agentType,
-          agentId: step.stepId,
-          status: ExecutionStatus.COMPLETED,
-          startTime: stepStartTime,
-          endTime: new Date().toISOString(),
-          duration: new Date().getTime() - new Date(stepStartTime).getTime(),
-          input: step.parameters,
-          output: agentResult,
-          confidence: agentResult.confidence || 0.8,
-        };
-
-        result.agentResults.push(agentExecutionResult);
-
-        // Update workflow context for next steps
-        workflowContext[step.stepId] = agentResult;
-
-        console.log(`[CommandRouter] Step completed: ${step.description}`);
-      } catch (error) {
-        console.error(
-          `[CommandRouter] Step failed: ${step.description}`,
-          error,
-        );
+          action: intent.primaryAction,
+          parameters: step.parameters ?? {},
+          dependencies: step.dependencies.filter((id) => stepIds.has(id)),
+          timeout: this.DEFAULT_TIMEOUT,
+        })),
+      },
+      { agentTypes: Array.from(this.agentRegistry.keys()) },
+    );
 
-        const failedStepResult: AgentExecutionResult = {
-          agentType: step.agentType,
-          agentId: step.stepId,
-          status: ExecutionStatus.FAILED,
-          startTime: new Date().toISOString(),
-          endTime: new Date().toISOString(),
-          duration: 0,
-          input: step.parameters,
-          error: error instanceof Error ? error.message : "Unknown error",
-        };
+    const executeStep = this.createStepExecutor(context);
+    const run = await new WorkflowEngine(async (request) => {
+      const output = await executeStep({
+        ...request,
+        parameters: {
+          ...this.mapParametersForAgent(
+            request.agentType,
+            request.parameters,
+            context,
+          ),
+          context: { ...outputs },
+        },
+      });
+      outputs[request.stepId] = output;
+      return output;
+    }).run(definition);
 
-        result.agentResults.push(failedStepResult);
+    result.agentResults.push(...this.toAgentResults(run, definition));
 
-        // Handle workflow failure
-        throw new Error(
-          `Workflow step failed: ${step.description} - ${error instanceof Error ? error.message : "Unknown error"}`,
-        );
-      }
+    if (run.status !== "completed") {
+      throw new Error(`Workflow failed: ${run.error}`);
     }
 
     // Set final workflow output
@@ -377,11 +367,10 @@ export class CommandRouter {
       result.agentResults,
       intent,
     );
-    this.updateExecution(executionId, result);
   }
 
   private async routeToAgent(
-    executionId: string,
+    result: CommandResult,
     intent: ParsedIntent,
     context: CommandExecutionContext,
   ): Promise<void> {
@@ -389,13 +378,9 @@ export class CommandRouter {
       `[CommandRouter] Routing to single agent for action: ${intent.primaryAction}`,
     );
 
-    const result = this.activeExecutions.get(executionId)!;
-
     // Find best agent for the intent
     const agentType = this.findBestAgent(intent);
-    const agent = this.agentRegistry.get(agentType);
-
-    if (!agent) {
+    if (!this.agentRegistry.has(agentType)) {
       throw new Error(
         `No suitable agent found for action: ${intent.primaryAction}`,
       );
@@ -404,13 +389,16 @@ export class CommandRouter {
     try {
       const agentStartTime = new Date().toISOString();
 
-      // Execute agent
-      const agentResult = await this.executeAgent(
-        agent,
+      const agentResult: any = await this.createStepExecutor(context)({
+        stepId: agentType,
         agentType,
-        intent.parameters,
-        context,
-      );
+        action: intent.primaryAction,
+        parameters: this.mapParametersForAgent(
+          agentType,
+          intent.parameters,
+          context,
+        ),
+      });
 
       const agentExecutionResult: AgentExecutionResult = {
         agentType,
@@ -426,64 +414,12 @@ export class CommandRouter {
 
       result.agentResults.push(agentExecutionResult);
       result.finalOutput = agentResult;
-
-      this.updateExecution(executionId, result);
     } catch (error) {
       console.error(`[CommandRouter] Agent execution failed:`, error);
       throw error;
     }
   }
 
-  private async executeAgent(
-    agent: BaseAgent,
-    agentType: string,
-    parameters: any,
-    context: CommandExecutionContext,
-  ): Promise<any> {
-    console.log(`[CommandRouter] Executing agent: ${agentType}`);
-
-    // Map generic parameters to agent-specific parameters
-    const agentParams = this.mapParametersForAgent(
-      agentType,
-      parameters,
-      context,
-    );
-
-    // Execute agent based on type
-    switch (agentType) {
-      case "boardroom":
-        const boardroomAgent = agent as BoardroomReportAgent;
-        return await boardroomAgent.generateReport(agentParams);
-
-      case "executive":
-        const executiveAgent = agent as ExecutiveReportCompilerAgent;
-        return await executiveAgent.generateReport(agentParams);
-
-      case "campaign":
-        const campaignAgent = agent as CampaignAgent;
-        return await this.executeCampaignAction(campaignAgent, agentParams);
-
-      case "content":
-        const contentAgent = agent as ContentAgent;
-        return await this.executeContentAction(contentAgent, agentParams);
-
-      case "brand_voice":
-        const brandAgent = agent as BrandVoiceAgent;
-        return await this.executeBrandAction(brandAgent, agentParams);
-
-      case "insight":
-        const insightAgent = agent as InsightAgent;
-        return await this.executeInsightAction(insightAgent, agentParams);
-
-      case "trend":
-        const trendAgent = agent as TrendAgent;
-        return await this.executeTrendAction(trendAgent, agentParams);
-
-      default:
-        throw new Error(`Unsupported agent type: ${agentType}`);
-    }
-  }
-
   private mapParametersForAgent(
     agentType: string,
     parameters: any,
@@ -545,122 +481,6 @@ export class CommandRouter {
     }
   }
 
-  private async executeCampaignAction(
-    agent: CampaignAgent,
-    params: any,
-  ): Promise<any> {
-    // Mock campaign execution - in production would call actual agent methods
-    console.log(`[CommandRouter] Executing campaign action: ${params.action}`);
-
-    const mockResult = {
-      action: params.action,
-      campaignsAffected: params.campaignFilter ? 3 : 1,
-      budgetImpact: params.action === "pause" ? -2400 : 0,
-      estimatedSavings: params.action === "pause" ? 2400 : 0,
-      confidence: 0.92,
-      details: `Campaign ${params.action} executed successfully`,
-    };
-
-    await this.mockDelay(2000);
-    return mockResult;
-  }
-
-  private async executeContentAction(
-    agent: ContentAgent,
-    params: any,
-  ): Promise<any> {
-    console.log(
-      `[CommandRouter] Executing content action: ${params.contentType}`,
-    );
-
-    const mockResult = {
-      contentType: params.contentType,
-      generatedContent:
-        "Sample AI-generated marketing content with brand alignment",
-      brandAlignmentScore: 0.94,
-      confidence: 0.89,
-      wordCount: 250,
-      suggestedPlatforms: ["social", "email", "blog"],
-    };
-
-    await this.mockDelay(3000);
-    return mockResult;
-  }
-
-  private async executeBrandAction(
-    agent: BrandVoiceAgent,
-    params: any,
-  ): Promise<any> {
-    console.log(`[CommandRouter] Executing brand voice action`);
-
-    const mockResult = {
-      alignmentScore: 0.91,
-      voiceConsistency: 0.94,
-      suggestions: [
-        "Maintain consistent tone across platforms",
-        "Review terminology usage",
-      ],
-      confidence: 0.87,
-    };
-
-    await this.mockDelay(1500);
-    return mockResult;
-  }
-
-  private async executeInsightAction(
-    agent: InsightAgent,
-    params: any,
-  ): Promise<any> {
-    console.log(
-      `[CommandRouter] Executing insight analysis: ${params.analysisType}`,
-    );
-
-    const mockResult = {
-      analysisType: params.analysisType,
-      insights: [
-        "ROAS increased by 23% this quarter",
-        "Video content performing 40% better than static",
-        "Mobile engagement up 15% month-over-month",
-      ],
-      metrics: params.metrics.map((metric: string) => ({
-        name: metric,
-        value: Math.random() * 100,
-        trend: Math.random() > 0.5 ? "up" : "down",
-      })),
-      confidence: 0.85,
-    };
-
-    await this.mockDelay(2500);
-    return mockResult;
-  }
-
-  private async executeTrendAction(
-    agent: TrendAgent,
-    params: any,
-  ): Promise<any> {
-    console.log(`[CommandRouter] Executing trend analysis`);
-
-    const mockResult = {
-      trends: [
-        { trend: "Video content adoption", strength: 0.78, direction: "up" },
-        { trend: "Mobile-first engagement", strength: 0.65, direction: "up" },
-        {
-          trend: "Personalization effectiveness",
-          strength: 0.82,
-          direction: "up",
-        },
-      ],
-      predictions: [
-        "Video content will dominate Q2 performance",
-        "Mobile engagement expected to grow 25%",
-      ],
-      confidence: 0.81,
-    };
-
-    await this.mockDelay(2000);
-    return mockResult;
-  }
-
   private synthesizeWorkflowOutput(
     results: AgentExecutionResult[],
     intent: ParsedIntent,
@@ -847,27 +667,6 @@ export class CommandRouter {
     };
   }
 
-  private updateExecution(executionId: string, result: CommandResult): void {
-    this.activeExecutions.set(executionId, result);
-  }
-
-  private archiveExecution(executionId: string): void {
-    const result = this.activeExecutions.get(executionId);
-    if (result) {
-      this.executionHistory.push(result);
-      this.activeExecutions.delete(executionId);
-
-      // Keep only last 100 executions in history
-      if (this.executionHistory.length > 100) {
-        this.executionHistory = this.executionHistory.slice(-100);
-      }
-    }
-  }
-
-  private async mockDelay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   // Initialization methods
   private initializeAgentRegistry(): void {
     this.agentRegistry.set("boardroom", new BoardroomReportAgent());
@@ -920,8 +719,9 @@ export class CommandRouter {
 
   private initializeWorkflows(): void {
     // Initialize predefined workflows for complex operations
-    const reportGenerationWorkflow: WorkflowDefinition = {
+    this.registerWorkflow({
       id: "comprehensive_report_generation",
+      version: 1,
       name: "Comprehensive Report Generation",
       description:
         "Generate a full boardroom report with insights and forecasts",
@@ -969,42 +769,325 @@ export class CommandRouter {
           },
         },
       ],
+    });
+  }
+
+  /**
+   * Register a workflow document (JSON or YAML text, or a parsed object).
+   * The whole document is validated first; versions are immutable, so
+   * changes must be registered under a new version.
+   */
+  registerWorkflow(
+    source: string | object,
+    format?: WorkflowDocumentFormat,
+  ): WorkflowDefinition {
+    const options: WorkflowValidationOptions = {
+      agentTypes: Array.from(this.agentRegistry.keys()),
+      triggers: Object.values(IntentAction),
     };
+    const definition =
+      typeof source === "string"
+        ? loadWorkflowDocument(source, format, options)
+        : validateWorkflow(source, options);
+
+    const versions = this.workflows.get(definition.id) ?? new Map();
+    const existing = versions.get(definition.version);
+    if (existing && JSON.stringify(existing) !== JSON.stringify(definition)) {
+      throw new Error(
+        `Workflow ${definition.id} version ${definition.version} is already registered`,
+      );
+    }
 
-    this.workflows.set(reportGenerationWorkflow.id, reportGenerationWorkflow);
+    versions.set(definition.version, definition);
+    this.workflows.set(definition.id, versions);
+    return definition;
   }
 
-  // Public methods for monitoring and management
-  getActiveExecutions(): CommandResult[] {
-    return Array.from(this.activeExecutions.values());
+  /**
+   * Get a workflow by id, at a specific version or the latest one
+   */
+  getWorkflow(workflowId: string, version?: number): WorkflowDefinition | null {
+    const versions = this.workflows.get(workflowId);
+    if (!versions) return null;
+    if (version !== undefined) return versions.get(version) ?? null;
+
+    const latest = Math.max(...versions.keys());
+    return versions.get(latest) ?? null;
   }
 
-  getExecutionHistory(limit: number = 50): CommandResult[] {
-    return this.executionHistory.slice(-limit);
+  listWorkflows(): WorkflowDefinition[] {
+    return Array.from(this.workflows.keys()).map(
+      (workflowId) => this.getWorkflow(workflowId)!,
+    );
   }
 
-  getExecutionById(executionId: string): CommandResult | null {
-    return (
-      this.activeExecutions.get(executionId) ||
-      this.executionHistory.find((r) => r.executionId === executionId) ||
-      null
+  /**
+   * Run a registered workflow. Inputs are checked before any step starts.
+   */
+  async runWorkflow(
+    workflowId: string,
+    inputs: Record<string, unknown>,
+    context: CommandExecutionContext,
+    version?: number,
+  ): Promise<CommandResult> {
+    const definition = this.getWorkflow(workflowId, version);
+    if (!definition) {
+      throw new Error(
+        `Workflow not found: ${workflowId}${version ? ` v${version}` : ""}`,
+      );
+    }
+
+    const executionId = `wf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const engine = new WorkflowEngine(this.createStepExecutor(context));
+
+    const result: CommandResult = {
+      executionId,
+      status: ExecutionStatus.RUNNING,
+      startTime: new Date().toISOString(),
+      agentResults: [],
+      finalOutput: null,
+      confidence: 0,
+    };
+
+    const run = await engine.run(definition, { inputs });
+
+    result.agentResults = this.toAgentResults(run, definition);
+    result.finalOutput = { outputs: run.outputs, steps: run.steps };
+    result.status =
+      run.status === "completed"
+        ? ExecutionStatus.COMPLETED
+        : run.status === "timeout"
+          ? ExecutionStatus.TIMEOUT
+          : ExecutionStatus.FAILED;
+    result.endTime = run.endedAt;
+    result.duration = run.duration;
+    result.confidence =
+      run.status === "completed"
+        ? result.agentResults.reduce((sum, r) => sum + (r.confidence || 0), 0) /
+          Math.max(result.agentResults.length, 1)
+        : 0;
+    if (run.error) {
+      result.errors = [
+        {
+          code:
+            run.status === "timeout" ? "WORKFLOW_TIMEOUT" : "WORKFLOW_FAILED",
+          message: run.error,
+          timestamp: run.endedAt,
+          severity: "high",
+          recoverable: true,
+        },
+      ];
+    }
+
+    return result;
+  }
+
+  /**
+   * Runs workflow steps and copilot plans on the registered agents. An
+   * unsuccessful agent result fails the step.
+   */
+  private createStepExecutor(
+    context: CommandExecutionContext,
+  ): WorkflowStepExecutor {
+    return async (request) => {
+      const agent = this.agentRegistry.get(request.agentType);
+      if (!agent) {
+        throw new Error(`Agent not found: ${request.agentType}`);
+      }
+
+      // The boardroom agent only produces reports
+      if (agent instanceof BoardroomReportAgent) {
+        return agent.generateReport(
+          request.parameters as unknown as BoardroomReportConfig,
+        );
+      }
+
+      const result = await agent.execute({
+        task: request.action,
+        context: {
+          ...request.parameters,
+          sessionId: context.sessionId,
+          userId: context.userId,
+        },
+        metadata: { workflowStep: request.stepId },
+      });
+      if (result.success === false) {
+        throw new Error(
+          String(result.error || `${request.agentType} agent run failed`),
+        );
+      }
+      return result;
+    };
+  }
+
+  private toAgentResults(
+    run: WorkflowRunResult,
+    definition: WorkflowDefinition,
+  ): AgentExecutionResult[] {
+    const statuses: Record<string, ExecutionStatus> = {
+      completed: ExecutionStatus.COMPLETED,
+      failed: ExecutionStatus.FAILED,
+      timeout: ExecutionStatus.TIMEOUT,
+      skipped: ExecutionStatus.CANCELLED,
+    };
+
+    return definition.steps
+      .filter((step) => step.agentType)
+      .map((step) => {
+        const state = run.steps[step.id]!;
+        const output = state.output as { confidence?: number } | undefined;
+
+        return {
+          agentType: state.agentType ?? step.agentType!,
+          agentId: step.id,
+          status: statuses[state.status] ?? ExecutionStatus.PENDING,
+          startTime: state.startedAt ?? run.startedAt,
+          ...(state.endedAt && { endTime: state.endedAt }),
+          ...(state.duration !== undefined && { duration: state.duration }),
+          input: step.parameters,
+          output: state.output,
+          confidence: output?.confidence ?? 0.8,
+          ...(state.error && { error: state.error }),
+          ...(state.reason && { metadata: { skipReason: state.reason } }),
+        };
+      });
+  }
+
+  /**
+   * Queue a command for a job worker instead of running it in this
+   * process, so it survives restarts. The job's result is the
+   * CommandResult once a worker has run it.
+   */
+  async submitCommand(
+    command: string,
+    context: CommandExecutionContext,
+    options: SubmitCommandOptions = {},
+  ): Promise<AgentJob> {
+    const payload: CommandJobPayload = { command, context };
+
+    return this.jobQueue.enqueue({
+      agentType: COMMAND_JOB_TYPE,
+      task: "process_command",
+      payload: payload as unknown as Record<string, unknown>,
+      workspaceId: options.workspaceId,
+      priority: options.priority,
+      idempotencyKey: options.idempotencyKey,
+      runAt: options.runAt,
+      retry: { maxAttempts: 2 },
+    });
+  }
+
+  /**
+   * Handler that runs queued commands; register it on a JobWorker under
+   * COMMAND_JOB_TYPE
+   */
+  createJobHandler(): JobHandler {
+    return async (job) => {
+      const { command, context } = job.payload as unknown as CommandJobPayload;
+      const result = await this.processCommand(command, context);
+
+      if (result.status === ExecutionStatus.FAILED) {
+        throw new Error(
+          result.errors?.[0]?.message || "Command execution failed",
+        );
+      }
+      return result;
+    };
+  }
+
+  async getQueuedCommand(jobId: string): Promise<AgentJob | null> {
+    const job = await this.jobQueue.getJob(jobId);
+    return job?.agentType === COMMAND_JOB_TYPE ? job : null;
+  }
+
+  /**
+   * A command job as an execution: the CommandResult it finished with, or
+   * its state on the queue while it waits, runs or after it failed. The
+   * job id is the execution id.
+   */
+  private toCommandResult(job: AgentJob): CommandResult {
+    if (job.status === "COMPLETED" && job.result) {
+      return {
+        ...(job.result as unknown as CommandResult),
+        executionId: job.id,
+      };
+    }
+
+    const endedAt = job.completedAt ?? job.deadAt;
+    return {
+      executionId: job.id,
+      status: JOB_EXECUTION_STATUS[job.status],
+      startTime: job.createdAt.toISOString(),
+      ...(endedAt && {
+        endTime: endedAt.toISOString(),
+        duration: endedAt.getTime() - job.createdAt.getTime(),
+      }),
+      agentResults: [],
+      finalOutput: null,
+      confidence: 0,
+      ...(job.lastError && {
+        errors: [
+          {
+            code: "EXECUTION_FAILED",
+            message: job.lastError,
+            timestamp: job.updatedAt.toISOString(),
+            severity: "high" as const,
+            recoverable: job.status !== "DEAD",
+          },
+        ],
+      }),
+    };
+  }
+
+  // Public methods for monitoring and management. Executions are the
+  // command jobs on the queue, so every process sees the same ones.
+  async getActiveExecutions(workspaceId?: string): Promise<CommandResult[]> {
+    const [running, pending] = await Promise.all(
+      (["RUNNING", "PENDING"] as const).map((status) =>
+        this.jobQueue.listJobs(status, {
+          workspaceId,
+          agentType: COMMAND_JOB_TYPE,
+        }),
+      ),
     );
+    return [...running!, ...pending!].map((job) => this.toCommandResult(job));
   }
 
+  async getExecutionHistory(
+    limit: number = 50,
+    workspaceId?: string,
+  ): Promise<CommandResult[]> {
+    const finished = await Promise.all(
+      (["COMPLETED", "DEAD", "CANCELLED"] as const).map((status) =>
+        this.jobQueue.listJobs(status, {
+          workspaceId,
+          agentType: COMMAND_JOB_TYPE,
+          limit,
+        }),
+      ),
+    );
+    return finished
+      .flat()
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, limit)
+      .map((job) => this.toCommandResult(job));
+  }
+
+  async getExecutionById(executionId: string): Promise<CommandResult | null> {
+    const job = await this.getQueuedCommand(executionId);
+    return job ? this.toCommandResult(job) : null;
+  }
+
+  /**
+   * Cancel a queued command that no worker has started yet
+   */
   async cancelExecution(executionId: string): Promise<boolean> {
-    const execution = this.activeExecutions.get(executionId);
-    if (execution && execution.status === ExecutionStatus.RUNNING) {
-      execution.status = ExecutionStatus.CANCELLED;
-      execution.endTime = new Date().toISOString();
-      this.updateExecution(executionId, execution);
-      this.archiveExecution(executionId);
-      return true;
-    }
-    return false;
+    const job = await this.getQueuedCommand(executionId);
+    return job ? this.jobQueue.cancel(job.id) : false;
   }
 
-  getSystemMetrics(): ExecutionMetrics {
-    const recentExecutions = this.executionHistory.slice(-50);
+  async getSystemMetrics(workspaceId?: string): Promise<ExecutionMetrics> {
+    const recentExecutions = await this.getExecutionHistory(50, workspaceId);
     const successfulExecutions = recentExecutions.filter(
       (e) => e.status === ExecutionStatus.COMPLETED,
     );
@@ -0,0 +1,207 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { WorkflowEngine, type WorkflowStepRequest } from "./WorkflowEngine";
+import { validateWorkflow, WorkflowValidationError } from "./workflow-dsl";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("WorkflowEngine", () => {
+  it("should fan out independent steps and pass outputs downstream", async () => {
+    const started: string[] = [];
+    const executor = jest.fn(async (request: WorkflowStepRequest) => {
+      started.push(request.stepId);
+      await delay(10);
+      return { step: request.stepId, params: request.parameters };
+    });
+
+    const definition = validateWorkflow({
+      id: "fan_out",
+      version: 1,
+      name: "Fan out",
+      inputs: { topic: { type: "string", required: true } },
+      steps: [
+        { id: "plan", agentType: "insight", action: "plan" },
+        {
+          id: "email",
+          agentType: "email",
+          action: "draft",
+          dependencies: ["plan"],
+          parameters: { topic: "{{ inputs.topic }}" },
+        },
+        {
+          id: "social",
+          agentType: "social",
+          action: "draft",
+          dependencies: ["plan"],
+        },
+        {
+          id: "review",
+          agentType: "brand_voice",
+          action: "review",
+          dependencies: ["email", "social"],
+          parameters: { email: "{{ steps.email.output.params.topic }}" },
+        },
+      ],
+      outputs: { reviewed: "{{ steps.review.output.params.email }}" },
+    });
+
+    const run = await new WorkflowEngine(executor).run(definition, {
+      inputs: { topic: "launch" },
+    });
+
+    expect(run.status).toBe("completed");
+    expect(started[0]).toBe("plan");
+    expect(started.slice(1, 3).sort()).toEqual(["email", "social"]);
+    expect(started[3]).toBe("review");
+    expect(run.outputs).toEqual({ reviewed: "launch" });
+  });
+
+  it("should follow the chosen branch and skip the others", async () => {
+    const executor = jest.fn(async (request: WorkflowStepRequest) =>
+      request.stepId === "score" ? { value: 0.4 } : { ok: true },
+    );
+
+    const definition = validateWorkflow({
+      id: "branching",
+      version: 1,
+      name: "Branching",
+      steps: [
+        { id: "score", agentType: "insight", action: "score" },
+        {
+          id: "route",
+          branch: [
+            {
+              when: { path: "steps.score.output.value", op: "gte", value: 0.7 },
+              next: ["publish"],
+            },
+            { next: ["revise"] },
+          ],
+        },
+        {
+          id: "publish",
+          agentType: "content",
+          action: "publish",
+          dependencies: ["route"],
+        },
+        {
+          id: "revise",
+          agentType: "content",
+          action: "revise",
+          dependencies: ["route"],
+        },
+        {
+          id: "notify",
+          agentType: "email",
+          action: "notify",
+          dependencies: ["publish", "revise"],
+        },
+      ],
+    });
+
+    const run = await new WorkflowEngine(executor).run(definition);
+
+    expect(run.status).toBe("completed");
+    expect(run.steps.publish!.status).toBe("skipped");
+    expect(run.steps.publish!.reason).toBe("Not selected by branch route");
+    expect(run.steps.revise!.status).toBe("completed");
+    expect(run.steps.notify!.status).toBe("completed");
+  });
+
+  it("should skip steps whose condition fails", async () => {
+    const definition = validateWorkflow({
+      id: "conditional",
+      version: 1,
+      name: "Conditional",
+      inputs: { dryRun: { type: "boolean", default: true } },
+      steps: [
+        {
+          id: "send",
+          agentType: "email",
+          action: "send",
+          when: { path: "inputs.dryRun", op: "eq", value: false },
+        },
+        { id: "after", agentType: "email", action: "log" },
+      ],
+    });
+    const executor = jest.fn(async () => ({}));
+
+    const run = await new WorkflowEngine(executor).run(definition);
+
+    expect(run.steps.send!.status).toBe("skipped");
+    expect(run.steps.after!.reason).toBe("All dependencies were skipped");
+    expect(executor).not.toHaveBeenCalled();
+  });
+
+  it("should time out slow steps and fail the workflow", async () => {
+    const definition = validateWorkflow({
+      id: "slow",
+      version: 1,
+      name: "Slow",
+      steps: [
+        { id: "slow", agentType: "trend", action: "scan", timeout: 20 },
+        { id: "never", agentType: "trend", action: "report" },
+      ],
+    });
+
+    const run = await new WorkflowEngine(() => delay(200)).run(definition);
+
+    expect(run.status).toBe("failed");
+    expect(run.steps.slow!.status).toBe("timeout");
+    expect(run.steps.never!.status).toBe("skipped");
+  });
+
+  it("should retry, then fall back, then continue on error", async () => {
+    const executor = jest.fn(async (request: WorkflowStepRequest) => {
+      if (request.agentType === "flaky") throw new Error("provider down");
+      if (request.action === "broken") throw new Error("still broken");
+      return { agent: request.agentType };
+    });
+
+    const definition = validateWorkflow({
+      id: "recovery",
+      version: 1,
+      name: "Recovery",
+      steps: [
+        {
+          id: "draft",
+          agentType: "flaky",
+          action: "draft",
+          retryPolicy: { maxAttempts: 2, initialDelay: 1 },
+          fallbackOptions: [
+            { id: "backup", agentType: "content", action: "draft" },
+          ],
+        },
+        {
+          id: "optional",
+          agentType: "content",
+          action: "broken",
+          continueOnError: true,
+        },
+        { id: "finish", agentType: "content", action: "finish" },
+      ],
+    });
+
+    const run = await new WorkflowEngine(executor).run(definition);
+
+    expect(run.status).toBe("completed");
+    expect(run.steps.draft!.attempts).toBe(2);
+    expect(run.steps.draft!.output).toEqual({ agent: "content" });
+    expect(run.steps.optional!.status).toBe("failed");
+    expect(run.steps.finish!.status).toBe("completed");
+  });
+
+  it("should reject missing inputs before running anything", async () => {
+    const executor = jest.fn(async () => ({}));
+    const definition = validateWorkflow({
+      id: "needs_input",
+      version: 1,
+      name: "Needs input",
+      inputs: { campaignId: { type: "string", required: true } },
+      steps: [{ id: "load", agentType: "campaign", action: "load" }],
+    });
+
+    await expect(
+      new WorkflowEngine(executor).run(definition, { inputs: {} }),
+    ).rejects.toBeInstanceOf(WorkflowValidationError);
+    expect(executor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,388 @@
+import { computeRetryDelay } from "../queue/job-queue";
+import {
+  evaluateCondition,
+  renderTemplates,
+  WorkflowValidationError,
+  type WorkflowDefinition,
+  type WorkflowStep,
+  type WorkflowValidationIssue,
+} from "./workflow-dsl";
+
+export type WorkflowStepStatus =
+  | "pending"
+  | "running"
+  | "completed"
+  | "skipped"
+  | "failed"
+  | "timeout";
+
+export interface WorkflowStepState {
+  id: string;
+  status: WorkflowStepStatus;
+  agentType?: string;
+  output?: unknown;
+  error?: string;
+  // Why a skipped step did not run
+  reason?: string;
+  attempts: number;
+  startedAt?: string;
+  endedAt?: string;
+  duration?: number;
+}
+
+export interface WorkflowRunResult {
+  workflowId: string;
+  version: number;
+  status: "completed" | "failed" | "timeout";
+  startedAt: string;
+  endedAt: string;
+  duration: number;
+  steps: Record<string, WorkflowStepState>;
+  outputs: Record<string, unknown>;
+  error?: string;
+}
+
+export interface WorkflowStepRequest {
+  stepId: string;
+  agentType: string;
+  action: string;
+  parameters: Record<string, unknown>;
+}
+
+export type WorkflowStepExecutor = (
+  request: WorkflowStepRequest,
+) => Promise<unknown>;
+
+export interface WorkflowRunOptions {
+  inputs?: Record<string, unknown>;
+  onStepFinished?: (state: WorkflowStepState) => void;
+}
+
+class StepTimeoutError extends Error {
+  constructor(stepId: string, timeout: number) {
+    super(`Step ${stepId} timed out after ${timeout}ms`);
+    this.name = "StepTimeoutError";
+  }
+}
+
+function withTimeout<T>(
+  promise: Promise<T>,
+  timeout: number,
+  stepId: string,
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new StepTimeoutError(stepId, timeout)),
+      timeout,
+    );
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const isFinished = (state: WorkflowStepState) =>
+  state.status !== "pending" && state.status !== "running";
+
+/**
+ * Runs validated workflow definitions. Each step starts as soon as all of
+ * its dependencies have finished, so independent steps run in parallel.
+ * Agent calls go through the executor the caller provides.
+ */
+export class WorkflowEngine {
+  constructor(private executeStep: WorkflowStepExecutor) {}
+
+  async run(
+    definition: WorkflowDefinition,
+    options: WorkflowRunOptions = {},
+  ): Promise<WorkflowRunResult> {
+    const inputs = resolveInputs(definition, options.inputs ?? {});
+    const startedAt = new Date();
+    const deadline = startedAt.getTime() + definition.timeout;
+
+    const states = new Map<string, WorkflowStepState>(
+      definition.steps.map((step) => [
+        step.id,
+        { id: step.id, status: "pending", attempts: 0 },
+      ]),
+    );
+    const scope = {
+      inputs,
+      vars: definition.variables ?? {},
+      steps: {} as Record<string, WorkflowStepState>,
+    };
+    const deselected = new Map<string, string>();
+    const running = new Map<string, Promise<void>>();
+    let failure: string | undefined;
+    let timedOut = false;
+
+    const finish = (step: WorkflowStep, update: Partial<WorkflowStepState>) => {
+      const state = states.get(step.id)!;
+      // Late results after the workflow timed out are dropped
+      if (state.status !== "running" && state.status !== "pending") return;
+
+      const failed = update.status === "failed" || update.status === "timeout";
+      Object.assign(state, update, { endedAt: new Date().toISOString() });
+      if (state.startedAt) {
+        state.duration =
+          new Date(state.endedAt!).getTime() -
+          new Date(state.startedAt).getTime();
+      }
+      scope.steps[step.id] = state;
+
+      if (failed && !step.continueOnError && !failure) {
+        failure = `Step ${step.id} failed: ${state.error}`;
+      }
+      options.onStepFinished?.(state);
+    };
+
+    const skipReason = (step: WorkflowStep): string | null => {
+      const branch = deselected.get(step.id);
+      if (branch) return `Not selected by branch ${branch}`;
+
+      if (
+        step.dependencies.length > 0 &&
+        step.dependencies.every(
+          (dependency) => states.get(dependency)!.status === "skipped",
+        )
+      ) {
+        return "All dependencies were skipped";
+      }
+
+      if (step.when && !evaluateCondition(step.when, scope)) {
+        return "Condition not met";
+      }
+      return null;
+    };
+
+    const launch = (step: WorkflowStep) => {
+      const state = states.get(step.id)!;
+      state.status = "running";
+      if (step.agentType) state.agentType = step.agentType;
+      state.startedAt = new Date().toISOString();
+
+      const run = step.branch
+        ? this.runBranch(step, scope, deselected)
+        : this.runAgentStep(step, scope, state);
+
+      running.set(
+        step.id,
+        run
+          .then((update) => finish(step, update))
+          .finally(() => running.delete(step.id)),
+      );
+    };
+
+    const schedule = () => {
+      let progressed = true;
+      while (progressed && !failure && !timedOut) {
+        progressed = false;
+        for (const step of definition.steps) {
+          const state = states.get(step.id)!;
+          if (state.status !== "pending") continue;
+          if (
+            !step.dependencies.every((dependency) =>
+              isFinished(states.get(dependency)!),
+            )
+          ) {
+            continue;
+          }
+
+          const reason = skipReason(step);
+          if (reason) {
+            finish(step, { status: "skipped", reason });
+            progressed = true;
+          } else {
+            launch(step);
+          }
+        }
+      }
+    };
+
+    let deadlineTimer: NodeJS.Timeout | undefined;
+    const deadlineReached = new Promise<void>((resolve) => {
+      deadlineTimer = setTimeout(resolve, Math.max(deadline - Date.now(), 0));
+    });
+
+    try {
+      schedule();
+      while (running.size > 0) {
+        const next = await Promise.race([
+          Promise.race(running.values()).then(() => "step" as const),
+          deadlineReached.then(() => "deadline" as const),
+        ]);
+
+        if (next === "deadline") {
+          timedOut = true;
+          break;
+        }
+        schedule();
+      }
+    } finally {
+      clearTimeout(deadlineTimer);
+    }
+
+    for (const step of definition.steps) {
+      const state = states.get(step.id)!;
+      if (state.status === "running") {
+        finish(step, {
+          status: "timeout",
+          error: "Workflow timed out before the step finished",
+        });
+      } else if (state.status === "pending") {
+        finish(step, { status: "skipped", reason: "Workflow stopped" });
+      }
+    }
+
+    const endedAt = new Date();
+    const status = timedOut ? "timeout" : failure ? "failed" : "completed";
+
+    return {
+      workflowId: definition.id,
+      version: definition.version,
+      status,
+      startedAt: startedAt.toISOString(),
+      endedAt: endedAt.toISOString(),
+      duration: endedAt.getTime() - startedAt.getTime(),
+      steps: Object.fromEntries(states),
+      outputs:
+        status === "completed"
+          ? (renderTemplates(definition.outputs ?? {}, scope) as Record<
+              string,
+              unknown
+            >)
+          : {},
+      ...(status === "timeout"
+        ? { error: `Workflow timed out after ${definition.timeout}ms` }
+        : failure
+          ? { error: failure }
+          : {}),
+    };
+  }
+
+  private async runBranch(
+    step: WorkflowStep,
+    scope: unknown,
+    deselected: Map<string, string>,
+  ): Promise<Partial<WorkflowStepState>> {
+    const cases = step.branch ?? [];
+    const chosen = cases.find(
+      (branchCase) =>
+        !branchCase.when || evaluateCondition(branchCase.when, scope),
+    );
+    const selected = new Set(chosen?.next ?? []);
+
+    for (const branchCase of cases) {
+      for (const target of branchCase.next) {
+        if (!selected.has(target)) deselected.set(target, step.id);
+      }
+    }
+
+    return { status: "completed", output: { next: Array.from(selected) } };
+  }
+
+  private async runAgentStep(
+    step: WorkflowStep,
+    scope: unknown,
+    state: WorkflowStepState,
+  ): Promise<Partial<WorkflowStepState>> {
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= step.retryPolicy.maxAttempts; attempt++) {
+      state.attempts = attempt;
+      try {
+        const output = await withTimeout(
+          this.executeStep({
+            stepId: step.id,
+            agentType: step.agentType!,
+            action: step.action!,
+            parameters: renderTemplates(step.parameters ?? {}, scope) as Record<
+              string,
+              unknown
+            >,
+          }),
+          step.timeout,
+          step.id,
+        );
+        return { status: "completed", output };
+      } catch (error) {
+        lastError = error;
+        if (attempt < step.retryPolicy.maxAttempts) {
+          await sleep(computeRetryDelay(step.retryPolicy, attempt));
+        }
+      }
+    }
+
+    for (const fallback of step.fallbackOptions ?? []) {
+      try {
+        const output = await withTimeout(
+          this.executeStep({
+            stepId: step.id,
+            agentType: fallback.agentType!,
+            action: fallback.action!,
+            parameters: renderTemplates(
+              fallback.parameters ?? {},
+              scope,
+            ) as Record<string, unknown>,
+          }),
+          fallback.timeout,
+          step.id,
+        );
+        return {
+          status: "completed",
+          agentType: fallback.agentType!,
+          output,
+        };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    return {
+      status: lastError instanceof StepTimeoutError ? "timeout" : "failed",
+      error: lastError instanceof Error ? lastError.message : String(lastError),
+    };
+  }
+}
+
+/**
+ * Apply input defaults and reject missing or mistyped inputs before any
+ * step runs
+ */
+function resolveInputs(
+  definition: WorkflowDefinition,
+  provided: Record<string, unknown>,
+): Record<string, unknown> {
+  const issues: WorkflowValidationIssue[] = [];
+  const inputs: Record<string, unknown> = {};
+
+  for (const [name, input] of Object.entries(definition.inputs ?? {})) {
+    const value = provided[name] ?? input.default;
+
+    if (value === undefined) {
+      if (input.required) {
+        issues.push({
+          path: `inputs.${name}`,
+          message: "Required input is missing",
+        });
+      }
+      continue;
+    }
+
+    const actualType = Array.isArray(value) ? "array" : typeof value;
+    if (input.type && actualType !== input.type) {
+      issues.push({
+        path: `inputs.${name}`,
+        message: `Expected ${input.type}, got ${actualType}`,
+      });
+    }
+    inputs[name] = value;
+  }
+
+  if (issues.length > 0) {
+    throw new WorkflowValidationError(issues, definition.id);
+  }
+  return inputs;
+}
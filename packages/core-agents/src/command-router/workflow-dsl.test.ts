@@ -0,0 +1,178 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  evaluateCondition,
+  renderTemplates,
+  validateWorkflow,
+  WorkflowValidationError,
+} from "./workflow-dsl";
+
+const document = (overrides: Record<string, unknown> = {}) => ({
+  id: "launch_brief",
+  version: 1,
+  name: "Launch brief",
+  inputs: { product: { type: "string", required: true } },
+  steps: [
+    {
+      id: "research",
+      agentType: "insight",
+      action: "gather_data",
+      parameters: { product: "{{ inputs.product }}" },
+    },
+    {
+      id: "draft",
+      agentType: "content",
+      action: "generate_post",
+      parameters: { insights: "{{ steps.research.output }}" },
+    },
+  ],
+  ...overrides,
+});
+
+const issuesOf = (input: unknown, options = {}) => {
+  try {
+    validateWorkflow(input, options);
+  } catch (error) {
+    expect(error).toBeInstanceOf(WorkflowValidationError);
+    return (error as WorkflowValidationError).issues;
+  }
+  throw new Error("Expected validation to fail");
+};
+
+describe("validateWorkflow", () => {
+  it("should fill in defaults and chain steps without dependencies", () => {
+    const definition = validateWorkflow(document());
+
+    expect(definition.timeout).toBeGreaterThan(0);
+    expect(definition.rollbackStrategy).toBe("none");
+    expect(definition.steps[0]!.dependencies).toEqual([]);
+    expect(definition.steps[1]!.dependencies).toEqual(["research"]);
+    expect(definition.steps[1]!.retryPolicy.maxAttempts).toBe(1);
+  });
+
+  it("should reject unknown fields and missing versions", () => {
+    const issues = issuesOf({ ...document(), version: undefined, retries: 3 });
+
+    expect(issues.map((issue) => issue.path)).toEqual(
+      expect.arrayContaining(["version", "(root)"]),
+    );
+  });
+
+  it("should report every structural problem at once", () => {
+    const issues = issuesOf(
+      document({
+        steps: [
+          { id: "a", agentType: "insight", action: "x", dependencies: ["b"] },
+          { id: "b", agentType: "insight", action: "x", dependencies: ["a"] },
+          { id: "c", agentType: "unknown", action: "x", dependencies: ["z"] },
+        ],
+      }),
+      { agentTypes: ["insight"] },
+    );
+
+    const messages = issues.map((issue) => issue.message);
+    expect(messages).toContain('Unknown agent type "unknown"');
+    expect(messages).toContain('Unknown step "z"');
+    expect(messages.some((m) => m.startsWith("Dependency cycle"))).toBe(true);
+  });
+
+  it("should only allow templates that reference upstream steps", () => {
+    const issues = issuesOf(
+      document({
+        steps: [
+          {
+            id: "research",
+            agentType: "insight",
+            action: "gather_data",
+            parameters: { draft: "{{ steps.draft.output }}" },
+            dependencies: [],
+          },
+          {
+            id: "draft",
+            agentType: "content",
+            action: "generate_post",
+            parameters: { market: "{{ vars.market }}" },
+          },
+        ],
+      }),
+    );
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      '"steps.draft.output" is not a dependency of step "research"',
+      'Undeclared variable "vars.market"',
+    ]);
+  });
+
+  it("should require branch targets to depend on the branch", () => {
+    const issues = issuesOf(
+      document({
+        steps: [
+          { id: "score", agentType: "insight", action: "score" },
+          {
+            id: "route",
+            branch: [
+              {
+                when: { path: "steps.score.output.value", op: "gt", value: 1 },
+                next: ["publish"],
+              },
+            ],
+          },
+          {
+            id: "publish",
+            agentType: "content",
+            action: "publish",
+            dependencies: ["score"],
+          },
+        ],
+      }),
+    );
+
+    expect(issues[0]!.message).toBe(
+      'Step "publish" must depend on branch "route"',
+    );
+  });
+});
+
+describe("templates and conditions", () => {
+  const scope = {
+    inputs: { product: "Neon" },
+    steps: { draft: { output: { title: "Hello", score: 0.9, tags: ["a"] } } },
+  };
+
+  it("should keep the type of whole templates and interpolate the rest", () => {
+    expect(
+      renderTemplates(
+        {
+          draft: "{{ steps.draft.output }}",
+          headline: "{{ inputs.product }}: {{steps.draft.output.title}}",
+          list: ["{{ steps.draft.output.score }}"],
+        },
+        scope,
+      ),
+    ).toEqual({
+      draft: { title: "Hello", score: 0.9, tags: ["a"] },
+      headline: "Neon: Hello",
+      list: [0.9],
+    });
+  });
+
+  it("should evaluate nested conditions", () => {
+    expect(
+      evaluateCondition(
+        {
+          all: [
+            { path: "steps.draft.output.score", op: "gte", value: 0.8 },
+            { path: "steps.draft.output.tags", op: "contains", value: "a" },
+            { not: { path: "steps.draft.output.missing", op: "exists" } },
+          ],
+        },
+        scope,
+      ),
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { any: [{ path: "inputs.product", op: "in", value: ["Other"] }] },
+        scope,
+      ),
+    ).toBe(false);
+  });
+});
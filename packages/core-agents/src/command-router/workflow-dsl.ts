@@ -0,0 +1,591 @@
+import { z } from "zod";
+import type { IntentAction } from "../agents/llm-copilot-agent";
+
+/**
+ * Declarative workflow documents for the CommandRouter. A workflow is a
+ * versioned list of steps forming a DAG: steps listed in `dependencies`
+ * must finish first, so several steps depending on the same step fan out
+ * in parallel and a step depending on several fans them back in. Steps
+ * can be skipped with a `when` condition, `branch` steps pick which of
+ * their successors run, and `{{ steps.<id>.output.<path> }}` templates
+ * pass agent outputs on to later steps.
+ *
+ * Documents are validated as a whole before anything runs, so a typo in
+ * a step id or template path fails fast instead of halfway through.
+ */
+
+export const DEFAULT_WORKFLOW_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+export const DEFAULT_STEP_TIMEOUT = 30000; // 30 seconds
+
+export type ConditionOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "contains"
+  | "exists";
+
+export type WorkflowCondition =
+  | { all: WorkflowCondition[] }
+  | { any: WorkflowCondition[] }
+  | { not: WorkflowCondition }
+  | { path: string; op: ConditionOperator; value?: unknown };
+
+export interface WorkflowBranchCase {
+  // The first case whose condition holds is taken; omit it for a default
+  when?: WorkflowCondition;
+  next: string[];
+}
+
+export interface WorkflowInput {
+  type?: "string" | "number" | "boolean" | "object" | "array";
+  required?: boolean;
+  default?: unknown;
+  description?: string;
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  // Bumped on every change; runs may pin a version
+  version: number;
+  name: string;
+  description: string;
+  trigger?: IntentAction;
+  inputs?: Record<string, WorkflowInput>;
+  variables?: Record<string, unknown>;
+  steps: WorkflowStep[];
+  timeout: number;
+  rollbackStrategy: "none" | "partial" | "full";
+  // Templates resolved once every step has finished
+  outputs?: Record<string, unknown>;
+}
+
+export interface WorkflowStep {
+  id: string;
+  // Agent steps name an agent and action; branch steps only a `branch`
+  agentType?: string;
+  action?: string;
+  parameters?: any;
+  dependencies: string[];
+  timeout: number;
+  retryPolicy: {
+    maxAttempts: number;
+    backoffMultiplier: number;
+    initialDelay: number;
+  };
+  fallbackOptions?: WorkflowStep[];
+  when?: WorkflowCondition;
+  branch?: WorkflowBranchCase[];
+  // Keep going when the step fails; dependents see no output
+  continueOnError?: boolean;
+}
+
+export interface WorkflowValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(
+    public readonly issues: WorkflowValidationIssue[],
+    workflowId?: string,
+  ) {
+    super(
+      `Invalid workflow${workflowId ? ` ${workflowId}` : ""}: ` +
+        issues.map((issue) => `${issue.path}: ${issue.message}`).join("; "),
+    );
+    this.name = "WorkflowValidationError";
+  }
+}
+
+export interface WorkflowValidationOptions {
+  // Agent types steps may use; unchecked when omitted
+  agentTypes?: string[];
+  triggers?: string[];
+}
+
+const IDENTIFIER = /^[A-Za-z][\w-]*$/;
+const TEMPLATE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const WHOLE_TEMPLATE = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+const conditionSchema: z.ZodType<WorkflowCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(conditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(conditionSchema).min(1) }).strict(),
+    z.object({ not: conditionSchema }).strict(),
+    z
+      .object({
+        path: z.string().min(1),
+        op: z.enum([
+          "eq",
+          "neq",
+          "gt",
+          "gte",
+          "lt",
+          "lte",
+          "in",
+          "contains",
+          "exists",
+        ]),
+        value: z.unknown().optional(),
+      })
+      .strict(),
+  ]),
+);
+
+const retryPolicySchema = z
+  .object({
+    maxAttempts: z.number().int().min(1).max(10).default(1),
+    backoffMultiplier: z.number().min(1).default(2),
+    initialDelay: z.number().int().min(0).default(1000),
+  })
+  .strict();
+
+const fallbackSchema = z
+  .object({
+    id: z.string().regex(IDENTIFIER),
+    agentType: z.string().min(1),
+    action: z.string().min(1),
+    parameters: z.record(z.unknown()).optional(),
+    timeout: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const stepSchema = z
+  .object({
+    id: z.string().regex(IDENTIFIER, "must start with a letter"),
+    agentType: z.string().min(1).optional(),
+    action: z.string().min(1).optional(),
+    parameters: z.record(z.unknown()).optional(),
+    dependencies: z.array(z.string()).optional(),
+    timeout: z.number().int().positive().optional(),
+    retryPolicy: retryPolicySchema.optional(),
+    fallbackOptions: z.array(fallbackSchema).optional(),
+    when: conditionSchema.optional(),
+    branch: z
+      .array(
+        z
+          .object({
+            when: conditionSchema.optional(),
+            next: z.array(z.string()).min(1),
+          })
+          .strict(),
+      )
+      .min(1)
+      .optional(),
+    continueOnError: z.boolean().optional(),
+  })
+  .strict();
+
+const documentSchema = z
+  .object({
+    id: z.string().regex(IDENTIFIER, "must start with a letter"),
+    version: z.number().int().positive(),
+    name: z.string().min(1),
+    description: z.string().default(""),
+    trigger: z.string().optional(),
+    inputs: z
+      .record(
+        z
+          .object({
+            type: z
+              .enum(["string", "number", "boolean", "object", "array"])
+              .optional(),
+            required: z.boolean().optional(),
+            default: z.unknown().optional(),
+            description: z.string().optional(),
+          })
+          .strict(),
+      )
+      .optional(),
+    variables: z.record(z.unknown()).optional(),
+    steps: z.array(stepSchema).min(1),
+    timeout: z.number().int().positive().default(DEFAULT_WORKFLOW_TIMEOUT),
+    rollbackStrategy: z.enum(["none", "partial", "full"]).default("none"),
+    outputs: z.record(z.unknown()).optional(),
+  })
+  .strict();
+
+/**
+ * Validate a parsed workflow document and fill in defaults. Steps without
+ * `dependencies` depend on the step listed before them, so plain lists run
+ * in order. Throws a WorkflowValidationError listing every problem found.
+ */
+export function validateWorkflow(
+  document: unknown,
+  options: WorkflowValidationOptions = {},
+): WorkflowDefinition {
+  const parsed = documentSchema.safeParse(document);
+  if (!parsed.success) {
+    throw new WorkflowValidationError(
+      parsed.error.issues.map((issue) => ({
+        path: issue.path.join(".") || "(root)",
+        message: issue.message,
+      })),
+      (document as { id?: string } | null)?.id,
+    );
+  }
+
+  const doc = parsed.data;
+  // zod marks absent optionals as `undefined`, which is harmless here
+  const steps = doc.steps.map((step, index) => ({
+    ...step,
+    dependencies:
+      step.dependencies ?? (index > 0 ? [doc.steps[index - 1]!.id] : []),
+    timeout: step.timeout ?? DEFAULT_STEP_TIMEOUT,
+    retryPolicy: step.retryPolicy ?? {
+      maxAttempts: 1,
+      backoffMultiplier: 2,
+      initialDelay: 1000,
+    },
+    fallbackOptions: step.fallbackOptions?.map((fallback) => ({
+      ...fallback,
+      dependencies: [],
+      timeout: fallback.timeout ?? step.timeout ?? DEFAULT_STEP_TIMEOUT,
+      retryPolicy: { maxAttempts: 1, backoffMultiplier: 2, initialDelay: 0 },
+    })),
+  })) as WorkflowStep[];
+
+  const definition = { ...doc, steps } as WorkflowDefinition;
+
+  const issues = checkWorkflow(definition, options);
+  if (issues.length > 0) {
+    throw new WorkflowValidationError(issues, definition.id);
+  }
+  return definition;
+}
+
+function checkWorkflow(
+  definition: WorkflowDefinition,
+  options: WorkflowValidationOptions,
+): WorkflowValidationIssue[] {
+  const issues: WorkflowValidationIssue[] = [];
+  const stepIndex = new Map<string, number>();
+
+  definition.steps.forEach((step, index) => {
+    if (stepIndex.has(step.id)) {
+      issues.push({
+        path: `steps.${index}.id`,
+        message: `Duplicate step id "${step.id}"`,
+      });
+    }
+    stepIndex.set(step.id, index);
+  });
+
+  if (
+    definition.trigger &&
+    options.triggers &&
+    !options.triggers.includes(definition.trigger)
+  ) {
+    issues.push({
+      path: "trigger",
+      message: `Unknown trigger "${definition.trigger}"`,
+    });
+  }
+
+  definition.steps.forEach((step, index) => {
+    const at = `steps.${index}`;
+
+    if (step.branch && (step.agentType || step.action)) {
+      issues.push({
+        path: at,
+        message: "A branch step cannot also run an agent",
+      });
+    } else if (!step.branch && (!step.agentType || !step.action)) {
+      issues.push({
+        path: at,
+        message: "Steps need an agentType and action, or a branch",
+      });
+    }
+
+    for (const agentType of [
+      step.agentType,
+      ...(step.fallbackOptions ?? []).map((fallback) => fallback.agentType),
+    ]) {
+      if (
+        agentType &&
+        options.agentTypes &&
+        !options.agentTypes.includes(agentType)
+      ) {
+        issues.push({
+          path: at,
+          message: `Unknown agent type "${agentType}"`,
+        });
+      }
+    }
+
+    for (const dependency of step.dependencies) {
+      if (!stepIndex.has(dependency)) {
+        issues.push({
+          path: `${at}.dependencies`,
+          message: `Unknown step "${dependency}"`,
+        });
+      }
+    }
+
+    step.branch?.forEach((branchCase, caseIndex) => {
+      if (!branchCase.when && caseIndex < step.branch!.length - 1) {
+        issues.push({
+          path: `${at}.branch.${caseIndex}`,
+          message: "Only the last branch case may omit `when`",
+        });
+      }
+      for (const target of branchCase.next) {
+        if (!stepIndex.has(target)) {
+          issues.push({
+            path: `${at}.branch.${caseIndex}.next`,
+            message: `Unknown step "${target}"`,
+          });
+        }
+      }
+    });
+  });
+
+  // Cycles make every later check meaningless
+  const cycle = findCycle(definition.steps);
+  if (cycle) {
+    issues.push({
+      path: "steps",
+      message: `Dependency cycle: ${cycle.join(" -> ")}`,
+    });
+    return issues;
+  }
+
+  const upstream = computeUpstream(definition.steps);
+  const declaredInputs = Object.keys(definition.inputs ?? {});
+  const declaredVariables = Object.keys(definition.variables ?? {});
+
+  const checkReference = (
+    reference: string,
+    path: string,
+    stepId: string | null,
+  ) => {
+    const [root, name] = reference.split(".");
+    if (root === "inputs") {
+      if (!name || !declaredInputs.includes(name)) {
+        issues.push({ path, message: `Undeclared input "${reference}"` });
+      }
+    } else if (root === "vars") {
+      if (!name || !declaredVariables.includes(name)) {
+        issues.push({ path, message: `Undeclared variable "${reference}"` });
+      }
+    } else if (root === "steps") {
+      if (!name || !stepIndex.has(name)) {
+        issues.push({ path, message: `Unknown step in "${reference}"` });
+      } else if (stepId !== null && !upstream.get(stepId)!.has(name)) {
+        issues.push({
+          path,
+          message: `"${reference}" is not a dependency of step "${stepId}"`,
+        });
+      }
+    } else {
+      issues.push({
+        path,
+        message: `References must start with inputs, vars or steps: "${reference}"`,
+      });
+    }
+  };
+
+  definition.steps.forEach((step, index) => {
+    const at = `steps.${index}`;
+
+    collectTemplateReferences(step.parameters).forEach((reference) =>
+      checkReference(reference, `${at}.parameters`, step.id),
+    );
+    step.fallbackOptions?.forEach((fallback, fallbackIndex) =>
+      collectTemplateReferences(fallback.parameters).forEach((reference) =>
+        checkReference(
+          reference,
+          `${at}.fallbackOptions.${fallbackIndex}.parameters`,
+          step.id,
+        ),
+      ),
+    );
+    if (step.when) {
+      collectConditionPaths(step.when).forEach((reference) =>
+        checkReference(reference, `${at}.when`, step.id),
+      );
+    }
+    step.branch?.forEach((branchCase, caseIndex) => {
+      if (branchCase.when) {
+        // A branch may also test its own dependencies' outputs
+        collectConditionPaths(branchCase.when).forEach((reference) =>
+          checkReference(reference, `${at}.branch.${caseIndex}.when`, step.id),
+        );
+      }
+      for (const target of branchCase.next) {
+        if (stepIndex.has(target) && !upstream.get(target)!.has(step.id)) {
+          issues.push({
+            path: `${at}.branch.${caseIndex}.next`,
+            message: `Step "${target}" must depend on branch "${step.id}"`,
+          });
+        }
+      }
+    });
+  });
+
+  collectTemplateReferences(definition.outputs).forEach((reference) =>
+    checkReference(reference, "outputs", null),
+  );
+
+  return issues;
+}
+
+function findCycle(steps: WorkflowStep[]): string[] | null {
+  const dependencies = new Map(
+    steps.map((step) => [step.id, step.dependencies]),
+  );
+  const visiting: string[] = [];
+  const done = new Set<string>();
+
+  const visit = (id: string): string[] | null => {
+    const position = visiting.indexOf(id);
+    if (position >= 0) return [...visiting.slice(position), id];
+    if (done.has(id) || !dependencies.has(id)) return null;
+
+    visiting.push(id);
+    for (const dependency of dependencies.get(id)!) {
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    visiting.pop();
+    done.add(id);
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// Every step each step transitively depends on
+function computeUpstream(steps: WorkflowStep[]): Map<string, Set<string>> {
+  const dependencies = new Map(
+    steps.map((step) => [step.id, step.dependencies]),
+  );
+  const upstream = new Map<string, Set<string>>();
+
+  const resolve = (id: string): Set<string> => {
+    const known = upstream.get(id);
+    if (known) return known;
+
+    const result = new Set<string>();
+    for (const dependency of dependencies.get(id) ?? []) {
+      result.add(dependency);
+      resolve(dependency).forEach((ancestor) => result.add(ancestor));
+    }
+    upstream.set(id, result);
+    return result;
+  };
+
+  steps.forEach((step) => resolve(step.id));
+  return upstream;
+}
+
+function collectTemplateReferences(value: unknown): string[] {
+  if (typeof value === "string") {
+    return Array.from(value.matchAll(TEMPLATE), (match) => match[1]!);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectTemplateReferences);
+  }
+  if (value && typeof value === "object") {
+    return Object.values(value).flatMap(collectTemplateReferences);
+  }
+  return [];
+}
+
+function collectConditionPaths(condition: WorkflowCondition): string[] {
+  if ("all" in condition) return condition.all.flatMap(collectConditionPaths);
+  if ("any" in condition) return condition.any.flatMap(collectConditionPaths);
+  if ("not" in condition) return collectConditionPaths(condition.not);
+  return [condition.path];
+}
+
+/**
+ * Read a dotted path such as `steps.draft.output.title` from a scope
+ */
+export function resolvePath(scope: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, scope);
+}
+
+/**
+ * Replace `{{ path }}` templates in a value. A string that is a single
+ * template keeps the referenced value's type; templates inside a longer
+ * string are interpolated as text.
+ */
+export function renderTemplates(value: unknown, scope: unknown): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_TEMPLATE);
+    if (whole) return resolvePath(scope, whole[1]!);
+
+    return value.replace(TEMPLATE, (_match, path: string) => {
+      const resolved = resolvePath(scope, path);
+      if (resolved === undefined || resolved === null) return "";
+      return typeof resolved === "object"
+        ? JSON.stringify(resolved)
+        : String(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderTemplates(item, scope));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        renderTemplates(item, scope),
+      ]),
+    );
+  }
+  return value;
+}
+
+export function evaluateCondition(
+  condition: WorkflowCondition,
+  scope: unknown,
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((item) => evaluateCondition(item, scope));
+  }
+  if ("any" in condition) {
+    return condition.any.some((item) => evaluateCondition(item, scope));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, scope);
+  }
+
+  const actual = resolvePath(scope, condition.path);
+  const expected = condition.value;
+
+  switch (condition.op) {
+    case "eq":
+      return actual === expected;
+    case "neq":
+      return actual !== expected;
+    case "gt":
+      return Number(actual) > Number(expected);
+    case "gte":
+      return Number(actual) >= Number(expected);
+    case "lt":
+      return Number(actual) < Number(expected);
+    case "lte":
+      return Number(actual) <= Number(expected);
+    case "in":
+      return Array.isArray(expected) && expected.includes(actual);
+    case "contains":
+      return Array.isArray(actual)
+        ? actual.includes(expected)
+        : typeof actual === "string" && actual.includes(String(expected));
+    case "exists":
+      return actual !== undefined && actual !== null;
+  }
+}
@@ -0,0 +1,38 @@
+import { parse as parseYaml } from "yaml";
+import {
+  validateWorkflow,
+  WorkflowValidationError,
+  type WorkflowDefinition,
+  type WorkflowValidationOptions,
+} from "./workflow-dsl";
+
+export type WorkflowDocumentFormat = "json" | "yaml";
+
+/**
+ * Parse and validate a workflow document. The format is detected from
+ * the first character when not given: JSON documents start with `{`.
+ */
+export function loadWorkflowDocument(
+  source: string,
+  format?: WorkflowDocumentFormat,
+  options: WorkflowValidationOptions = {},
+): WorkflowDefinition {
+  const detected =
+    format ?? (source.trimStart().startsWith("{") ? "json" : "yaml");
+
+  let document: unknown;
+  try {
+    document = detected === "json" ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    throw new WorkflowValidationError([
+      {
+        path: "(document)",
+        message: `Could not parse ${detected.toUpperCase()}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      },
+    ]);
+  }
+
+  return validateWorkflow(document, options);
+}
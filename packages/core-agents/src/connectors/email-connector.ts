@@ -0,0 +1,134 @@
+import {
+  HttpConnector,
+  textToHtml,
+  type HttpConnectorOptions,
+} from "./http-connector";
+import {
+  ConnectorError,
+  type ConnectorAccount,
+  type PostMetrics,
+  type PublishRequest,
+  type PublishResult,
+} from "./types";
+
+const SENDGRID_API = "https://api.sendgrid.com/v3";
+
+export interface SendGridCredentials {
+  apiKey: string;
+  // Verified sender the campaign is sent from
+  senderId: number;
+  // Unsubscribe group added to every campaign
+  suppressionGroupId: number;
+  // Lists sent to when the request does not name any
+  listIds?: string[] | undefined;
+}
+
+/**
+ * Publishes email campaigns as SendGrid Marketing single sends, sent
+ * right away. `options.html` is used as the HTML body when given;
+ * `options.listIds` or `options.segmentIds` pick the audience.
+ */
+export class SendGridConnector extends HttpConnector {
+  readonly platform = "EMAIL" as const;
+
+  constructor(
+    private credentials: SendGridCredentials,
+    options?: HttpConnectorOptions,
+  ) {
+    super(options);
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${this.credentials.apiKey}` };
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.request<{ id: number; nickname: string }>(
+      `${SENDGRID_API}/marketing/senders/${this.credentials.senderId}`,
+    );
+    return { id: String(data.id), name: data.nickname };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const options = request.options ?? {};
+    const listIds =
+      (options.listIds as string[] | undefined) ??
+      this.credentials.listIds ??
+      [];
+    const segmentIds = (options.segmentIds as string[] | undefined) ?? [];
+    if (listIds.length === 0 && segmentIds.length === 0) {
+      throw new ConnectorError(
+        "Email campaigns need at least one list or segment",
+        this.platform,
+      );
+    }
+
+    const subject = request.title ?? request.text.split("\n")[0]!.slice(0, 150);
+    const { data } = await this.request<{ id: string }>(
+      `${SENDGRID_API}/marketing/singlesends`,
+      {
+        method: "POST",
+        json: {
+          name: `${subject} (${new Date().toISOString()})`,
+          send_to: {
+            ...(listIds.length > 0 && { list_ids: listIds }),
+            ...(segmentIds.length > 0 && { segment_ids: segmentIds }),
+          },
+          email_config: {
+            subject,
+            html_content:
+              typeof options.html === "string"
+                ? options.html
+                : textToHtml(request.text),
+            plain_content: request.text,
+            generate_plain_content: false,
+            sender_id: this.credentials.senderId,
+            suppression_group_id: this.credentials.suppressionGroupId,
+          },
+        },
+      },
+    );
+
+    await this.request(
+      `${SENDGRID_API}/marketing/singlesends/${data.id}/schedule`,
+      {
+        method: "PUT",
+        json: { send_at: "now" },
+      },
+    );
+
+    return {
+      externalId: data.id,
+      url: `https://mc.sendgrid.com/single-sends/${data.id}/stats`,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    await this.request(`${SENDGRID_API}/marketing/singlesends/${externalId}`, {
+      method: "DELETE",
+    });
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const { data } = await this.request<{
+      results?: Array<{
+        stats: {
+          delivered?: number;
+          unique_opens?: number;
+          opens?: number;
+          unique_clicks?: number;
+        };
+      }>;
+    }>(`${SENDGRID_API}/marketing/stats/singlesends/${externalId}`);
+
+    const stats = data.results?.[0]?.stats ?? {};
+    return {
+      reach: stats.delivered ?? 0,
+      impressions: stats.opens ?? 0,
+      views: stats.unique_opens ?? 0,
+      clicks: stats.unique_clicks ?? 0,
+      fetchedAt: new Date(),
+    };
+  }
+}
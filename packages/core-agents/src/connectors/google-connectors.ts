@@ -0,0 +1,344 @@
+import { randomUUID } from "crypto";
+import {
+  HttpConnector,
+  isVideoUrl,
+  OAuthToken,
+  withHashtags,
+  type HttpConnectorOptions,
+} from "./http-connector";
+import {
+  ConnectorError,
+  type ConnectorAccount,
+  type PostMetrics,
+  type PublishRequest,
+  type PublishResult,
+} from "./types";
+
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+const YOUTUBE_API = "https://www.googleapis.com/youtube/v3";
+const YOUTUBE_UPLOAD_API = "https://www.googleapis.com/upload/youtube/v3";
+const GOOGLE_ADS_API = "https://googleads.googleapis.com/v17";
+
+// Google answers quota and rate problems with 403 and one of these reasons
+const GOOGLE_RATE_LIMIT_REASONS = new Set([
+  "rateLimitExceeded",
+  "userRateLimitExceeded",
+  "quotaExceeded",
+]);
+
+export interface GoogleOAuthCredentials {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  accessToken?: string | undefined;
+}
+
+/**
+ * Google APIs authenticate with an OAuth access token minted from a
+ * long-lived refresh token
+ */
+abstract class GoogleConnector extends HttpConnector {
+  private oauthToken: OAuthToken | undefined;
+
+  constructor(
+    private oauth: GoogleOAuthCredentials,
+    options?: HttpConnectorOptions,
+  ) {
+    super(options);
+  }
+
+  // Created on first use, once the subclass has set its platform
+  private get token(): OAuthToken {
+    this.oauthToken ??= new OAuthToken(
+      { tokenUrl: GOOGLE_TOKEN_URL, ...this.oauth },
+      this.platform,
+      this.fetchFn,
+    );
+    return this.oauthToken;
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${await this.token.get()}` };
+  }
+
+  protected override async refreshAuth(): Promise<boolean> {
+    await this.token.refresh();
+    return true;
+  }
+
+  protected override isRateLimited(status: number, payload: unknown): boolean {
+    const body = payload as {
+      error?: { errors?: Array<{ reason?: string }>; status?: string };
+    } | null;
+    const reason = body?.error?.errors?.[0]?.reason;
+    return (
+      status === 429 ||
+      body?.error?.status === "RESOURCE_EXHAUSTED" ||
+      (reason !== undefined && GOOGLE_RATE_LIMIT_REASONS.has(reason))
+    );
+  }
+}
+
+/**
+ * Uploads videos to the authorised channel. The video is fetched from
+ * its URL and sent in a single multipart upload, which suits the short
+ * clips marketing posts use.
+ */
+export class YouTubeConnector extends GoogleConnector {
+  readonly platform = "YOUTUBE" as const;
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.request<{
+      items?: Array<{ id: string; snippet: { title: string } }>;
+    }>(`${YOUTUBE_API}/channels`, { query: { part: "snippet", mine: "true" } });
+
+    const channel = data.items?.[0];
+    if (!channel) {
+      throw new ConnectorError(
+        "The YouTube account has no channel",
+        this.platform,
+      );
+    }
+    return { id: channel.id, name: channel.snippet.title };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const videoUrl = request.mediaUrls?.find(isVideoUrl);
+    if (!videoUrl) {
+      throw new ConnectorError("YouTube posts need a video", this.platform);
+    }
+
+    const video = await this.fetchFn(videoUrl);
+    if (!video.ok) {
+      throw new ConnectorError(
+        `Could not download the video (${video.status})`,
+        this.platform,
+        undefined,
+        video.status >= 500,
+      );
+    }
+
+    const metadata = {
+      snippet: {
+        title: (request.title ?? request.text).slice(0, 100),
+        description: withHashtags(request.text, request.hashtags),
+        tags: request.hashtags?.map((tag) => tag.replace(/^#/, "")),
+      },
+      status: {
+        privacyStatus: request.options?.privacyStatus ?? "public",
+        selfDeclaredMadeForKids: false,
+      },
+    };
+    const boundary = `neon-${randomUUID()}`;
+    const body = Buffer.concat([
+      Buffer.from(
+        `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n` +
+          `${JSON.stringify(metadata)}\r\n` +
+          `--${boundary}\r\nContent-Type: ${video.headers.get("content-type") ?? "video/mp4"}\r\n\r\n`,
+      ),
+      Buffer.from(await video.arrayBuffer()),
+      Buffer.from(`\r\n--${boundary}--`),
+    ]);
+
+    const { data } = await this.request<{ id: string }>(
+      `${YOUTUBE_UPLOAD_API}/videos`,
+      {
+        method: "POST",
+        query: { part: "snippet,status", uploadType: "multipart" },
+        headers: { "Content-Type": `multipart/related; boundary=${boundary}` },
+        body,
+      },
+    );
+    return {
+      externalId: data.id,
+      url: `https://www.youtube.com/watch?v=${data.id}`,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    await this.request(`${YOUTUBE_API}/videos`, {
+      method: "DELETE",
+      query: { id: externalId },
+    });
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const { data } = await this.request<{
+      items?: Array<{
+        statistics: {
+          viewCount?: string;
+          likeCount?: string;
+          commentCount?: string;
+        };
+      }>;
+    }>(`${YOUTUBE_API}/videos`, {
+      query: { part: "statistics", id: externalId },
+    });
+
+    const statistics = data.items?.[0]?.statistics;
+    if (!statistics) {
+      throw new ConnectorError(
+        `YouTube video ${externalId} not found`,
+        this.platform,
+        404,
+      );
+    }
+    return {
+      views: Number(statistics.viewCount ?? 0),
+      likes: Number(statistics.likeCount ?? 0),
+      comments: Number(statistics.commentCount ?? 0),
+      fetchedAt: new Date(),
+    };
+  }
+}
+
+export interface GoogleAdsCredentials extends GoogleOAuthCredentials {
+  developerToken: string;
+  // Customer the ads belong to, digits only
+  customerId: string;
+  // Manager account used to access the customer, if any
+  loginCustomerId?: string | undefined;
+}
+
+/**
+ * Creates responsive search ads in an existing ad group. Pass
+ * `options.adGroupId`, `options.headlines` (3-15, up to 30 characters)
+ * and `options.descriptions` (2-4, up to 90 characters); the request
+ * link becomes the final URL. Ads are created paused unless
+ * `options.status` is "ENABLED".
+ */
+export class GoogleAdsConnector extends GoogleConnector {
+  readonly platform = "GOOGLE_ADS" as const;
+
+  constructor(
+    private credentials: GoogleAdsCredentials,
+    options?: HttpConnectorOptions,
+  ) {
+    super(credentials, options);
+  }
+
+  protected override async authHeaders(): Promise<Record<string, string>> {
+    return {
+      ...(await super.authHeaders()),
+      "developer-token": this.credentials.developerToken,
+      ...(this.credentials.loginCustomerId && {
+        "login-customer-id": this.credentials.loginCustomerId,
+      }),
+    };
+  }
+
+  // Google Ads errors carry the useful message in the failure details
+  protected override errorMessage(payload: unknown): string {
+    const failure = (
+      payload as {
+        error?: {
+          details?: Array<{ errors?: Array<{ message?: string }> }>;
+        };
+      } | null
+    )?.error?.details?.[0]?.errors?.[0]?.message;
+    return failure ?? super.errorMessage(payload);
+  }
+
+  private get customer(): string {
+    return `${GOOGLE_ADS_API}/customers/${this.credentials.customerId}`;
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const [row] = await this.search<{
+      customer: { id: string; descriptiveName?: string };
+    }>("SELECT customer.id, customer.descriptive_name FROM customer LIMIT 1");
+    return {
+      id: row?.customer.id ?? this.credentials.customerId,
+      name: row?.customer.descriptiveName,
+    };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const { adGroupId, headlines, descriptions, status } =
+      request.options ?? {};
+    if (
+      typeof adGroupId !== "string" ||
+      !request.link ||
+      !isStringList(headlines) ||
+      !isStringList(descriptions) ||
+      headlines.length < 3 ||
+      descriptions.length < 2
+    ) {
+      throw new ConnectorError(
+        "Google ads need options.adGroupId, at least 3 headlines, 2 descriptions and a link",
+        this.platform,
+      );
+    }
+
+    const { data } = await this.request<{
+      results: Array<{ resourceName: string }>;
+    }>(`${this.customer}/adGroupAds:mutate`, {
+      method: "POST",
+      json: {
+        operations: [
+          {
+            create: {
+              adGroup: `customers/${this.credentials.customerId}/adGroups/${adGroupId}`,
+              status: status === "ENABLED" ? "ENABLED" : "PAUSED",
+              ad: {
+                finalUrls: [request.link],
+                responsiveSearchAd: {
+                  headlines: headlines.map((text) => ({ text })),
+                  descriptions: descriptions.map((text) => ({ text })),
+                },
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    const resourceName = data.results[0]!.resourceName;
+    return { externalId: resourceName, publishedAt: new Date() };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    await this.request(`${this.customer}/adGroupAds:mutate`, {
+      method: "POST",
+      json: { operations: [{ remove: externalId }] },
+    });
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const [row] = await this.search<{
+      metrics: {
+        impressions?: string;
+        clicks?: string;
+        conversions?: number;
+        costMicros?: string;
+      };
+    }>(
+      "SELECT metrics.impressions, metrics.clicks, metrics.conversions, metrics.cost_micros " +
+        `FROM ad_group_ad WHERE ad_group_ad.resource_name = '${externalId.replace(/'/g, "")}'`,
+    );
+
+    const metrics = row?.metrics ?? {};
+    return {
+      impressions: Number(metrics.impressions ?? 0),
+      clicks: Number(metrics.clicks ?? 0),
+      conversions: Number(metrics.conversions ?? 0),
+      spend: Number(metrics.costMicros ?? 0) / 1_000_000,
+      fetchedAt: new Date(),
+    };
+  }
+
+  private async search<T>(query: string): Promise<T[]> {
+    const { data } = await this.request<{ results?: T[] }>(
+      `${this.customer}/googleAds:search`,
+      { method: "POST", json: { query } },
+    );
+    return data.results ?? [];
+  }
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { FacebookConnector } from "./meta-connectors";
+import { LinkedInConnector, toLittleText } from "./linkedin-connector";
+import { TwitterConnector } from "./twitter-connector";
+import { ConnectorAuthError, ConnectorRateLimitError } from "./types";
+
+type Reply = {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+// fetch that answers with the given replies in order and records requests
+function fakeFetch(...replies: Reply[]) {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  const fn = jest.fn(async (url: unknown, init?: RequestInit) => {
+    calls.push({ url: String(url), init: init ?? {} });
+    const reply = replies.shift() ?? {};
+    return new Response(
+      reply.body === undefined ? null : JSON.stringify(reply.body),
+      { status: reply.status ?? 200, headers: reply.headers ?? {} },
+    );
+  });
+  return { fetch: fn as unknown as typeof fetch, calls };
+}
+
+const noWait = async () => {};
+
+const twitter = (fetch: typeof globalThis.fetch, refreshToken?: string) =>
+  new TwitterConnector(
+    {
+      clientId: "client",
+      clientSecret: "secret",
+      accessToken: "token-1",
+      refreshToken,
+    },
+    { fetch, sleep: noWait },
+  );
+
+describe("HttpConnector", () => {
+  it("retries 429 answers after the delay the platform asks for", async () => {
+    const waits: number[] = [];
+    const { fetch, calls } = fakeFetch(
+      {
+        status: 429,
+        headers: { "retry-after": "3" },
+        body: { title: "Too Many Requests" },
+      },
+      { status: 201, body: { data: { id: "1790" } } },
+    );
+    const connector = new TwitterConnector(
+      { clientId: "client", clientSecret: "secret", accessToken: "token-1" },
+      {
+        fetch,
+        sleep: async (ms) => {
+          waits.push(ms);
+        },
+      },
+    );
+
+    const result = await connector.publish({ text: "Hello" });
+
+    expect(result.externalId).toBe("1790");
+    expect(calls).toHaveLength(2);
+    expect(waits).toContain(3000);
+  });
+
+  it("gives up with a rate limit error when retries run out", async () => {
+    const limited = { status: 429, headers: { "retry-after": "1" } };
+    const { fetch } = fakeFetch(limited, limited);
+    const connector = new TwitterConnector(
+      { clientId: "client", clientSecret: "secret", accessToken: "token-1" },
+      { fetch, sleep: noWait, maxRetries: 1 },
+    );
+
+    await expect(connector.publish({ text: "Hello" })).rejects.toBeInstanceOf(
+      ConnectorRateLimitError,
+    );
+  });
+
+  it("refreshes the token once after a 401", async () => {
+    const { fetch, calls } = fakeFetch(
+      { status: 401, body: { detail: "Unauthorized" } },
+      {
+        body: {
+          access_token: "token-2",
+          refresh_token: "refresh-2",
+          expires_in: 7200,
+        },
+      },
+      { status: 201, body: { data: { id: "1791" } } },
+    );
+
+    await twitter(fetch, "refresh-1").publish({ text: "Hello" });
+
+    expect(calls[1]!.url).toBe("https://api.x.com/2/oauth2/token");
+    expect(String(calls[1]!.init.body)).toContain("refresh_token=refresh-1");
+    const headers = calls[2]!.init.headers as Record<string, string>;
+    expect(headers.Authorization).toBe("Bearer token-2");
+  });
+
+  it("reports rejected credentials as an auth error", async () => {
+    const { fetch } = fakeFetch({
+      status: 401,
+      body: { detail: "Unauthorized" },
+    });
+
+    await expect(
+      twitter(fetch).publish({ text: "Hello" }),
+    ).rejects.toBeInstanceOf(ConnectorAuthError);
+  });
+
+  it("treats Meta throttling error codes as rate limiting", async () => {
+    const { fetch, calls } = fakeFetch(
+      {
+        status: 400,
+        body: {
+          error: { message: "Application request limit reached", code: 4 },
+        },
+      },
+      { body: { id: "page_post" } },
+    );
+    const connector = new FacebookConnector(
+      { pageId: "123", pageAccessToken: "page-token" },
+      { fetch, sleep: noWait },
+    );
+
+    const result = await connector.publish({
+      text: "Launch day",
+      link: "https://neon.example",
+    });
+
+    expect(result.externalId).toBe("page_post");
+    expect(calls).toHaveLength(2);
+    expect(JSON.parse(String(calls[1]!.init.body))).toEqual({
+      message: "Launch day",
+      link: "https://neon.example",
+    });
+  });
+});
+
+describe("platform requests", () => {
+  it("posts Facebook photos with the caption and keeps the post id", async () => {
+    const { fetch, calls } = fakeFetch({
+      body: { id: "photo_1", post_id: "123_456" },
+    });
+    const connector = new FacebookConnector(
+      { pageId: "123", pageAccessToken: "page-token" },
+      { fetch, sleep: noWait },
+    );
+
+    const result = await connector.publish({
+      text: "New collection",
+      hashtags: ["spring"],
+      mediaUrls: ["https://cdn.example/look.jpg"],
+    });
+
+    expect(calls[0]!.url).toBe("https://graph.facebook.com/v19.0/123/photos");
+    expect(JSON.parse(String(calls[0]!.init.body))).toEqual({
+      url: "https://cdn.example/look.jpg",
+      caption: "New collection\n\n#spring",
+    });
+    expect(result.externalId).toBe("123_456");
+  });
+
+  it("reads the LinkedIn post URN from the x-restli-id header", async () => {
+    const { fetch, calls } = fakeFetch({
+      status: 201,
+      headers: { "x-restli-id": "urn:li:share:7001" },
+    });
+    const connector = new LinkedInConnector(
+      {
+        clientId: "client",
+        clientSecret: "secret",
+        accessToken: "li-token",
+        authorUrn: "urn:li:organization:42",
+      },
+      { fetch, sleep: noWait },
+    );
+
+    const result = await connector.publish({
+      text: "Hiring (remote)",
+      hashtags: ["jobs"],
+    });
+
+    const headers = calls[0]!.init.headers as Record<string, string>;
+    expect(headers["LinkedIn-Version"]).toBeDefined();
+    expect(JSON.parse(String(calls[0]!.init.body))).toMatchObject({
+      author: "urn:li:organization:42",
+      commentary: "Hiring \\(remote\\)\n\n{hashtag|\\#|jobs}",
+      lifecycleState: "PUBLISHED",
+    });
+    expect(result.externalId).toBe("urn:li:share:7001");
+  });
+
+  it("escapes LinkedIn little text markup", () => {
+    expect(toLittleText("50% off @ our store_now")).toBe(
+      "50% off \\@ our store\\_now",
+    );
+  });
+});
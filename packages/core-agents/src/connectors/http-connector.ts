@@ -0,0 +1,353 @@
+import type { Platform } from "@neon/data-model";
+import {
+  parseRetryAfter,
+  RateLimiter,
+  sleep,
+  type RateLimit,
+} from "./rate-limiter";
+import {
+  ConnectorAuthError,
+  ConnectorError,
+  ConnectorRateLimitError,
+  type ConnectorAccount,
+  type PostMetrics,
+  type PublishingConnector,
+  type PublishRequest,
+  type PublishResult,
+} from "./types";
+
+export interface HttpConnectorOptions {
+  fetch?: typeof fetch;
+  rateLimit?: RateLimit;
+  // Retries after 429 and 5xx responses
+  maxRetries?: number;
+  // Longer waits are not slept through; the request fails instead
+  maxRetryDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ConnectorRequest {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  headers?: Record<string, string>;
+  query?: Record<string, string | number | undefined>;
+  json?: unknown;
+  form?: Record<string, string>;
+  body?: Uint8Array | string;
+}
+
+export interface ConnectorResponse<T> {
+  data: T;
+  status: number;
+  headers: Headers;
+}
+
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 10, refillPerSecond: 1 };
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_RETRY_DELAY_MS = 60_000;
+
+/**
+ * Base for connectors that call a JSON HTTP API. Requests are rate
+ * limited, 429 and 5xx answers are retried with the delay the platform
+ * asks for (or exponential backoff), and a 401 gives the connector one
+ * chance to refresh its token.
+ */
+export abstract class HttpConnector implements PublishingConnector {
+  abstract readonly platform: Platform;
+
+  protected readonly fetchFn: typeof fetch;
+  private readonly limiter: RateLimiter;
+  private readonly maxRetries: number;
+  private readonly maxRetryDelayMs: number;
+  protected readonly wait: (ms: number) => Promise<void>;
+
+  constructor(options: HttpConnectorOptions = {}) {
+    this.fetchFn = options.fetch ?? fetch;
+    this.wait = options.sleep ?? sleep;
+    this.limiter = new RateLimiter(
+      options.rateLimit ?? DEFAULT_RATE_LIMIT,
+      Date.now,
+      this.wait,
+    );
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxRetryDelayMs =
+      options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+  }
+
+  abstract authenticate(): Promise<ConnectorAccount>;
+  abstract publish(request: PublishRequest): Promise<PublishResult>;
+  abstract delete(externalId: string): Promise<void>;
+  abstract fetchMetrics(externalId: string): Promise<PostMetrics>;
+
+  // Authorization headers for every request
+  protected abstract authHeaders(): Promise<Record<string, string>>;
+
+  /**
+   * Whether an error response means the rate limit was hit. Platforms
+   * that do not answer 429 (Meta, Google) override this.
+   */
+  protected isRateLimited(status: number, _payload: unknown): boolean {
+    return status === 429;
+  }
+
+  /**
+   * Called after a 401. Connectors that can refresh their access token
+   * do so and return true to have the request retried once.
+   */
+  protected async refreshAuth(): Promise<boolean> {
+    return false;
+  }
+
+  protected async request<T = any>(
+    url: string,
+    request: ConnectorRequest = {},
+  ): Promise<ConnectorResponse<T>> {
+    const target = new URL(url);
+    for (const [key, value] of Object.entries(request.query ?? {})) {
+      if (value !== undefined) target.searchParams.set(key, String(value));
+    }
+
+    let refreshed = false;
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter.acquire();
+
+      const headers: Record<string, string> = {
+        ...(await this.authHeaders()),
+        ...request.headers,
+      };
+      let body: string | Uint8Array | undefined;
+      if (request.json !== undefined) {
+        headers["Content-Type"] ??= "application/json";
+        body = JSON.stringify(request.json);
+      } else if (request.form) {
+        headers["Content-Type"] ??= "application/x-www-form-urlencoded";
+        body = new URLSearchParams(request.form).toString();
+      } else if (request.body !== undefined) {
+        body = request.body;
+      }
+
+      let response: Response;
+      try {
+        response = await this.fetchFn(target, {
+          method: request.method ?? "GET",
+          headers,
+          ...(body !== undefined && { body }),
+        });
+      } catch (error) {
+        // Network failures are retried like 5xx answers
+        if (attempt < this.maxRetries) {
+          await this.wait(this.backoff(attempt));
+          continue;
+        }
+        throw new ConnectorError(
+          `${this.platform} request failed: ${error instanceof Error ? error.message : String(error)}`,
+          this.platform,
+          undefined,
+          true,
+        );
+      }
+
+      if (response.ok) {
+        return {
+          data: (await parseBody(response)) as T,
+          status: response.status,
+          headers: response.headers,
+        };
+      }
+
+      const payload = await parseBody(response);
+      const message = `${this.platform} API error ${response.status}: ${this.errorMessage(payload)}`;
+
+      const rateLimited = this.isRateLimited(response.status, payload);
+      if (response.status === 401 && !refreshed && (await this.refreshAuth())) {
+        refreshed = true;
+        continue;
+      }
+      if (
+        !rateLimited &&
+        (response.status === 401 || response.status === 403)
+      ) {
+        throw new ConnectorAuthError(message, this.platform, response.status);
+      }
+
+      if (rateLimited || response.status >= 500) {
+        const delay =
+          (rateLimited ? parseRetryAfter(response.headers) : undefined) ??
+          this.backoff(attempt);
+        if (rateLimited) this.limiter.pause(delay);
+
+        if (attempt < this.maxRetries && delay <= this.maxRetryDelayMs) {
+          await this.wait(delay);
+          continue;
+        }
+        if (rateLimited) {
+          throw new ConnectorRateLimitError(message, this.platform, delay);
+        }
+        throw new ConnectorError(message, this.platform, response.status, true);
+      }
+
+      throw new ConnectorError(message, this.platform, response.status);
+    }
+  }
+
+  // Human readable error from a platform's error payload
+  protected errorMessage(payload: unknown): string {
+    if (typeof payload === "string")
+      return payload.slice(0, 500) || "Unknown error";
+    const body = payload as Record<string, any> | null;
+    return (
+      body?.error?.message ??
+      body?.error_description ??
+      (typeof body?.error === "string" ? body.error : undefined) ??
+      body?.message ??
+      body?.detail ??
+      body?.errors?.[0]?.message ??
+      body?.errors?.[0]?.detail ??
+      JSON.stringify(payload)
+    );
+  }
+
+  private backoff(attempt: number): number {
+    return Math.min(1000 * 2 ** attempt, this.maxRetryDelayMs);
+  }
+}
+
+const VIDEO_EXTENSIONS = /\.(mp4|mov|m4v|webm)(\?|$)/i;
+
+export const isVideoUrl = (url: string): boolean => VIDEO_EXTENSIONS.test(url);
+
+/**
+ * Post text with the hashtags that are not already in it appended
+ */
+export function withHashtags(text: string, hashtags: string[] = []): string {
+  const missing = hashtags
+    .map((tag) => (tag.startsWith("#") ? tag : `#${tag}`))
+    .filter((tag) => !text.includes(tag));
+  return missing.length > 0 ? `${text}\n\n${missing.join(" ")}` : text;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Plain text as HTML paragraphs, for platforms that only take HTML
+ */
+export function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map(
+      (paragraph) =>
+        `<p>${paragraph
+          .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]!)
+          .replace(/\n/g, "<br>")}</p>`,
+    )
+    .join("\n");
+}
+
+async function parseBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+export interface OAuthTokenConfig {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  accessToken?: string | undefined;
+  refreshToken?: string | undefined;
+  // "basic" sends the client credentials as HTTP basic auth (X, LinkedIn)
+  clientAuth?: "body" | "basic";
+  // Name of the client id parameter; TikTok calls it client_key
+  clientIdParam?: string;
+}
+
+/**
+ * OAuth 2.0 access token that refreshes itself from a refresh token when
+ * it expires or the platform rejects it
+ */
+export class OAuthToken {
+  private accessToken: string | undefined;
+  private refreshToken: string | undefined;
+  private expiresAt = Infinity;
+
+  constructor(
+    private config: OAuthTokenConfig,
+    private platform: Platform,
+    private fetchFn: typeof fetch = fetch,
+  ) {
+    this.accessToken = config.accessToken;
+    this.refreshToken = config.refreshToken;
+  }
+
+  get canRefresh(): boolean {
+    return Boolean(this.refreshToken);
+  }
+
+  async get(): Promise<string> {
+    // Refresh a minute early so tokens do not expire mid-request
+    if (!this.accessToken || Date.now() > this.expiresAt - 60_000) {
+      await this.refresh();
+    }
+    return this.accessToken!;
+  }
+
+  async refresh(): Promise<void> {
+    if (!this.refreshToken) {
+      throw new ConnectorAuthError(
+        `${this.platform} access token is missing or expired and no refresh token is configured`,
+        this.platform,
+      );
+    }
+
+    const { clientAuth = "body", clientIdParam = "client_id" } = this.config;
+    const form = new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: this.refreshToken,
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/x-www-form-urlencoded",
+    };
+    if (clientAuth === "basic") {
+      headers.Authorization = `Basic ${Buffer.from(
+        `${this.config.clientId}:${this.config.clientSecret}`,
+      ).toString("base64")}`;
+      form.set("client_id", this.config.clientId);
+    } else {
+      form.set(clientIdParam, this.config.clientId);
+      form.set("client_secret", this.config.clientSecret);
+    }
+
+    const response = await this.fetchFn(this.config.tokenUrl, {
+      method: "POST",
+      headers,
+      body: form.toString(),
+    });
+    const payload = (await parseBody(response)) as Record<string, any> | null;
+    // TikTok wraps the token in `data`
+    const token = payload?.data?.access_token ? payload.data : payload;
+    if (!response.ok || !token?.access_token) {
+      throw new ConnectorAuthError(
+        `${this.platform} token refresh failed: ${token?.error_description ?? token?.error ?? response.status}`,
+        this.platform,
+        response.status,
+      );
+    }
+
+    this.accessToken = token.access_token;
+    if (token.refresh_token) this.refreshToken = token.refresh_token;
+    this.expiresAt = token.expires_in
+      ? Date.now() + Number(token.expires_in) * 1000
+      : Infinity;
+  }
+}
@@ -0,0 +1,15 @@
+export * from "./types";
+export * from "./rate-limiter";
+export * from "./http-connector";
+export * from "./meta-connectors";
+export * from "./twitter-connector";
+export * from "./linkedin-connector";
+export * from "./tiktok-connector";
+export * from "./google-connectors";
+export * from "./email-connector";
+export * from "./web-connectors";
+export * from "./sandbox-connector";
+export * from "./registry";
+export * from "./social-publisher";
+export * from "./time-zones";
+export * from "./social-scheduler";
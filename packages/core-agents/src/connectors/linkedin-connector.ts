@@ -0,0 +1,148 @@
+import {
+  HttpConnector,
+  OAuthToken,
+  type HttpConnectorOptions,
+} from "./http-connector";
+import {
+  ConnectorError,
+  type ConnectorAccount,
+  type PostMetrics,
+  type PublishRequest,
+  type PublishResult,
+} from "./types";
+
+const LINKEDIN_API = "https://api.linkedin.com";
+const LINKEDIN_VERSION = "202405";
+
+// Characters with a meaning in LinkedIn's "little text" commentary format
+const RESERVED = /[\\|{}@[\]()<>#*_~]/g;
+
+export interface LinkedInCredentials {
+  clientId: string;
+  clientSecret: string;
+  accessToken?: string | undefined;
+  refreshToken?: string | undefined;
+  // urn:li:organization:<id> or urn:li:person:<id>
+  authorUrn: string;
+}
+
+/**
+ * Escape commentary text and append hashtags as hashtag templates, so
+ * parentheses and the like are not read as markup
+ */
+export function toLittleText(text: string, hashtags: string[] = []): string {
+  const escaped = text.replace(RESERVED, (char) => `\\${char}`);
+  const tags = hashtags
+    .map((tag) => tag.replace(/^#/, ""))
+    .filter(Boolean)
+    .map((tag) => `{hashtag|\\#|${tag}}`);
+  return tags.length > 0 ? `${escaped}\n\n${tags.join(" ")}` : escaped;
+}
+
+/**
+ * Posts as a member or organization through the versioned Posts API
+ */
+export class LinkedInConnector extends HttpConnector {
+  readonly platform = "LINKEDIN" as const;
+
+  private token: OAuthToken;
+
+  constructor(
+    private credentials: LinkedInCredentials,
+    options?: HttpConnectorOptions,
+  ) {
+    super(options);
+    this.token = new OAuthToken(
+      {
+        tokenUrl: "https://www.linkedin.com/oauth/v2/accessToken",
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+        accessToken: credentials.accessToken,
+        refreshToken: credentials.refreshToken,
+      },
+      this.platform,
+      this.fetchFn,
+    );
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    return {
+      Authorization: `Bearer ${await this.token.get()}`,
+      "LinkedIn-Version": LINKEDIN_VERSION,
+      "X-Restli-Protocol-Version": "2.0.0",
+    };
+  }
+
+  protected override async refreshAuth(): Promise<boolean> {
+    if (!this.token.canRefresh) return false;
+    await this.token.refresh();
+    return true;
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.request<{ sub: string; name?: string }>(
+      `${LINKEDIN_API}/v2/userinfo`,
+    );
+    return { id: this.credentials.authorUrn || data.sub, name: data.name };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const response = await this.request(`${LINKEDIN_API}/rest/posts`, {
+      method: "POST",
+      json: {
+        author: this.credentials.authorUrn,
+        commentary: toLittleText(request.text, request.hashtags),
+        visibility: "PUBLIC",
+        distribution: {
+          feedDistribution: "MAIN_FEED",
+          targetEntities: [],
+          thirdPartyDistributionChannels: [],
+        },
+        ...(request.link && {
+          content: {
+            article: {
+              source: request.link,
+              title: request.title ?? request.link,
+            },
+          },
+        }),
+        lifecycleState: "PUBLISHED",
+        isReshareDisabledByAuthor: false,
+      },
+    });
+
+    // The post URN comes back in a header, the body is empty
+    const urn = response.headers.get("x-restli-id");
+    if (!urn) {
+      throw new ConnectorError(
+        "LinkedIn did not return the id of the new post",
+        this.platform,
+        response.status,
+      );
+    }
+    return {
+      externalId: urn,
+      url: `https://www.linkedin.com/feed/update/${urn}`,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    await this.request(
+      `${LINKEDIN_API}/rest/posts/${encodeURIComponent(externalId)}`,
+      { method: "DELETE" },
+    );
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const { data } = await this.request<{
+      likesSummary?: { totalLikes: number };
+      commentsSummary?: { aggregatedTotalComments: number };
+    }>(`${LINKEDIN_API}/rest/socialActions/${encodeURIComponent(externalId)}`);
+    return {
+      likes: data.likesSummary?.totalLikes ?? 0,
+      comments: data.commentsSummary?.aggregatedTotalComments ?? 0,
+      fetchedAt: new Date(),
+    };
+  }
+}
@@ -0,0 +1,389 @@
+import {
+  HttpConnector,
+  isVideoUrl,
+  withHashtags,
+  type ConnectorRequest,
+  type HttpConnectorOptions,
+} from "./http-connector";
+import {
+  ConnectorError,
+  UnsupportedOperationError,
+  type ConnectorAccount,
+  type PostMetrics,
+  type PublishRequest,
+  type PublishResult,
+} from "./types";
+
+const GRAPH_API = "https://graph.facebook.com/v19.0";
+
+// Graph API error codes for application, user, page and ad account throttling
+const META_THROTTLE_CODES = new Set([4, 17, 32, 613, 80001, 80002, 80004]);
+
+/**
+ * Graph API calls shared by the Facebook, Instagram and Meta ads
+ * connectors. Meta reports throttling as 400s with specific error codes
+ * rather than 429.
+ */
+abstract class GraphConnector extends HttpConnector {
+  constructor(
+    protected accessToken: string,
+    options?: HttpConnectorOptions,
+  ) {
+    super(options);
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${this.accessToken}` };
+  }
+
+  protected override isRateLimited(status: number, payload: unknown): boolean {
+    const code = (payload as { error?: { code?: number } } | null)?.error?.code;
+    return (
+      status === 429 || (code !== undefined && META_THROTTLE_CODES.has(code))
+    );
+  }
+
+  protected graph<T = any>(path: string, request: ConnectorRequest = {}) {
+    return this.request<T>(`${GRAPH_API}/${path}`, request);
+  }
+
+  protected async insights(
+    objectId: string,
+    metrics: string[],
+  ): Promise<Record<string, number>> {
+    const { data } = await this.graph<{
+      data: Array<{ name: string; values: Array<{ value: unknown }> }>;
+    }>(`${objectId}/insights`, { query: { metric: metrics.join(",") } });
+
+    const values: Record<string, number> = {};
+    for (const metric of data.data ?? []) {
+      const value = metric.values?.[0]?.value;
+      if (typeof value === "number") values[metric.name] = value;
+    }
+    return values;
+  }
+}
+
+export interface FacebookCredentials {
+  pageId: string;
+  pageAccessToken: string;
+}
+
+/**
+ * Posts to a Facebook page: photo posts when an image is attached,
+ * otherwise feed posts with an optional link
+ */
+export class FacebookConnector extends GraphConnector {
+  readonly platform = "FACEBOOK" as const;
+
+  constructor(
+    private credentials: FacebookCredentials,
+    options?: HttpConnectorOptions,
+  ) {
+    super(credentials.pageAccessToken, options);
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.graph<{ id: string; name: string }>(
+      this.credentials.pageId,
+      { query: { fields: "id,name" } },
+    );
+    return { id: data.id, name: data.name };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const message = withHashtags(request.text, request.hashtags);
+    const image = request.mediaUrls?.find((url) => !isVideoUrl(url));
+
+    const { data } = image
+      ? await this.graph<{ id: string; post_id?: string }>(
+          `${this.credentials.pageId}/photos`,
+          { method: "POST", json: { url: image, caption: message } },
+        )
+      : await this.graph<{ id: string }>(`${this.credentials.pageId}/feed`, {
+          method: "POST",
+          json: {
+            message,
+            ...(request.link && { link: request.link }),
+          },
+        });
+
+    // Photo posts return the photo id and the id of the post it is in
+    const externalId = (data as { post_id?: string }).post_id ?? data.id;
+    return {
+      externalId,
+      url: `https://www.facebook.com/${externalId}`,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    await this.graph(externalId, { method: "DELETE" });
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const [insights, { data: post }] = await Promise.all([
+      this.insights(externalId, [
+        "post_impressions",
+        "post_impressions_unique",
+        "post_clicks",
+      ]),
+      this.graph<{
+        shares?: { count: number };
+        reactions?: { summary?: { total_count: number } };
+        comments?: { summary?: { total_count: number } };
+      }>(externalId, {
+        query: {
+          fields:
+            "shares,reactions.limit(0).summary(true),comments.limit(0).summary(true)",
+        },
+      }),
+    ]);
+
+    return {
+      impressions: insights.post_impressions,
+      reach: insights.post_impressions_unique,
+      clicks: insights.post_clicks,
+      likes: post.reactions?.summary?.total_count ?? 0,
+      comments: post.comments?.summary?.total_count ?? 0,
+      shares: post.shares?.count ?? 0,
+      fetchedAt: new Date(),
+    };
+  }
+}
+
+export interface InstagramCredentials {
+  // Instagram professional account id linked to the Facebook page
+  userId: string;
+  accessToken: string;
+}
+
+const CONTAINER_POLL_INTERVAL_MS = 5_000;
+const CONTAINER_MAX_POLLS = 60;
+
+/**
+ * Publishes through the Instagram Graph API: a media container is
+ * created, waited on until Instagram has processed it, then published.
+ */
+export class InstagramConnector extends GraphConnector {
+  readonly platform = "INSTAGRAM" as const;
+
+  constructor(
+    private credentials: InstagramCredentials,
+    options?: HttpConnectorOptions,
+  ) {
+    super(credentials.accessToken, options);
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.graph<{ id: string; username: string }>(
+      this.credentials.userId,
+      { query: { fields: "id,username" } },
+    );
+    return { id: data.id, name: data.username };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const media = request.mediaUrls?.[0];
+    if (!media) {
+      throw new ConnectorError(
+        "Instagram posts need an image or video",
+        this.platform,
+      );
+    }
+
+    const caption = withHashtags(request.text, request.hashtags);
+    const { data: container } = await this.graph<{ id: string }>(
+      `${this.credentials.userId}/media`,
+      {
+        method: "POST",
+        json: isVideoUrl(media)
+          ? { media_type: "REELS", video_url: media, caption }
+          : { image_url: media, caption },
+      },
+    );
+    await this.waitForContainer(container.id);
+
+    const { data: published } = await this.graph<{ id: string }>(
+      `${this.credentials.userId}/media_publish`,
+      { method: "POST", json: { creation_id: container.id } },
+    );
+    const { data: post } = await this.graph<{ permalink?: string }>(
+      published.id,
+      { query: { fields: "permalink" } },
+    );
+
+    return {
+      externalId: published.id,
+      url: post.permalink,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(): Promise<void> {
+    throw new UnsupportedOperationError("deleting posts", this.platform);
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const insights = await this.insights(externalId, [
+      "impressions",
+      "reach",
+      "likes",
+      "comments",
+      "shares",
+      "saved",
+    ]);
+    return {
+      impressions: insights.impressions,
+      reach: insights.reach,
+      likes: insights.likes,
+      comments: insights.comments,
+      shares: insights.shares,
+      saves: insights.saved,
+      fetchedAt: new Date(),
+    };
+  }
+
+  private async waitForContainer(containerId: string): Promise<void> {
+    for (let poll = 0; poll < CONTAINER_MAX_POLLS; poll++) {
+      const { data } = await this.graph<{ status_code: string }>(containerId, {
+        query: { fields: "status_code" },
+      });
+      if (data.status_code === "FINISHED") return;
+      if (data.status_code === "ERROR" || data.status_code === "EXPIRED") {
+        throw new ConnectorError(
+          `Instagram could not process the media (${data.status_code})`,
+          this.platform,
+        );
+      }
+      await this.wait(CONTAINER_POLL_INTERVAL_MS);
+    }
+    throw new ConnectorError(
+      "Instagram is still processing the media",
+      this.platform,
+      undefined,
+      true,
+    );
+  }
+}
+
+export interface MetaAdsCredentials {
+  // Without the act_ prefix
+  adAccountId: string;
+  accessToken: string;
+  // Page the ads are run as
+  pageId: string;
+}
+
+/**
+ * Creates link ads in an existing ad set. Pass `options.adSetId`; ads
+ * are created paused unless `options.status` is "ACTIVE", so nothing is
+ * spent before someone has looked at the ad set.
+ */
+export class MetaAdsConnector extends GraphConnector {
+  readonly platform = "META_ADS" as const;
+
+  constructor(
+    private credentials: MetaAdsCredentials,
+    options?: HttpConnectorOptions,
+  ) {
+    super(credentials.accessToken, options);
+  }
+
+  private get account(): string {
+    return `act_${this.credentials.adAccountId}`;
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.graph<{ id: string; name: string }>(
+      this.account,
+      { query: { fields: "id,name" } },
+    );
+    return { id: data.id, name: data.name };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const adSetId = request.options?.adSetId;
+    if (typeof adSetId !== "string" || !request.link) {
+      throw new ConnectorError(
+        "Meta ads need options.adSetId and a link",
+        this.platform,
+      );
+    }
+
+    const name = request.title ?? request.text.slice(0, 50);
+    const image = request.mediaUrls?.find((url) => !isVideoUrl(url));
+    const { data: creative } = await this.graph<{ id: string }>(
+      `${this.account}/adcreatives`,
+      {
+        method: "POST",
+        json: {
+          name,
+          object_story_spec: {
+            page_id: this.credentials.pageId,
+            link_data: {
+              message: withHashtags(request.text, request.hashtags),
+              link: request.link,
+              ...(request.title && { name: request.title }),
+              ...(image && { picture: image }),
+            },
+          },
+        },
+      },
+    );
+
+    const { data: ad } = await this.graph<{ id: string }>(
+      `${this.account}/ads`,
+      {
+        method: "POST",
+        json: {
+          name,
+          adset_id: adSetId,
+          creative: { creative_id: creative.id },
+          status: request.options?.status === "ACTIVE" ? "ACTIVE" : "PAUSED",
+        },
+      },
+    );
+
+    return {
+      externalId: ad.id,
+      url: `https://www.facebook.com/adsmanager/manage/ads?act=${this.credentials.adAccountId}&selected_ad_ids=${ad.id}`,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    await this.graph(externalId, { method: "DELETE" });
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const { data } = await this.graph<{
+      data: Array<{
+        impressions?: string;
+        reach?: string;
+        clicks?: string;
+        spend?: string;
+        actions?: Array<{ action_type: string; value: string }>;
+      }>;
+    }>(`${externalId}/insights`, {
+      query: {
+        fields: "impressions,reach,clicks,spend,actions",
+        date_preset: "maximum",
+      },
+    });
+
+    const row = data.data?.[0] ?? {};
+    const conversions = (row.actions ?? [])
+      .filter((action) => action.action_type.startsWith("offsite_conversion"))
+      .reduce((sum, action) => sum + Number(action.value), 0);
+
+    return {
+      impressions: Number(row.impressions ?? 0),
+      reach: Number(row.reach ?? 0),
+      clicks: Number(row.clicks ?? 0),
+      spend: Number(row.spend ?? 0),
+      conversions,
+      fetchedAt: new Date(),
+    };
+  }
+}
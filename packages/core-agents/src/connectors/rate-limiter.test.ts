@@ -0,0 +1,79 @@
+import { describe, it, expect } from "@jest/globals";
+import { parseRetryAfter, RateLimiter } from "./rate-limiter";
+
+// Clock that only moves when the limiter waits
+function fakeClock() {
+  let now = 1_000_000;
+  const waits: number[] = [];
+  return {
+    now: () => now,
+    wait: async (ms: number) => {
+      waits.push(ms);
+      now += ms;
+    },
+    waits,
+  };
+}
+
+describe("RateLimiter", () => {
+  it("allows a burst up to capacity, then paces requests", async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(
+      { capacity: 2, refillPerSecond: 1 },
+      clock.now,
+      clock.wait,
+    );
+
+    await limiter.acquire();
+    await limiter.acquire();
+    expect(clock.waits).toEqual([]);
+
+    await limiter.acquire();
+    expect(clock.waits).toEqual([1000]);
+  });
+
+  it("holds every request while paused", async () => {
+    const clock = fakeClock();
+    const limiter = new RateLimiter(
+      { capacity: 5, refillPerSecond: 1 },
+      clock.now,
+      clock.wait,
+    );
+
+    limiter.pause(30_000);
+    await limiter.acquire();
+    expect(clock.waits).toEqual([30_000]);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z");
+
+  it("reads Retry-After in seconds or as a date", () => {
+    expect(parseRetryAfter(new Headers({ "retry-after": "12" }), now)).toBe(
+      12_000,
+    );
+    expect(
+      parseRetryAfter(
+        new Headers({ "retry-after": "Thu, 01 Jan 2026 00:01:00 GMT" }),
+        now,
+      ),
+    ).toBe(60_000);
+  });
+
+  it("reads reset headers as epoch seconds or seconds from now", () => {
+    expect(
+      parseRetryAfter(
+        new Headers({ "x-rate-limit-reset": String(now / 1000 + 90) }),
+        now,
+      ),
+    ).toBe(90_000);
+    expect(
+      parseRetryAfter(new Headers({ "x-ratelimit-reset": "5" }), now),
+    ).toBe(5_000);
+  });
+
+  it("returns undefined without rate limit headers", () => {
+    expect(parseRetryAfter(new Headers(), now)).toBeUndefined();
+  });
+});
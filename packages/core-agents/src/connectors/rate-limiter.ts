@@ -0,0 +1,90 @@
+/**
+ * Token bucket shared by all requests of one connector. Connectors take a
+ * token before every call and pause the whole bucket when the platform
+ * answers 429, so queued requests wait instead of piling more errors.
+ */
+
+export interface RateLimit {
+  // Requests allowed in a burst
+  capacity: number;
+  // Sustained requests per second
+  refillPerSecond: number;
+}
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export class RateLimiter {
+  private tokens: number;
+  private updatedAt: number;
+  private pausedUntil = 0;
+
+  constructor(
+    private limit: RateLimit,
+    private now: () => number = Date.now,
+    private wait: (ms: number) => Promise<void> = sleep,
+  ) {
+    this.tokens = limit.capacity;
+    this.updatedAt = now();
+  }
+
+  async acquire(): Promise<void> {
+    for (;;) {
+      const now = this.now();
+      if (now < this.pausedUntil) {
+        await this.wait(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.wait(
+        Math.ceil(((1 - this.tokens) / this.limit.refillPerSecond) * 1000),
+      );
+    }
+  }
+
+  // Hold every request until the platform's rate limit window resets
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+
+  private refill(now: number): void {
+    const elapsed = (now - this.updatedAt) / 1000;
+    this.tokens = Math.min(
+      this.limit.capacity,
+      this.tokens + elapsed * this.limit.refillPerSecond,
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Milliseconds to wait before retrying, from the standard Retry-After
+ * header (seconds or a date) or the rate limit reset headers used by X
+ * and others
+ */
+export function parseRetryAfter(
+  headers: Headers,
+  now: number = Date.now(),
+): number | undefined {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(date - now, 0);
+  }
+
+  const reset =
+    headers.get("x-rate-limit-reset") ?? headers.get("x-ratelimit-reset");
+  if (reset && Number.isFinite(Number(reset))) {
+    const seconds = Number(reset);
+    // Small values are seconds until the reset rather than a timestamp
+    return seconds < 1e9 ? seconds * 1000 : Math.max(seconds * 1000 - now, 0);
+  }
+  return undefined;
+}
@@ -0,0 +1,225 @@
+import type { Platform } from "@neon/data-model";
+import { SendGridConnector } from "./email-connector";
+import { GoogleAdsConnector, YouTubeConnector } from "./google-connectors";
+import { LinkedInConnector } from "./linkedin-connector";
+import {
+  FacebookConnector,
+  InstagramConnector,
+  MetaAdsConnector,
+} from "./meta-connectors";
+import { SandboxConnector } from "./sandbox-connector";
+import { TikTokConnector } from "./tiktok-connector";
+import { TwitterConnector } from "./twitter-connector";
+import {
+  ConnectorAuthError,
+  ConnectorError,
+  type PublishingConnector,
+} from "./types";
+import { ShopifyConnector, WordPressConnector } from "./web-connectors";
+
+export type ConnectorMode = "live" | "sandbox";
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * SOCIAL_CONNECTORS picks live platform APIs or the sandbox. Outside
+ * production the sandbox is the default, so development never posts to
+ * real accounts by accident.
+ */
+export function connectorMode(env: Env = process.env): ConnectorMode {
+  if (env.SOCIAL_CONNECTORS === "live" || env.SOCIAL_CONNECTORS === "sandbox") {
+    return env.SOCIAL_CONNECTORS;
+  }
+  return env.NODE_ENV === "production" ? "live" : "sandbox";
+}
+
+// Values of the named variables, or an auth error listing the missing ones
+function required<K extends string>(
+  platform: Platform,
+  env: Env,
+  names: readonly K[],
+): Record<K, string> {
+  const missing = names.filter((name) => !env[name]);
+  if (missing.length > 0) {
+    throw new ConnectorAuthError(
+      `${platform} connector is not configured: set ${missing.join(", ")}`,
+      platform,
+    );
+  }
+  return Object.fromEntries(names.map((name) => [name, env[name]!])) as Record<
+    K,
+    string
+  >;
+}
+
+/**
+ * Live connector for a platform, configured from environment variables
+ */
+export function createLiveConnector(
+  platform: Platform,
+  env: Env = process.env,
+): PublishingConnector {
+  switch (platform) {
+    case "FACEBOOK": {
+      const vars = required(platform, env, [
+        "FACEBOOK_PAGE_ID",
+        "FACEBOOK_PAGE_ACCESS_TOKEN",
+      ]);
+      return new FacebookConnector({
+        pageId: vars.FACEBOOK_PAGE_ID,
+        pageAccessToken: vars.FACEBOOK_PAGE_ACCESS_TOKEN,
+      });
+    }
+    case "INSTAGRAM": {
+      const vars = required(platform, env, [
+        "INSTAGRAM_BUSINESS_ACCOUNT_ID",
+        "INSTAGRAM_ACCESS_TOKEN",
+      ]);
+      return new InstagramConnector({
+        userId: vars.INSTAGRAM_BUSINESS_ACCOUNT_ID,
+        accessToken: vars.INSTAGRAM_ACCESS_TOKEN,
+      });
+    }
+    case "META_ADS": {
+      const vars = required(platform, env, [
+        "META_AD_ACCOUNT_ID",
+        "META_ADS_ACCESS_TOKEN",
+        "FACEBOOK_PAGE_ID",
+      ]);
+      return new MetaAdsConnector({
+        adAccountId: vars.META_AD_ACCOUNT_ID.replace(/^act_/, ""),
+        accessToken: vars.META_ADS_ACCESS_TOKEN,
+        pageId: vars.FACEBOOK_PAGE_ID,
+      });
+    }
+    case "TWITTER": {
+      const vars = required(platform, env, [
+        "TWITTER_CLIENT_ID",
+        "TWITTER_CLIENT_SECRET",
+      ]);
+      return new TwitterConnector({
+        clientId: vars.TWITTER_CLIENT_ID,
+        clientSecret: vars.TWITTER_CLIENT_SECRET,
+        accessToken: env.TWITTER_ACCESS_TOKEN,
+        refreshToken: env.TWITTER_REFRESH_TOKEN,
+      });
+    }
+    case "LINKEDIN": {
+      const vars = required(platform, env, [
+        "LINKEDIN_CLIENT_ID",
+        "LINKEDIN_CLIENT_SECRET",
+        "LINKEDIN_AUTHOR_URN",
+      ]);
+      return new LinkedInConnector({
+        clientId: vars.LINKEDIN_CLIENT_ID,
+        clientSecret: vars.LINKEDIN_CLIENT_SECRET,
+        authorUrn: vars.LINKEDIN_AUTHOR_URN,
+        accessToken: env.LINKEDIN_ACCESS_TOKEN,
+        refreshToken: env.LINKEDIN_REFRESH_TOKEN,
+      });
+    }
+    case "TIKTOK": {
+      const vars = required(platform, env, [
+        "TIKTOK_CLIENT_ID",
+        "TIKTOK_CLIENT_SECRET",
+      ]);
+      return new TikTokConnector({
+        clientKey: vars.TIKTOK_CLIENT_ID,
+        clientSecret: vars.TIKTOK_CLIENT_SECRET,
+        accessToken: env.TIKTOK_ACCESS_TOKEN,
+        refreshToken: env.TIKTOK_REFRESH_TOKEN,
+      });
+    }
+    case "YOUTUBE": {
+      const vars = required(platform, env, [
+        "GOOGLE_CLIENT_ID",
+        "GOOGLE_CLIENT_SECRET",
+        "YOUTUBE_REFRESH_TOKEN",
+      ]);
+      return new YouTubeConnector({
+        clientId: vars.GOOGLE_CLIENT_ID,
+        clientSecret: vars.GOOGLE_CLIENT_SECRET,
+        refreshToken: vars.YOUTUBE_REFRESH_TOKEN,
+      });
+    }
+    case "GOOGLE_ADS": {
+      const vars = required(platform, env, [
+        "GOOGLE_CLIENT_ID",
+        "GOOGLE_CLIENT_SECRET",
+        "GOOGLE_ADS_REFRESH_TOKEN",
+        "GOOGLE_ADS_DEVELOPER_TOKEN",
+        "GOOGLE_ADS_CUSTOMER_ID",
+      ]);
+      return new GoogleAdsConnector({
+        clientId: vars.GOOGLE_CLIENT_ID,
+        clientSecret: vars.GOOGLE_CLIENT_SECRET,
+        refreshToken: vars.GOOGLE_ADS_REFRESH_TOKEN,
+        developerToken: vars.GOOGLE_ADS_DEVELOPER_TOKEN,
+        customerId: vars.GOOGLE_ADS_CUSTOMER_ID.replace(/-/g, ""),
+        loginCustomerId: env.GOOGLE_ADS_LOGIN_CUSTOMER_ID?.replace(/-/g, ""),
+      });
+    }
+    case "EMAIL": {
+      const vars = required(platform, env, [
+        "SENDGRID_API_KEY",
+        "SENDGRID_SENDER_ID",
+        "SENDGRID_SUPPRESSION_GROUP_ID",
+      ]);
+      return new SendGridConnector({
+        apiKey: vars.SENDGRID_API_KEY,
+        senderId: Number(vars.SENDGRID_SENDER_ID),
+        suppressionGroupId: Number(vars.SENDGRID_SUPPRESSION_GROUP_ID),
+        listIds: env.SENDGRID_LIST_IDS?.split(",")
+          .map((id) => id.trim())
+          .filter(Boolean),
+      });
+    }
+    case "WEBSITE": {
+      const vars = required(platform, env, [
+        "WORDPRESS_URL",
+        "WORDPRESS_USERNAME",
+        "WORDPRESS_APPLICATION_PASSWORD",
+      ]);
+      return new WordPressConnector({
+        siteUrl: vars.WORDPRESS_URL,
+        username: vars.WORDPRESS_USERNAME,
+        applicationPassword: vars.WORDPRESS_APPLICATION_PASSWORD,
+      });
+    }
+    case "SHOPIFY": {
+      const vars = required(platform, env, [
+        "SHOPIFY_STORE_URL",
+        "SHOPIFY_ACCESS_TOKEN",
+        "SHOPIFY_BLOG_ID",
+      ]);
+      return new ShopifyConnector({
+        storeUrl: vars.SHOPIFY_STORE_URL,
+        accessToken: vars.SHOPIFY_ACCESS_TOKEN,
+        blogId: vars.SHOPIFY_BLOG_ID,
+      });
+    }
+    default:
+      throw new ConnectorError(
+        `No connector for platform ${platform}`,
+        platform,
+      );
+  }
+}
+
+// One connector per platform, so all callers share its rate limiter
+const connectors = new Map<Platform, PublishingConnector>();
+
+/**
+ * Connector for a platform in the configured mode
+ */
+export function getConnector(platform: Platform): PublishingConnector {
+  let connector = connectors.get(platform);
+  if (!connector) {
+    connector =
+      connectorMode() === "live"
+        ? createLiveConnector(platform)
+        : new SandboxConnector(platform);
+    connectors.set(platform, connector);
+  }
+  return connector;
+}
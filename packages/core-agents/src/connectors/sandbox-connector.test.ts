@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { SandboxConnector } from "./sandbox-connector";
+import { ConnectorError } from "./types";
+
+describe("SandboxConnector", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "connector-sandbox-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("records publishes to a per-platform file and returns sandbox ids", async () => {
+    const connector = new SandboxConnector("TIKTOK", dir);
+
+    const result = await connector.publish({ text: "Behind the scenes" });
+
+    expect(result.externalId).toMatch(/^sandbox_tiktok_/);
+    const lines = (await fs.readFile(path.join(dir, "tiktok.jsonl"), "utf8"))
+      .trim()
+      .split("\n");
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]!)).toMatchObject({
+      platform: "TIKTOK",
+      operation: "publish",
+      request: { text: "Behind the scenes" },
+      result: { externalId: result.externalId },
+    });
+  });
+
+  it("only deletes posts it published, once", async () => {
+    const connector = new SandboxConnector("TWITTER", dir);
+    const { externalId } = await connector.publish({ text: "Hello" });
+
+    await connector.delete(externalId);
+    await expect(connector.delete(externalId)).rejects.toBeInstanceOf(
+      ConnectorError,
+    );
+    expect((await connector.calls()).map((call) => call.operation)).toEqual([
+      "publish",
+      "delete",
+      "delete",
+    ]);
+  });
+
+  it("fails publishes on request and returns stable metrics", async () => {
+    const connector = new SandboxConnector("LINKEDIN", dir);
+
+    await expect(
+      connector.publish({
+        text: "x",
+        options: { sandboxError: "Token expired" },
+      }),
+    ).rejects.toThrow("Token expired");
+
+    const first = await connector.fetchMetrics("sandbox_linkedin_1");
+    const second = await connector.fetchMetrics("sandbox_linkedin_1");
+    expect(first.impressions).toBe(second.impressions);
+    expect(first.impressions).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,139 @@
+import { createHash, randomBytes } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { Platform } from "@neon/data-model";
+import {
+  ConnectorError,
+  type ConnectorAccount,
+  type PostMetrics,
+  type PublishingConnector,
+  type PublishRequest,
+  type PublishResult,
+} from "./types";
+
+export const DEFAULT_CONNECTOR_SANDBOX_DIR = ".neon/connector-sandbox";
+
+export interface SandboxCall {
+  at: string;
+  platform: Platform;
+  operation: "authenticate" | "publish" | "delete" | "fetchMetrics";
+  request?: unknown;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Stands in for a platform during local development and tests. Every
+ * call is appended to `<dir>/<platform>.jsonl` so it can be inspected;
+ * nothing leaves the machine. Pass `options.sandboxError` to make a
+ * publish fail with that message.
+ */
+export class SandboxConnector implements PublishingConnector {
+  constructor(
+    readonly platform: Platform,
+    private dir: string = process.env.SOCIAL_CONNECTOR_SANDBOX_DIR ||
+      DEFAULT_CONNECTOR_SANDBOX_DIR,
+  ) {}
+
+  private get file(): string {
+    return path.resolve(this.dir, `${this.platform.toLowerCase()}.jsonl`);
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const account = {
+      id: `sandbox_${this.platform.toLowerCase()}`,
+      name: "Sandbox",
+    };
+    await this.record({ operation: "authenticate", result: account });
+    return account;
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const simulated = request.options?.sandboxError;
+    if (typeof simulated === "string") {
+      await this.record({ operation: "publish", request, error: simulated });
+      throw new ConnectorError(simulated, this.platform);
+    }
+
+    const externalId = `sandbox_${this.platform.toLowerCase()}_${Date.now()}_${randomBytes(4).toString("hex")}`;
+    const result: PublishResult = {
+      externalId,
+      url: `sandbox://${this.platform.toLowerCase()}/${externalId}`,
+      publishedAt: new Date(),
+    };
+    await this.record({ operation: "publish", request, result });
+    return result;
+  }
+
+  async delete(externalId: string): Promise<void> {
+    if (!(await this.published(externalId))) {
+      const error = `Sandbox post ${externalId} not found`;
+      await this.record({
+        operation: "delete",
+        request: { externalId },
+        error,
+      });
+      throw new ConnectorError(error, this.platform, 404);
+    }
+    await this.record({ operation: "delete", request: { externalId } });
+  }
+
+  // Made-up but stable numbers, so dashboards have something to show
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const seed = createHash("sha256").update(externalId).digest();
+    const impressions = 500 + seed.readUInt16BE(0);
+    const metrics: PostMetrics = {
+      impressions,
+      reach: Math.round(impressions * 0.7),
+      views: Math.round(impressions * 0.4),
+      likes: Math.round(impressions * (0.02 + seed[2]! / 5000)),
+      comments: Math.round(impressions * (0.002 + seed[3]! / 50000)),
+      shares: Math.round(impressions * (0.001 + seed[4]! / 50000)),
+      clicks: Math.round(impressions * (0.01 + seed[5]! / 10000)),
+      fetchedAt: new Date(),
+    };
+    await this.record({
+      operation: "fetchMetrics",
+      request: { externalId },
+      result: metrics,
+    });
+    return metrics;
+  }
+
+  // Calls recorded for this platform, oldest first
+  async calls(): Promise<SandboxCall[]> {
+    try {
+      const lines = (await fs.readFile(this.file, "utf8")).split("\n");
+      return lines.filter(Boolean).map((line) => JSON.parse(line));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  private async published(externalId: string): Promise<boolean> {
+    let published = false;
+    for (const call of await this.calls()) {
+      const id =
+        call.operation === "publish"
+          ? (call.result as PublishResult | undefined)?.externalId
+          : call.operation === "delete" && !call.error
+            ? (call.request as { externalId: string }).externalId
+            : undefined;
+      if (id === externalId) published = call.operation === "publish";
+    }
+    return published;
+  }
+
+  private async record(
+    call: Omit<SandboxCall, "at" | "platform">,
+  ): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const entry: SandboxCall = {
+      at: new Date().toISOString(),
+      platform: this.platform,
+      ...call,
+    };
+    await fs.appendFile(this.file, `${JSON.stringify(entry)}\n`);
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { SocialPublisher, SocialScheduleError } from "./social-publisher";
+import {
+  ConnectorError,
+  ConnectorRateLimitError,
+  type PublishingConnector,
+  type PublishRequest,
+} from "./types";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+function fakeConnector(publish: (request: PublishRequest) => Promise<any>) {
+  const deleted: string[] = [];
+  const connector: PublishingConnector = {
+    platform: "TWITTER",
+    authenticate: async () => ({ id: "account" }),
+    publish,
+    delete: async (externalId) => {
+      deleted.push(externalId);
+    },
+    fetchMetrics: async () => ({
+      impressions: 900,
+      reach: 700,
+      likes: 30,
+      shares: 4,
+      fetchedAt: new Date("2026-03-01T00:00:00Z"),
+    }),
+  };
+  return { connector, deleted };
+}
+
+describe("SocialPublisher", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", [
+      { id: "default", name: "Default", slug: "default" },
+      { id: "ws_1", name: "One", slug: "one" },
+      { id: "ws_2", name: "Two", slug: "two" },
+    ]);
+    db.seed("content", {
+      id: "content_1",
+      workspaceId: "ws_1",
+      title: "Launch post",
+      type: "POST",
+      platform: "TWITTER",
+      content: { text: "Hello" },
+      status: "APPROVED",
+    });
+  });
+
+  it("stores the platform post id on the schedule", async () => {
+    const { connector } = fakeConnector(async () => ({
+      externalId: "1790",
+      url: "https://x.com/i/web/status/1790",
+      publishedAt: new Date(),
+    }));
+    const publisher = new SocialPublisher(db.prisma, () => connector);
+
+    const schedule = await publisher.publishNow({
+      workspaceId: "ws_1",
+      platform: "TWITTER",
+      contentId: "content_1",
+      post: { text: "Hello" },
+    });
+
+    expect(schedule).toMatchObject({
+      workspaceId: "ws_1",
+      contentId: "content_1",
+      status: "PUBLISHED",
+      externalPostId: "1790",
+      postUrl: "https://x.com/i/web/status/1790",
+      publishError: null,
+      attempts: 1,
+    });
+  });
+
+  it("reschedules transient failures with backoff", async () => {
+    let fail = true;
+    const { connector } = fakeConnector(async () => {
+      if (fail) {
+        throw new ConnectorRateLimitError(
+          "TWITTER API error 429",
+          "TWITTER",
+          10 * 60_000,
+        );
+      }
+      return { externalId: "1791", publishedAt: new Date() };
+    });
+    const publisher = new SocialPublisher(db.prisma, () => connector);
+
+    const before = Date.now();
+    const retrying = await publisher.publishNow({
+      platform: "TWITTER",
+      post: { text: "Hello" },
+    });
+    expect(retrying).toMatchObject({
+      status: "SCHEDULED",
+      publishError: "TWITTER API error 429",
+    });
+    // The platform's retry-after is longer than the first backoff step
+    expect(retrying.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+      before + 10 * 60_000,
+    );
+
+    fail = false;
+    const retried = await publisher.publishSchedule(retrying.id);
+    expect(retried).toMatchObject({
+      status: "PUBLISHED",
+      externalPostId: "1791",
+      publishError: null,
+      attempts: 2,
+    });
+  });
+
+  it("fails permanent errors and posts out of attempts", async () => {
+    let error: Error = new ConnectorError("Duplicate status", "TWITTER", 403);
+    const { connector } = fakeConnector(async () => {
+      throw error;
+    });
+    const publisher = new SocialPublisher(db.prisma, () => connector);
+
+    const rejected = await publisher.publishNow({
+      platform: "TWITTER",
+      post: { text: "Hello" },
+    });
+    expect(rejected).toMatchObject({
+      status: "FAILED",
+      publishError: "Duplicate status",
+    });
+
+    error = new Error("socket hang up");
+    const schedule = await publisher.schedule({
+      platform: "TWITTER",
+      post: { text: "Hello" },
+      scheduledAt: new Date(),
+      maxAttempts: 2,
+    });
+    await publisher.publishSchedule(schedule.id);
+    const exhausted = await publisher.publishSchedule(schedule.id);
+    expect(exhausted).toMatchObject({
+      status: "FAILED",
+      attempts: 2,
+      publishError: "Gave up after 2 attempts: socket hang up",
+    });
+  });
+
+  it("does not publish a post twice", async () => {
+    const { connector } = fakeConnector(async () => ({
+      externalId: "1792",
+      publishedAt: new Date(),
+    }));
+    const publisher = new SocialPublisher(db.prisma, () => connector);
+    const schedule = await publisher.publishNow({
+      platform: "TWITTER",
+      post: { text: "Hello" },
+    });
+
+    await expect(publisher.publishSchedule(schedule.id)).rejects.toBeInstanceOf(
+      SocialScheduleError,
+    );
+  });
+
+  it("syncs metrics and deletes published posts", async () => {
+    const { connector, deleted } = fakeConnector(async () => ({
+      externalId: "1793",
+      publishedAt: new Date(),
+    }));
+    const publisher = new SocialPublisher(db.prisma, () => connector);
+    const schedule = await publisher.publishNow({
+      workspaceId: "ws_1",
+      platform: "TWITTER",
+      post: { text: "Hello" },
+    });
+
+    const synced = await publisher.syncMetrics(schedule.id, "ws_1");
+    expect(synced).toMatchObject({
+      impressions: 900,
+      reach: 700,
+      engagement: { likes: 30, shares: 4 },
+    });
+
+    await expect(
+      publisher.deletePost(schedule.id, "ws_2"),
+    ).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    const removed = await publisher.deletePost(schedule.id, "ws_1");
+    expect(removed.status).toBe("CANCELLED");
+    expect(deleted).toEqual(["1793"]);
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  db,
+  DEFAULT_WORKSPACE_ID,
+  type Platform,
+  type PrismaClient,
+  type SocialPostStatus,
+  type SocialSchedule,
+} from "@neon/data-model";
+import { computeRetryDelay, type JobRetryPolicy } from "../queue/job-queue";
+import { getConnector } from "./registry";
+import {
+  ConnectorError,
+  ConnectorRateLimitError,
+  type PostMetrics,
+  type PublishingConnector,
+  type PublishRequest,
+} from "./types";
+
+/**
+ * Publishes posts through the platform connectors and keeps their
+ * SocialSchedule rows current: the platform's post id and URL once
+ * published, or the error when publishing failed. Transient failures
+ * (rate limits, platform outages, network errors) put the post back in
+ * the schedule with backoff until its attempts are used up.
+ */
+
+export const SOCIAL_RETRY_POLICY: JobRetryPolicy = {
+  maxAttempts: 5,
+  backoffMultiplier: 4,
+  initialDelay: 60 * 1000,
+  maxDelay: 6 * 60 * 60 * 1000,
+};
+
+// Statuses a schedule can be published from
+const PUBLISHABLE_STATUSES: SocialPostStatus[] = [
+  "DRAFT",
+  "SCHEDULED",
+  "FAILED",
+];
+
+export type SocialScheduleErrorCode = "NOT_FOUND" | "INVALID_STATE";
+
+export class SocialScheduleError extends Error {
+  constructor(
+    message: string,
+    readonly code: SocialScheduleErrorCode,
+  ) {
+    super(message);
+    this.name = "SocialScheduleError";
+  }
+}
+
+export interface PublishPostInput {
+  workspaceId?: string | undefined;
+  platform: Platform;
+  post: PublishRequest;
+  // Approved content the post was made from
+  contentId?: string | undefined;
+}
+
+export interface SchedulePostInput extends PublishPostInput {
+  scheduledAt: Date;
+  // IANA zone the post was scheduled in, kept for display
+  timezone?: string | undefined;
+  // Platform account the post counts against for posting quotas
+  accountId?: string | undefined;
+  // Approved content version the post was made from
+  contentVersion?: number | undefined;
+  maxAttempts?: number | undefined;
+  // A/B test variant the post's metrics count towards
+  abTestId?: string | undefined;
+  variantId?: string | undefined;
+}
+
+export class SocialPublisher {
+  private prisma: PrismaClient;
+
+  constructor(
+    prisma?: PrismaClient,
+    private connectorFor: (
+      platform: Platform,
+    ) => PublishingConnector = getConnector,
+    private retryPolicy: JobRetryPolicy = SOCIAL_RETRY_POLICY,
+  ) {
+    this.prisma = prisma || db;
+  }
+
+  // Store a post to be published later
+  async schedule(input: SchedulePostInput): Promise<SocialSchedule> {
+    return this.prisma.socialSchedule.create({
+      data: {
+        workspaceId: input.workspaceId ?? DEFAULT_WORKSPACE_ID,
+        platform: input.platform,
+        contentId: input.contentId ?? null,
+        content: input.post as object,
+        caption: input.post.text,
+        scheduledAt: input.scheduledAt,
+        nextAttemptAt: input.scheduledAt,
+        timezone: input.timezone ?? null,
+        accountId: input.accountId ?? null,
+        contentVersion: input.contentVersion ?? null,
+        maxAttempts: input.maxAttempts ?? this.retryPolicy.maxAttempts,
+        abTestId: input.abTestId ?? null,
+        variantId: input.variantId ?? null,
+        status: "SCHEDULED",
+      },
+    });
+  }
+
+  /**
+   * Publish a post right away. The returned row is PUBLISHED with the
+   * platform's post id, SCHEDULED for a retry after a transient failure,
+   * or FAILED; the error is in `publishError` for both.
+   */
+  async publishNow(input: PublishPostInput): Promise<SocialSchedule> {
+    const schedule = await this.schedule({ ...input, scheduledAt: new Date() });
+    return this.publishSchedule(schedule.id, schedule.workspaceId);
+  }
+
+  /**
+   * Publish a stored post. Scheduled and failed posts can be published;
+   * the row is claimed first so two workers never post it twice.
+   */
+  async publishSchedule(
+    scheduleId: string,
+    workspaceId?: string,
+  ): Promise<SocialSchedule> {
+    const schedule = await this.getSchedule(scheduleId, workspaceId);
+
+    const claimed = await this.prisma.socialSchedule.updateMany({
+      where: { id: schedule.id, status: { in: PUBLISHABLE_STATUSES } },
+      data: {
+        status: "PUBLISHING",
+        attempts: { increment: 1 },
+        lastAttemptAt: new Date(),
+      },
+    });
+    if (claimed.count === 0) {
+      throw new SocialScheduleError(
+        `Post ${schedule.id} is ${schedule.status} and cannot be published`,
+        "INVALID_STATE",
+      );
+    }
+
+    try {
+      const result = await this.connectorFor(schedule.platform).publish(
+        schedule.content as unknown as PublishRequest,
+      );
+      return await this.prisma.socialSchedule.update({
+        where: { id: schedule.id },
+        data: {
+          status: "PUBLISHED",
+          externalPostId: result.externalId,
+          postUrl: result.url ?? null,
+          publishedAt: result.publishedAt,
+          publishError: null,
+        },
+      });
+    } catch (error) {
+      return this.recordFailure(schedule, error);
+    }
+  }
+
+  // Give up on a post without publishing it
+  async markFailed(
+    scheduleId: string,
+    reason: string,
+  ): Promise<SocialSchedule> {
+    return this.prisma.socialSchedule.update({
+      where: { id: scheduleId },
+      data: { status: "FAILED", publishError: reason },
+    });
+  }
+
+  // Remove a published post from the platform
+  async deletePost(
+    scheduleId: string,
+    workspaceId?: string,
+  ): Promise<SocialSchedule> {
+    const schedule = await this.getPublished(scheduleId, workspaceId);
+    await this.connectorFor(schedule.platform).delete(schedule.externalPostId!);
+    return this.prisma.socialSchedule.update({
+      where: { id: schedule.id },
+      data: { status: "CANCELLED" },
+    });
+  }
+
+  // Refresh the stored engagement of a published post
+  async syncMetrics(
+    scheduleId: string,
+    workspaceId?: string,
+  ): Promise<SocialSchedule> {
+    const schedule = await this.getPublished(scheduleId, workspaceId);
+    const metrics = await this.connectorFor(schedule.platform).fetchMetrics(
+      schedule.externalPostId!,
+    );
+    return this.prisma.socialSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        engagement: engagementOf(metrics),
+        reach: metrics.reach ?? null,
+        impressions: metrics.impressions ?? metrics.views ?? null,
+        metricsAt: metrics.fetchedAt,
+      },
+    });
+  }
+
+  // `schedule` is the row as read before it was claimed
+  private async recordFailure(
+    schedule: SocialSchedule,
+    error: unknown,
+  ): Promise<SocialSchedule> {
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = schedule.attempts + 1;
+
+    if (!isTransient(error)) {
+      return this.markFailed(schedule.id, message);
+    }
+    if (attempts >= schedule.maxAttempts) {
+      return this.markFailed(
+        schedule.id,
+        `Gave up after ${attempts} attempts: ${message}`,
+      );
+    }
+
+    const delay = Math.max(
+      computeRetryDelay(this.retryPolicy, attempts),
+      error instanceof ConnectorRateLimitError ? error.retryAfterMs : 0,
+    );
+    return this.prisma.socialSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        status: "SCHEDULED",
+        nextAttemptAt: new Date(Date.now() + delay),
+        publishError: message,
+      },
+    });
+  }
+
+  private async getSchedule(
+    scheduleId: string,
+    workspaceId?: string,
+  ): Promise<SocialSchedule> {
+    const schedule = await this.prisma.socialSchedule.findFirst({
+      where: { id: scheduleId, ...(workspaceId && { workspaceId }) },
+    });
+    if (!schedule) {
+      throw new SocialScheduleError(
+        `Post ${scheduleId} not found`,
+        "NOT_FOUND",
+      );
+    }
+    return schedule;
+  }
+
+  private async getPublished(
+    scheduleId: string,
+    workspaceId?: string,
+  ): Promise<SocialSchedule> {
+    const schedule = await this.getSchedule(scheduleId, workspaceId);
+    if (schedule.status !== "PUBLISHED" || !schedule.externalPostId) {
+      throw new SocialScheduleError(
+        `Post ${scheduleId} has not been published`,
+        "INVALID_STATE",
+      );
+    }
+    return schedule;
+  }
+}
+
+/**
+ * Connector errors say whether a retry can succeed; anything else is a
+ * network or runtime failure and is retried as well
+ */
+function isTransient(error: unknown): boolean {
+  return error instanceof ConnectorError ? error.retryable : true;
+}
+
+// Metrics other than reach and impressions, which have their own columns
+function engagementOf(metrics: PostMetrics): Record<string, number> {
+  const engagement: Record<string, number> = {};
+  for (const key of [
+    "views",
+    "likes",
+    "comments",
+    "shares",
+    "saves",
+    "clicks",
+    "conversions",
+    "spend",
+  ] as const) {
+    const value = metrics[key];
+    if (value !== undefined) engagement[key] = value;
+  }
+  return engagement;
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { SocialPublisher } from "./social-publisher";
+import { SocialScheduler } from "./social-scheduler";
+import { ConnectorError, type PublishingConnector } from "./types";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+function fakeConnector(publish: PublishingConnector["publish"]) {
+  const connector: PublishingConnector = {
+    platform: "TWITTER",
+    authenticate: async () => ({ id: "account" }),
+    publish,
+    delete: async () => {},
+    fetchMetrics: async () => ({ fetchedAt: new Date() }),
+  };
+  return connector;
+}
+
+const past = () => new Date(Date.now() - 60_000);
+
+describe("SocialScheduler", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let published: string[];
+  let publishedContent: string[];
+  let publisher: SocialPublisher;
+  let scheduler: SocialScheduler;
+
+  const createScheduler = (connector: PublishingConnector) => {
+    publisher = new SocialPublisher(db.prisma, () => connector);
+    scheduler = new SocialScheduler(db.prisma, {
+      publisher,
+      contentWorkflow: {
+        markPublished: async (contentId: string) => {
+          publishedContent.push(contentId);
+          db.tables.content!.find((row) => row.id === contentId)!.status =
+            "PUBLISHED";
+        },
+      } as any,
+    });
+  };
+
+  const stored = (id: string) =>
+    db.tables.socialSchedule!.find((row) => row.id === id)!;
+
+  const seedContent = (id: string, status: string, currentVersion: number) =>
+    db.seed("content", {
+      id,
+      workspaceId: "ws_1",
+      title: "Launch post",
+      type: "POST",
+      platform: "TWITTER",
+      content: { text: "Launch day" },
+      status,
+      currentVersion,
+    });
+
+  const schedule = (overrides: Record<string, unknown> = {}) =>
+    publisher.schedule({
+      workspaceId: "ws_1",
+      platform: "TWITTER",
+      contentId: "content_1",
+      contentVersion: 2,
+      post: { text: "Launch day" },
+      scheduledAt: past(),
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", { id: "ws_1", name: "One", slug: "one" });
+    seedContent("content_1", "SCHEDULED", 2);
+    published = [];
+    publishedContent = [];
+    createScheduler(
+      fakeConnector(async (request) => {
+        published.push(request.text);
+        return {
+          externalId: `post_${published.length}`,
+          publishedAt: new Date(),
+        };
+      }),
+    );
+  });
+
+  it("publishes posts that are due and marks the content published", async () => {
+    const due = await schedule();
+    const later = await schedule({
+      scheduledAt: new Date(Date.now() + 60 * 60_000),
+    });
+
+    const summary = await scheduler.runDue();
+
+    expect(summary).toMatchObject({ published: 1, failed: 0 });
+    expect(published).toEqual(["Launch day"]);
+    expect(publishedContent).toEqual(["content_1"]);
+    expect(stored(due.id)).toMatchObject({
+      status: "PUBLISHED",
+      externalPostId: "post_1",
+    });
+    expect(stored(later.id).status).toBe("SCHEDULED");
+  });
+
+  it("fails posts whose content is missing, unapproved or revised", async () => {
+    const orphan = await schedule({ contentId: undefined });
+    const revised = await schedule({ contentVersion: 1 });
+    seedContent("content_2", "DRAFT", 1);
+    const draft = await schedule({ contentId: "content_2", contentVersion: 1 });
+
+    const summary = await scheduler.runDue();
+
+    expect(summary).toMatchObject({ published: 0, failed: 3 });
+    expect(published).toEqual([]);
+    const reason = (id: string) => stored(id).publishError;
+    expect(reason(orphan.id)).toMatch(/Only approved content/);
+    expect(reason(revised.id)).toMatch(/revised after version 1/);
+    expect(reason(draft.id)).toMatch(/DRAFT and is no longer approved/);
+  });
+
+  it("holds posts back once the account's quota is used up", async () => {
+    await scheduler.setQuota({
+      workspaceId: "ws_1",
+      platform: "TWITTER",
+      accountId: "brand",
+      maxPosts: 1,
+      windowMinutes: 60,
+    });
+    await schedule({ accountId: "brand" });
+    const second = await schedule({ accountId: "brand" });
+    // Another account of the platform has the default quota
+    await schedule({ accountId: "support" });
+
+    const summary = await scheduler.runDue();
+
+    expect(summary).toMatchObject({ published: 2, deferred: 1 });
+    const held = stored(second.id);
+    expect(held.status).toBe("SCHEDULED");
+    expect(held.nextAttemptAt.getTime()).toBeGreaterThan(
+      Date.now() + 59 * 60_000,
+    );
+  });
+
+  it("counts retries and fails posts interrupted while publishing", async () => {
+    createScheduler(
+      fakeConnector(async () => {
+        throw new ConnectorError("TWITTER API error 503", "TWITTER", 503, true);
+      }),
+    );
+    const retrying = await schedule();
+    db.seed("socialSchedule", {
+      id: "stuck",
+      workspaceId: "ws_1",
+      platform: "TWITTER",
+      content: { text: "Launch day" },
+      scheduledAt: past(),
+      status: "PUBLISHING",
+      lastAttemptAt: new Date(Date.now() - 60 * 60_000),
+    });
+
+    const summary = await scheduler.runDue();
+
+    expect(summary).toMatchObject({ retrying: 1, failed: 1 });
+    expect(stored(retrying.id)).toMatchObject({
+      status: "SCHEDULED",
+      attempts: 1,
+    });
+    expect(stored("stuck")).toMatchObject({
+      status: "FAILED",
+      publishError: expect.stringMatching(/interrupted/),
+    });
+  });
+
+  it("shows the queue with status counts and quota usage", async () => {
+    await schedule();
+    await schedule({ scheduledAt: new Date(Date.now() + 60 * 60_000) });
+    await scheduler.runDue();
+
+    const queue = await scheduler.getQueue("ws_1", { status: "SCHEDULED" });
+
+    expect(queue.total).toBe(1);
+    expect(queue.posts).toHaveLength(1);
+    expect(queue.counts).toMatchObject({ SCHEDULED: 1, PUBLISHED: 1 });
+    expect(queue.quotas).toEqual([
+      {
+        platform: "TWITTER",
+        accountId: null,
+        maxPosts: 50,
+        windowMinutes: 24 * 60,
+        used: 1,
+      },
+    ]);
+  });
+});
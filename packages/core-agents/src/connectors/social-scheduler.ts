@@ -0,0 +1,450 @@
+import { hostname } from "os";
+import { logger } from "@neon/utils";
+import {
+  db,
+  type Platform,
+  type PrismaClient,
+  type SocialPostingQuota,
+  type SocialPostStatus,
+  type SocialSchedule,
+} from "@neon/data-model";
+import { ContentWorkflow, PUBLISHABLE_STATUSES } from "../content-approval";
+import { SocialPublisher } from "./social-publisher";
+
+/**
+ * Drains the SocialSchedule table: posts that are due are published
+ * through the platform connectors, as long as the content is still the
+ * approved version that was scheduled and the account has not used up
+ * its posting quota. Retries are rescheduled by the publisher; the
+ * scheduler only picks them up again once they are due.
+ */
+
+export interface PostingQuota {
+  maxPosts: number;
+  windowMinutes: number;
+}
+
+// Conservative defaults below the platforms' own publishing limits
+export const DEFAULT_POSTING_QUOTAS: Record<Platform, PostingQuota> = {
+  FACEBOOK: { maxPosts: 25, windowMinutes: 24 * 60 },
+  INSTAGRAM: { maxPosts: 25, windowMinutes: 24 * 60 },
+  TIKTOK: { maxPosts: 15, windowMinutes: 24 * 60 },
+  TWITTER: { maxPosts: 50, windowMinutes: 24 * 60 },
+  LINKEDIN: { maxPosts: 25, windowMinutes: 24 * 60 },
+  YOUTUBE: { maxPosts: 6, windowMinutes: 24 * 60 },
+  EMAIL: { maxPosts: 10, windowMinutes: 24 * 60 },
+  WEBSITE: { maxPosts: 50, windowMinutes: 24 * 60 },
+  SHOPIFY: { maxPosts: 50, windowMinutes: 24 * 60 },
+  GOOGLE_ADS: { maxPosts: 100, windowMinutes: 24 * 60 },
+  META_ADS: { maxPosts: 100, windowMinutes: 24 * 60 },
+};
+
+export interface SocialSchedulerOptions {
+  publisher?: SocialPublisher;
+  contentWorkflow?: ContentWorkflow;
+  pollInterval?: number; // milliseconds
+  // Posts claimed per poll
+  batchSize?: number;
+  // A post still PUBLISHING after this long was interrupted
+  staleAfterMs?: number;
+}
+
+export interface SchedulerRunSummary {
+  published: number;
+  retrying: number;
+  failed: number;
+  // Held back by a posting quota
+  deferred: number;
+  // Claimed by another scheduler or cancelled in the meantime
+  skipped: number;
+}
+
+export interface QueueQuery {
+  status?: SocialPostStatus | undefined;
+  platform?: Platform | undefined;
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface QuotaUsage extends PostingQuota {
+  platform: Platform;
+  accountId: string | null;
+  used: number;
+}
+
+export interface SocialQueue {
+  posts: SocialSchedule[];
+  total: number;
+  counts: Record<SocialPostStatus, number>;
+  quotas: QuotaUsage[];
+}
+
+export interface SetQuotaInput extends PostingQuota {
+  workspaceId: string;
+  platform: Platform;
+  // Omit to limit every account of the platform
+  accountId?: string | undefined;
+}
+
+export class SocialScheduler {
+  readonly schedulerId: string;
+  private prisma: PrismaClient;
+  private publisher: SocialPublisher;
+  private contentWorkflow: ContentWorkflow;
+  private pollInterval: number;
+  private batchSize: number;
+  private staleAfterMs: number;
+  private running = false;
+  private pollTimer: NodeJS.Timeout | undefined;
+  private currentRun: Promise<SchedulerRunSummary> | undefined;
+
+  constructor(prisma?: PrismaClient, options: SocialSchedulerOptions = {}) {
+    this.prisma = prisma || db;
+    this.publisher = options.publisher ?? new SocialPublisher(this.prisma);
+    this.contentWorkflow =
+      options.contentWorkflow ?? new ContentWorkflow(this.prisma);
+    this.schedulerId = `${hostname()}:${process.pid}`;
+    this.pollInterval = options.pollInterval ?? 30 * 1000;
+    this.batchSize = options.batchSize ?? 20;
+    this.staleAfterMs = options.staleAfterMs ?? 15 * 60 * 1000;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    logger.info(
+      "Social scheduler started",
+      { schedulerId: this.schedulerId },
+      "SocialScheduler",
+    );
+    await this.poll();
+  }
+
+  /**
+   * Stop polling and wait for the posts being published to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    await this.currentRun;
+  }
+
+  /**
+   * Publish the posts that are due, oldest first
+   */
+  async runDue(): Promise<SchedulerRunSummary> {
+    const summary: SchedulerRunSummary = {
+      published: 0,
+      retrying: 0,
+      failed: 0,
+      deferred: 0,
+      skipped: 0,
+    };
+    summary.failed += await this.failInterrupted();
+
+    const due = await this.prisma.socialSchedule.findMany({
+      where: { status: "SCHEDULED", nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: this.batchSize,
+    });
+
+    for (const schedule of due) {
+      const outcome = await this.process(schedule);
+      summary[outcome]++;
+    }
+    return summary;
+  }
+
+  /**
+   * Posts of a workspace with their status counts and quota usage
+   */
+  async getQueue(
+    workspaceId: string,
+    query: QueueQuery = {},
+  ): Promise<SocialQueue> {
+    const where = {
+      workspaceId,
+      ...(query.status && { status: query.status }),
+      ...(query.platform && { platform: query.platform }),
+    };
+    const [posts, total, grouped] = await Promise.all([
+      this.prisma.socialSchedule.findMany({
+        where,
+        orderBy: { nextAttemptAt: "asc" },
+        take: query.limit ?? 50,
+        skip: query.offset ?? 0,
+      }),
+      this.prisma.socialSchedule.count({ where }),
+      this.prisma.socialSchedule.groupBy({
+        by: ["status"],
+        where: {
+          workspaceId,
+          ...(query.platform && { platform: query.platform }),
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const counts = {
+      DRAFT: 0,
+      SCHEDULED: 0,
+      PUBLISHING: 0,
+      PUBLISHED: 0,
+      FAILED: 0,
+      CANCELLED: 0,
+    } as Record<SocialPostStatus, number>;
+    for (const group of grouped) counts[group.status] = group._count._all;
+
+    return {
+      posts,
+      total,
+      counts,
+      quotas: await this.quotaUsage(workspaceId, query.platform),
+    };
+  }
+
+  async setQuota(input: SetQuotaInput): Promise<SocialPostingQuota> {
+    const key = {
+      workspaceId: input.workspaceId,
+      platform: input.platform,
+      accountId: input.accountId ?? "",
+    };
+    return this.prisma.socialPostingQuota.upsert({
+      where: { workspaceId_platform_accountId: key },
+      create: {
+        ...key,
+        maxPosts: input.maxPosts,
+        windowMinutes: input.windowMinutes,
+      },
+      update: { maxPosts: input.maxPosts, windowMinutes: input.windowMinutes },
+    });
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      this.currentRun = this.runDue();
+      const summary = await this.currentRun;
+      logger.debug("Social scheduler run", { ...summary }, "SocialScheduler");
+    } catch (error) {
+      logger.error(
+        "Social scheduler poll failed",
+        { schedulerId: this.schedulerId, error },
+        "SocialScheduler",
+      );
+    } finally {
+      this.currentRun = undefined;
+    }
+
+    if (this.running) {
+      this.pollTimer = setTimeout(() => void this.poll(), this.pollInterval);
+    }
+  }
+
+  private async process(
+    schedule: SocialSchedule,
+  ): Promise<keyof SchedulerRunSummary> {
+    const rejection = await this.checkContent(schedule);
+    if (rejection) {
+      await this.publisher.markFailed(schedule.id, rejection);
+      return "failed";
+    }
+
+    const availableAt = await this.quotaAvailableAt(schedule);
+    if (availableAt) {
+      await this.prisma.socialSchedule.update({
+        where: { id: schedule.id },
+        data: { nextAttemptAt: availableAt },
+      });
+      return "deferred";
+    }
+
+    try {
+      const result = await this.publisher.publishSchedule(schedule.id);
+      if (result.status === "PUBLISHED") {
+        await this.markContentPublished(result);
+        return "published";
+      }
+      logger.warn(
+        "Scheduled post not published",
+        {
+          scheduleId: schedule.id,
+          platform: schedule.platform,
+          status: result.status,
+          error: result.publishError,
+        },
+        "SocialScheduler",
+      );
+      return result.status === "SCHEDULED" ? "retrying" : "failed";
+    } catch (error) {
+      logger.debug(
+        "Scheduled post skipped",
+        { scheduleId: schedule.id, error },
+        "SocialScheduler",
+      );
+      return "skipped";
+    }
+  }
+
+  /**
+   * Reason the post may not go out: content that is missing, no longer
+   * approved, or revised since the post was scheduled
+   */
+  private async checkContent(schedule: SocialSchedule): Promise<string | null> {
+    if (!schedule.contentId) {
+      return "Only approved content can be published; the post has no content";
+    }
+    const content = await this.prisma.content.findFirst({
+      where: { id: schedule.contentId, workspaceId: schedule.workspaceId },
+    });
+    if (!content) {
+      return `Content ${schedule.contentId} no longer exists`;
+    }
+    if (!PUBLISHABLE_STATUSES.includes(content.status)) {
+      return `Content ${content.id} is ${content.status} and is no longer approved`;
+    }
+    if (
+      schedule.contentVersion !== null &&
+      schedule.contentVersion !== content.currentVersion
+    ) {
+      return `Content ${content.id} was revised after version ${schedule.contentVersion} was scheduled`;
+    }
+    return null;
+  }
+
+  private async markContentPublished(schedule: SocialSchedule): Promise<void> {
+    try {
+      await this.contentWorkflow.markPublished(
+        schedule.contentId!,
+        schedule.workspaceId,
+      );
+    } catch (error) {
+      logger.warn(
+        "Failed to mark content published",
+        { scheduleId: schedule.id, contentId: schedule.contentId, error },
+        "SocialScheduler",
+      );
+    }
+  }
+
+  /**
+   * When the account's posting quota is used up, the time the oldest post
+   * in the window leaves it; null when the post can go out now
+   */
+  private async quotaAvailableAt(
+    schedule: SocialSchedule,
+  ): Promise<Date | null> {
+    const quota = await this.quotaFor(
+      schedule.workspaceId,
+      schedule.platform,
+      schedule.accountId,
+    );
+    const windowStart = new Date(Date.now() - quota.windowMinutes * 60 * 1000);
+    const recent = await this.prisma.socialSchedule.findMany({
+      where: {
+        workspaceId: schedule.workspaceId,
+        platform: schedule.platform,
+        accountId: schedule.accountId,
+        status: { in: ["PUBLISHING", "PUBLISHED"] },
+        lastAttemptAt: { gt: windowStart },
+      },
+      orderBy: { lastAttemptAt: "asc" },
+      select: { lastAttemptAt: true },
+    });
+    if (recent.length < quota.maxPosts) return null;
+
+    const oldest = recent[recent.length - quota.maxPosts]!.lastAttemptAt!;
+    return new Date(oldest.getTime() + quota.windowMinutes * 60 * 1000);
+  }
+
+  // The account's own quota, the platform-wide one, or the default
+  private async quotaFor(
+    workspaceId: string,
+    platform: Platform,
+    accountId: string | null,
+  ): Promise<PostingQuota> {
+    const quotas = await this.prisma.socialPostingQuota.findMany({
+      where: {
+        workspaceId,
+        platform,
+        accountId: { in: accountId ? [accountId, ""] : [""] },
+      },
+    });
+    return (
+      quotas.find(
+        (quota: SocialPostingQuota) => quota.accountId === accountId,
+      ) ??
+      quotas.find((quota: SocialPostingQuota) => quota.accountId === "") ??
+      DEFAULT_POSTING_QUOTAS[platform]
+    );
+  }
+
+  private async quotaUsage(
+    workspaceId: string,
+    platform?: Platform,
+  ): Promise<QuotaUsage[]> {
+    const accounts = await this.prisma.socialSchedule.findMany({
+      where: {
+        workspaceId,
+        ...(platform && { platform }),
+        status: { in: ["SCHEDULED", "PUBLISHING", "PUBLISHED"] },
+      },
+      distinct: ["platform", "accountId"],
+      select: { platform: true, accountId: true },
+    });
+
+    return Promise.all(
+      accounts.map(
+        async (account: Pick<SocialSchedule, "platform" | "accountId">) => {
+          const quota = await this.quotaFor(
+            workspaceId,
+            account.platform,
+            account.accountId,
+          );
+          const used = await this.prisma.socialSchedule.count({
+            where: {
+              workspaceId,
+              platform: account.platform,
+              accountId: account.accountId,
+              status: { in: ["PUBLISHING", "PUBLISHED"] },
+              lastAttemptAt: {
+                gt: new Date(Date.now() - quota.windowMinutes * 60 * 1000),
+              },
+            },
+          });
+          return {
+            platform: account.platform,
+            accountId: account.accountId,
+            maxPosts: quota.maxPosts,
+            windowMinutes: quota.windowMinutes,
+            used,
+          };
+        },
+      ),
+    );
+  }
+
+  /**
+   * Posts still PUBLISHING long after their attempt started were cut off
+   * mid-request, so whether they went out is unknown. They are failed
+   * rather than retried to avoid posting twice.
+   */
+  private async failInterrupted(): Promise<number> {
+    const { count } = await this.prisma.socialSchedule.updateMany({
+      where: {
+        status: "PUBLISHING",
+        lastAttemptAt: {
+          lt: new Date(Date.now() - this.staleAfterMs),
+        },
+      },
+      data: {
+        status: "FAILED",
+        publishError:
+          "Publishing was interrupted; check the platform before retrying",
+      },
+    });
+    return count;
+  }
+}
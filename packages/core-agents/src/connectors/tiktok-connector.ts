@@ -0,0 +1,206 @@
+import {
+  HttpConnector,
+  isVideoUrl,
+  OAuthToken,
+  withHashtags,
+  type HttpConnectorOptions,
+} from "./http-connector";
+import {
+  ConnectorError,
+  UnsupportedOperationError,
+  type ConnectorAccount,
+  type PostMetrics,
+  type PublishRequest,
+  type PublishResult,
+} from "./types";
+
+const TIKTOK_API = "https://open.tiktokapis.com/v2";
+
+const STATUS_POLL_INTERVAL_MS = 5_000;
+const STATUS_MAX_POLLS = 24;
+
+export interface TikTokCredentials {
+  clientKey: string;
+  clientSecret: string;
+  accessToken?: string | undefined;
+  refreshToken?: string | undefined;
+}
+
+interface TikTokEnvelope<T> {
+  data: T;
+  error: { code: string; message: string };
+}
+
+/**
+ * Direct posts through the Content Posting API. TikTok pulls the media
+ * from its URL, which must be on a domain verified for the app.
+ * Unaudited apps can only post privately, so pass
+ * `options.privacyLevel: "SELF_ONLY"` until the app is approved.
+ */
+export class TikTokConnector extends HttpConnector {
+  readonly platform = "TIKTOK" as const;
+
+  private token: OAuthToken;
+
+  constructor(
+    credentials: TikTokCredentials,
+    options: HttpConnectorOptions = {},
+  ) {
+    // Post initialisation is limited to 6 requests per minute
+    super({ rateLimit: { capacity: 6, refillPerSecond: 0.1 }, ...options });
+    this.token = new OAuthToken(
+      {
+        tokenUrl: `${TIKTOK_API}/oauth/token/`,
+        clientId: credentials.clientKey,
+        clientSecret: credentials.clientSecret,
+        clientIdParam: "client_key",
+        accessToken: credentials.accessToken,
+        refreshToken: credentials.refreshToken,
+      },
+      this.platform,
+      this.fetchFn,
+    );
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${await this.token.get()}` };
+  }
+
+  protected override async refreshAuth(): Promise<boolean> {
+    if (!this.token.canRefresh) return false;
+    await this.token.refresh();
+    return true;
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.request<
+      TikTokEnvelope<{ user: { open_id: string; display_name: string } }>
+    >(`${TIKTOK_API}/user/info/`, {
+      query: { fields: "open_id,display_name" },
+    });
+    return { id: data.data.user.open_id, name: data.data.user.display_name };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const media = request.mediaUrls ?? [];
+    if (media.length === 0) {
+      throw new ConnectorError(
+        "TikTok posts need a video or photos",
+        this.platform,
+      );
+    }
+
+    const title = withHashtags(request.title ?? request.text, request.hashtags);
+    const postInfo = {
+      privacy_level: request.options?.privacyLevel ?? "PUBLIC_TO_EVERYONE",
+      disable_comment: false,
+    };
+    const video = media.find(isVideoUrl);
+
+    const { data } = video
+      ? await this.request<TikTokEnvelope<{ publish_id: string }>>(
+          `${TIKTOK_API}/post/publish/video/init/`,
+          {
+            method: "POST",
+            json: {
+              post_info: { ...postInfo, title },
+              source_info: { source: "PULL_FROM_URL", video_url: video },
+            },
+          },
+        )
+      : await this.request<TikTokEnvelope<{ publish_id: string }>>(
+          `${TIKTOK_API}/post/publish/content/init/`,
+          {
+            method: "POST",
+            json: {
+              media_type: "PHOTO",
+              post_mode: "DIRECT_POST",
+              post_info: {
+                ...postInfo,
+                title: request.title ?? "",
+                description: withHashtags(request.text, request.hashtags),
+              },
+              source_info: {
+                source: "PULL_FROM_URL",
+                photo_images: media.slice(0, 35),
+                photo_cover_index: 0,
+              },
+            },
+          },
+        );
+
+    const postId = await this.waitForPost(data.data.publish_id);
+    // Posts still being processed keep the publish id until TikTok is done
+    return {
+      externalId: postId ?? data.data.publish_id,
+      url: postId ? `https://www.tiktok.com/video/${postId}` : undefined,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(): Promise<void> {
+    throw new UnsupportedOperationError("deleting posts", this.platform);
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const { data } = await this.request<
+      TikTokEnvelope<{
+        videos: Array<{
+          view_count?: number;
+          like_count?: number;
+          comment_count?: number;
+          share_count?: number;
+        }>;
+      }>
+    >(`${TIKTOK_API}/video/query/`, {
+      method: "POST",
+      query: { fields: "id,view_count,like_count,comment_count,share_count" },
+      json: { filters: { video_ids: [externalId] } },
+    });
+
+    const video = data.data.videos?.[0];
+    if (!video) {
+      throw new ConnectorError(
+        `TikTok video ${externalId} not found`,
+        this.platform,
+        404,
+      );
+    }
+    return {
+      views: video.view_count,
+      likes: video.like_count,
+      comments: video.comment_count,
+      shares: video.share_count,
+      fetchedAt: new Date(),
+    };
+  }
+
+  private async waitForPost(publishId: string): Promise<string | undefined> {
+    for (let poll = 0; poll < STATUS_MAX_POLLS; poll++) {
+      const { data } = await this.request<
+        TikTokEnvelope<{
+          status: string;
+          fail_reason?: string;
+          publicaly_available_post_id?: Array<string | number>;
+        }>
+      >(`${TIKTOK_API}/post/publish/status/fetch/`, {
+        method: "POST",
+        json: { publish_id: publishId },
+      });
+
+      const { status, fail_reason, publicaly_available_post_id } = data.data;
+      if (status === "FAILED") {
+        throw new ConnectorError(
+          `TikTok rejected the post: ${fail_reason ?? "unknown reason"}`,
+          this.platform,
+        );
+      }
+      if (status === "PUBLISH_COMPLETE") {
+        const postId = publicaly_available_post_id?.[0];
+        return postId !== undefined ? String(postId) : undefined;
+      }
+      await this.wait(STATUS_POLL_INTERVAL_MS);
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  addLocalTime,
+  isValidTimeZone,
+  toLocalDateTime,
+  zonedTimeToUtc,
+} from "./time-zones";
+
+describe("zonedTimeToUtc", () => {
+  it("converts wall-clock times on both sides of a DST change", () => {
+    expect(zonedTimeToUtc("2026-03-28T09:00", "Europe/Berlin")).toEqual(
+      new Date("2026-03-28T08:00:00Z"),
+    );
+    expect(zonedTimeToUtc("2026-03-30T09:00", "Europe/Berlin")).toEqual(
+      new Date("2026-03-30T07:00:00Z"),
+    );
+    expect(zonedTimeToUtc("2026-07-04 12:30", "America/New_York")).toEqual(
+      new Date("2026-07-04T16:30:00Z"),
+    );
+  });
+
+  it("moves times skipped by the clock change past it", () => {
+    // Clocks in Berlin jump from 02:00 to 03:00 on 29 March 2026
+    expect(zonedTimeToUtc("2026-03-29T02:30", "Europe/Berlin")).toEqual(
+      new Date("2026-03-29T01:30:00Z"),
+    );
+  });
+
+  it("rejects malformed times", () => {
+    expect(() => zonedTimeToUtc("tomorrow 9am", "UTC")).toThrow(
+      /Invalid local time/,
+    );
+  });
+});
+
+describe("addLocalTime", () => {
+  it("keeps the local time across a DST change", () => {
+    const start = zonedTimeToUtc("2026-10-24T09:00", "Europe/London");
+    const next = addLocalTime(start, 2, "days", "Europe/London");
+
+    expect(toLocalDateTime(next, "Europe/London")).toMatchObject({
+      day: 26,
+      hour: 9,
+      minute: 0,
+    });
+    expect(next.getTime() - start.getTime()).toBe(49 * 60 * 60 * 1000);
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones only", () => {
+    expect(isValidTimeZone("Asia/Tokyo")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
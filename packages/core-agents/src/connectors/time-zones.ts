@@ -0,0 +1,144 @@
+/**
+ * Wall-clock times in IANA time zones, converted with the runtime's Intl
+ * data so posts scheduled for "9:00 in Berlin" go out at 9:00 Berlin time
+ * on both sides of a daylight saving change.
+ */
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const LOCAL_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock time in `timeZone` at the given instant
+export function toLocalDateTime(date: Date, timeZone: string): LocalDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year!,
+    month: parts.month!,
+    day: parts.day!,
+    hour: parts.hour!,
+    minute: parts.minute!,
+    second: parts.second!,
+  };
+}
+
+const asUtc = (local: LocalDateTime): number =>
+  Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second,
+  );
+
+// Milliseconds `timeZone` is ahead of UTC at the given instant
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return asUtc(toLocalDateTime(new Date(instant), timeZone)) - instant;
+}
+
+export function parseLocalDateTime(value: string): LocalDateTime {
+  const match = LOCAL_TIME.exec(value.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid local time "${value}", expected YYYY-MM-DDTHH:mm[:ss]`,
+    );
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  return {
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second),
+  };
+}
+
+/**
+ * Instant at which the clocks in `timeZone` show `local`. Times skipped
+ * by a daylight saving change resolve to the same time after the change.
+ */
+export function zonedTimeToUtc(
+  local: LocalDateTime | string,
+  timeZone: string,
+): Date {
+  const wallClock = asUtc(
+    typeof local === "string" ? parseLocalDateTime(local) : local,
+  );
+  // The offset at the guess can differ from the offset at the answer when
+  // a daylight saving change lies between them, so check it once more
+  const offset = timeZoneOffset(new Date(wallClock), timeZone);
+  const instant = wallClock - offset;
+  const corrected = timeZoneOffset(new Date(instant), timeZone);
+  return new Date(corrected === offset ? instant : wallClock - corrected);
+}
+
+/**
+ * The same wall-clock time `days` days later (or months, for "monthly"
+ * schedules) in `timeZone`
+ */
+export function addLocalTime(
+  date: Date,
+  amount: number,
+  unit: "days" | "months",
+  timeZone: string,
+): Date {
+  const local = toLocalDateTime(date, timeZone);
+  const shifted = new Date(
+    Date.UTC(
+      local.year,
+      local.month - 1 + (unit === "months" ? amount : 0),
+      local.day + (unit === "days" ? amount : 0),
+    ),
+  );
+  return zonedTimeToUtc(
+    {
+      ...local,
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+    },
+    timeZone,
+  );
+}
@@ -0,0 +1,117 @@
+import {
+  HttpConnector,
+  OAuthToken,
+  withHashtags,
+  type HttpConnectorOptions,
+} from "./http-connector";
+import type {
+  ConnectorAccount,
+  PostMetrics,
+  PublishRequest,
+  PublishResult,
+} from "./types";
+
+const X_API = "https://api.x.com/2";
+
+export interface TwitterCredentials {
+  clientId: string;
+  clientSecret: string;
+  // OAuth 2.0 user context token with tweet.write and offline.access
+  accessToken?: string | undefined;
+  refreshToken?: string | undefined;
+}
+
+/**
+ * Posts through the X API v2. Media uploads need the v1.1 endpoints and
+ * OAuth 1.0a, so links to the media are added to the text instead.
+ */
+export class TwitterConnector extends HttpConnector {
+  readonly platform = "TWITTER" as const;
+
+  private token: OAuthToken;
+
+  constructor(
+    credentials: TwitterCredentials,
+    options: HttpConnectorOptions = {},
+  ) {
+    // Posting is limited to a few hundred tweets per 15 minutes
+    super({ rateLimit: { capacity: 5, refillPerSecond: 0.2 }, ...options });
+    this.token = new OAuthToken(
+      {
+        tokenUrl: `${X_API}/oauth2/token`,
+        clientAuth: "basic",
+        ...credentials,
+      },
+      this.platform,
+      this.fetchFn,
+    );
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Bearer ${await this.token.get()}` };
+  }
+
+  protected override async refreshAuth(): Promise<boolean> {
+    if (!this.token.canRefresh) return false;
+    await this.token.refresh();
+    return true;
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.request<{
+      data: { id: string; username: string };
+    }>(`${X_API}/users/me`);
+    return { id: data.data.id, name: data.data.username };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const links = [request.link, ...(request.mediaUrls ?? [])].filter(
+      (link): link is string => Boolean(link) && !request.text.includes(link!),
+    );
+    const text = withHashtags(
+      [request.text, ...links].join(" "),
+      request.hashtags,
+    );
+
+    const { data } = await this.request<{ data: { id: string } }>(
+      `${X_API}/tweets`,
+      { method: "POST", json: { text } },
+    );
+    return {
+      externalId: data.data.id,
+      url: `https://x.com/i/web/status/${data.data.id}`,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    await this.request(`${X_API}/tweets/${externalId}`, { method: "DELETE" });
+  }
+
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const { data } = await this.request<{
+      data: {
+        public_metrics: {
+          impression_count?: number;
+          like_count: number;
+          reply_count: number;
+          retweet_count: number;
+          quote_count: number;
+          bookmark_count?: number;
+        };
+      };
+    }>(`${X_API}/tweets/${externalId}`, {
+      query: { "tweet.fields": "public_metrics" },
+    });
+
+    const metrics = data.data.public_metrics;
+    return {
+      impressions: metrics.impression_count,
+      likes: metrics.like_count,
+      comments: metrics.reply_count,
+      shares: metrics.retweet_count + metrics.quote_count,
+      saves: metrics.bookmark_count,
+      fetchedAt: new Date(),
+    };
+  }
+}
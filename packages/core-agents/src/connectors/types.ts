@@ -0,0 +1,103 @@
+import type { Platform } from "@neon/data-model";
+
+/**
+ * Publishing connectors talk to one platform each. Agents and the
+ * publishing worker only use this interface; `getConnector(platform)`
+ * picks the live connector or the sandbox.
+ */
+
+export interface PublishRequest {
+  text: string;
+  title?: string | undefined;
+  mediaUrls?: string[] | undefined;
+  link?: string | undefined;
+  hashtags?: string[] | undefined;
+  // Platform specific options, e.g. { adSetId } for Meta ads
+  options?: Record<string, unknown> | undefined;
+}
+
+export interface PublishResult {
+  // Id of the post, ad or article on the platform
+  externalId: string;
+  url?: string | undefined;
+  publishedAt: Date;
+}
+
+export interface PostMetrics {
+  impressions?: number | undefined;
+  reach?: number | undefined;
+  views?: number | undefined;
+  likes?: number | undefined;
+  comments?: number | undefined;
+  shares?: number | undefined;
+  saves?: number | undefined;
+  clicks?: number | undefined;
+  conversions?: number | undefined;
+  spend?: number | undefined;
+  fetchedAt: Date;
+}
+
+export interface ConnectorAccount {
+  id: string;
+  name?: string | undefined;
+}
+
+export interface PublishingConnector {
+  readonly platform: Platform;
+  // Check the credentials and return the account posts are made as
+  authenticate(): Promise<ConnectorAccount>;
+  publish(request: PublishRequest): Promise<PublishResult>;
+  delete(externalId: string): Promise<void>;
+  fetchMetrics(externalId: string): Promise<PostMetrics>;
+}
+
+export class ConnectorError extends Error {
+  constructor(
+    message: string,
+    readonly platform: Platform,
+    readonly status?: number,
+    // Whether trying again later may succeed
+    readonly retryable: boolean = false,
+  ) {
+    super(message);
+    this.name = "ConnectorError";
+  }
+}
+
+/**
+ * Credentials are missing, expired or lack the needed permissions
+ */
+export class ConnectorAuthError extends ConnectorError {
+  constructor(message: string, platform: Platform, status?: number) {
+    super(message, platform, status, false);
+    this.name = "ConnectorAuthError";
+  }
+}
+
+/**
+ * The platform kept rejecting requests for exceeding its rate limit
+ */
+export class ConnectorRateLimitError extends ConnectorError {
+  constructor(
+    message: string,
+    platform: Platform,
+    readonly retryAfterMs: number,
+  ) {
+    super(message, platform, 429, true);
+    this.name = "ConnectorRateLimitError";
+  }
+}
+
+/**
+ * The platform's API does not offer the operation, e.g. deleting
+ * Instagram media
+ */
+export class UnsupportedOperationError extends ConnectorError {
+  constructor(operation: string, platform: Platform) {
+    super(
+      `${platform} does not support ${operation} through its API`,
+      platform,
+    );
+    this.name = "UnsupportedOperationError";
+  }
+}
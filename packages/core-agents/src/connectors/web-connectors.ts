@@ -0,0 +1,205 @@
+import {
+  HttpConnector,
+  textToHtml,
+  type HttpConnectorOptions,
+} from "./http-connector";
+import {
+  ConnectorError,
+  type ConnectorAccount,
+  type PostMetrics,
+  type PublishRequest,
+  type PublishResult,
+} from "./types";
+
+// Body of a blog post: given HTML, the text as paragraphs, and the images
+function articleHtml(request: PublishRequest): string {
+  const html =
+    typeof request.options?.html === "string"
+      ? request.options.html
+      : textToHtml(request.text);
+  const images = (request.mediaUrls ?? [])
+    .map((url) => `<p><img src="${encodeURI(url)}" alt=""></p>`)
+    .join("\n");
+  return images ? `${images}\n${html}` : html;
+}
+
+const articleTitle = (request: PublishRequest): string =>
+  request.title ?? request.text.split("\n")[0]!.slice(0, 120);
+
+const trimSlash = (url: string): string => url.replace(/\/+$/, "");
+
+export interface WordPressCredentials {
+  siteUrl: string;
+  username: string;
+  // Application password from the user's profile, not the login password
+  applicationPassword: string;
+}
+
+/**
+ * Publishes website posts through the WordPress REST API
+ */
+export class WordPressConnector extends HttpConnector {
+  readonly platform = "WEBSITE" as const;
+
+  constructor(
+    private credentials: WordPressCredentials,
+    options?: HttpConnectorOptions,
+  ) {
+    super(options);
+  }
+
+  private get api(): string {
+    return `${trimSlash(this.credentials.siteUrl)}/wp-json/wp/v2`;
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    const { username, applicationPassword } = this.credentials;
+    return {
+      Authorization: `Basic ${Buffer.from(
+        `${username}:${applicationPassword}`,
+      ).toString("base64")}`,
+    };
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.request<{ id: number; name: string }>(
+      `${this.api}/users/me`,
+    );
+    return { id: String(data.id), name: data.name };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const { data } = await this.request<{ id: number; link: string }>(
+      `${this.api}/posts`,
+      {
+        method: "POST",
+        json: {
+          title: articleTitle(request),
+          content: articleHtml(request),
+          status: "publish",
+          ...(typeof request.options?.excerpt === "string" && {
+            excerpt: request.options.excerpt,
+          }),
+        },
+      },
+    );
+    return {
+      externalId: String(data.id),
+      url: data.link,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    // Without force the post only moves to the trash
+    await this.request(`${this.api}/posts/${externalId}`, {
+      method: "DELETE",
+      query: { force: "true" },
+    });
+  }
+
+  // WordPress keeps no view counts without plugins; comments are counted
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const { headers } = await this.request(`${this.api}/comments`, {
+      query: { post: externalId, per_page: 1, _fields: "id" },
+    });
+    return {
+      comments: Number(headers.get("x-wp-total") ?? 0),
+      fetchedAt: new Date(),
+    };
+  }
+}
+
+const SHOPIFY_API_VERSION = "2024-04";
+
+export interface ShopifyCredentials {
+  // your-store.myshopify.com
+  storeUrl: string;
+  // Admin API access token of a custom app with write_content
+  accessToken: string;
+  blogId: string;
+}
+
+/**
+ * Publishes store blog articles through the Shopify Admin API
+ */
+export class ShopifyConnector extends HttpConnector {
+  readonly platform = "SHOPIFY" as const;
+
+  constructor(
+    private credentials: ShopifyCredentials,
+    options: HttpConnectorOptions = {},
+  ) {
+    // The Admin REST API allows 2 requests per second with a burst of 40
+    super({ rateLimit: { capacity: 40, refillPerSecond: 2 }, ...options });
+  }
+
+  private get store(): string {
+    const host = trimSlash(this.credentials.storeUrl).replace(
+      /^https?:\/\//,
+      "",
+    );
+    return `https://${host}`;
+  }
+
+  private get api(): string {
+    return `${this.store}/admin/api/${SHOPIFY_API_VERSION}`;
+  }
+
+  protected async authHeaders(): Promise<Record<string, string>> {
+    return { "X-Shopify-Access-Token": this.credentials.accessToken };
+  }
+
+  async authenticate(): Promise<ConnectorAccount> {
+    const { data } = await this.request<{ shop: { id: number; name: string } }>(
+      `${this.api}/shop.json`,
+    );
+    return { id: String(data.shop.id), name: data.shop.name };
+  }
+
+  async publish(request: PublishRequest): Promise<PublishResult> {
+    const { data } = await this.request<{
+      article: { id: number; handle: string };
+    }>(`${this.api}/blogs/${this.credentials.blogId}/articles.json`, {
+      method: "POST",
+      json: {
+        article: {
+          title: articleTitle(request),
+          body_html: articleHtml(request),
+          tags: (request.hashtags ?? [])
+            .map((tag) => tag.replace(/^#/, ""))
+            .join(", "),
+          published: true,
+        },
+      },
+    });
+
+    if (!data.article?.id) {
+      throw new ConnectorError(
+        "Shopify did not return the new article",
+        this.platform,
+      );
+    }
+    return {
+      externalId: String(data.article.id),
+      url: `${this.store}/admin/articles/${data.article.id}`,
+      publishedAt: new Date(),
+    };
+  }
+
+  async delete(externalId: string): Promise<void> {
+    await this.request(
+      `${this.api}/blogs/${this.credentials.blogId}/articles/${externalId}.json`,
+      { method: "DELETE" },
+    );
+  }
+
+  // Shopify does not report article views; comments are counted
+  async fetchMetrics(externalId: string): Promise<PostMetrics> {
+    const { data } = await this.request<{ count: number }>(
+      `${this.api}/comments/count.json`,
+      { query: { article_id: externalId } },
+    );
+    return { comments: data.count, fetchedAt: new Date() };
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "@jest/globals";
+import { contentText, diffContent } from "./content-diff";
+
+describe("contentText", () => {
+  it("should read the copy from strings and common body fields", () => {
+    expect(contentText("Hello")).toBe("Hello");
+    expect(contentText({ text: "Post", hashtags: ["#a"] })).toBe("Post");
+    expect(contentText({ subject: "Hi", content: "Email" })).toBe("Email");
+    expect(contentText({ headline: "H" })).toBe('{\n  "headline": "H"\n}');
+  });
+});
+
+describe("diffContent", () => {
+  it("should report the words a human changed", () => {
+    const diff = diffContent(
+      { text: "Our new shoes are great for running" },
+      { text: "Our new trail shoes are built for running" },
+    );
+
+    expect(diff.changes).toEqual([
+      { type: "equal", text: "Our new " },
+      { type: "insert", text: "trail " },
+      { type: "equal", text: "shoes are " },
+      { type: "delete", text: "great" },
+      { type: "insert", text: "built" },
+      { type: "equal", text: " for running" },
+    ]);
+    expect(diff.wordsAdded).toBe(2);
+    expect(diff.wordsRemoved).toBe(1);
+  });
+
+  it("should return a single equal change for identical text", () => {
+    expect(diffContent("Same copy", "Same copy")).toEqual({
+      changes: [{ type: "equal", text: "Same copy" }],
+      wordsAdded: 0,
+      wordsRemoved: 0,
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Word-level diffs between content revisions, used to show reviewers what
+ * a human changed in agent-generated copy (and the other way round).
+ */
+
+export interface DiffChange {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface ContentDiff {
+  changes: DiffChange[];
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+// Above this many token pairs the diff falls back to whole lines
+export const MAX_WORD_DIFF_CELLS = 4_000_000;
+
+/**
+ * Text of a revision body. Bodies are either plain strings or objects
+ * with the copy in `text`, `content` or `body`; anything else is compared
+ * as formatted JSON.
+ */
+export function contentText(body: unknown): string {
+  if (typeof body === "string") return body;
+  if (body && typeof body === "object") {
+    const record = body as Record<string, unknown>;
+    for (const field of ["text", "content", "body"]) {
+      if (typeof record[field] === "string") return record[field] as string;
+    }
+  }
+  return JSON.stringify(body ?? null, null, 2);
+}
+
+export function diffContent(before: unknown, after: unknown): ContentDiff {
+  const a = contentText(before);
+  const b = contentText(after);
+
+  let tokensA = tokenize(a, /(\s+)/);
+  let tokensB = tokenize(b, /(\s+)/);
+  if (tokensA.length * tokensB.length > MAX_WORD_DIFF_CELLS) {
+    tokensA = tokenize(a, /(\n)/);
+    tokensB = tokenize(b, /(\n)/);
+  }
+
+  const changes = diffTokens(tokensA, tokensB);
+  return {
+    changes,
+    wordsAdded: countWords(changes, "insert"),
+    wordsRemoved: countWords(changes, "delete"),
+  };
+}
+
+function tokenize(text: string, separator: RegExp): string[] {
+  return text.split(separator).filter((token) => token !== "");
+}
+
+function diffTokens(a: string[], b: string[]): DiffChange[] {
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  // lcs[i * cols + j] = longest common subsequence of midA[i..] and midB[j..]
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * cols + j]!, lcs[i * cols + j + 1]!);
+    }
+  }
+
+  const changes: DiffChange[] = [];
+  const push = (type: DiffChange["type"], text: string) => {
+    const last = changes[changes.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      changes.push({ type, text });
+    }
+  };
+
+  a.slice(0, start).forEach((token) => push("equal", token));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      push("equal", midA[i]!);
+      i++;
+      j++;
+    } else if (
+      i < midA.length &&
+      (j === midB.length || lcs[(i + 1) * cols + j]! >= lcs[i * cols + j + 1]!)
+    ) {
+      // Deletions come before insertions at the same position
+      push("delete", midA[i]!);
+      i++;
+    } else {
+      push("insert", midB[j]!);
+      j++;
+    }
+  }
+  a.slice(endA).forEach((token) => push("equal", token));
+
+  return changes;
+}
+
+function countWords(changes: DiffChange[], type: DiffChange["type"]): number {
+  return changes
+    .filter((change) => change.type === type)
+    .reduce(
+      (total, change) => total + (change.text.match(/\S+/g)?.length ?? 0),
+      0,
+    );
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import {
+  approvalState,
+  ContentNotApprovedError,
+  ContentWorkflow,
+  ContentWorkflowError,
+} from "./content-workflow";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+describe("ContentWorkflow", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let workflow: ContentWorkflow;
+
+  const createPost = (campaignId?: string) =>
+    workflow.createContent({
+      workspaceId: "ws-1",
+      campaignId,
+      title: "Launch post",
+      type: "POST" as any,
+      platform: "TWITTER" as any,
+      body: { text: "Our new shoes are great for running" },
+      source: "AGENT",
+      agentType: "CONTENT",
+    });
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", [
+      { id: "ws-1", name: "One", slug: "one" },
+      { id: "ws-2", name: "Two", slug: "two" },
+    ]);
+    db.seed("user", { id: "user-1", email: "owner@example.com" });
+    workflow = new ContentWorkflow(db.prisma);
+  });
+
+  it("should approve content once every required approver has approved", async () => {
+    db.seed("campaign", {
+      id: "camp-1",
+      workspaceId: "ws-1",
+      userId: "user-1",
+      name: "Launch",
+      type: "SOCIAL_MEDIA",
+      requiredApproverIds: ["legal", "brand"],
+    });
+    const content = await createPost("camp-1");
+    await workflow.submitForReview(content.id, "ws-1");
+
+    const first = await workflow.reviewContent(
+      content.id,
+      { reviewerId: "legal", decision: "APPROVED" },
+      "ws-1",
+    );
+    expect(first.content.status).toBe("IN_REVIEW");
+    expect(first.approval.pendingApproverIds).toEqual(["brand"]);
+
+    const second = await workflow.reviewContent(
+      content.id,
+      { reviewerId: "brand", decision: "APPROVED" },
+      "ws-1",
+    );
+    expect(second.content.status).toBe("APPROVED");
+
+    const publishable = await workflow.assertPublishable(content.id, "ws-1");
+    expect(publishable.text).toBe("Our new shoes are great for running");
+
+    // Published content can still go out on another platform
+    await workflow.markPublished(content.id, "ws-1");
+    const again = await workflow.markPublished(content.id, "ws-1");
+    expect(again.status).toBe("PUBLISHED");
+    await expect(
+      workflow.assertPublishable(content.id, "ws-1"),
+    ).resolves.toMatchObject({ content: { status: "PUBLISHED" } });
+  });
+
+  it("should send content back to draft when changes are requested", async () => {
+    const content = await createPost();
+    await workflow.submitForReview(content.id, "ws-1");
+
+    const { content: reviewed } = await workflow.reviewContent(
+      content.id,
+      { reviewerId: "editor", decision: "CHANGES_REQUESTED", note: "Tone" },
+      "ws-1",
+    );
+
+    expect(reviewed.status).toBe("DRAFT");
+  });
+
+  it("should keep revisions immutable and diff human edits against the agent's", async () => {
+    const content = await createPost();
+
+    const revision = await workflow.reviseContent(
+      content.id,
+      {
+        body: { text: "Our new trail shoes are built for running" },
+        source: "HUMAN",
+        authorId: "editor",
+        baseVersion: 1,
+      },
+      "ws-1",
+    );
+    expect(revision.version).toBe(2);
+
+    const revisions = await workflow.listRevisions(content.id, "ws-1");
+    expect(revisions.map((r) => [r.version, r.source])).toEqual([
+      [1, "AGENT"],
+      [2, "HUMAN"],
+    ]);
+    expect(revisions[0]!.body).toEqual({
+      text: "Our new shoes are great for running",
+    });
+
+    const diff = await workflow.diffRevisions(content.id, "ws-1");
+    expect(diff.from.version).toBe(1);
+    expect(diff.to).toMatchObject({ version: 2, authorId: "editor" });
+    expect(diff.wordsAdded).toBe(2);
+    expect(diff.wordsRemoved).toBe(1);
+  });
+
+  it("should reject edits based on an old version", async () => {
+    const content = await createPost();
+    await workflow.reviseContent(
+      content.id,
+      { body: { text: "Edit" }, source: "HUMAN", baseVersion: 1 },
+      "ws-1",
+    );
+
+    await expect(
+      workflow.reviseContent(
+        content.id,
+        { body: { text: "Other edit" }, source: "HUMAN", baseVersion: 1 },
+        "ws-1",
+      ),
+    ).rejects.toMatchObject({ code: "STALE_VERSION" });
+  });
+
+  it("should require a new approval after approved content is edited", async () => {
+    const content = await createPost();
+    await workflow.submitForReview(content.id, "ws-1");
+    await workflow.reviewContent(
+      content.id,
+      { reviewerId: "editor", decision: "APPROVED" },
+      "ws-1",
+    );
+
+    await workflow.reviseContent(
+      content.id,
+      { body: { text: "Sneaky edit" }, source: "HUMAN" },
+      "ws-1",
+    );
+
+    await expect(
+      workflow.assertPublishable(content.id, "ws-1"),
+    ).rejects.toBeInstanceOf(ContentNotApprovedError);
+  });
+
+  it("should anchor comments to the text of a revision", async () => {
+    const content = await createPost();
+
+    const comment = await workflow.addComment(
+      content.id,
+      { authorId: "editor", body: "Too vague", anchor: { start: 18, end: 23 } },
+      "ws-1",
+    );
+    expect(comment).toMatchObject({ version: 1, quote: "great" });
+
+    await expect(
+      workflow.addComment(
+        content.id,
+        { authorId: "editor", body: "?", anchor: { start: 30, end: 99 } },
+        "ws-1",
+      ),
+    ).rejects.toMatchObject({ code: "INVALID_INPUT" });
+
+    await workflow.resolveComment(comment.id, "author", "ws-1");
+    expect(await workflow.listComments(content.id, "ws-1")).toEqual([]);
+  });
+
+  it("should refuse invalid transitions and unknown content", async () => {
+    const content = await createPost();
+
+    await expect(
+      workflow.schedule(content.id, new Date(), "ws-1"),
+    ).rejects.toMatchObject({ code: "INVALID_TRANSITION" });
+    await expect(
+      workflow.submitForReview(content.id, "ws-2"),
+    ).rejects.toBeInstanceOf(ContentWorkflowError);
+    await expect(workflow.assertPublishable(undefined)).rejects.toBeInstanceOf(
+      ContentNotApprovedError,
+    );
+    await expect(workflow.assertPublishable(content.id)).rejects.toThrow(
+      "has not been approved",
+    );
+  });
+});
+
+describe("approvalState", () => {
+  it("should need one approval when no approvers are required", () => {
+    expect(approvalState(1, [], []).approved).toBe(false);
+    expect(
+      approvalState(
+        1,
+        [],
+        [{ reviewerId: "a", decision: "APPROVED", version: 1 }],
+      ).approved,
+    ).toBe(true);
+  });
+
+  it("should ignore approvals of other versions", () => {
+    const state = approvalState(
+      2,
+      ["a"],
+      [{ reviewerId: "a", decision: "APPROVED", version: 1 }],
+    );
+
+    expect(state.approved).toBe(false);
+    expect(state.pendingApproverIds).toEqual(["a"]);
+  });
+});
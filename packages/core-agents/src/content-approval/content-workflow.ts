@@ -0,0 +1,632 @@
+import {
+  db,
+  DEFAULT_WORKSPACE_ID,
+  type Content,
+  type ContentApproval,
+  type ContentComment,
+  type ContentRevision,
+  type ContentRevisionSource,
+  type ContentReviewDecision,
+  type ContentStatus,
+  type ContentType,
+  type Platform,
+  type PrismaClient,
+} from "@neon/data-model";
+import { contentText, diffContent, type ContentDiff } from "./content-diff";
+
+/**
+ * Review workflow for generated content. Every edit is stored as a new,
+ * immutable revision; reviewers comment on and approve a specific version.
+ * Content moves DRAFT → IN_REVIEW → APPROVED → SCHEDULED/PUBLISHED, and
+ * only approved content can be published or sent.
+ */
+
+// Statuses each status may move to
+export const CONTENT_TRANSITIONS: Record<ContentStatus, ContentStatus[]> = {
+  DRAFT: ["IN_REVIEW", "ARCHIVED"],
+  IN_REVIEW: ["DRAFT", "APPROVED", "ARCHIVED"],
+  APPROVED: ["DRAFT", "SCHEDULED", "PUBLISHED", "ARCHIVED"],
+  SCHEDULED: ["APPROVED", "PUBLISHED", "ARCHIVED"],
+  PUBLISHED: ["ARCHIVED"],
+  ARCHIVED: [],
+};
+
+// Statuses in which content may be published or sent; PUBLISHED covers
+// content going out on another platform or to another audience
+export const PUBLISHABLE_STATUSES: ContentStatus[] = [
+  "APPROVED",
+  "SCHEDULED",
+  "PUBLISHED",
+];
+
+// Content can be edited until it is scheduled
+const EDITABLE_STATUSES: ContentStatus[] = ["DRAFT", "IN_REVIEW", "APPROVED"];
+
+export type ContentWorkflowErrorCode =
+  | "NOT_FOUND"
+  | "INVALID_TRANSITION"
+  | "STALE_VERSION"
+  | "INVALID_INPUT"
+  | "NOT_APPROVED";
+
+export class ContentWorkflowError extends Error {
+  constructor(
+    message: string,
+    readonly code: ContentWorkflowErrorCode,
+  ) {
+    super(message);
+    this.name = "ContentWorkflowError";
+  }
+}
+
+/**
+ * Thrown when publishing or sending content that has not been approved
+ */
+export class ContentNotApprovedError extends ContentWorkflowError {
+  constructor(
+    message: string,
+    readonly contentId: string | undefined,
+    readonly status?: ContentStatus,
+  ) {
+    super(message, "NOT_APPROVED");
+    this.name = "ContentNotApprovedError";
+  }
+}
+
+export interface RevisionAuthor {
+  source: ContentRevisionSource;
+  authorId?: string | undefined;
+  agentType?: string | undefined;
+  note?: string | undefined;
+}
+
+export interface CreateContentInput extends RevisionAuthor {
+  workspaceId?: string | undefined;
+  campaignId?: string | undefined;
+  title: string;
+  type: ContentType;
+  platform: Platform;
+  body: unknown;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+export interface ReviseContentInput extends RevisionAuthor {
+  body: unknown;
+  // Version the edit was based on; rejected if the content moved on
+  baseVersion?: number | undefined;
+}
+
+export interface CommentInput {
+  authorId: string;
+  body: string;
+  // Defaults to the current version
+  version?: number | undefined;
+  // Character range of the revision text the comment refers to
+  anchor?: { start: number; end: number } | undefined;
+}
+
+export interface ReviewInput {
+  reviewerId: string;
+  decision: ContentReviewDecision;
+  // Version being reviewed; must be the current one
+  version?: number | undefined;
+  note?: string | undefined;
+}
+
+export interface ApprovalState {
+  version: number;
+  requiredApproverIds: string[];
+  approvedBy: string[];
+  pendingApproverIds: string[];
+  changesRequestedBy: string[];
+  approved: boolean;
+}
+
+export interface RevisionDiff extends ContentDiff {
+  from: Pick<ContentRevision, "version" | "source" | "authorId" | "agentType">;
+  to: Pick<ContentRevision, "version" | "source" | "authorId" | "agentType">;
+}
+
+export interface PublishableContent {
+  content: Content;
+  revision: ContentRevision;
+  text: string;
+}
+
+export class ContentWorkflow {
+  private prisma: PrismaClient;
+
+  constructor(prisma?: PrismaClient) {
+    this.prisma = prisma || db;
+  }
+
+  /**
+   * Store new content with its first revision, usually an agent's output
+   */
+  async createContent(
+    input: CreateContentInput,
+  ): Promise<Content & { revisions: ContentRevision[] }> {
+    return this.prisma.content.create({
+      data: {
+        workspaceId: input.workspaceId ?? DEFAULT_WORKSPACE_ID,
+        campaignId: input.campaignId ?? null,
+        title: input.title,
+        type: input.type,
+        platform: input.platform,
+        content: input.body as object,
+        createdBy: input.authorId ?? null,
+        ...(input.metadata && { metadata: input.metadata as object }),
+        revisions: {
+          create: {
+            version: 1,
+            body: input.body as object,
+            ...revisionAuthor(input),
+          },
+        },
+      },
+      include: { revisions: true },
+    });
+  }
+
+  /**
+   * Add a revision. Editing approved content sends it back to draft, and
+   * approvals of earlier versions never count for the new one.
+   */
+  async reviseContent(
+    contentId: string,
+    input: ReviseContentInput,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<ContentRevision> {
+    const content = await this.getContent(contentId, workspaceId);
+    if (!EDITABLE_STATUSES.includes(content.status)) {
+      throw new ContentWorkflowError(
+        `Content in status ${content.status} cannot be edited`,
+        "INVALID_TRANSITION",
+      );
+    }
+    if (
+      input.baseVersion !== undefined &&
+      input.baseVersion !== content.currentVersion
+    ) {
+      throw staleVersion(content, input.baseVersion);
+    }
+
+    const version = content.currentVersion + 1;
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const { count } = await tx.content.updateMany({
+          where: {
+            id: contentId,
+            currentVersion: content.currentVersion,
+            status: content.status,
+          },
+          data: {
+            content: input.body as object,
+            currentVersion: version,
+            status: content.status === "APPROVED" ? "DRAFT" : content.status,
+          },
+        });
+        if (count === 0) throw staleVersion(content, content.currentVersion);
+
+        return tx.contentRevision.create({
+          data: {
+            contentId,
+            version,
+            body: input.body as object,
+            ...revisionAuthor(input),
+          },
+        });
+      });
+    } catch (error) {
+      // A concurrent edit took the same version number
+      if ((error as { code?: string }).code === "P2002") {
+        throw staleVersion(content, content.currentVersion);
+      }
+      throw error;
+    }
+  }
+
+  async submitForReview(
+    contentId: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<Content> {
+    return this.transition(contentId, workspaceId, "IN_REVIEW");
+  }
+
+  /**
+   * Record a reviewer's decision on the current version. Requested
+   * changes send the content back to draft; it is approved once every
+   * required approver has approved the current version.
+   */
+  async reviewContent(
+    contentId: string,
+    input: ReviewInput,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<{ content: Content; approval: ApprovalState }> {
+    const content = await this.getContent(contentId, workspaceId);
+    if (content.status !== "IN_REVIEW") {
+      throw new ContentWorkflowError(
+        `Only content in review can be reviewed (status is ${content.status})`,
+        "INVALID_TRANSITION",
+      );
+    }
+    const version = input.version ?? content.currentVersion;
+    if (version !== content.currentVersion) {
+      throw staleVersion(content, version);
+    }
+
+    await this.prisma.contentApproval.upsert({
+      where: {
+        contentId_version_reviewerId: {
+          contentId,
+          version,
+          reviewerId: input.reviewerId,
+        },
+      },
+      create: {
+        contentId,
+        version,
+        reviewerId: input.reviewerId,
+        decision: input.decision,
+        note: input.note ?? null,
+      },
+      update: { decision: input.decision, note: input.note ?? null },
+    });
+
+    const approval = await this.getApprovalState(contentId, workspaceId);
+    if (input.decision === "CHANGES_REQUESTED") {
+      return {
+        content: await this.transition(contentId, workspaceId, "DRAFT"),
+        approval,
+      };
+    }
+    if (approval.approved) {
+      return {
+        content: await this.transition(contentId, workspaceId, "APPROVED"),
+        approval,
+      };
+    }
+    return { content, approval };
+  }
+
+  /**
+   * Who has approved the current version and who still has to. Campaigns
+   * list their required approvers; content without any needs one approval.
+   */
+  async getApprovalState(
+    contentId: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<ApprovalState> {
+    const content = await this.getContent(contentId, workspaceId);
+    const [campaign, approvals] = await Promise.all([
+      content.campaignId
+        ? this.prisma.campaign.findUnique({
+            where: { id: content.campaignId },
+            select: { requiredApproverIds: true },
+          })
+        : null,
+      this.prisma.contentApproval.findMany({
+        where: { contentId, version: content.currentVersion },
+      }),
+    ]);
+
+    return approvalState(
+      content.currentVersion,
+      campaign?.requiredApproverIds ?? [],
+      approvals,
+    );
+  }
+
+  async addComment(
+    contentId: string,
+    input: CommentInput,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<ContentComment> {
+    const content = await this.getContent(contentId, workspaceId);
+    const version = input.version ?? content.currentVersion;
+    const revision = await this.getRevision(contentId, version);
+
+    let quote: string | null = null;
+    if (input.anchor) {
+      const text = contentText(revision.body);
+      const { start, end } = input.anchor;
+      if (start < 0 || end <= start || end > text.length) {
+        throw new ContentWorkflowError(
+          `Comment range ${start}-${end} is outside version ${version}`,
+          "INVALID_INPUT",
+        );
+      }
+      quote = text.slice(start, end);
+    }
+
+    return this.prisma.contentComment.create({
+      data: {
+        contentId,
+        version,
+        authorId: input.authorId,
+        body: input.body,
+        anchorStart: input.anchor?.start ?? null,
+        anchorEnd: input.anchor?.end ?? null,
+        quote,
+      },
+    });
+  }
+
+  async resolveComment(
+    commentId: string,
+    resolvedBy: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<ContentComment> {
+    const comment = await this.prisma.contentComment.findFirst({
+      where: { id: commentId, content: { workspaceId } },
+    });
+    if (!comment) {
+      throw new ContentWorkflowError("Comment not found", "NOT_FOUND");
+    }
+
+    return this.prisma.contentComment.update({
+      where: { id: commentId },
+      data: { resolvedAt: new Date(), resolvedBy },
+    });
+  }
+
+  async listComments(
+    contentId: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+    options: { version?: number; includeResolved?: boolean } = {},
+  ): Promise<ContentComment[]> {
+    await this.getContent(contentId, workspaceId);
+    return this.prisma.contentComment.findMany({
+      where: {
+        contentId,
+        ...(options.version !== undefined && { version: options.version }),
+        ...(!options.includeResolved && { resolvedAt: null }),
+      },
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  async listRevisions(
+    contentId: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<ContentRevision[]> {
+    await this.getContent(contentId, workspaceId);
+    return this.prisma.contentRevision.findMany({
+      where: { contentId },
+      orderBy: { version: "asc" },
+    });
+  }
+
+  /**
+   * Diff two versions. By default compares the latest agent-generated
+   * revision with the current version, i.e. what humans changed.
+   */
+  async diffRevisions(
+    contentId: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+    fromVersion?: number,
+    toVersion?: number,
+  ): Promise<RevisionDiff> {
+    const revisions = await this.listRevisions(contentId, workspaceId);
+    const current = revisions[revisions.length - 1]!;
+    const latestAgent = [...revisions]
+      .reverse()
+      .find((revision) => revision.source === "AGENT");
+
+    const from =
+      fromVersion !== undefined
+        ? revisions.find((revision) => revision.version === fromVersion)
+        : (latestAgent ?? revisions[0]);
+    const to =
+      toVersion !== undefined
+        ? revisions.find((revision) => revision.version === toVersion)
+        : current;
+    if (!from || !to) {
+      throw new ContentWorkflowError(
+        `Version ${!from ? fromVersion : toVersion} not found`,
+        "NOT_FOUND",
+      );
+    }
+
+    return {
+      from: revisionSummary(from),
+      to: revisionSummary(to),
+      ...diffContent(from.body, to.body),
+    };
+  }
+
+  async schedule(
+    contentId: string,
+    scheduledAt: Date,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<Content> {
+    return this.transition(contentId, workspaceId, "SCHEDULED", {
+      scheduledAt,
+    });
+  }
+
+  // Content published before, on another platform, is left as it is
+  async markPublished(
+    contentId: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<Content> {
+    const content = await this.getContent(contentId, workspaceId);
+    if (content.status === "PUBLISHED") {
+      return content;
+    }
+    return this.transition(contentId, workspaceId, "PUBLISHED", {
+      publishedAt: new Date(),
+    });
+  }
+
+  async archive(
+    contentId: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<Content> {
+    return this.transition(contentId, workspaceId, "ARCHIVED");
+  }
+
+  /**
+   * Guard for publishing and sending. Returns the approved revision, or
+   * throws ContentNotApprovedError when the content is missing, not in an
+   * approved status, or its current version lacks required approvals.
+   */
+  async assertPublishable(
+    contentId: string | undefined,
+    workspaceId?: string,
+  ): Promise<PublishableContent> {
+    if (!contentId) {
+      throw new ContentNotApprovedError(
+        "Only approved content can be published; pass the contentId of approved content",
+        contentId,
+      );
+    }
+
+    const content = await this.prisma.content.findFirst({
+      where: { id: contentId, ...(workspaceId && { workspaceId }) },
+    });
+    if (!content) {
+      throw new ContentNotApprovedError(
+        `Content ${contentId} not found`,
+        contentId,
+      );
+    }
+    if (!PUBLISHABLE_STATUSES.includes(content.status)) {
+      throw new ContentNotApprovedError(
+        `Content ${contentId} is ${content.status} and has not been approved`,
+        contentId,
+        content.status,
+      );
+    }
+
+    const approval = await this.getApprovalState(
+      contentId,
+      content.workspaceId,
+    );
+    if (!approval.approved) {
+      throw new ContentNotApprovedError(
+        `Version ${approval.version} of content ${contentId} is waiting for ${approval.pendingApproverIds.join(", ") || "an approval"}`,
+        contentId,
+        content.status,
+      );
+    }
+
+    const revision = await this.getRevision(contentId, content.currentVersion);
+    return { content, revision, text: contentText(revision.body) };
+  }
+
+  private async getContent(
+    contentId: string,
+    workspaceId: string,
+  ): Promise<Content> {
+    const content = await this.prisma.content.findFirst({
+      where: { id: contentId, workspaceId },
+    });
+    if (!content) {
+      throw new ContentWorkflowError("Content not found", "NOT_FOUND");
+    }
+    return content;
+  }
+
+  private async getRevision(
+    contentId: string,
+    version: number,
+  ): Promise<ContentRevision> {
+    const revision = await this.prisma.contentRevision.findUnique({
+      where: { contentId_version: { contentId, version } },
+    });
+    if (!revision) {
+      throw new ContentWorkflowError(
+        `Version ${version} not found`,
+        "NOT_FOUND",
+      );
+    }
+    return revision;
+  }
+
+  /**
+   * Move content to another status. The update only applies if the status
+   * has not changed since it was read.
+   */
+  private async transition(
+    contentId: string,
+    workspaceId: string,
+    to: ContentStatus,
+    data: { scheduledAt?: Date; publishedAt?: Date } = {},
+  ): Promise<Content> {
+    const content = await this.getContent(contentId, workspaceId);
+    if (!CONTENT_TRANSITIONS[content.status].includes(to)) {
+      throw new ContentWorkflowError(
+        `Cannot move content from ${content.status} to ${to}`,
+        "INVALID_TRANSITION",
+      );
+    }
+
+    const { count } = await this.prisma.content.updateMany({
+      where: { id: contentId, status: content.status },
+      data: { status: to, ...data },
+    });
+    if (count === 0) {
+      throw new ContentWorkflowError(
+        "Content changed while it was being updated; reload and retry",
+        "STALE_VERSION",
+      );
+    }
+
+    return { ...content, status: to, ...data };
+  }
+}
+
+export function approvalState(
+  version: number,
+  requiredApproverIds: string[],
+  approvals: Pick<ContentApproval, "reviewerId" | "decision" | "version">[],
+): ApprovalState {
+  const current = approvals.filter((approval) => approval.version === version);
+  const approvedBy = current
+    .filter((approval) => approval.decision === "APPROVED")
+    .map((approval) => approval.reviewerId);
+  const changesRequestedBy = current
+    .filter((approval) => approval.decision === "CHANGES_REQUESTED")
+    .map((approval) => approval.reviewerId);
+  const pendingApproverIds = requiredApproverIds.filter(
+    (id) => !approvedBy.includes(id),
+  );
+
+  return {
+    version,
+    requiredApproverIds,
+    approvedBy,
+    pendingApproverIds,
+    changesRequestedBy,
+    approved:
+      changesRequestedBy.length === 0 &&
+      pendingApproverIds.length === 0 &&
+      approvedBy.length > 0,
+  };
+}
+
+function revisionAuthor(input: RevisionAuthor) {
+  return {
+    source: input.source,
+    authorId: input.authorId ?? null,
+    agentType: input.agentType ?? null,
+    note: input.note ?? null,
+  };
+}
+
+function revisionSummary(revision: ContentRevision): RevisionDiff["from"] {
+  return {
+    version: revision.version,
+    source: revision.source,
+    authorId: revision.authorId,
+    agentType: revision.agentType,
+  };
+}
+
+function staleVersion(content: Content, version: number): ContentWorkflowError {
+  return new ContentWorkflowError(
+    `Version ${version} is out of date; content is at version ${content.currentVersion}`,
+    "STALE_VERSION",
+  );
+}
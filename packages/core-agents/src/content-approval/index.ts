@@ -0,0 +1,2 @@
+export * from "./content-diff";
+export * from "./content-workflow";
@@ -0,0 +1,338 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { DripSequences, type DripSequenceInput } from "./drip-sequences";
+import { EmailTransportError } from "./transport";
+import { UnsubscribeLinks } from "./unsubscribe";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+describe("DripSequences", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let send: jest.Mock<(input: any) => Promise<any>>;
+  let suppressed: Set<string>;
+  let sequences: DripSequences;
+
+  const storedEnrollments = () => db.tables.emailSequenceEnrollment!;
+  // Move every enrollment back in time, as if the hours had passed
+  const elapse = (hours: number) => {
+    const shift = (date: Date | null) =>
+      date && new Date(date.getTime() - hours * 60 * 60 * 1000);
+    for (const row of storedEnrollments()) {
+      for (const key of [
+        "stepStartedAt",
+        "nextRunAt",
+        "lastSentAt",
+        "enrolledAt",
+        "finishedAt",
+        "updatedAt",
+      ]) {
+        row[key] = shift(row[key]);
+      }
+    }
+  };
+  const event = (email: string, type: string, url?: string) =>
+    db.seed("emailEvent", {
+      workspaceId: "ws-1",
+      email,
+      type,
+      provider: "sendgrid",
+      providerEventId: `evt_${db.tables.emailEvent!.length}`,
+      url: url ?? null,
+      occurredAt: new Date(),
+    });
+  const sentTo = () =>
+    send.mock.calls.map(([input]: any[]) => `${input.to}: ${input.subject}`);
+  const create = async (input: Partial<DripSequenceInput>) => {
+    const sequence = await sequences.save({
+      workspaceId: "ws-1",
+      name: "Onboarding",
+      steps: [{ type: "email", subject: "Hi", text: "Hello" }],
+      ...input,
+    });
+    return sequences.setStatus("ws-1", sequence.id, "ACTIVE");
+  };
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", { id: "ws-1", name: "One", slug: "one" });
+    db.seed("lead", {
+      id: "lead_1",
+      workspaceId: "ws-1",
+      email: "Ada@Example.com",
+      name: "Ada Lovelace",
+      company: "Analytical Engines",
+      status: "CONTACTED",
+      tags: [],
+    });
+    send = jest.fn(async (input: any) => ({
+      messageId: `msg-${input.to}`,
+      transport: "mailbox",
+    }));
+    suppressed = new Set();
+    const deliveries: any = {
+      filterSuppressed: async (_workspaceId: string, emails: string[]) => ({
+        allowed: emails.filter((email) => !suppressed.has(email)),
+        suppressed: emails.filter((email) => suppressed.has(email)),
+      }),
+      isSuppressed: async (_workspaceId: string, email: string) =>
+        suppressed.has(email),
+    };
+    sequences = new DripSequences(db.prisma, {
+      sender: { send } as any,
+      deliveries,
+      templates: {} as any,
+      unsubscribeLinks: new UnsubscribeLinks({
+        secret: "test-secret",
+        url: "https://neon.dev/unsubscribe",
+      }),
+    });
+  });
+
+  it("rejects invalid sequences and enrolls only in active ones", async () => {
+    await expect(
+      sequences.save({
+        workspaceId: "ws-1",
+        name: "Broken",
+        steps: [
+          { type: "wait", hours: 0 },
+          { type: "condition", condition: { type: "opened" }, otherwise: 0 },
+        ],
+      }),
+    ).rejects.toMatchObject({
+      code: "INVALID_SEQUENCE",
+      issues: [
+        "A sequence needs at least one email step",
+        "Step 1: waits last a positive number of hours",
+        "Step 2: can only go on at a later step",
+      ],
+    });
+
+    const draft = await sequences.save({
+      workspaceId: "ws-1",
+      name: "Draft",
+      steps: [{ type: "email", subject: "Hi", text: "Hello" }],
+    });
+    expect(draft.status).toBe("DRAFT");
+    await expect(
+      sequences.enroll("ws-1", draft.id, [{ email: "a@example.com" }]),
+    ).rejects.toMatchObject({ code: "NOT_ACTIVE" });
+  });
+
+  it("sends, waits and branches on opens for every recipient", async () => {
+    const sequence = await create({
+      steps: [
+        {
+          type: "email",
+          subject: "Welcome {{lead.firstName}}",
+          text: "Hi {{lead.firstName}} from {{lead.company}}",
+        },
+        { type: "wait", hours: 24 },
+        { type: "condition", condition: { type: "opened" }, otherwise: 4 },
+        { type: "email", subject: "Thanks for reading", text: "More" },
+        { type: "email", subject: "One last thing", text: "Bye" },
+      ],
+    });
+    const { enrolled } = await sequences.enroll("ws-1", sequence.id, [
+      { leadId: "lead_1" },
+      { email: "Bob@example.com", name: "Bob", custom: { plan: "Pro" } },
+    ]);
+    expect(enrolled.map(({ email }) => email)).toEqual([
+      "ada@example.com",
+      "bob@example.com",
+    ]);
+
+    expect(await sequences.runDue()).toMatchObject({ sent: 2, waiting: 2 });
+    expect(sentTo()).toEqual([
+      "ada@example.com: Welcome Ada",
+      "bob@example.com: Welcome Bob",
+    ]);
+    const [first] = send.mock.calls[0]!;
+    expect(first.text).toContain("Hi Ada from Analytical Engines");
+    expect(first.text).toContain("https://neon.dev/unsubscribe?token=");
+    expect(first.headers).toHaveProperty("List-Unsubscribe");
+
+    // Not due yet
+    expect(await sequences.runDue()).toMatchObject({ sent: 0, waiting: 0 });
+
+    elapse(25);
+    event("ada@example.com", "OPEN");
+    send.mockClear();
+    expect(await sequences.runDue()).toMatchObject({ sent: 3, completed: 2 });
+    expect(sentTo()).toEqual([
+      "ada@example.com: Thanks for reading",
+      "ada@example.com: One last thing",
+      "bob@example.com: One last thing",
+    ]);
+    expect(
+      storedEnrollments()[1]!.history.map(({ outcome }: any) => outcome),
+    ).toEqual(["sent", "waited", "condition not met", "sent"]);
+  });
+
+  it("exits on exit criteria, unmet conditions and timeouts", async () => {
+    db.seed("lead", {
+      id: "lead_2",
+      workspaceId: "ws-1",
+      email: "grace@example.com",
+      status: "NEW",
+    });
+    const sequence = await create({
+      exitWhen: [{ type: "replied" }],
+      steps: [
+        { type: "email", subject: "Hi", text: "Hello" },
+        {
+          type: "wait_until",
+          condition: { type: "lead_status_changed", to: ["CONVERTED"] },
+          timeoutHours: 48,
+          onTimeout: "exit",
+        },
+        { type: "email", subject: "Welcome aboard", text: "Thanks" },
+      ],
+    });
+    await sequences.enroll("ws-1", sequence.id, [
+      { leadId: "lead_1" },
+      { leadId: "lead_2" },
+      { email: "carol@example.com" },
+    ]);
+    await sequences.runDue();
+
+    event("carol@example.com", "REPLY");
+    db.tables.lead![0]!.status = "CONVERTED";
+    elapse(1);
+    expect(await sequences.runDue()).toMatchObject({
+      sent: 1,
+      completed: 1,
+      exited: 1,
+      waiting: 1,
+    });
+    expect(storedEnrollments().map(({ status }) => status)).toEqual([
+      "COMPLETED",
+      "ACTIVE",
+      "EXITED",
+    ]);
+    expect(storedEnrollments()[2]!.exitReason).toBe(
+      "Exit criterion met: replied",
+    );
+
+    elapse(48);
+    expect(await sequences.runDue()).toMatchObject({ exited: 1 });
+    expect(storedEnrollments()[1]!).toMatchObject({
+      status: "EXITED",
+      exitReason: "Timed out waiting until lead status changed to CONVERTED",
+    });
+    expect(send).toHaveBeenCalledTimes(4);
+  });
+
+  it("applies re-entry rules and skips suppressed recipients", async () => {
+    suppressed.add("gone@example.com");
+    const once = await create({ name: "Once" });
+    expect(
+      await sequences.enroll("ws-1", once.id, [
+        { email: "a@example.com" },
+        { email: "A@example.com" },
+        { email: "gone@example.com" },
+        { leadId: "missing" },
+      ]),
+    ).toMatchObject({
+      enrolled: [{ email: "a@example.com" }],
+      skipped: [
+        { recipient: "A@example.com", reason: "Already in the sequence" },
+        { recipient: "gone@example.com", reason: "Suppressed" },
+        { recipient: "missing", reason: "Lead not found" },
+      ],
+    });
+    await sequences.runDue();
+    expect(
+      (await sequences.enroll("ws-1", once.id, [{ email: "a@example.com" }]))
+        .skipped,
+    ).toEqual([
+      {
+        recipient: "a@example.com",
+        reason: "Already went through the sequence",
+      },
+    ]);
+
+    const weekly = await create({
+      name: "Weekly",
+      reentry: "ALWAYS",
+      reentryAfterDays: 7,
+    });
+    await sequences.enroll("ws-1", weekly.id, [{ email: "a@example.com" }]);
+    await sequences.runDue();
+    const again = () =>
+      sequences.enroll("ws-1", weekly.id, [{ email: "a@example.com" }]);
+    expect((await again()).enrolled).toHaveLength(0);
+    elapse(8 * 24);
+    expect((await again()).enrolled).toHaveLength(1);
+  });
+
+  it("retries transient send failures and fails permanent ones", async () => {
+    const sequence = await create({});
+    await sequences.enroll("ws-1", sequence.id, [
+      { email: "a@example.com" },
+      { email: "b@example.com" },
+    ]);
+    send.mockImplementation(async (input: any) => {
+      throw input.to === "a@example.com"
+        ? new EmailTransportError("Try later", "UNAVAILABLE", true)
+        : new EmailTransportError("No sender", "INVALID_SENDER");
+    });
+
+    expect(await sequences.runDue()).toMatchObject({ retrying: 1, failed: 1 });
+    expect(storedEnrollments()[0]!).toMatchObject({
+      status: "ACTIVE",
+      currentStep: 0,
+      attempts: 1,
+    });
+    expect(storedEnrollments()[1]!).toMatchObject({
+      status: "FAILED",
+      exitReason: "No sender",
+    });
+
+    send.mockResolvedValue({ messageId: "msg", transport: "mailbox" });
+    elapse(1);
+    expect(await sequences.runDue()).toMatchObject({ sent: 1, completed: 1 });
+  });
+
+  it("shows where every enrolled recipient sits", async () => {
+    const sequence = await create({
+      steps: [
+        { type: "email", subject: "Hi", text: "Hello" },
+        { type: "wait", hours: 24 },
+        { type: "email", subject: "Again", text: "Hello again" },
+      ],
+    });
+    await sequences.enroll("ws-1", sequence.id, [
+      { email: "a@example.com" },
+      { email: "b@example.com" },
+      { email: "c@example.com" },
+    ]);
+    await sequences.runDue();
+    await sequences.unenroll("ws-1", storedEnrollments()[2]!.id);
+
+    const progress = await sequences.progress("ws-1", sequence.id);
+    expect(progress.counts).toEqual({
+      ACTIVE: 2,
+      COMPLETED: 0,
+      EXITED: 1,
+      FAILED: 0,
+    });
+    expect(progress.steps).toEqual([
+      { index: 0, type: "email", active: 0 },
+      { index: 1, type: "wait", active: 2 },
+      { index: 2, type: "email", active: 0 },
+    ]);
+    const { enrollments, total } = await sequences.enrollments(
+      "ws-1",
+      sequence.id,
+      { status: "ACTIVE", step: 1 },
+    );
+    expect(total).toBe(2);
+    expect(enrollments.map(({ email }) => email).sort()).toEqual([
+      "a@example.com",
+      "b@example.com",
+    ]);
+
+    // Paused sequences hold their enrollments
+    await sequences.setStatus("ws-1", sequence.id, "PAUSED");
+    elapse(25);
+    expect(await sequences.runDue()).toMatchObject({ sent: 0 });
+  });
+});
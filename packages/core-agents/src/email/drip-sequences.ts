@@ -0,0 +1,855 @@
+import { hostname } from "os";
+import {
+  db,
+  type EmailEventType,
+  type EmailSequence,
+  type EmailSequenceEnrollment,
+  type EmailSequenceEnrollmentStatus,
+  type EmailSequenceReentry,
+  type EmailSequenceStatus,
+  type Lead,
+  type PrismaClient,
+} from "@neon/data-model";
+import { logger } from "@neon/utils";
+import { SENDGRID_CUSTOM_ARGS } from "../metrics/sendgrid-event-receiver";
+import { EmailDeliveryTracker } from "./email-delivery-tracker";
+import { EmailSender, getEmailSender } from "./email-sender";
+import { EmailTemplates } from "./email-templates";
+import { htmlToText } from "./html-to-text";
+import type { MergeValue, TemplateRecipient } from "./merge-fields";
+import {
+  describeCondition,
+  validateSequence,
+  type SequenceCondition,
+  type SequenceStep,
+} from "./sequence-steps";
+import { EmailTemplateError, renderText } from "./template-engine";
+import { EmailTransportError } from "./transport";
+import { normalizeEmail } from "./types";
+import { UnsubscribeLinks, withUnsubscribeLink } from "./unsubscribe";
+
+/**
+ * Runs drip sequences. Recipients are enrolled one by one; each
+ * enrollment remembers its step and when it next needs attention, and the
+ * runner advances the enrollments that are due: it sends their emails,
+ * holds them through waits and checks conditions against the recipient's
+ * email events and lead status. Exit criteria are checked before every
+ * step, so nobody gets another email once they meet one.
+ */
+
+export type EmailSequenceErrorCode =
+  | "INVALID_SEQUENCE"
+  | "NOT_FOUND"
+  | "NOT_ACTIVE";
+
+export class EmailSequenceError extends Error {
+  constructor(
+    message: string,
+    readonly code: EmailSequenceErrorCode,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "EmailSequenceError";
+  }
+}
+
+export interface DripSequenceInput {
+  workspaceId: string;
+  name: string;
+  description?: string | undefined;
+  steps: SequenceStep[];
+  // Any condition met ends the enrollment
+  exitWhen?: SequenceCondition[] | undefined;
+  reentry?: EmailSequenceReentry | undefined;
+  // Days after finishing before a recipient may enroll again
+  reentryAfterDays?: number | undefined;
+  fromEmail?: string | undefined;
+  fromName?: string | undefined;
+  replyTo?: string | undefined;
+  createdById?: string | undefined;
+}
+
+// A lead, or an address with merge values of its own
+export interface EnrollRecipient {
+  leadId?: string | undefined;
+  email?: string | undefined;
+  name?: string | undefined;
+  custom?: Record<string, MergeValue> | undefined;
+}
+
+export interface EnrollSummary {
+  enrolled: EmailSequenceEnrollment[];
+  skipped: Array<{ recipient: string; reason: string }>;
+}
+
+export interface SequenceRunSummary {
+  // Emails sent
+  sent: number;
+  // Enrollments now waiting for their next step
+  waiting: number;
+  retrying: number;
+  completed: number;
+  exited: number;
+  failed: number;
+  // Claimed by another runner in the meantime
+  skipped: number;
+}
+
+export interface SequenceProgress {
+  sequence: EmailSequence;
+  counts: Record<EmailSequenceEnrollmentStatus, number>;
+  // Active enrollments at each step
+  steps: Array<{ index: number; type: SequenceStep["type"]; active: number }>;
+}
+
+export interface EnrollmentQuery {
+  status?: EmailSequenceEnrollmentStatus | undefined;
+  step?: number | undefined;
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface EnrollmentHistoryEntry {
+  step: number;
+  type: SequenceStep["type"];
+  outcome: string;
+  at: string;
+}
+
+export interface DripSequencesOptions {
+  sender?: EmailSender;
+  templates?: EmailTemplates;
+  deliveries?: EmailDeliveryTracker;
+  unsubscribeLinks?: UnsubscribeLinks;
+  pollInterval?: number; // milliseconds
+  // Enrollments advanced per poll
+  batchSize?: number;
+  // How often a wait_until step checks its condition again
+  conditionCheckMs?: number;
+  // Sends of one step before the enrollment fails
+  maxAttempts?: number;
+}
+
+type EnrollmentWithSequence = EmailSequenceEnrollment & {
+  sequence: EmailSequence;
+};
+type Outcome = Exclude<keyof SequenceRunSummary, "sent" | "skipped">;
+
+const EVENT_TYPES: Record<"opened" | "clicked" | "replied", EmailEventType> = {
+  opened: "OPEN",
+  clicked: "CLICK",
+  replied: "REPLY",
+};
+
+// An enrollment being advanced is leased for this long
+const LEASE_MS = 10 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export class DripSequences {
+  readonly runnerId: string;
+  private prisma: PrismaClient;
+  private sender: EmailSender;
+  private templates: EmailTemplates;
+  private deliveries: EmailDeliveryTracker;
+  private unsubscribeLinks: UnsubscribeLinks;
+  private pollInterval: number;
+  private batchSize: number;
+  private conditionCheckMs: number;
+  private maxAttempts: number;
+  private running = false;
+  private pollTimer: NodeJS.Timeout | undefined;
+  private currentRun: Promise<SequenceRunSummary> | undefined;
+
+  constructor(prisma?: PrismaClient, options: DripSequencesOptions = {}) {
+    this.prisma = prisma || db;
+    this.sender =
+      options.sender ??
+      (this.prisma === db ? getEmailSender() : new EmailSender(this.prisma));
+    this.templates = options.templates ?? new EmailTemplates(this.prisma);
+    this.deliveries =
+      options.deliveries ?? new EmailDeliveryTracker(this.prisma);
+    this.unsubscribeLinks = options.unsubscribeLinks ?? new UnsubscribeLinks();
+    this.runnerId = `${hostname()}:${process.pid}`;
+    this.pollInterval = options.pollInterval ?? 60 * 1000;
+    this.batchSize = options.batchSize ?? 50;
+    this.conditionCheckMs = options.conditionCheckMs ?? 15 * 60 * 1000;
+    this.maxAttempts = options.maxAttempts ?? 5;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    logger.info(
+      "Drip sequence runner started",
+      { runnerId: this.runnerId },
+      "DripSequences",
+    );
+    await this.poll();
+  }
+
+  /**
+   * Stop polling and wait for the enrollments being advanced
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    await this.currentRun;
+  }
+
+  async list(workspaceId: string): Promise<EmailSequence[]> {
+    return this.prisma.emailSequence.findMany({
+      where: { workspaceId },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  async get(workspaceId: string, id: string): Promise<EmailSequence> {
+    const sequence = await this.prisma.emailSequence.findFirst({
+      where: { workspaceId, id },
+    });
+    if (!sequence) {
+      throw new EmailSequenceError("Email sequence not found", "NOT_FOUND");
+    }
+    return sequence;
+  }
+
+  /**
+   * Create the sequence as a draft, or replace the steps and rules of the
+   * workspace's sequence of that name. Enrollments keep their position.
+   */
+  async save(input: DripSequenceInput): Promise<EmailSequence> {
+    const exitWhen = input.exitWhen ?? [];
+    const issues = validateSequence(input.steps, exitWhen);
+    for (const [index, step] of input.steps.entries()) {
+      if (step.type !== "email" || !step.templateId) continue;
+      try {
+        await this.templates.get(input.workspaceId, step.templateId);
+      } catch {
+        issues.push(`Step ${index + 1}: email template not found`);
+      }
+    }
+    if (issues.length > 0) {
+      throw new EmailSequenceError(
+        "Invalid email sequence",
+        "INVALID_SEQUENCE",
+        issues,
+      );
+    }
+
+    const fields = {
+      description: input.description ?? null,
+      steps: input.steps as object[],
+      exitWhen: exitWhen as object[],
+      reentry: input.reentry ?? "NEVER",
+      reentryAfterDays: input.reentryAfterDays ?? 0,
+      fromEmail: input.fromEmail ?? null,
+      fromName: input.fromName ?? null,
+      replyTo: input.replyTo ?? null,
+    };
+    return this.prisma.emailSequence.upsert({
+      where: {
+        workspaceId_name: { workspaceId: input.workspaceId, name: input.name },
+      },
+      create: {
+        workspaceId: input.workspaceId,
+        name: input.name,
+        createdById: input.createdById ?? null,
+        ...fields,
+      },
+      update: fields,
+    });
+  }
+
+  /**
+   * Activate, pause or archive a sequence. Paused sequences keep their
+   * enrollments where they are; archiving ends them.
+   */
+  async setStatus(
+    workspaceId: string,
+    id: string,
+    status: EmailSequenceStatus,
+  ): Promise<EmailSequence> {
+    await this.get(workspaceId, id);
+    if (status === "ARCHIVED") {
+      await this.prisma.emailSequenceEnrollment.updateMany({
+        where: { sequenceId: id, status: "ACTIVE" },
+        data: {
+          status: "EXITED",
+          exitReason: "The sequence was archived",
+          finishedAt: new Date(),
+        },
+      });
+    }
+    return this.prisma.emailSequence.update({
+      where: { id },
+      data: { status },
+    });
+  }
+
+  /**
+   * Enroll recipients in an active sequence. Recipients already in it,
+   * suppressed ones and those the re-entry rule keeps out are skipped.
+   */
+  async enroll(
+    workspaceId: string,
+    sequenceId: string,
+    recipients: EnrollRecipient[],
+  ): Promise<EnrollSummary> {
+    const sequence = await this.get(workspaceId, sequenceId);
+    if (sequence.status !== "ACTIVE") {
+      throw new EmailSequenceError(
+        `Only active sequences take enrollments; this one is ${sequence.status}`,
+        "NOT_ACTIVE",
+      );
+    }
+
+    const leadIds = recipients.flatMap(({ leadId }) =>
+      leadId ? [leadId] : [],
+    );
+    const leads = new Map<string, Lead>(
+      leadIds.length > 0
+        ? (
+            await this.prisma.lead.findMany({
+              where: { id: { in: leadIds }, workspaceId },
+            })
+          ).map((lead: Lead) => [lead.id, lead])
+        : [],
+    );
+    const summary: EnrollSummary = { enrolled: [], skipped: [] };
+    const addresses = recipients.map(
+      (recipient) =>
+        (recipient.leadId && leads.get(recipient.leadId)?.email) ||
+        recipient.email ||
+        "",
+    );
+    const { suppressed } = await this.deliveries.filterSuppressed(
+      workspaceId,
+      addresses.filter(Boolean),
+    );
+    const suppressedSet = new Set(suppressed.map(normalizeEmail));
+
+    for (const [index, recipient] of recipients.entries()) {
+      const label = recipient.leadId ?? recipient.email ?? "";
+      const lead = recipient.leadId ? leads.get(recipient.leadId) : undefined;
+      if (recipient.leadId && !lead) {
+        summary.skipped.push({ recipient: label, reason: "Lead not found" });
+        continue;
+      }
+      if (!addresses[index]) {
+        summary.skipped.push({ recipient: label, reason: "No email address" });
+        continue;
+      }
+      const email = normalizeEmail(addresses[index]!);
+      if (suppressedSet.has(email)) {
+        summary.skipped.push({ recipient: label, reason: "Suppressed" });
+        continue;
+      }
+      const refusal = await this.reentryRefusal(sequence, email);
+      if (refusal) {
+        summary.skipped.push({ recipient: label, reason: refusal });
+        continue;
+      }
+
+      const stored: TemplateRecipient = {
+        ...(recipient.name && { lead: { name: recipient.name } }),
+        ...(recipient.custom && { custom: recipient.custom }),
+      };
+      summary.enrolled.push(
+        await this.prisma.emailSequenceEnrollment.create({
+          data: {
+            workspaceId,
+            sequenceId,
+            leadId: lead?.id ?? null,
+            email,
+            recipient: stored as object,
+            leadStatus: lead?.status ?? null,
+          },
+        }),
+      );
+    }
+    return summary;
+  }
+
+  async unenroll(workspaceId: string, enrollmentId: string): Promise<boolean> {
+    const { count } = await this.prisma.emailSequenceEnrollment.updateMany({
+      where: { id: enrollmentId, workspaceId, status: "ACTIVE" },
+      data: {
+        status: "EXITED",
+        exitReason: "Removed from the sequence",
+        finishedAt: new Date(),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * How many enrollments sit at each step, and how many finished
+   */
+  async progress(
+    workspaceId: string,
+    sequenceId: string,
+  ): Promise<SequenceProgress> {
+    const sequence = await this.get(workspaceId, sequenceId);
+    const [byStatus, byStep] = await Promise.all([
+      this.prisma.emailSequenceEnrollment.groupBy({
+        by: ["status"],
+        where: { sequenceId },
+        _count: { _all: true },
+      }),
+      this.prisma.emailSequenceEnrollment.groupBy({
+        by: ["currentStep"],
+        where: { sequenceId, status: "ACTIVE" },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const counts = {
+      ACTIVE: 0,
+      COMPLETED: 0,
+      EXITED: 0,
+      FAILED: 0,
+    } as Record<EmailSequenceEnrollmentStatus, number>;
+    for (const group of byStatus) counts[group.status] = group._count._all;
+    const active = new Map<number, number>(
+      byStep.map((group: { currentStep: number; _count: { _all: number } }) => [
+        group.currentStep,
+        group._count._all,
+      ]),
+    );
+
+    return {
+      sequence,
+      counts,
+      steps: stepsOf(sequence).map((step, index) => ({
+        index,
+        type: step.type,
+        active: active.get(index) ?? 0,
+      })),
+    };
+  }
+
+  /**
+   * Enrollments of a sequence with their step, newest first
+   */
+  async enrollments(
+    workspaceId: string,
+    sequenceId: string,
+    query: EnrollmentQuery = {},
+  ): Promise<{ enrollments: EmailSequenceEnrollment[]; total: number }> {
+    const where = {
+      workspaceId,
+      sequenceId,
+      ...(query.status && { status: query.status }),
+      ...(query.step !== undefined && { currentStep: query.step }),
+    };
+    const [enrollments, total] = await Promise.all([
+      this.prisma.emailSequenceEnrollment.findMany({
+        where,
+        orderBy: { enrolledAt: "desc" },
+        take: query.limit ?? 50,
+        skip: query.offset ?? 0,
+      }),
+      this.prisma.emailSequenceEnrollment.count({ where }),
+    ]);
+    return { enrollments, total };
+  }
+
+  /**
+   * Advance the enrollments of active sequences that are due
+   */
+  async runDue(): Promise<SequenceRunSummary> {
+    const summary: SequenceRunSummary = {
+      sent: 0,
+      waiting: 0,
+      retrying: 0,
+      completed: 0,
+      exited: 0,
+      failed: 0,
+      skipped: 0,
+    };
+    const due: EnrollmentWithSequence[] =
+      await this.prisma.emailSequenceEnrollment.findMany({
+        where: {
+          status: "ACTIVE",
+          nextRunAt: { lte: new Date() },
+          sequence: { status: "ACTIVE" },
+        },
+        include: { sequence: true },
+        orderBy: { nextRunAt: "asc" },
+        take: this.batchSize,
+      });
+
+    for (const enrollment of due) {
+      // Lease the enrollment so another runner leaves it alone
+      const { count } = await this.prisma.emailSequenceEnrollment.updateMany({
+        where: {
+          id: enrollment.id,
+          status: "ACTIVE",
+          nextRunAt: enrollment.nextRunAt,
+        },
+        data: { nextRunAt: new Date(Date.now() + LEASE_MS) },
+      });
+      if (count === 0) {
+        summary.skipped++;
+        continue;
+      }
+
+      try {
+        summary[await this.advance(enrollment, summary)]++;
+      } catch (error) {
+        // The lease runs out and the enrollment is tried again
+        logger.error(
+          "Failed to advance sequence enrollment",
+          { enrollmentId: enrollment.id, error },
+          "DripSequences",
+        );
+        summary.retrying++;
+      }
+    }
+    return summary;
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      this.currentRun = this.runDue();
+      const summary = await this.currentRun;
+      logger.debug("Drip sequence run", { ...summary }, "DripSequences");
+    } catch (error) {
+      logger.error(
+        "Drip sequence poll failed",
+        { runnerId: this.runnerId, error },
+        "DripSequences",
+      );
+    } finally {
+      this.currentRun = undefined;
+    }
+
+    if (this.running) {
+      this.pollTimer = setTimeout(() => void this.poll(), this.pollInterval);
+    }
+  }
+
+  /**
+   * Take the enrollment's steps until it has to wait, finishes or fails
+   */
+  private async advance(
+    enrollment: EnrollmentWithSequence,
+    summary: SequenceRunSummary,
+  ): Promise<Outcome> {
+    const steps = stepsOf(enrollment.sequence);
+    const state = {
+      currentStep: enrollment.currentStep,
+      stepStartedAt: enrollment.stepStartedAt,
+      lastSentAt: enrollment.lastSentAt,
+      attempts: enrollment.attempts,
+      history: [
+        ...((enrollment.history ?? []) as unknown as EnrollmentHistoryEntry[]),
+      ],
+    };
+    const conditions = new ConditionCheck(this.prisma, enrollment);
+    const save = (data: Record<string, unknown> = {}) =>
+      this.prisma.emailSequenceEnrollment.update({
+        where: { id: enrollment.id },
+        data: { ...state, history: state.history as object[], ...data },
+      });
+    const finish = async (
+      status: "COMPLETED" | "EXITED" | "FAILED",
+      exitReason: string | null = null,
+    ): Promise<Outcome> => {
+      await save({ status, exitReason, finishedAt: new Date() });
+      return status === "COMPLETED"
+        ? "completed"
+        : status === "EXITED"
+          ? "exited"
+          : "failed";
+    };
+    const waitUntil = async (at: Date, outcome: Outcome = "waiting") => {
+      await save({ nextRunAt: at });
+      return outcome;
+    };
+
+    const exitWhen = (enrollment.sequence.exitWhen ??
+      []) as unknown as SequenceCondition[];
+    for (const condition of exitWhen) {
+      if (await conditions.met(condition, enrollment.enrolledAt)) {
+        return finish(
+          "EXITED",
+          `Exit criterion met: ${describeCondition(condition)}`,
+        );
+      }
+    }
+
+    // Every step moves forward, so this ends within steps.length rounds
+    for (;;) {
+      const step = steps[state.currentStep];
+      if (!step) return finish("COMPLETED");
+      const now = new Date();
+      const since = state.lastSentAt ?? enrollment.enrolledAt;
+      const goTo = (index: number, outcome: string) => {
+        state.history.push({
+          step: state.currentStep,
+          type: step.type,
+          outcome,
+          at: now.toISOString(),
+        });
+        state.currentStep = index;
+        state.stepStartedAt = now;
+        state.attempts = 0;
+      };
+      const next = state.currentStep + 1;
+
+      switch (step.type) {
+        case "wait": {
+          const until = state.stepStartedAt.getTime() + step.hours * HOUR_MS;
+          if (now.getTime() < until) return waitUntil(new Date(until));
+          goTo(next, "waited");
+          break;
+        }
+        case "wait_until": {
+          if (await conditions.met(step.condition, since)) {
+            goTo(next, "condition met");
+            break;
+          }
+          const timeout =
+            state.stepStartedAt.getTime() + step.timeoutHours * HOUR_MS;
+          if (now.getTime() < timeout) {
+            return waitUntil(
+              new Date(
+                Math.min(now.getTime() + this.conditionCheckMs, timeout),
+              ),
+            );
+          }
+          if (step.onTimeout === "exit") {
+            goTo(state.currentStep, "timed out");
+            return finish(
+              "EXITED",
+              `Timed out waiting until ${describeCondition(step.condition)}`,
+            );
+          }
+          goTo(next, "timed out");
+          break;
+        }
+        case "condition": {
+          if (await conditions.met(step.condition, since)) {
+            goTo(next, "condition met");
+          } else if (typeof step.otherwise === "number") {
+            goTo(step.otherwise, "condition not met");
+          } else {
+            goTo(state.currentStep, "condition not met");
+            return finish(
+              "EXITED",
+              `Condition not met: ${describeCondition(step.condition)}`,
+            );
+          }
+          break;
+        }
+        case "email": {
+          const { workspaceId, email } = enrollment;
+          if (await this.deliveries.isSuppressed(workspaceId, email)) {
+            return finish("EXITED", "The recipient is suppressed");
+          }
+          try {
+            await this.sendStep(enrollment, step, await conditions.lead());
+          } catch (error) {
+            const message = (error as Error).message;
+            state.attempts++;
+            const permanent =
+              error instanceof EmailTemplateError ||
+              (error instanceof EmailTransportError && !error.retryable);
+            if (permanent || state.attempts >= this.maxAttempts) {
+              return finish("FAILED", message);
+            }
+            const delay = Math.max(
+              error instanceof EmailTransportError
+                ? (error.retryAfterMs ?? 0)
+                : 0,
+              5 * 60 * 1000 * 2 ** (state.attempts - 1),
+            );
+            logger.warn(
+              "Sequence email not sent; retrying",
+              {
+                enrollmentId: enrollment.id,
+                attempts: state.attempts,
+                error: message,
+              },
+              "DripSequences",
+            );
+            return waitUntil(new Date(Date.now() + delay), "retrying");
+          }
+          summary.sent++;
+          state.lastSentAt = now;
+          goTo(next, "sent");
+          // Record the send right away, so it is never repeated
+          await save();
+          break;
+        }
+      }
+    }
+  }
+
+  private async sendStep(
+    enrollment: EnrollmentWithSequence,
+    step: Extract<SequenceStep, { type: "email" }>,
+    lead: Lead | null,
+  ): Promise<void> {
+    const { workspaceId, email, sequence } = enrollment;
+    const stored = (enrollment.recipient ?? {}) as TemplateRecipient;
+    const link = this.unsubscribeLinks.enabled
+      ? this.unsubscribeLinks.link(workspaceId, email)
+      : undefined;
+    const recipient: TemplateRecipient = {
+      ...stored,
+      lead: {
+        ...stored.lead,
+        ...(lead && {
+          name: lead.name,
+          company: lead.company,
+          position: lead.position,
+          phone: lead.phone,
+          source: lead.source,
+          status: lead.status,
+          score: lead.score,
+          tags: lead.tags,
+        }),
+        email,
+      },
+      unsubscribeUrl: link,
+    };
+
+    let subject: string;
+    let body: { text: string; html?: string | undefined };
+    if (step.templateId) {
+      const rendered = await this.templates.render(
+        workspaceId,
+        step.templateId,
+        recipient,
+      );
+      subject = rendered.subject;
+      body = { text: rendered.text, html: rendered.html };
+    } else {
+      const html = step.html
+        ? renderText(step.html, recipient, { html: true })
+        : undefined;
+      subject = renderText(step.subject ?? "", recipient).trim();
+      body = {
+        text: step.text
+          ? renderText(step.text, recipient)
+          : htmlToText(html ?? ""),
+        html,
+      };
+    }
+
+    let headers: Record<string, string> | undefined;
+    if (link) {
+      // Templates may place the link themselves with {{unsubscribe_url}}
+      if (!body.text.includes(link)) body = withUnsubscribeLink(body, link);
+      headers = this.unsubscribeLinks.headers(link);
+    }
+
+    await this.sender.send({
+      workspaceId,
+      to: email,
+      from: sequence.fromEmail ?? undefined,
+      fromName: sequence.fromName ?? undefined,
+      replyTo: sequence.replyTo ?? undefined,
+      subject,
+      text: body.text,
+      html: body.html,
+      headers,
+      customArgs: { [SENDGRID_CUSTOM_ARGS.workspaceId]: workspaceId },
+    });
+  }
+
+  // Why the recipient may not enroll (again), or null when they may
+  private async reentryRefusal(
+    sequence: EmailSequence,
+    email: string,
+  ): Promise<string | null> {
+    const previous = await this.prisma.emailSequenceEnrollment.findFirst({
+      where: { sequenceId: sequence.id, email },
+      orderBy: { enrolledAt: "desc" },
+    });
+    if (!previous) return null;
+    if (previous.status === "ACTIVE") return "Already in the sequence";
+    if (
+      sequence.reentry === "NEVER" ||
+      (sequence.reentry === "AFTER_COMPLETION" &&
+        previous.status !== "COMPLETED")
+    ) {
+      return "Already went through the sequence";
+    }
+    const finishedAt = previous.finishedAt ?? previous.updatedAt;
+    if (
+      Date.now() - finishedAt.getTime() <
+      sequence.reentryAfterDays * 24 * HOUR_MS
+    ) {
+      return `May enroll again ${sequence.reentryAfterDays} days after finishing`;
+    }
+    return null;
+  }
+}
+
+function stepsOf(sequence: EmailSequence): SequenceStep[] {
+  return (sequence.steps ?? []) as unknown as SequenceStep[];
+}
+
+// Checks conditions for one enrollment, loading its lead once
+class ConditionCheck {
+  private leadLoaded: Promise<Lead | null> | undefined;
+
+  constructor(
+    private prisma: PrismaClient,
+    private enrollment: EmailSequenceEnrollment,
+  ) {}
+
+  lead(): Promise<Lead | null> {
+    const { leadId } = this.enrollment;
+    const loaded =
+      this.leadLoaded ??
+      (leadId
+        ? this.prisma.lead.findUnique({ where: { id: leadId } })
+        : Promise.resolve(null));
+    this.leadLoaded = loaded;
+    return loaded;
+  }
+
+  // Whether the condition is met, counting email events since `since`
+  async met(condition: SequenceCondition, since: Date): Promise<boolean> {
+    switch (condition.type) {
+      case "opened":
+      case "clicked":
+      case "replied": {
+        const events = await this.prisma.emailEvent.findMany({
+          where: {
+            workspaceId: this.enrollment.workspaceId,
+            email: this.enrollment.email,
+            type: EVENT_TYPES[condition.type],
+            occurredAt: { gte: since },
+          },
+          select: { url: true },
+          take: 100,
+        });
+        return condition.type === "clicked" && condition.url
+          ? events.some(({ url }: { url: string | null }) =>
+              url?.includes(condition.url!),
+            )
+          : events.length > 0;
+      }
+      case "lead_status": {
+        const lead = await this.lead();
+        return Boolean(lead && condition.status.includes(lead.status));
+      }
+      case "lead_status_changed": {
+        const lead = await this.lead();
+        return Boolean(
+          lead &&
+            lead.status !== this.enrollment.leadStatus &&
+            (!condition.to?.length || condition.to.includes(lead.status)),
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { EmailDeliveryTracker } from "./email-delivery-tracker";
+import type { EmailDeliveryEvent } from "./types";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+const event = (
+  overrides: Partial<EmailDeliveryEvent> = {},
+): EmailDeliveryEvent => ({
+  provider: "sendgrid",
+  providerEventId: `evt_${Math.random()}`,
+  type: "DELIVERED",
+  email: "Ada@Example.com",
+  occurredAt: new Date("2026-03-02T09:00:00Z"),
+  workspaceId: "ws-1",
+  ...overrides,
+});
+
+describe("EmailDeliveryTracker", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let tracker: EmailDeliveryTracker;
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", [
+      { id: "default", name: "Default", slug: "default" },
+      { id: "ws-1", name: "One", slug: "one" },
+      { id: "ws-2", name: "Two", slug: "two" },
+    ]);
+    db.seed("user", { id: "user-1", email: "owner@example.com" });
+    db.seed("campaign", {
+      id: "camp-1",
+      workspaceId: "ws-2",
+      userId: "user-1",
+      name: "Spring",
+      type: "EMAIL",
+    });
+    db.seed("emailCampaign", {
+      id: "email_1",
+      campaignId: "camp-1",
+      name: "Spring launch",
+      subject: "New shoes",
+      content: {},
+      recipients: [],
+    });
+    tracker = new EmailDeliveryTracker(db.prisma);
+  });
+
+  it("records each event once per provider event id", async () => {
+    const delivered = event({ providerEventId: "evt_1" });
+
+    expect(await tracker.record([delivered, delivered])).toEqual({
+      recorded: 1,
+      duplicates: 1,
+      suppressed: 0,
+    });
+    expect(db.tables.emailEvent![0]).toMatchObject({
+      workspaceId: "ws-1",
+      email: "ada@example.com",
+      type: "DELIVERED",
+    });
+  });
+
+  it("suppresses hard bounces, complaints and unsubscribes", async () => {
+    const summary = await tracker.record([
+      event({ type: "BOUNCE", email: "hard@example.com" }),
+      event({ type: "BOUNCE", email: "blocked@example.com", permanent: false }),
+      event({ type: "COMPLAINT", email: "spam@example.com" }),
+      event({ type: "UNSUBSCRIBE", email: "bye@example.com" }),
+      event({ type: "UNSUBSCRIBE", email: "BYE@example.com" }),
+      event({ type: "OPEN" }),
+    ]);
+
+    expect(summary).toEqual({ recorded: 6, duplicates: 0, suppressed: 3 });
+    expect(
+      db.tables.emailSuppression!.map(({ email, reason }) => ({
+        email,
+        reason,
+      })),
+    ).toEqual([
+      { email: "hard@example.com", reason: "HARD_BOUNCE" },
+      { email: "spam@example.com", reason: "COMPLAINT" },
+      { email: "bye@example.com", reason: "UNSUBSCRIBE" },
+    ]);
+  });
+
+  it("finds the workspace through the email campaign", async () => {
+    await tracker.record([
+      event({ workspaceId: undefined, emailCampaignId: "email_1" }),
+      event({ workspaceId: undefined }),
+    ]);
+
+    expect(db.tables.emailEvent!.map((row) => row.workspaceId)).toEqual([
+      "ws-2",
+      "default",
+    ]);
+  });
+
+  it("filters suppressed recipients per workspace", async () => {
+    await tracker.suppress("ws-1", "Ada@Example.com");
+    await tracker.suppress("ws-2", "grace@example.com");
+
+    expect(
+      await tracker.filterSuppressed("ws-1", [
+        "ada@example.com",
+        "grace@example.com",
+      ]),
+    ).toEqual({
+      allowed: ["grace@example.com"],
+      suppressed: ["ada@example.com"],
+    });
+
+    expect(await tracker.unsuppress("ws-1", "ADA@example.com")).toBe(true);
+    expect(await tracker.isSuppressed("ws-1", "ada@example.com")).toBe(false);
+  });
+
+  it("returns a recipient's history newest first", async () => {
+    await tracker.record([
+      event({ type: "DELIVERED" }),
+      event({ type: "OPEN", occurredAt: new Date("2026-03-02T10:00:00Z") }),
+      event({ type: "OPEN", email: "someone@example.com" }),
+    ]);
+
+    const history = await tracker.history("ws-1", "ada@example.com");
+
+    expect(history.map((row) => row.type)).toEqual(["OPEN", "DELIVERED"]);
+  });
+});
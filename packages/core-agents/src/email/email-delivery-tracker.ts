@@ -0,0 +1,219 @@
+import {
+  db,
+  DEFAULT_WORKSPACE_ID,
+  type EmailEvent,
+  type EmailSuppression,
+  type EmailSuppressionReason,
+  type PrismaClient,
+} from "@neon/data-model";
+import {
+  normalizeEmail,
+  type EmailDeliveryEvent,
+  type RecordEventsSummary,
+} from "./types";
+
+/**
+ * Keeps the event history of every recipient and the workspace
+ * suppression lists. Hard bounces, spam complaints and unsubscribes
+ * suppress the address; campaigns skip suppressed addresses.
+ */
+export class EmailDeliveryTracker {
+  private prisma: PrismaClient;
+
+  constructor(prisma?: PrismaClient) {
+    this.prisma = prisma || db;
+  }
+
+  async record(events: EmailDeliveryEvent[]): Promise<RecordEventsSummary> {
+    const summary: RecordEventsSummary = {
+      recorded: 0,
+      duplicates: 0,
+      suppressed: 0,
+    };
+    const workspaces = new Map<string, string>();
+
+    for (const event of events) {
+      const email = normalizeEmail(event.email);
+      const workspaceId =
+        event.workspaceId ??
+        (await this.workspaceOf(event.emailCampaignId, workspaces));
+
+      const { count } = await this.prisma.emailEvent.createMany({
+        data: [
+          {
+            workspaceId,
+            email,
+            type: event.type,
+            provider: event.provider,
+            providerEventId: event.providerEventId,
+            messageId: event.messageId ?? null,
+            emailCampaignId: event.emailCampaignId ?? null,
+            url: event.url ?? null,
+            reason: event.reason ?? null,
+            occurredAt: event.occurredAt,
+            ...(event.metadata && { metadata: event.metadata as object }),
+          },
+        ],
+        skipDuplicates: true,
+      });
+      if (count === 0) {
+        summary.duplicates++;
+        continue;
+      }
+      summary.recorded++;
+
+      const reason = suppressionReason(event);
+      if (reason) {
+        const added = await this.suppress(
+          workspaceId,
+          email,
+          reason,
+          `${event.provider}:${event.providerEventId}`,
+        );
+        if (added) summary.suppressed++;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Events of one recipient, newest first
+   */
+  async history(
+    workspaceId: string,
+    email: string,
+    options: { limit?: number; before?: Date | undefined } = {},
+  ): Promise<EmailEvent[]> {
+    return this.prisma.emailEvent.findMany({
+      where: {
+        workspaceId,
+        email: normalizeEmail(email),
+        ...(options.before ? { occurredAt: { lt: options.before } } : {}),
+      },
+      orderBy: { occurredAt: "desc" },
+      take: options.limit ?? 100,
+    });
+  }
+
+  /**
+   * Suppress an address. Returns false when it already was; the first
+   * reason is kept.
+   */
+  async suppress(
+    workspaceId: string,
+    email: string,
+    reason: EmailSuppressionReason = "MANUAL",
+    source?: string,
+  ): Promise<boolean> {
+    const key = { workspaceId, email: normalizeEmail(email) };
+    const existing = await this.prisma.emailSuppression.findUnique({
+      where: { workspaceId_email: key },
+      select: { id: true },
+    });
+    if (existing) return false;
+
+    await this.prisma.emailSuppression.upsert({
+      where: { workspaceId_email: key },
+      create: { ...key, reason, source: source ?? null },
+      update: {},
+    });
+    return true;
+  }
+
+  async unsuppress(workspaceId: string, email: string): Promise<boolean> {
+    const { count } = await this.prisma.emailSuppression.deleteMany({
+      where: { workspaceId, email: normalizeEmail(email) },
+    });
+    return count > 0;
+  }
+
+  async isSuppressed(workspaceId: string, email: string): Promise<boolean> {
+    const { suppressed } = await this.filterSuppressed(workspaceId, [email]);
+    return suppressed.length > 0;
+  }
+
+  /**
+   * Split recipients into the ones that may be emailed and the
+   * suppressed ones
+   */
+  async filterSuppressed(
+    workspaceId: string,
+    emails: string[],
+  ): Promise<{ allowed: string[]; suppressed: string[] }> {
+    const rows = await this.prisma.emailSuppression.findMany({
+      where: { workspaceId, email: { in: emails.map(normalizeEmail) } },
+      select: { email: true },
+    });
+    const suppressedSet = new Set(
+      rows.map((row: Pick<EmailSuppression, "email">) => row.email),
+    );
+
+    const allowed: string[] = [];
+    const suppressed: string[] = [];
+    for (const email of emails) {
+      (suppressedSet.has(normalizeEmail(email)) ? suppressed : allowed).push(
+        email,
+      );
+    }
+    return { allowed, suppressed };
+  }
+
+  async listSuppressions(
+    workspaceId: string,
+    options: {
+      reason?: EmailSuppressionReason | undefined;
+      limit?: number;
+      offset?: number;
+    } = {},
+  ): Promise<{ suppressions: EmailSuppression[]; total: number }> {
+    const where = {
+      workspaceId,
+      ...(options.reason ? { reason: options.reason } : {}),
+    };
+    const [suppressions, total] = await Promise.all([
+      this.prisma.emailSuppression.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        take: options.limit ?? 50,
+        skip: options.offset ?? 0,
+      }),
+      this.prisma.emailSuppression.count({ where }),
+    ]);
+    return { suppressions, total };
+  }
+
+  // Workspace of the campaign an email campaign belongs to
+  private async workspaceOf(
+    emailCampaignId: string | undefined,
+    cache: Map<string, string>,
+  ): Promise<string> {
+    if (!emailCampaignId) return DEFAULT_WORKSPACE_ID;
+    if (!cache.has(emailCampaignId)) {
+      const emailCampaign = await this.prisma.emailCampaign.findUnique({
+        where: { id: emailCampaignId },
+        select: { campaign: { select: { workspaceId: true } } },
+      });
+      cache.set(
+        emailCampaignId,
+        emailCampaign?.campaign?.workspaceId ?? DEFAULT_WORKSPACE_ID,
+      );
+    }
+    return cache.get(emailCampaignId)!;
+  }
+}
+
+function suppressionReason(
+  event: EmailDeliveryEvent,
+): EmailSuppressionReason | null {
+  switch (event.type) {
+    case "BOUNCE":
+      return event.permanent === false ? null : "HARD_BOUNCE";
+    case "COMPLAINT":
+      return "COMPLAINT";
+    case "UNSUBSCRIBE":
+      return "UNSUBSCRIBE";
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { DripSequences } from "./drip-sequences";
+import { EmailSender, getEmailSender, setEmailSender } from "./email-sender";
+import { MailboxTransport } from "./mailbox-transport";
+import { RateLimiter } from "../connectors/rate-limiter";
+import {
+  EmailTransportError,
+  type EmailMessage,
+  type EmailTransport,
+} from "./transport";
+
+// A delivering transport that records what it was given
+class RecordingTransport implements EmailTransport {
+  readonly name = "recording";
+  readonly deliversMail = true;
+  sent: EmailMessage[] = [];
+  failWith: EmailTransportError | undefined;
+
+  async send(message: EmailMessage) {
+    if (this.failWith) throw this.failWith;
+    this.sent.push(message);
+    return { messageId: `<${this.sent.length}@test>`, transport: this.name };
+  }
+}
+
+const identity = (email: string, fields: Record<string, unknown> = {}) => ({
+  id: email,
+  workspaceId: "ws-1",
+  email,
+  name: null,
+  replyTo: null,
+  verifiedAt: new Date(),
+  isDefault: false,
+  ...fields,
+});
+
+// Sender identities of ws-1; the first one is its default
+const identities: any = {
+  rows: [] as ReturnType<typeof identity>[],
+  async resolve(workspaceId: string, from?: string) {
+    const rows = this.rows.filter(
+      (row: any) => row.workspaceId === workspaceId,
+    );
+    return (
+      (from ? rows.find((row: any) => row.email === from) : rows[0]) ?? null
+    );
+  },
+};
+
+describe("EmailSender", () => {
+  let transport: RecordingTransport;
+  const fastLimit = { capacity: 100, refillPerSecond: 100 };
+
+  const sender = (
+    overrides: Partial<ConstructorParameters<typeof EmailSender>[1]> = {},
+  ) =>
+    new EmailSender({} as any, {
+      transport,
+      identities,
+      defaultFrom: { email: "noreply@neon.dev", name: "Neon" },
+      workspaceRateLimit: fastLimit,
+      totalRateLimit: fastLimit,
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    identities.rows = [];
+    transport = new RecordingTransport();
+  });
+
+  it("sends as the workspace's default verified identity", async () => {
+    identities.rows = [
+      identity("news@acme.com", {
+        name: "Acme News",
+        replyTo: "support@acme.com",
+      }),
+    ];
+
+    const result = await sender().send({
+      workspaceId: "ws-1",
+      to: "ada@example.com",
+      subject: "Hello",
+      text: "Hi",
+      customArgs: { workspace_id: "ws-1" },
+    });
+
+    expect(result).toEqual({ messageId: "<1@test>", transport: "recording" });
+    expect(transport.sent[0]).toMatchObject({
+      from: { email: "news@acme.com", name: "Acme News" },
+      to: { email: "ada@example.com" },
+      replyTo: "support@acme.com",
+      workspaceId: "ws-1",
+      customArgs: { workspace_id: "ws-1" },
+    });
+  });
+
+  it("refuses unverified identities and foreign From addresses", async () => {
+    identities.rows = [identity("hi@other.io", { verifiedAt: null })];
+    const input = {
+      workspaceId: "ws-1",
+      to: "ada@example.com",
+      subject: "Hello",
+      text: "Hi",
+    };
+
+    await expect(
+      sender().send({ ...input, from: "hi@other.io" }),
+    ).rejects.toMatchObject({ code: "INVALID_SENDER" });
+    await expect(
+      sender().send({ ...input, from: "ceo@bank.com" }),
+    ).rejects.toMatchObject({ code: "INVALID_SENDER" });
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it("falls back to the configured sender for workspaces without identities", async () => {
+    await sender().send({
+      workspaceId: "ws-2",
+      to: "ada@example.com",
+      subject: "Hello",
+      text: "Hi",
+    });
+    expect(transport.sent[0]!.from).toEqual({
+      email: "noreply@neon.dev",
+      name: "Neon",
+    });
+
+    await expect(
+      sender({ defaultFrom: undefined }).send({
+        workspaceId: "ws-2",
+        to: "ada@example.com",
+        subject: "Hello",
+        text: "Hi",
+      }),
+    ).rejects.toMatchObject({ code: "NOT_CONFIGURED" });
+  });
+
+  it("pauses all sending when the provider rate limits", async () => {
+    let now = 0;
+    const waits: number[] = [];
+    const emailSender = sender();
+    // Drive the shared limiter's clock by hand
+    Object.assign(emailSender as any, {
+      totalLimiter: new RateLimiter(
+        fastLimit,
+        () => now,
+        async (ms) => {
+          waits.push(ms);
+          now += ms;
+        },
+      ),
+    });
+    const input = {
+      workspaceId: "ws-2",
+      to: "ada@example.com",
+      subject: "Hello",
+      text: "Hi",
+    };
+
+    transport.failWith = new EmailTransportError(
+      "Too many requests",
+      "RATE_LIMITED",
+      true,
+      5000,
+    );
+    await expect(emailSender.send(input)).rejects.toMatchObject({
+      code: "RATE_LIMITED",
+    });
+
+    transport.failWith = undefined;
+    await emailSender.send(input);
+    expect(waits).toEqual([5000]);
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  it("is shared by everything sending from the process", () => {
+    const shared = getEmailSender();
+
+    expect(getEmailSender()).toBe(shared);
+    expect((new DripSequences() as any).sender).toBe(shared);
+
+    setEmailSender(null);
+    expect(getEmailSender()).not.toBe(shared);
+  });
+
+  describe("with the mailbox transport", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "neon-mailbox-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("captures rendered messages per workspace, from any address", async () => {
+      const mailbox = new MailboxTransport(dir);
+      const result = await sender({ transport: mailbox }).send({
+        workspaceId: "ws-1",
+        to: { email: "ada@example.com", name: "Ada" },
+        from: "preview@draft.test",
+        subject: "Preview",
+        text: "Hi",
+        html: "<p>Hi</p>",
+      });
+
+      expect(result.transport).toBe("mailbox");
+      const captured = await mailbox.list("ws-1");
+      expect(captured).toHaveLength(1);
+      expect(captured[0]!.file.endsWith(".eml")).toBe(true);
+      expect(captured[0]!.raw).toContain("From: preview@draft.test\r\n");
+      expect(captured[0]!.raw).toContain('To: "Ada" <ada@example.com>\r\n');
+      expect(captured[0]!.raw).toContain(`Message-ID: ${result.messageId}`);
+      expect(await mailbox.list("ws-2")).toEqual([]);
+    });
+  });
+});
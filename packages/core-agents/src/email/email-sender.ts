@@ -0,0 +1,202 @@
+import { db, type PrismaClient } from "@neon/data-model";
+import { logger } from "@neon/utils";
+import { RateLimiter, type RateLimit } from "../connectors/rate-limiter";
+import { SenderIdentities } from "./sender-identities";
+import { createEmailTransport } from "./transports";
+import {
+  EmailTransportError,
+  type EmailAddress,
+  type EmailTransport,
+  type SendResult,
+} from "./transport";
+import { normalizeEmail } from "./types";
+
+export interface SendEmailInput {
+  workspaceId: string;
+  to: string | EmailAddress;
+  // A sender identity of the workspace; defaults to its default identity
+  from?: string | undefined;
+  fromName?: string | undefined;
+  replyTo?: string | undefined;
+  subject: string;
+  text: string;
+  html?: string | undefined;
+  headers?: Record<string, string> | undefined;
+  customArgs?: Record<string, string> | undefined;
+}
+
+export interface EmailSenderOptions {
+  // Created from the environment on first use when not given
+  transport?: EmailTransport;
+  identities?: SenderIdentities;
+  // Sender for workspaces without identities; defaults to EMAIL_FROM
+  defaultFrom?: EmailAddress | undefined;
+  // Per workspace, and for everything going through the transport
+  workspaceRateLimit?: RateLimit;
+  totalRateLimit?: RateLimit;
+}
+
+const perSecond = (value: string | undefined, fallback: number): RateLimit => {
+  const rate = Number(value) > 0 ? Number(value) : fallback;
+  return { capacity: Math.max(1, Math.ceil(rate * 2)), refillPerSecond: rate };
+};
+
+/**
+ * Sends one email for a workspace: picks and checks the From address,
+ * waits for the workspace's and the transport's rate limits, and hands
+ * the message to the transport. A rate-limited transport pauses every
+ * workspace until the provider's retry-after has passed.
+ */
+export class EmailSender {
+  private prisma: PrismaClient;
+  private identities: SenderIdentities;
+  private configuredTransport: EmailTransport | undefined;
+  private defaultFrom: EmailAddress | undefined;
+  private workspaceRateLimit: RateLimit;
+  private workspaceLimiters = new Map<string, RateLimiter>();
+  private totalLimiter: RateLimiter;
+
+  constructor(prisma?: PrismaClient, options: EmailSenderOptions = {}) {
+    this.prisma = prisma || db;
+    this.identities = options.identities ?? new SenderIdentities(this.prisma);
+    this.configuredTransport = options.transport;
+    const envFrom = process.env.EMAIL_FROM || process.env.SENDGRID_FROM_EMAIL;
+    this.defaultFrom =
+      options.defaultFrom ??
+      (envFrom
+        ? { email: envFrom, name: process.env.EMAIL_FROM_NAME || undefined }
+        : undefined);
+    this.workspaceRateLimit =
+      options.workspaceRateLimit ??
+      perSecond(process.env.EMAIL_WORKSPACE_RATE_PER_SECOND, 10);
+    this.totalLimiter = new RateLimiter(
+      options.totalRateLimit ??
+        perSecond(process.env.EMAIL_TOTAL_RATE_PER_SECOND, 50),
+    );
+  }
+
+  get transport(): EmailTransport {
+    if (!this.configuredTransport) {
+      this.configuredTransport = createEmailTransport();
+      logger.info(
+        "Email transport ready",
+        { transport: this.configuredTransport.name },
+        "EmailSender",
+      );
+    }
+    return this.configuredTransport;
+  }
+
+  async send(input: SendEmailInput): Promise<SendResult> {
+    const transport = this.transport;
+    const { from, replyTo } = await this.senderFor(input, transport);
+    const to = typeof input.to === "string" ? { email: input.to } : input.to;
+
+    await this.limiterFor(input.workspaceId).acquire();
+    await this.totalLimiter.acquire();
+    try {
+      return await transport.send({
+        from,
+        to,
+        replyTo,
+        subject: input.subject,
+        text: input.text,
+        html: input.html,
+        headers: input.headers,
+        customArgs: input.customArgs,
+        workspaceId: input.workspaceId,
+      });
+    } catch (error) {
+      if (
+        error instanceof EmailTransportError &&
+        error.code === "RATE_LIMITED"
+      ) {
+        this.totalLimiter.pause(error.retryAfterMs ?? 60_000);
+      }
+      throw error;
+    }
+  }
+
+  private async senderFor(
+    input: SendEmailInput,
+    transport: EmailTransport,
+  ): Promise<{ from: EmailAddress; replyTo: string | undefined }> {
+    const identity = await this.identities.resolve(
+      input.workspaceId,
+      input.from,
+    );
+
+    if (identity) {
+      if (transport.deliversMail && !identity.verifiedAt) {
+        throw new EmailTransportError(
+          `${identity.email} is not verified: ${identity.domain} has no DKIM key yet`,
+          "INVALID_SENDER",
+        );
+      }
+      return {
+        from: {
+          email: identity.email,
+          name: input.fromName ?? identity.name ?? undefined,
+        },
+        replyTo: input.replyTo ?? identity.replyTo ?? undefined,
+      };
+    }
+
+    const fallback = this.defaultFrom;
+    const isFallback =
+      !input.from ||
+      (fallback &&
+        normalizeEmail(input.from) === normalizeEmail(fallback.email));
+    if (input.from && !isFallback && transport.deliversMail) {
+      throw new EmailTransportError(
+        `${input.from} is not a sender identity of this workspace`,
+        "INVALID_SENDER",
+      );
+    }
+    if (input.from && !isFallback) {
+      return {
+        from: { email: input.from, name: input.fromName },
+        replyTo: input.replyTo,
+      };
+    }
+    if (!fallback) {
+      throw new EmailTransportError(
+        "No sender: add a sender identity to the workspace or set EMAIL_FROM",
+        "NOT_CONFIGURED",
+      );
+    }
+    return {
+      from: { email: fallback.email, name: input.fromName ?? fallback.name },
+      replyTo: input.replyTo,
+    };
+  }
+
+  private limiterFor(workspaceId: string): RateLimiter {
+    let limiter = this.workspaceLimiters.get(workspaceId);
+    if (!limiter) {
+      limiter = new RateLimiter(this.workspaceRateLimit);
+      this.workspaceLimiters.set(workspaceId, limiter);
+    }
+    return limiter;
+  }
+}
+
+let sharedSender: EmailSender | null = null;
+
+/**
+ * Process-wide sender, so every agent and sequence sending from this
+ * process waits on the same rate limits
+ */
+export function getEmailSender(): EmailSender {
+  if (!sharedSender) {
+    sharedSender = new EmailSender();
+  }
+  return sharedSender;
+}
+
+/**
+ * Replace the shared sender (primarily for tests)
+ */
+export function setEmailSender(sender: EmailSender | null): void {
+  sharedSender = sender;
+}
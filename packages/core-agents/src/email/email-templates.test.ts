@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { EmailTemplates } from "./email-templates";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+const layout = (content: string) =>
+  `<mjml><mj-body><mj-section><mj-column>${content}</mj-column></mj-section></mj-body></mjml>`;
+
+describe("EmailTemplates", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let templates: EmailTemplates;
+
+  beforeEach(async () => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", [
+      { id: "ws-1", name: "One", slug: "one" },
+      { id: "ws-2", name: "Two", slug: "two" },
+    ]);
+    db.seed("userSegment", {
+      id: "segment_1",
+      workspaceId: "ws-1",
+      name: "Founders",
+      criteria: {},
+    });
+    db.seed("userPersona", {
+      id: "persona_1",
+      segmentId: "segment_1",
+      name: "Busy founder",
+      goals: ["Save time"],
+    });
+    templates = new EmailTemplates(db.prisma);
+    await templates.savePartial({
+      workspaceId: "ws-1",
+      name: "footer",
+      mjml: "<mj-text>Sent to {{lead.email}}</mj-text>",
+    });
+  });
+
+  it("saves valid templates and replaces them by name", async () => {
+    const input = {
+      workspaceId: "ws-1",
+      name: "Welcome",
+      subject: "Hi {{lead.firstName}}",
+      mjml: layout("<mj-text>Welcome!</mj-text>{{> footer}}"),
+      variables: [{ path: "lead.firstName", fallback: "there" }],
+    };
+    const saved = await templates.save(input);
+    await templates.save({ ...input, subject: "Hello {{lead.firstName}}" });
+
+    expect(db.tables.emailTemplate!).toHaveLength(1);
+    expect(db.tables.emailTemplate![0]).toMatchObject({
+      id: saved.id,
+      subject: "Hello {{lead.firstName}}",
+      text: null,
+      variables: [{ path: "lead.firstName", fallback: "there" }],
+    });
+    expect(await templates.list("ws-2")).toEqual([]);
+  });
+
+  it("rejects invalid templates with every issue", async () => {
+    await expect(
+      templates.save({
+        workspaceId: "ws-1",
+        name: "Broken",
+        subject: "Hi {{lead.nickname}}",
+        mjml: layout("{{> header}}"),
+      }),
+    ).rejects.toMatchObject({
+      code: "INVALID_TEMPLATE",
+      issues: [
+        "Subject line 1: {{lead.nickname}} is not a merge variable",
+        "Body: partial {{> header}} does not exist",
+      ],
+    });
+    expect(db.tables.emailTemplate!).toHaveLength(0);
+  });
+
+  it("keeps partials from breaking the templates using them", async () => {
+    await templates.savePartial({
+      workspaceId: "ws-1",
+      name: "signature",
+      mjml: "{{> footer}}",
+    });
+    await templates.save({
+      workspaceId: "ws-1",
+      name: "Welcome",
+      subject: "Hi",
+      mjml: layout("{{> signature}}"),
+    });
+
+    // Used through the signature partial
+    await expect(
+      templates.savePartial({
+        workspaceId: "ws-1",
+        name: "footer",
+        mjml: "<mj-text>{{lead.tags}}</mj-text>",
+      }),
+    ).rejects.toMatchObject({
+      code: "INVALID_TEMPLATE",
+      issues: [
+        "Welcome: Partial footer line 1: {{lead.tags}} is a list; use {{#each lead.tags}}",
+      ],
+    });
+    await expect(
+      templates.removePartial("ws-1", "footer"),
+    ).rejects.toMatchObject({ code: "INVALID_TEMPLATE" });
+    await expect(
+      templates.savePartial({ workspaceId: "ws-1", name: "1st", mjml: "" }),
+    ).rejects.toMatchObject({ code: "INVALID_TEMPLATE" });
+  });
+
+  it("previews saved templates and drafts for a sample recipient", async () => {
+    const saved = await templates.save({
+      workspaceId: "ws-1",
+      name: "Goals",
+      subject: "{{persona.name}}: {{lead.firstName}}",
+      mjml: layout(
+        "<mj-text>{{#each persona.goals}}{{this}} {{/each}}</mj-text>{{> footer}}",
+      ),
+    });
+
+    const sample = await templates.preview("ws-1", { templateId: saved.id });
+    expect(sample.subject).toBe("Growth-minded marketer: Alex");
+    expect(sample.text).toContain("Sent to alex.morgan@example.com");
+
+    const persona = await templates.preview("ws-1", {
+      templateId: saved.id,
+      personaId: "persona_1",
+      recipient: { lead: { name: "Grace Hopper" } },
+    });
+    expect(persona.subject).toBe("Busy founder: Grace");
+    expect(persona.text).toContain("Save time");
+    expect(persona.warnings).toEqual([
+      "{{lead.email}} has no value for this recipient",
+    ]);
+
+    await expect(
+      templates.preview("ws-2", { templateId: saved.id }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(
+      templates.preview("ws-1", { templateId: saved.id, personaId: "other" }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(
+      templates.preview("ws-1", {
+        template: { subject: "{{nope}}", mjml: layout("") },
+      }),
+    ).rejects.toMatchObject({ code: "INVALID_TEMPLATE" });
+  });
+
+  it("fails to render when a required variable has no value", async () => {
+    const saved = await templates.save({
+      workspaceId: "ws-1",
+      name: "Offer",
+      subject: "{{custom.offer}}",
+      mjml: layout("<mj-text>{{custom.offer}}</mj-text>"),
+      variables: [{ path: "custom.offer", required: true }],
+    });
+
+    await expect(
+      templates.render("ws-1", saved.id, { lead: { name: "Ada" } }),
+    ).rejects.toMatchObject({ code: "MISSING_VARIABLES" });
+    const email = await templates.render("ws-1", saved.id, {
+      custom: { offer: "20% off" },
+    });
+    expect(email.subject).toBe("20% off");
+  });
+});
@@ -0,0 +1,313 @@
+import {
+  db,
+  type EmailTemplate as EmailTemplateRecord,
+  type EmailTemplatePartial,
+  type PrismaClient,
+} from "@neon/data-model";
+import {
+  EmailTemplateError,
+  renderTemplate,
+  templateReferences,
+  validateTemplate,
+  type RenderedEmail,
+  type TemplateSource,
+} from "./template-engine";
+import {
+  SAMPLE_RECIPIENT,
+  type TemplateRecipient,
+  type TemplateVariable,
+} from "./merge-fields";
+
+export interface EmailTemplateInput {
+  workspaceId: string;
+  name: string;
+  description?: string | undefined;
+  subject: string;
+  mjml: string;
+  text?: string | undefined;
+  variables?: TemplateVariable[] | undefined;
+  createdById?: string | undefined;
+}
+
+export interface PreviewInput {
+  // A saved template, or an unsaved draft from the editor
+  templateId?: string | undefined;
+  template?: TemplateSource | undefined;
+  // Recipient to render for; the built-in sample otherwise
+  recipient?: TemplateRecipient | undefined;
+  // Persona of the workspace to fill persona fields from
+  personaId?: string | undefined;
+}
+
+const PARTIAL_NAME = /^[A-Za-z][\w-]*$/;
+
+/**
+ * A workspace's email templates and the partials they share. Templates
+ * are validated on save, and a partial cannot change in a way that breaks
+ * a template using it.
+ */
+export class EmailTemplates {
+  private prisma: PrismaClient;
+
+  constructor(prisma?: PrismaClient) {
+    this.prisma = prisma || db;
+  }
+
+  async list(workspaceId: string): Promise<EmailTemplateRecord[]> {
+    return this.prisma.emailTemplate.findMany({
+      where: { workspaceId },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  async get(workspaceId: string, id: string): Promise<EmailTemplateRecord> {
+    const template = await this.prisma.emailTemplate.findFirst({
+      where: { workspaceId, id },
+    });
+    if (!template) {
+      throw new EmailTemplateError("Email template not found", "NOT_FOUND");
+    }
+    return template;
+  }
+
+  /**
+   * Create the template, or replace the workspace's template of that name.
+   * Throws INVALID_TEMPLATE with every issue found.
+   */
+  async save(input: EmailTemplateInput): Promise<EmailTemplateRecord> {
+    const source = {
+      subject: input.subject,
+      mjml: input.mjml,
+      text: input.text || null,
+      variables: input.variables ?? [],
+    };
+    await this.assertValid(source, await this.partials(input.workspaceId));
+
+    const fields = {
+      ...source,
+      description: input.description ?? null,
+      variables: source.variables as object[],
+    };
+    return this.prisma.emailTemplate.upsert({
+      where: {
+        workspaceId_name: { workspaceId: input.workspaceId, name: input.name },
+      },
+      create: {
+        workspaceId: input.workspaceId,
+        name: input.name,
+        createdById: input.createdById ?? null,
+        ...fields,
+      },
+      update: fields,
+    });
+  }
+
+  async remove(workspaceId: string, id: string): Promise<boolean> {
+    const { count } = await this.prisma.emailTemplate.deleteMany({
+      where: { workspaceId, id },
+    });
+    return count > 0;
+  }
+
+  async listPartials(workspaceId: string): Promise<EmailTemplatePartial[]> {
+    return this.prisma.emailTemplatePartial.findMany({
+      where: { workspaceId },
+      orderBy: { name: "asc" },
+    });
+  }
+
+  /**
+   * Create or change a partial. Every template using it is validated
+   * against the new version first.
+   */
+  async savePartial(input: {
+    workspaceId: string;
+    name: string;
+    mjml: string;
+  }): Promise<EmailTemplatePartial> {
+    if (!PARTIAL_NAME.test(input.name)) {
+      throw new EmailTemplateError(
+        "Partial names start with a letter and use letters, digits, - and _",
+        "INVALID_TEMPLATE",
+      );
+    }
+    const partials = {
+      ...(await this.partials(input.workspaceId)),
+      [input.name]: input.mjml,
+    };
+    try {
+      templateReferences(input.mjml);
+    } catch (error) {
+      throw new EmailTemplateError("Invalid partial", "INVALID_TEMPLATE", [
+        (error as Error).message.split("\n")[0]!,
+      ]);
+    }
+
+    const issues: string[] = [];
+    for (const template of await this.usingPartial(
+      input.workspaceId,
+      input.name,
+      partials,
+    )) {
+      const found = await validateTemplate(toSource(template), partials);
+      issues.push(...found.map((issue) => `${template.name}: ${issue}`));
+    }
+    if (issues.length > 0) {
+      throw new EmailTemplateError(
+        "The change would break templates using the partial",
+        "INVALID_TEMPLATE",
+        issues,
+      );
+    }
+
+    return this.prisma.emailTemplatePartial.upsert({
+      where: {
+        workspaceId_name: { workspaceId: input.workspaceId, name: input.name },
+      },
+      create: input,
+      update: { mjml: input.mjml },
+    });
+  }
+
+  async removePartial(workspaceId: string, name: string): Promise<boolean> {
+    const users = await this.usingPartial(workspaceId, name);
+    if (users.length > 0) {
+      throw new EmailTemplateError(
+        `Partial ${name} is used by ${users.map((template) => template.name).join(", ")}`,
+        "INVALID_TEMPLATE",
+      );
+    }
+    const { count } = await this.prisma.emailTemplatePartial.deleteMany({
+      where: { workspaceId, name },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Render a saved template for one recipient. Throws MISSING_VARIABLES
+   * when a required variable has neither a value nor a fallback.
+   */
+  async render(
+    workspaceId: string,
+    id: string,
+    recipient: TemplateRecipient,
+  ): Promise<RenderedEmail> {
+    const template = await this.get(workspaceId, id);
+    return renderTemplate(toSource(template), recipient, {
+      partials: await this.partials(workspaceId),
+      strict: true,
+    });
+  }
+
+  /**
+   * Render a template the way a recipient would get it, reporting missing
+   * values as warnings instead of failing. Unsaved drafts are validated
+   * first.
+   */
+  async preview(
+    workspaceId: string,
+    input: PreviewInput,
+  ): Promise<RenderedEmail> {
+    const partials = await this.partials(workspaceId);
+    let source: TemplateSource;
+    if (input.template) {
+      source = input.template;
+      await this.assertValid(source, partials);
+    } else if (input.templateId) {
+      source = toSource(await this.get(workspaceId, input.templateId));
+    } else {
+      throw new EmailTemplateError(
+        "Preview needs a template or a template id",
+        "INVALID_TEMPLATE",
+      );
+    }
+
+    const recipient: TemplateRecipient = {
+      ...SAMPLE_RECIPIENT,
+      ...input.recipient,
+    };
+    if (input.personaId) {
+      const persona = await this.prisma.userPersona.findFirst({
+        where: { id: input.personaId, segment: { workspaceId } },
+      });
+      if (!persona) {
+        throw new EmailTemplateError("Persona not found", "NOT_FOUND");
+      }
+      recipient.persona = persona;
+    }
+
+    return renderTemplate(source, recipient, { partials });
+  }
+
+  // The workspace's partials by name
+  private async partials(workspaceId: string): Promise<Record<string, string>> {
+    const partials = await this.listPartials(workspaceId);
+    return Object.fromEntries(
+      partials.map((partial: EmailTemplatePartial) => [
+        partial.name,
+        partial.mjml,
+      ]),
+    );
+  }
+
+  // Templates using the partial, directly or through other partials
+  private async usingPartial(
+    workspaceId: string,
+    name: string,
+    partials?: Record<string, string>,
+  ): Promise<EmailTemplateRecord[]> {
+    const sources = partials ?? (await this.partials(workspaceId));
+    const names = new Set([name]);
+    for (let grew = true; grew; ) {
+      grew = false;
+      for (const [other, source] of Object.entries(sources)) {
+        if (!names.has(other) && usesAny(source, names)) {
+          names.add(other);
+          grew = true;
+        }
+      }
+    }
+
+    const templates = await this.prisma.emailTemplate.findMany({
+      where: { workspaceId },
+    });
+    return templates.filter((template: EmailTemplateRecord) =>
+      [template.subject, template.mjml, template.text ?? ""].some((source) =>
+        usesAny(source, names),
+      ),
+    );
+  }
+
+  private async assertValid(
+    source: TemplateSource,
+    partials: Record<string, string>,
+  ): Promise<void> {
+    const issues = await validateTemplate(source, partials);
+    if (issues.length > 0) {
+      throw new EmailTemplateError(
+        "Invalid email template",
+        "INVALID_TEMPLATE",
+        issues,
+      );
+    }
+  }
+}
+
+function usesAny(source: string, partials: Set<string>): boolean {
+  try {
+    return templateReferences(source).partials.some((name) =>
+      partials.has(name),
+    );
+  } catch {
+    return false;
+  }
+}
+
+function toSource(template: EmailTemplateRecord): TemplateSource {
+  return {
+    subject: template.subject,
+    mjml: template.mjml,
+    text: template.text,
+    variables: (template.variables ?? []) as unknown as TemplateVariable[],
+  };
+}
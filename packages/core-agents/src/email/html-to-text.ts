@@ -0,0 +1,106 @@
+import { load } from "cheerio";
+
+/**
+ * Plain-text version of an HTML email, for the text/plain part: one
+ * paragraph per block, links written out after their text, list items
+ * as dashes and image alt texts in place of the images.
+ */
+
+// The parts of a parsed DOM node read here
+interface HtmlNode {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: HtmlNode[];
+}
+
+const BLOCKS = new Set([
+  "address",
+  "article",
+  "blockquote",
+  "div",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "section",
+  "table",
+  "tr",
+  "ul",
+]);
+
+const SKIPPED = new Set(["head", "style", "script", "title", "noscript"]);
+
+export function htmlToText(html: string): string {
+  const $ = load(html);
+  const root = ($("body")[0] ?? $.root()[0]) as unknown as HtmlNode;
+
+  let text = "";
+  const breakLine = (count: number) => {
+    const trailing = text.length - text.replace(/\n+$/, "").length;
+    if (text && trailing < count) text += "\n".repeat(count - trailing);
+  };
+  const append = (value: string) => {
+    if (!value) return;
+    // Collapse whitespace across node boundaries
+    if (/^\s/.test(value) && /[^\s]$/.test(text)) text += " ";
+    const trimmed = value.trim();
+    if (trimmed) text += trimmed;
+    if (/\s$/.test(value) && trimmed) text += " ";
+  };
+
+  const walk = (node: HtmlNode): void => {
+    if (node.type === "text") {
+      append((node.data ?? "").replace(/\s+/g, " "));
+      return;
+    }
+    if (node.type === "comment" || SKIPPED.has(node.name ?? "")) return;
+
+    const name = node.name ?? "";
+    if (name === "br") {
+      text = text.replace(/ +$/, "");
+      text += "\n";
+      return;
+    }
+    if (name === "img") {
+      append(node.attribs?.alt ?? "");
+      return;
+    }
+    if (name === "a") {
+      const start = text.length;
+      node.children?.forEach(walk);
+      const label = text.slice(start).trim();
+      const href = node.attribs?.href?.trim();
+      if (href && !href.startsWith("#") && href !== label) {
+        append(label ? ` (${href})` : href);
+      }
+      return;
+    }
+
+    const block = BLOCKS.has(name);
+    if (block) breakLine(name === "li" || name === "tr" ? 1 : 2);
+    if (name === "li") text += "- ";
+    if (name === "hr") text += "---";
+    // Table cells side by side
+    if (name === "td" || name === "th") append(" ");
+    node.children?.forEach(walk);
+    if (block) breakLine(name === "li" || name === "tr" ? 1 : 2);
+  };
+  walk(root);
+
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
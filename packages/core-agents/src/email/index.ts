@@ -0,0 +1,17 @@
+export * from "./types";
+export * from "./email-delivery-tracker";
+export * from "./unsubscribe";
+export * from "./transport";
+export * from "./mime";
+export * from "./mailbox-transport";
+export * from "./sendgrid-transport";
+export * from "./smtp-transport";
+export * from "./transports";
+export * from "./sender-identities";
+export * from "./email-sender";
+export * from "./merge-fields";
+export * from "./html-to-text";
+export * from "./template-engine";
+export * from "./email-templates";
+export * from "./sequence-steps";
+export * from "./drip-sequences";
@@ -0,0 +1,62 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { renderMime } from "./mime";
+import type { EmailMessage, EmailTransport, SendResult } from "./transport";
+
+export const DEFAULT_EMAIL_MAILBOX_DIR = ".neon/mailbox";
+
+export interface MailboxEntry {
+  file: string;
+  raw: string;
+}
+
+/**
+ * Captures email locally instead of sending it. Every message is written
+ * as a rendered `.eml` file to `<dir>/<workspaceId>/`, which mail clients
+ * open as is, so QA can review exactly what a campaign would send.
+ */
+export class MailboxTransport implements EmailTransport {
+  readonly name = "mailbox";
+  readonly deliversMail = false;
+
+  constructor(
+    private dir: string = process.env.EMAIL_MAILBOX_DIR ||
+      DEFAULT_EMAIL_MAILBOX_DIR,
+  ) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const { messageId, raw } = renderMime(message);
+    const folder = path.resolve(this.dir, message.workspaceId ?? "default");
+    await fs.mkdir(folder, { recursive: true });
+
+    // Sortable by time; the message id keeps names unique
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const id = messageId.slice(1, messageId.indexOf("@"));
+    await fs.writeFile(path.join(folder, `${stamp}-${id}.eml`), raw);
+
+    return { messageId, transport: this.name };
+  }
+
+  /**
+   * Captured messages of a workspace, oldest first
+   */
+  async list(workspaceId = "default"): Promise<MailboxEntry[]> {
+    const folder = path.resolve(this.dir, workspaceId);
+    let files: string[];
+    try {
+      files = (await fs.readdir(folder)).filter((file) =>
+        file.endsWith(".eml"),
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    return Promise.all(
+      files.sort().map(async (file) => ({
+        file: path.join(folder, file),
+        raw: await fs.readFile(path.join(folder, file), "utf8"),
+      })),
+    );
+  }
+}
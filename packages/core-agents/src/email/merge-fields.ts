@@ -0,0 +1,217 @@
+import type { Lead, UserPersona } from "@neon/data-model";
+
+/**
+ * Merge variables templates can use: the recipient's Lead and UserPersona
+ * fields, the unsubscribe link, and custom variables a template declares
+ * under `custom.`. Every variable has a type, so templates are checked
+ * before they are saved rather than rendering blanks at send time.
+ */
+
+export type MergeFieldType = "string" | "number" | "list";
+
+export type MergeValue = string | number | string[];
+
+export const MERGE_FIELDS: Record<string, MergeFieldType> = {
+  "lead.email": "string",
+  "lead.name": "string",
+  // First and last word of the lead's name
+  "lead.firstName": "string",
+  "lead.lastName": "string",
+  "lead.company": "string",
+  "lead.position": "string",
+  "lead.phone": "string",
+  "lead.source": "string",
+  "lead.status": "string",
+  "lead.score": "number",
+  "lead.tags": "list",
+  "persona.name": "string",
+  "persona.description": "string",
+  "persona.preferredTone": "string",
+  "persona.painPoints": "list",
+  "persona.goals": "list",
+  unsubscribe_url: "string",
+};
+
+export const CUSTOM_PREFIX = "custom.";
+
+export interface TemplateVariable {
+  // Merge field, or `custom.<name>` for a value passed at send time
+  path: string;
+  type?: MergeFieldType | undefined;
+  // Rendering fails when a required variable has no value or fallback
+  required?: boolean | undefined;
+  // Used when the recipient has no value
+  fallback?: MergeValue | undefined;
+  description?: string | undefined;
+}
+
+type LeadFields = Pick<
+  Lead,
+  | "email"
+  | "name"
+  | "company"
+  | "position"
+  | "phone"
+  | "source"
+  | "status"
+  | "score"
+  | "tags"
+>;
+type PersonaFields = Pick<
+  UserPersona,
+  "name" | "description" | "preferredTone" | "painPoints" | "goals"
+>;
+
+// Every field may be left out
+type Optional<T> = { [K in keyof T]?: T[K] | undefined };
+
+export interface TemplateRecipient {
+  lead?:
+    | Optional<LeadFields & { firstName: string; lastName: string }>
+    | undefined;
+  persona?: Optional<PersonaFields> | undefined;
+  custom?: Record<string, MergeValue> | undefined;
+  unsubscribeUrl?: string | undefined;
+}
+
+// Recipient used by previews without one
+export const SAMPLE_RECIPIENT: TemplateRecipient = {
+  lead: {
+    email: "alex.morgan@example.com",
+    name: "Alex Morgan",
+    company: "Northwind Traders",
+    position: "Head of Marketing",
+    source: "website",
+    status: "QUALIFIED",
+    score: 82,
+    tags: ["newsletter", "webinar"],
+  },
+  persona: {
+    name: "Growth-minded marketer",
+    description: "Runs lean campaigns and cares about measurable results",
+    preferredTone: "friendly",
+    painPoints: ["Too many tools", "Little time for reporting"],
+    goals: ["Grow qualified pipeline", "Automate reporting"],
+  },
+  unsubscribeUrl: "https://example.com/unsubscribe?token=preview",
+};
+
+export function mergeFieldType(
+  path: string,
+  variables: TemplateVariable[] = [],
+): MergeFieldType | undefined {
+  if (path.startsWith(CUSTOM_PREFIX)) {
+    const declared = variables.find((variable) => variable.path === path);
+    return declared ? (declared.type ?? "string") : undefined;
+  }
+  return MERGE_FIELDS[path];
+}
+
+export function valueType(value: unknown): MergeFieldType | undefined {
+  if (typeof value === "string") return "string";
+  if (typeof value === "number" && Number.isFinite(value)) return "number";
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return "list";
+  }
+  return undefined;
+}
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+export interface MergeContext {
+  data: Record<string, unknown>;
+  // Required variables that had neither a value nor a fallback
+  missing: string[];
+}
+
+/**
+ * The recipient's values by merge field, with fallbacks filled in
+ */
+export function mergeContext(
+  recipient: TemplateRecipient,
+  variables: TemplateVariable[] = [],
+): MergeContext {
+  const lead = { ...recipient.lead };
+  const words = (lead.name ?? "").trim().split(/\s+/).filter(Boolean);
+  lead.firstName ??= words[0];
+  lead.lastName ??= words.length > 1 ? words[words.length - 1] : undefined;
+
+  const values: Record<string, unknown> = {
+    unsubscribe_url: recipient.unsubscribeUrl,
+  };
+  for (const [key, value] of Object.entries(lead)) {
+    values[`lead.${key}`] = value;
+  }
+  for (const [key, value] of Object.entries(recipient.persona ?? {})) {
+    values[`persona.${key}`] = value;
+  }
+  for (const [key, value] of Object.entries(recipient.custom ?? {})) {
+    values[`${CUSTOM_PREFIX}${key}`] = value;
+  }
+
+  const missing: string[] = [];
+  for (const variable of variables) {
+    if (!isEmpty(values[variable.path])) continue;
+    if (variable.fallback !== undefined) {
+      values[variable.path] = variable.fallback;
+    } else if (variable.required) {
+      missing.push(variable.path);
+    }
+  }
+
+  // Nest "lead.name" as { lead: { name } } for Handlebars
+  const data: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(values)) {
+    if (isEmpty(value)) continue;
+    const [root, ...rest] = path.split(".");
+    if (rest.length === 0) {
+      data[root!] = value;
+    } else {
+      const group = (data[root!] ??= {}) as Record<string, unknown>;
+      group[rest.join(".")] = value;
+    }
+  }
+  return { data, missing };
+}
+
+const LEAD_TRAITS: Record<
+  string,
+  keyof NonNullable<TemplateRecipient["lead"]>
+> = {
+  email: "email",
+  name: "name",
+  firstName: "firstName",
+  lastName: "lastName",
+  company: "company",
+  position: "position",
+  jobTitle: "position",
+  phone: "phone",
+  source: "source",
+  status: "status",
+  score: "score",
+  tags: "tags",
+};
+
+/**
+ * Recipient from the loose user traits agents pass around (`firstName`,
+ * `company`, ...). Traits that are not Lead fields become custom variables.
+ */
+export function recipientFromTraits(
+  traits: Record<string, unknown>,
+): TemplateRecipient {
+  const lead: Record<string, unknown> = {};
+  const custom: Record<string, MergeValue> = {};
+  for (const [key, value] of Object.entries(traits)) {
+    const field = LEAD_TRAITS[key];
+    if (field) {
+      lead[field] = value;
+    } else if (valueType(value)) {
+      custom[key] = value as MergeValue;
+    }
+  }
+  return { lead: lead as NonNullable<TemplateRecipient["lead"]>, custom };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  encodeHeader,
+  encodeQuotedPrintable,
+  formatAddress,
+  renderMime,
+} from "./mime";
+
+describe("MIME rendering", () => {
+  it("renders a plain text message with CRLF line endings", () => {
+    const { messageId, raw } = renderMime(
+      {
+        from: { email: "news@acme.com", name: "Acme" },
+        to: { email: "ada@example.com" },
+        replyTo: "support@acme.com",
+        subject: "Hello",
+        text: "Hi Ada\nSee you soon",
+        headers: { "List-Unsubscribe": "<https://acme.com/u>" },
+      },
+      { date: new Date("2024-03-01T10:00:00Z") },
+    );
+
+    expect(messageId).toMatch(/^<[\w-]+@acme\.com>$/);
+    expect(raw).toContain('From: "Acme" <news@acme.com>\r\n');
+    expect(raw).toContain("To: ada@example.com\r\n");
+    expect(raw).toContain("Reply-To: support@acme.com\r\n");
+    expect(raw).toContain("Date: Fri, 01 Mar 2024 10:00:00 GMT\r\n");
+    expect(raw).toContain(`Message-ID: ${messageId}\r\n`);
+    expect(raw).toContain("List-Unsubscribe: <https://acme.com/u>\r\n");
+    expect(raw).toContain(
+      "Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: quoted-printable\r\n\r\nHi Ada\r\nSee you soon\r\n",
+    );
+    expect(raw.replace(/\r\n/g, "")).not.toContain("\n");
+  });
+
+  it("renders text and HTML as multipart/alternative", () => {
+    const { raw } = renderMime({
+      from: { email: "news@acme.com" },
+      to: { email: "ada@example.com" },
+      subject: "Hello",
+      text: "Hi",
+      html: "<p>Hi</p>",
+    });
+
+    const boundary = raw.match(/boundary="([^"]+)"/)![1];
+    const parts = raw.split(`--${boundary}`);
+    expect(parts).toHaveLength(4);
+    expect(parts[1]).toContain("text/plain");
+    expect(parts[2]).toContain("text/html");
+    expect(parts[2]).toContain("<p>Hi</p>");
+    expect(parts[3]).toBe("--\r\n");
+  });
+
+  it("encodes non-ASCII headers and names", () => {
+    expect(encodeHeader("Plain subject")).toBe("Plain subject");
+    const encoded = encodeHeader("Grüße aus Köln");
+    expect(encoded).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+    expect(Buffer.from(encoded.slice(10, -2), "base64").toString("utf8")).toBe(
+      "Grüße aus Köln",
+    );
+
+    const long = encodeHeader("é".repeat(60));
+    expect(long.split("\r\n ").every((word) => word.length <= 75)).toBe(true);
+    expect(formatAddress({ email: "a@b.co", name: 'Say "hi"' })).toBe(
+      '"Say \\"hi\\"" <a@b.co>',
+    );
+  });
+
+  it("quoted-printable encodes and wraps long lines", () => {
+    expect(encodeQuotedPrintable("a=b é")).toBe("a=3Db =C3=A9");
+    expect(encodeQuotedPrintable("trailing ")).toBe("trailing=20");
+
+    const lines = encodeQuotedPrintable(
+      `${"x".repeat(74)}é${"y".repeat(80)}`,
+    ).split("\r\n");
+    expect(lines.every((line) => line.length <= 76)).toBe(true);
+    expect(lines[0]).toBe(`${"x".repeat(74)}=`);
+    expect(lines.slice(0, -1).every((line) => line.endsWith("="))).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+import { randomBytes, randomUUID } from "crypto";
+import { domainOf, type EmailAddress, type EmailMessage } from "./transport";
+
+/**
+ * Renders messages as RFC 5322 / MIME text with CRLF line endings: a
+ * multipart/alternative body when there is HTML, quoted-printable parts
+ * and RFC 2047 encoded headers, so non-ASCII content survives any relay.
+ */
+
+const PRINTABLE_ASCII = /^[\x20-\x7e]*$/;
+
+export function newMessageId(from: string): string {
+  return `<${randomUUID()}@${domainOf(from)}>`;
+}
+
+export function encodeHeader(value: string): string {
+  if (PRINTABLE_ASCII.test(value)) return value;
+
+  // Encoded words may be at most 75 characters; split on characters so
+  // multi-byte ones stay whole
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`)
+    .join("\r\n ");
+}
+
+export function formatAddress(address: EmailAddress): string {
+  if (!address.name) return address.email;
+  const name = PRINTABLE_ASCII.test(address.name)
+    ? `"${address.name.replace(/(["\\])/g, "\\$1")}"`
+    : encodeHeader(address.name);
+  return `${name} <${address.email}>`;
+}
+
+export function encodeQuotedPrintable(text: string): string {
+  const lines = text.replace(/\r?\n/g, "\n").split("\n");
+  return lines
+    .map((line) => {
+      let encoded = "";
+      const bytes = Buffer.from(line);
+      bytes.forEach((byte, index) => {
+        const last = index === bytes.length - 1;
+        const plain =
+          (byte >= 33 && byte <= 126 && byte !== 61) ||
+          // Trailing spaces and tabs would be stripped in transit
+          ((byte === 32 || byte === 9) && !last);
+        encoded += plain
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+      });
+
+      // Soft line breaks keep lines within 76 characters, never inside
+      // an escape sequence
+      const wrapped: string[] = [];
+      while (encoded.length > 76) {
+        let cut = 75;
+        const escape = encoded.lastIndexOf("=", cut - 1);
+        if (escape > cut - 3) cut = escape;
+        wrapped.push(`${encoded.slice(0, cut)}=`);
+        encoded = encoded.slice(cut);
+      }
+      wrapped.push(encoded);
+      return wrapped.join("\r\n");
+    })
+    .join("\r\n");
+}
+
+export interface RenderedMessage {
+  messageId: string;
+  // Full message, headers and body
+  raw: string;
+}
+
+export function renderMime(
+  message: EmailMessage,
+  options: { messageId?: string; date?: Date } = {},
+): RenderedMessage {
+  const messageId = options.messageId ?? newMessageId(message.from.email);
+  const headers: [string, string][] = [
+    ["From", formatAddress(message.from)],
+    ["To", formatAddress(message.to)],
+    ...(message.replyTo
+      ? ([["Reply-To", message.replyTo]] as [string, string][])
+      : []),
+    ["Subject", encodeHeader(message.subject)],
+    ["Date", (options.date ?? new Date()).toUTCString()],
+    ["Message-ID", messageId],
+    ["MIME-Version", "1.0"],
+    ...Object.entries(message.headers ?? {}).map(
+      ([name, value]) => [name, encodeHeader(value)] as [string, string],
+    ),
+  ];
+
+  const part = (contentType: string, body: string) =>
+    [
+      `Content-Type: ${contentType}; charset=utf-8`,
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      encodeQuotedPrintable(body),
+    ].join("\r\n");
+
+  let body: string;
+  if (message.html === undefined) {
+    body = part("text/plain", message.text);
+  } else {
+    const boundary = `neon-${randomBytes(12).toString("hex")}`;
+    headers.push([
+      "Content-Type",
+      `multipart/alternative; boundary="${boundary}"`,
+    ]);
+    body = [
+      "",
+      `--${boundary}`,
+      part("text/plain", message.text),
+      `--${boundary}`,
+      part("text/html", message.html),
+      `--${boundary}--`,
+      "",
+    ].join("\r\n");
+  }
+
+  const head = headers.map(([name, value]) => `${name}: ${value}`).join("\r\n");
+  // A single-part body carries its content headers in the message header
+  const raw =
+    message.html === undefined
+      ? `${head}\r\n${body}\r\n`
+      : `${head}\r\n${body}`;
+  return { messageId, raw };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { SenderIdentities, findDkimSelector } from "./sender-identities";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+// DNS with a DKIM key for acme.com under s1
+const resolveTxt = async (hostname: string): Promise<string[][]> => {
+  const records: Record<string, string[][]> = {
+    "s1._domainkey.acme.com": [["v=DKIM1; k=rsa; ", "p=MIGfMA0GCSqGSIb3"]],
+    "revoked._domainkey.acme.com": [["v=DKIM1; p="]],
+  };
+  const found = records[hostname];
+  if (!found)
+    throw Object.assign(new Error("ENOTFOUND"), { code: "ENOTFOUND" });
+  return found;
+};
+
+describe("SenderIdentities", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let identities: SenderIdentities;
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", [
+      { id: "ws-1", name: "One", slug: "one" },
+      { id: "ws-2", name: "Two", slug: "two" },
+    ]);
+    identities = new SenderIdentities(db.prisma, resolveTxt);
+  });
+
+  it("finds DKIM keys and ignores revoked ones", async () => {
+    expect(await findDkimSelector("acme.com", ["s2", "s1"], resolveTxt)).toBe(
+      "s1",
+    );
+    expect(
+      await findDkimSelector("acme.com", ["revoked"], resolveTxt),
+    ).toBeNull();
+  });
+
+  it("verifies identities whose domain publishes a DKIM key", async () => {
+    const identity = await identities.add({
+      workspaceId: "ws-1",
+      email: "News@Mail.Acme.com",
+      name: "Acme",
+      domain: "acme.com",
+    });
+
+    expect(identity.email).toBe("news@mail.acme.com");
+    expect(identity.dkimSelector).toBe("s1");
+    expect(identity.verifiedAt).toBeInstanceOf(Date);
+    expect(identity.lastCheckError).toBeNull();
+  });
+
+  it("records why an identity could not be verified", async () => {
+    const identity = await identities.add({
+      workspaceId: "ws-1",
+      email: "hello@other.io",
+    });
+
+    expect(identity.verifiedAt).toBeNull();
+    expect(identity.lastCheckError).toContain("other.io");
+    expect(identity.lastCheckedAt).toBeInstanceOf(Date);
+  });
+
+  it("rejects From addresses outside the signing domain", async () => {
+    await expect(
+      identities.add({
+        workspaceId: "ws-1",
+        email: "news@notacme.com",
+        domain: "acme.com",
+      }),
+    ).rejects.toMatchObject({ code: "DOMAIN_MISMATCH" });
+    await expect(
+      identities.add({ workspaceId: "ws-1", email: "not an address" }),
+    ).rejects.toMatchObject({ code: "INVALID_ADDRESS" });
+  });
+
+  it("resolves the requested, default or first verified identity", async () => {
+    await identities.add({ workspaceId: "ws-1", email: "news@acme.com" });
+    await identities.add({
+      workspaceId: "ws-1",
+      email: "team@acme.com",
+      isDefault: true,
+    });
+    await identities.add({ workspaceId: "ws-2", email: "hi@acme.com" });
+
+    expect((await identities.resolve("ws-1"))?.email).toBe("team@acme.com");
+    expect((await identities.resolve("ws-1", "NEWS@acme.com"))?.email).toBe(
+      "news@acme.com",
+    );
+    expect(await identities.resolve("ws-1", "hi@acme.com")).toBeNull();
+    expect((await identities.resolve("ws-2"))?.email).toBe("hi@acme.com");
+    expect(await identities.resolve("ws-3")).toBeNull();
+
+    // Only one default per workspace
+    await identities.add({
+      workspaceId: "ws-1",
+      email: "news@acme.com",
+      isDefault: true,
+    });
+    expect(
+      db.tables
+        .emailSenderIdentity!.filter((row) => row.isDefault)
+        .map((row) => row.email),
+    ).toEqual(["news@acme.com"]);
+  });
+
+  it("removes identities only within their workspace", async () => {
+    const identity = await identities.add({
+      workspaceId: "ws-1",
+      email: "news@acme.com",
+    });
+
+    expect(await identities.remove("ws-2", identity.id)).toBe(false);
+    await expect(identities.verify("ws-2", identity.id)).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+    expect(await identities.remove("ws-1", identity.id)).toBe(true);
+    expect(await identities.list("ws-1")).toEqual([]);
+  });
+});
@@ -0,0 +1,226 @@
+import { promises as dns } from "dns";
+import {
+  db,
+  type EmailSenderIdentity,
+  type PrismaClient,
+} from "@neon/data-model";
+import { domainOf } from "./transport";
+import { normalizeEmail } from "./types";
+
+/**
+ * From addresses a workspace may send as. An identity counts as verified
+ * once its domain publishes a DKIM key, so providers can sign its mail and
+ * receivers see an aligned, authenticated From. SendGrid's authenticated
+ * domains publish theirs under the s1 and s2 selectors.
+ */
+
+export const DEFAULT_DKIM_SELECTORS = [
+  "s1",
+  "s2",
+  "default",
+  "google",
+  "selector1",
+  "selector2",
+  "k1",
+  "dkim",
+];
+
+export type TxtResolver = (hostname: string) => Promise<string[][]>;
+
+export type SenderIdentityErrorCode =
+  | "INVALID_ADDRESS"
+  | "DOMAIN_MISMATCH"
+  | "NOT_FOUND";
+
+export class SenderIdentityError extends Error {
+  constructor(
+    message: string,
+    readonly code: SenderIdentityErrorCode,
+  ) {
+    super(message);
+    this.name = "SenderIdentityError";
+  }
+}
+
+export interface SenderIdentityInput {
+  workspaceId: string;
+  email: string;
+  name?: string | undefined;
+  replyTo?: string | undefined;
+  // Signing domain; defaults to the From domain
+  domain?: string | undefined;
+  // Checked instead of the default selectors
+  dkimSelector?: string | undefined;
+  isDefault?: boolean | undefined;
+}
+
+const EMAIL_PATTERN = /^[^\s@<>"]+@[a-z0-9-]+(\.[a-z0-9-]+)+$/i;
+
+/**
+ * Selector under which the domain publishes a DKIM key, or null. Records
+ * with an empty `p=` tag are revoked keys and do not count.
+ */
+export async function findDkimSelector(
+  domain: string,
+  selectors: string[],
+  resolveTxt: TxtResolver = dns.resolveTxt,
+): Promise<string | null> {
+  for (const selector of selectors) {
+    let records: string[][];
+    try {
+      records = await resolveTxt(`${selector}._domainkey.${domain}`);
+    } catch {
+      continue;
+    }
+    for (const chunks of records) {
+      const tags = new Map(
+        chunks
+          .join("")
+          .split(";")
+          .map((tag) => tag.trim().split("="))
+          .filter((pair) => pair.length >= 2)
+          .map(([name, ...value]) => [name!.trim(), value.join("=").trim()]),
+      );
+      if (tags.get("p")) return selector;
+    }
+  }
+  return null;
+}
+
+export class SenderIdentities {
+  private prisma: PrismaClient;
+
+  constructor(
+    prisma?: PrismaClient,
+    private resolveTxt: TxtResolver = dns.resolveTxt,
+  ) {
+    this.prisma = prisma || db;
+  }
+
+  /**
+   * Add or update an identity and check its DKIM key. The From domain
+   * must be the signing domain or one of its subdomains (relaxed DMARC
+   * alignment).
+   */
+  async add(input: SenderIdentityInput): Promise<EmailSenderIdentity> {
+    const email = normalizeEmail(input.email);
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new SenderIdentityError(
+        `${input.email} is not an email address`,
+        "INVALID_ADDRESS",
+      );
+    }
+    const fromDomain = domainOf(email);
+    const domain = (input.domain ?? fromDomain).toLowerCase();
+    if (fromDomain !== domain && !fromDomain.endsWith(`.${domain}`)) {
+      throw new SenderIdentityError(
+        `${email} is not on ${domain}, so mail signed for ${domain} would not align`,
+        "DOMAIN_MISMATCH",
+      );
+    }
+
+    if (input.isDefault) {
+      await this.prisma.emailSenderIdentity.updateMany({
+        where: { workspaceId: input.workspaceId, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+    const fields = {
+      name: input.name ?? null,
+      replyTo: input.replyTo ?? null,
+      domain,
+      dkimSelector: input.dkimSelector ?? null,
+      ...(input.isDefault !== undefined && { isDefault: input.isDefault }),
+    };
+    const identity = await this.prisma.emailSenderIdentity.upsert({
+      where: {
+        workspaceId_email: { workspaceId: input.workspaceId, email },
+      },
+      create: { workspaceId: input.workspaceId, email, ...fields },
+      update: { ...fields, verifiedAt: null },
+    });
+
+    return this.verify(input.workspaceId, identity.id);
+  }
+
+  /**
+   * Look up the identity's DKIM key and record the outcome
+   */
+  async verify(workspaceId: string, id: string): Promise<EmailSenderIdentity> {
+    const identity = await this.get(workspaceId, id);
+    const selector = await findDkimSelector(
+      identity.domain,
+      identity.dkimSelector ? [identity.dkimSelector] : DEFAULT_DKIM_SELECTORS,
+      this.resolveTxt,
+    );
+    const now = new Date();
+
+    return this.prisma.emailSenderIdentity.update({
+      where: { id },
+      data: selector
+        ? {
+            dkimSelector: selector,
+            verifiedAt: identity.verifiedAt ?? now,
+            lastCheckedAt: now,
+            lastCheckError: null,
+          }
+        : {
+            verifiedAt: null,
+            lastCheckedAt: now,
+            lastCheckError: `No DKIM key found for ${identity.domain}${identity.dkimSelector ? ` under selector ${identity.dkimSelector}` : ""}`,
+          },
+    });
+  }
+
+  async list(workspaceId: string): Promise<EmailSenderIdentity[]> {
+    return this.prisma.emailSenderIdentity.findMany({
+      where: { workspaceId },
+      orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+    });
+  }
+
+  async remove(workspaceId: string, id: string): Promise<boolean> {
+    const { count } = await this.prisma.emailSenderIdentity.deleteMany({
+      where: { workspaceId, id },
+    });
+    return count > 0;
+  }
+
+  /**
+   * The identity to send as: the one for `from` when given, else the
+   * workspace default, else its oldest verified identity. Null when the
+   * workspace has no matching identity.
+   */
+  async resolve(
+    workspaceId: string,
+    from?: string,
+  ): Promise<EmailSenderIdentity | null> {
+    if (from) {
+      return this.prisma.emailSenderIdentity.findUnique({
+        where: {
+          workspaceId_email: { workspaceId, email: normalizeEmail(from) },
+        },
+      });
+    }
+    return this.prisma.emailSenderIdentity.findFirst({
+      where: {
+        workspaceId,
+        OR: [{ isDefault: true }, { verifiedAt: { not: null } }],
+      },
+      orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+    });
+  }
+
+  private async get(
+    workspaceId: string,
+    id: string,
+  ): Promise<EmailSenderIdentity> {
+    const identity = await this.prisma.emailSenderIdentity.findFirst({
+      where: { workspaceId, id },
+    });
+    if (!identity) {
+      throw new SenderIdentityError("Sender identity not found", "NOT_FOUND");
+    }
+    return identity;
+  }
+}
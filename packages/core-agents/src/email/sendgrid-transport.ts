@@ -0,0 +1,87 @@
+import { parseRetryAfter } from "../connectors/rate-limiter";
+import {
+  EmailTransportError,
+  type EmailMessage,
+  type EmailTransport,
+  type SendResult,
+} from "./transport";
+
+const SENDGRID_MAIL_API = "https://api.sendgrid.com/v3/mail/send";
+
+/**
+ * Sends through SendGrid's v3 mail API. Custom args travel with the
+ * message and come back on its delivery events.
+ */
+export class SendGridTransport implements EmailTransport {
+  readonly name = "sendgrid";
+  readonly deliversMail = true;
+
+  constructor(
+    private apiKey: string,
+    private fetchImpl: typeof fetch = fetch,
+  ) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(SENDGRID_MAIL_API, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          personalizations: [
+            {
+              to: [message.to],
+              ...(message.customArgs && { custom_args: message.customArgs }),
+            },
+          ],
+          from: message.from,
+          ...(message.replyTo && { reply_to: { email: message.replyTo } }),
+          subject: message.subject,
+          content: [
+            { type: "text/plain", value: message.text },
+            ...(message.html !== undefined
+              ? [{ type: "text/html", value: message.html }]
+              : []),
+          ],
+          ...(message.headers && { headers: message.headers }),
+        }),
+      });
+    } catch (error) {
+      throw new EmailTransportError(
+        `SendGrid is unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        "UNAVAILABLE",
+        true,
+      );
+    }
+
+    if (response.ok) {
+      return {
+        messageId:
+          response.headers.get("x-message-id") ?? `sendgrid_${Date.now()}`,
+        transport: this.name,
+      };
+    }
+
+    const detail = await response.text().catch(() => "");
+    const reason = `SendGrid answered ${response.status}: ${detail.slice(0, 500)}`;
+    if (response.status === 429) {
+      throw new EmailTransportError(
+        reason,
+        "RATE_LIMITED",
+        true,
+        parseRetryAfter(response.headers),
+      );
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new EmailTransportError(reason, "NOT_CONFIGURED");
+    }
+    throw new EmailTransportError(
+      reason,
+      response.status >= 500 ? "UNAVAILABLE" : "REJECTED",
+      response.status >= 500,
+    );
+  }
+}
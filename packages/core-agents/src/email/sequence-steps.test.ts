@@ -0,0 +1,68 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  describeCondition,
+  stepsFromEmails,
+  validateSequence,
+  type SequenceStep,
+} from "./sequence-steps";
+
+describe("Sequence steps", () => {
+  it("accepts emails, waits and conditions", () => {
+    const steps: SequenceStep[] = [
+      { type: "email", templateId: "template_1" },
+      {
+        type: "wait_until",
+        condition: { type: "clicked", url: "/pricing" },
+        timeoutHours: 72,
+      },
+      {
+        type: "condition",
+        condition: { type: "lead_status", status: ["QUALIFIED"] },
+        otherwise: 3,
+      },
+      { type: "email", subject: "Hi", html: "<p>Hi</p>" },
+    ];
+    expect(validateSequence(steps, [{ type: "lead_status_changed" }])).toEqual(
+      [],
+    );
+  });
+
+  it("reports incomplete steps and conditions", () => {
+    expect(
+      validateSequence(
+        [
+          { type: "email", subject: "No body" },
+          {
+            type: "wait_until",
+            condition: { type: "lead_status", status: [] },
+            timeoutHours: -1,
+          },
+          { type: "condition", condition: { type: "bounced" } as any },
+        ],
+        [{ type: "lead_status_changed", to: ["WON" as any] }],
+      ),
+    ).toEqual([
+      "Step 1: an email needs a template, or a subject and body",
+      "Step 2: waits time out after a positive number of hours",
+      "Step 2: lead_status needs at least one status",
+      "Step 3: unknown condition bounced",
+      "Exit criterion 1: unknown lead status WON",
+    ]);
+  });
+
+  it("turns generated emails into steps with their delays", () => {
+    expect(
+      stepsFromEmails([
+        { subject: "Welcome", content: "Hi", delayDays: 0 },
+        { subject: "Tips", content: "Try this", delayDays: 3 },
+      ]),
+    ).toEqual([
+      { type: "email", subject: "Welcome", text: "Hi", html: undefined },
+      { type: "wait", hours: 72 },
+      { type: "email", subject: "Tips", text: "Try this", html: undefined },
+    ]);
+    expect(describeCondition({ type: "clicked", url: "/pricing" })).toBe(
+      "clicked /pricing",
+    );
+  });
+});
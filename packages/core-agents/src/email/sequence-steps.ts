@@ -0,0 +1,180 @@
+import type { LeadStatus } from "@neon/data-model";
+
+/**
+ * Steps of a drip sequence. Each enrolled recipient goes through the
+ * steps in order: emails are sent, waits hold the recipient for a fixed
+ * time or until a condition is met, and condition steps end the
+ * enrollment or jump ahead when the recipient did not do something.
+ */
+
+export type SequenceCondition =
+  // Opened or clicked an email since the sequence last sent one
+  | { type: "opened" }
+  | { type: "clicked"; url?: string | undefined }
+  | { type: "replied" }
+  // The lead's status is one of these
+  | { type: "lead_status"; status: LeadStatus[] }
+  // The lead's status changed since enrolling, to one of `to` if given
+  | { type: "lead_status_changed"; to?: LeadStatus[] | undefined };
+
+export type SequenceStep =
+  // A saved email template, or an inline email with merge tags
+  | {
+      type: "email";
+      templateId?: string | undefined;
+      subject?: string | undefined;
+      text?: string | undefined;
+      html?: string | undefined;
+    }
+  | { type: "wait"; hours: number }
+  | {
+      type: "wait_until";
+      condition: SequenceCondition;
+      timeoutHours: number;
+      // What happens when the condition is not met in time
+      onTimeout?: "continue" | "exit" | undefined;
+    }
+  | {
+      type: "condition";
+      condition: SequenceCondition;
+      // When the condition is not met: exit, or go on at a later step
+      otherwise?: "exit" | number | undefined;
+    };
+
+const LEAD_STATUSES: LeadStatus[] = [
+  "NEW",
+  "CONTACTED",
+  "QUALIFIED",
+  "CONVERTED",
+  "LOST",
+];
+
+function conditionIssues(condition: SequenceCondition, at: string): string[] {
+  switch (condition.type) {
+    case "opened":
+    case "clicked":
+    case "replied":
+      return [];
+    case "lead_status":
+    case "lead_status_changed": {
+      const statuses =
+        condition.type === "lead_status" ? condition.status : condition.to;
+      if (condition.type === "lead_status" && !statuses?.length) {
+        return [`${at}: lead_status needs at least one status`];
+      }
+      const unknown = (statuses ?? []).filter(
+        (status) => !LEAD_STATUSES.includes(status),
+      );
+      return unknown.length > 0
+        ? [`${at}: unknown lead status ${unknown.join(", ")}`]
+        : [];
+    }
+    default:
+      return [
+        `${at}: unknown condition ${(condition as { type: string }).type}`,
+      ];
+  }
+}
+
+/**
+ * Problems that would keep the sequence from running; an empty list means
+ * it can be saved
+ */
+export function validateSequence(
+  steps: SequenceStep[],
+  exitWhen: SequenceCondition[] = [],
+): string[] {
+  const issues: string[] = [];
+  if (!steps.some((step) => step.type === "email")) {
+    issues.push("A sequence needs at least one email step");
+  }
+
+  steps.forEach((step, index) => {
+    const at = `Step ${index + 1}`;
+    switch (step.type) {
+      case "email":
+        if (!step.templateId && !(step.subject && (step.text || step.html))) {
+          issues.push(
+            `${at}: an email needs a template, or a subject and body`,
+          );
+        }
+        break;
+      case "wait":
+        if (!(step.hours > 0)) {
+          issues.push(`${at}: waits last a positive number of hours`);
+        }
+        break;
+      case "wait_until":
+        if (!(step.timeoutHours > 0)) {
+          issues.push(`${at}: waits time out after a positive number of hours`);
+        }
+        issues.push(...conditionIssues(step.condition, at));
+        break;
+      case "condition":
+        issues.push(...conditionIssues(step.condition, at));
+        if (
+          typeof step.otherwise === "number" &&
+          !(
+            Number.isInteger(step.otherwise) &&
+            step.otherwise > index &&
+            step.otherwise < steps.length
+          )
+        ) {
+          // Only forward jumps, so a recipient never loops
+          issues.push(`${at}: can only go on at a later step`);
+        }
+        break;
+      default:
+        issues.push(`${at}: unknown step ${(step as { type: string }).type}`);
+    }
+  });
+
+  exitWhen.forEach((condition, index) =>
+    issues.push(...conditionIssues(condition, `Exit criterion ${index + 1}`)),
+  );
+  return issues;
+}
+
+/**
+ * Steps for the emails `generateEmailSequence` writes: each email waits
+ * its delay after the previous one
+ */
+export function stepsFromEmails(
+  emails: Array<{
+    subject: string;
+    content: string;
+    htmlContent?: string | undefined;
+    delayDays: number;
+  }>,
+): SequenceStep[] {
+  const steps: SequenceStep[] = [];
+  for (const email of emails) {
+    if (email.delayDays > 0) {
+      steps.push({ type: "wait", hours: email.delayDays * 24 });
+    }
+    steps.push({
+      type: "email",
+      subject: email.subject,
+      text: email.content,
+      html: email.htmlContent,
+    });
+  }
+  return steps;
+}
+
+export function describeCondition(condition: SequenceCondition): string {
+  switch (condition.type) {
+    case "opened":
+      return "opened an email";
+    case "clicked":
+      return condition.url ? `clicked ${condition.url}` : "clicked a link";
+    case "replied":
+      return "replied";
+    case "lead_status":
+      return `lead is ${condition.status.join(" or ")}`;
+    case "lead_status_changed":
+      return condition.to?.length
+        ? `lead status changed to ${condition.to.join(" or ")}`
+        : "lead status changed";
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, afterEach } from "@jest/globals";
+import * as net from "net";
+import { SmtpTransport } from "./smtp-transport";
+import { EmailTransportError, type EmailMessage } from "./transport";
+
+interface FakeServer {
+  port: number;
+  commands: string[];
+  data: string[];
+  close: () => Promise<void>;
+}
+
+// A tiny SMTP server; `replies` overrides the answer to a command
+async function startServer(
+  options: { features?: string[]; replies?: Record<string, string> } = {},
+): Promise<FakeServer> {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const server = net.createServer((socket) => {
+    socket.setEncoding("utf8");
+    socket.write("220 fake ESMTP\r\n");
+    let buffer = "";
+    let inData = false;
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) return;
+          data.push(buffer.slice(0, end + 2));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 2.0.0 queued\r\n");
+          continue;
+        }
+        const end = buffer.indexOf("\r\n");
+        if (end < 0) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(line);
+
+        const verb = line.split(" ")[0]!.toUpperCase();
+        const override = options.replies?.[verb];
+        if (override) {
+          socket.write(`${override}\r\n`);
+        } else if (verb === "EHLO") {
+          const features = options.features ?? ["AUTH PLAIN LOGIN"];
+          const lines = ["fake", ...features];
+          socket.write(
+            lines
+              .map((text, i) => `250${i < lines.length - 1 ? "-" : " "}${text}`)
+              .join("\r\n") + "\r\n",
+          );
+        } else if (verb === "AUTH") {
+          socket.write("235 ok\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 bye\r\n");
+        } else {
+          socket.write("250 ok\r\n");
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return {
+    port,
+    commands,
+    data,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+const message: EmailMessage = {
+  from: { email: "news@acme.com", name: "Acme" },
+  to: { email: "ada@example.com" },
+  subject: "Hello",
+  text: "Hi Ada\n.hidden line",
+};
+
+describe("SmtpTransport", () => {
+  let server: FakeServer | undefined;
+
+  afterEach(async () => {
+    await server?.close();
+    server = undefined;
+  });
+
+  it("authenticates and delivers a dot-stuffed message", async () => {
+    server = await startServer();
+    const transport = new SmtpTransport({
+      host: "127.0.0.1",
+      port: server.port,
+      requireTls: false,
+      username: "user",
+      password: "secret",
+      clientName: "test.local",
+    });
+
+    const result = await transport.send(message);
+
+    expect(result.transport).toBe("smtp");
+    expect(result.messageId).toMatch(/@acme\.com>$/);
+    expect(server.commands.slice(0, 5)).toEqual([
+      "EHLO test.local",
+      `AUTH PLAIN ${Buffer.from("\0user\0secret").toString("base64")}`,
+      "MAIL FROM:<news@acme.com>",
+      "RCPT TO:<ada@example.com>",
+      "DATA",
+    ]);
+    expect(server.data[0]).toContain(`Message-ID: ${result.messageId}`);
+    expect(server.data[0]).toContain("\r\n..hidden line\r\n");
+  });
+
+  it("refuses servers without STARTTLS unless allowed", async () => {
+    server = await startServer();
+    const transport = new SmtpTransport({
+      host: "127.0.0.1",
+      port: server.port,
+    });
+
+    await expect(transport.send(message)).rejects.toMatchObject({
+      code: "NOT_CONFIGURED",
+    });
+    expect(server.commands).not.toContain("MAIL FROM:<news@acme.com>");
+  });
+
+  it("reports temporary and permanent rejections", async () => {
+    server = await startServer({ replies: { RCPT: "450 mailbox busy" } });
+    const options = { host: "127.0.0.1", port: server.port, requireTls: false };
+
+    const busy = await new SmtpTransport(options)
+      .send(message)
+      .catch((error) => error);
+    expect(busy).toBeInstanceOf(EmailTransportError);
+    expect(busy).toMatchObject({ code: "REJECTED", retryable: true });
+
+    await server.close();
+    server = await startServer({ replies: { AUTH: "535 bad credentials" } });
+    const denied = await new SmtpTransport({
+      ...options,
+      port: server.port,
+      username: "user",
+      password: "wrong",
+    })
+      .send(message)
+      .catch((error) => error);
+    expect(denied).toMatchObject({ code: "NOT_CONFIGURED", retryable: false });
+  });
+
+  it("fails as unavailable when the server cannot be reached", async () => {
+    server = await startServer();
+    const port = server.port;
+    await server.close();
+    server = undefined;
+
+    await expect(
+      new SmtpTransport({ host: "127.0.0.1", port, requireTls: false }).send(
+        message,
+      ),
+    ).rejects.toMatchObject({ code: "UNAVAILABLE", retryable: true });
+  });
+});
@@ -0,0 +1,268 @@
+import * as net from "net";
+import * as os from "os";
+import * as tls from "tls";
+import { renderMime } from "./mime";
+import {
+  EmailTransportError,
+  type EmailMessage,
+  type EmailTransport,
+  type SendResult,
+} from "./transport";
+
+export interface SmtpOptions {
+  host: string;
+  // 587 with STARTTLS by default, 465 when `secure`
+  port?: number;
+  // TLS from the first byte (SMTPS) instead of STARTTLS
+  secure?: boolean;
+  // Refuse servers that do not offer STARTTLS; off for local relays
+  requireTls?: boolean;
+  username?: string | undefined;
+  password?: string | undefined;
+  // Name sent in EHLO
+  clientName?: string;
+  timeoutMs?: number;
+  // Extra TLS options, e.g. a private CA
+  tls?: tls.ConnectionOptions;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+  lines: string[];
+}
+
+/**
+ * Sends through any SMTP server: one connection per message, STARTTLS
+ * when offered and AUTH PLAIN or LOGIN when credentials are set.
+ */
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  readonly deliversMail = true;
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const { messageId, raw } = renderMime(message);
+    const session = await SmtpSession.open(this.options);
+    try {
+      await session.deliver(message.from.email, message.to.email, raw);
+    } finally {
+      session.close();
+    }
+    return { messageId, transport: this.name };
+  }
+}
+
+class SmtpSession {
+  private buffer = "";
+  private replyLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: ((reply: SmtpReply) => void) | undefined;
+  private failure: Error | undefined;
+  private failed: ((error: Error) => void) | undefined;
+
+  private constructor(
+    private socket: net.Socket,
+    private options: SmtpOptions,
+  ) {
+    this.listen(socket);
+  }
+
+  static async open(options: SmtpOptions): Promise<SmtpSession> {
+    const port = options.port ?? (options.secure ? 465 : 587);
+    const socket = options.secure
+      ? tls.connect({
+          host: options.host,
+          port,
+          servername: options.host,
+          ...options.tls,
+        })
+      : net.connect({ host: options.host, port });
+    socket.setTimeout(options.timeoutMs ?? 30_000);
+
+    const session = new SmtpSession(socket, options);
+    try {
+      await session.expect(220);
+      let features = await session.hello();
+
+      if (!options.secure) {
+        if (features.includes("STARTTLS")) {
+          await session.command("STARTTLS", 220);
+          await session.upgrade();
+          features = await session.hello();
+        } else if (options.requireTls ?? true) {
+          throw new EmailTransportError(
+            `${options.host} does not offer STARTTLS`,
+            "NOT_CONFIGURED",
+          );
+        }
+      }
+
+      if (options.username && options.password) {
+        await session.authenticate(
+          features,
+          options.username,
+          options.password,
+        );
+      }
+    } catch (error) {
+      session.close();
+      throw error;
+    }
+    return session;
+  }
+
+  async deliver(from: string, to: string, raw: string): Promise<void> {
+    await this.command(`MAIL FROM:<${from}>`, 250);
+    await this.command(`RCPT TO:<${to}>`, 250, 251);
+    await this.command("DATA", 354);
+    // Dot-stuff lines starting with a period; the lone dot ends the data
+    const data = raw.replace(/\r\n\./g, "\r\n..").replace(/^\./, "..");
+    this.socket.write(`${data.endsWith("\r\n") ? data : `${data}\r\n`}.\r\n`);
+    await this.expect(250);
+  }
+
+  close(): void {
+    if (!this.socket.destroyed) this.socket.end("QUIT\r\n");
+  }
+
+  private async hello(): Promise<string[]> {
+    const clientName = this.options.clientName ?? os.hostname();
+    const reply = await this.command(`EHLO ${clientName}`, 250);
+    return reply.lines.slice(1).map((line) => line.toUpperCase());
+  }
+
+  private async authenticate(
+    features: string[],
+    username: string,
+    password: string,
+  ): Promise<void> {
+    const methods = features
+      .filter((line) => line.startsWith("AUTH"))
+      .flatMap((line) => line.split(/[\s=]+/).slice(1));
+    if (methods.includes("PLAIN") || !methods.includes("LOGIN")) {
+      const credentials = Buffer.from(`\0${username}\0${password}`).toString(
+        "base64",
+      );
+      await this.command(`AUTH PLAIN ${credentials}`, 235);
+      return;
+    }
+    await this.command("AUTH LOGIN", 334);
+    await this.command(Buffer.from(username).toString("base64"), 334);
+    await this.command(Buffer.from(password).toString("base64"), 235);
+  }
+
+  private async upgrade(): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    const secure = tls.connect({
+      socket: plain,
+      servername: this.options.host,
+      ...this.options.tls,
+    });
+    await new Promise<void>((resolve, reject) => {
+      secure.once("secureConnect", resolve);
+      secure.once("error", reject);
+    });
+    secure.setTimeout(this.options.timeoutMs ?? 30_000);
+    this.socket = secure;
+    this.listen(secure);
+  }
+
+  private async command(
+    line: string,
+    ...expected: number[]
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...expected);
+  }
+
+  private async expect(...expected: number[]): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    if (expected.includes(reply.code)) return reply;
+
+    // 4xx replies are temporary; the message can be sent again later
+    const temporary = reply.code >= 400 && reply.code < 500;
+    throw new EmailTransportError(
+      `SMTP server answered ${reply.code}: ${reply.text}`,
+      reply.code === 535 || reply.code === 530 ? "NOT_CONFIGURED" : "REJECTED",
+      temporary,
+    );
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = resolve;
+      this.failed = reject;
+    });
+  }
+
+  private listen(socket: net.Socket): void {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      let end: number;
+      while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+        const line = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        this.replyLines.push(line.slice(4));
+        // "250-" continues a reply, "250 " ends it
+        if (line[3] !== "-") {
+          this.receive({
+            code: Number(line.slice(0, 3)),
+            text: this.replyLines.join(" "),
+            lines: this.replyLines,
+          });
+          this.replyLines = [];
+        }
+      }
+    });
+    socket.on("timeout", () =>
+      this.fail(
+        new EmailTransportError("SMTP server timed out", "UNAVAILABLE", true),
+      ),
+    );
+    socket.on("error", (error) =>
+      this.fail(
+        new EmailTransportError(
+          `SMTP connection failed: ${error.message}`,
+          "UNAVAILABLE",
+          true,
+        ),
+      ),
+    );
+    socket.on("close", () =>
+      this.fail(
+        new EmailTransportError(
+          "SMTP server closed the connection",
+          "UNAVAILABLE",
+          true,
+        ),
+      ),
+    );
+  }
+
+  private receive(reply: SmtpReply): void {
+    const waiting = this.waiting;
+    if (waiting) {
+      this.waiting = undefined;
+      this.failed = undefined;
+      waiting(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const failed = this.failed;
+    this.waiting = undefined;
+    this.failed = undefined;
+    failed?.(error);
+    this.socket.destroy();
+  }
+}
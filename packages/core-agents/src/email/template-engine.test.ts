@@ -0,0 +1,183 @@
+import { describe, it, expect } from "@jest/globals";
+import { htmlToText } from "./html-to-text";
+import {
+  renderTemplate,
+  templateReferences,
+  validateTemplate,
+  type TemplateSource,
+} from "./template-engine";
+
+const layout = (content: string) =>
+  `<mjml><mj-body><mj-section><mj-column>${content}</mj-column></mj-section></mj-body></mjml>`;
+
+const welcome: TemplateSource = {
+  subject: "Welcome, {{lead.firstName}}!",
+  mjml: layout(
+    `<mj-text>Hi {{lead.firstName}} from {{lead.company}},</mj-text>
+     {{#if persona.goals}}<mj-text><ul>{{#each persona.goals}}<li>{{this}}</li>{{/each}}</ul></mj-text>{{/if}}
+     {{> footer}}`,
+  ),
+  variables: [{ path: "lead.company", fallback: "your team" }],
+};
+const partials = {
+  footer: `<mj-text><a href="{{unsubscribe_url}}">Unsubscribe</a></mj-text>`,
+};
+
+describe("Email template engine", () => {
+  it("collects merge tags and partials with their usage", () => {
+    const references = templateReferences(
+      `{{lead.name}} {{#each lead.tags}}{{this}} {{@root.lead.email}}{{/each}}
+       {{#with persona}}{{name}}{{/with}}{{#if lead.score}}{{/if}}{{> footer}}`,
+    );
+
+    expect(references.tags.map(({ path, usage }) => [path, usage])).toEqual([
+      ["lead.name", "value"],
+      ["lead.tags", "list"],
+      ["lead.email", "value"],
+      ["persona.name", "value"],
+      ["lead.score", "condition"],
+    ]);
+    expect(references.partials).toEqual(["footer"]);
+  });
+
+  it("renders MJML for a recipient with fallbacks and partials", async () => {
+    const email = await renderTemplate(
+      welcome,
+      {
+        lead: { name: "Ada Lovelace" },
+        persona: { goals: ["Ship faster", "<b>Grow</b>"] },
+        unsubscribeUrl: "https://neon.dev/u?t=1",
+      },
+      { partials },
+    );
+
+    expect(email.subject).toBe("Welcome, Ada!");
+    expect(email.html).toContain("<!doctype html>");
+    expect(email.html).toContain("Hi Ada from your team,");
+    // Merge values are escaped in the HTML
+    expect(email.html).toContain("&lt;b&gt;Grow&lt;/b&gt;");
+    expect(email.html).toContain('href="https://neon.dev/u?t&#x3D;1"');
+    expect(email.text).toContain("Hi Ada from your team,");
+    expect(email.text).toContain("- Ship faster");
+    expect(email.text).toContain("Unsubscribe (https://neon.dev/u?t=1)");
+    expect(email.warnings).toEqual([]);
+  });
+
+  it("warns about empty variables, or fails for required ones when strict", async () => {
+    const source: TemplateSource = {
+      ...welcome,
+      variables: [{ path: "lead.firstName", required: true }],
+    };
+
+    const preview = await renderTemplate(source, {}, { partials });
+    expect(preview.subject).toBe("Welcome, !");
+    expect(preview.warnings).toContain(
+      "{{lead.firstName}} has no value for this recipient",
+    );
+
+    await expect(
+      renderTemplate(source, {}, { partials, strict: true }),
+    ).rejects.toMatchObject({
+      code: "MISSING_VARIABLES",
+      issues: ["lead.firstName"],
+    });
+  });
+
+  it("uses the template's own text version when it has one", async () => {
+    const email = await renderTemplate(
+      { ...welcome, text: "Hi {{lead.firstName}} & welcome" },
+      { lead: { firstName: "Ada" } },
+      { partials },
+    );
+    expect(email.text).toBe("Hi Ada & welcome");
+  });
+
+  it("accepts valid templates", async () => {
+    expect(await validateTemplate(welcome, partials)).toEqual([]);
+  });
+
+  it("reports unknown, undeclared and mistyped variables", async () => {
+    const issues = await validateTemplate({
+      subject: "{{lead.nickname}} {{custom.offer}}",
+      mjml: layout(
+        "<mj-text>{{lead.tags}} {{#each lead.company}}x{{/each}}</mj-text>",
+      ),
+      variables: [
+        { path: "lead.score", type: "string" },
+        { path: "lead.company", fallback: ["a"] },
+        { path: "lead.favoriteColor" },
+      ],
+    });
+
+    expect(issues).toEqual([
+      "Variable lead.score is a number, not a string",
+      "Variable lead.company: the fallback must be a string",
+      "Variable lead.favoriteColor is not a Lead or persona field",
+      "Subject line 1: {{lead.nickname}} is not a merge variable",
+      "Subject line 1: {{custom.offer}} is not declared in the template's variables",
+      "Body line 1: {{lead.tags}} is a list; use {{#each lead.tags}}",
+      "Body line 1: {{#each lead.company}} needs a list, but it is a string",
+    ]);
+  });
+
+  it("reports syntax errors, missing partials and invalid MJML", async () => {
+    expect(
+      await validateTemplate({
+        subject: "{{#if lead.name}}",
+        mjml: layout(""),
+      }),
+    ).toEqual([expect.stringMatching(/^Subject: Parse error/)]);
+
+    expect(
+      await validateTemplate({ subject: "Hi", mjml: layout("{{> header}}") }),
+    ).toEqual(["Body: partial {{> header}} does not exist"]);
+
+    expect(
+      await validateTemplate({
+        subject: "Hi",
+        mjml: layout("<mj-bogus></mj-bogus>"),
+      }),
+    ).toEqual([expect.stringMatching(/^MJML line 1: Element mj-bogus/)]);
+
+    expect(
+      await validateTemplate({ subject: "Hi", mjml: "<p>No MJML</p>" }),
+    ).toEqual([expect.stringMatching(/^Body: Malformed MJML/)]);
+  });
+
+  it("never reads files through mj-include", async () => {
+    const email = await renderTemplate(
+      {
+        subject: "Hi",
+        mjml: '<mjml><mj-body><mj-include path="/etc/hostname" type="html" /></mj-body></mjml>',
+      },
+      {},
+    );
+    expect(email.html).not.toContain("mj-include");
+    expect(email.text).toBe("");
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps paragraphs, lists, links and alt texts", () => {
+    const text = htmlToText(`<html><head><style>p { color: red }</style></head>
+      <body><h1>News</h1><p>Hello   <b>Ada</b>,<br>read <a href="https://neon.dev/a">the post</a>.</p>
+      <ul><li>One</li><li>Two</li></ul><img src="x.png" alt="Logo">
+      <p><a href="https://neon.dev">https://neon.dev</a></p></body></html>`);
+
+    expect(text).toBe(
+      [
+        "News",
+        "",
+        "Hello Ada,",
+        "read the post (https://neon.dev/a).",
+        "",
+        "- One",
+        "- Two",
+        "",
+        "Logo",
+        "",
+        "https://neon.dev",
+      ].join("\n"),
+    );
+  });
+});
@@ -0,0 +1,358 @@
+import Handlebars from "handlebars";
+import mjml2html from "mjml";
+import { htmlToText } from "./html-to-text";
+import {
+  SAMPLE_RECIPIENT,
+  mergeContext,
+  mergeFieldType,
+  valueType,
+  CUSTOM_PREFIX,
+  MERGE_FIELDS,
+  type TemplateRecipient,
+  type TemplateVariable,
+} from "./merge-fields";
+
+/**
+ * Email templates are MJML layouts with Handlebars merge tags. Merge tags
+ * render first, with HTML escaping and the workspace's partials, then MJML
+ * compiles the result to responsive HTML. Subject and text are rendered
+ * without escaping; without a text version one is generated from the HTML.
+ */
+
+export interface TemplateSource {
+  subject: string;
+  mjml: string;
+  // Plain-text version; generated from the HTML when empty
+  text?: string | null | undefined;
+  variables?: TemplateVariable[] | undefined;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  // Merge variables without a value, and MJML problems
+  warnings: string[];
+}
+
+export interface RenderOptions {
+  // Partial sources by name, for {{> name}}
+  partials?: Record<string, string>;
+  // Throw instead of warning when required variables have no value
+  strict?: boolean;
+}
+
+export type EmailTemplateErrorCode =
+  | "INVALID_TEMPLATE"
+  | "MISSING_VARIABLES"
+  | "NOT_FOUND";
+
+export class EmailTemplateError extends Error {
+  constructor(
+    message: string,
+    readonly code: EmailTemplateErrorCode,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "EmailTemplateError";
+  }
+}
+
+// How a template uses a merge variable
+export interface MergeTag {
+  path: string;
+  usage: "value" | "list" | "condition";
+  line: number;
+}
+
+export interface TemplateReferences {
+  tags: MergeTag[];
+  partials: string[];
+}
+
+const CUSTOM_PATH = /^custom\.[A-Za-z_]\w*$/;
+
+// Never read files from the server (mj-include) or a project .mjmlconfig
+const MJML_OPTIONS = {
+  validationLevel: "soft",
+  ignoreIncludes: true,
+  useMjmlConfigOptions: false,
+} as const;
+
+/**
+ * Merge variables and partials a template source refers to. Inside
+ * `{{#with lead}}` paths are read relative to the lead; inside `{{#each}}`
+ * only `@root.` paths are checked, as the rest refer to the list items.
+ */
+export function templateReferences(source: string): TemplateReferences {
+  const references: TemplateReferences = { tags: [], partials: [] };
+
+  // Scope is the prefix of relative paths, or null inside list items
+  const pathOf = (
+    node: hbs.AST.PathExpression,
+    scope: string | null,
+  ): string | null => {
+    if (node.data) {
+      return node.parts[0] === "root" && node.parts.length > 1
+        ? node.parts.slice(1).join(".")
+        : null;
+    }
+    if (node.parts.length === 0 || scope === null || node.depth > 0) {
+      return null;
+    }
+    return scope + node.parts.join(".");
+  };
+  const tag = (
+    node: hbs.AST.Expression,
+    usage: MergeTag["usage"],
+    scope: string | null,
+  ) => {
+    if (node.type === "SubExpression") {
+      const sub = node as hbs.AST.SubExpression;
+      sub.params.forEach((param) => tag(param, "value", scope));
+      return;
+    }
+    if (node.type !== "PathExpression") return;
+    const path = pathOf(node as hbs.AST.PathExpression, scope);
+    if (path) references.tags.push({ path, usage, line: node.loc.start.line });
+  };
+
+  const walk = (program: hbs.AST.Program, scope: string | null): void => {
+    for (const statement of program.body) {
+      switch (statement.type) {
+        case "MustacheStatement": {
+          const mustache = statement as hbs.AST.MustacheStatement;
+          // Handlebars leaves out `hash` without hash arguments
+          if (mustache.params.length === 0 && !mustache.hash?.pairs.length) {
+            tag(mustache.path, "value", scope);
+          } else {
+            mustache.params.forEach((param) => tag(param, "value", scope));
+          }
+          break;
+        }
+        case "BlockStatement": {
+          const block = statement as hbs.AST.BlockStatement;
+          const helper = block.path.original;
+          const [subject] = block.params;
+          let inner = scope;
+          if (helper === "each" && subject) {
+            tag(subject, "list", scope);
+            inner = null;
+          } else if (helper === "with" && subject) {
+            const path =
+              subject.type === "PathExpression"
+                ? pathOf(subject as hbs.AST.PathExpression, scope)
+                : null;
+            inner = path ? `${path}.` : null;
+          } else {
+            block.params.forEach((param) =>
+              tag(
+                param,
+                helper === "if" || helper === "unless" ? "condition" : "value",
+                scope,
+              ),
+            );
+          }
+          walk(block.program, inner);
+          if (block.inverse) walk(block.inverse, scope);
+          break;
+        }
+        case "PartialStatement":
+        case "PartialBlockStatement": {
+          const partial = statement as hbs.AST.PartialStatement;
+          if (partial.name.type === "PathExpression") {
+            references.partials.push(
+              (partial.name as hbs.AST.PathExpression).original,
+            );
+          }
+          if (statement.type === "PartialBlockStatement") {
+            walk((statement as hbs.AST.PartialBlockStatement).program, scope);
+          }
+          break;
+        }
+      }
+    }
+  };
+
+  walk(Handlebars.parse(source), "");
+  return references;
+}
+
+/**
+ * Problems that would keep the template from rendering correctly: syntax
+ * errors, unknown or mistyped merge variables, missing partials and
+ * invalid MJML. An empty list means the template can be saved.
+ */
+export async function validateTemplate(
+  source: TemplateSource,
+  partials: Record<string, string> = {},
+): Promise<string[]> {
+  const issues: string[] = [];
+  const variables = source.variables ?? [];
+
+  for (const variable of variables) {
+    const known = MERGE_FIELDS[variable.path];
+    if (variable.path.startsWith(CUSTOM_PREFIX)) {
+      if (!CUSTOM_PATH.test(variable.path)) {
+        issues.push(
+          `Variable ${variable.path}: custom variables are named custom.<letters, digits or _>`,
+        );
+      }
+    } else if (!known) {
+      issues.push(`Variable ${variable.path} is not a Lead or persona field`);
+      continue;
+    } else if (variable.type && variable.type !== known) {
+      issues.push(
+        `Variable ${variable.path} is a ${known}, not a ${variable.type}`,
+      );
+    }
+    const type = known ?? variable.type ?? "string";
+    if (
+      variable.fallback !== undefined &&
+      valueType(variable.fallback) !== type
+    ) {
+      issues.push(`Variable ${variable.path}: the fallback must be a ${type}`);
+    }
+  }
+
+  // Check the template and, once each, the partials it uses
+  const sources: [string, string][] = [
+    ["Subject", source.subject],
+    ["Body", source.mjml],
+    ...(source.text ? ([["Text", source.text]] as [string, string][]) : []),
+  ];
+  const checkedPartials = new Set<string>();
+  for (let i = 0; i < sources.length; i++) {
+    const [label, text] = sources[i]!;
+    let references: TemplateReferences;
+    try {
+      references = templateReferences(text);
+    } catch (error) {
+      issues.push(`${label}: ${(error as Error).message.split("\n")[0]}`);
+      continue;
+    }
+
+    for (const { path, usage, line } of references.tags) {
+      const type = mergeFieldType(path, variables);
+      const at = `${label} line ${line}`;
+      if (!type) {
+        issues.push(
+          path.startsWith(CUSTOM_PREFIX)
+            ? `${at}: {{${path}}} is not declared in the template's variables`
+            : `${at}: {{${path}}} is not a merge variable`,
+        );
+      } else if (usage === "list" && type !== "list") {
+        issues.push(
+          `${at}: {{#each ${path}}} needs a list, but it is a ${type}`,
+        );
+      } else if (usage === "value" && type === "list") {
+        issues.push(`${at}: {{${path}}} is a list; use {{#each ${path}}}`);
+      }
+    }
+    for (const name of references.partials) {
+      if (checkedPartials.has(name)) continue;
+      checkedPartials.add(name);
+      if (partials[name] === undefined) {
+        issues.push(`${label}: partial {{> ${name}}} does not exist`);
+      } else {
+        sources.push([`Partial ${name}`, partials[name]!]);
+      }
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  // Compile the layout with the sample recipient to catch MJML problems
+  try {
+    const { warnings } = await renderTemplate(source, SAMPLE_RECIPIENT, {
+      partials,
+    });
+    issues.push(...warnings.filter((warning) => warning.startsWith("MJML")));
+  } catch (error) {
+    issues.push(`Body: ${(error as Error).message}`);
+  }
+  return issues;
+}
+
+export async function renderTemplate(
+  source: TemplateSource,
+  recipient: TemplateRecipient,
+  options: RenderOptions = {},
+): Promise<RenderedEmail> {
+  const variables = source.variables ?? [];
+  const { data, missing } = mergeContext(recipient, variables);
+  if (missing.length > 0 && options.strict) {
+    throw new EmailTemplateError(
+      `No value for ${missing.join(", ")}`,
+      "MISSING_VARIABLES",
+      missing,
+    );
+  }
+
+  const handlebars = Handlebars.create();
+  for (const [name, partial] of Object.entries(options.partials ?? {})) {
+    handlebars.registerPartial(name, partial);
+  }
+  const render = (template: string, escape: boolean) =>
+    handlebars.compile(template, { noEscape: !escape })(data);
+
+  const { html, errors } = await mjml2html(
+    render(source.mjml, true),
+    MJML_OPTIONS,
+  );
+  const text = source.text
+    ? render(source.text, false).trim()
+    : htmlToText(html);
+
+  // Merge tags of the template and every partial it includes
+  const tags: MergeTag[] = [];
+  const pending = [source.subject, source.mjml, source.text ?? ""];
+  const included = new Set<string>();
+  for (let template; (template = pending.pop()) !== undefined; ) {
+    const references = templateReferences(template);
+    tags.push(...references.tags);
+    for (const name of references.partials) {
+      const partial = options.partials?.[name];
+      if (partial === undefined || included.has(name)) continue;
+      included.add(name);
+      pending.push(partial);
+    }
+  }
+
+  const warnings = [
+    ...new Set(
+      tags
+        .filter((tag) => tag.usage !== "condition" && !hasValue(data, tag.path))
+        .map((tag) => `{{${tag.path}}} has no value for this recipient`),
+    ),
+    ...errors.map((error) => `MJML line ${error.line}: ${error.message}`),
+  ];
+
+  return {
+    subject: render(source.subject, false).replace(/\s+/g, " ").trim(),
+    html,
+    text,
+    warnings,
+  };
+}
+
+/**
+ * Fill the merge tags of a snippet without validating it. Values are
+ * HTML-escaped in `html` snippets only.
+ */
+export function renderText(
+  template: string,
+  recipient: TemplateRecipient,
+  options: { html?: boolean } = {},
+): string {
+  return Handlebars.compile(template, { noEscape: !options.html })(
+    mergeContext(recipient).data,
+  );
+}
+
+function hasValue(data: Record<string, unknown>, path: string): boolean {
+  const [root, ...rest] = path.split(".");
+  const value = rest.length
+    ? (data[root!] as Record<string, unknown> | undefined)?.[rest.join(".")]
+    : data[root!];
+  return value !== undefined;
+}
@@ -0,0 +1,60 @@
+/**
+ * Email transports deliver one rendered message at a time: SendGrid's
+ * mail API, any SMTP server, or a local mailbox directory for QA.
+ */
+
+export interface EmailAddress {
+  email: string;
+  name?: string | undefined;
+}
+
+export interface EmailMessage {
+  from: EmailAddress;
+  to: EmailAddress;
+  replyTo?: string | undefined;
+  subject: string;
+  text: string;
+  html?: string | undefined;
+  headers?: Record<string, string> | undefined;
+  // Returned by the provider with delivery events (SendGrid custom args)
+  customArgs?: Record<string, string> | undefined;
+  // Workspace the email is sent for; the mailbox files messages by it
+  workspaceId?: string | undefined;
+}
+
+export interface SendResult {
+  messageId: string;
+  transport: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  // Whether From addresses must be verified senders; local capture does
+  // not deliver anything, so it accepts any address
+  readonly deliversMail: boolean;
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+export type EmailTransportErrorCode =
+  | "NOT_CONFIGURED"
+  | "INVALID_SENDER"
+  | "REJECTED"
+  | "RATE_LIMITED"
+  | "UNAVAILABLE";
+
+export class EmailTransportError extends Error {
+  constructor(
+    message: string,
+    readonly code: EmailTransportErrorCode,
+    // Whether sending again later may succeed
+    readonly retryable = false,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = "EmailTransportError";
+  }
+}
+
+export function domainOf(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+}
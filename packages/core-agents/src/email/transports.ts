@@ -0,0 +1,57 @@
+import { MailboxTransport } from "./mailbox-transport";
+import { SendGridTransport } from "./sendgrid-transport";
+import { SmtpTransport } from "./smtp-transport";
+import { EmailTransportError, type EmailTransport } from "./transport";
+
+export type EmailTransportKind = "sendgrid" | "smtp" | "mailbox";
+
+type Env = Record<string, string | undefined>;
+
+const KINDS: EmailTransportKind[] = ["sendgrid", "smtp", "mailbox"];
+
+/**
+ * EMAIL_TRANSPORT picks the transport. Outside production the mailbox is
+ * the default, so development never emails real people by accident; in
+ * production SendGrid is used when its key is set, else SMTP.
+ */
+export function emailTransportKind(env: Env = process.env): EmailTransportKind {
+  const configured = env.EMAIL_TRANSPORT as EmailTransportKind | undefined;
+  if (configured && KINDS.includes(configured)) return configured;
+  if (env.NODE_ENV !== "production") return "mailbox";
+  return env.SENDGRID_API_KEY || !env.SMTP_HOST ? "sendgrid" : "smtp";
+}
+
+/**
+ * Transport configured from environment variables. Throws NOT_CONFIGURED
+ * naming the missing variables.
+ */
+export function createEmailTransport(env: Env = process.env): EmailTransport {
+  const kind = emailTransportKind(env);
+  switch (kind) {
+    case "sendgrid":
+      if (!env.SENDGRID_API_KEY) {
+        throw new EmailTransportError(
+          "SendGrid email transport is not configured: set SENDGRID_API_KEY",
+          "NOT_CONFIGURED",
+        );
+      }
+      return new SendGridTransport(env.SENDGRID_API_KEY);
+    case "smtp":
+      if (!env.SMTP_HOST) {
+        throw new EmailTransportError(
+          "SMTP email transport is not configured: set SMTP_HOST",
+          "NOT_CONFIGURED",
+        );
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        ...(env.SMTP_PORT && { port: Number(env.SMTP_PORT) }),
+        secure: env.SMTP_SECURE === "true",
+        requireTls: env.SMTP_REQUIRE_TLS !== "false",
+        username: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      });
+    case "mailbox":
+      return new MailboxTransport(env.EMAIL_MAILBOX_DIR || undefined);
+  }
+}
@@ -0,0 +1,33 @@
+import type { EmailEventType } from "@neon/data-model";
+
+/**
+ * A delivery event for one recipient, as reported by the email provider
+ */
+export interface EmailDeliveryEvent {
+  provider: string;
+  // Used to drop the provider's retries of the same event
+  providerEventId: string;
+  type: EmailEventType;
+  email: string;
+  occurredAt: Date;
+  // Looked up through the email campaign when missing
+  workspaceId?: string | undefined;
+  messageId?: string | undefined;
+  emailCampaignId?: string | undefined;
+  url?: string | undefined;
+  reason?: string | undefined;
+  // False for bounces the provider expects to clear, e.g. blocks
+  permanent?: boolean | undefined;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+export interface RecordEventsSummary {
+  recorded: number;
+  duplicates: number;
+  // Addresses added to a suppression list
+  suppressed: number;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "@jest/globals";
+import { UnsubscribeLinks, withUnsubscribeLink } from "./unsubscribe";
+
+describe("UnsubscribeLinks", () => {
+  const links = new UnsubscribeLinks({
+    secret: "test-secret",
+    url: "https://api.example.com/api/email/unsubscribe",
+    mailto: "unsubscribe@example.com",
+  });
+
+  it("makes links that verify to their recipient", () => {
+    const link = links.link("ws-1", "Ada@Example.com");
+    const token = new URL(link).searchParams.get("token")!;
+
+    expect(link).toMatch(
+      /^https:\/\/api\.example\.com\/api\/email\/unsubscribe\?token=/,
+    );
+    expect(links.verify(token)).toEqual({
+      workspaceId: "ws-1",
+      email: "ada@example.com",
+    });
+  });
+
+  it("rejects tampered tokens and other secrets", () => {
+    const token = links.token("ws-1", "ada@example.com");
+    const [, signature] = token.split(".");
+    const forged = `${Buffer.from(
+      JSON.stringify(["ws-1", "grace@example.com"]),
+    ).toString("base64url")}.${signature}`;
+
+    expect(links.verify(forged)).toBeNull();
+    expect(links.verify("garbage")).toBeNull();
+    expect(new UnsubscribeLinks({ secret: "other" }).verify(token)).toBeNull();
+  });
+
+  it("builds one-click List-Unsubscribe headers", () => {
+    expect(links.headers("https://x.test/u?token=abc")).toEqual({
+      "List-Unsubscribe":
+        "<https://x.test/u?token=abc>, <mailto:unsubscribe@example.com?subject=unsubscribe>",
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    });
+  });
+
+  it("is disabled without a secret", () => {
+    const previous = process.env.EMAIL_UNSUBSCRIBE_SECRET;
+    delete process.env.EMAIL_UNSUBSCRIBE_SECRET;
+
+    expect(new UnsubscribeLinks().enabled).toBe(false);
+
+    if (previous !== undefined) process.env.EMAIL_UNSUBSCRIBE_SECRET = previous;
+  });
+});
+
+describe("withUnsubscribeLink", () => {
+  it("fills the placeholder or appends a footer", () => {
+    const link = "https://x.test/u?token=a&b";
+
+    expect(
+      withUnsubscribeLink(
+        { text: "Hi\nLeave: {{ unsubscribe_url }}", html: "<p>Hi</p>" },
+        link,
+      ),
+    ).toEqual({
+      text: `Hi\nLeave: ${link}`,
+      html: '<p>Hi</p><p style="font-size:12px;color:#6b7280"><a href="https://x.test/u?token=a&amp;b">Unsubscribe</a></p>',
+    });
+    expect(withUnsubscribeLink({ text: "Hi" }, link)).toEqual({
+      text: `Hi\n\nUnsubscribe: ${link}`,
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { normalizeEmail } from "./types";
+
+/**
+ * Signed unsubscribe links. The token carries the workspace and address,
+ * so the unsubscribe endpoint needs no session; the HMAC keeps others
+ * from unsubscribing addresses they do not own.
+ */
+
+export interface UnsubscribeLinkOptions {
+  // Defaults to EMAIL_UNSUBSCRIBE_SECRET; links are off without one
+  secret?: string | undefined;
+  // Defaults to EMAIL_UNSUBSCRIBE_URL, else the API's /api/email/unsubscribe
+  url?: string | undefined;
+  // Optional mailto address for clients without one-click support
+  mailto?: string | undefined;
+}
+
+export interface UnsubscribeRecipient {
+  workspaceId: string;
+  email: string;
+}
+
+export class UnsubscribeLinks {
+  private secret: string | undefined;
+  private url: string;
+  private mailto: string | undefined;
+
+  constructor(options: UnsubscribeLinkOptions = {}) {
+    this.secret = options.secret ?? process.env.EMAIL_UNSUBSCRIBE_SECRET;
+    this.url =
+      options.url ??
+      process.env.EMAIL_UNSUBSCRIBE_URL ??
+      `${process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3001"}/api/email/unsubscribe`;
+    this.mailto = options.mailto ?? process.env.EMAIL_UNSUBSCRIBE_MAILTO;
+  }
+
+  get enabled(): boolean {
+    return Boolean(this.secret);
+  }
+
+  token(workspaceId: string, email: string): string {
+    const payload = Buffer.from(
+      JSON.stringify([workspaceId, normalizeEmail(email)]),
+    ).toString("base64url");
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * The recipient a token was made for, or null when it was not signed
+   * with our secret
+   */
+  verify(token: string): UnsubscribeRecipient | null {
+    const [payload, signature] = token.split(".");
+    if (!payload || !signature || !this.secret) return null;
+
+    const expected = Buffer.from(this.sign(payload));
+    const given = Buffer.from(signature);
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      return null;
+    }
+
+    try {
+      const [workspaceId, email] = JSON.parse(
+        Buffer.from(payload, "base64url").toString(),
+      );
+      return typeof workspaceId === "string" && typeof email === "string"
+        ? { workspaceId, email }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  link(workspaceId: string, email: string): string {
+    const url = new URL(this.url);
+    url.searchParams.set("token", this.token(workspaceId, email));
+    return url.toString();
+  }
+
+  /**
+   * List-Unsubscribe headers for one-click unsubscribes (RFC 8058)
+   */
+  headers(link: string): Record<string, string> {
+    const targets = [`<${link}>`];
+    if (this.mailto)
+      targets.push(`<mailto:${this.mailto}?subject=unsubscribe>`);
+    return {
+      "List-Unsubscribe": targets.join(", "),
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    };
+  }
+
+  private sign(payload: string): string {
+    if (!this.secret) {
+      throw new Error("EMAIL_UNSUBSCRIBE_SECRET is not configured");
+    }
+    return createHmac("sha256", this.secret)
+      .update(payload)
+      .digest("base64url");
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*unsubscribe_url\s*\}\}/;
+const PLACEHOLDERS = new RegExp(PLACEHOLDER.source, "g");
+
+/**
+ * Put the unsubscribe link where the body asks for it with
+ * {{unsubscribe_url}}, or in a footer
+ */
+export function withUnsubscribeLink(
+  body: { text: string; html?: string | undefined },
+  link: string,
+): { text: string; html?: string } {
+  const text = PLACEHOLDER.test(body.text)
+    ? body.text.replace(PLACEHOLDERS, link)
+    : `${body.text}\n\nUnsubscribe: ${link}`;
+  if (body.html === undefined) return { text };
+
+  const escaped = link.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+  const html = PLACEHOLDER.test(body.html)
+    ? body.html.replace(PLACEHOLDERS, escaped)
+    : `${body.html}<p style="font-size:12px;color:#6b7280"><a href="${escaped}">Unsubscribe</a></p>`;
+  return { text, html };
+}
@@ -22,14 +22,43 @@ export { EmailMarketingAgent } from "./agents/email-agent";
 // Export agent schemas
 export * from "./schemas/agent-schemas";
 
+// LLM Provider Layer
+export * from "./llm";
+
+// Durable Job Queue
+export * from "./queue";
+
+// Content Approval Workflow
+export * from "./content-approval";
+
+// Publishing Connectors
+export * from "./connectors";
+
+// Metrics Ingestion
+export * from "./metrics";
+
+// Email Deliverability
+export * from "./email";
+
+// Trend Sources
+export * from "./trends";
+
+// Behaviour Triggers and Personalization Rules
+export * from "./personalization";
+
+// Support Knowledge Base and SLA Policies
+export * from "./support";
+
 // Memory and Performance Tuning
 export * from "./memory/AgentMemoryStore";
+export * from "./memory/memory-vector-store";
 export * from "./tuner/PerformanceTuner";
 
 // Strategy System
 export * from "./strategy/CampaignStrategyPlanner";
 export * from "./strategy/strategy-templates";
 export * from "./strategy/strategy-store";
+export * from "./strategy/rendering/presentation-file-store";
 
 // Agent Types
 export * from "./agents/content-agent";
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "@jest/globals";
+import { planWithinBudget } from "./budget";
+
+describe("planWithinBudget", () => {
+  const request = { model: "gpt-4", promptTokens: 1000, maxTokens: 1000 };
+
+  it("should keep the requested model when the call fits", () => {
+    const plan = planWithinBudget({ ...request, remaining: 1 });
+
+    expect(plan).toMatchObject({
+      model: "gpt-4",
+      maxTokens: 1000,
+      degraded: false,
+    });
+  });
+
+  it("should switch to a cheaper model before shortening output", () => {
+    const plan = planWithinBudget({ ...request, remaining: 0.02 });
+
+    expect(plan?.model).toBe("gpt-4o");
+    expect(plan?.maxTokens).toBe(1000);
+    expect(plan?.degraded).toBe(true);
+  });
+
+  it("should shorten output on the cheapest model as a last resort", () => {
+    const plan = planWithinBudget({
+      ...request,
+      maxTokens: 100_000,
+      remaining: 0.01,
+    });
+
+    expect(plan?.model).toBe("gpt-4o-mini");
+    expect(plan?.maxTokens).toBeLessThan(100_000);
+    expect(plan!.estimatedCost).toBeLessThanOrEqual(0.01);
+  });
+
+  it("should refuse calls when nothing useful fits", () => {
+    expect(planWithinBudget({ ...request, remaining: 0.0001 })).toBeNull();
+  });
+
+  it("should never degrade unbilled providers", () => {
+    const plan = planWithinBudget({
+      ...request,
+      remaining: 0,
+      provider: "local",
+    });
+
+    expect(plan?.model).toBe("gpt-4");
+  });
+});
@@ -0,0 +1,168 @@
+import { AsyncLocalStorage } from "async_hooks";
+import {
+  BudgetExceededError,
+  BudgetGate,
+  calculateLLMCost,
+  type BudgetGateDecision,
+  type BudgetReservationRequest,
+} from "@neon/utils";
+
+/**
+ * Spending limit for one agent run. The budget gate decides the limit
+ * before the run starts; every LLM call made inside the run is planned
+ * against what is left of it, so a run can never spend past its cap even
+ * when the pre-flight estimate was too low.
+ */
+export interface LLMBudgetScope {
+  decision: BudgetGateDecision;
+  maxCost: number;
+  spent: number;
+}
+
+export interface LLMBudgetPlan {
+  model: string;
+  maxTokens: number;
+  estimatedCost: number;
+  degraded: boolean;
+}
+
+export const DEFAULT_ESTIMATED_PROMPT_TOKENS = 1000;
+export const DEFAULT_ESTIMATED_COMPLETION_TOKENS = 1500;
+
+// Cheaper models tried, in order, when a call does not fit the budget
+export const DEGRADED_MODEL_CHAIN = ["gpt-4o", "gpt-4o-mini"];
+
+// Below this a degraded completion is too short to be useful
+export const MIN_DEGRADED_COMPLETION_TOKENS = 256;
+
+const budgetStorage = new AsyncLocalStorage<LLMBudgetScope>();
+
+export function getBudgetScope(): LLMBudgetScope | undefined {
+  return budgetStorage.getStore();
+}
+
+/**
+ * Run fn with every LLM call it makes limited by the gate's decision
+ */
+export function runWithinBudget<T>(
+  decision: BudgetGateDecision,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return budgetStorage.run(
+    { decision, maxCost: decision.maxCost, spent: 0 },
+    fn,
+  );
+}
+
+/**
+ * Reserve budget for a run and execute it inside the resulting scope.
+ * Runs nested in another budgeted run share the outer reservation, and
+ * runs that cost nothing skip the gate. Throws BudgetExceededError when
+ * the gate blocks the run.
+ */
+export async function withBudgetReservation<T>(
+  request: BudgetReservationRequest,
+  fn: (decision?: BudgetGateDecision) => Promise<T>,
+): Promise<T> {
+  const outer = getBudgetScope();
+  if (outer) {
+    return fn(outer.decision);
+  }
+  if (request.estimatedCost <= 0) {
+    return fn();
+  }
+
+  const decision = await BudgetGate.reserve(request);
+  if (!decision.allowed) {
+    throw new BudgetExceededError(
+      decision.reason || "Budget exceeded",
+      decision,
+    );
+  }
+
+  try {
+    return await runWithinBudget(decision, () => fn(decision));
+  } finally {
+    await BudgetGate.release(decision.reservationId);
+  }
+}
+
+export function estimateLLMCost(input: {
+  model: string;
+  promptTokens?: number | undefined;
+  maxTokens?: number | undefined;
+  provider?: string | undefined;
+}): number {
+  return calculateLLMCost({
+    model: input.model,
+    promptTokens: input.promptTokens ?? DEFAULT_ESTIMATED_PROMPT_TOKENS,
+    completionTokens: input.maxTokens ?? DEFAULT_ESTIMATED_COMPLETION_TOKENS,
+    provider: input.provider,
+  }).totalCost;
+}
+
+/**
+ * Fit one call into the remaining budget: keep the requested model and
+ * output length if they fit, otherwise try cheaper models, then shorten
+ * the output on the cheapest one. Returns null when nothing useful fits.
+ */
+export function planWithinBudget(input: {
+  model: string;
+  promptTokens: number;
+  maxTokens: number;
+  remaining: number;
+  provider?: string | undefined;
+}): LLMBudgetPlan | null {
+  const { promptTokens, maxTokens, remaining, provider } = input;
+  const candidates = [
+    input.model,
+    ...DEGRADED_MODEL_CHAIN.filter((model) => model !== input.model),
+  ];
+
+  for (const model of candidates) {
+    const cost = calculateLLMCost({
+      model,
+      promptTokens,
+      completionTokens: maxTokens,
+      provider,
+    });
+    if (cost.totalCost <= remaining) {
+      return {
+        model,
+        maxTokens,
+        estimatedCost: cost.totalCost,
+        degraded: model !== input.model,
+      };
+    }
+  }
+
+  const cheapest = candidates[candidates.length - 1]!;
+  const perToken = calculateLLMCost({
+    model: cheapest,
+    promptTokens,
+    completionTokens: 1,
+    provider,
+  });
+  const outputCostPerToken = perToken.outputCost;
+  const fittingTokens =
+    outputCostPerToken > 0
+      ? Math.floor((remaining - perToken.inputCost) / outputCostPerToken)
+      : 0;
+
+  if (fittingTokens < MIN_DEGRADED_COMPLETION_TOKENS) {
+    return null;
+  }
+
+  const shortened = Math.min(maxTokens, fittingTokens);
+  return {
+    model: cheapest,
+    maxTokens: shortened,
+    estimatedCost: calculateLLMCost({
+      model: cheapest,
+      promptTokens,
+      completionTokens: shortened,
+      provider,
+    }).totalCost,
+    degraded: true,
+  };
+}
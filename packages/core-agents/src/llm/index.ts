@@ -0,0 +1,17 @@
+export * from "./types";
+export * from "./model-router";
+export * from "./llm-client";
+export * from "./budget";
+export * from "./run-context";
+export * from "./workspace-config";
+export { OpenAIProvider } from "./providers/openai-provider";
+export {
+  LocalProvider,
+  DEFAULT_LOCAL_BASE_URL,
+} from "./providers/local-provider";
+export {
+  FixtureProvider,
+  FIXTURE_EMBEDDING_DIMENSIONS,
+  countTokens,
+  fixtureEmbedding,
+} from "./providers/fixture-provider";
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { LLMClient, createLLMProvider } from "./llm-client";
+import { ModelRouter } from "./model-router";
+import { runWithLLMContext } from "./run-context";
+import {
+  FixtureProvider,
+  fixtureEmbedding,
+} from "./providers/fixture-provider";
+import {
+  LLMError,
+  type ChatRequest,
+  type ChatResponse,
+  type LLMProvider,
+} from "./types";
+
+describe("LLMClient", () => {
+  let client: LLMClient;
+
+  beforeEach(() => {
+    client = new LLMClient({ provider: "fixture", maxRetries: 0 });
+  });
+
+  describe("fixture provider", () => {
+    it("should return deterministic responses", async () => {
+      const request: ChatRequest = {
+        agentType: "content",
+        messages: [{ role: "user", content: "Write a post about neon signs" }],
+      };
+
+      const first = await client.chat(request);
+      const second = await client.chat(request);
+
+      expect(first.content).toBe(second.content);
+      expect(first.provider).toBe("fixture");
+      expect(first.usage.totalTokens).toBe(
+        first.usage.promptTokens + first.usage.completionTokens,
+      );
+    });
+
+    it("should use configured fixtures by agent type", async () => {
+      client = new LLMClient({
+        provider: "fixture",
+        fixtures: { seo: "Title: Neon Signs | Meta: Custom neon" },
+      });
+
+      const response = await client.complete({
+        agentType: "seo",
+        prompt: "Generate meta tags",
+      });
+
+      expect(response.content).toBe("Title: Neon Signs | Meta: Custom neon");
+    });
+
+    it("should produce similar embeddings for similar text", async () => {
+      const response = await client.embed({
+        input: ["neon sign marketing", "neon sign marketing tips", "tax law"],
+      });
+
+      const [a, b, c] = response.embeddings as [number[], number[], number[]];
+      const dot = (x: number[], y: number[]) =>
+        x.reduce((sum, v, i) => sum + v * (y[i] ?? 0), 0);
+
+      expect(dot(a, b)).toBeGreaterThan(dot(a, c));
+      expect(fixtureEmbedding("neon sign marketing")).toEqual(a);
+    });
+  });
+
+  describe("model routing", () => {
+    it("should route by agent type with workspace overrides", () => {
+      client = new LLMClient({
+        provider: "fixture",
+        models: { seo: "gpt-4o-mini" },
+      });
+
+      expect(client.resolveModel("seo")).toBe("gpt-4o-mini");
+      expect(client.resolveModel("content")).toBe("gpt-4");
+    });
+
+    it("should prefer an explicit model", () => {
+      const router = new ModelRouter({ content: "gpt-4o" });
+      expect(router.resolve("content", "gpt-3.5-turbo")).toBe("gpt-3.5-turbo");
+    });
+  });
+
+  describe("workspace providers", () => {
+    it("should switch providers per workspace", async () => {
+      client.configureWorkspace("ws-1", {
+        provider: "fixture",
+        fixtures: { content: "workspace response" },
+      });
+
+      const scoped = await client.chat({
+        agentType: "content",
+        workspaceId: "ws-1",
+        messages: [{ role: "user", content: "hello" }],
+      });
+      const unscoped = await client.chat({
+        agentType: "content",
+        messages: [{ role: "user", content: "hello" }],
+      });
+
+      expect(scoped.content).toBe("workspace response");
+      expect(unscoped.content).not.toBe("workspace response");
+    });
+
+    it("should use the workspace of the agent run", async () => {
+      client.configureWorkspace("ws-1", {
+        provider: "fixture",
+        models: { content: "gpt-4o-mini" },
+        fixtures: { content: "workspace response" },
+      });
+
+      const response = await runWithLLMContext({ workspaceId: "ws-1" }, () =>
+        client.complete({ agentType: "content", prompt: "hello" }),
+      );
+
+      expect(response.content).toBe("workspace response");
+      expect(response.model).toBe("gpt-4o-mini");
+    });
+
+    it("should load workspace settings from the config source once", async () => {
+      const loaded: string[] = [];
+      client.setWorkspaceConfigSource(async (workspaceId) => {
+        loaded.push(workspaceId);
+        return workspaceId === "ws-1"
+          ? { provider: "fixture", models: { seo: "gpt-4o-mini" } }
+          : null;
+      });
+
+      await client.chat({
+        agentType: "seo",
+        workspaceId: "ws-1",
+        messages: [{ role: "user", content: "meta tags" }],
+      });
+      const response = await client.chat({
+        agentType: "seo",
+        workspaceId: "ws-1",
+        messages: [{ role: "user", content: "meta tags" }],
+      });
+      await client.loadWorkspace("ws-2");
+
+      expect(response.model).toBe("gpt-4o-mini");
+      expect(client.resolveModel("seo", "ws-2")).not.toBe("gpt-4o-mini");
+      expect(loaded).toEqual(["ws-1", "ws-2"]);
+    });
+  });
+
+  describe("retries and timeouts", () => {
+    it("should retry retryable errors", async () => {
+      let attempts = 0;
+      const flaky: LLMProvider = {
+        name: "fixture",
+        isAvailable: () => true,
+        chat: async (request): Promise<ChatResponse> => {
+          attempts++;
+          if (attempts < 2) {
+            throw new LLMError("rate limited", "fixture", true, 429);
+          }
+          return new FixtureProvider().chat(request);
+        },
+        embed: (request) => new FixtureProvider().embed(request),
+      };
+      client.setDefaultProvider(flaky, { maxRetries: 2 });
+
+      const response = await client.chat({
+        messages: [{ role: "user", content: "retry me" }],
+      });
+
+      expect(attempts).toBe(2);
+      expect(response.content).toContain("retry me");
+    });
+
+    it("should not retry non-retryable errors", async () => {
+      let attempts = 0;
+      const broken: LLMProvider = {
+        name: "fixture",
+        isAvailable: () => true,
+        chat: async () => {
+          attempts++;
+          throw new LLMError("bad request", "fixture", false, 400);
+        },
+        embed: (request) => new FixtureProvider().embed(request),
+      };
+      client.setDefaultProvider(broken, { maxRetries: 3 });
+
+      await expect(
+        client.chat({ messages: [{ role: "user", content: "x" }] }),
+      ).rejects.toThrow("bad request");
+      expect(attempts).toBe(1);
+    });
+
+    it("should time out slow providers", async () => {
+      const slow: LLMProvider = {
+        name: "fixture",
+        isAvailable: () => true,
+        chat: () => new Promise(() => undefined),
+        embed: (request) => new FixtureProvider().embed(request),
+      };
+      client.setDefaultProvider(slow, { maxRetries: 0 });
+
+      await expect(
+        client.chat({
+          messages: [{ role: "user", content: "x" }],
+          timeoutMs: 20,
+        }),
+      ).rejects.toThrow("timed out");
+    });
+  });
+
+  describe("createLLMProvider", () => {
+    it("should report openai as unavailable without an API key", () => {
+      const original = process.env.OPENAI_API_KEY;
+      delete process.env.OPENAI_API_KEY;
+
+      expect(createLLMProvider({ provider: "openai" }).isAvailable()).toBe(
+        false,
+      );
+
+      if (original !== undefined) {
+        process.env.OPENAI_API_KEY = original;
+      }
+    });
+
+    it("should create a local provider without an API key", () => {
+      const provider = createLLMProvider({
+        provider: "local",
+        baseURL: "http://localhost:11434/v1",
+      });
+      expect(provider.name).toBe("local");
+      expect(provider.isAvailable()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,438 @@
+import { BudgetExceededError, calculateLLMCost, logger } from "@neon/utils";
+import { getBudgetScope, planWithinBudget } from "./budget";
+import { getLLMRunContext } from "./run-context";
+import {
+  workspaceLLMConfigSource,
+  type WorkspaceLLMConfigSource,
+} from "./workspace-config";
+import { ModelRouter, DEFAULT_EMBEDDING_MODEL } from "./model-router";
+import { FixtureProvider, countTokens } from "./providers/fixture-provider";
+import { LocalProvider } from "./providers/local-provider";
+import { OpenAIProvider } from "./providers/openai-provider";
+import {
+  LLMError,
+  type ChatRequest,
+  type ChatResponse,
+  type CompletionRequest,
+  type EmbeddingRequest,
+  type EmbeddingResponse,
+  type LLMProvider,
+  type LLMProviderConfig,
+  type LLMProviderName,
+} from "./types";
+
+export const DEFAULT_LLM_TIMEOUT_MS = 60_000;
+export const DEFAULT_LLM_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+// Output length assumed when planning a call that sets no maxTokens
+const BUDGET_PLANNING_MAX_TOKENS = 1500;
+// How long loaded workspace settings are used before being read again
+export const WORKSPACE_CONFIG_REFRESH_MS = 60_000;
+
+interface ResolvedProvider {
+  provider: LLMProvider;
+  router: ModelRouter;
+  config: LLMProviderConfig;
+}
+
+/**
+ * Build a provider instance from configuration.
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.provider) {
+    case "openai":
+      return new OpenAIProvider({
+        ...(config.apiKey ? { apiKey: config.apiKey } : {}),
+        ...(config.baseURL ? { baseURL: config.baseURL } : {}),
+      });
+    case "local":
+      return new LocalProvider({
+        ...(config.apiKey ? { apiKey: config.apiKey } : {}),
+        ...(config.baseURL ? { baseURL: config.baseURL } : {}),
+      });
+    case "fixture":
+      return new FixtureProvider({
+        ...(config.fixtures ? { fixtures: config.fixtures } : {}),
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider as string}`);
+  }
+}
+
+/**
+ * Read the default provider configuration from the environment.
+ * LLM_PROVIDER selects the backend; tests default to the fixture provider
+ * so agent suites never reach the network.
+ */
+export function getDefaultLLMConfig(): LLMProviderConfig {
+  const configured = process.env.LLM_PROVIDER as LLMProviderName | undefined;
+  const provider: LLMProviderName =
+    configured || (process.env.NODE_ENV === "test" ? "fixture" : "openai");
+
+  return {
+    provider,
+    ...(process.env.LLM_TIMEOUT_MS
+      ? { timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS, 10) }
+      : {}),
+    ...(process.env.LLM_MAX_RETRIES
+      ? { maxRetries: parseInt(process.env.LLM_MAX_RETRIES, 10) }
+      : {}),
+  };
+}
+
+/**
+ * Single entry point agents use to talk to language models. Handles
+ * provider selection per workspace, model routing per agent type,
+ * retries with exponential backoff and request timeouts.
+ *
+ * Requests without a workspaceId use the workspace of the agent run they
+ * are made in, and every call's usage is recorded to that run (see
+ * runWithLLMContext).
+ */
+export class LLMClient {
+  private defaultProvider: ResolvedProvider;
+  private workspaceProviders = new Map<string, ResolvedProvider>();
+  private workspaceConfigSource: WorkspaceLLMConfigSource | undefined;
+  // When each workspace's settings were last read from the config source
+  private workspaceLoadedAt = new Map<string, number>();
+
+  constructor(config: LLMProviderConfig = getDefaultLLMConfig()) {
+    this.defaultProvider = this.resolveConfig(config);
+  }
+
+  /**
+   * Use a different provider for one workspace
+   */
+  configureWorkspace(workspaceId: string, config: LLMProviderConfig): void {
+    this.workspaceProviders.set(workspaceId, this.resolveConfig(config));
+  }
+
+  removeWorkspace(workspaceId: string): void {
+    this.workspaceProviders.delete(workspaceId);
+    this.workspaceLoadedAt.delete(workspaceId);
+  }
+
+  /**
+   * Read workspace provider settings from source when a workspace is first
+   * used, and again once they are older than WORKSPACE_CONFIG_REFRESH_MS
+   */
+  setWorkspaceConfigSource(source: WorkspaceLLMConfigSource | null): void {
+    this.workspaceConfigSource = source ?? undefined;
+    this.workspaceLoadedAt.clear();
+  }
+
+  /**
+   * Load the stored settings of a workspace unless they are fresh. Lookup
+   * failures keep the settings already loaded, or the default provider.
+   */
+  async loadWorkspace(workspaceId: string): Promise<void> {
+    const source = this.workspaceConfigSource;
+    const loadedAt = this.workspaceLoadedAt.get(workspaceId);
+    if (
+      !source ||
+      (loadedAt !== undefined &&
+        Date.now() - loadedAt < WORKSPACE_CONFIG_REFRESH_MS)
+    ) {
+      return;
+    }
+
+    this.workspaceLoadedAt.set(workspaceId, Date.now());
+    try {
+      const config = await source(workspaceId);
+      if (config) {
+        this.configureWorkspace(workspaceId, config);
+      } else {
+        this.workspaceProviders.delete(workspaceId);
+      }
+    } catch (error) {
+      logger.warn(
+        "Failed to load workspace LLM settings",
+        {
+          workspaceId,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "LLMClient",
+      );
+    }
+  }
+
+  /**
+   * Replace the default provider (used by tests and bootstrapping code)
+   */
+  setDefaultProvider(
+    provider: LLMProvider,
+    config: Partial<LLMProviderConfig> = {},
+  ): void {
+    const fullConfig: LLMProviderConfig = {
+      ...config,
+      provider: provider.name,
+    };
+    this.defaultProvider = {
+      provider,
+      router: new ModelRouter(fullConfig.models),
+      config: fullConfig,
+    };
+  }
+
+  getProvider(workspaceId?: string): LLMProvider {
+    return this.resolve(workspaceId).provider;
+  }
+
+  /**
+   * Whether a real response can be produced. Agents use this to decide
+   * when to take their template-based fallback path.
+   */
+  isAvailable(workspaceId?: string): boolean {
+    return this.resolve(workspaceId).provider.isAvailable();
+  }
+
+  resolveModel(agentType?: string, workspaceId?: string): string {
+    return this.resolve(workspaceId).router.resolve(agentType);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const workspaceId = request.workspaceId ?? getLLMRunContext()?.workspaceId;
+    if (workspaceId) {
+      await this.loadWorkspace(workspaceId);
+    }
+    const { provider, router, config } = this.resolve(workspaceId);
+    const model = router.resolve(request.agentType, request.model);
+    const budgeted = this.applyBudget(provider.name, { ...request, model });
+
+    const response = await this.withRetries(
+      provider.name,
+      config,
+      request.timeoutMs,
+      (signal) => provider.chat(budgeted, signal),
+    );
+
+    this.chargeBudget(response);
+    this.recordUsage(response);
+    return response;
+  }
+
+  /**
+   * Single-prompt convenience wrapper over chat()
+   */
+  async complete(request: CompletionRequest): Promise<ChatResponse> {
+    const { prompt, systemPrompt, ...rest } = request;
+    return this.chat({
+      ...rest,
+      messages: [
+        ...(systemPrompt
+          ? [{ role: "system" as const, content: systemPrompt }]
+          : []),
+        { role: "user", content: prompt },
+      ],
+    });
+  }
+
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const workspaceId = request.workspaceId ?? getLLMRunContext()?.workspaceId;
+    if (workspaceId) {
+      await this.loadWorkspace(workspaceId);
+    }
+    const { provider, config } = this.resolve(workspaceId);
+    const model =
+      request.model || config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+
+    const response = await this.withRetries(
+      provider.name,
+      config,
+      request.timeoutMs,
+      (signal) => provider.embed({ ...request, model }, signal),
+    );
+
+    this.chargeBudget(response);
+    this.recordUsage(response);
+    return response;
+  }
+
+  /**
+   * Fit a chat request into the spending limit of the current agent run,
+   * switching to a cheaper model or shorter output when it would not fit
+   */
+  private applyBudget(
+    providerName: LLMProviderName,
+    request: ChatRequest & { model: string },
+  ): ChatRequest & { model: string } {
+    const scope = getBudgetScope();
+    if (!scope || !Number.isFinite(scope.maxCost)) {
+      return request;
+    }
+
+    const promptTokens = request.messages.reduce(
+      (sum, message) => sum + countTokens(message.content),
+      0,
+    );
+    const maxTokens = request.maxTokens ?? BUDGET_PLANNING_MAX_TOKENS;
+    const plan = planWithinBudget({
+      model: request.model,
+      promptTokens,
+      maxTokens,
+      remaining: scope.maxCost - scope.spent,
+      provider: providerName,
+    });
+
+    if (!plan) {
+      throw new BudgetExceededError(
+        `LLM call would exceed the remaining run budget of $${Math.max(0, scope.maxCost - scope.spent).toFixed(4)}`,
+        scope.decision,
+      );
+    }
+
+    if (plan.degraded || plan.maxTokens < maxTokens) {
+      logger.warn(
+        "Degrading LLM call to stay within budget",
+        {
+          agentType: request.agentType,
+          requestedModel: request.model,
+          model: plan.model,
+          maxTokens: plan.maxTokens,
+        },
+        "LLMClient",
+      );
+      return { ...request, model: plan.model, maxTokens: plan.maxTokens };
+    }
+
+    return request;
+  }
+
+  private chargeBudget(
+    response: Pick<ChatResponse, "model" | "provider" | "usage">,
+  ): void {
+    const scope = getBudgetScope();
+    if (!scope) {
+      return;
+    }
+
+    scope.spent += calculateLLMCost({
+      model: response.model,
+      promptTokens: response.usage.promptTokens,
+      completionTokens: response.usage.completionTokens,
+      provider: response.provider,
+    }).totalCost;
+  }
+
+  private recordUsage(
+    response: Pick<ChatResponse, "model" | "provider" | "usage">,
+  ): void {
+    getLLMRunContext()?.usage?.record(response);
+  }
+
+  private resolve(
+    workspaceId = getLLMRunContext()?.workspaceId,
+  ): ResolvedProvider {
+    if (workspaceId) {
+      const scoped = this.workspaceProviders.get(workspaceId);
+      if (scoped) {
+        return scoped;
+      }
+    }
+    return this.defaultProvider;
+  }
+
+  private resolveConfig(config: LLMProviderConfig): ResolvedProvider {
+    return {
+      provider: createLLMProvider(config),
+      router: new ModelRouter(config.models),
+      config,
+    };
+  }
+
+  private async withRetries<T>(
+    providerName: LLMProviderName,
+    config: LLMProviderConfig,
+    requestTimeoutMs: number | undefined,
+    fn: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> {
+    const maxRetries = config.maxRetries ?? DEFAULT_LLM_MAX_RETRIES;
+    const timeoutMs =
+      requestTimeoutMs ?? config.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS;
+
+    let lastError: LLMError | undefined;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        return await withTimeout(providerName, timeoutMs, fn);
+      } catch (error) {
+        lastError =
+          error instanceof LLMError
+            ? error
+            : new LLMError(
+                error instanceof Error ? error.message : "Unknown error",
+                providerName,
+              );
+
+        if (!lastError.retryable || attempt === maxRetries) {
+          break;
+        }
+
+        const delayMs = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+        logger.warn(
+          `LLM request failed, retrying in ${delayMs}ms`,
+          {
+            provider: providerName,
+            attempt: attempt + 1,
+            error: lastError.message,
+          },
+          "LLMClient",
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+async function withTimeout<T>(
+  providerName: LLMProviderName,
+  timeoutMs: number,
+  fn: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(
+        new LLMError(
+          `LLM request timed out after ${timeoutMs}ms`,
+          providerName,
+          true,
+        ),
+      );
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+  }
+}
+
+let sharedClient: LLMClient | null = null;
+
+/**
+ * Process-wide client shared by every agent, reading workspace provider
+ * settings from the database
+ */
+export function getLLMClient(): LLMClient {
+  if (!sharedClient) {
+    sharedClient = new LLMClient();
+    sharedClient.setWorkspaceConfigSource(workspaceLLMConfigSource());
+  }
+  return sharedClient;
+}
+
+/**
+ * Replace the shared client (primarily for tests)
+ */
+export function setLLMClient(client: LLMClient | null): void {
+  sharedClient = client;
+}
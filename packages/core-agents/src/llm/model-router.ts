@@ -0,0 +1,61 @@
+/**
+ * Model routing per agent type. Resolution order: explicit model on the
+ * request, workspace overrides, LLM_MODEL_<AGENT> environment variables,
+ * then these defaults.
+ */
+
+export const DEFAULT_CHAT_MODEL = "gpt-4";
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+export const DEFAULT_MODEL_ROUTES: Readonly<Record<string, string>> = {
+  content: "gpt-4",
+  seo: "gpt-4",
+  email: "gpt-4",
+  support: "gpt-4",
+  social: "gpt-4",
+  design: "gpt-4",
+  insight: "gpt-4",
+  ad: "gpt-4",
+  audit: "gpt-4",
+};
+
+export class ModelRouter {
+  private overrides: Record<string, string>;
+
+  constructor(
+    overrides: Record<string, string> = {},
+    private readonly fallbackModel: string = DEFAULT_CHAT_MODEL,
+  ) {
+    this.overrides = Object.fromEntries(
+      Object.entries(overrides).map(([k, v]) => [k.toLowerCase(), v]),
+    );
+  }
+
+  /**
+   * Resolve the model for a request. An explicit model always wins.
+   */
+  resolve(agentType?: string, explicitModel?: string): string {
+    if (explicitModel) {
+      return explicitModel;
+    }
+    if (!agentType) {
+      return this.fallbackModel;
+    }
+
+    const key = agentType.toLowerCase();
+    return (
+      this.overrides[key] ||
+      process.env[`LLM_MODEL_${key.toUpperCase()}`] ||
+      DEFAULT_MODEL_ROUTES[key] ||
+      this.fallbackModel
+    );
+  }
+
+  setRoute(agentType: string, model: string): void {
+    this.overrides[agentType.toLowerCase()] = model;
+  }
+
+  getRoutes(): Record<string, string> {
+    return { ...DEFAULT_MODEL_ROUTES, ...this.overrides };
+  }
+}
@@ -0,0 +1,168 @@
+import type {
+  ChatRequest,
+  ChatResponse,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  LLMProvider,
+  LLMProviderName,
+} from "../types";
+
+export const FIXTURE_EMBEDDING_DIMENSIONS = 64;
+
+export interface FixtureProviderOptions {
+  /**
+   * Canned responses. Keys are matched first against the request's agent
+   * type, then as case-insensitive substrings of the last user message.
+   */
+  fixtures?: Record<string, string>;
+}
+
+/**
+ * Deterministic offline provider. The same request always produces the
+ * same response, token counts and embeddings, so agent suites can run in
+ * tests and CI without network access.
+ */
+export class FixtureProvider implements LLMProvider {
+  public readonly name: LLMProviderName = "fixture";
+  private fixtures: Map<string, string>;
+  private calls: Array<ChatRequest & { model: string }> = [];
+
+  constructor(options: FixtureProviderOptions = {}) {
+    this.fixtures = new Map(Object.entries(options.fixtures ?? {}));
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  setFixture(key: string, response: string): void {
+    this.fixtures.set(key, response);
+  }
+
+  getCalls(): ReadonlyArray<ChatRequest & { model: string }> {
+    return this.calls;
+  }
+
+  reset(): void {
+    this.calls = [];
+  }
+
+  async chat(request: ChatRequest & { model: string }): Promise<ChatResponse> {
+    this.calls.push(request);
+
+    const prompt = request.messages.map((m) => m.content).join("\n");
+    const content = this.resolveFixture(request) ?? this.synthesize(request);
+    const completion =
+      request.maxTokens !== undefined
+        ? truncateToTokens(content, request.maxTokens)
+        : content;
+
+    const promptTokens = countTokens(prompt);
+    const completionTokens = countTokens(completion);
+
+    return {
+      content: completion,
+      model: request.model,
+      provider: this.name,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+      finishReason: "stop",
+    };
+  }
+
+  async embed(
+    request: EmbeddingRequest & { model: string },
+  ): Promise<EmbeddingResponse> {
+    const inputs = Array.isArray(request.input)
+      ? request.input
+      : [request.input];
+    const promptTokens = inputs.reduce((sum, i) => sum + countTokens(i), 0);
+
+    return {
+      embeddings: inputs.map((input) => fixtureEmbedding(input)),
+      model: request.model,
+      provider: this.name,
+      usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens },
+    };
+  }
+
+  private resolveFixture(request: ChatRequest): string | undefined {
+    if (request.agentType && this.fixtures.has(request.agentType)) {
+      return this.fixtures.get(request.agentType);
+    }
+
+    const lastUser = [...request.messages]
+      .reverse()
+      .find((m) => m.role === "user");
+    const text = lastUser?.content.toLowerCase() ?? "";
+
+    for (const [key, value] of this.fixtures) {
+      if (text.includes(key.toLowerCase())) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private synthesize(request: ChatRequest): string {
+    const lastUser = [...request.messages]
+      .reverse()
+      .find((m) => m.role === "user");
+    const digest = hashString(lastUser?.content ?? "").toString(16);
+    const agent = request.agentType ?? "generic";
+
+    return `[fixture:${agent}:${digest}] ${summarize(lastUser?.content ?? "")}`;
+  }
+}
+
+/**
+ * Rough token count (~4 characters per token), matching the heuristic
+ * used elsewhere when a provider does not report usage.
+ */
+export function countTokens(text: string): number {
+  return text.length === 0 ? 0 : Math.ceil(text.length / 4);
+}
+
+function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * 4;
+  return text.length > maxChars ? text.slice(0, maxChars) : text;
+}
+
+function summarize(text: string): string {
+  const firstLine = text.trim().split("\n")[0] ?? "";
+  return firstLine.length > 200 ? `${firstLine.slice(0, 200)}...` : firstLine;
+}
+
+function hashString(value: string, seed: number = 0): number {
+  // FNV-1a, 32 bit
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedding: each token is hashed into a
+ * bucket so texts sharing vocabulary end up with similar vectors.
+ */
+export function fixtureEmbedding(
+  text: string,
+  dimensions: number = FIXTURE_EMBEDDING_DIMENSIONS,
+): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+  for (const token of tokens) {
+    const bucket = hashString(token) % dimensions;
+    const sign = hashString(token, 1) % 2 === 0 ? 1 : -1;
+    vector[bucket] = (vector[bucket] ?? 0) + sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
@@ -0,0 +1,28 @@
+import type { LLMProviderName } from "../types";
+import { OpenAIProvider } from "./openai-provider";
+
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+export interface LocalProviderOptions {
+  baseURL?: string;
+  apiKey?: string;
+}
+
+/**
+ * Provider for self-hosted OpenAI-compatible endpoints (Ollama, vLLM,
+ * LM Studio, llama.cpp server). Most of these ignore the API key, so a
+ * placeholder is sent when none is configured.
+ */
+export class LocalProvider extends OpenAIProvider {
+  public override readonly name: LLMProviderName = "local";
+
+  constructor(options: LocalProviderOptions = {}) {
+    super({
+      apiKey: options.apiKey ?? process.env.LLM_LOCAL_API_KEY ?? "local",
+      baseURL:
+        options.baseURL ??
+        process.env.LLM_LOCAL_BASE_URL ??
+        DEFAULT_LOCAL_BASE_URL,
+    });
+  }
+}
@@ -0,0 +1,145 @@
+import OpenAI from "openai";
+import {
+  LLMError,
+  type ChatRequest,
+  type ChatResponse,
+  type EmbeddingRequest,
+  type EmbeddingResponse,
+  type LLMProvider,
+  type LLMProviderName,
+} from "../types";
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+/**
+ * Provider backed by the official OpenAI SDK. Also used for any
+ * OpenAI-compatible endpoint by passing a custom baseURL.
+ */
+export class OpenAIProvider implements LLMProvider {
+  public readonly name: LLMProviderName = "openai";
+  protected client: OpenAI | null = null;
+  protected readonly apiKey: string | undefined;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+
+    if (this.apiKey) {
+      this.client = new OpenAI({
+        apiKey: this.apiKey,
+        ...(options.baseURL ? { baseURL: options.baseURL } : {}),
+        // Retries are handled by LLMClient so they apply to every provider
+        maxRetries: 0,
+      });
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  async chat(
+    request: ChatRequest & { model: string },
+    signal?: AbortSignal,
+  ): Promise<ChatResponse> {
+    const client = this.requireClient();
+
+    try {
+      const response = await client.chat.completions.create(
+        {
+          model: request.model,
+          messages: request.messages,
+          ...(request.temperature !== undefined
+            ? { temperature: request.temperature }
+            : {}),
+          ...(request.maxTokens !== undefined
+            ? { max_tokens: request.maxTokens }
+            : {}),
+        },
+        signal ? { signal } : undefined,
+      );
+
+      const choice = response.choices[0];
+      const content = choice?.message?.content;
+      if (!content) {
+        throw new LLMError(`No response from ${this.name}`, this.name, true);
+      }
+
+      return {
+        content,
+        model: response.model || request.model,
+        provider: this.name,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens ?? 0,
+          completionTokens: response.usage?.completion_tokens ?? 0,
+          totalTokens: response.usage?.total_tokens ?? 0,
+        },
+        ...(choice?.finish_reason
+          ? { finishReason: choice.finish_reason }
+          : {}),
+      };
+    } catch (error) {
+      throw this.toLLMError(error);
+    }
+  }
+
+  async embed(
+    request: EmbeddingRequest & { model: string },
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse> {
+    const client = this.requireClient();
+
+    try {
+      const response = await client.embeddings.create(
+        { model: request.model, input: request.input },
+        signal ? { signal } : undefined,
+      );
+
+      return {
+        embeddings: response.data
+          .sort((a, b) => a.index - b.index)
+          .map((item) => item.embedding),
+        model: response.model || request.model,
+        provider: this.name,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens ?? 0,
+          completionTokens: 0,
+          totalTokens: response.usage?.total_tokens ?? 0,
+        },
+      };
+    } catch (error) {
+      throw this.toLLMError(error);
+    }
+  }
+
+  private requireClient(): OpenAI {
+    if (!this.client) {
+      throw new LLMError(
+        `${this.name} provider is not configured (missing API key)`,
+        this.name,
+      );
+    }
+    return this.client;
+  }
+
+  private toLLMError(error: unknown): LLMError {
+    if (error instanceof LLMError) {
+      return error;
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new LLMError(error.message, this.name, true);
+    }
+    if (error instanceof OpenAI.APIError) {
+      const status = error.status;
+      const retryable = status === undefined || status === 429 || status >= 500;
+      return new LLMError(error.message, this.name, retryable, status);
+    }
+    return new LLMError(
+      error instanceof Error ? error.message : "Unknown provider error",
+      this.name,
+      false,
+    );
+  }
+}
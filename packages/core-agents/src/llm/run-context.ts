@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { LLMUsageRecorder } from "./runLLMTask";
+
+/**
+ * The agent run an LLM call is made for. Agents set it around each run so
+ * every call made inside uses the run's workspace provider and models, and
+ * is billed to the run, without threading either through every agent
+ * method.
+ */
+export interface LLMRunContext {
+  workspaceId: string;
+  /** Receives the provider usage of every call, for billing the run */
+  usage?: LLMUsageRecorder;
+}
+
+const runContextStorage = new AsyncLocalStorage<LLMRunContext>();
+
+export function getLLMRunContext(): LLMRunContext | undefined {
+  return runContextStorage.getStore();
+}
+
+/**
+ * Run fn with every LLM call it makes attributed to the given run
+ */
+export function runWithLLMContext<T>(
+  context: LLMRunContext,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return runContextStorage.run(context, fn);
+}
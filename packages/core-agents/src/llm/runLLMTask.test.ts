@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+import { LLMClient } from "./llm-client";
+import { runWithLLMContext } from "./run-context";
+import {
+  createLLMUsageRecorder,
+  logAgentUsage,
+  summarizeLLMUsage,
+  type LLMCallUsage,
+} from "./runLLMTask";
+
+describe("LLM usage billing", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let client: LLMClient;
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", { id: "ws_1", name: "Acme", slug: "acme" });
+    db.seed("user", { id: "user_1", email: "owner@example.com" });
+    db.seed("campaign", {
+      id: "campaign_1",
+      userId: "user_1",
+      workspaceId: "ws_1",
+      name: "Launch",
+      type: "SOCIAL_MEDIA",
+    });
+    client = new LLMClient({ provider: "fixture", maxRetries: 0 });
+  });
+
+  it("records every call made in the run", async () => {
+    const calls: LLMCallUsage[] = [];
+
+    await runWithLLMContext(
+      { workspaceId: "ws_1", usage: createLLMUsageRecorder(calls) },
+      async () => {
+        await client.complete({ agentType: "content", prompt: "Neon post" });
+        await client.embed({ input: "neon signs" });
+      },
+    );
+    await client.complete({ agentType: "content", prompt: "Outside" });
+
+    expect(calls).toHaveLength(2);
+    expect(calls[0]).toMatchObject({ model: "gpt-4", provider: "fixture" });
+    expect(calls[0]!.promptTokens).toBeGreaterThan(0);
+    expect(summarizeLLMUsage(calls).tokensUsed).toBe(
+      calls.reduce((sum, c) => sum + c.promptTokens + c.completionTokens, 0),
+    );
+  });
+
+  it("bills each call under the agent's billing type", async () => {
+    const calls: LLMCallUsage[] = [];
+    createLLMUsageRecorder(calls).record({
+      model: "gpt-4o-mini",
+      provider: "openai",
+      usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+    });
+
+    await logAgentUsage(
+      {
+        agentType: "email",
+        workspaceId: "ws_1",
+        campaignId: "campaign_1",
+        task: "generate_sequence",
+      },
+      calls,
+      120,
+      db.prisma,
+    );
+
+    const [log] = db.tables.billingLog!;
+    expect(log).toMatchObject({
+      workspaceId: "ws_1",
+      campaignId: "campaign_1",
+      agentType: "EMAIL_MARKETING",
+      model: "gpt-4o-mini",
+      provider: "openai",
+      promptTokens: 1000,
+      completionTokens: 500,
+      tokens: 1500,
+    });
+    expect(log!.inputCost).toBeGreaterThan(0);
+    expect(log!.priceVersion).toBeTruthy();
+    expect(db.tables.campaignCost![0]!.totalCost).toBeCloseTo(
+      calls[0]!.totalCost,
+    );
+    expect(db.tables.monthlyBudget![0]).toMatchObject({ workspaceId: "ws_1" });
+  });
+
+  it("only adds budget totals for agents without a billing type", async () => {
+    const calls: LLMCallUsage[] = [];
+    createLLMUsageRecorder(calls).record({
+      model: "gpt-4o-mini",
+      usage: { promptTokens: 100, completionTokens: 100, totalTokens: 200 },
+    });
+
+    await logAgentUsage(
+      { agentType: "whatsapp", workspaceId: "ws_1" },
+      calls,
+      10,
+      db.prisma,
+    );
+
+    expect(db.tables.billingLog).toHaveLength(0);
+    expect(db.tables.campaignCost).toHaveLength(0);
+    expect(db.tables.monthlyBudget![0]!.totalSpent).toBeCloseTo(
+      calls[0]!.totalCost,
+    );
+  });
+});
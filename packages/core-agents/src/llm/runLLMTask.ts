@@ -1,14 +1,68 @@
 import { logSuccess, logError } from "../../../utils/src/agentLogger";
-import { PrismaClient } from "@prisma/client";
+import { calculateLLMCost, logger, type LLMCostBreakdown } from "@neon/utils";
+import {
+  db,
+  DEFAULT_WORKSPACE_ID,
+  type AgentType,
+  type PrismaClient,
+} from "@neon/data-model";
+import { MAX_MONTHLY_BUDGET } from "../utils/cost-tracker";
+import { estimateLLMCost, withBudgetReservation } from "./budget";
+import { getLLMClient } from "./llm-client";
+import { getLLMRunContext, runWithLLMContext } from "./run-context";
+import type { ChatResponse } from "./types";
 
-const prisma = new PrismaClient();
+// BillingLog agent type of each agent's `type`
+const BILLING_AGENT_TYPES: Record<string, AgentType> = {
+  content: "CONTENT",
+  seo: "SEO",
+  email: "EMAIL_MARKETING",
+  social: "SOCIAL_POSTING",
+  support: "CUSTOMER_SUPPORT",
+  ad: "AD",
+  outreach: "OUTREACH",
+  trend: "TREND",
+  insight: "INSIGHT",
+  design: "DESIGN",
+  brand_voice: "BRAND_VOICE",
+  "pattern-miner": "PATTERN_MINER",
+  "segment-analyzer": "SEGMENT_ANALYZER",
+};
 
 export interface LLMTaskOptions {
   agentType: string;
   campaignId: string;
+  // Workspace billed for the task and whose budget it runs against
+  workspaceId?: string;
   model?: string;
   maxTokens?: number;
   temperature?: number;
+  task?: string;
+  executionId?: string;
+  // Prompt size used for the pre-flight budget estimate
+  estimatedPromptTokens?: number;
+  // Let the budget gate run the task on a cheaper model or shorter output
+  // instead of refusing it when the full estimate does not fit
+  allowDegrade?: boolean;
+}
+
+/**
+ * Who a batch of provider calls is billed to
+ */
+export interface LLMUsageLogOptions {
+  /** Agent `type` (e.g. "content") or BillingLog agent type */
+  agentType: string;
+  campaignId?: string;
+  workspaceId?: string;
+  task?: string;
+  executionId?: string;
+}
+
+/**
+ * Usage of a single provider call, priced with the model price table
+ */
+export interface LLMCallUsage extends LLMCostBreakdown {
+  provider?: string;
 }
 
 export interface LLMTaskResult<T = any> {
@@ -16,69 +70,170 @@ export interface LLMTaskResult<T = any> {
   data?: T;
   error?: string;
   tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
   cost: number;
+  usage: LLMCallUsage[];
   metadata?: Record<string, any>;
 }
 
 /**
- * Calculate cost based on tokens used and agent type
+ * Collects the provider calls of a task or agent run so each is billed
+ * with the token counts the provider actually reported. The LLM client
+ * records every call made inside runWithLLMContext; record() directly only
+ * for provider calls made without it.
  */
-const calculateCost = (tokensUsed: number, agentType: string): number => {
-  const costPerToken = {
-    CONTENT: 0.002,
-    SEO: 0.001,
-    EMAIL_MARKETING: 0.0015,
-    SOCIAL_POSTING: 0.0015,
-    CUSTOMER_SUPPORT: 0.001,
-    AD: 0.003,
-    OUTREACH: 0.002,
-    TREND: 0.0025,
-    INSIGHT: 0.003,
-    DESIGN: 0.004,
-    BRAND_VOICE: 0.002,
-  };
+export interface LLMUsageRecorder {
+  record(
+    response: Pick<ChatResponse, "model" | "usage"> & {
+      provider?: string;
+    },
+  ): void;
+}
 
+const isProviderResponse = (
+  value: unknown,
+): value is Pick<ChatResponse, "model" | "usage" | "provider"> => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Partial<ChatResponse>;
   return (
-    (costPerToken[agentType as keyof typeof costPerToken] || 0.002) * tokensUsed
+    typeof candidate.model === "string" &&
+    typeof candidate.usage?.promptTokens === "number" &&
+    typeof candidate.usage?.completionTokens === "number"
   );
 };
 
 /**
- * Log agent usage to billing system
+ * Create a recorder that prices each recorded response into calls
  */
-const logAgentUsage = async (
-  agentType: string,
-  campaignId: string,
-  tokensUsed: number,
-  cost: number,
+export function createLLMUsageRecorder(
+  calls: LLMCallUsage[],
+): LLMUsageRecorder {
+  return {
+    record(response) {
+      calls.push({
+        ...calculateLLMCost({
+          model: response.model,
+          promptTokens: response.usage.promptTokens,
+          completionTokens: response.usage.completionTokens,
+          ...(response.provider ? { provider: response.provider } : {}),
+        }),
+        ...(response.provider ? { provider: response.provider } : {}),
+      });
+    },
+  };
+}
+
+/**
+ * Token and cost totals of recorded calls
+ */
+export function summarizeLLMUsage(calls: LLMCallUsage[]): {
+  tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+} {
+  const promptTokens = calls.reduce((sum, c) => sum + c.promptTokens, 0);
+  const completionTokens = calls.reduce(
+    (sum, c) => sum + c.completionTokens,
+    0,
+  );
+  return {
+    tokensUsed: promptTokens + completionTokens,
+    promptTokens,
+    completionTokens,
+    cost: calls.reduce((sum, c) => sum + c.totalCost, 0),
+  };
+}
+
+/**
+ * Log agent usage to billing system, one BillingLog row per provider call,
+ * and add its cost to the campaign and monthly totals
+ */
+export const logAgentUsage = async (
+  options: LLMUsageLogOptions,
+  calls: LLMCallUsage[],
+  executionTime: number,
+  prisma: PrismaClient = db,
 ): Promise<void> => {
+  const {
+    campaignId,
+    task,
+    executionId,
+    workspaceId = DEFAULT_WORKSPACE_ID,
+  } = options;
+  const { cost: totalCost } = summarizeLLMUsage(calls);
+  const agentType =
+    BILLING_AGENT_TYPES[options.agentType] ??
+    Object.values(BILLING_AGENT_TYPES).find(
+      (type) => type === options.agentType,
+    );
+
   try {
-    await prisma.billingLog.create({
-      data: {
-        campaignId,
-        agentType,
-        tokensUsed,
-        cost,
-        metadata: {
-          costPerToken: cost / tokensUsed,
-          timestamp: new Date().toISOString(),
+    if (agentType) {
+      for (const call of calls) {
+        await prisma.billingLog.create({
+          data: {
+            workspaceId,
+            campaignId: campaignId ?? null,
+            agentType,
+            tokens: call.totalTokens,
+            cost: call.totalCost,
+            task: task ?? null,
+            executionId: executionId ?? null,
+            executionTime,
+            model: call.model,
+            provider: call.provider ?? null,
+            promptTokens: call.promptTokens,
+            completionTokens: call.completionTokens,
+            inputCost: call.inputCost,
+            outputCost: call.outputCost,
+            priceVersion: call.priceVersion,
+            metadata: {
+              matchedModel: call.matchedModel,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        });
+      }
+    } else {
+      logger.warn(
+        "No billing agent type for agent; LLM calls added to budget totals only",
+        { agentType: options.agentType, calls: calls.length, totalCost },
+        "LLMUsage",
+      );
+    }
+
+    const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
+
+    if (campaignId) {
+      await prisma.campaignCost.upsert({
+        where: { campaignId },
+        update: {
+          totalCost: { increment: totalCost },
+          currentMonth,
         },
-      },
-    });
+        create: {
+          campaignId,
+          totalCost,
+          currentMonth,
+        },
+      });
+    }
 
     // Update monthly budget spent amount
-    const currentMonth = new Date().toISOString().slice(0, 7); // YYYY-MM format
     await prisma.monthlyBudget.upsert({
-      where: { month: currentMonth },
+      where: { workspaceId_month: { workspaceId, month: currentMonth } },
       update: {
-        spent: {
-          increment: cost,
+        totalSpent: {
+          increment: totalCost,
         },
       },
       create: {
+        workspaceId,
         month: currentMonth,
-        amount: 1000.0, // Default budget
-        spent: cost,
+        totalBudget: MAX_MONTHLY_BUDGET,
+        totalSpent: totalCost,
       },
     });
   } catch (error) {
@@ -88,27 +243,68 @@ const logAgentUsage = async (
 };
 
 /**
- * Run an LLM task with automatic usage logging and cost tracking
+ * Run an LLM task with automatic usage logging and cost tracking.
+ *
+ * Calls the task makes through the LLM client are recorded automatically
+ * and use the task's workspace; the task receives the recorder for
+ * provider calls made without the client. A task that records nothing and
+ * returns a provider response has that response recorded.
+ *
+ * The estimated cost is reserved against the campaign and monthly
+ * budgets first; a task that would exceed them is refused without being
+ * run, or degraded when allowDegrade is not false.
  */
 export async function runLLMTask<T = any>(
-  taskFn: () => Promise<T>,
+  taskFn: (usage: LLMUsageRecorder) => Promise<T>,
   options: LLMTaskOptions,
 ): Promise<LLMTaskResult<T>> {
   const startTime = Date.now();
   const { agentType, campaignId } = options;
+  const calls: LLMCallUsage[] = [];
+  const recorder = createLLMUsageRecorder(calls);
+  const workspaceId =
+    options.workspaceId ??
+    getLLMRunContext()?.workspaceId ??
+    DEFAULT_WORKSPACE_ID;
 
   try {
-    // Execute the LLM task
-    const result = await taskFn();
+    const llm = getLLMClient();
+    await llm.loadWorkspace(workspaceId);
+    const estimatedCost = estimateLLMCost({
+      model: options.model ?? llm.resolveModel(agentType, workspaceId),
+      promptTokens: options.estimatedPromptTokens,
+      maxTokens: options.maxTokens,
+      provider: llm.getProvider(workspaceId).name,
+    });
+
+    // Execute the LLM task within its budget reservation
+    const result = await withBudgetReservation(
+      {
+        agentType,
+        workspaceId,
+        campaignId,
+        estimatedCost,
+        task: options.task,
+        allowDegrade: options.allowDegrade ?? true,
+      },
+      () =>
+        runWithLLMContext({ workspaceId, usage: recorder }, () =>
+          taskFn(recorder),
+        ),
+    );
     const executionTime = Date.now() - startTime;
 
-    // Estimate tokens used (this is a rough estimate - in real implementation,
-    // you would get this from the actual LLM API response)
-    const tokensUsed = Math.max(100, Math.floor(executionTime / 10));
-    const cost = calculateCost(tokensUsed, agentType);
+    if (calls.length === 0 && isProviderResponse(result)) {
+      recorder.record(result);
+    }
+
+    const { tokensUsed, promptTokens, completionTokens, cost } =
+      summarizeLLMUsage(calls);
 
     // Log usage to billing system
-    await logAgentUsage(agentType, campaignId, tokensUsed, cost);
+    if (calls.length > 0) {
+      await logAgentUsage({ ...options, workspaceId }, calls, executionTime);
+    }
 
     // Log success
     await logSuccess(
@@ -117,8 +313,11 @@ export async function runLLMTask<T = any>(
       {
         campaignId,
         tokensUsed,
+        promptTokens,
+        completionTokens,
         cost,
         executionTime,
+        usageReported: calls.length > 0,
       },
       executionTime,
     );
@@ -127,10 +326,14 @@ export async function runLLMTask<T = any>(
       success: true,
       data: result,
       tokensUsed,
+      promptTokens,
+      completionTokens,
       cost,
+      usage: calls,
       metadata: {
         executionTime,
-        costPerToken: cost / tokensUsed,
+        models: Array.from(new Set(calls.map((c) => c.model))),
+        priceVersion: calls[0]?.priceVersion,
         timestamp: new Date().toISOString(),
       },
     };
@@ -139,6 +342,11 @@ export async function runLLMTask<T = any>(
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
 
+    // Calls that completed before the failure were still billed by the provider
+    if (calls.length > 0) {
+      await logAgentUsage({ ...options, workspaceId }, calls, executionTime);
+    }
+
     // Log error
     await logError(agentType as any, "llm_task_execution", errorMessage, {
       campaignId,
@@ -148,8 +356,8 @@ export async function runLLMTask<T = any>(
     return {
       success: false,
       error: errorMessage,
-      tokensUsed: 0,
-      cost: 0,
+      ...summarizeLLMUsage(calls),
+      usage: calls,
       metadata: {
         executionTime,
         timestamp: new Date().toISOString(),
@@ -164,7 +372,7 @@ export async function runLLMTask<T = any>(
 export async function withUsageLogging<T>(
   agentType: string,
   campaignId: string,
-  executionFn: () => Promise<T>,
+  executionFn: (usage: LLMUsageRecorder) => Promise<T>,
 ): Promise<LLMTaskResult<T>> {
   return runLLMTask(executionFn, { agentType, campaignId });
 }
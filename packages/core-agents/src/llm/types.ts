@@ -0,0 +1,102 @@
+/**
+ * Provider-agnostic LLM types shared by every agent.
+ */
+
+export type LLMProviderName = "openai" | "local" | "fixture";
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  /** Agent type used for model routing (e.g. "content", "seo") */
+  agentType?: string;
+  /** Explicit model; overrides routing when set */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Workspace whose provider configuration should be used */
+  workspaceId?: string;
+  timeoutMs?: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  model: string;
+  provider: LLMProviderName;
+  usage: LLMUsage;
+  finishReason?: string;
+}
+
+export interface CompletionRequest extends Omit<ChatRequest, "messages"> {
+  prompt: string;
+  systemPrompt?: string;
+}
+
+export interface EmbeddingRequest {
+  input: string | string[];
+  model?: string;
+  agentType?: string;
+  workspaceId?: string;
+  timeoutMs?: number;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][];
+  model: string;
+  provider: LLMProviderName;
+  usage: LLMUsage;
+}
+
+/**
+ * A concrete backend capable of serving chat and embedding requests.
+ * Providers are stateless with respect to retries and timeouts; those
+ * are applied by LLMClient.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  isAvailable(): boolean;
+  chat(
+    request: ChatRequest & { model: string },
+    signal?: AbortSignal,
+  ): Promise<ChatResponse>;
+  embed(
+    request: EmbeddingRequest & { model: string },
+    signal?: AbortSignal,
+  ): Promise<EmbeddingResponse>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  apiKey?: string;
+  baseURL?: string;
+  /** Per agent type model overrides, merged over the default routes */
+  models?: Record<string, string>;
+  embeddingModel?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  /** Canned fixture responses keyed by agent type or prompt substring */
+  fixtures?: Record<string, string>;
+}
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: LLMProviderName,
+    public readonly retryable: boolean = false,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "LLMError";
+  }
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { db, type PrismaClient } from "@neon/data-model";
+import type { LLMProviderConfig } from "./types";
+
+/**
+ * Provider settings a workspace can store in Workspace.llmConfig. API keys
+ * are not part of it; providers read theirs from the environment.
+ */
+export const WorkspaceLLMConfigSchema = z.object({
+  provider: z.enum(["openai", "local"]),
+  baseURL: z.string().url().optional(),
+  /** Per agent type model overrides, merged over the default routes */
+  models: z.record(z.string().min(1)).optional(),
+  embeddingModel: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).max(5).optional(),
+});
+
+export type WorkspaceLLMConfig = z.infer<typeof WorkspaceLLMConfigSchema>;
+
+/**
+ * Looks up the provider configuration of one workspace; null when the
+ * workspace uses the default provider
+ */
+export type WorkspaceLLMConfigSource = (
+  workspaceId: string,
+) => Promise<LLMProviderConfig | null>;
+
+/**
+ * Read workspace provider settings from the database. Invalid stored
+ * settings are ignored so the workspace falls back to the default provider.
+ */
+export function workspaceLLMConfigSource(
+  prisma: PrismaClient = db,
+): WorkspaceLLMConfigSource {
+  return async (workspaceId) => {
+    const workspace = await prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { llmConfig: true },
+    });
+
+    const parsed = WorkspaceLLMConfigSchema.safeParse(workspace?.llmConfig);
+    return parsed.success ? (parsed.data as LLMProviderConfig) : null;
+  };
+}
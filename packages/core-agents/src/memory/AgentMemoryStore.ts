@@ -1,4 +1,4 @@
-import { PrismaClient } from "@neon/data-model";
+import { DEFAULT_WORKSPACE_ID, PrismaClient } from "@neon/data-model";
 
 export interface MemoryEntry {
   id: string;
@@ -49,11 +49,29 @@ export interface MemoryMetrics {
   successTrend: Array<{ date: string; successRate: number }>;
 }
 
+/**
+ * Agent run history for a single workspace. Every read and write is
+ * filtered by the workspace the store was created for, so memories never
+ * cross workspace boundaries.
+ */
 export class AgentMemoryStore {
   private prisma: PrismaClient;
+  readonly workspaceId: string;
 
-  constructor(prisma?: PrismaClient) {
+  constructor(
+    prisma?: PrismaClient,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ) {
     this.prisma = prisma || new PrismaClient();
+    this.workspaceId = workspaceId;
+  }
+
+  /**
+   * Get a store bound to another workspace sharing the same client
+   */
+  forWorkspace(workspaceId: string): AgentMemoryStore {
+    if (workspaceId === this.workspaceId) return this;
+    return new AgentMemoryStore(this.prisma, workspaceId);
   }
 
   /**
@@ -77,6 +95,7 @@ export class AgentMemoryStore {
   ): Promise<MemoryEntry> {
     const entry = await this.prisma.agentMemory.create({
       data: {
+        workspaceId: this.workspaceId,
         agentId,
         sessionId,
         userId: metadata?.userId,
@@ -112,7 +131,7 @@ export class AgentMemoryStore {
       sortOrder = "desc",
     } = options;
 
-    const where: any = {};
+    const where: any = { workspaceId: this.workspaceId };
 
     if (agentId) where.agentId = agentId;
     if (sessionId) where.sessionId = sessionId;
@@ -177,6 +196,7 @@ export class AgentMemoryStore {
   ): Promise<MemoryEntry[]> {
     const entries = await this.prisma.agentMemory.findMany({
       where: {
+        workspaceId: this.workspaceId,
         agentId,
         cost: {
           gte: costThreshold,
@@ -256,7 +276,11 @@ export class AgentMemoryStore {
     const successTrend = this.generateSuccessTrend(entries, days);
 
     // Calculate overall trend (simplified logic)
-    const trend = this.calculateOverallTrend(costTrend, performanceTrend, successTrend);
+    const trend = this.calculateOverallTrend(
+      costTrend,
+      performanceTrend,
+      successTrend,
+    );
 
     // Get last run timestamp
     const lastRun = entries.length > 0 ? entries[0].timestamp : null;
@@ -293,6 +317,7 @@ export class AgentMemoryStore {
     // Get all unique agent IDs from recent memory
     const agentIds = await this.prisma.agentMemory.findMany({
       where: {
+        workspaceId: this.workspaceId,
         timestamp: {
           gte: startDate,
         },
@@ -330,6 +355,7 @@ export class AgentMemoryStore {
 
     const result = await this.prisma.agentMemory.deleteMany({
       where: {
+        workspaceId: this.workspaceId,
         timestamp: {
           lt: cutoffDate,
         },
@@ -347,8 +373,9 @@ export class AgentMemoryStore {
     score: number,
     metadata?: any,
   ): Promise<void> {
-    await this.prisma.agentMemory.update({
-      where: { id: memoryId },
+    // updateMany so entries from other workspaces are left untouched
+    await this.prisma.agentMemory.updateMany({
+      where: { id: memoryId, workspaceId: this.workspaceId },
       data: {
         score,
         metadata: metadata ? { ...metadata } : undefined,
@@ -378,8 +405,6 @@ export class AgentMemoryStore {
     };
   }
 
-
-
   /**
    * Generate success rate trend
    */
@@ -498,14 +523,19 @@ export class AgentMemoryStore {
     const costStart = costTrend[0].cost;
     const costEnd = costTrend[costTrend.length - 1].cost;
     const performanceStart = performanceTrend[0].executionTime;
-    const performanceEnd = performanceTrend[performanceTrend.length - 1].executionTime;
+    const performanceEnd =
+      performanceTrend[performanceTrend.length - 1].executionTime;
     const successStart = successTrend[0].successRate;
     const successEnd = successTrend[successTrend.length - 1].successRate;
 
     // Calculate trend scores (positive = improving, negative = declining)
     const costScore = costStart > 0 ? (costStart - costEnd) / costStart : 0; // Lower cost is better
-    const performanceScore = performanceStart > 0 ? (performanceStart - performanceEnd) / performanceStart : 0; // Lower time is better
-    const successScore = successStart > 0 ? (successEnd - successStart) / successStart : 0; // Higher success is better
+    const performanceScore =
+      performanceStart > 0
+        ? (performanceStart - performanceEnd) / performanceStart
+        : 0; // Lower time is better
+    const successScore =
+      successStart > 0 ? (successEnd - successStart) / successStart : 0; // Higher success is better
 
     const overallScore = (costScore + performanceScore + successScore) / 3;
 
@@ -1,4 +1,5 @@
 import { PrismaClient } from "@prisma/client";
+import { DEFAULT_WORKSPACE_ID } from "@neon/data-model";
 
 export interface CampaignPattern {
   id: string;
@@ -43,8 +44,12 @@ export class CrossCampaignMemoryStore {
   private readonly SIMILARITY_THRESHOLD = 0.75;
   private readonly PATTERN_SCORE_THRESHOLD = 85;
 
-  constructor() {
+  // Patterns and the executions they are mined from belong to one workspace
+  readonly workspaceId: string;
+
+  constructor(workspaceId: string = DEFAULT_WORKSPACE_ID) {
     this.prisma = new PrismaClient();
+    this.workspaceId = workspaceId;
   }
 
   // Aggregate campaign performance across multiple runs
@@ -58,6 +63,7 @@ export class CrossCampaignMemoryStore {
       const executions = await this.prisma.agentExecution.findMany({
         where: {
           campaignId: { in: campaignIds },
+          campaign: { workspaceId: this.workspaceId },
           status: "COMPLETED",
           performance: { gt: 0 },
         },
@@ -126,6 +132,7 @@ export class CrossCampaignMemoryStore {
         where: {
           campaign: {
             type: goalType as any,
+            workspaceId: this.workspaceId,
           },
           status: "COMPLETED",
           performance: { gt: 0 },
@@ -179,6 +186,7 @@ export class CrossCampaignMemoryStore {
         where: {
           status: "COMPLETED",
           confidence: { gt: 95 },
+          campaign: { workspaceId: this.workspaceId },
         },
       });
 
@@ -240,6 +248,7 @@ export class CrossCampaignMemoryStore {
     try {
       const stored = await this.prisma.crossCampaignMemory.create({
         data: {
+          workspaceId: this.workspaceId,
           summary: pattern.summary,
           winningVariants: pattern.winningVariants,
           patternScore: pattern.patternScore,
@@ -259,6 +268,7 @@ export class CrossCampaignMemoryStore {
     try {
       const patterns = await this.prisma.crossCampaignMemory.findMany({
         where: {
+          workspaceId: this.workspaceId,
           patternScore: { gte: minScore },
         },
         orderBy: {
@@ -289,6 +299,7 @@ export class CrossCampaignMemoryStore {
 
       const patterns = await this.prisma.crossCampaignMemory.findMany({
         where: {
+          workspaceId: this.workspaceId,
           createdAt: { gte: cutoffDate },
           patternScore: { gte: this.PATTERN_SCORE_THRESHOLD },
         },
@@ -517,6 +528,7 @@ export class CrossCampaignMemoryStore {
 
       const result = await this.prisma.crossCampaignMemory.deleteMany({
         where: {
+          workspaceId: this.workspaceId,
           createdAt: { lt: cutoffDate },
           patternScore: { lt: 60 }, // Only delete low-performing old patterns
         },
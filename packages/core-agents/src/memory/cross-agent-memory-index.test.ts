@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { AgentType } from "@neon/data-model";
+import { LLMClient } from "../llm";
+import { CrossAgentMemoryIndex } from "./cross-agent-memory-index";
+import { LocalMemoryVectorStore } from "./memory-vector-store";
+
+jest.mock("./CrossCampaignMemoryStore", () => ({
+  CrossCampaignMemoryStore: jest.fn().mockImplementation(() => ({
+    storePattern: jest.fn(),
+  })),
+}));
+
+const performance = { executionTime: 1200, tokensUsed: 300, cost: 0.002 };
+
+describe("CrossAgentMemoryIndex", () => {
+  let prisma: any;
+  let vectorStore: LocalMemoryVectorStore;
+  let index: CrossAgentMemoryIndex;
+  let rows: any[];
+
+  beforeEach(() => {
+    rows = [];
+    prisma = {
+      agentMemory: {
+        create: jest.fn(async ({ data }: any) => {
+          const row = {
+            id: `mem-${rows.length + 1}`,
+            timestamp: new Date(),
+            score: null,
+            userId: null,
+            errorMessage: null,
+            ...data,
+          };
+          rows.push(row);
+          return row;
+        }),
+        findMany: jest.fn(async () => rows),
+        findFirst: jest.fn(
+          async ({ where }: any) =>
+            rows.find((row) => row.id === where.id) ?? null,
+        ),
+      },
+    };
+    vectorStore = new LocalMemoryVectorStore(null);
+    index = new CrossAgentMemoryIndex(prisma, {
+      workspaceId: "ws-1",
+      vectorStore,
+      llm: new LLMClient({ provider: "fixture", maxRetries: 0 }),
+    });
+  });
+
+  const ingest = (
+    agentType: AgentType,
+    task: string,
+    extra: { campaignId?: string } = {},
+  ) =>
+    index.ingestMemory({
+      agentId: agentType.toLowerCase(),
+      agentType,
+      sessionId: "session-1",
+      input: { task },
+      output: { result: `Done: ${task}` },
+      outcome: "SUCCESS",
+      performance,
+      ...extra,
+    });
+
+  it("should store the run and embed it under the row id", async () => {
+    const memoryId = await ingest(
+      AgentType.CONTENT,
+      "Instagram caption for neon sign launch",
+      { campaignId: "spring" },
+    );
+
+    expect(memoryId).toBe("mem-1");
+    expect(prisma.agentMemory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        workspaceId: "ws-1",
+        metadata: expect.objectContaining({
+          agentType: AgentType.CONTENT,
+          campaignId: "spring",
+          outcome: "SUCCESS",
+        }),
+      }),
+    });
+
+    const [match] = await index.searchSimilar("neon sign instagram caption");
+    expect(match!.memoryId).toBe("mem-1");
+    expect(match!.campaignId).toBe("spring");
+    expect(match!.content).toContain("Instagram caption");
+  });
+
+  it("should filter similarity search by agent type and campaign", async () => {
+    await ingest(AgentType.CONTENT, "Neon sign blog post", {
+      campaignId: "spring",
+    });
+    await ingest(AgentType.SEO, "Neon sign blog post meta tags");
+    await ingest(AgentType.CONTENT, "Neon sign blog post for autumn", {
+      campaignId: "autumn",
+    });
+
+    const seo = await index.searchSimilar("neon sign blog post", {
+      agentTypes: [AgentType.SEO],
+    });
+    expect(seo.map((match) => match.memoryId)).toEqual(["mem-2"]);
+
+    const autumn = await index.searchSimilar("neon sign blog post", {
+      campaignId: "autumn",
+    });
+    expect(autumn.map((match) => match.memoryId)).toEqual(["mem-3"]);
+
+    const future = await index.searchSimilar("neon sign blog post", {
+      timeRange: { start: new Date(Date.now() + 60000) },
+    });
+    expect(future).toEqual([]);
+  });
+
+  it("should give agents the most relevant past runs as context", async () => {
+    await ingest(AgentType.CONTENT, "Quarterly tax spreadsheet summary");
+    await ingest(AgentType.CONTENT, "Instagram post announcing neon signs");
+    await ingest(AgentType.SEO, "Instagram post announcing neon signs");
+
+    const prompts = await index.getContextualPrompts(
+      "instagram post",
+      AgentType.CONTENT,
+      { task: "announce our new neon signs" },
+    );
+
+    expect(prompts.relatedExperiences).toHaveLength(2);
+    expect(prompts.relatedExperiences[0]).toContain(
+      "Instagram post announcing neon signs",
+    );
+    expect(prompts.relatedExperiences.join()).not.toContain("SEO");
+  });
+
+  it("should backfill memories that have no embedding", async () => {
+    await ingest(AgentType.CONTENT, "Neon sign launch email");
+    rows.push({
+      id: "legacy-1",
+      workspaceId: "ws-1",
+      agentId: "email",
+      sessionId: "session-0",
+      input: { subject: "Spring neon sale" },
+      output: { sent: 1200 },
+      timestamp: new Date(),
+      tokensUsed: 0,
+      cost: 0,
+      executionTime: 0,
+      success: true,
+      metadata: null,
+    });
+
+    await expect(index.backfillEmbeddings()).resolves.toBe(1);
+
+    const [match] = await index.searchSimilar("spring neon sale");
+    expect(match!.memoryId).toBe("legacy-1");
+  });
+});
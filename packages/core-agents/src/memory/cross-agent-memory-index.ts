@@ -3,12 +3,23 @@
  * Provides contextual knowledge retrieval across all agents for Multi-Agent Reasoning Mesh
  */
 
-import { PrismaClient } from "@prisma/client";
-import { AgentType } from "@prisma/client";
+import {
+  AgentType,
+  db,
+  DEFAULT_WORKSPACE_ID,
+  type PrismaClient,
+} from "@neon/data-model";
+import { getLLMClient, type LLMClient } from "../llm";
 import { CrossCampaignMemoryStore } from "./CrossCampaignMemoryStore";
 import { AgentMemoryStore } from "./AgentMemoryStore";
+import {
+  createMemoryVectorStore,
+  type MemoryVectorMatch,
+  type MemoryVectorStore,
+} from "./memory-vector-store";
 
-const prisma = new PrismaClient();
+// Longer memories are truncated before embedding
+const MAX_EMBEDDING_CHARS = 8000;
 
 export interface MemoryEntry {
   id: string;
@@ -49,7 +60,10 @@ export interface MemoryEntry {
 
 export interface MemoryQuery {
   goalType?: string;
+  // Free text to rank memories by embedding similarity
+  text?: string;
   agentTypes?: AgentType[];
+  campaignId?: string;
   categories?: string[];
   tags?: string[];
   outcomeFilter?: ("SUCCESS" | "FAILURE" | "PARTIAL")[];
@@ -63,6 +77,24 @@ export interface MemoryQuery {
   similarityThreshold?: number;
 }
 
+export interface SimilarMemoryOptions {
+  agentTypes?: AgentType[];
+  campaignId?: string;
+  timeRange?: {
+    start?: Date;
+    end?: Date;
+  };
+  limit?: number;
+  minScore?: number;
+}
+
+export interface CrossAgentMemoryIndexOptions {
+  workspaceId?: string;
+  vectorStore?: MemoryVectorStore;
+  // Embeddings are requested through this client; defaults to the shared one
+  llm?: Pick<LLMClient, "embed">;
+}
+
 export interface MemoryInsight {
   type: "PATTERN" | "ANOMALY" | "TREND" | "CORRELATION" | "BEST_PRACTICE";
   title: string;
@@ -91,16 +123,33 @@ export interface KnowledgeGraph {
   }>;
 }
 
+/**
+ * Memories are stored as AgentMemory rows and embedded on ingestion, so
+ * retrieval ranks past runs by meaning rather than shared keywords. Each
+ * index is bound to one workspace.
+ */
 export class CrossAgentMemoryIndex {
   private static instance: CrossAgentMemoryIndex;
+  private prisma: PrismaClient;
+  readonly workspaceId: string;
   private crossCampaignStore: CrossCampaignMemoryStore;
   private agentMemoryStore: AgentMemoryStore;
+  private vectorStore: MemoryVectorStore;
+  private llm: Pick<LLMClient, "embed"> | undefined;
   private memoryCache: Map<string, MemoryEntry> = new Map();
   private indexMap: Map<string, string[]> = new Map(); // category/tag -> memory IDs
 
-  constructor() {
-    this.crossCampaignStore = new CrossCampaignMemoryStore();
-    this.agentMemoryStore = new AgentMemoryStore();
+  constructor(
+    prisma?: PrismaClient,
+    options: CrossAgentMemoryIndexOptions = {},
+  ) {
+    this.prisma = prisma || db;
+    this.workspaceId = options.workspaceId ?? DEFAULT_WORKSPACE_ID;
+    this.crossCampaignStore = new CrossCampaignMemoryStore(this.workspaceId);
+    this.agentMemoryStore = new AgentMemoryStore(this.prisma, this.workspaceId);
+    this.vectorStore =
+      options.vectorStore ?? createMemoryVectorStore(this.prisma);
+    this.llm = options.llm;
   }
 
   static getInstance(): CrossAgentMemoryIndex {
@@ -132,9 +181,6 @@ export class CrossAgentMemoryIndex {
     metadata?: any;
   }): Promise<string> {
     try {
-      // Generate unique ID
-      const memoryId = `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
       // Extract semantic content and categories
       const { tags, categories } =
         await this.extractSemanticContent(memoryData);
@@ -142,6 +188,29 @@ export class CrossAgentMemoryIndex {
       // Calculate confidence based on outcome and performance
       const confidence = this.calculateConfidence(memoryData);
 
+      // Persist the run; its row id is the memory id
+      const stored = await this.agentMemoryStore.storeMemory(
+        memoryData.agentId,
+        memoryData.sessionId,
+        memoryData.input,
+        memoryData.output,
+        {
+          ...memoryData.metadata,
+          tokensUsed: memoryData.performance.tokensUsed,
+          cost: memoryData.performance.cost,
+          executionTime: memoryData.performance.executionTime,
+          success: memoryData.outcome !== "FAILURE",
+          agentType: memoryData.agentType,
+          goalPlanId: memoryData.goalPlanId,
+          campaignId: memoryData.campaignId,
+          outcome: memoryData.outcome,
+          confidence,
+          tags,
+          categories,
+        },
+      );
+      const memoryId = stored.id;
+
       // Create indexed memory entry
       const memoryEntry: MemoryEntry = {
         id: memoryId,
@@ -177,6 +246,17 @@ export class CrossAgentMemoryIndex {
       // Update indexes
       await this.updateIndexes(memoryEntry);
 
+      // A failed embedding only costs recall; backfillEmbeddings() retries it
+      try {
+        await this.embedMemories([memoryEntry]);
+      } catch (error) {
+        console.error(
+          "[CrossAgentMemoryIndex] Error embedding memory:",
+          memoryId,
+          error,
+        );
+      }
+
       // Store in cache
       this.memoryCache.set(memoryEntry.id, memoryEntry);
 
@@ -209,6 +289,26 @@ export class CrossAgentMemoryIndex {
       );
 
       const candidateIds: Set<string> = new Set();
+      const similarity = new Map<string, number>();
+
+      // Text queries take their candidates from the vector index, with the
+      // filters applied before the top-k cut
+      if (query.text) {
+        const matches = await this.searchSimilar(query.text, {
+          ...(query.agentTypes && { agentTypes: query.agentTypes }),
+          ...(query.campaignId && { campaignId: query.campaignId }),
+          ...(query.timeRange && { timeRange: query.timeRange }),
+          ...(query.similarityThreshold !== undefined && {
+            minScore: query.similarityThreshold,
+          }),
+          // Leave room for outcome and confidence filtering below
+          limit: (query.limit || 10) * 3,
+        });
+        matches.forEach((match) => {
+          candidateIds.add(match.memoryId);
+          similarity.set(match.memoryId, match.score);
+        });
+      }
 
       // Get candidate memory IDs from indexes
       if (query.categories) {
@@ -226,9 +326,10 @@ export class CrossAgentMemoryIndex {
       }
 
       // If no specific filters, get all recent successful memories
-      if (candidateIds.size === 0) {
-        const recentMemories = await prisma.agentMemory.findMany({
+      if (candidateIds.size === 0 && !query.text) {
+        const recentMemories = await this.prisma.agentMemory.findMany({
           where: {
+            workspaceId: this.workspaceId,
             success: true,
             timestamp: query.timeRange
               ? {
@@ -258,10 +359,9 @@ export class CrossAgentMemoryIndex {
 
         if (memory && this.passesFilters(memory, query)) {
           // Calculate relevance score
-          memory.relevanceScore = await this.calculateRelevanceScore(
-            memory,
-            query,
-          );
+          memory.relevanceScore = similarity.has(id)
+            ? Math.max(0, similarity.get(id)!)
+            : await this.calculateRelevanceScore(memory, query);
           memories.push(memory);
         }
       }
@@ -305,11 +405,74 @@ export class CrossAgentMemoryIndex {
   }
 
   /**
-   * Get contextual prompts for agent planning
+   * Top-k memories most similar to the text, filtered by agent type,
+   * campaign and time range
+   */
+  async searchSimilar(
+    text: string,
+    options: SimilarMemoryOptions = {},
+  ): Promise<MemoryVectorMatch[]> {
+    const { embeddings, model } = await this.getLLM().embed({
+      input: text.slice(0, MAX_EMBEDDING_CHARS),
+      workspaceId: this.workspaceId,
+    });
+
+    return this.vectorStore.query({
+      workspaceId: this.workspaceId,
+      model,
+      embedding: embeddings[0] ?? [],
+      limit: options.limit ?? 10,
+      ...(options.agentTypes && { agentTypes: options.agentTypes }),
+      ...(options.campaignId && { campaignId: options.campaignId }),
+      ...(options.timeRange?.start && { since: options.timeRange.start }),
+      ...(options.timeRange?.end && { until: options.timeRange.end }),
+      ...(options.minScore !== undefined && { minScore: options.minScore }),
+    });
+  }
+
+  /**
+   * Embed stored memories that have no embedding yet, such as runs
+   * recorded directly through AgentMemoryStore or whose embedding failed.
+   * Returns the number of memories embedded.
+   */
+  async backfillEmbeddings(batchSize: number = 100): Promise<number> {
+    let embedded = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const rows = await this.prisma.agentMemory.findMany({
+        where: { workspaceId: this.workspaceId },
+        orderBy: { id: "asc" },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (rows.length === 0) break;
+      cursor = rows[rows.length - 1]!.id;
+
+      const memories = rows.map((row) => this.toMemoryEntry(row));
+      embedded += await this.embedMemories(memories, true);
+
+      if (rows.length < batchSize) break;
+    }
+
+    console.log(
+      `🧠 [CrossAgentMemoryIndex] Backfilled ${embedded} memory embeddings`,
+    );
+    return embedded;
+  }
+
+  /**
+   * Get contextual prompts for agent planning. Past runs are ranked by
+   * similarity to the goal type and task description.
    */
   async getContextualPrompts(
     goalType: string,
     agentType: AgentType,
+    options: {
+      task?: string;
+      campaignId?: string;
+      timeRange?: { start: Date; end: Date };
+    } = {},
   ): Promise<{
     successPatterns: string[];
     pitfallsToAvoid: string[];
@@ -319,6 +482,9 @@ export class CrossAgentMemoryIndex {
     try {
       const query: MemoryQuery = {
         goalType,
+        text: [goalType, options.task].filter(Boolean).join("\n"),
+        ...(options.campaignId && { campaignId: options.campaignId }),
+        ...(options.timeRange && { timeRange: options.timeRange }),
         agentTypes: [agentType],
         outcomeFilter: ["SUCCESS"],
         confidenceThreshold: 0.7,
@@ -330,6 +496,8 @@ export class CrossAgentMemoryIndex {
       const failureQuery: MemoryQuery = {
         ...query,
         outcomeFilter: ["FAILURE"],
+        // Failed runs never reach the success threshold
+        confidenceThreshold: 0,
         limit: 10,
       };
 
@@ -614,6 +782,8 @@ export class CrossAgentMemoryIndex {
   private passesFilters(memory: MemoryEntry, query: MemoryQuery): boolean {
     if (query.agentTypes && !query.agentTypes.includes(memory.agentType))
       return false;
+    if (query.campaignId && memory.campaignId !== query.campaignId)
+      return false;
     if (query.outcomeFilter && !query.outcomeFilter.includes(memory.outcome))
       return false;
     if (
@@ -671,48 +841,11 @@ export class CrossAgentMemoryIndex {
     id: string,
   ): Promise<MemoryEntry | null> {
     try {
-      const dbMemory = await prisma.agentMemory.findUnique({
-        where: { id },
+      const dbMemory = await this.prisma.agentMemory.findFirst({
+        where: { id, workspaceId: this.workspaceId },
       });
 
-      if (!dbMemory) return null;
-
-      // Convert database memory to MemoryEntry format
-      const memory: MemoryEntry = {
-        id: dbMemory.id,
-        agentId: dbMemory.agentId,
-        agentType: AgentType.CONTENT, // Default, would need to derive from agentId
-        sessionId: dbMemory.sessionId,
-        content: {
-          input: dbMemory.input,
-          output: dbMemory.output,
-          context: {},
-        },
-        tags: [], // Would extract from metadata
-        categories: [], // Would extract from metadata
-        outcome: dbMemory.success ? "SUCCESS" : "FAILURE",
-        confidence: 0.8, // Default
-        performance: {
-          executionTime: dbMemory.executionTime,
-          tokensUsed: dbMemory.tokensUsed,
-          cost: dbMemory.cost,
-          successMetrics: {},
-        },
-        relationships: {
-          dependencies: [],
-          influences: [],
-          conflicts: [],
-        },
-        temporal: {
-          createdAt: dbMemory.timestamp,
-          lastAccessed: new Date(),
-          accessCount: 0,
-          decayScore: 1.0,
-        },
-        metadata: dbMemory.metadata || {},
-      };
-
-      return memory;
+      return dbMemory ? this.toMemoryEntry(dbMemory) : null;
     } catch (error) {
       console.error(
         "[CrossAgentMemoryIndex] Error loading memory from database:",
@@ -722,6 +855,131 @@ export class CrossAgentMemoryIndex {
     }
   }
 
+  /**
+   * Convert an AgentMemory row to a MemoryEntry. Rows written by
+   * ingestMemory() carry agent type, campaign and tags in their metadata.
+   */
+  private toMemoryEntry(dbMemory: {
+    id: string;
+    agentId: string;
+    sessionId: string;
+    input: unknown;
+    output: unknown;
+    timestamp: Date;
+    tokensUsed: number;
+    cost: number;
+    executionTime: number;
+    success: boolean;
+    metadata: unknown;
+  }): MemoryEntry {
+    const metadata = (dbMemory.metadata || {}) as Record<string, any>;
+
+    return {
+      id: dbMemory.id,
+      agentId: dbMemory.agentId,
+      agentType: metadata.agentType ?? AgentType.CONTENT,
+      sessionId: dbMemory.sessionId,
+      goalPlanId: metadata.goalPlanId,
+      campaignId: metadata.campaignId,
+      content: {
+        input: dbMemory.input,
+        output: dbMemory.output,
+        context: {},
+      },
+      tags: metadata.tags ?? [],
+      categories: metadata.categories ?? [],
+      outcome: metadata.outcome ?? (dbMemory.success ? "SUCCESS" : "FAILURE"),
+      confidence: metadata.confidence ?? 0.8,
+      performance: {
+        executionTime: dbMemory.executionTime,
+        tokensUsed: dbMemory.tokensUsed,
+        cost: dbMemory.cost,
+        successMetrics: metadata.successMetrics ?? {},
+      },
+      relationships: {
+        dependencies: [],
+        influences: [],
+        conflicts: [],
+      },
+      temporal: {
+        createdAt: dbMemory.timestamp,
+        lastAccessed: new Date(),
+        accessCount: 0,
+        decayScore: 1.0,
+      },
+      metadata,
+    };
+  }
+
+  /**
+   * Embed memories and store their vectors. With `skipIndexed`, memories
+   * that already have a vector from the current model are left alone.
+   */
+  private async embedMemories(
+    memories: MemoryEntry[],
+    skipIndexed: boolean = false,
+  ): Promise<number> {
+    if (memories.length === 0) return 0;
+
+    const texts = memories.map((memory) => this.memoryText(memory));
+    const { embeddings, model } = await this.getLLM().embed({
+      input: texts,
+      workspaceId: this.workspaceId,
+    });
+
+    const indexed = skipIndexed
+      ? await this.vectorStore.indexedIds(
+          memories.map((memory) => memory.id),
+          model,
+        )
+      : new Set<string>();
+
+    const vectors = memories.flatMap((memory, i) =>
+      indexed.has(memory.id) || !embeddings[i]
+        ? []
+        : [
+            {
+              memoryId: memory.id,
+              workspaceId: this.workspaceId,
+              agentType: memory.agentType,
+              campaignId: memory.campaignId ?? null,
+              model,
+              embedding: embeddings[i]!,
+              content: texts[i]!,
+              timestamp: memory.temporal.createdAt,
+            },
+          ],
+    );
+
+    await this.vectorStore.upsert(vectors);
+    return vectors.length;
+  }
+
+  /**
+   * Text embedded for a memory: the string and number values of its input
+   * and output, without JSON keys and punctuation
+   */
+  private memoryText(memory: MemoryEntry): string {
+    const values: string[] = [];
+    const collect = (value: unknown) => {
+      if (typeof value === "string" || typeof value === "number") {
+        values.push(String(value));
+      } else if (Array.isArray(value)) {
+        value.forEach(collect);
+      } else if (value && typeof value === "object") {
+        Object.values(value).forEach(collect);
+      }
+    };
+    collect(memory.content.input);
+    collect(memory.content.output);
+
+    return values.join("\n").slice(0, MAX_EMBEDDING_CHARS);
+  }
+
+  private getLLM(): Pick<LLMClient, "embed"> {
+    return this.llm ?? getLLMClient();
+  }
+
   private extractPatterns(
     memories: MemoryEntry[],
     type: "success" | "failure",
@@ -756,13 +1014,17 @@ export class CrossAgentMemoryIndex {
   }
 
   private extractExperiences(memories: MemoryEntry[]): string[] {
-    // Extract relevant experience descriptions
-    return memories
-      .slice(0, 5)
-      .map(
-        (memory) =>
-          `${memory.agentType} successfully handled similar task with ${Math.round(memory.confidence * 100)}% confidence`,
-      );
+    // Describe the most relevant past runs with an excerpt of what they did
+    return memories.slice(0, 5).map((memory) => {
+      const excerpt = this.memoryText(memory)
+        .replace(/\s+/g, " ")
+        .slice(0, 200);
+      const match =
+        memory.relevanceScore !== undefined
+          ? ` (${Math.round(memory.relevanceScore * 100)}% match)`
+          : "";
+      return `${memory.agentType} handled a similar task${match}: ${excerpt}`;
+    });
   }
 
   // Additional analysis methods (simplified implementations)
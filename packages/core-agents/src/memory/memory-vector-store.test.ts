@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { AgentType } from "@neon/data-model";
+import {
+  cosineSimilarity,
+  LocalMemoryVectorStore,
+  type MemoryVector,
+} from "./memory-vector-store";
+
+const vector = (overrides: Partial<MemoryVector>): MemoryVector => ({
+  memoryId: "mem-1",
+  workspaceId: "default",
+  agentType: "CONTENT" as AgentType,
+  campaignId: null,
+  model: "test-embedding",
+  embedding: [1, 0, 0],
+  content: "neon sign launch post",
+  timestamp: new Date("2025-03-01T00:00:00Z"),
+  ...overrides,
+});
+
+describe("cosineSimilarity", () => {
+  it("should score identical, orthogonal and mismatched vectors", () => {
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe("LocalMemoryVectorStore", () => {
+  let store: LocalMemoryVectorStore;
+
+  beforeEach(async () => {
+    store = new LocalMemoryVectorStore(null);
+    await store.upsert([
+      vector({ memoryId: "close", embedding: [1, 0.1, 0] }),
+      vector({ memoryId: "far", embedding: [0, 1, 0] }),
+      vector({
+        memoryId: "seo",
+        agentType: "SEO" as AgentType,
+        embedding: [1, 0, 0],
+      }),
+      vector({
+        memoryId: "campaign",
+        campaignId: "c1",
+        embedding: [0.9, 0, 0.1],
+      }),
+      vector({
+        memoryId: "old",
+        timestamp: new Date("2024-01-01T00:00:00Z"),
+        embedding: [1, 0, 0],
+      }),
+      vector({ memoryId: "other-model", model: "other", embedding: [1, 0, 0] }),
+      vector({ memoryId: "other-workspace", workspaceId: "ws-2" }),
+    ]);
+  });
+
+  const query = {
+    workspaceId: "default",
+    model: "test-embedding",
+    embedding: [1, 0, 0],
+    limit: 10,
+  };
+
+  it("should return the top-k matches by similarity", async () => {
+    const matches = await store.query({ ...query, limit: 2 });
+
+    expect(matches.map((match) => match.memoryId)).toEqual(["seo", "old"]);
+    expect(matches[0]!.score).toBeCloseTo(1);
+  });
+
+  it("should filter by agent type, campaign and time range", async () => {
+    const byAgent = await store.query({
+      ...query,
+      agentTypes: ["CONTENT" as AgentType],
+      since: new Date("2025-01-01T00:00:00Z"),
+    });
+    expect(byAgent.map((match) => match.memoryId)).toEqual([
+      "close",
+      "campaign",
+      "far",
+    ]);
+
+    const byCampaign = await store.query({ ...query, campaignId: "c1" });
+    expect(byCampaign.map((match) => match.memoryId)).toEqual(["campaign"]);
+
+    const aboveThreshold = await store.query({ ...query, minScore: 0.5 });
+    expect(aboveThreshold.map((match) => match.memoryId)).not.toContain("far");
+  });
+
+  it("should report which memories are indexed for a model", async () => {
+    const indexed = await store.indexedIds(
+      ["close", "other-model", "missing"],
+      "test-embedding",
+    );
+
+    expect(Array.from(indexed)).toEqual(["close"]);
+  });
+
+  describe("on disk", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "memory-vectors-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("should reload stored vectors from the index file", async () => {
+      const filePath = path.join(dir, "nested", "index.json");
+      await new LocalMemoryVectorStore(filePath).upsert([vector({})]);
+
+      const reloaded = new LocalMemoryVectorStore(filePath);
+      const [match] = await reloaded.query(query);
+
+      expect(match!.memoryId).toBe("mem-1");
+      expect(match!.timestamp).toEqual(new Date("2025-03-01T00:00:00Z"));
+
+      await reloaded.remove(["mem-1"]);
+      expect(await new LocalMemoryVectorStore(filePath).query(query)).toEqual(
+        [],
+      );
+    });
+  });
+});
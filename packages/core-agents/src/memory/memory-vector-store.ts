@@ -0,0 +1,278 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { db, type AgentType, type PrismaClient } from "@neon/data-model";
+
+/**
+ * Embedding storage for agent memories. Production keeps vectors in the
+ * float array column of `agent_memory_embeddings` and ranks them with
+ * pgvector; the local store keeps vectors in a JSON file for development
+ * machines without the extension and for tests. Both rank by cosine
+ * similarity and apply the same filters.
+ */
+
+export const DEFAULT_LOCAL_VECTOR_INDEX_PATH = ".neon/memory-vectors.json";
+
+export interface MemoryVector {
+  memoryId: string;
+  workspaceId: string;
+  agentType: AgentType | null;
+  campaignId: string | null;
+  model: string;
+  embedding: number[];
+  // Text that was embedded, returned with matches
+  content: string;
+  timestamp: Date;
+}
+
+export interface MemoryVectorQuery {
+  workspaceId: string;
+  model: string;
+  embedding: number[];
+  limit: number;
+  agentTypes?: AgentType[];
+  campaignId?: string;
+  since?: Date;
+  until?: Date;
+  // Minimum cosine similarity, -1 to 1
+  minScore?: number;
+}
+
+export interface MemoryVectorMatch {
+  memoryId: string;
+  agentType: AgentType | null;
+  campaignId: string | null;
+  content: string;
+  timestamp: Date;
+  score: number;
+}
+
+export interface MemoryVectorStore {
+  upsert(vectors: MemoryVector[]): Promise<void>;
+  query(query: MemoryVectorQuery): Promise<MemoryVectorMatch[]>;
+  // Ids among `memoryIds` that already have an embedding from `model`
+  indexedIds(memoryIds: string[], model: string): Promise<Set<string>>;
+  remove(memoryIds: string[]): Promise<void>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+const toVectorLiteral = (embedding: number[]) => `[${embedding.join(",")}]`;
+
+/**
+ * pgvector-backed store. Filters run in SQL so `limit` applies after
+ * them; vectors of another model or dimension are never compared. Needs
+ * the `vector` extension in the database.
+ */
+export class PgVectorMemoryStore implements MemoryVectorStore {
+  private prisma: PrismaClient;
+
+  constructor(prisma?: PrismaClient) {
+    this.prisma = prisma || db;
+  }
+
+  async upsert(vectors: MemoryVector[]): Promise<void> {
+    for (const vector of vectors) {
+      await this.prisma.$executeRaw`
+        INSERT INTO "agent_memory_embeddings"
+          ("memoryId", "workspaceId", "agentType", "campaignId", "model",
+           "dimensions", "embedding", "content", "timestamp")
+        VALUES (
+          ${vector.memoryId}, ${vector.workspaceId},
+          ${vector.agentType}::"AgentType", ${vector.campaignId},
+          ${vector.model}, ${vector.embedding.length},
+          ${vector.embedding}::double precision[],
+          ${vector.content}, ${vector.timestamp}
+        )
+        ON CONFLICT ("memoryId") DO UPDATE SET
+          "agentType" = EXCLUDED."agentType",
+          "campaignId" = EXCLUDED."campaignId",
+          "model" = EXCLUDED."model",
+          "dimensions" = EXCLUDED."dimensions",
+          "embedding" = EXCLUDED."embedding",
+          "content" = EXCLUDED."content",
+          "timestamp" = EXCLUDED."timestamp"`;
+    }
+  }
+
+  async query(query: MemoryVectorQuery): Promise<MemoryVectorMatch[]> {
+    const vector = toVectorLiteral(query.embedding);
+    const agentTypes = query.agentTypes?.length ? query.agentTypes : null;
+
+    const rows = await this.prisma.$queryRaw<MemoryVectorMatch[]>`
+      SELECT "memoryId", "agentType", "campaignId", "content", "timestamp",
+             1 - ("embedding"::vector <=> ${vector}::vector) AS "score"
+      FROM "agent_memory_embeddings"
+      WHERE "workspaceId" = ${query.workspaceId}
+        AND "model" = ${query.model}
+        AND "dimensions" = ${query.embedding.length}
+        AND (${agentTypes}::text[] IS NULL
+             OR "agentType"::text = ANY(${agentTypes}::text[]))
+        AND (${query.campaignId ?? null}::text IS NULL
+             OR "campaignId" = ${query.campaignId ?? null})
+        AND (${query.since ?? null}::timestamp IS NULL
+             OR "timestamp" >= ${query.since ?? null})
+        AND (${query.until ?? null}::timestamp IS NULL
+             OR "timestamp" <= ${query.until ?? null})
+      ORDER BY "embedding"::vector <=> ${vector}::vector
+      LIMIT ${query.limit}`;
+
+    return rows
+      .map((row) => ({ ...row, score: Number(row.score) }))
+      .filter(
+        (row) => query.minScore === undefined || row.score >= query.minScore,
+      );
+  }
+
+  async indexedIds(memoryIds: string[], model: string): Promise<Set<string>> {
+    const rows = await this.prisma.agentMemoryEmbedding.findMany({
+      where: { memoryId: { in: memoryIds }, model },
+      select: { memoryId: true },
+    });
+    return new Set(rows.map((row) => row.memoryId));
+  }
+
+  async remove(memoryIds: string[]): Promise<void> {
+    await this.prisma.agentMemoryEmbedding.deleteMany({
+      where: { memoryId: { in: memoryIds } },
+    });
+  }
+}
+
+/**
+ * Brute-force store kept in memory and mirrored to a JSON file. Pass
+ * `null` as the path to keep it in memory only.
+ */
+export class LocalMemoryVectorStore implements MemoryVectorStore {
+  private vectors: Map<string, MemoryVector> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private filePath: string | null = process.env.MEMORY_VECTOR_INDEX_PATH ||
+      DEFAULT_LOCAL_VECTOR_INDEX_PATH,
+  ) {}
+
+  async upsert(vectors: MemoryVector[]): Promise<void> {
+    const index = await this.load();
+    for (const vector of vectors) {
+      index.set(vector.memoryId, vector);
+    }
+    await this.persist();
+  }
+
+  async query(query: MemoryVectorQuery): Promise<MemoryVectorMatch[]> {
+    const index = await this.load();
+    const matches: MemoryVectorMatch[] = [];
+
+    for (const vector of index.values()) {
+      if (
+        vector.workspaceId !== query.workspaceId ||
+        vector.model !== query.model ||
+        vector.embedding.length !== query.embedding.length
+      ) {
+        continue;
+      }
+      if (
+        query.agentTypes?.length &&
+        (!vector.agentType || !query.agentTypes.includes(vector.agentType))
+      ) {
+        continue;
+      }
+      if (query.campaignId && vector.campaignId !== query.campaignId) continue;
+      if (query.since && vector.timestamp < query.since) continue;
+      if (query.until && vector.timestamp > query.until) continue;
+
+      const score = cosineSimilarity(query.embedding, vector.embedding);
+      if (query.minScore !== undefined && score < query.minScore) continue;
+
+      matches.push({
+        memoryId: vector.memoryId,
+        agentType: vector.agentType,
+        campaignId: vector.campaignId,
+        content: vector.content,
+        timestamp: vector.timestamp,
+        score,
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, query.limit);
+  }
+
+  async indexedIds(memoryIds: string[], model: string): Promise<Set<string>> {
+    const index = await this.load();
+    return new Set(memoryIds.filter((id) => index.get(id)?.model === model));
+  }
+
+  async remove(memoryIds: string[]): Promise<void> {
+    const index = await this.load();
+    memoryIds.forEach((id) => index.delete(id));
+    await this.persist();
+  }
+
+  private async load(): Promise<Map<string, MemoryVector>> {
+    if (this.vectors) return this.vectors;
+
+    const vectors = new Map<string, MemoryVector>();
+    if (this.filePath) {
+      try {
+        const stored = JSON.parse(
+          await fs.readFile(this.filePath, "utf8"),
+        ) as MemoryVector[];
+        for (const vector of stored) {
+          vectors.set(vector.memoryId, {
+            ...vector,
+            timestamp: new Date(vector.timestamp),
+          });
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+
+    // Another call may have loaded the file while this one was reading
+    this.vectors ??= vectors;
+    return this.vectors;
+  }
+
+  private persist(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) return Promise.resolve();
+
+    // Writes are chained so an older snapshot never replaces a newer one
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${filePath}.tmp`;
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(
+          tempPath,
+          JSON.stringify(Array.from(this.vectors?.values() ?? [])),
+        );
+        await fs.rename(tempPath, filePath);
+      });
+    return this.writes;
+  }
+}
+
+/**
+ * Vector store selected by `MEMORY_VECTOR_STORE`: `local` for the on-disk
+ * index, anything else for pgvector
+ */
+export function createMemoryVectorStore(
+  prisma?: PrismaClient,
+): MemoryVectorStore {
+  return process.env.MEMORY_VECTOR_STORE === "local"
+    ? new LocalMemoryVectorStore()
+    : new PgVectorMemoryStore(prisma);
+}
@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./metrics-ingestor";
+export * from "./metrics-pipeline";
+export * from "./social-insights-puller";
+export * from "./sendgrid-event-receiver";
+export * from "./sinks";
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { MetricsIngestor } from "./metrics-ingestor";
+import type { MetricsUpdate } from "./types";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+describe("MetricsIngestor", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let ingestor: MetricsIngestor;
+  let updates: MetricsUpdate[];
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", { id: "default", name: "Default", slug: "default" });
+    db.seed("user", { id: "user_1", email: "owner@example.com" });
+    db.seed(
+      "campaign",
+      ["campaign_1", "campaign_2", "campaign_3"].map((id) => ({
+        id,
+        userId: "user_1",
+        name: id,
+        type: "SOCIAL_MEDIA",
+      })),
+    );
+    db.seed("emailCampaign", [
+      {
+        id: "email_1",
+        campaignId: "campaign_1",
+        name: "Launch",
+        subject: "Hi",
+        content: {},
+        recipients: [],
+        sentAt: new Date("2026-03-02T09:00:00Z"),
+      },
+      {
+        id: "email_orphan",
+        name: "Orphan",
+        subject: "Hi",
+        content: {},
+        recipients: [],
+      },
+    ]);
+    db.seed("content", {
+      id: "content_1",
+      campaignId: "campaign_2",
+      title: "Launch post",
+      type: "POST",
+      platform: "TWITTER",
+      content: {},
+    });
+    db.seed("socialSchedule", {
+      id: "post_1",
+      contentId: "content_1",
+      platform: "TWITTER",
+      content: {},
+      scheduledAt: new Date("2026-03-02T09:00:00Z"),
+    });
+    updates = [];
+    ingestor = new MetricsIngestor(db.prisma).addSink((update) => {
+      updates.push(update);
+    });
+  });
+
+  it("stores observations in hourly buckets per source", async () => {
+    const summary = await ingestor.ingest([
+      {
+        source: "social:TWITTER",
+        sourceRef: "post_1",
+        occurredAt: new Date("2026-03-02T10:05:00Z"),
+        values: { impressions: 100, clicks: 4 },
+      },
+      {
+        source: "social:TWITTER",
+        sourceRef: "post_1",
+        occurredAt: new Date("2026-03-02T10:55:00Z"),
+        values: { impressions: 100, clicks: 6 },
+      },
+      {
+        source: "social:TWITTER",
+        sourceRef: "post_1",
+        occurredAt: new Date("2026-03-02T11:10:00Z"),
+        values: { impressions: 50 },
+      },
+    ]);
+
+    expect(summary).toEqual({ recorded: 3, skipped: 0 });
+    expect(db.tables.campaignMetric!).toHaveLength(2);
+    expect(db.tables.campaignMetric![0]).toMatchObject({
+      campaignId: "campaign_2",
+      timestamp: new Date("2026-03-02T10:00:00Z"),
+      impressions: 200,
+      clicks: 10,
+      ctr: 0.05,
+    });
+
+    // A later delivery for the same hour adds to the existing row
+    await ingestor.ingest([
+      {
+        source: "social:TWITTER",
+        sourceRef: "post_1",
+        occurredAt: new Date("2026-03-02T10:30:00Z"),
+        values: { impressions: 50, clicks: -5 },
+      },
+    ]);
+    expect(db.tables.campaignMetric!).toHaveLength(2);
+    expect(db.tables.campaignMetric![0]).toMatchObject({
+      impressions: 250,
+      clicks: 5,
+      ctr: 0.02,
+    });
+    expect(updates.at(-1)).toMatchObject({
+      campaignId: "campaign_2",
+      delta: { impressions: 50, clicks: -5 },
+      totals: { impressions: 300, clicks: 5 },
+    });
+  });
+
+  it("updates email campaign rates and reports variant totals", async () => {
+    const event = (values: Record<string, number>, variantId = "b") => ({
+      source: "email:sendgrid",
+      sourceRef: "email_1",
+      abTestId: "test_1",
+      variantId,
+      occurredAt: new Date("2026-03-02T09:30:00Z"),
+      values,
+    });
+
+    await ingestor.ingest([
+      event({ delivered: 1, impressions: 1 }),
+      event({ delivered: 1, impressions: 1 }),
+      event({ delivered: 1, impressions: 1 }, "a"),
+      event({ bounces: 1 }),
+      event({ opens: 1 }),
+    ]);
+
+    expect(db.tables.emailCampaign![0]).toMatchObject({
+      openRate: 1 / 3,
+      clickRate: 0,
+      bounceRate: 0.25,
+    });
+    const variantB = updates.find((update) => update.variantId === "b");
+    expect(variantB).toMatchObject({
+      campaignId: "campaign_1",
+      abTestId: "test_1",
+      sentAt: new Date("2026-03-02T09:00:00Z"),
+      delta: { delivered: 2, bounces: 1, opens: 1 },
+      variantTotals: { delivered: 2, impressions: 2, opens: 1 },
+    });
+  });
+
+  it("skips observations it cannot tie to a campaign", async () => {
+    const summary = await ingestor.ingest([
+      {
+        source: "email:sendgrid",
+        sourceRef: "email_orphan",
+        occurredAt: new Date(),
+        values: { opens: 1 },
+      },
+      {
+        source: "email:sendgrid",
+        occurredAt: new Date(),
+        values: { opens: 1 },
+      },
+      {
+        source: "email:sendgrid",
+        campaignId: "campaign_3",
+        occurredAt: new Date(),
+        values: { opens: 1 },
+      },
+    ]);
+
+    expect(summary).toEqual({ recorded: 1, skipped: 2 });
+    expect(db.tables.campaignMetric!).toHaveLength(1);
+    expect(db.tables.campaignMetric![0]!.campaignId).toBe("campaign_3");
+  });
+
+  it("keeps ingesting when a sink fails", async () => {
+    ingestor.addSink(() => {
+      throw new Error("sink down");
+    });
+
+    await expect(
+      ingestor.ingest([
+        {
+          source: "social:TWITTER",
+          sourceRef: "post_1",
+          occurredAt: new Date(),
+          values: { impressions: 1 },
+        },
+      ]),
+    ).resolves.toEqual({ recorded: 1, skipped: 0 });
+    expect(updates).toHaveLength(1);
+  });
+});
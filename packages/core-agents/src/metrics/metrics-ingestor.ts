@@ -0,0 +1,261 @@
+import { logger } from "@neon/utils";
+import { db, type CampaignMetric, type PrismaClient } from "@neon/data-model";
+import {
+  addValues,
+  emptyTotals,
+  METRIC_FIELDS,
+  type IngestSummary,
+  type MetricObservation,
+  type MetricsSink,
+  type MetricsUpdate,
+  type MetricTotals,
+} from "./types";
+
+/**
+ * Stores observations as hourly CampaignMetric rows per campaign, source
+ * and A/B test variant, keeps the email campaign rates current, and tells
+ * the registered sinks what changed. Counts are added, so a correction
+ * from a platform (a negative delta) lowers the totals again.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Fields summed by `aggregate`; CampaignMetric has them all as columns
+const SUM_SELECT = Object.fromEntries(
+  METRIC_FIELDS.map((field) => [field, true]),
+) as Record<(typeof METRIC_FIELDS)[number], true>;
+
+interface Bucket {
+  campaignId: string;
+  source: string;
+  sourceRef: string;
+  abTestId: string;
+  variantId: string;
+  timestamp: Date;
+  values: MetricTotals;
+}
+
+export class MetricsIngestor {
+  private prisma: PrismaClient;
+  private sinks: MetricsSink[] = [];
+
+  constructor(prisma?: PrismaClient) {
+    this.prisma = prisma || db;
+  }
+
+  addSink(sink: MetricsSink): this {
+    this.sinks.push(sink);
+    return this;
+  }
+
+  async ingest(observations: MetricObservation[]): Promise<IngestSummary> {
+    const summary: IngestSummary = { recorded: 0, skipped: 0 };
+    const buckets = new Map<string, Bucket>();
+    const updates = new Map<
+      string,
+      { observation: MetricObservation; bucket: Bucket; delta: MetricTotals }
+    >();
+    const campaigns = new Map<string, string | null>();
+
+    for (const observation of observations) {
+      const sourceRef = observation.sourceRef ?? "";
+      const campaignKey = `${observation.source}|${sourceRef}`;
+      if (!observation.campaignId && !campaigns.has(campaignKey)) {
+        campaigns.set(
+          campaignKey,
+          await this.resolveCampaign(observation.source, sourceRef),
+        );
+      }
+      const campaignId = observation.campaignId ?? campaigns.get(campaignKey);
+      if (!campaignId) {
+        summary.skipped++;
+        continue;
+      }
+
+      const timestamp = new Date(
+        Math.floor(observation.occurredAt.getTime() / HOUR_MS) * HOUR_MS,
+      );
+      const sourceKey = [
+        campaignId,
+        observation.source,
+        sourceRef,
+        observation.abTestId ?? "",
+        observation.variantId ?? "",
+      ].join("|");
+      const bucketKey = `${sourceKey}|${timestamp.getTime()}`;
+
+      let bucket = buckets.get(bucketKey);
+      if (!bucket) {
+        bucket = {
+          campaignId,
+          source: observation.source,
+          sourceRef,
+          abTestId: observation.abTestId ?? "",
+          variantId: observation.variantId ?? "",
+          timestamp,
+          values: emptyTotals(),
+        };
+        buckets.set(bucketKey, bucket);
+      }
+      addValues(bucket.values, observation.values);
+
+      const update = updates.get(sourceKey) ?? {
+        observation,
+        bucket,
+        delta: emptyTotals(),
+      };
+      addValues(update.delta, observation.values);
+      updates.set(sourceKey, update);
+      summary.recorded++;
+    }
+
+    for (const bucket of buckets.values()) {
+      await this.writeBucket(bucket);
+    }
+
+    for (const { observation, bucket, delta } of updates.values()) {
+      const totals = await this.totals({
+        campaignId: bucket.campaignId,
+        source: bucket.source,
+        sourceRef: bucket.sourceRef,
+      });
+      const sentAt =
+        bucket.source.startsWith("email:") && bucket.sourceRef
+          ? await this.updateEmailRates(bucket.sourceRef)
+          : undefined;
+      const variantTotals =
+        bucket.abTestId && bucket.variantId
+          ? await this.totals({
+              abTestId: bucket.abTestId,
+              variantId: bucket.variantId,
+            })
+          : undefined;
+
+      await this.notify({
+        source: bucket.source,
+        sourceRef: bucket.sourceRef,
+        campaignId: bucket.campaignId,
+        abTestId: bucket.abTestId || undefined,
+        variantId: bucket.variantId || undefined,
+        delta,
+        totals,
+        variantTotals,
+        sentAt: observation.sentAt ?? sentAt,
+        timezone: observation.timezone,
+        segment: observation.segment,
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Summed metrics of the matching CampaignMetric rows
+   */
+  async totals(where: {
+    campaignId?: string;
+    source?: string;
+    sourceRef?: string;
+    abTestId?: string;
+    variantId?: string;
+  }): Promise<MetricTotals> {
+    const result = await this.prisma.campaignMetric.aggregate({
+      where,
+      _sum: SUM_SELECT,
+    });
+    const totals = emptyTotals();
+    for (const field of METRIC_FIELDS) totals[field] = result._sum[field] ?? 0;
+    return totals;
+  }
+
+  // Add the bucket's counts to its hour, creating the row if needed
+  private async writeBucket(bucket: Bucket): Promise<void> {
+    const { values, ...key } = bucket;
+    const existing = await this.prisma.campaignMetric.findFirst({
+      where: key,
+      select: { id: true },
+    });
+
+    let row: CampaignMetric;
+    if (existing) {
+      row = await this.prisma.campaignMetric.update({
+        where: { id: existing.id },
+        data: Object.fromEntries(
+          METRIC_FIELDS.map((field) => [field, { increment: values[field] }]),
+        ),
+      });
+    } else {
+      row = await this.prisma.campaignMetric.create({
+        data: { ...key, ...values },
+      });
+    }
+
+    const ctr = row.impressions > 0 ? row.clicks / row.impressions : 0;
+    if (ctr !== row.ctr) {
+      await this.prisma.campaignMetric.update({
+        where: { id: row.id },
+        data: { ctr },
+      });
+    }
+  }
+
+  // Returns when the email campaign was sent
+  private async updateEmailRates(
+    emailCampaignId: string,
+  ): Promise<Date | undefined> {
+    const campaign = await this.prisma.emailCampaign.findUnique({
+      where: { id: emailCampaignId },
+      select: { sentAt: true },
+    });
+    if (!campaign) return undefined;
+
+    const totals = await this.totals({ sourceRef: emailCampaignId });
+    const attempted = totals.delivered + totals.bounces;
+    await this.prisma.emailCampaign.update({
+      where: { id: emailCampaignId },
+      data: {
+        openRate: totals.delivered ? totals.opens / totals.delivered : null,
+        clickRate: totals.delivered ? totals.clicks / totals.delivered : null,
+        bounceRate: attempted ? totals.bounces / attempted : null,
+      },
+    });
+    return campaign.sentAt ?? undefined;
+  }
+
+  // Campaign of a post (through its content) or of an email campaign
+  private async resolveCampaign(
+    source: string,
+    sourceRef: string,
+  ): Promise<string | null> {
+    if (!sourceRef) return null;
+    if (source.startsWith("social:")) {
+      const schedule = await this.prisma.socialSchedule.findUnique({
+        where: { id: sourceRef },
+        select: { sourceContent: { select: { campaignId: true } } },
+      });
+      return schedule?.sourceContent?.campaignId ?? null;
+    }
+    if (source.startsWith("email:")) {
+      const campaign = await this.prisma.emailCampaign.findUnique({
+        where: { id: sourceRef },
+        select: { campaignId: true },
+      });
+      return campaign?.campaignId ?? null;
+    }
+    return null;
+  }
+
+  private async notify(update: MetricsUpdate): Promise<void> {
+    for (const sink of this.sinks) {
+      try {
+        await sink(update);
+      } catch (error) {
+        logger.warn(
+          "Metrics sink failed",
+          { source: update.source, sourceRef: update.sourceRef, error },
+          "MetricsIngestor",
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { logger } from "@neon/utils";
+import { MetricsIngestor } from "./metrics-ingestor";
+import {
+  MetricsWebhookError,
+  type IngestSummary,
+  type MetricsPuller,
+  type MetricsSink,
+  type WebhookDelivery,
+  type WebhookListener,
+  type WebhookReceiver,
+} from "./types";
+
+export interface MetricsPipelineOptions {
+  ingestor?: MetricsIngestor;
+  pullers?: MetricsPuller[];
+  receivers?: WebhookReceiver[];
+  pollInterval?: number; // milliseconds
+}
+
+/**
+ * Runs the registered pullers on an interval and hands webhook payloads
+ * to the receiver of their provider; everything ends up in the ingestor.
+ */
+export class MetricsPipeline {
+  readonly ingestor: MetricsIngestor;
+  private pullers: MetricsPuller[];
+  private receivers = new Map<string, WebhookReceiver>();
+  private listeners = new Map<string, WebhookListener[]>();
+  private pollInterval: number;
+  private running = false;
+  private pollTimer: NodeJS.Timeout | undefined;
+  private currentRun: Promise<unknown> | undefined;
+
+  constructor(options: MetricsPipelineOptions = {}) {
+    this.ingestor = options.ingestor ?? new MetricsIngestor();
+    this.pullers = [...(options.pullers ?? [])];
+    for (const receiver of options.receivers ?? []) this.addReceiver(receiver);
+    this.pollInterval = options.pollInterval ?? 15 * 60 * 1000;
+  }
+
+  addPuller(puller: MetricsPuller): this {
+    this.pullers.push(puller);
+    return this;
+  }
+
+  addReceiver(receiver: WebhookReceiver): this {
+    this.receivers.set(receiver.provider, receiver);
+    return this;
+  }
+
+  addSink(sink: MetricsSink): this {
+    this.ingestor.addSink(sink);
+    return this;
+  }
+
+  addWebhookListener(provider: string, listener: WebhookListener): this {
+    this.listeners.set(provider, [
+      ...(this.listeners.get(provider) ?? []),
+      listener,
+    ]);
+    return this;
+  }
+
+  hasReceiver(provider: string): boolean {
+    return this.receivers.has(provider);
+  }
+
+  /**
+   * Check a delivery's signature with the provider's receiver. Returns
+   * false when the receiver does not sign, or has no key configured.
+   */
+  verify(provider: string, delivery: WebhookDelivery): boolean {
+    return this.receiverFor(provider).verify?.(delivery) ?? false;
+  }
+
+  /**
+   * Ingest a webhook payload. Throws MetricsWebhookError for providers
+   * without a receiver and payloads the receiver cannot read. Listeners
+   * run first, so a failing listener leaves the metrics untouched for the
+   * provider's retry.
+   */
+  async receive(provider: string, payload: unknown): Promise<IngestSummary> {
+    const receiver = this.receiverFor(provider);
+    const observations = receiver.parse(payload);
+    for (const listener of this.listeners.get(provider) ?? []) {
+      await listener(payload);
+    }
+    return this.ingestor.ingest(observations);
+  }
+
+  /**
+   * Run every puller once. A failing puller is logged and skipped.
+   */
+  async runPullers(): Promise<Record<string, IngestSummary>> {
+    const results: Record<string, IngestSummary> = {};
+    for (const puller of this.pullers) {
+      try {
+        results[puller.name] = await this.ingestor.ingest(await puller.pull());
+      } catch (error) {
+        logger.error(
+          "Metrics puller failed",
+          { puller: puller.name, error },
+          "MetricsPipeline",
+        );
+      }
+    }
+    return results;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    logger.info(
+      "Metrics pipeline started",
+      { pullers: this.pullers.map((puller) => puller.name) },
+      "MetricsPipeline",
+    );
+    await this.poll();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    await this.currentRun;
+  }
+
+  private receiverFor(provider: string): WebhookReceiver {
+    const receiver = this.receivers.get(provider);
+    if (!receiver) {
+      throw new MetricsWebhookError(
+        `No metrics receiver for ${provider}`,
+        "UNKNOWN_PROVIDER",
+      );
+    }
+    return receiver;
+  }
+
+  private async poll(): Promise<void> {
+    this.currentRun = this.runPullers();
+    await this.currentRun;
+    this.currentRun = undefined;
+
+    if (this.running) {
+      this.pollTimer = setTimeout(() => void this.poll(), this.pollInterval);
+    }
+  }
+}
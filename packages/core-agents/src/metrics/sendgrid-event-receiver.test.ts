@@ -0,0 +1,150 @@
+import { generateKeyPairSync, sign } from "crypto";
+import { describe, it, expect } from "@jest/globals";
+import { SendGridEventReceiver } from "./sendgrid-event-receiver";
+import { MetricsWebhookError } from "./types";
+
+describe("SendGridEventReceiver", () => {
+  const receiver = new SendGridEventReceiver();
+
+  it("maps events and custom args onto observations", () => {
+    const observations = receiver.parse([
+      {
+        email: "a@example.com",
+        event: "delivered",
+        timestamp: 1772442000,
+        email_campaign_id: "email_1",
+        ab_test_id: "test_1",
+        variant_id: "b",
+      },
+      {
+        email: "a@example.com",
+        event: "group_unsubscribe",
+        timestamp: 1772442060,
+        email_campaign_id: "email_1",
+        segment: "vip",
+      },
+      // Not counted
+      { email: "b@example.com", event: "deferred", timestamp: 1772442000 },
+    ]);
+
+    expect(observations).toEqual([
+      {
+        source: "email:sendgrid",
+        sourceRef: "email_1",
+        campaignId: undefined,
+        abTestId: "test_1",
+        variantId: "b",
+        segment: undefined,
+        occurredAt: new Date(1772442000 * 1000),
+        values: { delivered: 1, impressions: 1 },
+      },
+      expect.objectContaining({
+        segment: "vip",
+        values: { unsubscribes: 1 },
+      }),
+    ]);
+  });
+
+  it("rejects payloads that are not event arrays", () => {
+    expect(() => receiver.parse({ event: "open" })).toThrow(
+      MetricsWebhookError,
+    );
+    expect(() => receiver.parse([{ email: "a@example.com" }])).toThrow(
+      "SendGrid event without an event type",
+    );
+  });
+
+  it("lists the events per recipient", () => {
+    const events = receiver.deliveryEvents([
+      {
+        email: "a@example.com",
+        event: "bounce",
+        type: "blocked",
+        reason: "550 blocked",
+        timestamp: 1772442000,
+        sg_event_id: "evt_1",
+        sg_message_id: "msg_1",
+        workspace_id: "ws-1",
+      },
+      {
+        email: "a@example.com",
+        event: "click",
+        url: "https://example.com/offer",
+        timestamp: 1772442060,
+        sg_event_id: "evt_2",
+      },
+      { email: "a@example.com", event: "processed", timestamp: 1772442000 },
+    ]);
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        provider: "sendgrid",
+        providerEventId: "evt_1",
+        type: "BOUNCE",
+        workspaceId: "ws-1",
+        messageId: "msg_1",
+        reason: "550 blocked",
+        permanent: false,
+        metadata: { type: "blocked" },
+      }),
+      expect.objectContaining({
+        type: "CLICK",
+        url: "https://example.com/offer",
+        permanent: undefined,
+      }),
+    ]);
+  });
+
+  describe("signature verification", () => {
+    const { publicKey, privateKey } = generateKeyPairSync("ec", {
+      namedCurve: "prime256v1",
+    });
+    const signed = new SendGridEventReceiver({
+      publicKey: publicKey
+        .export({ format: "der", type: "spki" })
+        .toString("base64"),
+    });
+    const rawBody = JSON.stringify([{ event: "open", email: "a@example.com" }]);
+    const delivery = (
+      body: string,
+      timestamp = String(Math.floor(Date.now() / 1000)),
+    ) => ({
+      rawBody: body,
+      headers: {
+        "x-twilio-email-event-webhook-timestamp": timestamp,
+        "x-twilio-email-event-webhook-signature": sign(
+          "sha256",
+          Buffer.from(timestamp + rawBody),
+          privateKey,
+        ).toString("base64"),
+      },
+    });
+
+    it("accepts payloads signed with the webhook key", () => {
+      expect(signed.verify(delivery(rawBody))).toBe(true);
+    });
+
+    it("rejects altered, stale and unsigned payloads", () => {
+      expect(() => signed.verify(delivery(`${rawBody} `))).toThrow(
+        "Invalid SendGrid signature",
+      );
+      expect(() => signed.verify(delivery(rawBody, "1700000000"))).toThrow(
+        "SendGrid signature has expired",
+      );
+      expect(() => signed.verify({ rawBody, headers: {} })).toThrow(
+        MetricsWebhookError,
+      );
+    });
+
+    it("leaves verification to the caller without a key", () => {
+      const previous = process.env.SENDGRID_WEBHOOK_PUBLIC_KEY;
+      delete process.env.SENDGRID_WEBHOOK_PUBLIC_KEY;
+
+      expect(new SendGridEventReceiver().verify(delivery(rawBody))).toBe(false);
+
+      if (previous !== undefined) {
+        process.env.SENDGRID_WEBHOOK_PUBLIC_KEY = previous;
+      }
+    });
+  });
+});
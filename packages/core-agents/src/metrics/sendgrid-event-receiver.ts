@@ -0,0 +1,217 @@
+import { verify as verifySignature } from "crypto";
+import type { EmailEventType } from "@neon/data-model";
+import type { EmailDeliveryEvent } from "../email/types";
+import {
+  MetricsWebhookError,
+  type MetricField,
+  type MetricObservation,
+  type WebhookDelivery,
+  type WebhookReceiver,
+} from "./types";
+
+/**
+ * Reads SendGrid Event Webhook deliveries: a JSON array of events, each
+ * carrying the custom args the email was sent with. Emails are tied to
+ * their campaign through `email_campaign_id` (and `campaign_id` when the
+ * email campaign is not linked to one); `ab_test_id` and `variant_id`
+ * attribute them to an A/B test variant.
+ */
+
+export const SENDGRID_CUSTOM_ARGS = {
+  workspaceId: "workspace_id",
+  campaignId: "campaign_id",
+  emailCampaignId: "email_campaign_id",
+  abTestId: "ab_test_id",
+  variantId: "variant_id",
+  segment: "segment",
+} as const;
+
+// Events that count towards a metric; deferrals and resubscribes do not.
+// A delivered email counts as an impression.
+const EVENT_METRICS: Record<string, MetricField[]> = {
+  delivered: ["delivered", "impressions"],
+  open: ["opens"],
+  click: ["clicks"],
+  bounce: ["bounces"],
+  dropped: ["bounces"],
+  spamreport: ["complaints"],
+  unsubscribe: ["unsubscribes"],
+  group_unsubscribe: ["unsubscribes"],
+};
+
+// Event types kept in the recipient's history
+const EVENT_TYPES: Record<string, EmailEventType> = {
+  delivered: "DELIVERED",
+  open: "OPEN",
+  click: "CLICK",
+  bounce: "BOUNCE",
+  dropped: "DROPPED",
+  deferred: "DEFERRED",
+  spamreport: "COMPLAINT",
+  unsubscribe: "UNSUBSCRIBE",
+  group_unsubscribe: "UNSUBSCRIBE",
+};
+
+const SIGNATURE_HEADER = "x-twilio-email-event-webhook-signature";
+const TIMESTAMP_HEADER = "x-twilio-email-event-webhook-timestamp";
+
+export interface SendGridEventReceiverOptions {
+  // Verification key of the Signed Event Webhook, base64 DER as shown in
+  // the SendGrid settings. Defaults to SENDGRID_WEBHOOK_PUBLIC_KEY.
+  publicKey?: string | undefined;
+  // Oldest signature timestamp accepted, against replays
+  toleranceSeconds?: number;
+}
+
+export interface SendGridEvent {
+  email: string;
+  event: string;
+  timestamp: number; // Unix seconds
+  sg_event_id?: string;
+  sg_message_id?: string;
+  [customArg: string]: unknown;
+}
+
+export class SendGridEventReceiver implements WebhookReceiver {
+  readonly provider = "sendgrid";
+  private publicKey: string | undefined;
+  private toleranceSeconds: number;
+
+  constructor(options: SendGridEventReceiverOptions = {}) {
+    this.publicKey =
+      options.publicKey ?? process.env.SENDGRID_WEBHOOK_PUBLIC_KEY;
+    this.toleranceSeconds = options.toleranceSeconds ?? 600;
+  }
+
+  verify(delivery: WebhookDelivery): boolean {
+    if (!this.publicKey) return false;
+
+    const signature = delivery.headers[SIGNATURE_HEADER];
+    const timestamp = delivery.headers[TIMESTAMP_HEADER];
+    if (!signature || !timestamp) {
+      throw new MetricsWebhookError(
+        "Missing SendGrid signature",
+        "INVALID_SIGNATURE",
+      );
+    }
+    const signedAt = Number(timestamp);
+    if (
+      !Number.isFinite(signedAt) ||
+      Math.abs(Date.now() / 1000 - signedAt) > this.toleranceSeconds
+    ) {
+      throw new MetricsWebhookError(
+        "SendGrid signature has expired",
+        "INVALID_SIGNATURE",
+      );
+    }
+
+    let valid = false;
+    try {
+      valid = verifySignature(
+        "sha256",
+        Buffer.from(timestamp + delivery.rawBody),
+        {
+          key: Buffer.from(this.publicKey, "base64"),
+          format: "der",
+          type: "spki",
+        },
+        Buffer.from(signature, "base64"),
+      );
+    } catch {
+      // Malformed keys and signatures fail verification
+    }
+    if (!valid) {
+      throw new MetricsWebhookError(
+        "Invalid SendGrid signature",
+        "INVALID_SIGNATURE",
+      );
+    }
+    return true;
+  }
+
+  parse(payload: unknown): MetricObservation[] {
+    const observations: MetricObservation[] = [];
+    for (const event of events(payload)) {
+      const fields = EVENT_METRICS[event.event];
+      if (!fields) continue;
+
+      observations.push({
+        source: "email:sendgrid",
+        sourceRef: arg(event, SENDGRID_CUSTOM_ARGS.emailCampaignId),
+        campaignId: arg(event, SENDGRID_CUSTOM_ARGS.campaignId),
+        abTestId: arg(event, SENDGRID_CUSTOM_ARGS.abTestId),
+        variantId: arg(event, SENDGRID_CUSTOM_ARGS.variantId),
+        segment: arg(event, SENDGRID_CUSTOM_ARGS.segment),
+        occurredAt: occurredAt(event),
+        values: Object.fromEntries(fields.map((field) => [field, 1])),
+      });
+    }
+    return observations;
+  }
+
+  /**
+   * The payload's events per recipient, for their event history and
+   * suppression lists
+   */
+  deliveryEvents(payload: unknown): EmailDeliveryEvent[] {
+    const deliveryEvents: EmailDeliveryEvent[] = [];
+    for (const event of events(payload)) {
+      const type = EVENT_TYPES[event.event];
+      if (!type || typeof event.email !== "string") continue;
+
+      const metadata = Object.fromEntries(
+        ["status", "type", "bounce_classification", "asm_group_id"]
+          .filter((key) => event[key] !== undefined)
+          .map((key) => [key, event[key]]),
+      );
+      deliveryEvents.push({
+        provider: this.provider,
+        providerEventId:
+          event.sg_event_id ??
+          `${event.sg_message_id ?? event.email}:${event.event}:${event.timestamp}`,
+        type,
+        email: event.email,
+        occurredAt: occurredAt(event),
+        workspaceId: arg(event, SENDGRID_CUSTOM_ARGS.workspaceId),
+        messageId: event.sg_message_id,
+        emailCampaignId: arg(event, SENDGRID_CUSTOM_ARGS.emailCampaignId),
+        url: arg(event, "url"),
+        reason: arg(event, "reason"),
+        // Blocks are temporary refusals by the receiving server
+        permanent: type === "BOUNCE" ? event.type !== "blocked" : undefined,
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+      });
+    }
+    return deliveryEvents;
+  }
+}
+
+function events(payload: unknown): SendGridEvent[] {
+  if (!Array.isArray(payload)) {
+    throw new MetricsWebhookError(
+      "SendGrid events must be a JSON array",
+      "INVALID_PAYLOAD",
+    );
+  }
+  for (const event of payload as SendGridEvent[]) {
+    if (!event || typeof event.event !== "string") {
+      throw new MetricsWebhookError(
+        "SendGrid event without an event type",
+        "INVALID_PAYLOAD",
+      );
+    }
+  }
+  return payload;
+}
+
+function arg(event: SendGridEvent, name: string): string | undefined {
+  return typeof event[name] === "string" && event[name]
+    ? (event[name] as string)
+    : undefined;
+}
+
+function occurredAt(event: SendGridEvent): Date {
+  return Number.isFinite(event.timestamp)
+    ? new Date(event.timestamp * 1000)
+    : new Date();
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import { abTestSink, smartSchedulerSink } from "./sinks";
+import { emptyTotals, type MetricsUpdate } from "./types";
+
+const update = (overrides: Partial<MetricsUpdate> = {}): MetricsUpdate => ({
+  source: "email:sendgrid",
+  sourceRef: "email_1",
+  campaignId: "campaign_1",
+  delta: { ...emptyTotals(), impressions: 200, opens: 50, clicks: 10 },
+  totals: { ...emptyTotals(), impressions: 1000, opens: 300, clicks: 40 },
+  ...overrides,
+});
+
+describe("abTestSink", () => {
+  it("passes variant totals to the A/B testing manager", async () => {
+    const updateTestMetrics = jest.fn(async () => undefined);
+    const sink = abTestSink({ updateTestMetrics });
+
+    await sink(update());
+    expect(updateTestMetrics).not.toHaveBeenCalled();
+
+    await sink(
+      update({
+        abTestId: "test_1",
+        variantId: "b",
+        variantTotals: { ...emptyTotals(), impressions: 500, opens: 120 },
+      }),
+    );
+    expect(updateTestMetrics).toHaveBeenCalledWith("test_1", "b", {
+      impressions: 500,
+      opens: 120,
+      clicks: 0,
+      conversions: 0,
+      revenue: 0,
+      bounces: 0,
+      unsubscribes: 0,
+    });
+  });
+});
+
+describe("smartSchedulerSink", () => {
+  it("reports the new counts against the local send time", async () => {
+    const updatePerformanceData = jest.fn(async () => undefined);
+    const sink = smartSchedulerSink({ updatePerformanceData });
+
+    await sink(
+      update({
+        sentAt: new Date("2026-03-02T14:30:00Z"),
+        timezone: "America/New_York",
+        segment: "vip",
+      }),
+    );
+
+    const [campaignId, slot, performance] = updatePerformanceData.mock
+      .calls[0] as any[];
+    expect(campaignId).toBe("campaign_1");
+    expect(slot).toMatchObject({
+      dayOfWeek: "Monday",
+      hour: 9,
+      minute: 30,
+      timezone: "America/New_York",
+      audience: { segment: "vip", size: 1000 },
+    });
+    expect(performance).toMatchObject({
+      openRate: 25,
+      clickRate: 5,
+      engagementScore: 25,
+      sampleSize: 200,
+    });
+  });
+
+  it("ignores updates without a send time or new impressions", async () => {
+    const updatePerformanceData = jest.fn(async () => undefined);
+    const sink = smartSchedulerSink({ updatePerformanceData });
+
+    await sink(update());
+    await sink(update({ sentAt: new Date(), delta: emptyTotals() }));
+
+    expect(updatePerformanceData).not.toHaveBeenCalled();
+  });
+});
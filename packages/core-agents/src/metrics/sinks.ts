@@ -0,0 +1,90 @@
+import type { ABTestingManager } from "../strategy/ab-testing-manager";
+import type {
+  PerformanceData,
+  ScheduleSlot,
+  SmartScheduler,
+} from "../strategy/smart-scheduler";
+import { toLocalDateTime } from "../connectors/time-zones";
+import type { MetricsSink } from "./types";
+
+const DAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * Keeps running A/B tests on the ingested totals of each variant
+ */
+export function abTestSink(
+  manager: Pick<ABTestingManager, "updateTestMetrics">,
+): MetricsSink {
+  return async (update) => {
+    if (!update.abTestId || !update.variantId || !update.variantTotals) return;
+    const totals = update.variantTotals;
+    await manager.updateTestMetrics(update.abTestId, update.variantId, {
+      impressions: totals.impressions,
+      opens: totals.opens,
+      clicks: totals.clicks,
+      conversions: totals.conversions,
+      revenue: totals.revenue,
+      bounces: totals.bounces,
+      unsubscribes: totals.unsubscribes,
+    });
+  };
+}
+
+/**
+ * Teaches the SmartScheduler how each send time performed. Only the new
+ * counts are passed on, weighted by the impressions they came from.
+ */
+export function smartSchedulerSink(
+  scheduler: Pick<SmartScheduler, "updatePerformanceData">,
+): MetricsSink {
+  return async (update) => {
+    const { delta, sentAt } = update;
+    if (!sentAt || delta.impressions <= 0) return;
+
+    const timezone = update.timezone ?? "UTC";
+    const local = toLocalDateTime(sentAt, timezone);
+    const dayOfWeek = new Date(
+      Date.UTC(local.year, local.month - 1, local.day),
+    ).getUTCDay();
+    const isEmail = update.source.startsWith("email:");
+    const rate = (count: number, base: number) =>
+      base > 0 ? (count / base) * 100 : 0;
+
+    const performance: PerformanceData = {
+      openRate: rate(delta.opens, delta.impressions),
+      clickRate: rate(delta.clicks, delta.impressions),
+      conversionRate: rate(delta.conversions, delta.clicks),
+      engagementScore: Math.min(
+        100,
+        rate(isEmail ? delta.opens : delta.engagements, delta.impressions),
+      ),
+      sampleSize: delta.impressions,
+      lastUpdated: new Date(),
+    };
+    const slot: ScheduleSlot = {
+      id: `${update.source}:${update.sourceRef}`,
+      timestamp: sentAt,
+      timezone,
+      dayOfWeek: DAY_NAMES[dayOfWeek]!,
+      hour: local.hour,
+      minute: local.minute,
+      audience: {
+        segment: update.segment ?? "all",
+        size: update.totals.impressions,
+        expectedEngagement: performance.engagementScore / 100,
+      },
+      priority: "primary",
+      performance: { historical: performance, predicted: performance },
+    };
+
+    await scheduler.updatePerformanceData(update.campaignId, slot, performance);
+  };
+}
@@ -0,0 +1,111 @@
+import { logger } from "@neon/utils";
+import { db, type PrismaClient, type SocialSchedule } from "@neon/data-model";
+import { SocialPublisher } from "../connectors/social-publisher";
+import type { MetricObservation, MetricsPuller, MetricValues } from "./types";
+
+export interface SocialInsightsPullerOptions {
+  publisher?: SocialPublisher;
+  // Posts older than this are no longer refreshed
+  lookbackDays?: number;
+  // Minimum time between two refreshes of a post
+  refreshMinutes?: number;
+  batchSize?: number;
+}
+
+// Engagement keys counted as engagements; the rest map onto their own field
+const ENGAGEMENT_KEYS = ["likes", "comments", "shares", "saves"];
+
+/**
+ * Refreshes the insights of recently published posts through their
+ * platform connectors. Platforms report lifetime totals, so observations
+ * carry the difference to the totals stored on the post.
+ */
+export class SocialInsightsPuller implements MetricsPuller {
+  readonly name = "social-insights";
+  private prisma: PrismaClient;
+  private publisher: SocialPublisher;
+  private lookbackDays: number;
+  private refreshMinutes: number;
+  private batchSize: number;
+
+  constructor(
+    prisma?: PrismaClient,
+    options: SocialInsightsPullerOptions = {},
+  ) {
+    this.prisma = prisma || db;
+    this.publisher = options.publisher ?? new SocialPublisher(this.prisma);
+    this.lookbackDays = options.lookbackDays ?? 30;
+    this.refreshMinutes = options.refreshMinutes ?? 60;
+    this.batchSize = options.batchSize ?? 50;
+  }
+
+  async pull(): Promise<MetricObservation[]> {
+    const now = Date.now();
+    const posts = await this.prisma.socialSchedule.findMany({
+      where: {
+        status: "PUBLISHED",
+        externalPostId: { not: null },
+        publishedAt: { gte: new Date(now - this.lookbackDays * 86_400_000) },
+        OR: [
+          { metricsAt: null },
+          { metricsAt: { lt: new Date(now - this.refreshMinutes * 60_000) } },
+        ],
+      },
+      orderBy: { metricsAt: { sort: "asc", nulls: "first" } },
+      take: this.batchSize,
+    });
+
+    const observations: MetricObservation[] = [];
+    for (const post of posts) {
+      try {
+        const refreshed = await this.publisher.syncMetrics(post.id);
+        observations.push({
+          source: `social:${post.platform}`,
+          sourceRef: post.id,
+          abTestId: post.abTestId ?? undefined,
+          variantId: post.variantId ?? undefined,
+          occurredAt: refreshed.metricsAt ?? new Date(),
+          values: subtract(metricsOf(refreshed), metricsOf(post)),
+          sentAt: post.publishedAt ?? undefined,
+          timezone: post.timezone ?? undefined,
+        });
+      } catch (error) {
+        logger.warn(
+          "Failed to refresh post insights",
+          { scheduleId: post.id, platform: post.platform, error },
+          "SocialInsightsPuller",
+        );
+      }
+    }
+    return observations;
+  }
+}
+
+// Totals stored on a post by SocialPublisher.syncMetrics
+function metricsOf(post: SocialSchedule): MetricValues {
+  const engagement = (post.engagement ?? {}) as Record<string, number>;
+  return {
+    impressions: post.impressions ?? 0,
+    reach: post.reach ?? 0,
+    views: engagement.views ?? 0,
+    clicks: engagement.clicks ?? 0,
+    conversions: engagement.conversions ?? 0,
+    spend: engagement.spend ?? 0,
+    engagements: ENGAGEMENT_KEYS.reduce(
+      (sum, key) => sum + (engagement[key] ?? 0),
+      0,
+    ),
+  };
+}
+
+function subtract(after: MetricValues, before: MetricValues): MetricValues {
+  const delta: MetricValues = {};
+  for (const [field, value] of Object.entries(after) as [
+    keyof MetricValues,
+    number,
+  ][]) {
+    const change = value - (before[field] ?? 0);
+    if (change !== 0) delta[field] = change;
+  }
+  return delta;
+}
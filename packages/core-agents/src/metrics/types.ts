@@ -0,0 +1,131 @@
+/**
+ * Metrics arrive as observations: counts added since the last observation
+ * of the same source, from pullers (platform insights APIs) or webhook
+ * receivers (provider events). The ingestor stores them as CampaignMetric
+ * time series and passes the totals on to sinks.
+ */
+
+export const METRIC_FIELDS = [
+  "impressions",
+  "reach",
+  "views",
+  "opens",
+  "clicks",
+  "engagements",
+  "conversions",
+  "delivered",
+  "bounces",
+  "complaints",
+  "unsubscribes",
+  "spend",
+  "revenue",
+] as const;
+
+export type MetricField = (typeof METRIC_FIELDS)[number];
+
+export type MetricValues = Partial<Record<MetricField, number>>;
+export type MetricTotals = Record<MetricField, number>;
+
+export interface MetricObservation {
+  // Where the numbers come from, e.g. "social:TWITTER" or "email:sendgrid"
+  source: string;
+  // SocialSchedule or EmailCampaign id the numbers belong to
+  sourceRef?: string | undefined;
+  // Looked up from the source when missing
+  campaignId?: string | undefined;
+  abTestId?: string | undefined;
+  variantId?: string | undefined;
+  occurredAt: Date;
+  values: MetricValues;
+  // When the post or email went out, for send-time learning
+  sentAt?: Date | undefined;
+  timezone?: string | undefined;
+  segment?: string | undefined;
+}
+
+/**
+ * Fetches new observations on a schedule, e.g. post insights
+ */
+export interface MetricsPuller {
+  readonly name: string;
+  pull(): Promise<MetricObservation[]>;
+}
+
+/**
+ * A webhook request as received, for signature checks
+ */
+export interface WebhookDelivery {
+  rawBody: string;
+  // Lower-cased header names
+  headers: Record<string, string | undefined>;
+}
+
+/**
+ * Turns a provider's webhook payload into observations
+ */
+export interface WebhookReceiver {
+  readonly provider: string;
+  parse(payload: unknown): MetricObservation[];
+  /**
+   * Checks the provider's signature. Returns false when no signing key is
+   * configured and throws INVALID_SIGNATURE when the signature is wrong.
+   */
+  verify?(delivery: WebhookDelivery): boolean;
+}
+
+/**
+ * Gets the parsed payload of every webhook from a provider, before its
+ * metrics are ingested
+ */
+export type WebhookListener = (payload: unknown) => Promise<void> | void;
+
+/**
+ * What changed for one source in an ingest, with its running totals
+ */
+export interface MetricsUpdate {
+  source: string;
+  sourceRef: string;
+  campaignId: string;
+  abTestId?: string | undefined;
+  variantId?: string | undefined;
+  delta: MetricTotals;
+  totals: MetricTotals;
+  // Totals of every source counting towards the A/B test variant
+  variantTotals?: MetricTotals | undefined;
+  sentAt?: Date | undefined;
+  timezone?: string | undefined;
+  segment?: string | undefined;
+}
+
+export type MetricsSink = (update: MetricsUpdate) => Promise<void> | void;
+
+export interface IngestSummary {
+  recorded: number;
+  // Observations that could not be tied to a campaign
+  skipped: number;
+}
+
+export type MetricsWebhookErrorCode =
+  | "UNKNOWN_PROVIDER"
+  | "INVALID_PAYLOAD"
+  | "INVALID_SIGNATURE";
+
+export class MetricsWebhookError extends Error {
+  constructor(
+    message: string,
+    readonly code: MetricsWebhookErrorCode,
+  ) {
+    super(message);
+    this.name = "MetricsWebhookError";
+  }
+}
+
+export function emptyTotals(): MetricTotals {
+  const totals = {} as MetricTotals;
+  for (const field of METRIC_FIELDS) totals[field] = 0;
+  return totals;
+}
+
+export function addValues(totals: MetricTotals, values: MetricValues): void {
+  for (const field of METRIC_FIELDS) totals[field] += values[field] ?? 0;
+}
@@ -0,0 +1,388 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { BehaviorRules } from "./behavior-rules";
+import { RuleActions } from "./rule-actions";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000);
+
+describe("BehaviorRules", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let jobs: any[];
+  let enrollments: any[];
+  let behaviorRules: BehaviorRules;
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", { id: "ws_1", name: "One", slug: "one" });
+    db.seed("user", { id: "user_1", email: "ada@example.com" });
+    db.seed("userSegment", {
+      id: "seg_1",
+      workspaceId: "ws_1",
+      name: "Founders",
+      criteria: {},
+    });
+    jobs = [];
+    enrollments = [];
+    const jobQueue: any = {
+      enqueue: async (input: any) => {
+        const existing = jobs.find(
+          (job) => job.idempotencyKey === input.idempotencyKey,
+        );
+        if (existing) return existing;
+        const job = { id: `job_${jobs.length + 1}`, ...input };
+        jobs.push(job);
+        return job;
+      },
+    };
+    const sequences: any = {
+      enroll: async (workspaceId: string, sequenceId: string, list: any[]) => {
+        enrollments.push({ workspaceId, sequenceId, ...list[0] });
+        return {
+          enrolled: [{ id: `enrollment_${enrollments.length}` }],
+          skipped: [],
+        };
+      },
+    };
+    behaviorRules = new BehaviorRules(db.prisma, {
+      actions: new RuleActions(db.prisma, { jobs: jobQueue, sequences }),
+    });
+
+    db.seed("userPersona", {
+      id: "persona_1",
+      segmentId: "seg_1",
+      name: "Busy founder",
+      preferredTone: "casual",
+      painPoints: [],
+      goals: [],
+      demographics: { age: 38 },
+    });
+    // Three pricing page views this week, one last month
+    for (const days of [1, 2, 3, 40]) {
+      db.seed("userBehaviorLog", {
+        workspaceId: "ws_1",
+        userId: "user_1",
+        eventType: "page_view",
+        eventData: { url: days === 2 ? "/blog" : "/pricing" },
+        timestamp: daysAgo(days),
+      });
+    }
+  });
+
+  it("fires a trigger whose conditions are met and records the run", async () => {
+    db.seed("behaviorTrigger", {
+      id: "trigger_1",
+      workspaceId: "ws_1",
+      personaId: "persona_1",
+      name: "Pricing interest",
+      triggerType: "REPEAT_VISITOR",
+      isActive: true,
+      conditions: {
+        expression:
+          'events("page_view" where url = "/pricing") >= 2 within 7d and in segment "seg_1"',
+      },
+      action: [
+        { type: "email_sequence", sequenceId: "sequence_1" },
+        { type: "adapt_tone", content: "Plans start at $29." },
+        { type: "show_content", content: "pricing-faq" },
+      ],
+      executionCount: 3,
+      successCount: 2,
+      successRate: 2 / 3,
+    });
+
+    const run = await behaviorRules.fireTrigger("ws_1", "trigger_1", {
+      userId: "user_1",
+      context: {},
+      eventId: "event_1",
+    });
+
+    expect(run.triggered).toBe(true);
+    expect(run.results).toEqual([
+      { type: "email_sequence", success: true, enrollmentId: "enrollment_1" },
+      { type: "adapt_tone", success: true, jobId: "job_1" },
+      {
+        type: "show_content",
+        success: true,
+        directive: { type: "show_content", content: "pricing-faq" },
+      },
+    ]);
+    // The user's address is looked up for the enrollment
+    expect(enrollments[0]).toMatchObject({
+      workspaceId: "ws_1",
+      sequenceId: "sequence_1",
+      email: "ada@example.com",
+    });
+    // The persona's tone is the target
+    expect(jobs[0]).toMatchObject({
+      agentType: "rule-actions",
+      idempotencyKey: "trigger:trigger_1:event_1",
+      payload: {
+        source: { kind: "trigger", id: "trigger_1" },
+        succeeded: true,
+        tasks: [
+          {
+            agentType: "brand-voice",
+            task: "adapt_tone",
+            payload: { context: { targetTone: "casual" } },
+          },
+        ],
+      },
+    });
+    // The run counts once its job is done
+    expect(db.tables.behaviorTrigger![0]!.executionCount).toBe(3);
+
+    const tasks: any[] = [];
+    const handler = behaviorRules.createJobHandler(async (task) => {
+      tasks.push(task);
+      return { success: true };
+    });
+    await handler({ ...jobs[0], attempts: 1, maxAttempts: 3 });
+
+    expect(tasks[0]).toMatchObject({
+      agentType: "brand-voice",
+      task: "adapt_tone",
+      workspaceId: "ws_1",
+    });
+    expect(db.tables.behaviorTrigger![0]).toMatchObject({
+      executionCount: 4,
+      successRate: 0.75,
+    });
+    expect(db.tables.userBehaviorLog!.at(-1)).toMatchObject({
+      eventType: "trigger_repeat_visitor",
+      eventData: { triggerId: "trigger_1", success: true },
+    });
+  });
+
+  it("leaves a trigger alone when its conditions are not met", async () => {
+    db.seed("behaviorTrigger", {
+      id: "trigger_1",
+      workspaceId: "ws_1",
+      name: "Frequent visitor",
+      triggerType: "REPEAT_VISITOR",
+      isActive: true,
+      conditions: { expression: 'events("page_view") >= 5 within 7d' },
+      action: { type: "support_reply" },
+      executionCount: 0,
+      successRate: 0,
+    });
+
+    const run = await behaviorRules.fireTrigger("ws_1", "trigger_1", {
+      userId: "user_1",
+      context: {},
+    });
+    expect(run).toEqual({ triggered: false, success: false, results: [] });
+    expect(db.tables.behaviorTrigger![0]!.executionCount).toBe(0);
+    expect(jobs).toHaveLength(0);
+  });
+
+  it("counts a run as failed when one of its actions fails", async () => {
+    db.seed("behaviorTrigger", {
+      id: "trigger_1",
+      workspaceId: "ws_1",
+      name: "Chat opened",
+      triggerType: "ENGAGEMENT_LEVEL",
+      isActive: true,
+      // Saved before conditions were expressions
+      conditions: { widget: "chat" },
+      action: { type: "support_reply", priority: "high" },
+      executionCount: 1,
+      successCount: 1,
+      successRate: 1,
+    });
+
+    const failed = await behaviorRules.fireTrigger("ws_1", "trigger_1", {
+      sessionId: "session_1",
+      context: { widget: "chat" },
+    });
+    expect(failed.results).toEqual([
+      {
+        type: "support_reply",
+        success: false,
+        error: "No message to reply to",
+      },
+    ]);
+    expect(db.tables.behaviorTrigger![0]!.successRate).toBe(0.5);
+
+    await behaviorRules.fireTrigger("ws_1", "trigger_1", {
+      sessionId: "session_1",
+      context: { widget: "chat", message: "Where is my order?" },
+      eventId: "event_2",
+    });
+    expect(jobs[0]).toMatchObject({
+      agentType: "rule-actions",
+      priority: "high",
+      payload: {
+        tasks: [
+          {
+            agentType: "support",
+            task: "auto_respond",
+            payload: {
+              priority: "high",
+              context: {
+                message: "Where is my order?",
+                customer: { customerId: "session_1" },
+              },
+            },
+          },
+        ],
+      },
+    });
+
+    // Retried until the last attempt, which counts as a failed run
+    const handler = behaviorRules.createJobHandler(async () => {
+      throw new Error("Model unavailable");
+    });
+    await expect(
+      handler({ ...jobs[0], attempts: 1, maxAttempts: 2 }),
+    ).rejects.toThrow("Model unavailable");
+    expect(db.tables.behaviorTrigger![0]!.executionCount).toBe(2);
+    await expect(
+      handler({ ...jobs[0], attempts: 2, maxAttempts: 2 }),
+    ).rejects.toThrow("Model unavailable");
+    expect(db.tables.behaviorTrigger![0]).toMatchObject({
+      executionCount: 3,
+      successRate: 1 / 3,
+    });
+  });
+
+  it("keeps every run of concurrent jobs in the statistics", async () => {
+    db.seed("behaviorTrigger", {
+      id: "trigger_1",
+      workspaceId: "ws_1",
+      name: "Chat opened",
+      triggerType: "ENGAGEMENT_LEVEL",
+      isActive: true,
+      conditions: { widget: "chat" },
+      action: { type: "support_reply" },
+    });
+    for (const eventId of ["event_1", "event_2", "event_3"]) {
+      await behaviorRules.fireTrigger("ws_1", "trigger_1", {
+        sessionId: "session_1",
+        context: { widget: "chat", message: "Hello?" },
+        eventId,
+      });
+    }
+
+    let calls = 0;
+    const handler = behaviorRules.createJobHandler(async () => {
+      if (++calls === 2) throw new Error("Model unavailable");
+      return { success: true };
+    });
+    await Promise.allSettled(
+      jobs.map((job) => handler({ ...job, attempts: 1, maxAttempts: 1 })),
+    );
+
+    expect(db.tables.behaviorTrigger![0]).toMatchObject({
+      executionCount: 3,
+      successCount: 2,
+      successRate: 2 / 3,
+    });
+  });
+
+  it("refuses inactive triggers", async () => {
+    db.seed("behaviorTrigger", {
+      id: "trigger_1",
+      workspaceId: "ws_1",
+      name: "Paused",
+      triggerType: "PAGE_VISIT",
+      isActive: false,
+      conditions: {},
+      action: { type: "show_content", content: "pricing-faq" },
+    });
+    await expect(
+      behaviorRules.fireTrigger("ws_1", "trigger_1", { context: {} }),
+    ).rejects.toMatchObject({ code: "INACTIVE" });
+    await expect(
+      behaviorRules.fireTrigger("ws_2", "trigger_1", { context: {} }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("applies matching personalization rules by priority", async () => {
+    db.seed("personalizationRule", [
+      {
+        id: "rule_low",
+        workspaceId: "ws_1",
+        name: "Evening offer",
+        ruleType: "OFFER",
+        priority: 1,
+        isActive: true,
+        conditions: { expression: 'plan = "free"' },
+        actions: { ctaText: "Upgrade tonight" },
+        executionCount: 0,
+        successRate: 0,
+      },
+      {
+        id: "rule_high",
+        workspaceId: "ws_1",
+        name: "Founder tone",
+        ruleType: "TONE",
+        priority: 5,
+        isActive: true,
+        conditions: {
+          type: "compare",
+          field: "persona.demographics.age",
+          op: "gte",
+          value: 30,
+        },
+        actions: { targetTone: "casual" },
+        executionCount: 0,
+        successRate: 0,
+      },
+      {
+        id: "rule_other",
+        workspaceId: "ws_1",
+        name: "Pro users",
+        ruleType: "CONTENT",
+        priority: 3,
+        isActive: true,
+        conditions: { expression: 'plan = "pro"' },
+        actions: { contentToShow: ["changelog"] },
+        executionCount: 0,
+        successRate: 0,
+      },
+    ]);
+
+    const runs = await behaviorRules.applyRules("ws_1", {
+      userId: "user_1",
+      personaId: "persona_1",
+      context: { plan: "free" },
+    });
+    expect(runs.map(({ rule, results }) => [rule.id, results[0]])).toEqual([
+      [
+        "rule_high",
+        {
+          type: "personalize",
+          success: true,
+          directive: { type: "personalize", targetTone: "casual" },
+        },
+      ],
+      [
+        "rule_low",
+        {
+          type: "personalize",
+          success: true,
+          directive: { type: "personalize", ctaText: "Upgrade tonight" },
+        },
+      ],
+    ]);
+    expect(
+      db.tables.personalizationRule!.map((rule) => rule.executionCount),
+    ).toEqual([1, 1, 0]);
+  });
+
+  it("rejects invalid conditions and actions before they are saved", () => {
+    expect(() =>
+      behaviorRules.check({ expression: "visits >" }, { type: "adapt_tone" }),
+    ).toThrow(expect.objectContaining({ code: "INVALID_CONDITION" }));
+    expect(() =>
+      behaviorRules.check({ expression: "visits > 2" }, [
+        { type: "email_sequence" },
+      ]),
+    ).toThrow(
+      expect.objectContaining({
+        code: "INVALID_ACTION",
+        issues: ["Action 1: email_sequence needs a sequenceId"],
+      }),
+    );
+  });
+});
@@ -0,0 +1,492 @@
+import {
+  db,
+  type BehaviorTrigger,
+  type BehaviorTriggerType,
+  type PersonalizationRule,
+  type Prisma,
+  type PersonalizationRuleType,
+  type PrismaClient,
+  type UserPersona,
+} from "@neon/data-model";
+import { logger } from "@neon/utils";
+import {
+  createAgentJobHandler,
+  PermanentJobError,
+  type JobHandler,
+} from "../queue";
+import {
+  RuleActions,
+  ruleActions,
+  type ActionResult,
+  type ActionRun,
+  type RuleAction,
+  type RuleActionsJobPayload,
+  type RuleRunSource,
+} from "./rule-actions";
+import {
+  evaluateCondition,
+  matchesEventData,
+  PersonalizationError,
+  ruleCondition,
+  type EventQuery,
+  type RuleCondition,
+  type RuleFacts,
+} from "./rule-conditions";
+
+/**
+ * Evaluates behaviour triggers and personalization rules for a user and
+ * carries out the actions of those whose conditions are met. Every run
+ * counts towards the trigger's or rule's `executionCount`, and
+ * `successRate` is the share of runs whose actions all succeeded. A run
+ * with queued agent tasks is counted once its job has finished.
+ */
+
+// Who the rules are evaluated for, and what they just did
+export interface RuleSubject {
+  userId?: string | undefined;
+  sessionId?: string | undefined;
+  context: Record<string, unknown>;
+  personaId?: string | undefined;
+  // Segments the user is known to belong to
+  segmentIds?: string[] | undefined;
+  // Identifies the event being handled, so its actions run once
+  eventId?: string | undefined;
+  timeZone?: string | undefined;
+}
+
+// Where segment membership comes from, besides the subject itself
+export interface SegmentMembership {
+  segmentIdsFor(
+    workspaceId: string,
+    subject: { userId?: string | undefined; sessionId?: string | undefined },
+  ): Promise<string[]>;
+}
+
+export interface BehaviorRulesOptions {
+  actions?: RuleActions;
+  segments?: SegmentMembership;
+  // Events read when an events condition filters on event data
+  maxEventsScanned?: number;
+}
+
+export interface TriggerRun {
+  triggered: boolean;
+  success: boolean;
+  results: ActionResult[];
+}
+
+export interface FiredTrigger extends TriggerRun {
+  triggerId: string;
+}
+
+export interface RuleRun {
+  rule: Pick<PersonalizationRule, "id" | "name" | "ruleType" | "priority">;
+  success: boolean;
+  results: ActionResult[];
+}
+
+type TriggerWithPersona = BehaviorTrigger & { persona: UserPersona | null };
+
+export class BehaviorRules {
+  private prisma: PrismaClient;
+  private actions: RuleActions;
+  private segments: SegmentMembership | undefined;
+  private maxEventsScanned: number;
+
+  constructor(prisma?: PrismaClient, options: BehaviorRulesOptions = {}) {
+    this.prisma = prisma || db;
+    this.actions = options.actions ?? new RuleActions(this.prisma);
+    this.segments = options.segments;
+    this.maxEventsScanned = options.maxEventsScanned ?? 1000;
+  }
+
+  /**
+   * Check the conditions and actions of a trigger or rule before saving it
+   */
+  check(conditions: unknown, actions: unknown): void {
+    ruleCondition(conditions);
+    ruleActions(actions);
+  }
+
+  /**
+   * Whether a condition holds for the subject, without running anything
+   */
+  async test(
+    workspaceId: string,
+    conditions: unknown,
+    subject: RuleSubject,
+  ): Promise<{ matched: boolean; condition: RuleCondition }> {
+    const condition = ruleCondition(conditions);
+    const persona = await this.persona(workspaceId, subject.personaId);
+    return {
+      matched: await evaluateCondition(
+        condition,
+        await this.facts(workspaceId, subject, persona),
+      ),
+      condition,
+    };
+  }
+
+  /**
+   * Run a trigger for the subject if its conditions are met
+   */
+  async fireTrigger(
+    workspaceId: string,
+    triggerId: string,
+    subject: RuleSubject,
+  ): Promise<TriggerRun> {
+    const trigger: TriggerWithPersona | null =
+      await this.prisma.behaviorTrigger.findFirst({
+        where: { id: triggerId, workspaceId },
+        include: { persona: true },
+      });
+    if (!trigger) {
+      throw new PersonalizationError("Behavior trigger not found", "NOT_FOUND");
+    }
+    if (!trigger.isActive) {
+      throw new PersonalizationError(
+        "Behavior trigger is inactive",
+        "INACTIVE",
+      );
+    }
+
+    const persona =
+      trigger.persona ?? (await this.persona(workspaceId, subject.personaId));
+    const facts = await this.facts(workspaceId, subject, persona);
+    if (!(await evaluateCondition(ruleCondition(trigger.conditions), facts))) {
+      return { triggered: false, success: false, results: [] };
+    }
+
+    const source: RuleRunSource = { kind: "trigger", id: trigger.id };
+    const { results, job } = await this.run(
+      ruleActions(trigger.action),
+      workspaceId,
+      subject,
+      persona,
+      source,
+      `trigger:${trigger.id}:${subject.eventId ?? Date.now()}`,
+    );
+    const success = results.every((result) => result.success);
+    if (!job) await this.recordRun(source, success);
+
+    if (subject.userId || subject.sessionId) {
+      await this.prisma.userBehaviorLog.create({
+        data: {
+          workspaceId,
+          userId: subject.userId ?? null,
+          sessionId: subject.sessionId ?? null,
+          eventType: `trigger_${trigger.triggerType.toLowerCase()}`,
+          eventData: {
+            triggerId: trigger.id,
+            triggerName: trigger.name,
+            success,
+            results: results as unknown as Prisma.InputJsonValue,
+          },
+        },
+      });
+    }
+
+    logger.info(
+      "Behavior trigger fired",
+      { triggerId: trigger.id, success },
+      "BehaviorRules",
+    );
+    return { triggered: true, success, results };
+  }
+
+  /**
+   * Run every active trigger of the given types for the subject, e.g. on a
+   * tracked event. A trigger that fails is logged and the others still run.
+   */
+  async fireTriggers(
+    workspaceId: string,
+    triggerTypes: BehaviorTriggerType[],
+    subject: RuleSubject,
+  ): Promise<FiredTrigger[]> {
+    if (triggerTypes.length === 0) return [];
+    const triggers: Array<{ id: string }> =
+      await this.prisma.behaviorTrigger.findMany({
+        where: {
+          workspaceId,
+          isActive: true,
+          triggerType: { in: triggerTypes },
+        },
+        orderBy: { priority: "desc" },
+        select: { id: true },
+      });
+
+    const fired: FiredTrigger[] = [];
+    for (const { id } of triggers) {
+      try {
+        const run = await this.fireTrigger(workspaceId, id, subject);
+        if (run.triggered) fired.push({ triggerId: id, ...run });
+      } catch (error) {
+        logger.warn(
+          "Behavior trigger failed",
+          { triggerId: id, error },
+          "BehaviorRules",
+        );
+      }
+    }
+    return fired;
+  }
+
+  /**
+   * Run every active personalization rule whose conditions the subject
+   * meets, highest priority first
+   */
+  async applyRules(
+    workspaceId: string,
+    subject: RuleSubject,
+    filter: { ruleType?: PersonalizationRuleType | undefined } = {},
+  ): Promise<RuleRun[]> {
+    const rules: PersonalizationRule[] =
+      await this.prisma.personalizationRule.findMany({
+        where: {
+          workspaceId,
+          isActive: true,
+          ...(filter.ruleType && { ruleType: filter.ruleType }),
+        },
+        orderBy: [{ priority: "desc" }, { createdAt: "desc" }],
+      });
+    const persona = await this.persona(workspaceId, subject.personaId);
+    const facts = await this.facts(workspaceId, subject, persona);
+    const runs: RuleRun[] = [];
+
+    for (const rule of rules) {
+      let condition: RuleCondition;
+      let actions: RuleAction[];
+      try {
+        condition = ruleCondition(rule.conditions);
+        actions = ruleActions(rule.actions);
+      } catch (error) {
+        // Rules saved before conditions were checked
+        logger.warn(
+          "Skipping personalization rule with invalid conditions",
+          { ruleId: rule.id, error },
+          "BehaviorRules",
+        );
+        continue;
+      }
+      if (!(await evaluateCondition(condition, facts))) continue;
+
+      const source: RuleRunSource = { kind: "rule", id: rule.id };
+      const { results, job } = await this.run(
+        actions,
+        workspaceId,
+        subject,
+        persona,
+        source,
+        `rule:${rule.id}:${subject.eventId ?? Date.now()}`,
+      );
+      const success = results.every((result) => result.success);
+      if (!job) await this.recordRun(source, success);
+      runs.push({
+        rule: {
+          id: rule.id,
+          name: rule.name,
+          ruleType: rule.ruleType,
+          priority: rule.priority,
+        },
+        success,
+        results,
+      });
+    }
+    return runs;
+  }
+
+  /**
+   * Handler for the jobs that run triggers' and rules' agent tasks;
+   * register it on a JobWorker under RULE_ACTIONS_JOB_TYPE. The run is
+   * counted once its tasks are done, or as failed when its last attempt
+   * fails.
+   */
+  createJobHandler(runTask: JobHandler = createAgentJobHandler()): JobHandler {
+    return async (job) => {
+      const { source, succeeded, tasks } =
+        job.payload as unknown as RuleActionsJobPayload;
+
+      try {
+        const outputs: unknown[] = [];
+        for (const task of tasks) {
+          outputs.push(
+            await runTask({
+              ...job,
+              agentType: task.agentType,
+              task: task.task,
+              payload: task.payload as Prisma.JsonObject,
+            }),
+          );
+        }
+        await this.recordRun(source, succeeded);
+        return outputs;
+      } catch (error) {
+        if (
+          job.attempts >= job.maxAttempts ||
+          error instanceof PermanentJobError
+        ) {
+          await this.recordRun(source, false);
+        }
+        throw error;
+      }
+    };
+  }
+
+  private async run(
+    actions: RuleAction[],
+    workspaceId: string,
+    subject: RuleSubject,
+    persona: UserPersona | null,
+    source: RuleRunSource,
+    key: string,
+  ): Promise<ActionRun> {
+    return this.actions.run(
+      actions,
+      {
+        workspaceId,
+        userId: subject.userId,
+        sessionId: subject.sessionId,
+        context: subject.context,
+        persona: persona ?? undefined,
+        key,
+      },
+      source,
+    );
+  }
+
+  // Count a finished run towards its trigger's or rule's statistics. The
+  // counters are incremented in place so concurrent runs can't lose each
+  // other's results, and only the latest run writes the rate.
+  private async recordRun(
+    source: RuleRunSource,
+    success: boolean,
+  ): Promise<void> {
+    const where = { id: source.id };
+    const data = {
+      executionCount: { increment: 1 },
+      ...(success ? { successCount: { increment: 1 } } : {}),
+      lastExecuted: new Date(),
+    };
+    const select = { executionCount: true, successCount: true } as const;
+
+    try {
+      const counts =
+        source.kind === "trigger"
+          ? await this.prisma.behaviorTrigger.update({ where, data, select })
+          : await this.prisma.personalizationRule.update({
+              where,
+              data,
+              select,
+            });
+      const rate = {
+        where: { ...where, executionCount: counts.executionCount },
+        data: { successRate: counts.successCount / counts.executionCount },
+      };
+      if (source.kind === "trigger") {
+        await this.prisma.behaviorTrigger.updateMany(rate);
+      } else {
+        await this.prisma.personalizationRule.updateMany(rate);
+      }
+    } catch (error) {
+      // Deleted while the run was in flight
+      if ((error as { code?: string }).code === "P2025") return;
+      throw error;
+    }
+  }
+
+  private async persona(
+    workspaceId: string,
+    personaId: string | undefined,
+  ): Promise<UserPersona | null> {
+    if (!personaId) return null;
+    return this.prisma.userPersona.findFirst({
+      where: { id: personaId, segment: { workspaceId } },
+    });
+  }
+
+  private async facts(
+    workspaceId: string,
+    subject: RuleSubject,
+    persona: UserPersona | null,
+  ): Promise<RuleFacts> {
+    const segmentIds = new Set(subject.segmentIds ?? []);
+    if (persona) segmentIds.add(persona.segmentId);
+    if (this.segments && (subject.userId || subject.sessionId)) {
+      for (const id of await this.segments.segmentIdsFor(
+        workspaceId,
+        subject,
+      )) {
+        segmentIds.add(id);
+      }
+    }
+
+    return {
+      context: subject.context,
+      persona: persona ? personaFacts(persona) : undefined,
+      segmentIds: [...segmentIds],
+      now: new Date(),
+      timeZone: subject.timeZone,
+      countEvents: (query) =>
+        countLoggedEvents(
+          this.prisma,
+          workspaceId,
+          subject,
+          query,
+          this.maxEventsScanned,
+        ),
+    };
+  }
+}
+
+/**
+ * Count the logged events of a type for a user, or else a session. Events
+ * filtered on their data are read, at most `maxScanned` of them.
+ */
+export async function countLoggedEvents(
+  prisma: PrismaClient,
+  workspaceId: string,
+  subject: { userId?: string | undefined; sessionId?: string | undefined },
+  query: EventQuery,
+  maxScanned: number,
+): Promise<number> {
+  if (!subject.userId && !subject.sessionId) return 0;
+  const where: Prisma.UserBehaviorLogWhereInput = {
+    workspaceId,
+    eventType: query.event,
+    ...(subject.userId
+      ? { userId: subject.userId }
+      : { sessionId: subject.sessionId ?? null }),
+    ...(query.since && { timestamp: { gte: query.since } }),
+  };
+  if (!query.where) {
+    return prisma.userBehaviorLog.count({ where });
+  }
+
+  const events: Array<{ eventData: unknown }> =
+    await prisma.userBehaviorLog.findMany({
+      where,
+      select: { eventData: true },
+      orderBy: { timestamp: "desc" },
+      take: maxScanned,
+    });
+  return events.filter((event) =>
+    matchesEventData(
+      query.where!,
+      (event.eventData ?? {}) as Record<string, unknown>,
+    ),
+  ).length;
+}
+
+function personaFacts(persona: UserPersona): Record<string, unknown> {
+  return {
+    id: persona.id,
+    name: persona.name,
+    segmentId: persona.segmentId,
+    preferredTone: persona.preferredTone,
+    painPoints: persona.painPoints,
+    goals: persona.goals,
+    demographics: persona.demographics ?? {},
+    behaviorTraits: persona.behaviorTraits ?? {},
+    contentPreferences: persona.contentPreferences ?? {},
+  };
+}
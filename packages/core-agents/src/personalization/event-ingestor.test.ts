@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { EventIngestor } from "./event-ingestor";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60_000).toISOString();
+
+describe("EventIngestor", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let fired: any[];
+  let evaluated: any[];
+  let ingestor: EventIngestor;
+
+  const storedLogs = () => db.tables.userBehaviorLog!;
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", [
+      { id: "ws_1", name: "One", slug: "one" },
+      { id: "ws_2", name: "Two", slug: "two" },
+    ]);
+    db.seed("user", [
+      { id: "user_1", email: "Ada@example.com" },
+      { id: "user_2", email: "grace@example.com" },
+      { id: "user_3", email: "outsider@example.com" },
+    ]);
+    db.seed("workspaceMember", [
+      { workspaceId: "ws_1", userId: "user_1" },
+      { workspaceId: "ws_1", userId: "user_2" },
+      { workspaceId: "ws_2", userId: "user_3" },
+    ]);
+    fired = [];
+    evaluated = [];
+    const rules: any = {
+      fireTriggers: async (
+        _workspaceId: string,
+        types: string[],
+        subject: any,
+      ) => {
+        fired.push({ types, subject });
+        return types.includes("CONVERSION_EVENT")
+          ? [
+              {
+                triggerId: "trigger_1",
+                triggered: true,
+                success: true,
+                results: [],
+              },
+            ]
+          : [];
+      },
+    };
+    const segments: any = {
+      evaluateMember: async (_workspaceId: string, subject: any) => {
+        evaluated.push(subject);
+        return { joined: [], left: [] };
+      },
+    };
+    ingestor = new EventIngestor(db.prisma, { rules, segments });
+  });
+
+  it("stores valid events and reports the invalid ones", async () => {
+    const summary = await ingestor.ingest(
+      "ws_1",
+      {
+        events: [
+          {
+            id: "e1",
+            type: "page_view",
+            anonymousId: "anon_1",
+            url: "/pricing",
+            title: "Pricing",
+            timestamp: minutesAgo(3),
+          },
+          {
+            id: "e2",
+            type: "form_submit",
+            anonymousId: "anon_1",
+            formId: "demo",
+            fields: { company: "Engines Ltd" },
+          },
+          { id: "e3", type: "click", anonymousId: "anon_1" },
+          { id: "e4", type: "custom", name: "trigger_fake", userId: "user_1" },
+          { id: "e5", type: "page_view", url: "/" },
+          {
+            id: "e6",
+            type: "page_view",
+            anonymousId: "anon_1",
+            url: "/",
+            timestamp: Date.now() + 3_600_000,
+          },
+        ],
+      },
+      { userAgent: "Mozilla/5.0", ipAddress: "203.0.113.7" },
+    );
+
+    expect(summary).toMatchObject({
+      accepted: 2,
+      duplicates: 0,
+      identified: 0,
+      triggered: [{ eventId: "e2", triggerId: "trigger_1", success: true }],
+    });
+    expect(summary.rejected).toEqual([
+      { index: 2, id: "e3", issues: ["target: Required"] },
+      {
+        index: 3,
+        id: "e4",
+        issues: ["name: trigger_ events are recorded by behaviour triggers"],
+      },
+      {
+        index: 4,
+        id: "e5",
+        issues: ["event: needs an anonymousId, userId or sessionId"],
+      },
+      { index: 5, id: "e6", issues: ["timestamp: is in the future"] },
+    ]);
+    expect(storedLogs()[0]).toMatchObject({
+      workspaceId: "ws_1",
+      eventId: "e1",
+      anonymousId: "anon_1",
+      sessionId: "anon_1",
+      userId: null,
+      eventType: "page_view",
+      eventData: { url: "/pricing", title: "Pricing" },
+      userAgent: "Mozilla/5.0",
+      ipAddress: "203.0.113.7",
+    });
+    expect(storedLogs()[1]!.eventData).toEqual({
+      formId: "demo",
+      fields: { company: "Engines Ltd" },
+    });
+    expect(fired.map(({ types }) => types)).toEqual([
+      ["PAGE_VISIT", "REPEAT_VISITOR", "CONTENT_PREFERENCE"],
+      ["CONVERSION_EVENT", "ENGAGEMENT_LEVEL"],
+    ]);
+    expect(fired[1].subject).toMatchObject({
+      sessionId: "anon_1",
+      eventId: "e2",
+      context: { eventType: "form_submit", formId: "demo" },
+    });
+    expect(evaluated).toEqual([{ userId: undefined, sessionId: "anon_1" }]);
+  });
+
+  it("stores a retried event once", async () => {
+    const event = {
+      id: "e1",
+      type: "custom",
+      name: "video.played",
+      sessionId: "s_1",
+    };
+    expect(
+      await ingestor.ingest("ws_1", { events: [event, event] }),
+    ).toMatchObject({ accepted: 1, duplicates: 1 });
+    expect(await ingestor.ingest("ws_1", { events: [event] })).toMatchObject({
+      accepted: 0,
+      duplicates: 1,
+    });
+    expect(storedLogs()).toHaveLength(1);
+    expect(storedLogs()[0]!.eventType).toBe("video.played");
+  });
+
+  it("links anonymous visitors to the user they identify as", async () => {
+    await ingestor.ingest("ws_1", {
+      events: [
+        { id: "e1", type: "page_view", anonymousId: "anon_1", url: "/" },
+      ],
+    });
+    const summary = await ingestor.ingest("ws_1", {
+      events: [
+        {
+          id: "e2",
+          type: "identify",
+          anonymousId: "anon_1",
+          traits: { email: "ada@example.com", plan: "pro" },
+        },
+        { id: "e3", type: "page_view", anonymousId: "anon_2", url: "/" },
+        { id: "e4", type: "identify", anonymousId: "anon_3", userId: "user_9" },
+      ],
+    });
+
+    expect(summary.identified).toBe(1);
+    expect(summary.rejected).toEqual([
+      { index: 2, id: "e4", issues: ["userId: unknown user"] },
+    ]);
+    expect(db.tables.userIdentity).toEqual([
+      expect.objectContaining({
+        workspaceId: "ws_1",
+        anonymousId: "anon_1",
+        userId: "user_1",
+      }),
+    ]);
+    // The earlier page view is now the user's
+    expect(
+      storedLogs().map(({ eventId, userId }) => [eventId, userId]),
+    ).toEqual([
+      ["e1", "user_1"],
+      ["e2", "user_1"],
+      ["e3", null],
+    ]);
+    expect(storedLogs()[1]!.eventData).toEqual({
+      email: "ada@example.com",
+      plan: "pro",
+    });
+
+    // Later events of the visitor are attributed without identifying again
+    await ingestor.ingest("ws_1", {
+      events: [
+        { id: "e5", type: "click", anonymousId: "anon_1", target: "#buy" },
+      ],
+    });
+    expect(storedLogs().at(-1)!.userId).toBe("user_1");
+  });
+
+  it("only attributes events to members of the workspace", async () => {
+    const summary = await ingestor.ingest("ws_1", {
+      events: [
+        { id: "e1", type: "page_view", userId: "user_3", url: "/" },
+        {
+          id: "e2",
+          type: "identify",
+          anonymousId: "anon_1",
+          traits: { email: "outsider@example.com" },
+        },
+      ],
+    });
+
+    expect(summary.rejected).toEqual([
+      { index: 0, id: "e1", issues: ["userId: unknown user"] },
+    ]);
+    expect(summary.identified).toBe(0);
+    expect(storedLogs().map(({ userId }) => userId)).toEqual([null]);
+  });
+
+  it("attributes a signed-in user's batch to them alone", async () => {
+    const summary = await ingestor.ingest(
+      "ws_1",
+      {
+        events: [
+          { id: "e1", type: "page_view", anonymousId: "anon_1", url: "/" },
+          {
+            id: "e2",
+            type: "identify",
+            anonymousId: "anon_1",
+            traits: { email: "grace@example.com" },
+          },
+          { id: "e3", type: "page_view", userId: "user_2", url: "/" },
+        ],
+      },
+      { signedInUserId: "user_1" },
+    );
+
+    expect(summary.rejected).toEqual([
+      { index: 2, id: "e3", issues: ["userId: not the signed-in user"] },
+    ]);
+    expect(storedLogs().map(({ userId }) => userId)).toEqual([
+      "user_1",
+      "user_1",
+    ]);
+    expect(db.tables.userIdentity).toEqual([
+      expect.objectContaining({ anonymousId: "anon_1", userId: "user_1" }),
+    ]);
+  });
+
+  it("corrects timestamps for the client's clock", async () => {
+    const sentAt = new Date(Date.now() + 3_600_000);
+    await ingestor.ingest("ws_1", {
+      sentAt: sentAt.toISOString(),
+      events: [
+        {
+          id: "e1",
+          type: "page_view",
+          sessionId: "s_1",
+          url: "/",
+          timestamp: sentAt.getTime() - 60_000,
+        },
+      ],
+    });
+    const skew = Date.now() - 60_000 - storedLogs()[0]!.timestamp.getTime();
+    expect(Math.abs(skew)).toBeLessThan(1000);
+  });
+
+  it("refuses batches that are not a list of events", async () => {
+    await expect(ingestor.ingest("ws_1", { event: {} })).rejects.toMatchObject({
+      code: "INVALID_EVENTS",
+    });
+    await expect(ingestor.ingest("ws_1", { events: [] })).rejects.toMatchObject(
+      {
+        code: "INVALID_EVENTS",
+        issues: ["events: send between 1 and 500 events"],
+      },
+    );
+  });
+});
@@ -0,0 +1,522 @@
+import { z } from "zod";
+import {
+  db,
+  type BehaviorTriggerType,
+  type Prisma,
+  type PrismaClient,
+} from "@neon/data-model";
+import { logger } from "@neon/utils";
+import { BehaviorRules } from "./behavior-rules";
+import { PersonalizationError } from "./rule-conditions";
+import {
+  memberKey,
+  SegmentEngine,
+  type SegmentSubject,
+} from "./segment-engine";
+
+/**
+ * Takes batches of tracked behaviour (page views, clicks, form submits,
+ * identify calls and custom events), as sent by the EventTracker in
+ * @neon/utils. Events are validated one by one, stored once per event id
+ * in UserBehaviorLog, attributed to a user once their anonymous id has
+ * been identified, and then update the visitor's segments and fire the
+ * matching behaviour triggers.
+ */
+
+// The behaviour triggers each kind of event can fire
+export const EVENT_TRIGGER_TYPES: Record<string, BehaviorTriggerType[]> = {
+  page_view: ["PAGE_VISIT", "REPEAT_VISITOR", "CONTENT_PREFERENCE"],
+  click: ["ENGAGEMENT_LEVEL", "CONTENT_PREFERENCE"],
+  form_submit: ["CONVERSION_EVENT", "ENGAGEMENT_LEVEL"],
+  identify: [],
+  custom: ["CONVERSION_EVENT", "ENGAGEMENT_LEVEL"],
+};
+
+const id = z.string().min(1).max(128);
+const link = z.string().max(2048);
+
+const eventFields = {
+  // Generated by the tracker; a retried event is stored once
+  id,
+  anonymousId: id.optional(),
+  userId: id.optional(),
+  sessionId: id.optional(),
+  // ISO 8601 or milliseconds since the epoch; when received otherwise
+  timestamp: z
+    .union([z.string().datetime({ offset: true }), z.number().int().min(0)])
+    .optional(),
+  url: link.optional(),
+  referrer: link.optional(),
+  timeZone: z.string().max(64).optional(),
+  properties: z.record(z.unknown()).optional(),
+};
+
+const trackedEventSchema = z
+  .discriminatedUnion("type", [
+    z.object({
+      ...eventFields,
+      type: z.literal("page_view"),
+      url: link.min(1),
+      title: z.string().max(500).optional(),
+    }),
+    z.object({
+      ...eventFields,
+      type: z.literal("click"),
+      target: z.string().min(1).max(500),
+      href: link.optional(),
+    }),
+    z.object({
+      ...eventFields,
+      type: z.literal("form_submit"),
+      formId: z.string().min(1).max(200),
+      fields: z
+        .record(z.union([z.string().max(2000), z.number(), z.boolean()]))
+        .optional(),
+    }),
+    z.object({
+      ...eventFields,
+      type: z.literal("identify"),
+      traits: z.record(z.unknown()).optional(),
+    }),
+    z.object({
+      ...eventFields,
+      type: z.literal("custom"),
+      name: z
+        .string()
+        .regex(
+          /^[a-z][a-z0-9_.:-]{0,63}$/i,
+          "must start with a letter and use letters, digits, _ . : or -",
+        )
+        .refine((name) => !name.startsWith("trigger_"), {
+          message: "trigger_ events are recorded by behaviour triggers",
+        }),
+    }),
+  ])
+  .refine((event) => event.anonymousId || event.userId || event.sessionId, {
+    message: "needs an anonymousId, userId or sessionId",
+  });
+
+export type TrackedEvent = z.infer<typeof trackedEventSchema>;
+
+export interface RejectedEvent {
+  index: number;
+  id?: string | undefined;
+  issues: string[];
+}
+
+export interface EventBatchSummary {
+  accepted: number;
+  duplicates: number;
+  rejected: RejectedEvent[];
+  // Anonymous ids newly linked to a user
+  identified: number;
+  triggered: Array<{ eventId: string; triggerId: string; success: boolean }>;
+}
+
+// Request details applied to every event of a batch
+export interface EventBatchSource {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+  // The signed-in user a browser sent the batch for; its events are theirs
+  signedInUserId?: string | undefined;
+}
+
+export interface EventIngestorOptions {
+  rules?: BehaviorRules;
+  segments?: SegmentEngine;
+  maxBatchSize?: number;
+  // Older events are rejected
+  maxEventAgeHours?: number;
+}
+
+interface AcceptedEvent {
+  event: TrackedEvent;
+  timestamp: Date;
+  userId: string | undefined;
+  sessionId: string | undefined;
+}
+
+// Clocks of clients may run a little fast
+const MAX_CLOCK_AHEAD_MS = 5 * 60 * 1000;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value : undefined;
+
+function eventType(event: TrackedEvent): string {
+  return event.type === "custom" ? event.name : event.type;
+}
+
+function eventData(event: TrackedEvent): Record<string, unknown> {
+  const common = { ...event.properties, ...(event.url && { url: event.url }) };
+  switch (event.type) {
+    case "page_view":
+      return { ...common, ...(event.title && { title: event.title }) };
+    case "click":
+      return {
+        ...common,
+        target: event.target,
+        ...(event.href && { href: event.href }),
+      };
+    case "form_submit":
+      return { ...common, formId: event.formId, fields: event.fields ?? {} };
+    case "identify":
+      // Read by the segment engine as the customer's traits
+      return { ...event.traits };
+    case "custom":
+      return common;
+  }
+}
+
+export class EventIngestor {
+  private prisma: PrismaClient;
+  private rules: BehaviorRules;
+  private segments: SegmentEngine;
+  private maxBatchSize: number;
+  private maxEventAgeMs: number;
+
+  constructor(prisma?: PrismaClient, options: EventIngestorOptions = {}) {
+    this.prisma = prisma || db;
+    this.segments = options.segments ?? new SegmentEngine(this.prisma);
+    this.rules =
+      options.rules ??
+      new BehaviorRules(this.prisma, { segments: this.segments });
+    this.maxBatchSize = options.maxBatchSize ?? 500;
+    this.maxEventAgeMs = (options.maxEventAgeHours ?? 7 * 24) * 3_600_000;
+  }
+
+  /**
+   * Ingest a batch, `{ events: [...], sentAt? }`. Invalid events are
+   * rejected with their issues while the rest are stored; `sentAt` is the
+   * client's clock when sending, used to correct the event timestamps.
+   */
+  async ingest(
+    workspaceId: string,
+    batch: unknown,
+    source: EventBatchSource = {},
+  ): Promise<EventBatchSummary> {
+    const { events, sentAt } = this.batch(batch);
+    const now = Date.now();
+    const clockOffset = sentAt ? now - sentAt.getTime() : 0;
+    const summary: EventBatchSummary = {
+      accepted: 0,
+      duplicates: 0,
+      rejected: [],
+      identified: 0,
+      triggered: [],
+    };
+
+    const valid: Array<{ index: number; event: TrackedEvent; at: Date }> = [];
+    const seen = new Set<string>();
+    for (const [index, raw] of events.entries()) {
+      const parsed = trackedEventSchema.safeParse(raw);
+      if (!parsed.success) {
+        summary.rejected.push({
+          index,
+          id: text((raw as { id?: unknown } | null)?.id),
+          issues: parsed.error.issues.map(
+            (issue) => `${issue.path.join(".") || "event"}: ${issue.message}`,
+          ),
+        });
+        continue;
+      }
+      const event = parsed.data;
+      const at = new Date(
+        (event.timestamp === undefined
+          ? now
+          : new Date(event.timestamp).getTime()) + clockOffset,
+      );
+      const issue =
+        at.getTime() > now + MAX_CLOCK_AHEAD_MS
+          ? "timestamp: is in the future"
+          : at.getTime() < now - this.maxEventAgeMs
+            ? `timestamp: is older than ${this.maxEventAgeMs / 3_600_000} hours`
+            : undefined;
+      if (issue) {
+        summary.rejected.push({ index, id: event.id, issues: [issue] });
+      } else if (seen.has(event.id)) {
+        summary.duplicates++;
+      } else {
+        seen.add(event.id);
+        valid.push({ index, event, at });
+      }
+    }
+
+    const stored = new Set(
+      valid.length > 0
+        ? (
+            await this.prisma.userBehaviorLog.findMany({
+              where: {
+                workspaceId,
+                eventId: { in: valid.map(({ event }) => event.id) },
+              },
+              select: { eventId: true },
+            })
+          ).map((row: { eventId: string | null }) => row.eventId)
+        : [],
+    );
+    const fresh = valid.filter(({ event }) => {
+      if (!stored.has(event.id)) return true;
+      summary.duplicates++;
+      return false;
+    });
+
+    const { accepted, links } = await this.resolveUsers(
+      workspaceId,
+      fresh,
+      summary,
+      source.signedInUserId,
+    );
+    if (accepted.length > 0) {
+      const { count } = await this.prisma.userBehaviorLog.createMany({
+        data: accepted.map(({ event, timestamp, userId, sessionId }) => ({
+          workspaceId,
+          eventId: event.id,
+          anonymousId: event.anonymousId ?? null,
+          userId: userId ?? null,
+          sessionId: sessionId ?? null,
+          eventType: eventType(event),
+          eventData: eventData(event) as Prisma.InputJsonValue,
+          timestamp,
+          userAgent: source.userAgent ?? null,
+          ipAddress: source.ipAddress ?? null,
+          referrer: event.referrer ?? null,
+        })),
+        // Another request may have stored the same events meanwhile
+        skipDuplicates: true,
+      });
+      summary.accepted = count;
+      summary.duplicates += accepted.length - count;
+    }
+    summary.identified = await this.link(workspaceId, links);
+
+    await this.updateSegments(workspaceId, accepted);
+    for (const { event, userId, sessionId } of accepted) {
+      const fired = await this.rules.fireTriggers(
+        workspaceId,
+        EVENT_TRIGGER_TYPES[event.type] ?? [],
+        {
+          userId,
+          sessionId,
+          context: { eventType: eventType(event), ...eventData(event) },
+          eventId: event.id,
+          timeZone: event.timeZone,
+        },
+      );
+      for (const { triggerId, success } of fired) {
+        summary.triggered.push({ eventId: event.id, triggerId, success });
+      }
+    }
+
+    logger.debug(
+      "Tracked events ingested",
+      {
+        workspaceId,
+        accepted: summary.accepted,
+        duplicates: summary.duplicates,
+        rejected: summary.rejected.length,
+      },
+      "EventIngestor",
+    );
+    return summary;
+  }
+
+  private batch(batch: unknown): { events: unknown[]; sentAt?: Date } {
+    const body = batch as { events?: unknown; sentAt?: unknown } | null;
+    if (!body || typeof body !== "object" || !Array.isArray(body.events)) {
+      throw new PersonalizationError(
+        "Expected a batch of events",
+        "INVALID_EVENTS",
+        ["events: must be an array"],
+      );
+    }
+    if (body.events.length === 0 || body.events.length > this.maxBatchSize) {
+      throw new PersonalizationError("Invalid batch size", "INVALID_EVENTS", [
+        `events: send between 1 and ${this.maxBatchSize} events`,
+      ]);
+    }
+    const sentAt =
+      typeof body.sentAt === "string" || typeof body.sentAt === "number"
+        ? new Date(body.sentAt)
+        : undefined;
+    return {
+      events: body.events,
+      ...(sentAt && !isNaN(sentAt.getTime()) && { sentAt }),
+    };
+  }
+
+  /**
+   * Attribute events to users: by their userId, which must be a member of
+   * the workspace, by the email of a member in an identify call's traits,
+   * or by a user their anonymous id was linked to before. A batch sent for
+   * a signed-in user is attributed to them alone. Visitors without a
+   * session are tracked by their anonymous id.
+   */
+  private async resolveUsers(
+    workspaceId: string,
+    events: Array<{ index: number; event: TrackedEvent; at: Date }>,
+    summary: EventBatchSummary,
+    signedInUserId: string | undefined,
+  ): Promise<{ accepted: AcceptedEvent[]; links: Map<string, string> }> {
+    const members = { workspaces: { some: { workspaceId } } };
+    const userIds = [
+      ...new Set([
+        ...events.flatMap(({ event }) => event.userId ?? []),
+        ...(signedInUserId ? [signedInUserId] : []),
+      ]),
+    ];
+    const known = new Set(
+      userIds.length > 0
+        ? (
+            await this.prisma.user.findMany({
+              where: { id: { in: userIds }, ...members },
+              select: { id: true },
+            })
+          ).map((user: { id: string }) => user.id)
+        : [],
+    );
+    const emails = signedInUserId
+      ? []
+      : [
+          ...new Set(
+            events.flatMap(({ event }) => {
+              const email =
+                event.type === "identify" && !event.userId
+                  ? text(event.traits?.email)
+                  : undefined;
+              return email ? [email.toLowerCase()] : [];
+            }),
+          ),
+        ];
+    const byEmail = new Map<string, string>(
+      emails.length > 0
+        ? (
+            await this.prisma.user.findMany({
+              where: {
+                email: { in: emails, mode: "insensitive" },
+                ...members,
+              },
+              select: { id: true, email: true },
+            })
+          ).map((user: { id: string; email: string }) => [
+            user.email.toLowerCase(),
+            user.id,
+          ])
+        : [],
+    );
+
+    const links = new Map<string, string>();
+    const resolved: Array<{
+      event: TrackedEvent;
+      at: Date;
+      userId: string | undefined;
+    }> = [];
+    for (const { index, event, at } of events) {
+      const issue =
+        signedInUserId && event.userId && event.userId !== signedInUserId
+          ? "userId: not the signed-in user"
+          : event.userId && !known.has(event.userId)
+            ? "userId: unknown user"
+            : undefined;
+      if (issue) {
+        summary.rejected.push({ index, id: event.id, issues: [issue] });
+        continue;
+      }
+      const email =
+        event.type === "identify" ? text(event.traits?.email) : undefined;
+      const userId = signedInUserId
+        ? known.has(signedInUserId)
+          ? signedInUserId
+          : undefined
+        : (event.userId ?? (email && byEmail.get(email.toLowerCase())));
+      if (userId && event.anonymousId) links.set(event.anonymousId, userId);
+      resolved.push({ event, at, userId: userId || undefined });
+    }
+
+    const anonymous = [
+      ...new Set(
+        resolved.flatMap(({ event, userId }) =>
+          !userId && event.anonymousId && !links.has(event.anonymousId)
+            ? [event.anonymousId]
+            : [],
+        ),
+      ),
+    ];
+    const linked = new Map<string, string>(
+      anonymous.length > 0
+        ? (
+            await this.prisma.userIdentity.findMany({
+              where: { workspaceId, anonymousId: { in: anonymous } },
+              select: { anonymousId: true, userId: true },
+            })
+          ).map((identity: { anonymousId: string; userId: string }) => [
+            identity.anonymousId,
+            identity.userId,
+          ])
+        : [],
+    );
+
+    return {
+      accepted: resolved.map(({ event, at, userId }) => ({
+        event,
+        timestamp: at,
+        userId:
+          userId ??
+          (event.anonymousId
+            ? (links.get(event.anonymousId) ?? linked.get(event.anonymousId))
+            : undefined),
+        sessionId: event.sessionId ?? event.anonymousId,
+      })),
+      links,
+    };
+  }
+
+  // Link anonymous ids to users and give them the visitor's earlier events
+  private async link(
+    workspaceId: string,
+    links: Map<string, string>,
+  ): Promise<number> {
+    let identified = 0;
+    for (const [anonymousId, userId] of links) {
+      const existing = await this.prisma.userIdentity.findUnique({
+        where: { workspaceId_anonymousId: { workspaceId, anonymousId } },
+        select: { userId: true },
+      });
+      if (existing?.userId === userId) continue;
+      await this.prisma.userIdentity.upsert({
+        where: { workspaceId_anonymousId: { workspaceId, anonymousId } },
+        create: { workspaceId, anonymousId, userId },
+        update: { userId },
+      });
+      await this.prisma.userBehaviorLog.updateMany({
+        where: { workspaceId, anonymousId, userId: null },
+        data: { userId },
+      });
+      identified++;
+    }
+    return identified;
+  }
+
+  private async updateSegments(
+    workspaceId: string,
+    events: AcceptedEvent[],
+  ): Promise<void> {
+    const subjects = new Map<string, SegmentSubject>();
+    for (const { userId, sessionId } of events) {
+      const subject = { userId, sessionId };
+      const key = memberKey(subject);
+      if (key) subjects.set(key, subject);
+    }
+    for (const subject of subjects.values()) {
+      await this.segments
+        .evaluateMember(workspaceId, subject)
+        .catch((error) => {
+          // The hourly recompute catches up
+          logger.warn(
+            "Failed to update segment members",
+            { error, subject },
+            "EventIngestor",
+          );
+        });
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export * from "./rule-conditions";
+export * from "./rule-actions";
+export * from "./behavior-rules";
+export * from "./segment-engine";
+export * from "./event-ingestor";
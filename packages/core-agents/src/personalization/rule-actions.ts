@@ -0,0 +1,362 @@
+import { db, type AgentJob, type PrismaClient } from "@neon/data-model";
+import { DripSequences, EmailSequenceError } from "../email/drip-sequences";
+import {
+  JOB_PRIORITY_RANK,
+  JobQueue,
+  type JobPriority,
+} from "../queue/job-queue";
+import { PersonalizationError } from "./rule-conditions";
+
+/**
+ * What a trigger or rule does once its condition is met. Emails enroll
+ * the user in a drip sequence; support replies and tone adaptations are
+ * agent tasks, queued together as one job per run. Any other action (show
+ * content, redirect, change the layout) is handed back to the caller to
+ * apply.
+ */
+
+// Agent type of the jobs that run a trigger's or rule's agent tasks
+export const RULE_ACTIONS_JOB_TYPE = "rule-actions";
+
+export interface EmailSequenceAction {
+  type: "email_sequence";
+  sequenceId: string;
+}
+
+export interface SupportReplyAction {
+  type: "support_reply";
+  // The message to answer; the context's `message` otherwise
+  message?: string | undefined;
+  subject?: string | undefined;
+  priority?: JobPriority | undefined;
+}
+
+export interface AdaptToneAction {
+  type: "adapt_tone";
+  // The content to adapt; the context's `content` otherwise
+  content?: string | undefined;
+  // The persona's preferred tone otherwise
+  targetTone?: string | undefined;
+  fallbackTone?: string | undefined;
+  contentType?: string | undefined;
+}
+
+// Applied by the caller, e.g. { type: "show_content", content: "..." }
+export interface ClientAction {
+  type: string;
+  [key: string]: unknown;
+}
+
+export type RuleAction =
+  | EmailSequenceAction
+  | SupportReplyAction
+  | AdaptToneAction
+  | ClientAction;
+
+export interface ActionTarget {
+  workspaceId: string;
+  userId?: string | undefined;
+  sessionId?: string | undefined;
+  context: Record<string, unknown>;
+  persona?: { name: string; preferredTone?: string | null } | undefined;
+  // Queued jobs with the same key are only queued once
+  key: string;
+}
+
+export interface ActionResult {
+  type: string;
+  success: boolean;
+  // The job the action's agent task was queued in
+  jobId?: string | undefined;
+  enrollmentId?: string | undefined;
+  // A client action to apply
+  directive?: ClientAction | undefined;
+  error?: string | undefined;
+}
+
+// The trigger or rule a run belongs to
+export interface RuleRunSource {
+  kind: "trigger" | "rule";
+  id: string;
+}
+
+export interface QueuedAgentTask {
+  agentType: string;
+  task: string;
+  payload: Record<string, unknown>;
+}
+
+export interface RuleActionsJobPayload {
+  source: RuleRunSource;
+  // Whether the actions carried out at once all succeeded
+  succeeded: boolean;
+  tasks: QueuedAgentTask[];
+}
+
+export interface ActionRun {
+  results: ActionResult[];
+  // Runs the agent tasks; without one the run is already complete
+  job?: AgentJob | undefined;
+}
+
+export interface RuleActionsOptions {
+  jobs?: JobQueue;
+  sequences?: DripSequences;
+}
+
+function actionIssues(action: unknown, at: string): string[] {
+  if (!action || typeof action !== "object" || Array.isArray(action)) {
+    return [`${at}: an action must be an object`];
+  }
+  const a = action as Record<string, unknown>;
+  switch (a.type) {
+    case "email_sequence":
+      return typeof a.sequenceId === "string" && a.sequenceId
+        ? []
+        : [`${at}: email_sequence needs a sequenceId`];
+    case "support_reply":
+      return a.priority === undefined ||
+        Object.keys(JOB_PRIORITY_RANK).includes(String(a.priority))
+        ? []
+        : [`${at}: unknown priority ${a.priority}`];
+    case "adapt_tone":
+      return [];
+    default:
+      return typeof a.type === "string" && a.type
+        ? []
+        : [`${at}: an action needs a type`];
+  }
+}
+
+/**
+ * The actions stored in a trigger or rule: one action, a list of them, or
+ * a rule's plain object of settings (`{ targetTone, contentToShow }`),
+ * which becomes a single "personalize" action for the caller
+ */
+export function ruleActions(stored: unknown): RuleAction[] {
+  const actions = Array.isArray(stored)
+    ? stored
+    : stored &&
+        typeof stored === "object" &&
+        typeof (stored as { type?: unknown }).type !== "string"
+      ? [{ type: "personalize", ...stored }]
+      : [stored];
+  const issues = actions.flatMap((action, index) =>
+    actionIssues(action, `Action ${index + 1}`),
+  );
+  if (issues.length > 0) {
+    throw new PersonalizationError(
+      "Invalid rule actions",
+      "INVALID_ACTION",
+      issues,
+    );
+  }
+  return actions as RuleAction[];
+}
+
+const text = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value : undefined;
+
+export class RuleActions {
+  private prisma: PrismaClient;
+  private jobs: JobQueue;
+  private sequences: DripSequences;
+
+  constructor(prisma?: PrismaClient, options: RuleActionsOptions = {}) {
+    this.prisma = prisma || db;
+    this.jobs = options.jobs ?? new JobQueue(this.prisma);
+    this.sequences = options.sequences ?? new DripSequences(this.prisma);
+  }
+
+  /**
+   * Carry out the actions of one run. Failures are reported in the results
+   * rather than thrown, so one failed action does not stop the others.
+   */
+  async run(
+    actions: RuleAction[],
+    target: ActionTarget,
+    source: RuleRunSource,
+  ): Promise<ActionRun> {
+    const results: ActionResult[] = [];
+    const queued: Array<{ result: ActionResult; task: QueuedAgentTask }> = [];
+
+    for (const action of actions) {
+      const outcome = await this.runAction(action, target);
+      if ("task" in outcome) {
+        const result: ActionResult = { type: action.type, success: true };
+        queued.push({ result, task: outcome.task });
+        results.push(result);
+      } else {
+        results.push(outcome);
+      }
+    }
+    if (queued.length === 0) return { results };
+
+    const payload: RuleActionsJobPayload = {
+      source,
+      succeeded: results.every((result) => result.success),
+      tasks: queued.map(({ task }) => task),
+    };
+    try {
+      const job = await this.jobs.enqueue({
+        agentType: RULE_ACTIONS_JOB_TYPE,
+        task: "run_actions",
+        workspaceId: target.workspaceId,
+        priority: highestPriority(payload.tasks),
+        idempotencyKey: target.key,
+        payload: payload as unknown as Record<string, unknown>,
+      });
+      for (const { result } of queued) result.jobId = job.id;
+      return { results, job };
+    } catch (error) {
+      for (const { result } of queued) {
+        result.success = false;
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+      return { results };
+    }
+  }
+
+  // The action's result, or the agent task to queue for it
+  private async runAction(
+    action: RuleAction,
+    target: ActionTarget,
+  ): Promise<ActionResult | { task: QueuedAgentTask }> {
+    try {
+      switch (action.type) {
+        case "email_sequence":
+          return await this.enroll(action as EmailSequenceAction, target);
+        case "support_reply":
+          return this.supportReplyTask(action as SupportReplyAction, target);
+        case "adapt_tone":
+          return this.toneAdaptationTask(action as AdaptToneAction, target);
+        default:
+          return {
+            type: action.type,
+            success: true,
+            directive: action as ClientAction,
+          };
+      }
+    } catch (error) {
+      return {
+        type: action.type,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async enroll(
+    action: EmailSequenceAction,
+    target: ActionTarget,
+  ): Promise<ActionResult> {
+    const leadId = text(target.context.leadId);
+    let email = text(target.context.email);
+    if (!leadId && !email && target.userId) {
+      const user = await this.prisma.user.findUnique({
+        where: { id: target.userId },
+        select: { email: true },
+      });
+      email = user?.email;
+    }
+    if (!leadId && !email) {
+      return {
+        type: action.type,
+        success: false,
+        error: "No lead or email address to enroll",
+      };
+    }
+
+    try {
+      const { enrolled, skipped } = await this.sequences.enroll(
+        target.workspaceId,
+        action.sequenceId,
+        [{ leadId, email, name: text(target.context.name) }],
+      );
+      return enrolled[0]
+        ? { type: action.type, success: true, enrollmentId: enrolled[0].id }
+        : { type: action.type, success: false, error: skipped[0]?.reason };
+    } catch (error) {
+      if (error instanceof EmailSequenceError) {
+        return { type: action.type, success: false, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  private supportReplyTask(
+    action: SupportReplyAction,
+    target: ActionTarget,
+  ): ActionResult | { task: QueuedAgentTask } {
+    const message = action.message ?? text(target.context.message);
+    if (!message) {
+      return {
+        type: action.type,
+        success: false,
+        error: "No message to reply to",
+      };
+    }
+
+    return {
+      task: {
+        agentType: "support",
+        task: "auto_respond",
+        payload: {
+          priority: action.priority ?? "medium",
+          context: {
+            message,
+            subject: action.subject,
+            customer: {
+              customerId: target.userId ?? target.sessionId,
+              email: text(target.context.email),
+              name: text(target.context.name),
+            },
+          },
+        },
+      },
+    };
+  }
+
+  private toneAdaptationTask(
+    action: AdaptToneAction,
+    target: ActionTarget,
+  ): ActionResult | { task: QueuedAgentTask } {
+    const content = action.content ?? text(target.context.content);
+    if (!content) {
+      return {
+        type: action.type,
+        success: false,
+        error: "No content to adapt",
+      };
+    }
+
+    return {
+      task: {
+        agentType: "brand-voice",
+        task: "adapt_tone",
+        payload: {
+          context: {
+            action: "adapt_tone",
+            content,
+            contentType: action.contentType,
+            targetTone:
+              action.targetTone ?? target.persona?.preferredTone ?? undefined,
+            fallbackTone: action.fallbackTone,
+            contextMetadata: { userPersona: target.persona?.name },
+          },
+        },
+      },
+    };
+  }
+}
+
+// The job runs at the priority of its most urgent task
+function highestPriority(tasks: QueuedAgentTask[]): JobPriority {
+  return tasks
+    .map((task) => (task.payload.priority as JobPriority) ?? "medium")
+    .reduce((highest, priority) =>
+      JOB_PRIORITY_RANK[priority] > JOB_PRIORITY_RANK[highest]
+        ? priority
+        : highest,
+    );
+}
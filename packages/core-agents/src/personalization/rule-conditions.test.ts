@@ -0,0 +1,194 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  evaluateCondition,
+  parseRuleExpression,
+  PersonalizationError,
+  ruleCondition,
+  type EventQuery,
+  type RuleFacts,
+} from "./rule-conditions";
+
+// Wednesday 2026-10-14, 14:30 UTC
+const NOW = new Date("2026-10-14T14:30:00Z");
+
+function facts(
+  context: Record<string, unknown>,
+  overrides: Partial<RuleFacts> = {},
+): RuleFacts {
+  return {
+    context,
+    segmentIds: [],
+    now: NOW,
+    countEvents: async () => 0,
+    ...overrides,
+  };
+}
+
+const holds = (expression: string, ruleFacts: RuleFacts) =>
+  evaluateCondition(parseRuleExpression(expression), ruleFacts);
+
+describe("parseRuleExpression", () => {
+  it("gives and precedence over or", () => {
+    expect(parseRuleExpression("a = 1 or b = 2 and not c exists")).toEqual({
+      type: "any",
+      conditions: [
+        { type: "compare", field: "a", op: "eq", value: 1 },
+        {
+          type: "all",
+          conditions: [
+            { type: "compare", field: "b", op: "eq", value: 2 },
+            {
+              type: "not",
+              condition: { type: "compare", field: "c", op: "exists" },
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("reads event counts with a time window and a filter", () => {
+    expect(
+      parseRuleExpression(
+        'events("page_view" where url starts with "/pricing") >= 3 within 7d',
+      ),
+    ).toEqual({
+      type: "events",
+      event: "page_view",
+      op: "gte",
+      count: 3,
+      withinHours: 168,
+      where: {
+        type: "compare",
+        field: "url",
+        op: "starts_with",
+        value: "/pricing",
+      },
+    });
+  });
+
+  it("points at the first problem", () => {
+    let error: PersonalizationError | undefined;
+    try {
+      parseRuleExpression('country in ["US" "CA"]');
+    } catch (caught) {
+      error = caught as PersonalizationError;
+    }
+    expect(error?.code).toBe("INVALID_CONDITION");
+    expect(error?.issues).toEqual(['At 18: expected "," but found "CA"']);
+  });
+});
+
+describe("ruleCondition", () => {
+  it("treats a plain object as fields that must equal their values", async () => {
+    const condition = ruleCondition({ url: "/pricing", pageViews: 3 });
+    expect(
+      await evaluateCondition(
+        condition,
+        facts({ url: "/pricing", pageViews: 3 }),
+      ),
+    ).toBe(true);
+    expect(
+      await evaluateCondition(
+        condition,
+        facts({ url: "/pricing", pageViews: 2 }),
+      ),
+    ).toBe(false);
+  });
+
+  it("lists every problem of a condition tree", () => {
+    expect(() =>
+      ruleCondition({
+        type: "all",
+        conditions: [
+          { type: "compare", field: "score", op: "gt", value: "high" },
+          { type: "between", field: "age", min: 40, max: 20 },
+          { type: "events", event: "click", op: "gte", count: 1.5 },
+        ],
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        issues: [
+          "condition.all[0]: gt compares with a number",
+          "condition.all[1]: between needs a field and a min no greater than its max",
+          "condition.all[2]: events counts a whole number of events",
+        ],
+      }),
+    );
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("compares fields, ranges and lists, ignoring case", async () => {
+    const context = { country: "us", score: "72", interests: ["Yoga", "Run"] };
+    expect(await holds('country in ["US", "CA"]', facts(context))).toBe(true);
+    expect(await holds("score between 50 and 80", facts(context))).toBe(true);
+    expect(await holds("score > 80", facts(context))).toBe(false);
+    expect(await holds('interests contains "yoga"', facts(context))).toBe(true);
+    expect(
+      await holds("missing != 1 and not missing exists", facts(context)),
+    ).toBe(true);
+  });
+
+  it("reads persona attributes, segments and the time", async () => {
+    const ruleFacts = facts(
+      {},
+      {
+        persona: { preferredTone: "casual", demographics: { age: 34 } },
+        segmentIds: ["seg_1"],
+        timeZone: "America/New_York",
+      },
+    );
+    expect(
+      await holds(
+        'persona.preferredTone = "Casual" and persona.demographics.age < 40',
+        ruleFacts,
+      ),
+    ).toBe(true);
+    expect(await holds('in segment "seg_1"', ruleFacts)).toBe(true);
+    expect(await holds('in segment "seg_2"', ruleFacts)).toBe(false);
+    // 10:30 in New York
+    expect(
+      await holds(
+        'time.hour between 9 and 11 and time.weekday = "wednesday"',
+        ruleFacts,
+      ),
+    ).toBe(true);
+  });
+
+  it("counts events within the time window", async () => {
+    const queries: EventQuery[] = [];
+    const ruleFacts = facts(
+      {},
+      {
+        countEvents: async (query) => {
+          queries.push(query);
+          return 3;
+        },
+      },
+    );
+    expect(await holds('events("page_view") >= 3 within 24h', ruleFacts)).toBe(
+      true,
+    );
+    expect(await holds('events("page_view") > 3', ruleFacts)).toBe(false);
+    expect(queries[0]!.since).toEqual(new Date("2026-10-13T14:30:00Z"));
+    expect(queries[1]!.since).toBeUndefined();
+  });
+
+  it("only counts events when the rest of the condition needs it", async () => {
+    let counted = 0;
+    const ruleFacts = facts(
+      { plan: "free" },
+      {
+        countEvents: async () => {
+          counted++;
+          return 10;
+        },
+      },
+    );
+    expect(await holds('plan = "pro" and events("login") > 1', ruleFacts)).toBe(
+      false,
+    );
+    expect(counted).toBe(0);
+  });
+});
@@ -0,0 +1,752 @@
+/**
+ * Conditions of behaviour triggers and personalization rules. A condition
+ * is stored as JSON, either as the tree below or as an expression in the
+ * rule language, e.g.
+ *
+ *   events("page_view" where url contains "/pricing") >= 3 within 7d
+ *     and persona.preferredTone = "casual"
+ *     and not country in ["US", "CA"]
+ *
+ * Fields are read from the event context; `persona.*` from the persona
+ * the rule runs for and `time.hour`, `time.weekday` and `time.day` from
+ * the time of evaluation. String comparisons ignore case.
+ */
+
+export type RuleValue = string | number | boolean | null;
+
+export type ComparisonOperator =
+  | "eq"
+  | "ne"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "in"
+  | "not_in"
+  | "contains"
+  | "starts_with"
+  | "matches"
+  | "exists";
+
+export type CountOperator = "eq" | "ne" | "gt" | "gte" | "lt" | "lte";
+
+export type RuleCondition =
+  | { type: "all"; conditions: RuleCondition[] }
+  | { type: "any"; conditions: RuleCondition[] }
+  | { type: "not"; condition: RuleCondition }
+  | {
+      type: "compare";
+      field: string;
+      op: ComparisonOperator;
+      value?: RuleValue | RuleValue[] | undefined;
+    }
+  // Inclusive range
+  | { type: "between"; field: string; min: number; max: number }
+  // How often the user did something, e.g. 3 page views in 7 days
+  | {
+      type: "events";
+      event: string;
+      op: CountOperator;
+      count: number;
+      withinHours?: number | undefined;
+      // Checked against each event's data
+      where?: RuleCondition | undefined;
+    }
+  | { type: "in_segment"; segmentId: string };
+
+export type PersonalizationErrorCode =
+  | "INVALID_CONDITION"
+  | "INVALID_ACTION"
+  | "NOT_FOUND"
+  | "INACTIVE"
+  | "INVALID_EVENTS";
+
+export class PersonalizationError extends Error {
+  constructor(
+    message: string,
+    readonly code: PersonalizationErrorCode,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "PersonalizationError";
+  }
+}
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  "eq",
+  "ne",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+  "not_in",
+  "contains",
+  "starts_with",
+  "matches",
+  "exists",
+];
+const COUNT_OPERATORS: CountOperator[] = ["eq", "ne", "gt", "gte", "lt", "lte"];
+
+const SYMBOLS: Record<string, CountOperator> = {
+  "=": "eq",
+  "==": "eq",
+  "!=": "ne",
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+};
+const HOURS_PER_UNIT: Record<string, number> = {
+  m: 1 / 60,
+  h: 1,
+  d: 24,
+  w: 24 * 7,
+};
+
+// Expression parsing
+
+type Token =
+  | { kind: "string"; value: string; at: number }
+  | { kind: "number"; value: number; at: number }
+  | { kind: "duration"; hours: number; at: number }
+  | { kind: "word"; value: string; at: number }
+  | { kind: "symbol"; value: string; at: number }
+  | { kind: "end"; at: number };
+
+const TOKEN =
+  /\s*(?:("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|(\d+(?:\.\d+)?)([mhdw])\b|(-?\d+(?:\.\d+)?)|([A-Za-z_][\w.]*)|(>=|<=|!=|==|[=<>()[\],]))/y;
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    if (!expression.slice(TOKEN.lastIndex).trim()) break;
+    const at = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      const found = expression.slice(at).trim()[0];
+      throw syntaxError(`unexpected "${found}"`, at);
+    }
+    const [, string, amount, unit, number, word, symbol] = match;
+    const start = match.index + match[0].length - match[0].trimStart().length;
+    if (string !== undefined) {
+      tokens.push({
+        kind: "string",
+        value: string.slice(1, -1).replace(/\\(.)/g, "$1"),
+        at: start,
+      });
+    } else if (amount !== undefined) {
+      tokens.push({
+        kind: "duration",
+        hours: Number(amount) * HOURS_PER_UNIT[unit!]!,
+        at: start,
+      });
+    } else if (number !== undefined) {
+      tokens.push({ kind: "number", value: Number(number), at: start });
+    } else if (word !== undefined) {
+      tokens.push({ kind: "word", value: word, at: start });
+    } else {
+      tokens.push({ kind: "symbol", value: symbol!, at: start });
+    }
+  }
+  tokens.push({ kind: "end", at: expression.length });
+  return tokens;
+}
+
+function syntaxError(message: string, at: number): PersonalizationError {
+  return new PersonalizationError(
+    "Invalid rule expression",
+    "INVALID_CONDITION",
+    [`At ${at + 1}: ${message}`],
+  );
+}
+
+const describe = (token: Token): string =>
+  token.kind === "end"
+    ? "the end"
+    : token.kind === "duration"
+      ? "a duration"
+      : `"${token.value}"`;
+
+/**
+ * Parse a rule expression into a condition. `and` binds tighter than
+ * `or`; `not` applies to the comparison that follows it.
+ */
+export function parseRuleExpression(expression: string): RuleCondition {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position]!;
+  const next = () => tokens[position++]!;
+  const isWord = (word: string, token = peek()) =>
+    token.kind === "word" && token.value.toLowerCase() === word;
+  const isSymbol = (symbol: string, token = peek()) =>
+    token.kind === "symbol" && token.value === symbol;
+  const expectSymbol = (symbol: string) => {
+    const token = next();
+    if (!isSymbol(symbol, token)) {
+      throw syntaxError(
+        `expected "${symbol}" but found ${describe(token)}`,
+        token.at,
+      );
+    }
+  };
+  const expectWord = (word: string) => {
+    const token = next();
+    if (!isWord(word, token)) {
+      throw syntaxError(
+        `expected "${word}" but found ${describe(token)}`,
+        token.at,
+      );
+    }
+  };
+
+  const value = (): RuleValue => {
+    const token = next();
+    if (token.kind === "string" || token.kind === "number") return token.value;
+    if (isWord("true", token)) return true;
+    if (isWord("false", token)) return false;
+    if (isWord("null", token)) return null;
+    throw syntaxError(
+      `expected a value but found ${describe(token)}`,
+      token.at,
+    );
+  };
+  const numberValue = (): number => {
+    const token = next();
+    if (token.kind !== "number") {
+      throw syntaxError(
+        `expected a number but found ${describe(token)}`,
+        token.at,
+      );
+    }
+    return token.value;
+  };
+  const list = (): RuleValue[] => {
+    expectSymbol("[");
+    const values: RuleValue[] = [];
+    while (!isSymbol("]")) {
+      values.push(value());
+      if (!isSymbol("]")) expectSymbol(",");
+    }
+    next();
+    return values;
+  };
+
+  const or = (): RuleCondition => {
+    const conditions = [and()];
+    while (isWord("or")) {
+      next();
+      conditions.push(and());
+    }
+    return conditions.length === 1
+      ? conditions[0]!
+      : { type: "any", conditions };
+  };
+  const and = (): RuleCondition => {
+    const conditions = [unary()];
+    while (isWord("and")) {
+      next();
+      conditions.push(unary());
+    }
+    return conditions.length === 1
+      ? conditions[0]!
+      : { type: "all", conditions };
+  };
+  const unary = (): RuleCondition => {
+    if (isWord("not")) {
+      next();
+      return { type: "not", condition: unary() };
+    }
+    return primary();
+  };
+  const primary = (): RuleCondition => {
+    const token = next();
+    if (isSymbol("(", token)) {
+      const condition = or();
+      expectSymbol(")");
+      return condition;
+    }
+    if (isWord("in", token)) {
+      expectWord("segment");
+      const segment = next();
+      if (segment.kind !== "string") {
+        throw syntaxError("expected the segment id in quotes", segment.at);
+      }
+      return { type: "in_segment", segmentId: segment.value };
+    }
+    if (token.kind !== "word") {
+      throw syntaxError(
+        `expected a field but found ${describe(token)}`,
+        token.at,
+      );
+    }
+    if (token.value.toLowerCase() === "events" && isSymbol("(")) {
+      return events();
+    }
+    return comparison(token.value);
+  };
+
+  const events = (): RuleCondition => {
+    expectSymbol("(");
+    const event = next();
+    if (event.kind !== "string") {
+      throw syntaxError("expected the event type in quotes", event.at);
+    }
+    let where: RuleCondition | undefined;
+    if (isWord("where")) {
+      next();
+      where = or();
+    }
+    expectSymbol(")");
+    const symbol = next();
+    const op = symbol.kind === "symbol" ? SYMBOLS[symbol.value] : undefined;
+    if (!op) {
+      throw syntaxError(
+        `expected a comparison but found ${describe(symbol)}`,
+        symbol.at,
+      );
+    }
+    const count = numberValue();
+    let withinHours: number | undefined;
+    if (isWord("within")) {
+      next();
+      const duration = next();
+      if (duration.kind !== "duration") {
+        throw syntaxError(
+          'expected a duration such as "7d", "24h" or "30m"',
+          duration.at,
+        );
+      }
+      withinHours = duration.hours;
+    }
+    return {
+      type: "events",
+      event: event.value,
+      op,
+      count,
+      ...(withinHours !== undefined && { withinHours }),
+      ...(where && { where }),
+    };
+  };
+
+  const comparison = (field: string): RuleCondition => {
+    const token = next();
+    if (token.kind === "symbol" && SYMBOLS[token.value]) {
+      return {
+        type: "compare",
+        field,
+        op: SYMBOLS[token.value]!,
+        value: value(),
+      };
+    }
+    if (token.kind === "word") {
+      switch (token.value.toLowerCase()) {
+        case "between": {
+          const min = numberValue();
+          expectWord("and");
+          return { type: "between", field, min, max: numberValue() };
+        }
+        case "in":
+          return { type: "compare", field, op: "in", value: list() };
+        case "not":
+          expectWord("in");
+          return { type: "compare", field, op: "not_in", value: list() };
+        case "contains":
+          return { type: "compare", field, op: "contains", value: value() };
+        case "starts":
+          expectWord("with");
+          return { type: "compare", field, op: "starts_with", value: value() };
+        case "matches":
+          return { type: "compare", field, op: "matches", value: value() };
+        case "exists":
+          return { type: "compare", field, op: "exists" };
+      }
+    }
+    throw syntaxError(
+      `expected a comparison after ${field} but found ${describe(token)}`,
+      token.at,
+    );
+  };
+
+  const condition = or();
+  const rest = peek();
+  if (rest.kind !== "end") {
+    throw syntaxError(`unexpected ${describe(rest)}`, rest.at);
+  }
+  return condition;
+}
+
+// Validation
+
+function conditionIssues(
+  condition: unknown,
+  at: string,
+  inEvents = false,
+): string[] {
+  if (!condition || typeof condition !== "object") {
+    return [`${at}: a condition must be an object`];
+  }
+  const c = condition as Record<string, any>;
+  switch (c.type) {
+    case "all":
+    case "any":
+      if (!Array.isArray(c.conditions)) {
+        return [`${at}: ${c.type} needs a list of conditions`];
+      }
+      return c.conditions.flatMap((child: unknown, index: number) =>
+        conditionIssues(child, `${at}.${c.type}[${index}]`, inEvents),
+      );
+    case "not":
+      return conditionIssues(c.condition, `${at}.not`, inEvents);
+    case "compare": {
+      const issues: string[] = [];
+      if (typeof c.field !== "string" || !c.field) {
+        issues.push(`${at}: compare needs a field`);
+      }
+      if (!COMPARISON_OPERATORS.includes(c.op)) {
+        issues.push(`${at}: unknown operator ${c.op}`);
+      } else if (c.op === "in" || c.op === "not_in") {
+        if (!Array.isArray(c.value)) {
+          issues.push(`${at}: ${c.op} needs a list of values`);
+        }
+      } else if (c.op === "matches") {
+        try {
+          new RegExp(String(c.value));
+        } catch {
+          issues.push(`${at}: ${c.value} is not a regular expression`);
+        }
+      } else if (
+        ["gt", "gte", "lt", "lte"].includes(c.op) &&
+        typeof c.value !== "number"
+      ) {
+        issues.push(`${at}: ${c.op} compares with a number`);
+      }
+      return issues;
+    }
+    case "between":
+      return typeof c.field === "string" &&
+        typeof c.min === "number" &&
+        typeof c.max === "number" &&
+        c.min <= c.max
+        ? []
+        : [`${at}: between needs a field and a min no greater than its max`];
+    case "events": {
+      const issues: string[] = [];
+      if (inEvents) issues.push(`${at}: events cannot be nested`);
+      if (typeof c.event !== "string" || !c.event) {
+        issues.push(`${at}: events needs an event type`);
+      }
+      if (!COUNT_OPERATORS.includes(c.op)) {
+        issues.push(`${at}: unknown operator ${c.op}`);
+      }
+      if (!(Number.isInteger(c.count) && c.count >= 0)) {
+        issues.push(`${at}: events counts a whole number of events`);
+      }
+      if (c.withinHours !== undefined && !(c.withinHours > 0)) {
+        issues.push(`${at}: the time window must be positive`);
+      }
+      if (c.where !== undefined) {
+        issues.push(...conditionIssues(c.where, `${at}.where`, true));
+      }
+      return issues;
+    }
+    case "in_segment":
+      return typeof c.segmentId === "string" && c.segmentId
+        ? []
+        : [`${at}: in_segment needs a segment id`];
+    default:
+      return [`${at}: unknown condition ${c.type}`];
+  }
+}
+
+/**
+ * The condition stored in a trigger or rule: an `{ expression }`, a
+ * condition tree, or a plain object of fields that must equal their
+ * values, as older triggers were saved. An empty object always matches.
+ */
+export function ruleCondition(stored: unknown): RuleCondition {
+  if (!stored || typeof stored !== "object" || Array.isArray(stored)) {
+    throw new PersonalizationError(
+      "Rule conditions must be an object",
+      "INVALID_CONDITION",
+    );
+  }
+  const object = stored as Record<string, unknown>;
+  let condition: unknown = object;
+  if (typeof object.expression === "string") {
+    condition = parseRuleExpression(object.expression);
+  } else if (typeof object.type !== "string") {
+    condition = {
+      type: "all",
+      conditions: Object.entries(object).map(([field, value]) => ({
+        type: "compare",
+        field,
+        op: "eq",
+        value,
+      })),
+    };
+  }
+
+  const issues = conditionIssues(condition, "condition");
+  if (issues.length > 0) {
+    throw new PersonalizationError(
+      "Invalid rule condition",
+      "INVALID_CONDITION",
+      issues,
+    );
+  }
+  return condition as RuleCondition;
+}
+
+// Evaluation
+
+export interface EventQuery {
+  event: string;
+  since?: Date | undefined;
+  where?: RuleCondition | undefined;
+}
+
+export interface RuleFacts {
+  context: Record<string, unknown>;
+  persona?: Record<string, unknown> | undefined;
+  segmentIds: string[];
+  now: Date;
+  // For the time.* fields; UTC by default
+  timeZone?: string | undefined;
+  // Counts the user's logged events
+  countEvents(query: EventQuery): Promise<number>;
+}
+
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+function timeFact(name: string, now: Date, timeZone = "UTC"): unknown {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      hour: "numeric",
+      minute: "numeric",
+      day: "numeric",
+      weekday: "long",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  );
+  switch (name) {
+    case "hour":
+      return Number(parts.hour);
+    case "minute":
+      return Number(parts.minute);
+    case "day":
+      return Number(parts.day);
+    case "weekday":
+      return parts.weekday?.toLowerCase();
+    case "weekend":
+      return [0, 6].includes(
+        WEEKDAYS.indexOf(parts.weekday?.toLowerCase() ?? ""),
+      );
+    default:
+      return undefined;
+  }
+}
+
+function path(value: unknown, keys: string[]): unknown {
+  return keys.reduce<unknown>(
+    (current, key) =>
+      current && typeof current === "object"
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value,
+  );
+}
+
+export function fieldValue(field: string, facts: RuleFacts): unknown {
+  const [root, ...rest] = field.split(".");
+  switch (root) {
+    case "persona":
+      return path(facts.persona, rest);
+    case "time":
+      return timeFact(rest.join("."), facts.now, facts.timeZone);
+    case "context":
+      return path(facts.context, rest);
+    default:
+      return path(facts.context, field.split("."));
+  }
+}
+
+const normalize = (value: unknown): unknown =>
+  typeof value === "string" ? value.toLowerCase() : value;
+
+const asNumber = (value: unknown): number | undefined => {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+};
+
+function equals(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(actual))
+    return actual.some((item) => equals(item, expected));
+  const a = asNumber(actual);
+  const b = asNumber(expected);
+  if (a !== undefined && b !== undefined) return a === b;
+  return normalize(actual) === normalize(expected);
+}
+
+export function compareCount(
+  actual: number,
+  op: CountOperator,
+  expected: number,
+): boolean {
+  switch (op) {
+    case "eq":
+      return actual === expected;
+    case "ne":
+      return actual !== expected;
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+  }
+}
+
+function compare(
+  actual: unknown,
+  op: ComparisonOperator,
+  expected: RuleValue | RuleValue[] | undefined,
+): boolean {
+  switch (op) {
+    case "exists":
+      return actual !== undefined && actual !== null && actual !== "";
+    case "eq":
+      return equals(actual, expected);
+    case "ne":
+      return !equals(actual, expected);
+    case "in":
+      return ((expected ?? []) as RuleValue[]).some((value) =>
+        equals(actual, value),
+      );
+    case "not_in":
+      return !((expected ?? []) as RuleValue[]).some((value) =>
+        equals(actual, value),
+      );
+    case "contains":
+      return Array.isArray(actual)
+        ? equals(actual, expected)
+        : typeof actual === "string" &&
+            actual.toLowerCase().includes(String(expected).toLowerCase());
+    case "starts_with":
+      return (
+        typeof actual === "string" &&
+        actual.toLowerCase().startsWith(String(expected).toLowerCase())
+      );
+    case "matches":
+      return (
+        typeof actual === "string" &&
+        new RegExp(String(expected), "i").test(actual)
+      );
+    default: {
+      const a = asNumber(actual);
+      return (
+        a !== undefined &&
+        typeof expected === "number" &&
+        compareCount(a, op, expected)
+      );
+    }
+  }
+}
+
+/**
+ * Whether the condition holds. Event counts are only looked up for the
+ * conditions that need them.
+ */
+export async function evaluateCondition(
+  condition: RuleCondition,
+  facts: RuleFacts,
+): Promise<boolean> {
+  switch (condition.type) {
+    case "all":
+      for (const child of condition.conditions) {
+        if (!(await evaluateCondition(child, facts))) return false;
+      }
+      return true;
+    case "any":
+      for (const child of condition.conditions) {
+        if (await evaluateCondition(child, facts)) return true;
+      }
+      return false;
+    case "not":
+      return !(await evaluateCondition(condition.condition, facts));
+    case "compare":
+      return compare(
+        fieldValue(condition.field, facts),
+        condition.op,
+        condition.value,
+      );
+    case "between": {
+      const value = asNumber(fieldValue(condition.field, facts));
+      return (
+        value !== undefined && value >= condition.min && value <= condition.max
+      );
+    }
+    case "events": {
+      const count = await facts.countEvents({
+        event: condition.event,
+        since:
+          condition.withinHours !== undefined
+            ? new Date(facts.now.getTime() - condition.withinHours * 3_600_000)
+            : undefined,
+        where: condition.where,
+      });
+      return compareCount(count, condition.op, condition.count);
+    }
+    case "in_segment":
+      return facts.segmentIds.includes(condition.segmentId);
+  }
+}
+
+/**
+ * Whether an event's data meets the `where` of an events condition
+ */
+export function matchesEventData(
+  condition: RuleCondition,
+  data: Record<string, unknown>,
+): boolean {
+  switch (condition.type) {
+    case "all":
+      return condition.conditions.every((c) => matchesEventData(c, data));
+    case "any":
+      return condition.conditions.some((c) => matchesEventData(c, data));
+    case "not":
+      return !matchesEventData(condition.condition, data);
+    case "compare":
+      return compare(
+        path(data, condition.field.split(".")),
+        condition.op,
+        condition.value,
+      );
+    case "between": {
+      const value = asNumber(path(data, condition.field.split(".")));
+      return (
+        value !== undefined && value >= condition.min && value <= condition.max
+      );
+    }
+    default:
+      return false;
+  }
+}
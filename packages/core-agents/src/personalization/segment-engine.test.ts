@@ -0,0 +1,301 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { SegmentEngine } from "./segment-engine";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 86_400_000);
+
+describe("SegmentEngine", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let enrolled: any[][];
+  let engine: SegmentEngine;
+
+  const members = () => db.tables.userSegmentMember!;
+  const segment = () => db.tables.userSegment![0]!;
+
+  const visit = (userId: string, days: number, url = "/pricing") =>
+    db.seed("userBehaviorLog", {
+      workspaceId: "ws_1",
+      userId,
+      sessionId: `session_${userId}`,
+      eventType: "page_view",
+      eventData: { url },
+      timestamp: daysAgo(days),
+    });
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("workspace", [
+      { id: "ws_1", name: "One", slug: "one" },
+      { id: "ws_2", name: "Two", slug: "two" },
+    ]);
+    enrolled = [];
+    const sequences: any = {
+      enroll: async (
+        _workspaceId: string,
+        _sequenceId: string,
+        list: any[],
+      ) => {
+        enrolled.push(list);
+        return {
+          enrolled: list.slice(1),
+          skipped: [{ recipient: list[0].email, reason: "Suppressed" }],
+        };
+      },
+    };
+    engine = new SegmentEngine(db.prisma, { sequences });
+
+    db.seed("user", [
+      {
+        id: "user_1",
+        email: "Ada@example.com",
+        name: "Ada Lovelace",
+        role: "USER",
+        createdAt: daysAgo(100),
+      },
+      {
+        id: "user_2",
+        email: "grace@example.com",
+        name: "Grace Hopper",
+        role: "USER",
+        createdAt: daysAgo(10),
+      },
+    ]);
+    db.seed("campaign", {
+      id: "campaign_1",
+      workspaceId: "ws_1",
+      userId: "user_1",
+      name: "Outreach",
+      type: "B2B_OUTREACH",
+    });
+    db.seed("userSegment", {
+      id: "seg_pricing",
+      workspaceId: "ws_1",
+      name: "Pricing interest",
+      isActive: true,
+      size: 0,
+      criteria: {
+        expression: 'events("page_view" where url = "/pricing") >= 2 within 7d',
+      },
+    });
+  });
+
+  it("adds and removes members as their behaviour is logged", async () => {
+    visit("user_1", 1);
+    expect(await engine.evaluateMember("ws_1", { userId: "user_1" })).toEqual({
+      joined: [],
+      left: [],
+    });
+
+    visit("user_1", 0);
+    expect(await engine.evaluateMember("ws_1", { userId: "user_1" })).toEqual({
+      joined: ["seg_pricing"],
+      left: [],
+    });
+    expect(members()[0]).toMatchObject({
+      memberKey: "user:user_1",
+      userId: "user_1",
+      email: "ada@example.com",
+      name: "Ada Lovelace",
+    });
+    expect(segment().size).toBe(1);
+
+    // Criteria changed so the user no longer matches
+    segment().criteria = { expression: 'events("page_view") >= 5' };
+    expect(await engine.evaluateMember("ws_1", { userId: "user_1" })).toEqual({
+      joined: [],
+      left: ["seg_pricing"],
+    });
+    expect(segment().size).toBe(0);
+    expect(
+      db.tables.userSegmentMembershipChange!.map(({ change, sizeAfter }) => [
+        change,
+        sizeAfter,
+      ]),
+    ).toEqual([
+      ["JOINED", 1],
+      ["LEFT", 0],
+    ]);
+  });
+
+  it("drops members whose events have aged out when recomputing", async () => {
+    visit("user_1", 1);
+    visit("user_1", 2);
+    visit("user_2", 3);
+    visit("user_2", 20);
+    await engine.evaluateMember("ws_1", { userId: "user_1" });
+    await engine.evaluateMember("ws_1", { userId: "user_2" });
+    expect(members().map(({ memberKey }) => memberKey)).toEqual([
+      "user:user_1",
+    ]);
+
+    // A week later user_1's visits are too old and user_2 came back twice
+    db.tables.userBehaviorLog!.forEach((log) => {
+      log.timestamp = new Date(log.timestamp.getTime() - 7 * 86_400_000);
+    });
+    visit("user_2", 0);
+    visit("user_2", 1);
+
+    const result = await engine.recompute("ws_1", "seg_pricing");
+    expect(result).toEqual({
+      segmentId: "seg_pricing",
+      size: 1,
+      joined: 1,
+      left: 1,
+    });
+    expect(members().map(({ memberKey }) => memberKey)).toEqual([
+      "user:user_2",
+    ]);
+    expect(segment().computedAt).toBeInstanceOf(Date);
+  });
+
+  it("matches on lead fields and customer traits", async () => {
+    segment().criteria = {
+      expression: 'lead.status = "QUALIFIED" and customer.plan = "pro"',
+    };
+    db.seed("lead", {
+      id: "lead_1",
+      workspaceId: "ws_1",
+      email: "ada@example.com",
+      name: "Ada",
+      company: "Engines Ltd",
+      status: "QUALIFIED",
+      tags: [],
+      createdAt: daysAgo(30),
+    });
+    db.seed("userBehaviorLog", {
+      workspaceId: "ws_1",
+      userId: "user_1",
+      eventType: "identify",
+      eventData: { plan: "pro" },
+      timestamp: daysAgo(1),
+    });
+
+    expect(await engine.evaluateMember("ws_1", { userId: "user_1" })).toEqual({
+      joined: ["seg_pricing"],
+      left: [],
+    });
+    expect(members()[0]!.leadId).toBe("lead_1");
+    expect(await engine.segmentIdsFor("ws_1", { userId: "user_1" })).toEqual([
+      "seg_pricing",
+    ]);
+  });
+
+  it("adds the workspace's leads as they come to meet lead criteria", async () => {
+    segment().criteria = { expression: 'lead.status = "QUALIFIED"' };
+    db.seed("workspaceMember", {
+      workspaceId: "ws_1",
+      userId: "user_2",
+      role: "USER",
+    });
+    const lead = (
+      id: string,
+      workspaceId: string,
+      email: string,
+      status: string,
+    ) => ({
+      id,
+      workspaceId,
+      email,
+      status,
+      tags: [],
+      updatedAt: daysAgo(1),
+    });
+    db.seed("lead", [
+      lead("lead_1", "ws_1", "ada@example.com", "QUALIFIED"),
+      lead("lead_2", "ws_1", "Grace@example.com", "QUALIFIED"),
+      lead("lead_3", "ws_1", "alan@example.com", "NEW"),
+      lead("lead_4", "ws_2", "edsger@example.com", "QUALIFIED"),
+    ]);
+
+    // Grace has an account in the workspace, so joins as the user
+    expect(await engine.recompute("ws_1", "seg_pricing")).toMatchObject({
+      size: 2,
+      joined: 2,
+    });
+    expect(
+      members()
+        .map(({ memberKey }) => memberKey)
+        .sort(),
+    ).toEqual(["lead:lead_1", "user:user_2"]);
+
+    const checkedAt = new Date(Date.now() - 1000);
+    await db.prisma.lead.update({
+      where: { id: "lead_3" },
+      data: { status: "QUALIFIED" },
+    });
+    await db.prisma.lead.update({
+      where: { id: "lead_1" },
+      data: { status: "LOST" },
+    });
+
+    const syncedAt = await engine.syncLeads(checkedAt);
+    expect(syncedAt.getTime()).toBeGreaterThan(checkedAt.getTime());
+    expect(
+      members()
+        .map(({ memberKey }) => memberKey)
+        .sort(),
+    ).toEqual(["lead:lead_3", "user:user_2"]);
+    expect(segment().size).toBe(2);
+  });
+
+  it("exports members to drip sequences and outreach campaigns", async () => {
+    db.seed("userSegmentMember", [
+      {
+        workspaceId: "ws_1",
+        segmentId: "seg_pricing",
+        memberKey: "user:user_1",
+        email: "ada@example.com",
+        name: "Ada Lovelace",
+      },
+      {
+        workspaceId: "ws_1",
+        segmentId: "seg_pricing",
+        memberKey: "session:s_1",
+        email: "ada@example.com",
+        name: null,
+      },
+      {
+        workspaceId: "ws_1",
+        segmentId: "seg_pricing",
+        memberKey: "user:user_2",
+        email: "grace@example.com",
+        name: "Grace Hopper",
+      },
+      {
+        workspaceId: "ws_1",
+        segmentId: "seg_pricing",
+        memberKey: "session:s_2",
+        email: null,
+      },
+    ]);
+
+    expect(
+      await engine.exportToSequence("ws_1", "seg_pricing", "sequence_1"),
+    ).toEqual({
+      enrolled: 1,
+      skipped: [{ recipient: "ada@example.com", reason: "Suppressed" }],
+    });
+    expect(enrolled[0]!.map(({ email }) => email)).toEqual([
+      "ada@example.com",
+      "grace@example.com",
+    ]);
+
+    expect(
+      await engine.exportToOutreach("ws_1", "seg_pricing", "campaign_1"),
+    ).toEqual({ leads: 2 });
+    expect(
+      await db.prisma.b2BLead.findUnique({
+        where: { email: "grace@example.com" },
+        include: { campaigns: { select: { id: true } } },
+      }),
+    ).toMatchObject({
+      firstName: "Grace",
+      lastName: "Hopper",
+      source: "segment",
+      campaigns: [{ id: "campaign_1" }],
+    });
+    await expect(
+      engine.exportToOutreach("ws_2", "seg_pricing", "campaign_1"),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
@@ -0,0 +1,878 @@
+import {
+  db,
+  type Lead,
+  type PrismaClient,
+  type User,
+  type UserSegment,
+  type UserSegmentMember,
+  type UserSegmentMembershipChange,
+} from "@neon/data-model";
+import { logger } from "@neon/utils";
+import {
+  DripSequences,
+  type EnrollRecipient,
+  type EnrollSummary,
+} from "../email/drip-sequences";
+import { normalizeEmail } from "../email/types";
+import { countLoggedEvents, type SegmentMembership } from "./behavior-rules";
+import {
+  compareCount,
+  evaluateCondition,
+  PersonalizationError,
+  ruleCondition,
+  type ComparisonOperator,
+  type RuleCondition,
+  type RuleFacts,
+} from "./rule-conditions";
+
+/**
+ * Works out who belongs to each user segment. A segment's `criteria` are a
+ * rule condition, evaluated for each user, session or lead against their
+ * logged behaviour, their User and Lead records (`user.*`, `lead.*`) and
+ * the traits sent with their identify events (`customer.*`). Members are
+ * updated as behaviour is logged and as leads change, and recomputed on an
+ * interval so that time windows run out; every join and leave is kept as
+ * history.
+ */
+
+// Events whose data are traits of the customer, e.g. { plan: "pro" }
+export const IDENTIFY_EVENT = "identify";
+
+// Who segments are evaluated for; a user before a session before a lead
+export interface SegmentSubject {
+  userId?: string | undefined;
+  sessionId?: string | undefined;
+  leadId?: string | undefined;
+}
+
+export interface SegmentEngineOptions {
+  sequences?: DripSequences;
+  refreshInterval?: number; // milliseconds
+  // How often leads updated since the last check are re-evaluated
+  leadSyncInterval?: number; // milliseconds
+  // Events read when an events condition filters on event data
+  maxEventsScanned?: number;
+}
+
+// Segment ids the subject joined and left
+export interface MembershipUpdate {
+  joined: string[];
+  left: string[];
+}
+
+export interface SegmentRecompute {
+  segmentId: string;
+  size: number;
+  joined: number;
+  left: number;
+}
+
+export interface SegmentRecipient {
+  leadId?: string | undefined;
+  email: string;
+  name?: string | undefined;
+}
+
+// Where the subjects that can meet a condition are found
+interface Candidates {
+  // Subjects that logged one of these events
+  events: Array<{ event: string; since?: Date | undefined }>;
+  // Members of these segments
+  segmentIds: string[];
+  // The workspace's leads
+  leads: boolean;
+}
+
+interface Profile {
+  user: User | null;
+  lead: Lead | null;
+  customer: Record<string, unknown>;
+  email: string | undefined;
+  name: string | undefined;
+}
+
+// Enrollments made per call to the drip sequences
+const ENROLL_BATCH = 1000;
+// Identify events merged into a customer's traits, newest last
+const MAX_IDENTIFY_EVENTS = 20;
+// Updated leads re-evaluated per check
+const LEAD_SYNC_BATCH = 500;
+
+export function memberKey(subject: SegmentSubject): string | undefined {
+  if (subject.userId) return `user:${subject.userId}`;
+  if (subject.sessionId) return `session:${subject.sessionId}`;
+  if (subject.leadId) return `lead:${subject.leadId}`;
+  return undefined;
+}
+
+// The subject a member key stands for
+function memberSubject(key: string): SegmentSubject {
+  const at = key.indexOf(":");
+  const id = key.slice(at + 1);
+  switch (key.slice(0, at)) {
+    case "user":
+      return { userId: id };
+    case "session":
+      return { sessionId: id };
+    default:
+      return { leadId: id };
+  }
+}
+
+const text = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value : undefined;
+
+// Comparisons that a missing field does not pass
+const needsField = (op: ComparisonOperator, value: unknown): boolean =>
+  op !== "ne" && op !== "not_in" && (op !== "eq" || value !== undefined);
+
+/**
+ * Who could meet the condition, or undefined when anyone could, e.g. for
+ * a `not` or a comparison of user fields
+ */
+function candidatesFor(
+  condition: RuleCondition,
+  now: Date,
+): Candidates | undefined {
+  switch (condition.type) {
+    case "all":
+      // Whoever meets them all meets the first that narrows it down
+      for (const child of condition.conditions) {
+        const candidates = candidatesFor(child, now);
+        if (candidates) return candidates;
+      }
+      return undefined;
+    case "any": {
+      const children = condition.conditions.map((child) =>
+        candidatesFor(child, now),
+      );
+      if (children.includes(undefined)) return undefined;
+      const narrowed = children as Candidates[];
+      return {
+        events: narrowed.flatMap(({ events }) => events),
+        segmentIds: narrowed.flatMap(({ segmentIds }) => segmentIds),
+        leads: narrowed.some(({ leads }) => leads),
+      };
+    }
+    case "not":
+      return undefined;
+    case "events":
+      // Unless no events at all would do, only those who logged some can
+      if (compareCount(0, condition.op, condition.count)) return undefined;
+      return {
+        events: [
+          {
+            event: condition.event,
+            since:
+              condition.withinHours !== undefined
+                ? new Date(now.getTime() - condition.withinHours * 3_600_000)
+                : undefined,
+          },
+        ],
+        segmentIds: [],
+        leads: false,
+      };
+    case "in_segment":
+      return { events: [], segmentIds: [condition.segmentId], leads: false };
+    case "compare":
+    case "between": {
+      if (
+        condition.type === "compare" &&
+        !needsField(condition.op, condition.value)
+      ) {
+        return undefined;
+      }
+      const [root] = condition.field.replace(/^context\./, "").split(".");
+      if (root === "lead") return { events: [], segmentIds: [], leads: true };
+      if (root === "customer") {
+        return {
+          events: [{ event: IDENTIFY_EVENT }],
+          segmentIds: [],
+          leads: false,
+        };
+      }
+      return undefined;
+    }
+  }
+}
+
+export class SegmentEngine implements SegmentMembership {
+  private prisma: PrismaClient;
+  private sequences: DripSequences;
+  private refreshInterval: number;
+  private leadSyncInterval: number;
+  private maxEventsScanned: number;
+  private running = false;
+  private refreshTimer: NodeJS.Timeout | undefined;
+  private currentRun: Promise<SegmentRecompute[]> | undefined;
+  private leadsSyncedAt = new Date();
+  private leadSyncTimer: NodeJS.Timeout | undefined;
+  private currentLeadSync: Promise<Date> | undefined;
+
+  constructor(prisma?: PrismaClient, options: SegmentEngineOptions = {}) {
+    this.prisma = prisma || db;
+    this.sequences = options.sequences ?? new DripSequences(this.prisma);
+    this.refreshInterval = options.refreshInterval ?? 60 * 60 * 1000;
+    this.leadSyncInterval = options.leadSyncInterval ?? 60 * 1000;
+    this.maxEventsScanned = options.maxEventsScanned ?? 1000;
+  }
+
+  /**
+   * Check a segment's criteria before saving them
+   */
+  check(criteria: unknown): void {
+    ruleCondition(criteria);
+  }
+
+  /**
+   * Re-evaluate every active segment of the workspace for one subject,
+   * e.g. after logging their behaviour
+   */
+  async evaluateMember(
+    workspaceId: string,
+    subject: SegmentSubject,
+  ): Promise<MembershipUpdate> {
+    const update: MembershipUpdate = { joined: [], left: [] };
+    const key = memberKey(subject);
+    if (!key) return update;
+
+    const segments: UserSegment[] = await this.prisma.userSegment.findMany({
+      where: { workspaceId, isActive: true },
+    });
+    if (segments.length === 0) return update;
+    const profile = await this.profile(workspaceId, subject);
+    const facts = await this.facts(workspaceId, subject, profile);
+
+    for (const segment of segments) {
+      const condition = this.criteria(segment);
+      if (!condition) continue;
+      const matched = await evaluateCondition(condition, facts);
+      const change = await this.setMembership(
+        segment,
+        key,
+        subject,
+        profile,
+        matched,
+      );
+      if (!change) continue;
+      (change === "JOINED" ? update.joined : update.left).push(segment.id);
+      await this.recordChange(
+        workspaceId,
+        segment.id,
+        key,
+        change,
+        await this.updateSize(segment.id),
+      );
+    }
+    return update;
+  }
+
+  /**
+   * Evaluate a segment for its current members and everyone who could meet
+   * its criteria, and set its size
+   */
+  async recompute(
+    workspaceId: string,
+    segmentId: string,
+  ): Promise<SegmentRecompute> {
+    const segment: UserSegment | null = await this.prisma.userSegment.findFirst(
+      {
+        where: { id: segmentId, workspaceId },
+      },
+    );
+    if (!segment) {
+      throw new PersonalizationError("User segment not found", "NOT_FOUND");
+    }
+    if (!segment.isActive) {
+      throw new PersonalizationError("User segment is inactive", "INACTIVE");
+    }
+    const condition = ruleCondition(segment.criteria);
+
+    const members: UserSegmentMember[] =
+      await this.prisma.userSegmentMember.findMany({ where: { segmentId } });
+    const subjects = new Map<string, SegmentSubject>();
+    for (const subject of [
+      ...members.map((member) => memberSubject(member.memberKey)),
+      ...(await this.candidates(workspaceId, condition)),
+    ]) {
+      const key = memberKey(subject);
+      if (key && !subjects.has(key)) subjects.set(key, subject);
+    }
+
+    let size = members.length;
+    let joined = 0;
+    let left = 0;
+    for (const [key, subject] of subjects) {
+      const profile = await this.profile(workspaceId, subject);
+      const matched = await evaluateCondition(
+        condition,
+        await this.facts(workspaceId, subject, profile),
+      );
+      const change = await this.setMembership(
+        segment,
+        key,
+        subject,
+        profile,
+        matched,
+      );
+      if (!change) continue;
+      size += change === "JOINED" ? 1 : -1;
+      if (change === "JOINED") joined++;
+      else left++;
+      await this.recordChange(workspaceId, segment.id, key, change, size);
+    }
+
+    size = await this.updateSize(segment.id, new Date());
+    logger.info(
+      "User segment recomputed",
+      { segmentId: segment.id, size, joined, left },
+      "SegmentEngine",
+    );
+    return { segmentId: segment.id, size, joined, left };
+  }
+
+  /**
+   * Recompute every active segment, skipping those whose criteria are not
+   * valid
+   */
+  async refreshAll(): Promise<SegmentRecompute[]> {
+    const segments: UserSegment[] = await this.prisma.userSegment.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: "asc" },
+    });
+    const results: SegmentRecompute[] = [];
+    for (const segment of segments) {
+      if (!this.criteria(segment)) continue;
+      results.push(await this.recompute(segment.workspaceId, segment.id));
+    }
+    return results;
+  }
+
+  /**
+   * Re-evaluate the leads updated after `since`, oldest first, so that
+   * they join and leave segments without waiting for a recompute. Returns
+   * when the last of them was updated, for the next call.
+   */
+  async syncLeads(since: Date): Promise<Date> {
+    const leads: Array<{ id: string; workspaceId: string; updatedAt: Date }> =
+      await this.prisma.lead.findMany({
+        where: { updatedAt: { gt: since } },
+        select: { id: true, workspaceId: true, updatedAt: true },
+        orderBy: { updatedAt: "asc" },
+        take: LEAD_SYNC_BATCH,
+      });
+
+    const byWorkspace = new Map<string, string[]>();
+    for (const lead of leads) {
+      byWorkspace.set(lead.workspaceId, [
+        ...(byWorkspace.get(lead.workspaceId) ?? []),
+        lead.id,
+      ]);
+    }
+    for (const [workspaceId, leadIds] of byWorkspace) {
+      for (const subject of await this.leadSubjects(workspaceId, leadIds)) {
+        await this.evaluateMember(workspaceId, subject);
+      }
+    }
+    return leads.at(-1)?.updatedAt ?? since;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    this.leadsSyncedAt = new Date();
+    logger.info("Segment refresh started", {}, "SegmentEngine");
+    this.leadSyncTimer = setTimeout(
+      () => void this.syncChangedLeads(),
+      this.leadSyncInterval,
+    );
+    await this.refresh();
+  }
+
+  /**
+   * Stop refreshing and wait for the refresh in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+    if (this.leadSyncTimer) {
+      clearTimeout(this.leadSyncTimer);
+      this.leadSyncTimer = undefined;
+    }
+    await Promise.all([this.currentRun, this.currentLeadSync]);
+  }
+
+  // For behaviour rules' "in segment" conditions
+  async segmentIdsFor(
+    workspaceId: string,
+    subject: SegmentSubject,
+  ): Promise<string[]> {
+    const keys = [
+      subject.userId && `user:${subject.userId}`,
+      subject.sessionId && `session:${subject.sessionId}`,
+      subject.leadId && `lead:${subject.leadId}`,
+    ].filter((key): key is string => Boolean(key));
+    if (keys.length === 0) return [];
+    const rows: Array<{ segmentId: string }> =
+      await this.prisma.userSegmentMember.findMany({
+        where: { workspaceId, memberKey: { in: keys } },
+        select: { segmentId: true },
+      });
+    return [...new Set(rows.map((row) => row.segmentId))];
+  }
+
+  async members(
+    workspaceId: string,
+    segmentId: string,
+    query: { limit?: number; offset?: number } = {},
+  ): Promise<{ members: UserSegmentMember[]; total: number }> {
+    const where = { workspaceId, segmentId };
+    const [members, total] = await Promise.all([
+      this.prisma.userSegmentMember.findMany({
+        where,
+        orderBy: { joinedAt: "desc" },
+        take: query.limit ?? 50,
+        skip: query.offset ?? 0,
+      }),
+      this.prisma.userSegmentMember.count({ where }),
+    ]);
+    return { members, total };
+  }
+
+  /**
+   * Joins and leaves of a segment, newest first; `sizeAfter` charts its
+   * size over time
+   */
+  async history(
+    workspaceId: string,
+    segmentId: string,
+    query: {
+      since?: Date | undefined;
+      memberKey?: string | undefined;
+      limit?: number | undefined;
+    } = {},
+  ): Promise<UserSegmentMembershipChange[]> {
+    return this.prisma.userSegmentMembershipChange.findMany({
+      where: {
+        workspaceId,
+        segmentId,
+        ...(query.memberKey && { memberKey: query.memberKey }),
+        ...(query.since && { occurredAt: { gte: query.since } }),
+      },
+      orderBy: { occurredAt: "desc" },
+      take: query.limit ?? 100,
+    });
+  }
+
+  /**
+   * Members with an email address, one per address
+   */
+  async recipients(
+    workspaceId: string,
+    segmentId: string,
+  ): Promise<SegmentRecipient[]> {
+    const members: UserSegmentMember[] =
+      await this.prisma.userSegmentMember.findMany({
+        where: { workspaceId, segmentId, email: { not: null } },
+        orderBy: { joinedAt: "asc" },
+      });
+    const recipients = new Map<string, SegmentRecipient>();
+    for (const member of members) {
+      if (!member.email || recipients.has(member.email)) continue;
+      recipients.set(member.email, {
+        leadId: member.leadId ?? undefined,
+        email: member.email,
+        name: member.name ?? undefined,
+      });
+    }
+    return [...recipients.values()];
+  }
+
+  /**
+   * Enroll the segment's members in a drip sequence; its re-entry rules
+   * and suppressions decide who is skipped
+   */
+  async exportToSequence(
+    workspaceId: string,
+    segmentId: string,
+    sequenceId: string,
+  ): Promise<{ enrolled: number; skipped: EnrollSummary["skipped"] }> {
+    const recipients: EnrollRecipient[] = await this.recipients(
+      workspaceId,
+      segmentId,
+    );
+    let enrolled = 0;
+    const skipped: EnrollSummary["skipped"] = [];
+    for (let start = 0; start < recipients.length; start += ENROLL_BATCH) {
+      const summary = await this.sequences.enroll(
+        workspaceId,
+        sequenceId,
+        recipients.slice(start, start + ENROLL_BATCH),
+      );
+      enrolled += summary.enrolled.length;
+      skipped.push(...summary.skipped);
+    }
+    return { enrolled, skipped };
+  }
+
+  /**
+   * Add the segment's members to an outreach campaign as B2B leads
+   */
+  async exportToOutreach(
+    workspaceId: string,
+    segmentId: string,
+    campaignId: string,
+  ): Promise<{ leads: number }> {
+    const campaign = await this.prisma.campaign.findFirst({
+      where: { id: campaignId, workspaceId },
+      select: { id: true },
+    });
+    if (!campaign) {
+      throw new PersonalizationError("Campaign not found", "NOT_FOUND");
+    }
+
+    const recipients = await this.recipients(workspaceId, segmentId);
+    const leadIds = recipients.flatMap(({ leadId }) =>
+      leadId ? [leadId] : [],
+    );
+    const leads = new Map<string, Lead>(
+      leadIds.length > 0
+        ? (
+            await this.prisma.lead.findMany({
+              where: { id: { in: leadIds }, workspaceId },
+            })
+          ).map((lead: Lead) => [lead.id, lead])
+        : [],
+    );
+
+    for (const recipient of recipients) {
+      const lead = recipient.leadId ? leads.get(recipient.leadId) : undefined;
+      const [firstName, ...lastName] = (recipient.name ?? "").split(/\s+/);
+      await this.prisma.b2BLead.upsert({
+        where: { email: recipient.email },
+        create: {
+          email: recipient.email,
+          firstName: firstName || null,
+          lastName: lastName.join(" ") || null,
+          company: lead?.company ?? null,
+          position: lead?.position ?? null,
+          phone: lead?.phone ?? null,
+          source: "segment",
+          campaigns: { connect: { id: campaign.id } },
+        },
+        update: { campaigns: { connect: { id: campaign.id } } },
+      });
+    }
+    return { leads: recipients.length };
+  }
+
+  private criteria(segment: UserSegment): RuleCondition | undefined {
+    try {
+      return ruleCondition(segment.criteria);
+    } catch (error) {
+      // Segments saved before criteria were checked
+      logger.warn(
+        "Skipping user segment with invalid criteria",
+        { segmentId: segment.id, error },
+        "SegmentEngine",
+      );
+      return undefined;
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      this.currentRun = this.refreshAll();
+      const results = await this.currentRun;
+      logger.debug(
+        "Segment refresh",
+        {
+          segments: results.length,
+          joined: results.reduce((sum, r) => sum + r.joined, 0),
+          left: results.reduce((sum, r) => sum + r.left, 0),
+        },
+        "SegmentEngine",
+      );
+    } catch (error) {
+      logger.error("Segment refresh failed", { error }, "SegmentEngine");
+    } finally {
+      this.currentRun = undefined;
+    }
+
+    if (this.running) {
+      this.refreshTimer = setTimeout(
+        () => void this.refresh(),
+        this.refreshInterval,
+      );
+    }
+  }
+
+  private async syncChangedLeads(): Promise<void> {
+    try {
+      this.currentLeadSync = this.syncLeads(this.leadsSyncedAt);
+      this.leadsSyncedAt = await this.currentLeadSync;
+    } catch (error) {
+      logger.error("Lead segment sync failed", { error }, "SegmentEngine");
+    } finally {
+      this.currentLeadSync = undefined;
+    }
+
+    if (this.running) {
+      this.leadSyncTimer = setTimeout(
+        () => void this.syncChangedLeads(),
+        this.leadSyncInterval,
+      );
+    }
+  }
+
+  /**
+   * Whoever could meet the criteria: those who logged the events they
+   * count, members of the segments they name and the workspace's leads
+   * when they read lead fields. Criteria anyone could meet are evaluated
+   * for everyone with logged behaviour and every lead.
+   */
+  private async candidates(
+    workspaceId: string,
+    condition: RuleCondition,
+  ): Promise<SegmentSubject[]> {
+    const candidates = candidatesFor(condition, new Date());
+    const subjects: SegmentSubject[] = [];
+
+    if (!candidates || candidates.events.length > 0) {
+      const logged: Array<{ userId: string | null; sessionId: string | null }> =
+        await this.prisma.userBehaviorLog.findMany({
+          where: {
+            workspaceId,
+            ...(candidates && {
+              OR: candidates.events.map(({ event, since }) => ({
+                eventType: event,
+                ...(since && { timestamp: { gte: since } }),
+              })),
+            }),
+          },
+          distinct: ["userId", "sessionId"],
+          select: { userId: true, sessionId: true },
+        });
+      for (const row of logged) {
+        subjects.push({
+          userId: row.userId ?? undefined,
+          sessionId: row.sessionId ?? undefined,
+        });
+      }
+    }
+    if (candidates && candidates.segmentIds.length > 0) {
+      const members: Array<{ memberKey: string }> =
+        await this.prisma.userSegmentMember.findMany({
+          where: { workspaceId, segmentId: { in: candidates.segmentIds } },
+          select: { memberKey: true },
+        });
+      for (const member of members) {
+        subjects.push(memberSubject(member.memberKey));
+      }
+    }
+    if (!candidates || candidates.leads) {
+      subjects.push(...(await this.leadSubjects(workspaceId)));
+    }
+    return subjects;
+  }
+
+  // The workspace's leads; a lead with an account in the workspace is
+  // evaluated as that user
+  private async leadSubjects(
+    workspaceId: string,
+    leadIds?: string[],
+  ): Promise<SegmentSubject[]> {
+    const leads: Array<{ id: string; email: string }> =
+      await this.prisma.lead.findMany({
+        where: { workspaceId, ...(leadIds && { id: { in: leadIds } }) },
+        select: { id: true, email: true },
+      });
+    if (leads.length === 0) return [];
+
+    const users: Array<{ id: string; email: string }> =
+      await this.prisma.user.findMany({
+        where: {
+          email: { in: leads.map(({ email }) => email), mode: "insensitive" },
+          workspaces: { some: { workspaceId } },
+        },
+        select: { id: true, email: true },
+      });
+    const userEmails = new Set(users.map(({ email }) => normalizeEmail(email)));
+    return [
+      ...users.map(({ id }): SegmentSubject => ({ userId: id })),
+      ...leads
+        .filter(({ email }) => !userEmails.has(normalizeEmail(email)))
+        .map(({ id }): SegmentSubject => ({ leadId: id })),
+    ];
+  }
+
+  // Add or remove the member; the change made, if any
+  private async setMembership(
+    segment: UserSegment,
+    key: string,
+    subject: SegmentSubject,
+    profile: Profile,
+    matched: boolean,
+  ): Promise<"JOINED" | "LEFT" | undefined> {
+    if (!matched) {
+      const { count } = await this.prisma.userSegmentMember.deleteMany({
+        where: { segmentId: segment.id, memberKey: key },
+      });
+      return count > 0 ? "LEFT" : undefined;
+    }
+
+    const details = {
+      leadId: profile.lead?.id ?? subject.leadId ?? null,
+      email: profile.email ? normalizeEmail(profile.email) : null,
+      name: profile.name ?? null,
+      evaluatedAt: new Date(),
+    };
+    // Safe against the same member joining twice at once
+    const { count } = await this.prisma.userSegmentMember.createMany({
+      data: [
+        {
+          workspaceId: segment.workspaceId,
+          segmentId: segment.id,
+          memberKey: key,
+          userId: subject.userId ?? null,
+          sessionId: subject.userId ? null : (subject.sessionId ?? null),
+          ...details,
+        },
+      ],
+      skipDuplicates: true,
+    });
+    if (count > 0) return "JOINED";
+    await this.prisma.userSegmentMember.updateMany({
+      where: { segmentId: segment.id, memberKey: key },
+      data: details,
+    });
+    return undefined;
+  }
+
+  private async recordChange(
+    workspaceId: string,
+    segmentId: string,
+    key: string,
+    change: "JOINED" | "LEFT",
+    sizeAfter: number,
+  ): Promise<void> {
+    await this.prisma.userSegmentMembershipChange.create({
+      data: { workspaceId, segmentId, memberKey: key, change, sizeAfter },
+    });
+  }
+
+  private async updateSize(
+    segmentId: string,
+    computedAt?: Date,
+  ): Promise<number> {
+    const size = await this.prisma.userSegmentMember.count({
+      where: { segmentId },
+    });
+    await this.prisma.userSegment.update({
+      where: { id: segmentId },
+      data: { size, ...(computedAt && { computedAt }) },
+    });
+    return size;
+  }
+
+  private async profile(
+    workspaceId: string,
+    subject: SegmentSubject,
+  ): Promise<Profile> {
+    const user: User | null = subject.userId
+      ? await this.prisma.user.findUnique({ where: { id: subject.userId } })
+      : null;
+
+    const customer: Record<string, unknown> = {};
+    if (subject.userId || subject.sessionId) {
+      const identified: Array<{ eventData: unknown }> =
+        await this.prisma.userBehaviorLog.findMany({
+          where: {
+            workspaceId,
+            eventType: IDENTIFY_EVENT,
+            ...(subject.userId
+              ? { userId: subject.userId }
+              : { sessionId: subject.sessionId ?? null }),
+          },
+          select: { eventData: true },
+          orderBy: { timestamp: "desc" },
+          take: MAX_IDENTIFY_EVENTS,
+        });
+      for (const { eventData } of identified.reverse()) {
+        if (eventData && typeof eventData === "object") {
+          Object.assign(customer, eventData);
+        }
+      }
+    }
+
+    let email = user?.email ?? text(customer.email);
+    const lead: Lead | null = subject.leadId
+      ? await this.prisma.lead.findFirst({
+          where: { id: subject.leadId, workspaceId },
+        })
+      : email
+        ? await this.prisma.lead.findFirst({
+            where: {
+              workspaceId,
+              email: { equals: email, mode: "insensitive" },
+            },
+            orderBy: { updatedAt: "desc" },
+          })
+        : null;
+    email ??= lead?.email;
+
+    return {
+      user,
+      lead,
+      customer,
+      email,
+      name: user?.name ?? lead?.name ?? text(customer.name),
+    };
+  }
+
+  private async facts(
+    workspaceId: string,
+    subject: SegmentSubject,
+    profile: Profile,
+  ): Promise<RuleFacts> {
+    const { user, lead } = profile;
+    return {
+      context: {
+        user: user && {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+          createdAt: user.createdAt.toISOString(),
+        },
+        lead: lead && {
+          id: lead.id,
+          email: lead.email,
+          name: lead.name,
+          company: lead.company,
+          position: lead.position,
+          source: lead.source,
+          status: lead.status,
+          score: lead.score,
+          tags: lead.tags,
+          metadata: lead.metadata ?? {},
+          createdAt: lead.createdAt.toISOString(),
+        },
+        customer: profile.customer,
+      },
+      segmentIds: await this.segmentIdsFor(workspaceId, subject),
+      now: new Date(),
+      countEvents: (query) =>
+        countLoggedEvents(
+          this.prisma,
+          workspaceId,
+          subject,
+          query,
+          this.maxEventsScanned,
+        ),
+    };
+  }
+}
@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import {
+  JobQueue,
+  PermanentJobError,
+  computeRetryDelay,
+  DEFAULT_RETRY_POLICY,
+} from "./job-queue";
+
+const job = (overrides: Record<string, unknown> = {}): any => ({
+  id: "job-1",
+  workspaceId: "default",
+  queue: "agents",
+  agentType: "content",
+  task: "generate_post",
+  payload: {},
+  priority: 1,
+  status: "RUNNING",
+  idempotencyKey: null,
+  attempts: 1,
+  maxAttempts: 3,
+  initialDelay: 1000,
+  backoffMultiplier: 2,
+  maxDelay: 60_000,
+  runAt: new Date(),
+  lockedBy: "worker-1",
+  lockedUntil: new Date(),
+  lastError: null,
+  result: null,
+  completedAt: null,
+  deadAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe("JobQueue", () => {
+  let prisma: any;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    prisma = {
+      agentJob: {
+        create: jest.fn(async ({ data }: any) => ({ id: "job-1", ...data })),
+        findUnique: jest.fn(async () => null),
+        findMany: jest.fn(async () => []),
+        updateMany: jest.fn(async () => ({ count: 1 })),
+      },
+      $queryRaw: jest.fn(async () => []),
+    };
+    queue = new JobQueue(prisma);
+  });
+
+  describe("computeRetryDelay", () => {
+    it("should back off exponentially up to the maximum delay", () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, maxDelay: 5000 };
+
+      expect(computeRetryDelay(policy, 1)).toBe(1000);
+      expect(computeRetryDelay(policy, 2)).toBe(2000);
+      expect(computeRetryDelay(policy, 3)).toBe(4000);
+      expect(computeRetryDelay(policy, 4)).toBe(5000);
+    });
+  });
+
+  describe("enqueue", () => {
+    it("should store the priority rank and retry policy", async () => {
+      await queue.enqueue({
+        agentType: "content",
+        task: "generate_post",
+        payload: { context: { topic: "launch" } },
+        workspaceId: "ws-1",
+        priority: "critical",
+        retry: { maxAttempts: 5, initialDelay: 250 },
+      });
+
+      expect(prisma.agentJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          workspaceId: "ws-1",
+          queue: "agents",
+          priority: 3,
+          maxAttempts: 5,
+          initialDelay: 250,
+          backoffMultiplier: 2,
+          payload: { context: { topic: "launch" } },
+        }),
+      });
+    });
+
+    it("should return the existing job for a repeated idempotency key", async () => {
+      prisma.agentJob.findUnique.mockResolvedValue(job({ status: "PENDING" }));
+
+      const result = await queue.enqueue({
+        agentType: "content",
+        task: "generate_post",
+        idempotencyKey: "post-42",
+      });
+
+      expect(result.id).toBe("job-1");
+      expect(prisma.agentJob.findUnique).toHaveBeenCalledWith({
+        where: {
+          workspaceId_idempotencyKey: {
+            workspaceId: "default",
+            idempotencyKey: "post-42",
+          },
+        },
+      });
+      expect(prisma.agentJob.create).not.toHaveBeenCalled();
+    });
+
+    it("should return the winner when a concurrent enqueue races it", async () => {
+      prisma.agentJob.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(job({ id: "job-winner" }));
+      prisma.agentJob.create.mockRejectedValue(
+        Object.assign(new Error("Unique constraint failed"), { code: "P2002" }),
+      );
+
+      const result = await queue.enqueue({
+        agentType: "content",
+        task: "generate_post",
+        idempotencyKey: "post-42",
+      });
+
+      expect(result.id).toBe("job-winner");
+    });
+
+    it("should key recurring runs on their interval", async () => {
+      const hour = 60 * 60 * 1000;
+      const input = { agentType: "auto-replay", task: "check_replays" };
+
+      await queue.scheduleRecurring(input, hour, new Date(10 * hour + 5));
+      await queue.scheduleRecurring(input, hour, new Date(11 * hour - 5));
+
+      const [first, second] = prisma.agentJob.create.mock.calls.map(
+        ([args]: any) => args.data,
+      );
+      expect(first).toMatchObject({
+        idempotencyKey: "auto-replay:check_replays:10",
+        runAt: new Date(10 * hour),
+      });
+      expect(second.idempotencyKey).toBe(first.idempotencyKey);
+    });
+  });
+
+  describe("claim", () => {
+    it("should lock the next job for the worker", async () => {
+      prisma.$queryRaw.mockResolvedValue([job()]);
+
+      const claimed = await queue.claim("worker-1", 10_000);
+
+      expect(claimed?.id).toBe("job-1");
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it("should return null when nothing is due", async () => {
+      await expect(queue.claim("worker-1")).resolves.toBeNull();
+    });
+  });
+
+  describe("listJobs", () => {
+    it("should list finished jobs of one agent type newest first", async () => {
+      await queue.listJobs("COMPLETED", { agentType: "command-router" });
+
+      expect(prisma.agentJob.findMany).toHaveBeenCalledWith({
+        where: {
+          queue: "agents",
+          status: "COMPLETED",
+          agentType: "command-router",
+        },
+        orderBy: { updatedAt: "desc" },
+        take: 50,
+      });
+    });
+  });
+
+  describe("fail", () => {
+    it("should schedule a retry after the backoff delay", async () => {
+      const before = Date.now();
+
+      const status = await queue.fail(
+        job({ attempts: 2 }),
+        "worker-1",
+        new Error("timeout"),
+      );
+
+      expect(status).toBe("PENDING");
+      const { where, data } = prisma.agentJob.updateMany.mock.calls[0][0];
+      expect(where).toEqual({
+        id: "job-1",
+        lockedBy: "worker-1",
+        status: "RUNNING",
+      });
+      expect(data.lastError).toBe("timeout");
+      expect(data.runAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+    });
+
+    it("should dead-letter jobs that used all their attempts", async () => {
+      const status = await queue.fail(
+        job({ attempts: 3 }),
+        "worker-1",
+        new Error("timeout"),
+      );
+
+      expect(status).toBe("DEAD");
+      const { data } = prisma.agentJob.updateMany.mock.calls[0][0];
+      expect(data.deadAt).toBeInstanceOf(Date);
+      expect(data.runAt).toBeUndefined();
+    });
+
+    it("should dead-letter permanent errors immediately", async () => {
+      await expect(
+        queue.fail(job(), "worker-1", new PermanentJobError("bad payload")),
+      ).resolves.toBe("DEAD");
+    });
+  });
+
+  describe("dead letters", () => {
+    it("should dead-letter abandoned jobs on their last attempt only", async () => {
+      prisma.agentJob.findMany.mockResolvedValue([
+        { id: "job-1", attempts: 3, maxAttempts: 3 },
+        { id: "job-2", attempts: 1, maxAttempts: 3 },
+      ]);
+
+      await queue.deadLetterAbandoned();
+
+      expect(prisma.agentJob.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { in: ["job-1"] } }),
+          data: expect.objectContaining({ status: "DEAD" }),
+        }),
+      );
+    });
+
+    it("should requeue a dead letter with fresh attempts", async () => {
+      await expect(queue.retryDeadLetter("job-1")).resolves.toBe(true);
+
+      expect(prisma.agentJob.updateMany).toHaveBeenCalledWith({
+        where: { id: "job-1", status: "DEAD" },
+        data: expect.objectContaining({ status: "PENDING", attempts: 0 }),
+      });
+    });
+  });
+});
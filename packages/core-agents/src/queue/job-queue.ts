@@ -0,0 +1,415 @@
+import {
+  db,
+  DEFAULT_WORKSPACE_ID,
+  type AgentJob,
+  type AgentJobStatus,
+  type PrismaClient,
+} from "@neon/data-model";
+import type { AgentPayload } from "../base-agent";
+
+/**
+ * Durable queue for agent work, stored in the `agent_jobs` table so it
+ * survives restarts and runs against the same Postgres as everything else.
+ * Workers claim jobs with `FOR UPDATE SKIP LOCKED` and hold a lease while
+ * they run; a job whose lease expires (the worker crashed or hung) is
+ * claimed again by the next worker. Failed jobs are retried with backoff
+ * and moved to the dead-letter state once their attempts are used up.
+ */
+
+export const DEFAULT_QUEUE = "agents";
+export const DEFAULT_LOCK_MS = 5 * 60 * 1000; // 5 minutes
+
+export type JobPriority = AgentPayload["priority"];
+
+// Higher ranks are claimed first
+export const JOB_PRIORITY_RANK: Record<JobPriority, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+// Same shape as WorkflowStep.retryPolicy in the command router
+export interface JobRetryPolicy {
+  maxAttempts: number;
+  backoffMultiplier: number;
+  initialDelay: number; // milliseconds
+  maxDelay?: number; // milliseconds
+}
+
+export const DEFAULT_RETRY_POLICY: JobRetryPolicy = {
+  maxAttempts: 3,
+  backoffMultiplier: 2,
+  initialDelay: 1000,
+  maxDelay: 60 * 60 * 1000,
+};
+
+export interface EnqueueJobInput {
+  agentType: string;
+  task: string;
+  payload?: Record<string, unknown> | undefined;
+  workspaceId?: string | undefined;
+  priority?: JobPriority | undefined;
+  // A second enqueue with the same key returns the existing job
+  idempotencyKey?: string | undefined;
+  runAt?: Date | undefined;
+  retry?: Partial<JobRetryPolicy> | undefined;
+}
+
+export interface DeadLetterQuery {
+  workspaceId?: string | undefined;
+  agentType?: string | undefined;
+  limit?: number | undefined;
+}
+
+export type JobQueueStats = Record<AgentJobStatus, number>;
+
+/**
+ * Thrown by job handlers for failures that retrying cannot fix. The job
+ * goes straight to the dead-letter state.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+/**
+ * Delay before the next attempt after `attempt` attempts have failed
+ */
+export function computeRetryDelay(
+  policy: JobRetryPolicy,
+  attempt: number,
+): number {
+  const delay =
+    policy.initialDelay *
+    Math.pow(policy.backoffMultiplier, Math.max(attempt - 1, 0));
+  return Math.min(delay, policy.maxDelay ?? Infinity);
+}
+
+export class JobQueue {
+  private prisma: PrismaClient;
+  readonly queue: string;
+
+  constructor(prisma?: PrismaClient, queue: string = DEFAULT_QUEUE) {
+    this.prisma = prisma || db;
+    this.queue = queue;
+  }
+
+  /**
+   * Add a job. With an idempotency key, enqueueing the same work twice
+   * returns the job created the first time.
+   */
+  async enqueue(input: EnqueueJobInput): Promise<AgentJob> {
+    const workspaceId = input.workspaceId ?? DEFAULT_WORKSPACE_ID;
+    const retry = { ...DEFAULT_RETRY_POLICY, ...input.retry };
+
+    if (input.idempotencyKey) {
+      const existing = await this.findByIdempotencyKey(
+        workspaceId,
+        input.idempotencyKey,
+      );
+      if (existing) return existing;
+    }
+
+    try {
+      return await this.prisma.agentJob.create({
+        data: {
+          workspaceId,
+          queue: this.queue,
+          agentType: input.agentType,
+          task: input.task,
+          payload: (input.payload ?? {}) as object,
+          priority: JOB_PRIORITY_RANK[input.priority ?? "medium"],
+          idempotencyKey: input.idempotencyKey ?? null,
+          maxAttempts: retry.maxAttempts,
+          initialDelay: retry.initialDelay,
+          backoffMultiplier: retry.backoffMultiplier,
+          maxDelay: retry.maxDelay ?? DEFAULT_RETRY_POLICY.maxDelay!,
+          runAt: input.runAt ?? new Date(),
+        },
+      });
+    } catch (error) {
+      // Lost a race with a concurrent enqueue of the same key
+      if (
+        input.idempotencyKey &&
+        (error as { code?: string }).code === "P2002"
+      ) {
+        const existing = await this.findByIdempotencyKey(
+          workspaceId,
+          input.idempotencyKey,
+        );
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Enqueue the run of a recurring job for the interval `from` falls in,
+   * due at the start of that interval. Runs are keyed on their interval,
+   * so every process scheduling the same work shares one run of it.
+   */
+  async scheduleRecurring(
+    input: Omit<EnqueueJobInput, "idempotencyKey" | "runAt">,
+    intervalMs: number,
+    from: Date = new Date(),
+  ): Promise<AgentJob> {
+    const slot = Math.floor(from.getTime() / intervalMs);
+    return this.enqueue({
+      ...input,
+      idempotencyKey: `${input.agentType}:${input.task}:${slot}`,
+      runAt: new Date(slot * intervalMs),
+    });
+  }
+
+  /**
+   * Claim the next runnable job for a worker: the highest priority job
+   * that is due, or a running job whose lease has expired.
+   */
+  async claim(
+    workerId: string,
+    lockMs: number = DEFAULT_LOCK_MS,
+  ): Promise<AgentJob | null> {
+    const now = new Date();
+    const lockedUntil = new Date(now.getTime() + lockMs);
+
+    const rows = await this.prisma.$queryRaw<AgentJob[]>`
+      UPDATE "agent_jobs"
+      SET "status" = 'RUNNING',
+          "attempts" = "attempts" + 1,
+          "lockedBy" = ${workerId},
+          "lockedUntil" = ${lockedUntil},
+          "updatedAt" = ${now}
+      WHERE "id" = (
+        SELECT "id" FROM "agent_jobs"
+        WHERE "queue" = ${this.queue}
+          AND "attempts" < "maxAttempts"
+          AND (
+            ("status" = 'PENDING' AND "runAt" <= ${now})
+            OR ("status" = 'RUNNING' AND "lockedUntil" < ${now})
+          )
+        ORDER BY "priority" DESC, "runAt" ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *`;
+
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Extend a running job's lease. Returns false when the worker no
+   * longer owns the job.
+   */
+  async heartbeat(
+    jobId: string,
+    workerId: string,
+    lockMs: number = DEFAULT_LOCK_MS,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.agentJob.updateMany({
+      where: { id: jobId, lockedBy: workerId, status: "RUNNING" },
+      data: { lockedUntil: new Date(Date.now() + lockMs) },
+    });
+    return count > 0;
+  }
+
+  async complete(
+    jobId: string,
+    workerId: string,
+    result?: unknown,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.agentJob.updateMany({
+      where: { id: jobId, lockedBy: workerId, status: "RUNNING" },
+      data: {
+        status: "COMPLETED",
+        result: (result ?? null) as object,
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: null,
+        completedAt: new Date(),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Record a failed attempt. The job is scheduled again after its backoff
+   * delay, or dead-lettered when it is out of attempts or the error is
+   * permanent.
+   */
+  async fail(
+    job: AgentJob,
+    workerId: string,
+    error: unknown,
+  ): Promise<AgentJobStatus> {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted =
+      job.attempts >= job.maxAttempts || error instanceof PermanentJobError;
+
+    const status: AgentJobStatus = exhausted ? "DEAD" : "PENDING";
+    const delay = computeRetryDelay(
+      {
+        maxAttempts: job.maxAttempts,
+        initialDelay: job.initialDelay,
+        backoffMultiplier: job.backoffMultiplier,
+        maxDelay: job.maxDelay,
+      },
+      job.attempts,
+    );
+
+    await this.prisma.agentJob.updateMany({
+      where: { id: job.id, lockedBy: workerId, status: "RUNNING" },
+      data: {
+        status,
+        lastError: message,
+        lockedBy: null,
+        lockedUntil: null,
+        ...(exhausted
+          ? { deadAt: new Date() }
+          : { runAt: new Date(Date.now() + delay) }),
+      },
+    });
+
+    return status;
+  }
+
+  /**
+   * Dead-letter jobs whose worker died during their last attempt. Without
+   * this they would never be claimed again.
+   */
+  async deadLetterAbandoned(): Promise<number> {
+    const now = new Date();
+    const abandoned = await this.prisma.agentJob.findMany({
+      where: {
+        queue: this.queue,
+        status: "RUNNING",
+        lockedUntil: { lt: now },
+      },
+      select: { id: true, attempts: true, maxAttempts: true },
+    });
+
+    const ids = abandoned
+      .filter((job) => job.attempts >= job.maxAttempts)
+      .map((job) => job.id);
+    if (ids.length === 0) return 0;
+
+    const { count } = await this.prisma.agentJob.updateMany({
+      where: { id: { in: ids }, status: "RUNNING", lockedUntil: { lt: now } },
+      data: {
+        status: "DEAD",
+        lastError: "Worker lease expired on the final attempt",
+        lockedBy: null,
+        lockedUntil: null,
+        deadAt: now,
+      },
+    });
+    return count;
+  }
+
+  async getJob(jobId: string): Promise<AgentJob | null> {
+    return this.prisma.agentJob.findUnique({ where: { id: jobId } });
+  }
+
+  async listDeadLetters(query: DeadLetterQuery = {}): Promise<AgentJob[]> {
+    return this.prisma.agentJob.findMany({
+      where: {
+        queue: this.queue,
+        status: "DEAD",
+        ...(query.workspaceId && { workspaceId: query.workspaceId }),
+        ...(query.agentType && { agentType: query.agentType }),
+      },
+      orderBy: { deadAt: "desc" },
+      take: query.limit ?? 50,
+    });
+  }
+
+  /**
+   * Put a dead-lettered job back on the queue with a fresh set of attempts
+   */
+  async retryDeadLetter(jobId: string): Promise<boolean> {
+    const { count } = await this.prisma.agentJob.updateMany({
+      where: { id: jobId, status: "DEAD" },
+      data: {
+        status: "PENDING",
+        attempts: 0,
+        runAt: new Date(),
+        deadAt: null,
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Cancel a job that has not started yet
+   */
+  async cancel(jobId: string, workspaceId?: string): Promise<boolean> {
+    const { count } = await this.prisma.agentJob.updateMany({
+      where: {
+        id: jobId,
+        status: "PENDING",
+        ...(workspaceId && { workspaceId }),
+      },
+      data: { status: "CANCELLED" },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Jobs in one state. Pending and running jobs come in the order workers
+   * claim them, finished ones newest first.
+   */
+  async listJobs(
+    status: AgentJobStatus,
+    options: {
+      workspaceId?: string | undefined;
+      agentType?: string | undefined;
+      limit?: number;
+    } = {},
+  ): Promise<AgentJob[]> {
+    const queued = status === "PENDING" || status === "RUNNING";
+
+    return this.prisma.agentJob.findMany({
+      where: {
+        queue: this.queue,
+        status,
+        ...(options.workspaceId && { workspaceId: options.workspaceId }),
+        ...(options.agentType && { agentType: options.agentType }),
+      },
+      orderBy: queued
+        ? [{ priority: "desc" }, { runAt: "asc" }]
+        : { updatedAt: "desc" },
+      take: options.limit ?? 50,
+    });
+  }
+
+  async getStats(workspaceId?: string): Promise<JobQueueStats> {
+    const groups = await this.prisma.agentJob.groupBy({
+      by: ["status"],
+      where: { queue: this.queue, ...(workspaceId && { workspaceId }) },
+      _count: { _all: true },
+    });
+
+    const stats: JobQueueStats = {
+      PENDING: 0,
+      RUNNING: 0,
+      COMPLETED: 0,
+      DEAD: 0,
+      CANCELLED: 0,
+    };
+    for (const group of groups) {
+      stats[group.status] = group._count._all;
+    }
+    return stats;
+  }
+
+  private async findByIdempotencyKey(
+    workspaceId: string,
+    idempotencyKey: string,
+  ): Promise<AgentJob | null> {
+    return this.prisma.agentJob.findUnique({
+      where: { workspaceId_idempotencyKey: { workspaceId, idempotencyKey } },
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { JobWorker } from "./job-worker";
+import { PermanentJobError } from "./job-queue";
+
+const job = (overrides: Record<string, unknown> = {}) =>
+  ({
+    id: "job-1",
+    workspaceId: "default",
+    agentType: "content",
+    task: "generate_post",
+    payload: {},
+    attempts: 1,
+    maxAttempts: 3,
+    ...overrides,
+  }) as any;
+
+describe("JobWorker", () => {
+  let queue: any;
+  let worker: JobWorker;
+
+  beforeEach(() => {
+    queue = {
+      queue: "agents",
+      claim: jest.fn(async () => null),
+      complete: jest.fn(async () => true),
+      fail: jest.fn(async () => "PENDING"),
+      heartbeat: jest.fn(async () => true),
+      deadLetterAbandoned: jest.fn(async () => 0),
+    };
+    worker = new JobWorker(queue, { workerId: "worker-1", lockMs: 10_000 });
+  });
+
+  it("should complete jobs with the handler result", async () => {
+    queue.claim.mockResolvedValueOnce(job());
+    worker.register("content", async () => ({ success: true }));
+
+    await expect(worker.runNext()).resolves.toBe(true);
+
+    expect(queue.claim).toHaveBeenCalledWith("worker-1", 10_000);
+    expect(queue.complete).toHaveBeenCalledWith("job-1", "worker-1", {
+      success: true,
+    });
+  });
+
+  it("should report handler errors to the queue for retry", async () => {
+    const error = new Error("provider timeout");
+    queue.claim.mockResolvedValueOnce(job());
+    worker.register("content", async () => {
+      throw error;
+    });
+
+    await worker.runNext();
+
+    expect(queue.fail).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "job-1" }),
+      "worker-1",
+      error,
+    );
+    expect(queue.complete).not.toHaveBeenCalled();
+  });
+
+  it("should dead-letter jobs no handler can run", async () => {
+    queue.claim.mockResolvedValueOnce(job({ agentType: "unknown" }));
+
+    await worker.runNext();
+
+    expect(queue.fail.mock.calls[0][2]).toBeInstanceOf(PermanentJobError);
+  });
+
+  it("should pick up due jobs on start and finish them before stopping", async () => {
+    queue.claim.mockResolvedValueOnce(job({ attempts: 2 }));
+    worker.setDefaultHandler(async (claimed) => claimed.attempts);
+
+    await worker.start();
+    await worker.stop();
+
+    expect(queue.deadLetterAbandoned).toHaveBeenCalled();
+    expect(queue.complete).toHaveBeenCalledWith("job-1", "worker-1", 2);
+  });
+
+  it("should return false when no job is due", async () => {
+    await expect(worker.runNext()).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,201 @@
+import { hostname } from "os";
+import { logger } from "@neon/utils";
+import type { AgentJob } from "@neon/data-model";
+import { AgentFactory, type AgentPayload } from "../base-agent";
+import { DEFAULT_LOCK_MS, JobQueue, PermanentJobError } from "./job-queue";
+
+export type JobHandler = (job: AgentJob) => Promise<unknown>;
+
+export interface JobWorkerOptions {
+  workerId?: string;
+  // Jobs run at the same time by this worker
+  concurrency?: number;
+  pollInterval?: number; // milliseconds
+  lockMs?: number;
+}
+
+/**
+ * Runs an agent job through the agent registered for its `agentType` in
+ * the AgentFactory. Unsuccessful agent results count as failed attempts.
+ */
+export function createAgentJobHandler(): JobHandler {
+  return async (job) => {
+    const payload = (job.payload ?? {}) as Partial<AgentPayload>;
+    const agent = AgentFactory.createAgent(
+      job.agentType,
+      `${job.agentType}-job-${job.id}`,
+      job.agentType,
+    );
+
+    const result = await agent.execute({
+      ...payload,
+      task: job.task,
+      priority: payload.priority ?? "medium",
+      metadata: {
+        ...payload.metadata,
+        workspaceId: job.workspaceId,
+        jobId: job.id,
+        attempt: job.attempts,
+      },
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || `${job.agentType} agent run failed`);
+    }
+    return result;
+  };
+}
+
+/**
+ * Polls a JobQueue and runs claimed jobs with the handler registered for
+ * their agent type. Leases are renewed while a job runs, so only jobs of
+ * a crashed worker are picked up again by others.
+ */
+export class JobWorker {
+  readonly workerId: string;
+  private queue: JobQueue;
+  private handlers = new Map<string, JobHandler>();
+  private defaultHandler: JobHandler | undefined;
+  private concurrency: number;
+  private pollInterval: number;
+  private lockMs: number;
+  private running = false;
+  private pollTimer: NodeJS.Timeout | undefined;
+  private inFlight = new Set<Promise<void>>();
+
+  constructor(queue: JobQueue, options: JobWorkerOptions = {}) {
+    this.queue = queue;
+    this.workerId =
+      options.workerId ??
+      `${hostname()}:${process.pid}:${Math.random().toString(36).substr(2, 6)}`;
+    this.concurrency = options.concurrency ?? 1;
+    this.pollInterval = options.pollInterval ?? 1000;
+    this.lockMs = options.lockMs ?? DEFAULT_LOCK_MS;
+  }
+
+  register(agentType: string, handler: JobHandler): this {
+    this.handlers.set(agentType, handler);
+    return this;
+  }
+
+  /**
+   * Handler for agent types without a registered handler
+   */
+  setDefaultHandler(handler: JobHandler): this {
+    this.defaultHandler = handler;
+    return this;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    const deadLettered = await this.queue.deadLetterAbandoned();
+    logger.info(
+      "Job worker started",
+      { workerId: this.workerId, queue: this.queue.queue, deadLettered },
+      "JobWorker",
+    );
+
+    await this.poll();
+  }
+
+  /**
+   * Stop claiming jobs and wait for the ones in flight to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    await Promise.all(this.inFlight);
+  }
+
+  /**
+   * Claim and run a single job. Returns false when nothing was due.
+   */
+  async runNext(): Promise<boolean> {
+    const job = await this.queue.claim(this.workerId, this.lockMs);
+    if (!job) return false;
+
+    await this.process(job);
+    return true;
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      while (this.running && this.inFlight.size < this.concurrency) {
+        const job = await this.queue.claim(this.workerId, this.lockMs);
+        if (!job) break;
+
+        const run = this.process(job)
+          .catch((error) =>
+            logger.error(
+              "Job processing failed",
+              { jobId: job.id, error },
+              "JobWorker",
+            ),
+          )
+          .finally(() => {
+            this.inFlight.delete(run);
+          });
+        this.inFlight.add(run);
+      }
+    } catch (error) {
+      logger.error(
+        "Job worker poll failed",
+        { workerId: this.workerId, error },
+        "JobWorker",
+      );
+    }
+
+    if (this.running) {
+      this.pollTimer = setTimeout(() => void this.poll(), this.pollInterval);
+    }
+  }
+
+  private async process(job: AgentJob): Promise<void> {
+    const heartbeat = setInterval(
+      () => {
+        this.queue
+          .heartbeat(job.id, this.workerId, this.lockMs)
+          .catch((error) =>
+            logger.warn(
+              "Job heartbeat failed",
+              { jobId: job.id, error },
+              "JobWorker",
+            ),
+          );
+      },
+      Math.max(this.lockMs / 3, 1000),
+    );
+
+    try {
+      const handler = this.handlers.get(job.agentType) ?? this.defaultHandler;
+      if (!handler) {
+        throw new PermanentJobError(
+          `No job handler registered for agent type: ${job.agentType}`,
+        );
+      }
+
+      const result = await handler(job);
+      await this.queue.complete(job.id, this.workerId, result);
+    } catch (error) {
+      const status = await this.queue.fail(job, this.workerId, error);
+      logger.warn(
+        status === "DEAD" ? "Job dead-lettered" : "Job failed, will retry",
+        {
+          jobId: job.id,
+          agentType: job.agentType,
+          task: job.task,
+          attempt: job.attempts,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "JobWorker",
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
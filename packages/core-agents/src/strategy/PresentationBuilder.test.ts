@@ -0,0 +1,184 @@
+import { describe, it, expect, jest } from "@jest/globals";
+import {
+  OutputFormat,
+  PresentationBuilder,
+  PresentationTheme,
+  type PresentationConfig,
+} from "./PresentationBuilder";
+import type { PresentationFileStore } from "./rendering/presentation-file-store";
+import type { BoardroomReport } from "../agents/boardroom-report-agent";
+
+// Chrome is not available in unit tests
+jest.mock("./rendering/pdf-renderer", () => ({
+  renderPDF: jest.fn(async () => Buffer.from("%PDF-1.4 test")),
+}));
+
+// 2x1 pixel PNG header; only the IHDR size is read
+const png = Buffer.concat([
+  Buffer.from("89504e470d0a1a0a0000000d49484452", "hex"),
+  Buffer.from("0000000200000001", "hex"),
+  Buffer.alloc(16),
+]);
+
+class MemoryFileStore implements PresentationFileStore {
+  files = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.files.set(key, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.files.get(key) ?? null;
+  }
+}
+
+const report = {
+  id: "report_1",
+  title: "Q3 Boardroom Review",
+  subtitle: "Growth & efficiency",
+  reportType: "QBR",
+  theme: "NEON_GLASS",
+  keyTakeaways: ["Revenue grew 18%"],
+  strategicRecommendations: ["Shift budget to search"],
+  nextQuarterGoals: ["Reach 4x ROAS"],
+  overallScore: 82,
+  campaignsCovered: ["camp_1"],
+  agentsCovered: ["ContentAgent"],
+  timeframeCovered: { start: "2024-07-01", end: "2024-09-30" },
+  overallROAS: 3.4,
+  costSavings: 12000,
+  brandHealthScore: 76,
+  slides: [
+    {
+      slideNumber: 1,
+      slideType: "METRIC",
+      title: "Channel Performance",
+      mainContent: {
+        metrics: [
+          { name: "ROAS", value: 3.4, change: 12.5, format: "number" },
+          { name: "CTR", value: 2.1, change: -3, format: "percentage" },
+        ],
+      },
+      keyTakeaway: "Search carries the quarter",
+      sourceMetrics: {},
+      theme: "NEON_GLASS",
+      layout: "standard",
+    },
+  ],
+  forecasts: [],
+  generationTime: 1200,
+  dataPoints: 340,
+  confidenceScore: 0.87,
+  createdAt: "2024-10-01T00:00:00.000Z",
+} as unknown as BoardroomReport;
+
+const config = (overrides: Partial<PresentationConfig> = {}) =>
+  ({
+    theme: PresentationTheme.NEON_GLASS,
+    format: [OutputFormat.HTML, OutputFormat.PDF, OutputFormat.PPTX],
+    includeTableOfContents: true,
+    includeCoverPage: true,
+    includeAppendix: false,
+    pageSize: "16:9",
+    orientation: "landscape",
+    ...overrides,
+  }) as PresentationConfig;
+
+describe("PresentationBuilder", () => {
+  it("should render real PDF and PPTX files and store them", async () => {
+    const store = new MemoryFileStore();
+    const builder = new PresentationBuilder(store);
+
+    const presentation = await builder.buildPresentation(report, config());
+
+    expect(
+      Buffer.from(presentation.formats.pptx!, "base64")
+        .subarray(0, 2)
+        .toString(),
+    ).toBe("PK");
+    expect(
+      Buffer.from(presentation.formats.pdf!, "base64").toString(),
+    ).toContain("%PDF");
+    expect([...store.files.keys()].sort()).toEqual([
+      `default/${presentation.id}.html`,
+      `default/${presentation.id}.pdf`,
+      `default/${presentation.id}.pptx`,
+    ]);
+    expect(presentation.files!.pptx!.contentType).toBe(
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    );
+    expect(presentation.metadata.fileSize).toBe(
+      [...store.files.values()].reduce((sum, file) => sum + file.length, 0),
+    );
+  });
+
+  it("should point download links at the workspace-scoped route", async () => {
+    const builder = new PresentationBuilder(new MemoryFileStore());
+
+    const presentation = await builder.buildPresentation(
+      report,
+      config({ format: [OutputFormat.PDF], workspaceId: "ws-42" }),
+    );
+
+    expect(presentation.workspaceId).toBe("ws-42");
+    expect(presentation.downloadUrls).toEqual({
+      pdf: `/api/presentations/ws-42/${presentation.id}.pdf`,
+    });
+  });
+
+  it("should embed logos only from data: URLs and workspace storage", async () => {
+    const store = new MemoryFileStore();
+    store.files.set("ws-42/logos/brand.png", png);
+    const builder = new PresentationBuilder(store);
+    const logoHTML = async (logoUrl: string) => {
+      const presentation = await builder.buildPresentation(
+        report,
+        config({
+          format: [OutputFormat.HTML],
+          workspaceId: "ws-42",
+          customBranding: {
+            logoUrl,
+            primaryColor: "#112233",
+            secondaryColor: "#445566",
+            fontFamily: "Inter",
+            companyName: "Acme",
+          },
+        }),
+      );
+      return presentation.formats.html!.includes('class="brand-logo"');
+    };
+
+    expect(await logoHTML("logos/brand.png")).toBe(true);
+    expect(
+      await logoHTML(`data:image/png;base64,${png.toString("base64")}`),
+    ).toBe(true);
+    expect(await logoHTML("logos/../../etc/logo.png")).toBe(false);
+    expect(await logoHTML("/srv/app/logo.png")).toBe(false);
+    expect(await logoHTML("http://169.254.169.254/logo.png")).toBe(false);
+  });
+
+  it("should escape report text and drop unsafe branding CSS", async () => {
+    const builder = new PresentationBuilder(new MemoryFileStore());
+    const presentation = await builder.buildPresentation(
+      { ...report, title: '<iframe src="file:///etc/passwd"></iframe>' },
+      config({
+        format: [OutputFormat.HTML],
+        customBranding: {
+          primaryColor: "red;}</style><script>alert(1)</script>",
+          secondaryColor: "#445566",
+          fontFamily: "Inter, sans-serif",
+          companyName: '<img src="http://169.254.169.254/">',
+        },
+      }),
+    );
+    const html = presentation.formats.html!;
+
+    expect(html).not.toContain("<iframe");
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain("<script>alert");
+    expect(html).toContain("&lt;iframe");
+    expect(html).toContain("--secondary-brand-color: #445566;");
+    expect(html).toContain("--brand-font: Inter, sans-serif;");
+    expect(html).not.toContain("--primary-brand-color");
+  });
+});
@@ -3,6 +3,24 @@ import {
   StrategySlide,
 } from "../agents/boardroom-report-agent";
 import { ForecastResult } from "./forecast-insight-engine";
+import { DEFAULT_WORKSPACE_ID } from "@neon/data-model";
+import { renderPDF } from "./rendering/pdf-renderer";
+import {
+  readDeckImage,
+  renderPPTX,
+  type Deck,
+  type DeckImage,
+  type DeckSlide,
+  type DeckTheme,
+} from "./rendering/pptx-renderer";
+import {
+  createPresentationFileStore,
+  presentationFileKey,
+  presentationLogoKey,
+  PRESENTATION_CONTENT_TYPES,
+  type PresentationFileFormat,
+  type PresentationFileStore,
+} from "./rendering/presentation-file-store";
 
 export interface PresentationConfig {
   theme: PresentationTheme;
@@ -13,9 +31,12 @@ export interface PresentationConfig {
   customBranding?: BrandingConfig;
   pageSize: "A4" | "Letter" | "16:9" | "4:3";
   orientation: "portrait" | "landscape";
+  // Workspace the rendered files belong to
+  workspaceId?: string;
 }
 
 export interface BrandingConfig {
+  // A data: URL, or `logos/<file>` in the workspace's presentation storage
   logoUrl?: string;
   primaryColor: string;
   secondaryColor: string;
@@ -27,12 +48,15 @@ export interface BrandingConfig {
 export interface PresentationOutput {
   id: string;
   title: string;
+  workspaceId: string;
   formats: {
     markdown?: string;
     html?: string;
-    pdf?: string; // Base64 encoded for mock
-    pptx?: string; // Base64 encoded for mock
+    pdf?: string; // Base64 encoded
+    pptx?: string; // Base64 encoded
   };
+  // Stored files, served by the authenticated download route
+  files?: Partial<Record<PresentationFileFormat, StoredPresentationFile>>;
   metadata: {
     slideCount: number;
     generationTime: number;
@@ -47,6 +71,12 @@ export interface PresentationOutput {
   };
 }
 
+export interface StoredPresentationFile {
+  key: string;
+  contentType: string;
+  size: number;
+}
+
 export enum PresentationTheme {
   NEON_GLASS = "neon_glass",
   EXECUTIVE_DARK = "executive_dark",
@@ -66,7 +96,9 @@ export class PresentationBuilder {
   private readonly DEFAULT_THEME = PresentationTheme.NEON_GLASS;
   private readonly SLIDE_TRANSITION_DURATION = 300;
 
-  constructor() {}
+  constructor(
+    private fileStore: PresentationFileStore = createPresentationFileStore(),
+  ) {}
 
   async buildPresentation(
     report: BoardroomReport,
@@ -84,6 +116,7 @@ export class PresentationBuilder {
       const presentation: PresentationOutput = {
         id: `pres_${Date.now()}`,
         title: report.title,
+        workspaceId: config.workspaceId ?? DEFAULT_WORKSPACE_ID,
         formats: {},
         metadata: {
           slideCount:
@@ -107,16 +140,30 @@ export class PresentationBuilder {
             break;
           case OutputFormat.HTML:
             presentation.formats.html = await this.generateHTML(report, config);
+            await this.storeFile(
+              presentation,
+              "html",
+              Buffer.from(presentation.formats.html),
+            );
             break;
-          case OutputFormat.PDF:
-            presentation.formats.pdf = await this.generatePDF(report, config);
+          case OutputFormat.PDF: {
+            const pdf = await this.generatePDF(report, config);
+            presentation.formats.pdf = pdf.toString("base64");
+            await this.storeFile(presentation, "pdf", pdf);
             break;
-          case OutputFormat.PPTX:
-            presentation.formats.pptx = await this.generatePPTX(report, config);
+          }
+          case OutputFormat.PPTX: {
+            const pptx = await this.generatePPTX(report, config);
+            presentation.formats.pptx = pptx.toString("base64");
+            await this.storeFile(presentation, "pptx", pptx);
             break;
+          }
         }
       }
 
+      presentation.metadata.fileSize = Object.values(
+        presentation.files ?? {},
+      ).reduce((total, file) => total + file.size, 0);
       presentation.metadata.generationTime = Date.now() - startTime;
       presentation.downloadUrls = this.generateDownloadUrls(presentation);
 
@@ -262,6 +309,8 @@ ${branding?.tagline ? `*${branding.tagline}*` : "*Powered by Advanced AI Marketi
         return this.generateFinancialOverviewContent(content);
       case "METRIC":
         return this.generateMetricContent(content);
+      case "TREND":
+        return this.generateTrendContent(content);
       case "AGENT_HIGHLIGHT":
         return this.generateAgentHighlightContent(content);
       case "FORECAST":
@@ -327,11 +376,82 @@ ${branding?.tagline ? `*${branding.tagline}*` : "*Powered by Advanced AI Marketi
   }
 
   private generateMetricContent(content: any): string {
-    return `## Performance Metrics
+    if (!Array.isArray(content.metrics)) {
+      return `## Performance Metrics
 
 ${JSON.stringify(content, null, 2)}
 
 `;
+    }
+
+    let metricContent = `## Performance Metrics
+
+| Metric | Value | Change |
+|--------|-------|--------|
+`;
+    content.metrics.forEach((metric: any) => {
+      metricContent += `| ${metric.label} | ${this.formatMetricValue(metric)} | ${this.formatChange(metric)} |\n`;
+    });
+    metricContent += "\n";
+
+    if (content.highlights?.length) {
+      content.highlights.forEach((highlight: string) => {
+        metricContent += `- ${highlight}\n`;
+      });
+      metricContent += "\n";
+    }
+
+    return metricContent;
+  }
+
+  private generateTrendContent(content: any): string {
+    let trendContent = "";
+
+    if (content.primaryTrend) {
+      const trend = content.primaryTrend;
+      trendContent += `## ${trend.name}
+
+- **Direction:** ${trend.direction} (${trend.strength})
+- **Change:** ${trend.magnitude >= 0 ? "+" : ""}${trend.magnitude.toFixed(1)}%
+- **Confidence:** ${(trend.confidence * 100).toFixed(0)}%
+
+`;
+    }
+
+    if (content.insights?.length) {
+      trendContent += `## Insights
+
+`;
+      content.insights.forEach((insight: any) => {
+        trendContent += `- ${insight.description}\n`;
+      });
+      trendContent += "\n";
+    }
+
+    if (content.predictions) {
+      const prediction = content.predictions;
+      trendContent += `**Outlook (${prediction.timeHorizon}):** ${prediction.projectedDirection}, ${prediction.projectedMagnitude.toFixed(1)}% at ${(prediction.confidence * 100).toFixed(0)}% confidence
+
+`;
+    }
+
+    return trendContent;
+  }
+
+  private formatMetricValue(metric: any): string {
+    const value =
+      typeof metric.value === "number"
+        ? metric.value.toLocaleString("en-US")
+        : String(metric.value);
+    const prefix = metric.format === "currency" && !metric.unit ? "$" : "";
+    const unit = metric.unit ?? (metric.format === "percentage" ? "%" : "");
+    return `${prefix}${value}${unit}`;
+  }
+
+  private formatChange(metric: any): string {
+    if (metric.changeLabel) return metric.changeLabel;
+    if (typeof metric.change !== "number") return "-";
+    return `${metric.change >= 0 ? "+" : ""}${metric.change.toFixed(1)}%`;
   }
 
   private generateAgentHighlightContent(content: any): string {
@@ -475,6 +595,10 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
   ): Promise<string> {
     const markdown = await this.generateMarkdown(report, config);
     const themeCSS = this.getThemeCSS(config.theme, config.customBranding);
+    const logo = await this.generateLogoHTML(
+      config.workspaceId ?? DEFAULT_WORKSPACE_ID,
+      config.customBranding,
+    );
 
     // Convert markdown to HTML (simplified - in real implementation would use marked.js or similar)
     let html = this.markdownToHTML(markdown);
@@ -485,7 +609,7 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${report.title}</title>
+    <title>${escapeHTML(report.title)}</title>
     <style>
         ${themeCSS}
         
@@ -573,13 +697,22 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
             border-radius: 0 8px 8px 0;
         }
         
+        /* Fixed so printed pages repeat it */
+        .brand-logo {
+            position: fixed;
+            top: 24px;
+            right: 32px;
+            max-height: 48px;
+            max-width: 160px;
+        }
+        
         @media print {
             .slide { page-break-after: always; }
         }
     </style>
-    <script src="https://cdn.jsdelivr.net/npm/chart.js"></script>
 </head>
 <body>
+    ${logo}
     ${html}
     
     <script>
@@ -595,6 +728,18 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
     return html;
   }
 
+  private async generateLogoHTML(
+    workspaceId: string,
+    branding?: BrandingConfig,
+  ): Promise<string> {
+    // Always inlined, so the page never loads anything itself
+    const image = await this.loadLogo(workspaceId, branding?.logoUrl);
+    if (!image || !branding) return "";
+
+    const src = `data:image/${image.format};base64,${image.data.toString("base64")}`;
+    return `<img class="brand-logo" src="${escapeHTML(src)}" alt="${escapeHTML(branding.companyName)}">`;
+  }
+
   private getThemeCSS(
     theme: PresentationTheme,
     branding?: BrandingConfig,
@@ -682,18 +827,22 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
 
     let themeCSS = themes[theme] || themes[PresentationTheme.NEON_GLASS];
 
-    // Apply custom branding if provided
+    // Apply custom branding if provided; values that are not a plain
+    // colour or font list are left out rather than written into the CSS
     if (branding) {
+      const primary = cssColor(branding.primaryColor);
+      const secondary = cssColor(branding.secondaryColor);
+      const font = cssFontFamily(branding.fontFamily);
       themeCSS += `
         :root {
-          --primary-brand-color: ${branding.primaryColor};
-          --secondary-brand-color: ${branding.secondaryColor};
-          --brand-font: ${branding.fontFamily};
+          ${primary ? `--primary-brand-color: ${primary};` : ""}
+          ${secondary ? `--secondary-brand-color: ${secondary};` : ""}
+          ${font ? `--brand-font: ${font};` : ""}
         }
         
-        body { font-family: var(--brand-font), var(--text-color); }
-        .slide h1 { color: var(--primary-brand-color); }
-        .accent { color: var(--secondary-brand-color); }
+        ${font ? "body { font-family: var(--brand-font), var(--text-color); }" : ""}
+        ${primary ? ".slide h1 { color: var(--primary-brand-color); }" : ""}
+        ${secondary ? ".accent { color: var(--secondary-brand-color); }" : ""}
       `;
     }
 
@@ -704,7 +853,9 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
     // Simplified markdown to HTML conversion
     // In production, would use a proper markdown parser like marked.js
 
-    let html = markdown
+    // Report text comes from campaign data and the caller, so it is
+    // escaped before any markup is added
+    let html = escapeHTML(markdown)
       // Headers
       .replace(/^### (.*$)/gim, "<h3>$1</h3>")
       .replace(/^## (.*$)/gim, "<h2>$1</h2>")
@@ -719,7 +870,7 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
       .replace(/^\d+\. (.*$)/gim, "<li>$1</li>")
 
       // Blockquotes
-      .replace(/^> (.*$)/gim, "<blockquote>$1</blockquote>")
+      .replace(/^&gt; (.*$)/gim, "<blockquote>$1</blockquote>")
 
       // Line breaks
       .replace(/\n\n/g, '</div><div class="slide">')
@@ -739,56 +890,320 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
   private async generatePDF(
     report: BoardroomReport,
     config: PresentationConfig,
-  ): Promise<string> {
-    // Mock PDF generation - in production would use puppeteer or similar
-    const pdfContent = {
-      title: report.title,
-      pages: report.slides.length + 2, // +2 for cover and TOC
-      format: config.pageSize,
+  ): Promise<Buffer> {
+    const html = await this.generateHTML(report, config);
+    return renderPDF(html, {
+      pageSize: config.pageSize,
       orientation: config.orientation,
-      theme: config.theme,
-      generatedAt: new Date().toISOString(),
-    };
-
-    // Return base64 encoded mock PDF
-    return Buffer.from(JSON.stringify(pdfContent)).toString("base64");
+    });
   }
 
   private async generatePPTX(
     report: BoardroomReport,
     config: PresentationConfig,
-  ): Promise<string> {
-    // Mock PPTX generation - in production would use officegen or similar
-    const pptxContent = {
+  ): Promise<Buffer> {
+    return renderPPTX(await this.buildDeck(report, config));
+  }
+
+  private async buildDeck(
+    report: BoardroomReport,
+    config: PresentationConfig,
+  ): Promise<Deck> {
+    const branding = config.customBranding;
+    const author = branding?.companyName || "NeonHub AI Marketing Intelligence";
+    const slides: DeckSlide[] = [];
+
+    if (config.includeCoverPage) {
+      slides.push({
+        layout: "cover",
+        title: report.title,
+        ...(report.subtitle && { subtitle: report.subtitle }),
+        body: [
+          `Presented by: ${author}`,
+          `Report Period: ${report.timeframeCovered.start} - ${report.timeframeCovered.end}`,
+          `Overall Score: ${report.overallScore}/100`,
+          branding?.tagline || "Powered by Advanced AI Marketing Intelligence",
+        ].map((text) => ({ text, style: "plain" as const })),
+      });
+    }
+
+    if (config.includeTableOfContents) {
+      slides.push({
+        title: "Table of Contents",
+        body: report.slides.map((slide, index) => ({
+          text: `${index + 1}. ${slide.title}`,
+          style: "plain" as const,
+        })),
+      });
+    }
+
+    for (const slide of report.slides) {
+      slides.push(this.toDeckSlide(slide));
+    }
+
+    if (config.includeAppendix) {
+      slides.push({
+        title: "Appendix",
+        ...this.markdownToDeckContent(this.generateMarkdownAppendix(report)),
+      });
+    }
+
+    const logo = await this.loadLogo(
+      config.workspaceId ?? DEFAULT_WORKSPACE_ID,
+      branding?.logoUrl,
+    );
+    return {
       title: report.title,
-      slides: report.slides.map((slide) => ({
-        title: slide.title,
-        type: slide.slideType,
-        content: slide.mainContent,
-      })),
-      theme: config.theme,
-      generatedAt: new Date().toISOString(),
+      author,
+      ...this.getSlideSize(config),
+      theme: this.getThemePalette(config.theme, branding),
+      ...(logo && { logo }),
+      slides,
     };
+  }
+
+  // Metric template slides become cards; everything else follows the
+  // markdown the HTML deck is built from
+  private toDeckSlide(slide: StrategySlide): DeckSlide {
+    const content = this.markdownToDeckContent(
+      this.generateSlideContent(slide),
+    );
+    const metrics = Array.isArray(slide.mainContent?.metrics)
+      ? slide.mainContent.metrics.map((metric: any) => ({
+          label: String(metric.label),
+          value: this.formatMetricValue(metric),
+          ...(typeof metric.change === "number" && { change: metric.change }),
+          ...(metric.status && { status: metric.status }),
+        }))
+      : undefined;
+
+    const body = content.body;
+    if (slide.businessContext) {
+      body.push({ text: `Business Context: ${slide.businessContext}` });
+    }
+    if (slide.recommendation) {
+      body.push({ text: `Recommendation: ${slide.recommendation}` });
+    }
+
+    return {
+      title: slide.title,
+      ...(slide.subtitle && { subtitle: slide.subtitle }),
+      body,
+      ...(metrics ? { metrics } : content.table && { table: content.table }),
+      ...(slide.keyTakeaway && {
+        callout: `Key Takeaway: ${slide.keyTakeaway}`,
+      }),
+    };
+  }
+
+  // The first markdown table becomes a table; later ones become lines
+  private markdownToDeckContent(
+    markdown: string,
+  ): Pick<DeckSlide, "body" | "table"> {
+    const body: DeckSlide["body"] = [];
+    let table: DeckSlide["table"];
+    let tableOpen = false;
+    let inFence = false;
+
+    for (const raw of markdown.split("\n")) {
+      const line = raw.trim();
+      if (line.startsWith("```")) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence || !line || line === "---" || line.startsWith("# ")) {
+        tableOpen = false;
+        continue;
+      }
+
+      if (line.startsWith("|")) {
+        const cells = line
+          .replace(/^\||\|$/g, "")
+          .split("|")
+          .map((cell) => this.plainText(cell));
+        if (cells.every((cell) => /^-*$/.test(cell))) continue;
+
+        if (!table) {
+          table = { header: cells, rows: [] };
+          tableOpen = true;
+        } else if (tableOpen) {
+          table.rows.push(cells);
+        } else {
+          body.push({ text: cells.join(" · ") });
+        }
+        continue;
+      }
+
+      tableOpen = false;
+      if (line.startsWith("#")) {
+        body.push({
+          text: this.plainText(line.replace(/^#+\s*/, "")),
+          style: "heading",
+        });
+      } else {
+        body.push({
+          text: this.plainText(line.replace(/^([-*]|\d+\.|>)\s+/, "")),
+        });
+      }
+    }
+
+    return { body, ...(table && { table }) };
+  }
+
+  private plainText(markdown: string): string {
+    return markdown
+      .replace(/\{#[^}]*\}/g, "")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\*+/g, "")
+      .trim();
+  }
 
-    // Return base64 encoded mock PPTX
-    return Buffer.from(JSON.stringify(pptxContent)).toString("base64");
+  // Slide size in EMU
+  private getSlideSize(config: PresentationConfig): {
+    width: number;
+    height: number;
+  } {
+    const sizes = {
+      "16:9": [12192000, 6858000],
+      "4:3": [9144000, 6858000],
+      A4: [10692000, 7560000],
+      Letter: [10058400, 7772400],
+    } as const;
+    const [long, short] = sizes[config.pageSize];
+    return config.orientation === "portrait"
+      ? { width: short, height: long }
+      : { width: long, height: short };
   }
 
-  private generateDownloadUrls(presentation: PresentationOutput): any {
-    // Mock download URLs - in production would be actual file URLs
-    const baseUrl = "https://api.neonhub.ai/downloads";
-    const urls: any = {};
+  // Solid colours matching getThemeCSS, for formats without CSS
+  private getThemePalette(
+    theme: PresentationTheme,
+    branding?: BrandingConfig,
+  ): DeckTheme {
+    const palettes: Partial<Record<PresentationTheme, DeckTheme>> = {
+      [PresentationTheme.NEON_GLASS]: {
+        background: "0F1419",
+        surface: "1B2025",
+        text: "FFFFFF",
+        accent: "00FF88",
+        secondary: "6366F1",
+        muted: "9FA1A3",
+        fontFamily: "Inter",
+      },
+      [PresentationTheme.EXECUTIVE_DARK]: {
+        background: "1A1A2E",
+        surface: "16213E",
+        text: "FFFFFF",
+        accent: "6366F1",
+        secondary: "8B5CF6",
+        muted: "A0AEC0",
+        fontFamily: "Georgia",
+      },
+      [PresentationTheme.CMO_LITE]: {
+        background: "FFFFFF",
+        surface: "F8FAFC",
+        text: "1A202C",
+        accent: "6366F1",
+        secondary: "8B5CF6",
+        muted: "718096",
+        fontFamily: "Inter",
+      },
+    };
+    const palette = {
+      ...(palettes[theme] ?? palettes[PresentationTheme.NEON_GLASS]!),
+    };
 
-    if (presentation.formats.pdf) {
-      urls.pdf = `${baseUrl}/pdf/${presentation.id}.pdf`;
+    if (branding) {
+      const isHex = (color: string) =>
+        /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color);
+      if (isHex(branding.primaryColor)) palette.accent = branding.primaryColor;
+      if (isHex(branding.secondaryColor)) {
+        palette.secondary = branding.secondaryColor;
+      }
+      if (branding.fontFamily) palette.fontFamily = branding.fontFamily;
     }
 
-    if (presentation.formats.pptx) {
-      urls.pptx = `${baseUrl}/pptx/${presentation.id}.pptx`;
+    return palette;
+  }
+
+  // Logos come from the caller, so only inline data: URLs and logos in the
+  // workspace's own storage are read; no path or host is ever fetched
+  private async loadLogo(
+    workspaceId: string,
+    logoUrl?: string,
+  ): Promise<DeckImage | undefined> {
+    if (!logoUrl) return undefined;
+
+    try {
+      let data: Buffer | null;
+      if (logoUrl.startsWith("data:")) {
+        data = Buffer.from(logoUrl.slice(logoUrl.indexOf(",") + 1), "base64");
+      } else {
+        const key = presentationLogoKey(workspaceId, logoUrl);
+        if (!key) {
+          console.warn(
+            "[PresentationBuilder] Logo must be a data: URL or logos/<file>, skipping:",
+            logoUrl,
+          );
+          return undefined;
+        }
+        data = await this.fileStore.get(key);
+        if (!data) {
+          console.warn("[PresentationBuilder] Logo not found, skipping:", key);
+          return undefined;
+        }
+      }
+
+      const image = readDeckImage(data);
+      if (!image) {
+        console.warn(
+          "[PresentationBuilder] Logo is not a PNG or JPEG, skipping:",
+          logoUrl,
+        );
+      }
+      return image ?? undefined;
+    } catch (error) {
+      console.warn(
+        "[PresentationBuilder] Could not load logo:",
+        logoUrl,
+        error,
+      );
+      return undefined;
     }
+  }
 
-    if (presentation.formats.html) {
-      urls.html = `${baseUrl}/html/${presentation.id}.html`;
+  private async storeFile(
+    presentation: PresentationOutput,
+    format: PresentationFileFormat,
+    data: Buffer,
+  ): Promise<void> {
+    const key = presentationFileKey(
+      presentation.workspaceId,
+      presentation.id,
+      format,
+    );
+    const contentType = PRESENTATION_CONTENT_TYPES[format];
+    await this.fileStore.put(key, data, contentType);
+
+    presentation.files = {
+      ...presentation.files,
+      [format]: { key, contentType, size: data.length },
+    };
+  }
+
+  // Files are served by the API's authenticated download route
+  private generateDownloadUrls(
+    presentation: PresentationOutput,
+  ): NonNullable<PresentationOutput["downloadUrls"]> {
+    const baseUrl =
+      process.env.PRESENTATION_DOWNLOAD_BASE_URL || "/api/presentations";
+    const urls: NonNullable<PresentationOutput["downloadUrls"]> = {};
+
+    for (const format of Object.keys(
+      presentation.files ?? {},
+    ) as PresentationFileFormat[]) {
+      urls[format] =
+        `${baseUrl}/${presentation.workspaceId}/${presentation.id}.${format}`;
     }
 
     return urls;
@@ -831,4 +1246,25 @@ This report was generated using NeonHub's AI-powered analytics engine, incorpora
   }
 }
 
+// Hex colours only
+function cssColor(value: string): string | undefined {
+  const color = value.trim();
+  return /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? color : undefined;
+}
+
+// Comma-separated family names, optionally quoted
+function cssFontFamily(value: string): string | undefined {
+  const family = value.trim();
+  return family && /^[\w\s,'"-]+$/.test(family) ? family : undefined;
+}
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
 export default PresentationBuilder;
@@ -0,0 +1,211 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  adjustPValues,
+  compareVariants,
+  normalQuantile,
+  type ComparisonOptions,
+  type MetricSample,
+} from "./ab-test-statistics";
+
+const options = (overrides: Partial<ComparisonOptions> = {}) => ({
+  mode: "fixed_horizon" as const,
+  confidenceLevel: 0.95,
+  correction: "holm" as const,
+  minDetectableEffect: 0.1,
+  expectedLossThreshold: 0.01,
+  ...overrides,
+});
+
+const rate = (successes: number, trials: number): MetricSample => ({
+  kind: "proportion",
+  trials,
+  successes,
+});
+
+// Deterministic uniform generator for the simulations
+const lcg = (seed: number) => () => {
+  seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+describe("ab-test-statistics", () => {
+  it("should invert the normal CDF", () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+  });
+
+  it("should apply Holm and Bonferroni corrections", () => {
+    expect(adjustPValues([0.01, 0.04, 0.03], "holm")).toEqual([
+      expect.closeTo(0.03, 10),
+      expect.closeTo(0.06, 10),
+      expect.closeTo(0.06, 10),
+    ]);
+    expect(adjustPValues([0.01, 0.04, 0.03], "bonferroni")).toEqual([
+      expect.closeTo(0.03, 10),
+      expect.closeTo(0.12, 10),
+      expect.closeTo(0.09, 10),
+    ]);
+  });
+
+  describe("fixed horizon", () => {
+    it("should run a two-proportion z-test", () => {
+      const [comparison] = compareVariants(
+        rate(100, 1000),
+        [{ variantId: "b", sample: rate(130, 1000) }],
+        options(),
+      );
+
+      expect(comparison!.pValue).toBeCloseTo(0.0355, 3);
+      expect(comparison!.relativeLift).toBeCloseTo(30);
+      expect(comparison!.isSignificant).toBe(true);
+    });
+
+    it("should compare every treatment and correct for multiple tests", () => {
+      const comparisons = compareVariants(
+        rate(100, 1000),
+        [
+          { variantId: "b", sample: rate(102, 1000) },
+          { variantId: "c", sample: rate(128, 1000) },
+          { variantId: "d", sample: rate(170, 1000) },
+        ],
+        options(),
+      );
+
+      expect(comparisons.map((c) => c.variantId)).toEqual(["b", "c", "d"]);
+      // c alone would pass at 0.05 but not after Holm correction
+      expect(comparisons[1]!.pValue).toBeLessThan(0.05);
+      expect(comparisons[1]!.isSignificant).toBe(false);
+      expect(comparisons[2]!.isSignificant).toBe(true);
+    });
+
+    it("should test continuous metrics such as revenue per visitor", () => {
+      const revenue = (n: number, mean: number, sd: number): MetricSample => ({
+        kind: "continuous",
+        n,
+        sum: n * mean,
+        sumOfSquares: (n - 1) * sd * sd + n * mean * mean,
+      });
+
+      const [comparison] = compareVariants(
+        revenue(2000, 1.5, 6),
+        [{ variantId: "b", sample: revenue(2000, 2.1, 6) }],
+        options(),
+      );
+
+      // z = 0.6 / sqrt(36/2000 * 2) = 3.16
+      expect(comparison!.pValue).toBeCloseTo(0.0016, 3);
+      expect(comparison!.confidenceInterval[0]).toBeGreaterThan(0);
+    });
+  });
+
+  describe("sequential", () => {
+    // Identical arms checked after every batch: any "significant" result
+    // is a false positive
+    const falsePositiveRate = (mode: "fixed_horizon" | "sequential") => {
+      const random = lcg(42);
+      let falsePositives = 0;
+
+      for (let run = 0; run < 200; run++) {
+        const control = { trials: 0, successes: 0 };
+        const treatment = { trials: 0, successes: 0 };
+        let previousPValues: Record<string, number> | undefined;
+
+        for (let peek = 0; peek < 40; peek++) {
+          for (let i = 0; i < 50; i++) {
+            control.trials++;
+            treatment.trials++;
+            if (random() < 0.1) control.successes++;
+            if (random() < 0.1) treatment.successes++;
+          }
+
+          const [comparison] = compareVariants(
+            rate(control.successes, control.trials),
+            [
+              {
+                variantId: "b",
+                sample: rate(treatment.successes, treatment.trials),
+              },
+            ],
+            options({ mode, ...(previousPValues && { previousPValues }) }),
+          );
+          previousPValues = { b: comparison!.pValue };
+
+          if (comparison!.isSignificant) {
+            falsePositives++;
+            break;
+          }
+        }
+      }
+      return falsePositives / 200;
+    };
+
+    it("should keep the false-positive rate under continuous monitoring", () => {
+      expect(falsePositiveRate("fixed_horizon")).toBeGreaterThan(0.1);
+      expect(falsePositiveRate("sequential")).toBeLessThanOrEqual(0.05);
+    });
+
+    it("should detect a real effect and never raise its p-value", () => {
+      const first = compareVariants(
+        rate(300, 3000),
+        [{ variantId: "b", sample: rate(450, 3000) }],
+        options({ mode: "sequential" }),
+      )[0]!;
+      expect(first.isSignificant).toBe(true);
+
+      const later = compareVariants(
+        rate(600, 6000),
+        [{ variantId: "b", sample: rate(610, 6000) }],
+        options({ mode: "sequential", previousPValues: { b: first.pValue } }),
+      )[0]!;
+      expect(later.pValue).toBe(first.pValue);
+      expect(later.confidenceInterval[0]).toBeLessThan(later.difference);
+    });
+  });
+
+  describe("bayesian", () => {
+    it("should report probability to beat control and expected loss", () => {
+      const [clear, tied] = compareVariants(
+        rate(100, 1000),
+        [
+          { variantId: "b", sample: rate(150, 1000) },
+          { variantId: "c", sample: rate(100, 1000) },
+        ],
+        options({ mode: "bayesian" }),
+      );
+
+      expect(clear!.probabilityToBeatControl).toBeGreaterThan(0.99);
+      expect(clear!.expectedLoss).toBeLessThan(0.001);
+      expect(clear!.isSignificant).toBe(true);
+
+      expect(tied!.probabilityToBeatControl).toBeCloseTo(0.5, 1);
+      expect(tied!.isSignificant).toBe(false);
+    });
+
+    it("should be reproducible for the same data", () => {
+      const run = () =>
+        compareVariants(
+          rate(40, 400),
+          [{ variantId: "b", sample: rate(52, 400) }],
+          options({ mode: "bayesian" }),
+        )[0]!.probabilityToBeatControl;
+
+      expect(run()).toBe(run());
+    });
+
+    it("should use normal posteriors for continuous metrics", () => {
+      const [comparison] = compareVariants(
+        { kind: "continuous", n: 100, sum: 100, sumOfSquares: 200 },
+        [
+          {
+            variantId: "b",
+            sample: { kind: "continuous", n: 100, sum: 100, sumOfSquares: 200 },
+          },
+        ],
+        options({ mode: "bayesian" }),
+      );
+
+      expect(comparison!.probabilityToBeatControl).toBeCloseTo(0.5);
+      expect(comparison!.expectedLoss).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,459 @@
+/**
+ * Statistics behind ABTestingManager. Every treatment is compared with the
+ * control (the first variant) in one of three modes:
+ *
+ * - `fixed_horizon`: z-tests read once the planned sample size is reached,
+ *   with Holm or Bonferroni correction across treatments
+ * - `sequential`: mixture SPRT with always-valid p-values and confidence
+ *   sequences, so results can be checked after every update
+ * - `bayesian`: probability to beat control and expected loss
+ *
+ * Samples are either proportions (conversions out of trials) or
+ * continuous values such as revenue per visitor.
+ */
+
+export type AnalysisMode = "fixed_horizon" | "sequential" | "bayesian";
+export type MultipleComparisonCorrection = "holm" | "bonferroni" | "none";
+
+export type MetricSample =
+  | { kind: "proportion"; trials: number; successes: number }
+  | { kind: "continuous"; n: number; sum: number; sumOfSquares: number };
+
+export interface ComparisonOptions {
+  mode: AnalysisMode;
+  confidenceLevel: number;
+  correction: MultipleComparisonCorrection;
+  // Relative effect the sequential mixture is tuned to detect
+  minDetectableEffect: number;
+  // Bayesian winners need an expected loss below this share of control
+  expectedLossThreshold: number;
+  // Always-valid p-values from the previous check, by variant id
+  previousPValues?: Record<string, number>;
+  // Monte Carlo draws for proportion posteriors
+  posteriorSamples?: number;
+}
+
+export interface VariantComparison {
+  variantId: string;
+  controlMean: number;
+  treatmentMean: number;
+  difference: number;
+  relativeLift: number; // Percentage
+  pValue: number;
+  // p-value after multiple-comparison correction
+  adjustedPValue: number;
+  confidenceInterval: [number, number];
+  isSignificant: boolean;
+  probabilityToBeatControl?: number;
+  // Expected shortfall versus control when shipping this variant
+  expectedLoss?: number;
+}
+
+export const DEFAULT_POSTERIOR_SAMPLES = 20000;
+
+interface Moments {
+  n: number;
+  mean: number;
+  // Variance of a single observation
+  variance: number;
+}
+
+export function sampleMoments(sample: MetricSample): Moments {
+  if (sample.kind === "proportion") {
+    const mean = sample.trials > 0 ? sample.successes / sample.trials : 0;
+    return { n: sample.trials, mean, variance: mean * (1 - mean) };
+  }
+
+  const mean = sample.n > 0 ? sample.sum / sample.n : 0;
+  const variance =
+    sample.n > 1
+      ? Math.max(
+          0,
+          (sample.sumOfSquares - sample.n * mean * mean) / (sample.n - 1),
+        )
+      : 0;
+  return { n: sample.n, mean, variance };
+}
+
+/**
+ * Compare every treatment with the control sample
+ */
+export function compareVariants(
+  control: MetricSample,
+  treatments: Array<{ variantId: string; sample: MetricSample }>,
+  options: ComparisonOptions,
+): VariantComparison[] {
+  const alpha = 1 - options.confidenceLevel;
+  const c = sampleMoments(control);
+
+  const describe = (variantId: string, t: Moments) => ({
+    variantId,
+    controlMean: c.mean,
+    treatmentMean: t.mean,
+    difference: t.mean - c.mean,
+    relativeLift: c.mean !== 0 ? ((t.mean - c.mean) / c.mean) * 100 : 0,
+  });
+
+  if (options.mode === "bayesian") {
+    const maxLoss = options.expectedLossThreshold * Math.abs(c.mean);
+    return treatments.map(({ variantId, sample }) => {
+      const t = sampleMoments(sample);
+      const posterior = bayesianComparison(control, sample, c, t, options);
+      return {
+        ...describe(variantId, t),
+        ...posterior,
+        pValue: 1 - posterior.probabilityToBeatControl,
+        adjustedPValue: 1 - posterior.probabilityToBeatControl,
+        isSignificant:
+          posterior.probabilityToBeatControl >= options.confidenceLevel &&
+          posterior.expectedLoss <= maxLoss,
+      };
+    });
+  }
+
+  const tested = treatments.map(({ variantId, sample }) => {
+    const t = sampleMoments(sample);
+    const test =
+      options.mode === "sequential"
+        ? sequentialTest(c, t, alpha, options)
+        : fixedHorizonTest(control, sample, c, t, alpha);
+    // Always-valid p-values are the running minimum across checks
+    const previous = options.previousPValues?.[variantId];
+    const pValue =
+      options.mode === "sequential" && previous !== undefined
+        ? Math.min(previous, test.pValue)
+        : test.pValue;
+
+    return { ...describe(variantId, t), ...test, pValue };
+  });
+
+  const adjusted = adjustPValues(
+    tested.map((comparison) => comparison.pValue),
+    options.correction,
+  );
+  return tested.map((comparison, i) => ({
+    ...comparison,
+    adjustedPValue: adjusted[i]!,
+    isSignificant: adjusted[i]! < alpha,
+  }));
+}
+
+function fixedHorizonTest(
+  control: MetricSample,
+  treatment: MetricSample,
+  c: Moments,
+  t: Moments,
+  alpha: number,
+): { pValue: number; confidenceInterval: [number, number] } {
+  if (c.n === 0 || t.n === 0) {
+    return { pValue: 1, confidenceInterval: [0, 0] };
+  }
+
+  const difference = t.mean - c.mean;
+  const unpooledSE = Math.sqrt(c.variance / c.n + t.variance / t.n);
+
+  // Proportions are tested against the pooled rate under the null
+  let testSE = unpooledSE;
+  if (control.kind === "proportion" && treatment.kind === "proportion") {
+    const pooled =
+      (control.successes + treatment.successes) /
+      (control.trials + treatment.trials);
+    testSE = Math.sqrt(pooled * (1 - pooled) * (1 / c.n + 1 / t.n));
+  }
+
+  const pValue =
+    testSE > 0 ? 2 * (1 - normalCDF(Math.abs(difference) / testSE)) : 1;
+  const margin = normalQuantile(1 - alpha / 2) * unpooledSE;
+
+  return {
+    pValue,
+    confidenceInterval: [difference - margin, difference + margin],
+  };
+}
+
+/**
+ * Mixture sequential probability ratio test with a normal mixing
+ * distribution (Johari et al., "Always Valid Inference"). The p-value is
+ * 1 / likelihood ratio and only ever decreases across checks, so the
+ * false-positive rate holds however often results are read.
+ */
+function sequentialTest(
+  c: Moments,
+  t: Moments,
+  alpha: number,
+  options: ComparisonOptions,
+): { pValue: number; confidenceInterval: [number, number] } {
+  if (c.n === 0 || t.n === 0) {
+    return { pValue: 1, confidenceInterval: [0, 0] };
+  }
+
+  const difference = t.mean - c.mean;
+  const variance = c.variance / c.n + t.variance / t.n;
+  if (variance <= 0) {
+    return { pValue: 1, confidenceInterval: [difference, difference] };
+  }
+
+  const expectedEffect = options.minDetectableEffect * Math.abs(c.mean);
+  const tau2 = expectedEffect > 0 ? expectedEffect * expectedEffect : variance;
+
+  const logLikelihoodRatio =
+    0.5 * Math.log(variance / (variance + tau2)) +
+    (difference * difference * tau2) / (2 * variance * (variance + tau2));
+  const pValue = Math.min(1, Math.exp(-logLikelihoodRatio));
+
+  const margin = Math.sqrt(
+    ((variance * (variance + tau2)) / tau2) *
+      (2 * Math.log(1 / alpha) + Math.log((variance + tau2) / variance)),
+  );
+
+  return {
+    pValue,
+    confidenceInterval: [difference - margin, difference + margin],
+  };
+}
+
+function bayesianComparison(
+  control: MetricSample,
+  treatment: MetricSample,
+  c: Moments,
+  t: Moments,
+  options: ComparisonOptions,
+): {
+  probabilityToBeatControl: number;
+  expectedLoss: number;
+  confidenceInterval: [number, number];
+} {
+  const alpha = 1 - options.confidenceLevel;
+
+  if (control.kind === "proportion" && treatment.kind === "proportion") {
+    // Beta(1, 1) priors; the difference of two Betas has no closed form
+    const draws = options.posteriorSamples ?? DEFAULT_POSTERIOR_SAMPLES;
+    const random = seededRandom(
+      control.trials * 31 + control.successes * 17 + treatment.trials,
+    );
+    const differences = new Array<number>(draws);
+    let wins = 0;
+    let loss = 0;
+
+    for (let i = 0; i < draws; i++) {
+      const pc = sampleBeta(
+        1 + control.successes,
+        1 + control.trials - control.successes,
+        random,
+      );
+      const pt = sampleBeta(
+        1 + treatment.successes,
+        1 + treatment.trials - treatment.successes,
+        random,
+      );
+      differences[i] = pt - pc;
+      if (pt > pc) wins++;
+      loss += Math.max(pc - pt, 0);
+    }
+
+    differences.sort((a, b) => a - b);
+    return {
+      probabilityToBeatControl: wins / draws,
+      expectedLoss: loss / draws,
+      confidenceInterval: [
+        differences[Math.floor((alpha / 2) * (draws - 1))]!,
+        differences[Math.ceil((1 - alpha / 2) * (draws - 1))]!,
+      ],
+    };
+  }
+
+  // Flat priors give normal posteriors for the means
+  if (c.n === 0 || t.n === 0) {
+    return {
+      probabilityToBeatControl: 0.5,
+      expectedLoss: Infinity,
+      confidenceInterval: [0, 0],
+    };
+  }
+
+  const difference = t.mean - c.mean;
+  const sd = Math.sqrt(c.variance / c.n + t.variance / t.n);
+  if (sd === 0) {
+    return {
+      probabilityToBeatControl: difference > 0 ? 1 : difference < 0 ? 0 : 0.5,
+      expectedLoss: Math.max(-difference, 0),
+      confidenceInterval: [difference, difference],
+    };
+  }
+
+  const z = difference / sd;
+  const margin = normalQuantile(1 - alpha / 2) * sd;
+  return {
+    probabilityToBeatControl: normalCDF(z),
+    // E[max(control - treatment, 0)] for a normal difference
+    expectedLoss: sd * normalPDF(z) - difference * normalCDF(-z),
+    confidenceInterval: [difference - margin, difference + margin],
+  };
+}
+
+/**
+ * Holm step-down or Bonferroni adjustment; adjusted values are comparable
+ * with the unadjusted alpha
+ */
+export function adjustPValues(
+  pValues: number[],
+  correction: MultipleComparisonCorrection,
+): number[] {
+  const m = pValues.length;
+  if (correction === "none" || m <= 1) return [...pValues];
+  if (correction === "bonferroni") {
+    return pValues.map((p) => Math.min(1, p * m));
+  }
+
+  const order = pValues
+    .map((p, index) => ({ p, index }))
+    .sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  let running = 0;
+  order.forEach(({ p, index }, rank) => {
+    running = Math.max(running, Math.min(1, p * (m - rank)));
+    adjusted[index] = running;
+  });
+  return adjusted;
+}
+
+export function normalPDF(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+export function normalCDF(x: number): number {
+  return 0.5 * (1 + erf(x / Math.SQRT2));
+}
+
+function erf(x: number): number {
+  // Abramowitz and Stegun 7.1.26
+  const a1 = 0.254829592;
+  const a2 = -0.284496736;
+  const a3 = 1.421413741;
+  const a4 = -1.453152027;
+  const a5 = 1.061405429;
+  const p = 0.3275911;
+
+  const sign = x < 0 ? -1 : 1;
+  x = Math.abs(x);
+
+  const t = 1.0 / (1.0 + p * x);
+  const y =
+    1.0 - ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
+
+  return sign * y;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [
+    -3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+    1.38357751867269e2, -3.066479806614716e1, 2.506628277459239,
+  ];
+  const b = [
+    -5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+    6.680131188771972e1, -1.328068155288572e1,
+  ];
+  const c = [
+    -7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+    -2.549732539343734, 4.374664141464968, 2.938163982698783,
+  ];
+  const d = [
+    7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+    3.754408661907416,
+  ];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q +
+        c[5]!) /
+      ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1)
+    );
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r +
+      a[5]!) *
+      q) /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1)
+  );
+}
+
+/**
+ * One draw from the posterior of a sample's mean: Beta(1, 1) prior for
+ * proportions, flat prior for continuous values
+ */
+export function samplePosteriorMean(
+  sample: MetricSample,
+  random: () => number,
+): number {
+  if (sample.kind === "proportion") {
+    return sampleBeta(
+      1 + sample.successes,
+      1 + sample.trials - sample.successes,
+      random,
+    );
+  }
+
+  const { n, mean, variance } = sampleMoments(sample);
+  return mean + Math.sqrt(variance / n) * sampleStandardNormal(random);
+}
+
+// Mulberry32: results are reproducible for the same data
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleStandardNormal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Marsaglia and Tsang
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+function sampleBeta(a: number, b: number, random: () => number): number {
+  const x = sampleGamma(a, random);
+  const y = sampleGamma(b, random);
+  return x / (x + y);
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+import { ABTestingManager } from "./ab-testing-manager";
+import type { VariantCombination } from "./campaign-variant-generator";
+
+const combination = (name: string) =>
+  ({ id: name, name, variants: [] }) as unknown as VariantCombination;
+
+describe("ABTestingManager", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let manager: ABTestingManager;
+
+  beforeEach(() => {
+    db = createInMemoryPrisma();
+    db.seed("user", { id: "user-1", email: "owner@example.com" });
+    db.seed("campaign", {
+      id: "campaign-1",
+      userId: "user-1",
+      name: "Launch",
+      type: "EMAIL",
+    });
+    manager = new ABTestingManager({ store: jest.fn() } as any, db.prisma);
+  });
+
+  const launch = async (config: Record<string, unknown> = {}) => {
+    const test = await manager.createTest({
+      campaignId: "campaign-1",
+      name: "Subject lines",
+      variants: [combination("A"), combination("B"), combination("C")],
+      config: { minSampleSize: 1000, ...config },
+      targetAudience: { size: 10000, segments: [], filters: {} },
+    });
+    await manager.startTest(test.id);
+    return test.id;
+  };
+
+  const stored = async (testId: string) => (await manager.getTest(testId))!;
+
+  const report = (
+    testId: string,
+    variantId: string,
+    clicks: number,
+    conversions: number,
+  ) =>
+    manager.updateTestMetrics(testId, variantId, {
+      impressions: 10000,
+      opens: 6000,
+      clicks,
+      conversions,
+    });
+
+  it("should compare every variant with the control and pick the third", async () => {
+    const testId = await launch({ autoWinner: false });
+
+    await report(testId, "variant_0", 3000, 300);
+    await report(testId, "variant_1", 3000, 310);
+    await report(testId, "variant_2", 3000, 420);
+    await manager.declareWinner(testId);
+
+    const test = await stored(testId);
+    const comparisons = test.results.performance;
+    expect(comparisons.find((p) => p.variantId === "variant_2")!.isWinner).toBe(
+      true,
+    );
+    expect(test.winner).toBe("variant_2");
+  });
+
+  it("should declare a winner only when that variant is significant", async () => {
+    const testId = await launch();
+
+    await report(testId, "variant_0", 3000, 300);
+    await report(testId, "variant_1", 3000, 330);
+    expect((await stored(testId)).status).toBe("running");
+
+    await report(testId, "variant_2", 3000, 430);
+    const test = await stored(testId);
+    expect(test.status).toBe("winner_declared");
+    expect(test.winner).toBe("variant_2");
+    expect(
+      test.results.statisticalSignificance.comparisons?.map((c) => c.variantId),
+    ).toEqual(["variant_1", "variant_2"]);
+  });
+
+  it("should report Bayesian results for revenue per visitor", async () => {
+    const testId = await launch({
+      analysisMode: "bayesian",
+      primaryMetric: "revenue",
+      autoWinner: true,
+    });
+
+    for (const [variantId, revenue] of [
+      ["variant_0", 5000],
+      ["variant_1", 5100],
+      ["variant_2", 7500],
+    ] as const) {
+      await manager.updateTestMetrics(testId, variantId, {
+        impressions: 10000,
+        conversions: 500,
+        revenue,
+        revenueSumOfSquares: revenue * 80,
+      });
+    }
+
+    const test = await stored(testId);
+    const significance = test.results.statisticalSignificance;
+    expect(significance.method).toBe("bayesian");
+    expect(
+      significance.comparisons![1]!.probabilityToBeatControl,
+    ).toBeGreaterThan(0.99);
+    expect(test.winner).toBe("variant_2");
+    expect(test.results.insights.join(" ")).toContain("chance to beat control");
+  });
+
+  it("should not test revenue without its per-visitor sum of squares", async () => {
+    const testId = await launch({ primaryMetric: "revenue" });
+
+    for (const [variantId, revenue] of [
+      ["variant_0", 5000],
+      ["variant_1", 5100],
+      ["variant_2", 7500],
+    ] as const) {
+      await manager.updateTestMetrics(testId, variantId, {
+        impressions: 10000,
+        conversions: 500,
+        revenue,
+      });
+    }
+
+    const test = await stored(testId);
+    expect(test.status).toBe("running");
+    expect(test.results.statisticalSignificance.unavailableReason).toContain(
+      "revenueSumOfSquares",
+    );
+    expect(test.results.recommendation.action).toBe("continue");
+  });
+
+  describe("adaptive allocation", () => {
+    it("should move traffic to the best variant and record every move", async () => {
+      const testId = await launch({
+        trafficSplit: "adaptive",
+        autoWinner: false,
+        explorationFloor: 10,
+      });
+
+      await report(testId, "variant_0", 1000, 100);
+      await report(testId, "variant_1", 1000, 100);
+      await report(testId, "variant_2", 1000, 160);
+
+      const test = await stored(testId);
+      const share = (id: string) =>
+        test.variants.find((v) => v.id === id)!.trafficAllocation;
+      expect(share("variant_2")).toBeGreaterThan(70);
+      expect(share("variant_0")).toBeGreaterThanOrEqual(10);
+
+      const history = await manager.getAllocationHistory(testId);
+      expect(history[0]!.reason).toBe("initial");
+      expect(history[0]!.allocations.variant_2).toBeCloseTo(100 / 3);
+      expect(history[history.length - 1]).toMatchObject({
+        reason: "rebalance",
+        algorithm: "thompson_sampling",
+        allocations: { variant_2: share("variant_2") },
+      });
+    });
+
+    it("should keep a fixed split unless the test is adaptive", async () => {
+      const testId = await launch({ autoWinner: false });
+
+      await report(testId, "variant_0", 1000, 100);
+      await report(testId, "variant_1", 1000, 100);
+      await report(testId, "variant_2", 1000, 160);
+
+      const test = await stored(testId);
+      expect(test.variants.map((v) => v.trafficAllocation)).toEqual([
+        100 / 3,
+        100 / 3,
+        100 / 3,
+      ]);
+      expect(await manager.getAllocationHistory(testId)).toHaveLength(1);
+    });
+  });
+
+  describe("persistence", () => {
+    it("should share tests with every manager on the same database", async () => {
+      const testId = await launch({ autoWinner: false });
+      const worker = new ABTestingManager(
+        { store: jest.fn() } as any,
+        db.prisma,
+      );
+
+      await worker.updateTestMetrics(testId, "variant_1", {
+        impressions: 500,
+        conversions: 40,
+      });
+
+      const test = await stored(testId);
+      expect(test.status).toBe("running");
+      expect(test.startedAt).toBeInstanceOf(Date);
+      expect(test.variants[1]!.metrics).toMatchObject({
+        impressions: 500,
+        conversions: 40,
+      });
+      expect(db.tables.aBTest![0]).toMatchObject({
+        status: "RUNNING",
+        version: 2,
+      });
+    });
+
+    it("should keep concurrent updates of different variants", async () => {
+      const testId = await launch({ autoWinner: false });
+
+      await Promise.all([
+        report(testId, "variant_0", 1000, 100),
+        report(testId, "variant_1", 1000, 120),
+        report(testId, "variant_2", 1000, 140),
+      ]);
+
+      const test = await stored(testId);
+      expect(test.variants.map((v) => v.metrics.conversions)).toEqual([
+        100, 120, 140,
+      ]);
+    });
+
+    it("should ignore metrics for unknown tests", async () => {
+      await expect(
+        manager.updateTestMetrics("missing", "variant_0", { impressions: 1 }),
+      ).resolves.toBeUndefined();
+      await expect(manager.getAllocationHistory("missing")).rejects.toThrow(
+        "Test missing not found",
+      );
+    });
+  });
+});
@@ -3,11 +3,26 @@
  * Manages the complete A/B testing lifecycle with statistical significance
  */
 
+import {
+  db,
+  type ABTest as ABTestRecord,
+  type ABTestStatus,
+  type Prisma,
+  type PrismaClient,
+} from "@neon/data-model";
 import { AgentMemoryStore } from "../memory/AgentMemoryStore";
 import {
   ContentVariant,
   VariantCombination,
 } from "./campaign-variant-generator";
+import {
+  compareVariants,
+  type AnalysisMode,
+  type MetricSample,
+  type MultipleComparisonCorrection,
+  type VariantComparison,
+} from "./ab-test-statistics";
+import { allocateTraffic, type BanditAlgorithm } from "./bandit-allocation";
 
 export interface ABTest {
   id: string;
@@ -21,6 +36,18 @@ export interface ABTest {
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
+  // Running minimum of each treatment's always-valid p-value
+  sequentialPValues?: Record<string, number>;
+  allocationHistory: AllocationSnapshot[];
+}
+
+export interface AllocationSnapshot {
+  timestamp: Date;
+  // Traffic percentage by variant id
+  allocations: Record<string, number>;
+  reason: "initial" | "rebalance" | "winner_declared";
+  algorithm?: BanditAlgorithm;
+  totalImpressions: number;
 }
 
 export interface TestVariant {
@@ -43,6 +70,17 @@ export interface ABTestConfig {
   autoWinner: boolean; // Automatically declare winner when statistically significant
   maxDuration: number; // Maximum test duration in minutes
   trafficSplit: "equal" | "weighted" | "adaptive";
+  // Used when trafficSplit is `adaptive`; defaults to Thompson sampling
+  banditAlgorithm?: BanditAlgorithm;
+  // Minimum traffic percentage every adaptive variant keeps (default 5)
+  explorationFloor?: number;
+  // Defaults to `sequential` for sequential tests, `fixed_horizon` otherwise
+  analysisMode?: AnalysisMode;
+  multipleComparisonCorrection?: MultipleComparisonCorrection;
+  // Relative lift the test is designed to detect, e.g. 0.05 for 5%
+  minDetectableEffect?: number;
+  // Bayesian winners need an expected loss below this share of control
+  expectedLossThreshold?: number;
 }
 
 export interface VariantMetrics {
@@ -57,6 +95,9 @@ export interface VariantMetrics {
   clickRate: number;
   conversionRate: number;
   revenuePerUser: number;
+  // Sum of squared revenue per impression; revenue tests need it for the
+  // variance and are not analysed without it
+  revenueSumOfSquares?: number;
   lastUpdated: Date;
 }
 
@@ -77,6 +118,11 @@ export interface StatisticalSignificance {
   sampleSizeReached: boolean;
   powerAchieved: boolean;
   timeToSignificance?: number; // Estimated minutes
+  method?: AnalysisMode;
+  // Every treatment against the control (the first variant)
+  comparisons?: VariantComparison[];
+  // Why the primary metric can't be tested; no winner is declared for it
+  unavailableReason?: string;
 }
 
 export interface TestRecommendation {
@@ -115,14 +161,46 @@ export interface ABTestCreationRequest {
   };
 }
 
+// Percentage points a variant must move before traffic is rebalanced
+const MIN_ALLOCATION_CHANGE = 1;
+
+// Revenue per visitor has no variance estimate without this
+const REVENUE_VARIANCE_MISSING =
+  "Revenue significance needs revenueSumOfSquares, the per-visitor sum of squared revenue";
+
+// Times a change is retried when another process wrote the test first
+const MAX_WRITE_ATTEMPTS = 5;
+
+const STORED_STATUS: Record<ABTest["status"], ABTestStatus> = {
+  draft: "DRAFT",
+  running: "RUNNING",
+  paused: "RUNNING",
+  completed: "STOPPED",
+  winner_declared: "COMPLETED",
+};
+
+// What ABTest.settings holds next to the columns. Dates are ISO strings.
+interface StoredTestSettings {
+  status: ABTest["status"];
+  config: ABTestConfig;
+  createdAt: string;
+  startedAt?: string;
+  sequentialPValues?: Record<string, number>;
+  allocationHistory: AllocationSnapshot[];
+}
+
+/**
+ * Runs A/B tests stored in the ABTest table. Every method reads the test
+ * from the database, so the API and the worker, which feeds metrics in,
+ * work on the same tests.
+ */
 export class ABTestingManager {
   private memoryStore: AgentMemoryStore;
-  private activeTests: Map<string, ABTest> = new Map();
-  private updateInterval: NodeJS.Timeout | null = null;
+  private prisma: PrismaClient;
 
-  constructor(memoryStore: AgentMemoryStore) {
+  constructor(memoryStore: AgentMemoryStore, prisma: PrismaClient = db) {
     this.memoryStore = memoryStore;
-    this.startPeriodicUpdates();
+    this.prisma = prisma;
   }
 
   /**
@@ -162,7 +240,7 @@ export class ABTestingManager {
 
       // Create the test
       const test: ABTest = {
-        id: `abtest_${Date.now()}`,
+        id: "",
         campaignId: request.campaignId,
         name: request.name,
         status: "draft",
@@ -170,10 +248,19 @@ export class ABTestingManager {
         config,
         results: this.initializeResults(),
         createdAt: new Date(),
+        allocationHistory: [],
       };
-
-      // Store in memory for quick access
-      this.activeTests.set(test.id, test);
+      this.recordAllocation(test, "initial");
+
+      const record = await this.prisma.aBTest.create({
+        data: {
+          campaignId: test.campaignId,
+          name: test.name,
+          ...this.toRecord(test),
+        },
+        select: { id: true },
+      });
+      test.id = record.id;
 
       // Persist to memory store
       await this.memoryStore.store(`ab_test_${test.id}`, test, [
@@ -193,28 +280,30 @@ export class ABTestingManager {
   /**
    * Start an A/B test
    */
-  async startTest(testId: string): Promise<void> {
-    const test = this.activeTests.get(testId);
+  async startTest(testId: string): Promise<ABTest> {
+    const test = await this.updateTest(testId, (current) => {
+      current.status = "running";
+      current.startedAt = new Date();
+
+      // Calculate sample size requirements
+      const requiredSampleSize = this.calculateSampleSize(current.config);
+      current.config.minSampleSize = Math.max(
+        current.config.minSampleSize,
+        requiredSampleSize,
+      );
+      return true;
+    });
     if (!test) {
       throw new Error(`Test ${testId} not found`);
     }
 
-    test.status = "running";
-    test.startedAt = new Date();
-
-    // Calculate sample size requirements
-    const requiredSampleSize = this.calculateSampleSize(test.config);
-    test.config.minSampleSize = Math.max(
-      test.config.minSampleSize,
-      requiredSampleSize,
-    );
-
     console.log(
-      `🚀 A/B test started: ${testId} (Sample size: ${requiredSampleSize})`,
+      `🚀 A/B test started: ${testId} (Sample size: ${test.config.minSampleSize})`,
     );
 
     // Update stored version
     await this.updateStoredTest(test);
+    return test;
   }
 
   /**
@@ -225,91 +314,113 @@ export class ABTestingManager {
     variantId: string,
     metrics: Partial<VariantMetrics>,
   ): Promise<void> {
-    const test = this.activeTests.get(testId);
-    if (!test || test.status !== "running") {
-      return;
-    }
+    let winnerDeclared = false;
+    const test = await this.updateTest(testId, (current) => {
+      winnerDeclared = false;
+      if (current.status !== "running") return false;
 
-    const variant = test.variants.find((v) => v.id === variantId);
-    if (!variant) {
-      return;
-    }
+      const variant = current.variants.find((v) => v.id === variantId);
+      if (!variant) return false;
 
-    // Update variant metrics
-    Object.assign(variant.metrics, metrics);
-    variant.metrics.lastUpdated = new Date();
+      // Update variant metrics
+      Object.assign(variant.metrics, metrics);
+      variant.metrics.lastUpdated = new Date();
 
-    // Recalculate derived metrics
-    this.calculateDerivedMetrics(variant.metrics);
+      // Recalculate derived metrics
+      this.calculateDerivedMetrics(variant.metrics);
 
-    // Update test results
-    this.updateTestResults(test);
+      // Update test results
+      this.updateTestResults(current);
+
+      if (current.config.trafficSplit === "adaptive") {
+        this.rebalanceTraffic(current);
+      }
 
-    // Check if test should be concluded
-    if (test.config.autoWinner) {
-      await this.checkTestCompletion(test);
+      // Check if test should be concluded
+      if (current.config.autoWinner) {
+        this.checkTestCompletion(current);
+        winnerDeclared = current.winner !== undefined;
+      }
+      return true;
+    });
+
+    if (test && winnerDeclared) {
+      await this.storeLearnings(test);
+      await this.updateStoredTest(test);
     }
   }
 
   /**
    * Check if test should be completed and declare winner
    */
-  private async checkTestCompletion(test: ABTest): Promise<void> {
+  private checkTestCompletion(test: ABTest): void {
     const significance = this.calculateStatisticalSignificance(test);
     test.results.statisticalSignificance = significance;
+    test.results.performance = this.calculatePerformanceComparison(test);
+    test.results.insights = this.generateInsights(test);
 
     const recommendation = this.generateRecommendation(test);
     test.results.recommendation = recommendation;
 
     // Auto-declare winner if conditions are met
     if (recommendation.action === "declare_winner" && test.config.autoWinner) {
-      await this.declareWinner(test.id);
+      this.applyWinner(test);
     }
 
     // Auto-stop if test runs too long
     const testDuration = Date.now() - (test.startedAt?.getTime() || Date.now());
     if (testDuration > test.config.maxDuration * 60 * 1000) {
-      await this.stopTest(test.id, "max_duration_reached");
+      this.applyStop(test, "max_duration_reached");
     }
   }
 
   /**
-   * Declare the winning variant
+   * Declare the winning variant, the best performer unless one is given
    */
-  async declareWinner(testId: string): Promise<string> {
-    const test = this.activeTests.get(testId);
+  async declareWinner(testId: string, variantId?: string): Promise<string> {
+    const test = await this.updateTest(testId, (current) => {
+      this.applyWinner(current, variantId);
+      return true;
+    });
     if (!test) {
       throw new Error(`Test ${testId} not found`);
     }
 
-    // Find the best performing variant
+    // Store learnings for future tests
+    await this.storeLearnings(test);
+
+    // Update stored version
+    await this.updateStoredTest(test);
+
+    return test.winner!;
+  }
+
+  private applyWinner(test: ABTest, variantId?: string): void {
     const performance = this.calculatePerformanceComparison(test);
-    const winner = performance.find((p) => p.isWinner);
+    const winner = variantId
+      ? performance.find((p) => p.variantId === variantId)
+      : performance.find((p) => p.isWinner);
 
     if (!winner) {
-      throw new Error("No clear winner found");
+      throw new Error(
+        variantId ? `Variant ${variantId} not found` : "No clear winner found",
+      );
     }
 
     test.status = "winner_declared";
     test.winner = winner.variantId;
     test.completedAt = new Date();
 
-    // Mark winner and losers
+    // Mark winner and losers; the winner takes all traffic
     test.variants.forEach((variant) => {
       variant.status = variant.id === winner.variantId ? "winner" : "loser";
+      variant.trafficAllocation = variant.id === winner.variantId ? 100 : 0;
     });
+    this.recordAllocation(test, "winner_declared");
 
     console.log(
-      `🏆 Winner declared for test ${testId}: ${winner.variantName} (${winner.lift.toFixed(2)}% lift)`,
+      `🏆 Winner declared for test ${test.id}: ${winner.variantName} (${winner.lift.toFixed(2)}% lift)`,
     );
-
-    // Store learnings for future tests
-    await this.storeLearnings(test);
-
-    // Update stored version
-    await this.updateStoredTest(test);
-
-    return winner.variantId;
   }
 
   /**
@@ -318,26 +429,32 @@ export class ABTestingManager {
   async stopTest(
     testId: string,
     reason: string = "manual_stop",
-  ): Promise<void> {
-    const test = this.activeTests.get(testId);
+  ): Promise<ABTest> {
+    const test = await this.updateTest(testId, (current) => {
+      this.applyStop(current, reason);
+      return true;
+    });
     if (!test) {
       throw new Error(`Test ${testId} not found`);
     }
 
+    // Store final results
+    await this.updateStoredTest(test);
+    return test;
+  }
+
+  private applyStop(test: ABTest, reason: string): void {
     test.status = "completed";
     test.completedAt = new Date();
 
-    console.log(`⏹️ A/B test stopped: ${testId} (Reason: ${reason})`);
-
-    // Store final results
-    await this.updateStoredTest(test);
+    console.log(`⏹️ A/B test stopped: ${test.id} (Reason: ${reason})`);
   }
 
   /**
    * Get test results and current status
    */
   async getTestResults(testId: string): Promise<ABTestResults> {
-    const test = this.activeTests.get(testId);
+    const test = await this.getTest(testId);
     if (!test) {
       throw new Error(`Test ${testId} not found`);
     }
@@ -349,12 +466,193 @@ export class ABTestingManager {
   }
 
   /**
-   * Calculate statistical significance
+   * A test this manager is running or has run
+   */
+  async getTest(testId: string): Promise<ABTest | undefined> {
+    return (await this.findTest(testId))?.test;
+  }
+
+  /**
+   * The tests of a campaign, newest first
+   */
+  async getTestsByCampaign(campaignId: string): Promise<ABTest[]> {
+    const records = await this.prisma.aBTest.findMany({
+      where: { campaignId },
+      orderBy: { startDate: "desc" },
+    });
+
+    return records.flatMap((record) => {
+      const test = this.fromRecord(record);
+      return test ? [test] : [];
+    });
+  }
+
+  /**
+   * How traffic was split over the life of a test
+   */
+  async getAllocationHistory(testId: string): Promise<AllocationSnapshot[]> {
+    const test = await this.getTest(testId);
+    if (!test) {
+      throw new Error(`Test ${testId} not found`);
+    }
+
+    return test.allocationHistory;
+  }
+
+  /**
+   * Apply change to the stored test and write it back. The write only lands
+   * if nobody wrote the test since it was read; otherwise the change is
+   * applied again to the fresh copy. Returns undefined when the test doesn't
+   * exist or change returns false to skip the write.
+   */
+  private async updateTest(
+    testId: string,
+    change: (test: ABTest) => boolean,
+  ): Promise<ABTest | undefined> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      const found = await this.findTest(testId);
+      if (!found || !change(found.test)) return undefined;
+
+      const { count } = await this.prisma.aBTest.updateMany({
+        where: { id: testId, version: found.version },
+        data: { ...this.toRecord(found.test), version: { increment: 1 } },
+      });
+      if (count > 0) return found.test;
+    }
+
+    throw new Error(`Test ${testId} is being updated concurrently`);
+  }
+
+  private async findTest(
+    testId: string,
+  ): Promise<{ test: ABTest; version: number } | null> {
+    const record = await this.prisma.aBTest.findUnique({
+      where: { id: testId },
+    });
+    const test = record && this.fromRecord(record);
+    return test ? { test, version: record.version } : null;
+  }
+
+  private toRecord(test: ABTest) {
+    const settings: StoredTestSettings = {
+      status: test.status,
+      config: test.config,
+      createdAt: test.createdAt.toISOString(),
+      ...(test.startedAt && { startedAt: test.startedAt.toISOString() }),
+      ...(test.sequentialPValues && {
+        sequentialPValues: test.sequentialPValues,
+      }),
+      allocationHistory: test.allocationHistory,
+    };
+
+    return {
+      status: STORED_STATUS[test.status],
+      variants: test.variants as unknown as Prisma.InputJsonValue,
+      results: test.results as unknown as Prisma.InputJsonValue,
+      winner: test.winner ?? null,
+      startDate: test.startedAt ?? test.createdAt,
+      endDate: test.completedAt ?? null,
+      settings: settings as unknown as Prisma.InputJsonValue,
+    };
+  }
+
+  /**
+   * Rebuild a test from its row; null for rows the manager didn't create
+   */
+  private fromRecord(record: ABTestRecord): ABTest | null {
+    const settings = record.settings as unknown as StoredTestSettings | null;
+    if (!settings?.config) return null;
+
+    const variants = record.variants as unknown as TestVariant[];
+    return {
+      id: record.id,
+      campaignId: record.campaignId,
+      name: record.name,
+      status: settings.status,
+      variants: variants.map((variant) => ({
+        ...variant,
+        metrics: {
+          ...variant.metrics,
+          lastUpdated: new Date(variant.metrics.lastUpdated),
+        },
+      })),
+      config: settings.config,
+      results: record.results as unknown as ABTestResults,
+      ...(record.winner && { winner: record.winner }),
+      createdAt: new Date(settings.createdAt),
+      ...(settings.startedAt && { startedAt: new Date(settings.startedAt) }),
+      ...(record.endDate && { completedAt: record.endDate }),
+      ...(settings.sequentialPValues && {
+        sequentialPValues: settings.sequentialPValues,
+      }),
+      allocationHistory: settings.allocationHistory.map((snapshot) => ({
+        ...snapshot,
+        timestamp: new Date(snapshot.timestamp),
+      })),
+    };
+  }
+
+  /**
+   * Move traffic towards the variants that perform best on the primary
+   * metric. Small moves are skipped to keep the history readable.
+   */
+  private rebalanceTraffic(test: ABTest): void {
+    const active = test.variants.filter((v) => v.status === "active");
+    const samples = active.map((variant) =>
+      this.getMetricSample(variant.metrics, test.config.primaryMetric),
+    );
+    if (!samples.every((sample): sample is MetricSample => !!sample)) return;
+
+    const algorithm = test.config.banditAlgorithm ?? "thompson_sampling";
+    const allocations = allocateTraffic(
+      active.map((variant, index) => ({
+        variantId: variant.id,
+        sample: samples[index]!,
+      })),
+      {
+        algorithm,
+        explorationFloor: test.config.explorationFloor ?? 5,
+      },
+    );
+
+    const moved = active.some(
+      (variant) =>
+        Math.abs(allocations[variant.id]! - variant.trafficAllocation) >=
+        MIN_ALLOCATION_CHANGE,
+    );
+    if (!moved) return;
+
+    active.forEach((variant) => {
+      variant.trafficAllocation = allocations[variant.id]!;
+    });
+    this.recordAllocation(test, "rebalance", algorithm);
+  }
+
+  private recordAllocation(
+    test: ABTest,
+    reason: AllocationSnapshot["reason"],
+    algorithm?: BanditAlgorithm,
+  ): void {
+    test.allocationHistory.push({
+      timestamp: new Date(),
+      allocations: Object.fromEntries(
+        test.variants.map((v) => [v.id, v.trafficAllocation]),
+      ),
+      reason,
+      ...(algorithm && { algorithm }),
+      totalImpressions: test.results.totalImpressions,
+    });
+  }
+
+  /**
+   * Calculate statistical significance of every treatment against the
+   * control, using the test's analysis mode
    */
   private calculateStatisticalSignificance(
     test: ABTest,
   ): StatisticalSignificance {
-    if (test.variants.length < 2) {
+    const [control, ...treatments] = test.variants;
+    if (!control || treatments.length === 0) {
       return {
         isSignificant: false,
         pValue: 1.0,
@@ -364,48 +662,70 @@ export class ABTestingManager {
       };
     }
 
-    // Get control and treatment variants
-    const control = test.variants[0];
-    const treatment = test.variants[1];
-
-    // Calculate conversion rates
-    const controlRate = control.metrics.conversionRate;
-    const treatmentRate = treatment.metrics.conversionRate;
-
-    // Calculate sample sizes
-    const controlSample = control.metrics.impressions;
-    const treatmentSample = treatment.metrics.impressions;
-
-    // Simple z-test for proportions
-    const pooledRate =
-      (control.metrics.conversions + treatment.metrics.conversions) /
-      (controlSample + treatmentSample);
+    const method = this.getAnalysisMode(test.config);
+    const [controlSample, ...treatmentSamples] = test.variants.map((variant) =>
+      this.getMetricSample(variant.metrics, test.config.primaryMetric),
+    );
+    if (
+      !controlSample ||
+      !treatmentSamples.every((sample): sample is MetricSample => !!sample)
+    ) {
+      return {
+        isSignificant: false,
+        pValue: 1.0,
+        confidenceInterval: [0, 0],
+        sampleSizeReached: false,
+        powerAchieved: false,
+        method,
+        unavailableReason: REVENUE_VARIANCE_MISSING,
+      };
+    }
 
-    const standardError = Math.sqrt(
-      pooledRate * (1 - pooledRate) * (1 / controlSample + 1 / treatmentSample),
+    const comparisons = compareVariants(
+      controlSample,
+      treatments.map((variant, index) => ({
+        variantId: variant.id,
+        sample: treatmentSamples[index]!,
+      })),
+      {
+        mode: method,
+        confidenceLevel: test.config.confidenceLevel,
+        correction: test.config.multipleComparisonCorrection ?? "holm",
+        minDetectableEffect: test.config.minDetectableEffect ?? 0.05,
+        expectedLossThreshold: test.config.expectedLossThreshold ?? 0.01,
+        ...(test.sequentialPValues && {
+          previousPValues: test.sequentialPValues,
+        }),
+      },
     );
-    const zScore = Math.abs(treatmentRate - controlRate) / standardError;
 
-    // Calculate p-value (approximate)
-    const pValue = 2 * (1 - this.normalCDF(Math.abs(zScore)));
+    if (method === "sequential") {
+      test.sequentialPValues = Object.fromEntries(
+        comparisons.map((comparison) => [
+          comparison.variantId,
+          comparison.pValue,
+        ]),
+      );
+    }
 
-    // Check significance
-    const isSignificant = pValue < 1 - test.config.confidenceLevel;
+    // Summarize with the strongest treatment
+    const best = comparisons.reduce((a, b) =>
+      b.adjustedPValue < a.adjustedPValue ? b : a,
+    );
+    const isSignificant = comparisons.some((c) => c.isSignificant);
     const sampleSizeReached =
-      Math.min(controlSample, treatmentSample) >= test.config.minSampleSize;
+      Math.min(...test.variants.map((v) => v.metrics.impressions)) >=
+      test.config.minSampleSize;
 
     return {
       isSignificant,
-      pValue,
-      confidenceInterval: this.calculateConfidenceInterval(
-        treatmentRate,
-        controlRate,
-        standardError,
-        test.config.confidenceLevel,
-      ),
+      pValue: best.adjustedPValue,
+      confidenceInterval: best.confidenceInterval,
       sampleSizeReached,
       powerAchieved: isSignificant && sampleSizeReached,
       timeToSignificance: this.estimateTimeToSignificance(test),
+      method,
+      comparisons,
     };
   }
 
@@ -414,24 +734,39 @@ export class ABTestingManager {
    */
   private generateRecommendation(test: ABTest): TestRecommendation {
     const significance = test.results.statisticalSignificance;
+    if (significance.unavailableReason) {
+      return {
+        action: "continue",
+        reason: significance.unavailableReason,
+        confidence: 0,
+        expectedLift: 0,
+        estimatedRevenue: 0,
+      };
+    }
+
     const performance = this.calculatePerformanceComparison(test);
     const winner = performance.find((p) => p.isWinner);
+    const winnerComparison = significance.comparisons?.find(
+      (comparison) => comparison.variantId === winner?.variantId,
+    );
+    // Always-valid p-values may be acted on before the planned sample size
+    const canConclude =
+      significance.sampleSizeReached || significance.method === "sequential";
 
-    if (
-      significance.isSignificant &&
-      significance.sampleSizeReached &&
-      winner
-    ) {
+    if (winner && winnerComparison?.isSignificant && canConclude) {
       return {
         action: "declare_winner",
-        reason: "Statistical significance achieved with sufficient sample size",
-        confidence: 1 - significance.pValue,
+        reason:
+          significance.method === "bayesian"
+            ? "Probability to beat control reached with acceptable expected loss"
+            : "Statistical significance achieved with sufficient sample size",
+        confidence: 1 - winnerComparison.adjustedPValue,
         expectedLift: winner.lift,
         estimatedRevenue: this.estimateRevenue(test, winner.lift),
       };
     }
 
-    if (!significance.sampleSizeReached) {
+    if (!canConclude) {
       return {
         action: "continue",
         reason: "Insufficient sample size, continue testing",
@@ -474,6 +809,11 @@ export class ABTestingManager {
       control.metrics,
       test.config.primaryMetric,
     );
+    const significance = new Map(
+      (test.results.statisticalSignificance.comparisons ?? []).map(
+        (comparison) => [comparison.variantId, comparison],
+      ),
+    );
 
     const comparisons: PerformanceComparison[] = test.variants.map(
       (variant, index) => {
@@ -491,7 +831,7 @@ export class ABTestingManager {
           variantName: variant.name,
           primaryMetricValue: metricValue,
           lift,
-          significance: 0.5, // Simplified - would need proper calculation
+          significance: significance.get(variant.id)?.adjustedPValue ?? 1,
           rank: 0,
           isWinner: false,
           isLoser: false,
@@ -606,6 +946,15 @@ export class ABTestingManager {
       }
     }
 
+    for (const comparison of test.results.statisticalSignificance.comparisons ??
+      []) {
+      if (comparison.probabilityToBeatControl === undefined) continue;
+      const variant = test.variants.find((v) => v.id === comparison.variantId);
+      insights.push(
+        `${variant?.name ?? comparison.variantId} has a ${(comparison.probabilityToBeatControl * 100).toFixed(1)}% chance to beat control`,
+      );
+    }
+
     return insights;
   }
 
@@ -624,6 +973,52 @@ export class ABTestingManager {
     }
   }
 
+  private getAnalysisMode(config: ABTestConfig): AnalysisMode {
+    return (
+      config.analysisMode ??
+      (config.testType === "sequential" ? "sequential" : "fixed_horizon")
+    );
+  }
+
+  /**
+   * Raw counts behind a primary metric. Rates use the same denominators as
+   * calculateDerivedMetrics(); revenue is a continuous value per impression
+   * and null until its per-visitor sum of squares is reported.
+   */
+  private getMetricSample(
+    metrics: VariantMetrics,
+    metricName: ABTestConfig["primaryMetric"],
+  ): MetricSample | null {
+    switch (metricName) {
+      case "open_rate":
+        return {
+          kind: "proportion",
+          trials: metrics.impressions,
+          successes: metrics.opens,
+        };
+      case "click_rate":
+        return {
+          kind: "proportion",
+          trials: metrics.opens,
+          successes: metrics.clicks,
+        };
+      case "revenue":
+        if (metrics.revenueSumOfSquares === undefined) return null;
+        return {
+          kind: "continuous",
+          n: metrics.impressions,
+          sum: metrics.revenue,
+          sumOfSquares: metrics.revenueSumOfSquares,
+        };
+      default:
+        return {
+          kind: "proportion",
+          trials: metrics.clicks,
+          successes: metrics.conversions,
+        };
+    }
+  }
+
   private calculateSampleSize(config: ABTestConfig): number {
     // Simplified sample size calculation
     const alpha = 1 - config.confidenceLevel;
@@ -634,55 +1029,6 @@ export class ABTestingManager {
     return Math.ceil(16 / (effectSize * effectSize));
   }
 
-  private normalCDF(x: number): number {
-    // Approximation of normal CDF
-    return 0.5 * (1 + this.erf(x / Math.sqrt(2)));
-  }
-
-  private erf(x: number): number {
-    // Approximation of error function
-    const a1 = 0.254829592;
-    const a2 = -0.284496736;
-    const a3 = 1.421413741;
-    const a4 = -1.453152027;
-    const a5 = 1.061405429;
-    const p = 0.3275911;
-
-    const sign = x < 0 ? -1 : 1;
-    x = Math.abs(x);
-
-    const t = 1.0 / (1.0 + p * x);
-    const y =
-      1.0 -
-      ((((a5 * t + a4) * t + a3) * t + a2) * t + a1) * t * Math.exp(-x * x);
-
-    return sign * y;
-  }
-
-  private calculateConfidenceInterval(
-    treatmentRate: number,
-    controlRate: number,
-    standardError: number,
-    confidenceLevel: number,
-  ): [number, number] {
-    const z = this.getZScore(confidenceLevel);
-    const diff = treatmentRate - controlRate;
-    const margin = z * standardError;
-
-    return [diff - margin, diff + margin];
-  }
-
-  private getZScore(confidenceLevel: number): number {
-    // Z-scores for common confidence levels
-    const zScores: Record<number, number> = {
-      0.9: 1.645,
-      0.95: 1.96,
-      0.99: 2.576,
-    };
-
-    return zScores[confidenceLevel] || 1.96;
-  }
-
   private estimateTimeToSignificance(test: ABTest): number {
     // Simplified estimation - would need more sophisticated modeling
     const currentProgress = test.results.testProgress;
@@ -728,27 +1074,4 @@ export class ABTestingManager {
       test.campaignId,
     ]);
   }
-
-  private startPeriodicUpdates(): void {
-    // Update tests every 5 minutes
-    this.updateInterval = setInterval(
-      () => {
-        this.activeTests.forEach((test) => {
-          if (test.status === "running") {
-            this.updateTestResults(test);
-          }
-        });
-      },
-      5 * 60 * 1000,
-    );
-  }
-
-  /**
-   * Cleanup
-   */
-  destroy(): void {
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-    }
-  }
 }
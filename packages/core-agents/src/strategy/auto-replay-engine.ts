@@ -8,6 +8,12 @@ import {
 } from "./predictive-campaign-generator";
 import { ContentAgent } from "../agents/content-agent";
 import { BrandVoiceAgent } from "../agents/brand-voice-agent";
+import { JobQueue, type JobHandler } from "../queue";
+
+// Hourly replay checks are jobs on the default queue
+export const AUTO_REPLAY_JOB_TYPE = "auto-replay";
+const REPLAY_CHECK_TASK = "check_replays";
+const REPLAY_CHECK_INTERVAL = 60 * 60 * 1000;
 
 export interface AutoReplayConfiguration {
   confidenceThreshold: number;
@@ -67,8 +73,10 @@ export class AutoReplayEngine {
   private activeReplays: Map<string, ReplayExecution> = new Map();
   private replayHistory: ReplayExecution[] = [];
   private isRunning: boolean = false;
+  private jobQueue: JobQueue;
 
-  constructor(config?: Partial<AutoReplayConfiguration>) {
+  constructor(config?: Partial<AutoReplayConfiguration>, jobQueue?: JobQueue) {
+    this.jobQueue = jobQueue || new JobQueue();
     this.crossCampaignMemory = new CrossCampaignMemoryStore();
     this.smartScheduler = new SmartScheduler();
     this.predictiveGenerator = new PredictiveCampaignGenerator();
@@ -96,13 +104,20 @@ export class AutoReplayEngine {
     this.isRunning = true;
     console.log("🚀 Auto-replay engine started");
 
-    // Start the main monitoring loop
-    this.startMonitoringLoop();
+    // Each check schedules the next, so they keep running after a restart
+    await this.scheduleCheck(new Date());
   }
 
   async stopAutoReplay(): Promise<void> {
     this.isRunning = false;
 
+    const pending = await this.jobQueue.listJobs("PENDING", {
+      agentType: AUTO_REPLAY_JOB_TYPE,
+    });
+    for (const job of pending) {
+      await this.jobQueue.cancel(job.id);
+    }
+
     // Cancel any queued replays
     for (const [id, replay] of this.activeReplays) {
       if (replay.status === "queued") {
@@ -229,23 +244,33 @@ export class AutoReplayEngine {
     return analytics;
   }
 
-  private startMonitoringLoop(): void {
-    const checkInterval = 60 * 60 * 1000; // Check every hour
+  /**
+   * Handler that runs the hourly replay checks; register it on a JobWorker
+   * of the default queue under AUTO_REPLAY_JOB_TYPE
+   */
+  createJobHandler(): JobHandler {
+    return async (job) => {
+      await this.scheduleCheck(
+        new Date(job.runAt.getTime() + REPLAY_CHECK_INTERVAL),
+      );
 
-    const monitoringInterval = setInterval(async () => {
-      if (!this.isRunning) {
-        clearInterval(monitoringInterval);
-        return;
-      }
+      await this.checkForReplayOpportunities();
+      await this.monitorActiveReplays();
+      await this.cleanupCompletedReplays();
+      return { activeReplays: this.activeReplays.size };
+    };
+  }
 
-      try {
-        await this.checkForReplayOpportunities();
-        await this.monitorActiveReplays();
-        await this.cleanupCompletedReplays();
-      } catch (error) {
-        console.error("Auto-replay monitoring error:", error);
-      }
-    }, checkInterval);
+  private async scheduleCheck(from: Date): Promise<void> {
+    await this.jobQueue.scheduleRecurring(
+      {
+        agentType: AUTO_REPLAY_JOB_TYPE,
+        task: REPLAY_CHECK_TASK,
+        priority: "low",
+      },
+      REPLAY_CHECK_INTERVAL,
+      from,
+    );
   }
 
   private async checkForReplayOpportunities(): Promise<void> {
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "@jest/globals";
+import { allocateTraffic, type BanditArm } from "./bandit-allocation";
+
+const arm = (variantId: string, successes: number, trials: number) =>
+  ({
+    variantId,
+    sample: { kind: "proportion", trials, successes },
+  }) as BanditArm;
+
+const total = (allocations: Record<string, number>) =>
+  Object.values(allocations).reduce((sum, share) => sum + share, 0);
+
+describe("allocateTraffic", () => {
+  it("should split traffic equally until every variant has data", () => {
+    const allocations = allocateTraffic([arm("a", 0, 0), arm("b", 40, 100)], {
+      algorithm: "thompson_sampling",
+      explorationFloor: 5,
+    });
+
+    expect(allocations).toEqual({ a: 50, b: 50 });
+  });
+
+  it("should shift traffic to the likely best variant with Thompson sampling", () => {
+    const arms = [
+      arm("a", 100, 1000),
+      arm("b", 105, 1000),
+      arm("c", 160, 1000),
+    ];
+    const allocations = allocateTraffic(arms, {
+      algorithm: "thompson_sampling",
+      explorationFloor: 10,
+    });
+
+    expect(total(allocations)).toBeCloseTo(100);
+    expect(allocations.c).toBeGreaterThan(75);
+    expect(allocations.a).toBeGreaterThanOrEqual(10);
+    expect(allocations.b).toBeGreaterThanOrEqual(10);
+    expect(
+      allocateTraffic(arms, {
+        algorithm: "thompson_sampling",
+        explorationFloor: 10,
+      }),
+    ).toEqual(allocations);
+  });
+
+  it("should give the variant with the highest upper bound everything above the floor", () => {
+    const allocations = allocateTraffic(
+      [arm("a", 100, 1000), arm("b", 30, 100)],
+      { algorithm: "ucb", explorationFloor: 20 },
+    );
+
+    // b has the higher mean and the wider bound
+    expect(allocations).toEqual({ a: 20, b: 80 });
+  });
+
+  it("should cap the floor so allocations still sum to 100", () => {
+    const allocations = allocateTraffic(
+      [arm("a", 10, 100), arm("b", 90, 100), arm("c", 10, 100)],
+      { algorithm: "ucb", explorationFloor: 50 },
+    );
+
+    expect(total(allocations)).toBeCloseTo(100);
+    expect(allocations.a).toBeCloseTo(100 / 3);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Adaptive traffic allocation for A/B tests. Every variant keeps an
+ * exploration floor; the rest of the traffic follows the bandit:
+ *
+ * - `thompson_sampling`: each variant's probability of being the best
+ *   under its posterior
+ * - `ucb`: the variant with the highest upper confidence bound
+ */
+
+import {
+  sampleMoments,
+  samplePosteriorMean,
+  seededRandom,
+  type MetricSample,
+} from "./ab-test-statistics";
+
+export type BanditAlgorithm = "thompson_sampling" | "ucb";
+
+export interface BanditArm {
+  variantId: string;
+  sample: MetricSample;
+}
+
+export interface BanditOptions {
+  algorithm: BanditAlgorithm;
+  // Minimum traffic percentage kept by every variant
+  explorationFloor: number;
+  // Monte Carlo draws for Thompson sampling
+  posteriorSamples?: number;
+}
+
+export const DEFAULT_BANDIT_SAMPLES = 10000;
+
+/**
+ * Traffic percentages (summing to 100) by variant id. Traffic stays equal
+ * until every variant has at least two observations.
+ */
+export function allocateTraffic(
+  arms: BanditArm[],
+  options: BanditOptions,
+): Record<string, number> {
+  if (arms.length === 0) return {};
+
+  const moments = arms.map((arm) => sampleMoments(arm.sample));
+  const weights = moments.some((m) => m.n < 2)
+    ? arms.map(() => 1 / arms.length)
+    : options.algorithm === "ucb"
+      ? ucbWeights(moments, arms)
+      : thompsonWeights(arms, options.posteriorSamples);
+
+  const floor = Math.min(
+    Math.max(options.explorationFloor, 0),
+    100 / arms.length,
+  );
+  const adaptive = 100 - floor * arms.length;
+
+  return Object.fromEntries(
+    arms.map((arm, i) => [arm.variantId, floor + adaptive * weights[i]!]),
+  );
+}
+
+function thompsonWeights(
+  arms: BanditArm[],
+  draws = DEFAULT_BANDIT_SAMPLES,
+): number[] {
+  // Seeded by the data so the same metrics give the same allocation
+  const random = seededRandom(
+    arms.reduce(
+      (seed, arm) => (Math.imul(seed, 31) + sampleMoments(arm.sample).n) >>> 0,
+      arms.length,
+    ),
+  );
+  const wins = new Array<number>(arms.length).fill(0);
+
+  for (let i = 0; i < draws; i++) {
+    let best = 0;
+    let bestValue = -Infinity;
+    arms.forEach((arm, index) => {
+      const value = samplePosteriorMean(arm.sample, random);
+      if (value > bestValue) {
+        best = index;
+        bestValue = value;
+      }
+    });
+    wins[best]!++;
+  }
+
+  return wins.map((count) => count / draws);
+}
+
+function ucbWeights(
+  moments: ReturnType<typeof sampleMoments>[],
+  arms: BanditArm[],
+): number[] {
+  const total = moments.reduce((sum, m) => sum + m.n, 0);
+  const indices = moments.map((m, i) => {
+    // UCB1 for rates bounded by 1; continuous values scale by their spread
+    const scale =
+      arms[i]!.sample.kind === "proportion" ? 1 : Math.sqrt(m.variance);
+    return m.mean + scale * Math.sqrt((2 * Math.log(total)) / m.n);
+  });
+
+  const top = Math.max(...indices);
+  const leaders = indices.filter((index) => index === top).length;
+  return indices.map((index) => (index === top ? 1 / leaders : 0));
+}
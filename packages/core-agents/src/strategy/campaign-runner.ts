@@ -3,6 +3,7 @@
  */
 
 import { logger, withLogging } from "@neon/utils";
+import type { AgentJob, AgentJobStatus } from "@neon/data-model";
 import {
   CampaignAgent,
   type CampaignExecution,
@@ -10,12 +11,19 @@ import {
 } from "../agents/campaign-agent";
 import { getCampaignTemplate } from "./campaign-templates";
 import { AgentMemoryStore } from "../memory/AgentMemoryStore";
+import { JobQueue, type JobHandler } from "../queue";
+
+// Scheduled campaigns are jobs on their own queue, run by the worker
+// (apps/api/src/worker.ts)
+export const CAMPAIGN_QUEUE = "campaigns";
+export const CAMPAIGN_JOB_TYPE = "campaign";
 
 export interface CampaignRunnerConfig {
   maxConcurrentCampaigns: number;
   retryAttempts: number;
   retryDelay: number;
   monitoringInterval: number;
+  workspaceId?: string;
 }
 
 export interface CampaignSchedule {
@@ -30,6 +38,25 @@ export interface CampaignSchedule {
   };
 }
 
+interface ScheduledCampaignPayload {
+  campaignId: string;
+  context: any;
+  scheduledTime: string;
+  priority: CampaignSchedule["priority"];
+  recurring?: {
+    interval: "daily" | "weekly" | "monthly";
+    endDate?: string;
+  };
+}
+
+const SCHEDULE_STATUS: Record<AgentJobStatus, CampaignSchedule["status"]> = {
+  PENDING: "scheduled",
+  RUNNING: "running",
+  COMPLETED: "completed",
+  DEAD: "failed",
+  CANCELLED: "cancelled",
+};
+
 export interface CampaignValidation {
   isValid: boolean;
   errors: string[];
@@ -42,10 +69,10 @@ export class CampaignRunner {
   private memoryStore: AgentMemoryStore;
   private config: CampaignRunnerConfig;
   private runningCampaigns: Map<string, CampaignExecution> = new Map();
-  private scheduledCampaigns: Map<string, CampaignSchedule> = new Map();
+  private jobQueue: JobQueue;
   private monitoringTimer?: NodeJS.Timeout;
 
-  constructor(config: Partial<CampaignRunnerConfig> = {}) {
+  constructor(config: Partial<CampaignRunnerConfig> = {}, jobQueue?: JobQueue) {
     this.config = {
       maxConcurrentCampaigns: 5,
       retryAttempts: 3,
@@ -56,8 +83,7 @@ export class CampaignRunner {
 
     this.campaignAgent = new CampaignAgent();
     this.memoryStore = new AgentMemoryStore();
-
-    this.startMonitoring();
+    this.jobQueue = jobQueue || new JobQueue(undefined, CAMPAIGN_QUEUE);
   }
 
   /**
@@ -72,11 +98,13 @@ export class CampaignRunner {
         interval: "daily" | "weekly" | "monthly";
         endDate?: Date;
       };
+      // Scheduling the same key twice returns the first schedule
+      idempotencyKey?: string;
+      // The runner's workspace otherwise
+      workspaceId?: string;
     } = {},
   ): Promise<string> {
     return withLogging("campaign-runner", "schedule_campaign", async () => {
-      const scheduleId = `schedule_${Date.now()}`;
-
       // Validate campaign context
       const validation = await this.validateCampaign(campaignContext);
       if (!validation.isValid) {
@@ -85,40 +113,45 @@ export class CampaignRunner {
         );
       }
 
-      const schedule: CampaignSchedule = {
-        id: scheduleId,
+      const priority = options.priority || "medium";
+      const payload: ScheduledCampaignPayload = {
         campaignId: `campaign_${Date.now()}`,
-        scheduledTime,
-        status: "scheduled",
-        priority: options.priority || "medium",
-        recurring: options.recurring,
+        context: campaignContext,
+        scheduledTime: scheduledTime.toISOString(),
+        priority,
+        ...(options.recurring && {
+          recurring: {
+            interval: options.recurring.interval,
+            ...(options.recurring.endDate && {
+              endDate: options.recurring.endDate.toISOString(),
+            }),
+          },
+        }),
       };
 
-      this.scheduledCampaigns.set(scheduleId, schedule);
+      // Persisted as a delayed job so the schedule survives restarts
+      const job = await this.jobQueue.enqueue({
+        agentType: CAMPAIGN_JOB_TYPE,
+        task: "execute_campaign",
+        payload: payload as unknown as Record<string, unknown>,
+        workspaceId: options.workspaceId ?? this.config.workspaceId,
+        priority,
+        idempotencyKey: options.idempotencyKey,
+        runAt: scheduledTime,
+        retry: {
+          maxAttempts: this.config.retryAttempts,
+          initialDelay: this.config.retryDelay,
+        },
+      });
 
       logger.info("📅 Campaign scheduled", {
-        scheduleId,
+        scheduleId: job.id,
         scheduledTime: scheduledTime.toISOString(),
-        priority: schedule.priority,
+        priority,
         goal: campaignContext.goal,
       });
 
-      // Store in memory for persistence
-      await this.memoryStore.storeMemory(
-        "campaign-runner",
-        "scheduled_campaign",
-        {
-          schedule,
-          context: campaignContext,
-        },
-        {
-          scheduleId,
-          goal: campaignContext.goal,
-          scheduledTime: scheduledTime.toISOString(),
-        },
-      );
-
-      return scheduleId;
+      return job.id;
     });
   }
 
@@ -265,12 +298,22 @@ export class CampaignRunner {
   }
 
   /**
-   * Monitor running campaigns and scheduled campaigns
+   * Handler that runs scheduled campaigns; register it on a JobWorker of
+   * CAMPAIGN_QUEUE under CAMPAIGN_JOB_TYPE
+   */
+  createJobHandler(): JobHandler {
+    return (job) => this.runScheduledCampaign(job);
+  }
+
+  /**
+   * Monitor the campaigns this process is running. Only the worker runs
+   * campaigns, so only it needs to start this.
    */
-  private startMonitoring(): void {
+  async start(): Promise<void> {
+    if (this.monitoringTimer) return;
+
     this.monitoringTimer = setInterval(async () => {
       await this.monitorCampaigns();
-      await this.processScheduledCampaigns();
     }, this.config.monitoringInterval);
 
     logger.info("📊 Campaign monitoring started", {
@@ -323,66 +366,23 @@ export class CampaignRunner {
   }
 
   /**
-   * Process scheduled campaigns that are due
+   * Run a scheduled campaign job once it is due. Failures are retried by
+   * the queue with the runner's retry settings.
    */
-  private async processScheduledCampaigns(): Promise<void> {
-    const now = new Date();
-
-    for (const [scheduleId, schedule] of this.scheduledCampaigns) {
-      if (schedule.status === "scheduled" && schedule.scheduledTime <= now) {
-        try {
-          // Check if we can run the campaign
-          if (
-            this.runningCampaigns.size >= this.config.maxConcurrentCampaigns
-          ) {
-            logger.warn("⏰ Campaign delayed due to capacity", { scheduleId });
-            continue;
-          }
-
-          // Get campaign context from memory
-          const memories = await this.memoryStore.getRecentMemories(
-            "campaign-runner",
-            50,
-          );
-          const campaignMemory = memories.find(
-            (m) => m.data?.schedule?.id === scheduleId,
-          );
-
-          if (!campaignMemory) {
-            logger.error("Campaign context not found in memory", {
-              scheduleId,
-            });
-            schedule.status = "failed";
-            continue;
-          }
-
-          const campaignContext = campaignMemory.data.context;
+  private async runScheduledCampaign(job: AgentJob): Promise<unknown> {
+    const payload = job.payload as unknown as ScheduledCampaignPayload;
+    const execution = await this.executeCampaign(payload.context);
 
-          // Execute the campaign
-          schedule.status = "running";
-          const execution = await this.executeCampaign(campaignContext);
-
-          schedule.status = "completed";
-          logger.info("⏰ Scheduled campaign executed", {
-            scheduleId,
-            executionId: execution.id,
-          });
+    logger.info("⏰ Scheduled campaign executed", {
+      scheduleId: job.id,
+      executionId: execution.id,
+    });
 
-          // Handle recurring campaigns
-          if (schedule.recurring) {
-            await this.scheduleRecurringCampaign(schedule, campaignContext);
-          } else {
-            this.scheduledCampaigns.delete(scheduleId);
-          }
-        } catch (error) {
-          schedule.status = "failed";
-          logger.error("Scheduled campaign execution failed", {
-            scheduleId,
-            error,
-          });
-        }
-      }
+    if (payload.recurring) {
+      await this.scheduleRecurringCampaign(job, payload);
     }
+
+    return { executionId: execution.id, status: execution.status };
   }
 
   /**
@@ -468,36 +468,37 @@ export class CampaignRunner {
    * Schedule next occurrence of a recurring campaign
    */
   private async scheduleRecurringCampaign(
-    originalSchedule: CampaignSchedule,
-    campaignContext: any,
+    job: AgentJob,
+    payload: ScheduledCampaignPayload,
   ): Promise<void> {
-    if (!originalSchedule.recurring) return;
+    if (!payload.recurring) return;
 
     const nextScheduledTime = this.calculateNextScheduledTime(
-      originalSchedule.scheduledTime,
-      originalSchedule.recurring.interval,
+      new Date(payload.scheduledTime),
+      payload.recurring.interval,
     );
+    const endDate = payload.recurring.endDate
+      ? new Date(payload.recurring.endDate)
+      : undefined;
 
     // Check if we should continue recurring
-    if (
-      originalSchedule.recurring.endDate &&
-      nextScheduledTime > originalSchedule.recurring.endDate
-    ) {
-      this.scheduledCampaigns.delete(originalSchedule.id);
+    if (endDate && nextScheduledTime > endDate) {
       logger.info("🔄 Recurring campaign series completed", {
-        scheduleId: originalSchedule.id,
+        scheduleId: job.id,
       });
       return;
     }
 
-    // Schedule next occurrence
-    await this.scheduleCampaign(campaignContext, nextScheduledTime, {
-      priority: originalSchedule.priority,
-      recurring: originalSchedule.recurring,
+    // Keyed on this job so a retried run cannot schedule it twice
+    await this.scheduleCampaign(payload.context, nextScheduledTime, {
+      priority: payload.priority,
+      recurring: {
+        interval: payload.recurring.interval,
+        ...(endDate && { endDate }),
+      },
+      idempotencyKey: `${job.id}:next`,
+      workspaceId: job.workspaceId,
     });
-
-    // Remove current schedule
-    this.scheduledCampaigns.delete(originalSchedule.id);
   }
 
   /**
@@ -527,7 +528,7 @@ export class CampaignRunner {
   /**
    * Get current status of all campaigns
    */
-  getCampaignStatus(): {
+  async getCampaignStatus(workspaceId = this.config.workspaceId): Promise<{
     running: CampaignExecution[];
     scheduled: CampaignSchedule[];
     statistics: {
@@ -536,9 +537,10 @@ export class CampaignRunner {
       capacity: number;
       utilizationRate: number;
     };
-  } {
+  }> {
     const running = Array.from(this.runningCampaigns.values());
-    const scheduled = Array.from(this.scheduledCampaigns.values());
+    const jobs = await this.jobQueue.listJobs("PENDING", { workspaceId });
+    const scheduled = jobs.map((job) => this.toSchedule(job));
 
     return {
       running,
@@ -555,28 +557,48 @@ export class CampaignRunner {
   /**
    * Cancel a scheduled campaign
    */
-  async cancelScheduledCampaign(scheduleId: string): Promise<boolean> {
-    const schedule = this.scheduledCampaigns.get(scheduleId);
-    if (!schedule) {
+  async cancelScheduledCampaign(
+    scheduleId: string,
+    workspaceId = this.config.workspaceId,
+  ): Promise<boolean> {
+    const cancelled = await this.jobQueue.cancel(scheduleId, workspaceId);
+    if (!cancelled) {
       return false;
     }
 
-    schedule.status = "cancelled";
-    this.scheduledCampaigns.delete(scheduleId);
-
     logger.info("❌ Campaign cancelled", { scheduleId });
     return true;
   }
 
   /**
-   * Stop monitoring and cleanup
+   * Stop monitoring running campaigns
    */
-  shutdown(): void {
+  async stop(): Promise<void> {
     if (this.monitoringTimer) {
       clearInterval(this.monitoringTimer);
       this.monitoringTimer = undefined;
     }
 
-    logger.info("🛑 Campaign runner shutdown");
+    logger.info("🛑 Campaign monitoring stopped");
+  }
+
+  private toSchedule(job: AgentJob): CampaignSchedule {
+    const payload = job.payload as unknown as ScheduledCampaignPayload;
+
+    return {
+      id: job.id,
+      campaignId: payload.campaignId,
+      scheduledTime: job.runAt,
+      status: SCHEDULE_STATUS[job.status],
+      priority: payload.priority,
+      ...(payload.recurring && {
+        recurring: {
+          interval: payload.recurring.interval,
+          ...(payload.recurring.endDate && {
+            endDate: new Date(payload.recurring.endDate),
+          }),
+        },
+      }),
+    };
   }
 }
@@ -2,6 +2,7 @@ import {
   PredictiveCampaignGenerator,
   PredictiveCampaignPlan,
 } from "./predictive-campaign-generator";
+import { db, type PrismaClient } from "@neon/data-model";
 import { AgentMemoryStore } from "../memory/AgentMemoryStore";
 import CrossCampaignMemoryStore from "../memory/CrossCampaignMemoryStore";
 
@@ -14,6 +15,8 @@ export interface ForecastConfiguration {
   benchmarkComparison: boolean;
   riskAssessment: boolean;
   chartGeneration: boolean;
+  // Limits historical data to one workspace's campaigns
+  workspaceId?: string;
 }
 
 export interface TimeSeriesData {
@@ -163,7 +166,20 @@ export enum Priority {
   URGENT = "urgent",
 }
 
+// Sums of CampaignMetric columns for one month
+type MonthlyMetrics = Record<
+  | "impressions"
+  | "reach"
+  | "clicks"
+  | "engagements"
+  | "conversions"
+  | "spend"
+  | "revenue",
+  number
+>;
+
 export class ForecastInsightEngine {
+  private prisma: PrismaClient;
   private predictiveCampaignGenerator: PredictiveCampaignGenerator;
   private agentMemory: AgentMemoryStore;
   private crossCampaignMemory: CrossCampaignMemoryStore;
@@ -171,7 +187,8 @@ export class ForecastInsightEngine {
   private readonly SEASONAL_DETECTION_THRESHOLD = 0.3;
   private readonly TREND_DETECTION_THRESHOLD = 0.2;
 
-  constructor() {
+  constructor(prisma?: PrismaClient) {
+    this.prisma = prisma || db;
     this.predictiveCampaignGenerator = new PredictiveCampaignGenerator();
     this.agentMemory = new AgentMemoryStore();
     this.crossCampaignMemory = new CrossCampaignMemoryStore();
@@ -240,7 +257,10 @@ export class ForecastInsightEngine {
     config: ForecastConfiguration,
   ): Promise<ForecastResult> {
     // Step 1: Gather historical data
-    const historicalData = await this.gatherHistoricalData(metricType);
+    const historicalData = await this.gatherHistoricalData(
+      metricType,
+      config.workspaceId,
+    );
 
     // Step 2: Analyze data quality
     const dataQuality = this.assessDataQuality(historicalData);
@@ -317,10 +337,98 @@ export class ForecastInsightEngine {
     return result;
   }
 
+  /**
+   * Monthly values of the last 12 months from the ingested campaign
+   * metrics. Metrics that are not tracked per campaign, and workspaces
+   * without metrics yet, fall back to estimates.
+   */
   private async gatherHistoricalData(
     metricType: MetricType,
+    workspaceId?: string,
   ): Promise<TimeSeriesData[]> {
-    // Mock historical data generation - in real implementation, this would query actual data
+    const valueOf = this.getMetricValue(metricType);
+    if (!valueOf) return this.estimatedHistoricalData(metricType);
+
+    const now = new Date();
+    const since = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 12, 1),
+    );
+    const rows = await this.prisma.campaignMetric.findMany({
+      where: {
+        timestamp: { gte: since },
+        ...(workspaceId ? { campaign: { workspaceId } } : {}),
+      },
+      select: {
+        timestamp: true,
+        impressions: true,
+        reach: true,
+        clicks: true,
+        engagements: true,
+        conversions: true,
+        spend: true,
+        revenue: true,
+      },
+    });
+
+    const months = new Map<string, MonthlyMetrics>();
+    for (const row of rows) {
+      const month = row.timestamp.toISOString().slice(0, 7);
+      const sums = months.get(month) ?? {
+        impressions: 0,
+        reach: 0,
+        clicks: 0,
+        engagements: 0,
+        conversions: 0,
+        spend: 0,
+        revenue: 0,
+      };
+      for (const field of Object.keys(sums) as (keyof MonthlyMetrics)[]) {
+        sums[field] += row[field];
+      }
+      months.set(month, sums);
+    }
+    if (months.size === 0) return this.estimatedHistoricalData(metricType);
+
+    return [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, sums]) => ({
+        timestamp: `${month}-01`,
+        value: valueOf(sums),
+        source: "campaign_metrics",
+        metadata: { ...sums },
+      }));
+  }
+
+  private getMetricValue(
+    metricType: MetricType,
+  ): ((sums: MonthlyMetrics) => number) | undefined {
+    const ratio = (count: number, base: number) =>
+      base > 0 ? count / base : 0;
+    switch (metricType) {
+      case MetricType.IMPRESSIONS:
+        return (sums) => sums.impressions;
+      case MetricType.REACH:
+        return (sums) => sums.reach;
+      case MetricType.CLICK_THROUGH_RATE:
+        return (sums) => ratio(sums.clicks, sums.impressions);
+      case MetricType.CONVERSION_RATE:
+        return (sums) => ratio(sums.conversions, sums.impressions);
+      case MetricType.ENGAGEMENT_RATE:
+        return (sums) => ratio(sums.engagements, sums.impressions);
+      case MetricType.LEADS:
+        return (sums) => sums.conversions;
+      case MetricType.REVENUE:
+        return (sums) => sums.revenue;
+      case MetricType.ROAS:
+        return (sums) => ratio(sums.revenue, sums.spend);
+      case MetricType.COST_PER_ACQUISITION:
+        return (sums) => ratio(sums.spend, sums.conversions);
+      default:
+        return undefined;
+    }
+  }
+
+  private estimatedHistoricalData(metricType: MetricType): TimeSeriesData[] {
     const mockData: TimeSeriesData[] = [];
     const baseValue = this.getBaseValue(metricType);
     const now = new Date();
@@ -341,7 +449,7 @@ export class ForecastInsightEngine {
       mockData.push({
         timestamp: date.toISOString().split("T")[0],
         value: Math.max(0, value),
-        source: "historical_data",
+        source: "estimate",
         metadata: {
           month: date.getMonth(),
           trend: trendFactor,
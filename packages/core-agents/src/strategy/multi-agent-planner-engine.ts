@@ -12,9 +12,23 @@ import {
 } from "../agents/goal-planner-agent";
 import { SharedIntentModel } from "../shared/shared-intent-model";
 import { EventEmitter } from "events";
+import { JobQueue, type JobHandler, type JobPriority } from "../queue";
 
 const prisma = new PrismaClient();
 
+// Goals to plan and the monitoring of running plans are jobs on the
+// default queue
+export const PLANNER_JOB_TYPE = "goal-planner";
+const PLAN_GOAL_TASK = "plan_goal";
+const MONITOR_TASK = "monitor_plans";
+const MONITOR_INTERVAL = 60 * 1000;
+
+const REQUEST_PRIORITY: Record<"HIGH" | "NORMAL" | "LOW", JobPriority> = {
+  HIGH: "high",
+  NORMAL: "medium",
+  LOW: "low",
+};
+
 export interface PlanningRequest {
   id?: string;
   goalRequest: GoalPlanRequest;
@@ -49,20 +63,19 @@ export class MultiAgentPlannerEngine extends EventEmitter {
   private static instance: MultiAgentPlannerEngine;
   private goalPlannerAgent: GoalPlannerAgent;
   private sharedIntent: SharedIntentModel;
-  private requestQueue: PlanningRequest[] = [];
+  private jobQueue: JobQueue;
   private executionMonitors: Map<string, ExecutionMonitor> = new Map();
-  private isProcessing: boolean = false;
-  private processingInterval: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(jobQueue?: JobQueue) {
     super();
     this.goalPlannerAgent = new GoalPlannerAgent();
     this.sharedIntent = SharedIntentModel.getInstance();
+    this.jobQueue = jobQueue || new JobQueue();
   }
 
-  static getInstance(): MultiAgentPlannerEngine {
+  static getInstance(jobQueue?: JobQueue): MultiAgentPlannerEngine {
     if (!MultiAgentPlannerEngine.instance) {
-      MultiAgentPlannerEngine.instance = new MultiAgentPlannerEngine();
+      MultiAgentPlannerEngine.instance = new MultiAgentPlannerEngine(jobQueue);
     }
     return MultiAgentPlannerEngine.instance;
   }
@@ -76,21 +89,16 @@ export class MultiAgentPlannerEngine extends EventEmitter {
         "🚀 [MultiAgentPlannerEngine] Starting real-time planning engine...",
       );
 
-      this.isProcessing = true;
-
-      // Start the main processing loop
-      this.processingInterval = setInterval(async () => {
-        await this.processQueue();
-        await this.monitorExecutions();
-        await this.optimizeResources();
-      }, 5000); // Process every 5 seconds
-
       // Set up event listeners
       this.setupEventListeners();
 
       // Initialize monitoring for existing active plans
       await this.initializeExistingPlans();
 
+      // Each monitoring run schedules the next, so they keep running after
+      // a restart
+      await this.scheduleMonitoring(new Date());
+
       console.log(
         "✅ [MultiAgentPlannerEngine] Planning engine started successfully",
       );
@@ -107,11 +115,13 @@ export class MultiAgentPlannerEngine extends EventEmitter {
   async stop(): Promise<void> {
     console.log("🛑 [MultiAgentPlannerEngine] Stopping planning engine...");
 
-    this.isProcessing = false;
-
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
-      this.processingInterval = null;
+    const pending = await this.jobQueue.listJobs("PENDING", {
+      agentType: PLANNER_JOB_TYPE,
+    });
+    for (const job of pending) {
+      if (job.task === MONITOR_TASK) {
+        await this.jobQueue.cancel(job.id);
+      }
     }
 
     this.emit("engine:stopped");
@@ -141,15 +151,18 @@ export class MultiAgentPlannerEngine extends EventEmitter {
         parentGoalId: options.parentGoalId,
       };
 
-      // Add to queue with priority handling
-      if (options.priority === "HIGH") {
-        this.requestQueue.unshift(request);
-      } else {
-        this.requestQueue.push(request);
-      }
+      // Planned by a job worker, so the request survives restarts
+      await this.jobQueue.enqueue({
+        agentType: PLANNER_JOB_TYPE,
+        task: PLAN_GOAL_TASK,
+        payload: request as unknown as Record<string, unknown>,
+        priority: REQUEST_PRIORITY[options.priority || "NORMAL"],
+        idempotencyKey: request.id,
+        retry: { maxAttempts: 10, initialDelay: 5000 },
+      });
 
       console.log(
-        `📥 [MultiAgentPlannerEngine] Goal submitted: "${goalRequest.title}" (Queue: ${this.requestQueue.length})`,
+        `📥 [MultiAgentPlannerEngine] Goal submitted: "${goalRequest.title}"`,
       );
 
       this.emit("goal:submitted", {
@@ -168,6 +181,7 @@ export class MultiAgentPlannerEngine extends EventEmitter {
    * Get the current state of the planning engine
    */
   async getEngineState(): Promise<PlannerEngineState> {
+    const queuedRequests = await this.countQueuedRequests().catch(() => 0);
     try {
       const activePlans = await prisma.goalPlan.count({
         where: { status: { in: [PlanStatus.EXECUTING, PlanStatus.APPROVED] } },
@@ -181,10 +195,7 @@ export class MultiAgentPlannerEngine extends EventEmitter {
       );
 
       // Calculate system load based on active resources
-      const systemLoad = Math.min(
-        1,
-        (activePlans + this.requestQueue.length) / 10,
-      );
+      const systemLoad = Math.min(1, (activePlans + queuedRequests) / 10);
 
       // Get recent consensus timing
       const recentConsensus = await prisma.agentConsensus.findMany({
@@ -225,7 +236,7 @@ export class MultiAgentPlannerEngine extends EventEmitter {
 
       return {
         activePlans,
-        queuedRequests: this.requestQueue.length,
+        queuedRequests,
         agentsInUse,
         systemLoad,
         averageConsensusTime,
@@ -238,7 +249,7 @@ export class MultiAgentPlannerEngine extends EventEmitter {
       );
       return {
         activePlans: 0,
-        queuedRequests: this.requestQueue.length,
+        queuedRequests,
         agentsInUse: [],
         systemLoad: 0,
         averageConsensusTime: 0,
@@ -323,7 +334,7 @@ export class MultiAgentPlannerEngine extends EventEmitter {
           "Review goal complexity and adjust decomposition strategies",
         );
       }
-      if (this.requestQueue.length > 5) {
+      if (state.queuedRequests > 5) {
         recommendations.push(
           "Consider adding more agent capacity for faster processing",
         );
@@ -332,7 +343,7 @@ export class MultiAgentPlannerEngine extends EventEmitter {
       return {
         throughput: {
           goalsPerHour: recentCompleted,
-          averageQueueTime: this.requestQueue.length * 2, // Rough estimate
+          averageQueueTime: state.queuedRequests * 2, // Rough estimate
         },
         performance: {
           successRate: state.successRate,
@@ -355,33 +366,44 @@ export class MultiAgentPlannerEngine extends EventEmitter {
     }
   }
 
-  // Private methods for internal engine operations
-  private async processQueue(): Promise<void> {
-    if (!this.isProcessing || this.requestQueue.length === 0) return;
-
-    try {
-      // Check system capacity
-      const state = await this.getEngineState();
-      if (state.systemLoad > 0.9) {
-        console.log(
-          "⚠️ [MultiAgentPlannerEngine] System at capacity, delaying queue processing",
-        );
-        return;
+  /**
+   * Handler that plans submitted goals and monitors running plans; register
+   * it on a JobWorker of the default queue under PLANNER_JOB_TYPE
+   */
+  createJobHandler(): JobHandler {
+    return async (job) => {
+      if (job.task === PLAN_GOAL_TASK) {
+        return this.planGoal(job.payload as unknown as PlanningRequest);
       }
 
-      // Process next request in queue
-      const request = this.requestQueue.shift();
-      if (!request) return;
-
-      console.log(
-        `⚡ [MultiAgentPlannerEngine] Processing goal: "${request.goalRequest.title}"`,
+      await this.scheduleMonitoring(
+        new Date(job.runAt.getTime() + MONITOR_INTERVAL),
       );
+      await this.initializeExistingPlans();
+      await this.monitorExecutions();
+      await this.optimizeResources();
+      return { monitoredPlans: this.executionMonitors.size };
+    };
+  }
 
-      this.emit("goal:processing", {
-        requestId: request.id,
-        title: request.goalRequest.title,
-      });
+  // Private methods for internal engine operations
+  private async planGoal(request: PlanningRequest): Promise<unknown> {
+    // Check system capacity; the job is retried after a backoff
+    const state = await this.getEngineState();
+    if (state.systemLoad > 0.9) {
+      throw new Error("Planner at capacity, delaying goal planning");
+    }
 
+    console.log(
+      `⚡ [MultiAgentPlannerEngine] Processing goal: "${request.goalRequest.title}"`,
+    );
+
+    this.emit("goal:processing", {
+      requestId: request.id,
+      title: request.goalRequest.title,
+    });
+
+    try {
       // Execute planning through GoalPlannerAgent
       const planningResult = await this.goalPlannerAgent.plan(
         request.goalRequest,
@@ -402,12 +424,33 @@ export class MultiAgentPlannerEngine extends EventEmitter {
       console.log(
         `✅ [MultiAgentPlannerEngine] Goal planned: ${planningResult.status}`,
       );
+      return {
+        goalPlanId: planningResult.goalPlanId,
+        status: planningResult.status,
+      };
     } catch (error) {
-      console.error("[MultiAgentPlannerEngine] Error processing queue:", error);
+      console.error("[MultiAgentPlannerEngine] Error planning goal:", error);
       this.emit("goal:error", { error: error.message });
+      throw error;
     }
   }
 
+  private async scheduleMonitoring(from: Date): Promise<void> {
+    await this.jobQueue.scheduleRecurring(
+      { agentType: PLANNER_JOB_TYPE, task: MONITOR_TASK, priority: "low" },
+      MONITOR_INTERVAL,
+      from,
+    );
+  }
+
+  private async countQueuedRequests(): Promise<number> {
+    const pending = await this.jobQueue.listJobs("PENDING", {
+      agentType: PLANNER_JOB_TYPE,
+      limit: 1000,
+    });
+    return pending.filter((job) => job.task === PLAN_GOAL_TASK).length;
+  }
+
   private async monitorExecutions(): Promise<void> {
     for (const [goalPlanId, monitor] of this.executionMonitors.entries()) {
       try {
@@ -507,6 +550,8 @@ export class MultiAgentPlannerEngine extends EventEmitter {
     });
 
     for (const plan of activePlans) {
+      if (this.executionMonitors.has(plan.id)) continue;
+
       // Create monitoring for existing plans
       const monitor: ExecutionMonitor = {
         goalPlanId: plan.id,
@@ -0,0 +1,85 @@
+import puppeteer from "puppeteer";
+
+/**
+ * Prints an HTML deck to PDF with headless Chrome. Each `.slide` starts a
+ * new page; backgrounds are printed so themes survive. The page runs no
+ * scripts and may only load data: URLs, so deck content cannot reach the
+ * network or local files.
+ */
+
+export interface PdfPageOptions {
+  pageSize: "A4" | "Letter" | "16:9" | "4:3";
+  orientation: "portrait" | "landscape";
+  // Milliseconds to wait for the page to load
+  timeout?: number;
+}
+
+// Slide sizes in inches, landscape
+const SLIDE_SIZES = {
+  "16:9": { width: 13.333, height: 7.5 },
+  "4:3": { width: 10, height: 7.5 },
+};
+
+// Chrome's sandbox needs user namespaces, which some containers lack
+function launchArgs(): string[] {
+  const args = ["--disable-dev-shm-usage"];
+  if (process.env.PUPPETEER_NO_SANDBOX === "true") {
+    args.push("--no-sandbox", "--disable-setuid-sandbox");
+  }
+  return args;
+}
+
+export async function renderPDF(
+  html: string,
+  options: PdfPageOptions,
+): Promise<Buffer> {
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: launchArgs(),
+  });
+
+  try {
+    const page = await browser.newPage();
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on("request", (request) => {
+      if (request.url().startsWith("data:")) {
+        void request.continue();
+      } else {
+        void request.abort();
+      }
+    });
+    await page.setContent(html, {
+      waitUntil: "load",
+      timeout: options.timeout ?? 30000,
+    });
+    await page.emulateMediaType("print");
+
+    const landscape = options.orientation === "landscape";
+    const pdf =
+      options.pageSize === "A4" || options.pageSize === "Letter"
+        ? await page.pdf({
+            format: options.pageSize,
+            landscape,
+            printBackground: true,
+          })
+        : await page.pdf({
+            ...slideDimensions(options.pageSize, landscape),
+            printBackground: true,
+          });
+
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
+
+function slideDimensions(
+  pageSize: keyof typeof SLIDE_SIZES,
+  landscape: boolean,
+): { width: string; height: string } {
+  const { width, height } = SLIDE_SIZES[pageSize];
+  return landscape
+    ? { width: `${width}in`, height: `${height}in` }
+    : { width: `${height}in`, height: `${width}in` };
+}
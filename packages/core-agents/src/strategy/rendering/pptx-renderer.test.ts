@@ -0,0 +1,135 @@
+import { describe, it, expect } from "@jest/globals";
+import { inflateRawSync } from "zlib";
+import { readDeckImage, renderPPTX, type Deck } from "./pptx-renderer";
+
+// Reads the local file entries of a ZIP archive
+const unzip = (archive: Buffer): Map<string, string> => {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const method = archive.readUInt16LE(offset + 8);
+    const size = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString(
+      "utf8",
+      offset + 30,
+      offset + 30 + nameLength,
+    );
+    const start = offset + 30 + nameLength;
+    const body = archive.subarray(start, start + size);
+    files.set(
+      name,
+      (method === 8 ? inflateRawSync(body) : body).toString("utf8"),
+    );
+    offset = start + size;
+  }
+  return files;
+};
+
+// 2x1 pixel PNG header; the renderer only reads the IHDR size
+const png = Buffer.concat([
+  Buffer.from("89504e470d0a1a0a0000000d49484452", "hex"),
+  Buffer.from("0000000200000001", "hex"),
+  Buffer.alloc(16),
+]);
+
+const deck = (overrides: Partial<Deck> = {}): Deck => ({
+  title: "Q3 Review",
+  author: "Acme & Co",
+  width: 12192000,
+  height: 6858000,
+  theme: {
+    background: "#1a1a2e",
+    surface: "16213e",
+    text: "#fff",
+    accent: "#6366f1",
+    secondary: "8b5cf6",
+    muted: "a0aec0",
+    fontFamily: "Georgia",
+  },
+  slides: [
+    {
+      layout: "cover",
+      title: "Q3 Review",
+      subtitle: "Board meeting",
+      body: [{ text: "Presented by: Acme & Co", style: "plain" }],
+    },
+    {
+      title: "Revenue <growth>",
+      body: [{ text: "Strong quarter" }, { text: "Outlook", style: "heading" }],
+      metrics: [
+        { label: "ROAS", value: "3.2x", change: 12.5, status: "positive" },
+      ],
+      table: { header: ["Metric", "Value"], rows: [["CTR", "2.1%"]] },
+      callout: "Key Takeaway: keep investing",
+    },
+  ],
+  ...overrides,
+});
+
+describe("renderPPTX", () => {
+  it("should write a PowerPoint package with one part per slide", () => {
+    const files = unzip(renderPPTX(deck()));
+
+    expect([...files.keys()]).toEqual(
+      expect.arrayContaining([
+        "[Content_Types].xml",
+        "_rels/.rels",
+        "ppt/presentation.xml",
+        "ppt/slideMasters/slideMaster1.xml",
+        "ppt/slideLayouts/slideLayout1.xml",
+        "ppt/theme/theme1.xml",
+        "ppt/slides/slide1.xml",
+        "ppt/slides/slide2.xml",
+      ]),
+    );
+    expect(files.get("ppt/presentation.xml")).toContain(
+      '<p:sldSz cx="12192000" cy="6858000"/>',
+    );
+    expect(files.get("[Content_Types].xml")).toContain(
+      'PartName="/ppt/slides/slide2.xml"',
+    );
+  });
+
+  it("should apply theme colours and fonts and escape text", () => {
+    const files = unzip(renderPPTX(deck()));
+    const slide = files.get("ppt/slides/slide2.xml")!;
+
+    expect(slide).toContain('<a:srgbClr val="1A1A2E"/>');
+    expect(slide).toContain("Revenue &lt;growth&gt;");
+    expect(slide).toContain("3.2x");
+    expect(slide).toContain("+12.5%");
+    expect(slide).toContain("<a:tbl>");
+    expect(files.get("ppt/theme/theme1.xml")).toContain(
+      '<a:latin typeface="Georgia"/>',
+    );
+    expect(files.get("docProps/core.xml")).toContain("Acme &amp; Co");
+  });
+
+  it("should embed the logo on every slide", () => {
+    const files = unzip(renderPPTX(deck({ logo: readDeckImage(png)! })));
+
+    expect(files.has("ppt/media/logo.png")).toBe(true);
+    expect(files.get("ppt/slides/_rels/slide2.xml.rels")).toContain(
+      'Target="../media/logo.png"',
+    );
+    expect(files.get("ppt/slides/slide1.xml")).toContain('r:embed="rId2"');
+  });
+
+  it("should reject colours it cannot write", () => {
+    expect(() =>
+      renderPPTX(deck({ theme: { ...deck().theme, accent: "rebeccapurple" } })),
+    ).toThrow("Unsupported colour");
+  });
+});
+
+describe("readDeckImage", () => {
+  it("should read PNG sizes and ignore other formats", () => {
+    expect(readDeckImage(png)).toMatchObject({
+      format: "png",
+      width: 2,
+      height: 1,
+    });
+    expect(readDeckImage(Buffer.from("<svg></svg>"))).toBeNull();
+  });
+});
@@ -0,0 +1,616 @@
+import { createZipArchive, type ZipEntry } from "./zip-archive";
+
+/**
+ * Renders a deck to a PowerPoint (Office Open XML) file. Slides are laid
+ * out with absolute positions so the output looks the same in PowerPoint,
+ * Keynote and Google Slides.
+ */
+
+export interface DeckTheme {
+  // Hex colours, with or without a leading #
+  background: string;
+  surface: string;
+  text: string;
+  accent: string;
+  secondary: string;
+  muted: string;
+  fontFamily: string;
+}
+
+export interface DeckMetric {
+  label: string;
+  value: string;
+  change?: number; // Percentage change
+  status?: "positive" | "negative" | "neutral";
+}
+
+export interface DeckTable {
+  header: string[];
+  rows: string[][];
+}
+
+export interface DeckText {
+  text: string;
+  style?: "bullet" | "heading" | "plain";
+}
+
+export interface DeckSlide {
+  layout?: "cover" | "content";
+  title: string;
+  subtitle?: string;
+  body: DeckText[];
+  metrics?: DeckMetric[];
+  table?: DeckTable;
+  // Highlighted box at the bottom, e.g. the key takeaway
+  callout?: string;
+}
+
+export interface DeckImage {
+  data: Buffer;
+  format: "png" | "jpeg";
+  width: number;
+  height: number;
+}
+
+export interface Deck {
+  title: string;
+  author: string;
+  // Slide size in EMU (914400 per inch)
+  width: number;
+  height: number;
+  theme: DeckTheme;
+  logo?: DeckImage;
+  slides: DeckSlide[];
+}
+
+const POSITIVE_COLOR = "00B374";
+const NEGATIVE_COLOR = "FF4757";
+
+const NS_A = "http://schemas.openxmlformats.org/drawingml/2006/main";
+const NS_P = "http://schemas.openxmlformats.org/presentationml/2006/main";
+const NS_R =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+export function renderPPTX(deck: Deck): Buffer {
+  const theme = normalizeTheme(deck.theme);
+  const entries: ZipEntry[] = [
+    { path: "[Content_Types].xml", data: contentTypes(deck) },
+    { path: "_rels/.rels", data: rootRelationships() },
+    { path: "docProps/core.xml", data: coreProperties(deck) },
+    { path: "docProps/app.xml", data: appProperties(deck) },
+    { path: "ppt/presentation.xml", data: presentation(deck) },
+    {
+      path: "ppt/_rels/presentation.xml.rels",
+      data: presentationRelationships(deck),
+    },
+    { path: "ppt/theme/theme1.xml", data: themeXml(theme) },
+    { path: "ppt/slideMasters/slideMaster1.xml", data: slideMaster(theme) },
+    {
+      path: "ppt/slideMasters/_rels/slideMaster1.xml.rels",
+      data: relationships([
+        ["rId1", "slideLayout", "../slideLayouts/slideLayout1.xml"],
+        ["rId2", "theme", "../theme/theme1.xml"],
+      ]),
+    },
+    { path: "ppt/slideLayouts/slideLayout1.xml", data: slideLayout() },
+    {
+      path: "ppt/slideLayouts/_rels/slideLayout1.xml.rels",
+      data: relationships([
+        ["rId1", "slideMaster", "../slideMasters/slideMaster1.xml"],
+      ]),
+    },
+  ];
+
+  if (deck.logo) {
+    entries.push({
+      path: `ppt/media/logo.${extension(deck.logo)}`,
+      data: deck.logo.data,
+    });
+  }
+
+  deck.slides.forEach((slide, index) => {
+    const number = index + 1;
+    const slideRelationships: Array<[string, string, string]> = [
+      ["rId1", "slideLayout", "../slideLayouts/slideLayout1.xml"],
+    ];
+    if (deck.logo) {
+      slideRelationships.push([
+        "rId2",
+        "image",
+        `../media/logo.${extension(deck.logo)}`,
+      ]);
+    }
+
+    entries.push(
+      {
+        path: `ppt/slides/slide${number}.xml`,
+        data: slideXml(deck, theme, slide, number),
+      },
+      {
+        path: `ppt/slides/_rels/slide${number}.xml.rels`,
+        data: relationships(slideRelationships),
+      },
+    );
+  });
+
+  return createZipArchive(entries);
+}
+
+/**
+ * Read the format and pixel size of a PNG or JPEG; null for anything else
+ */
+export function readDeckImage(data: Buffer): DeckImage | null {
+  if (data.length > 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return {
+      data,
+      format: "png",
+      width: data.readUInt32BE(16),
+      height: data.readUInt32BE(20),
+    };
+  }
+
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    // Walk the segments up to the first start-of-frame marker
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1]!;
+      const length = data.readUInt16BE(offset + 2);
+      const isStartOfFrame =
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc;
+      if (isStartOfFrame) {
+        return {
+          data,
+          format: "jpeg",
+          height: data.readUInt16BE(offset + 5),
+          width: data.readUInt16BE(offset + 7),
+        };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+function slideXml(
+  deck: Deck,
+  theme: DeckTheme,
+  slide: DeckSlide,
+  number: number,
+): string {
+  const shapes = new ShapeWriter(theme);
+  const { width: w, height: h } = deck;
+  const margin = Math.round(w * 0.06);
+  const contentWidth = w - margin * 2;
+
+  if (slide.layout === "cover") {
+    shapes.rect(0, 0, Math.round(w * 0.015), h, theme.accent);
+    shapes.text(
+      margin,
+      Math.round(h * 0.3),
+      contentWidth,
+      Math.round(h * 0.18),
+      [paragraph(slide.title, { size: 40, bold: true, color: theme.text })],
+    );
+    if (slide.subtitle) {
+      shapes.text(
+        margin,
+        Math.round(h * 0.48),
+        contentWidth,
+        Math.round(h * 0.1),
+        [paragraph(slide.subtitle, { size: 24, color: theme.secondary })],
+      );
+    }
+    shapes.text(
+      margin,
+      Math.round(h * 0.62),
+      contentWidth,
+      Math.round(h * 0.3),
+      slide.body.map((line) =>
+        paragraph(line.text, { size: 16, color: theme.muted }),
+      ),
+    );
+    if (deck.logo) {
+      shapes.picture(
+        deck.logo,
+        margin,
+        Math.round(h * 0.1),
+        w * 0.25,
+        h * 0.14,
+        "left",
+      );
+    }
+    return slideDocument(theme, shapes.xml);
+  }
+
+  // Title underlined in the accent colour, as in the HTML deck; the logo
+  // sits to its right
+  const titleWidth = contentWidth - (deck.logo ? Math.round(w * 0.14) : 0);
+  shapes.text(margin, Math.round(h * 0.06), titleWidth, Math.round(h * 0.11), [
+    paragraph(slide.title, { size: 30, bold: true, color: theme.text }),
+  ]);
+  shapes.rect(margin, Math.round(h * 0.17), contentWidth, 38100, theme.accent);
+
+  let top = Math.round(h * 0.19);
+  if (slide.subtitle) {
+    shapes.text(margin, top, contentWidth, Math.round(h * 0.07), [
+      paragraph(slide.subtitle, { size: 20, color: theme.secondary }),
+    ]);
+    top += Math.round(h * 0.08);
+  } else {
+    top += Math.round(h * 0.02);
+  }
+
+  const bottom = Math.round(h * (slide.callout ? 0.8 : 0.9));
+
+  if (slide.metrics?.length) {
+    const perRow = Math.min(slide.metrics.length, 4);
+    const gap = Math.round(w * 0.015);
+    const cardWidth = Math.round((contentWidth - gap * (perRow - 1)) / perRow);
+    const cardHeight = Math.round(h * 0.17);
+
+    slide.metrics.forEach((metric, index) => {
+      const x = margin + (index % perRow) * (cardWidth + gap);
+      const y = top + Math.floor(index / perRow) * (cardHeight + gap);
+      const change =
+        metric.change !== undefined
+          ? [
+              paragraph(
+                `${metric.change >= 0 ? "+" : ""}${metric.change.toFixed(1)}%`,
+                {
+                  size: 12,
+                  color:
+                    metric.status === "negative"
+                      ? NEGATIVE_COLOR
+                      : metric.status === "positive"
+                        ? POSITIVE_COLOR
+                        : theme.muted,
+                  align: "ctr",
+                },
+              ),
+            ]
+          : [];
+      shapes.text(
+        x,
+        y,
+        cardWidth,
+        cardHeight,
+        [
+          paragraph(metric.value, {
+            size: 26,
+            bold: true,
+            color: theme.accent,
+            align: "ctr",
+          }),
+          paragraph(metric.label, {
+            size: 12,
+            color: theme.muted,
+            align: "ctr",
+          }),
+          ...change,
+        ],
+        { fill: theme.surface, anchor: "ctr" },
+      );
+    });
+
+    const rows = Math.ceil(slide.metrics.length / perRow);
+    top += rows * (cardHeight + gap);
+  }
+
+  if (slide.table && slide.table.header.length > 0) {
+    const rowHeight = Math.round(h * 0.055);
+    const rows = slide.table.rows.slice(
+      0,
+      Math.max(Math.floor((bottom - top) / rowHeight) - 1, 1),
+    );
+    shapes.table(
+      margin,
+      top,
+      contentWidth,
+      rowHeight,
+      slide.table.header,
+      rows,
+    );
+    top += rowHeight * (rows.length + 1) + Math.round(h * 0.02);
+  }
+
+  if (slide.body.length > 0 && top < bottom) {
+    shapes.text(
+      margin,
+      top,
+      contentWidth,
+      bottom - top,
+      slide.body.map((line) =>
+        line.style === "heading"
+          ? paragraph(line.text, {
+              size: 18,
+              bold: true,
+              color: theme.secondary,
+            })
+          : paragraph(line.text, {
+              size: 16,
+              color: theme.text,
+              bullet: line.style !== "plain",
+            }),
+      ),
+    );
+  }
+
+  if (slide.callout) {
+    const y = Math.round(h * 0.82);
+    const boxHeight = Math.round(h * 0.12);
+    shapes.rect(margin, y, Math.round(w * 0.006), boxHeight, theme.accent);
+    shapes.text(
+      margin + Math.round(w * 0.006),
+      y,
+      contentWidth - Math.round(w * 0.006),
+      boxHeight,
+      [paragraph(slide.callout, { size: 14, italic: true, color: theme.text })],
+      { fill: theme.surface, anchor: "ctr" },
+    );
+  }
+
+  shapes.text(
+    w - margin - 914400,
+    Math.round(h * 0.94),
+    914400,
+    Math.round(h * 0.05),
+    [paragraph(String(number), { size: 10, color: theme.muted, align: "r" })],
+  );
+
+  if (deck.logo) {
+    shapes.picture(
+      deck.logo,
+      w - margin - w * 0.12,
+      Math.round(h * 0.06),
+      w * 0.12,
+      h * 0.08,
+      "right",
+    );
+  }
+
+  return slideDocument(theme, shapes.xml);
+}
+
+interface RunStyle {
+  size: number;
+  color: string;
+  bold?: boolean;
+  italic?: boolean;
+  align?: "l" | "ctr" | "r";
+  bullet?: boolean;
+}
+
+function paragraph(text: string, style: RunStyle): string {
+  const pPr = style.bullet
+    ? `<a:pPr marL="285750" indent="-285750"${style.align ? ` algn="${style.align}"` : ""}><a:spcBef><a:spcPts val="600"/></a:spcBef><a:buFont typeface="Arial"/><a:buChar char="&#8226;"/></a:pPr>`
+    : style.align
+      ? `<a:pPr algn="${style.align}"/>`
+      : "";
+  const attributes = [
+    'lang="en-US"',
+    `sz="${style.size * 100}"`,
+    style.bold ? 'b="1"' : "",
+    style.italic ? 'i="1"' : "",
+    'dirty="0"',
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return `<a:p>${pPr}<a:r><a:rPr ${attributes}><a:solidFill><a:srgbClr val="${style.color}"/></a:solidFill></a:rPr><a:t>${escapeXml(text)}</a:t></a:r></a:p>`;
+}
+
+class ShapeWriter {
+  xml = "";
+  private nextId = 2;
+
+  constructor(private readonly theme: DeckTheme) {}
+
+  text(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    paragraphs: string[],
+    options: { fill?: string; anchor?: "t" | "ctr" } = {},
+  ): void {
+    const id = this.nextId++;
+    const fill = options.fill
+      ? `<a:solidFill><a:srgbClr val="${options.fill}"/></a:solidFill>`
+      : "<a:noFill/>";
+    this.xml += `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Text ${id}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr><p:spPr>${transform(x, y, width, height)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${fill}</p:spPr><p:txBody><a:bodyPr wrap="square" lIns="91440" tIns="45720" rIns="91440" bIns="45720" anchor="${options.anchor ?? "t"}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs.join("") || "<a:p/>"}</p:txBody></p:sp>`;
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: string,
+  ): void {
+    const id = this.nextId++;
+    this.xml += `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Shape ${id}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr>${transform(x, y, width, height)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:solidFill><a:srgbClr val="${color}"/></a:solidFill><a:ln><a:noFill/></a:ln></p:spPr></p:sp>`;
+  }
+
+  table(
+    x: number,
+    y: number,
+    width: number,
+    rowHeight: number,
+    header: string[],
+    rows: string[][],
+  ): void {
+    const id = this.nextId++;
+    const columnWidth = Math.floor(width / header.length);
+    const cell = (text: string, isHeader: boolean) =>
+      `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/>${paragraph(text, {
+        size: 12,
+        bold: isHeader,
+        color: this.theme.text,
+      })}</a:txBody><a:tcPr anchor="ctr"><a:lnB w="12700"><a:solidFill><a:srgbClr val="${this.theme.muted}"/></a:solidFill></a:lnB>${
+        isHeader
+          ? `<a:solidFill><a:srgbClr val="${this.theme.surface}"/></a:solidFill>`
+          : "<a:noFill/>"
+      }</a:tcPr></a:tc>`;
+    const row = (cells: string[], isHeader: boolean) =>
+      `<a:tr h="${rowHeight}">${header
+        .map((_, i) => cell(cells[i] ?? "", isHeader))
+        .join("")}</a:tr>`;
+
+    this.xml += `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Table ${id}"/><p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr><p:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${columnWidth * header.length}" cy="${rowHeight * (rows.length + 1)}"/></p:xfrm><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr firstRow="1"/><a:tblGrid>${header
+      .map(() => `<a:gridCol w="${columnWidth}"/>`)
+      .join("")}</a:tblGrid>${row(header, true)}${rows
+      .map((cells) => row(cells, false))
+      .join("")}</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`;
+  }
+
+  // Fits the image into the box, keeping its aspect ratio
+  picture(
+    image: DeckImage,
+    x: number,
+    y: number,
+    maxWidth: number,
+    maxHeight: number,
+    align: "left" | "right",
+  ): void {
+    const id = this.nextId++;
+    const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+    const width = Math.round(image.width * scale);
+    const height = Math.round(image.height * scale);
+    const left = align === "left" ? x : x + maxWidth - width;
+
+    this.xml += `<p:pic><p:nvPicPr><p:cNvPr id="${id}" name="Logo"/><p:cNvPicPr><a:picLocks noChangeAspect="1"/></p:cNvPicPr><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="rId2"/><a:stretch><a:fillRect/></a:stretch></p:blipFill><p:spPr>${transform(left, Math.round(y), width, height)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr></p:pic>`;
+  }
+}
+
+function transform(x: number, y: number, width: number, height: number) {
+  return `<a:xfrm><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.round(width)}" cy="${Math.round(height)}"/></a:xfrm>`;
+}
+
+function slideDocument(theme: DeckTheme, shapes: string): string {
+  return `${XML_HEADER}<p:sld xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="${theme.background}"/></a:solidFill><a:effectLst/></p:bgPr></p:bg><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>${shapes}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`;
+}
+
+function contentTypes(deck: Deck): string {
+  const slides = deck.slides
+    .map(
+      (_, i) =>
+        `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`,
+    )
+    .join("");
+
+  return `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Default Extension="jpeg" ContentType="image/jpeg"/><Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/><Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml"/><Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml"/><Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/><Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>${slides}</Types>`;
+}
+
+function relationships(items: Array<[string, string, string]>): string {
+  const entries = items
+    .map(
+      ([id, type, target]) =>
+        `<Relationship Id="${id}" Type="${NS_R}/${type}" Target="${target}"/>`,
+    )
+    .join("");
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries}</Relationships>`;
+}
+
+function rootRelationships(): string {
+  return `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${NS_R}/officeDocument" Target="ppt/presentation.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/><Relationship Id="rId3" Type="${NS_R}/extended-properties" Target="docProps/app.xml"/></Relationships>`;
+}
+
+function coreProperties(deck: Deck): string {
+  return `${XML_HEADER}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(deck.title)}</dc:title><dc:creator>${escapeXml(deck.author)}</dc:creator></cp:coreProperties>`;
+}
+
+function appProperties(deck: Deck): string {
+  return `${XML_HEADER}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties"><Application>NeonHub</Application><Slides>${deck.slides.length}</Slides><Company>${escapeXml(deck.author)}</Company></Properties>`;
+}
+
+function presentation(deck: Deck): string {
+  const slideIds = deck.slides
+    .map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`)
+    .join("");
+
+  return `${XML_HEADER}<p:presentation xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" saveSubsetFonts="1"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:sldIdLst>${slideIds}</p:sldIdLst><p:sldSz cx="${deck.width}" cy="${deck.height}"/><p:notesSz cx="6858000" cy="9144000"/></p:presentation>`;
+}
+
+function presentationRelationships(deck: Deck): string {
+  return relationships([
+    ["rId1", "slideMaster", "slideMasters/slideMaster1.xml"],
+    ["rId2", "theme", "theme/theme1.xml"],
+    ...deck.slides.map(
+      (_, i) =>
+        [`rId${i + 3}`, "slide", `slides/slide${i + 1}.xml`] as [
+          string,
+          string,
+          string,
+        ],
+    ),
+  ]);
+}
+
+function slideMaster(theme: DeckTheme): string {
+  return `${XML_HEADER}<p:sldMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}"><p:cSld><p:bg><p:bgPr><a:solidFill><a:srgbClr val="${theme.background}"/></a:solidFill><a:effectLst/></p:bgPr></p:bg><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/></p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/><p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst><p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles></p:sldMaster>`;
+}
+
+function slideLayout(): string {
+  return `${XML_HEADER}<p:sldLayout xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" type="blank" preserve="1"><p:cSld name="Blank"><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/></p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>`;
+}
+
+function themeXml(theme: DeckTheme): string {
+  const color = (name: string, value: string) =>
+    `<a:${name}><a:srgbClr val="${value}"/></a:${name}>`;
+  const font = escapeXml(theme.fontFamily);
+  const fill = `<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>`;
+  const line = `<a:ln w="9525"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>`;
+
+  return `${XML_HEADER}<a:theme xmlns:a="${NS_A}" name="NeonHub"><a:themeElements><a:clrScheme name="NeonHub">${color("dk1", "000000")}${color("lt1", "FFFFFF")}${color("dk2", theme.background)}${color("lt2", theme.surface)}${color("accent1", theme.accent)}${color("accent2", theme.secondary)}${color("accent3", POSITIVE_COLOR)}${color("accent4", NEGATIVE_COLOR)}${color("accent5", theme.muted)}${color("accent6", theme.text)}${color("hlink", theme.accent)}${color("folHlink", theme.secondary)}</a:clrScheme><a:fontScheme name="NeonHub"><a:majorFont><a:latin typeface="${font}"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont><a:minorFont><a:latin typeface="${font}"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont></a:fontScheme><a:fmtScheme name="NeonHub"><a:fillStyleLst>${fill}${fill}${fill}</a:fillStyleLst><a:lnStyleLst>${line}${line}${line}</a:lnStyleLst><a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle><a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst><a:bgFillStyleLst>${fill}${fill}${fill}</a:bgFillStyleLst></a:fmtScheme></a:themeElements><a:objectDefaults/><a:extraClrSchemeLst/></a:theme>`;
+}
+
+function normalizeTheme(theme: DeckTheme): DeckTheme {
+  const hex = (value: string) => {
+    const digits = value.replace(/^#/, "");
+    const full =
+      digits.length === 3
+        ? digits
+            .split("")
+            .map((d) => d + d)
+            .join("")
+        : digits;
+    if (!/^[0-9a-fA-F]{6}$/.test(full)) {
+      throw new Error(`Unsupported colour "${value}"; use a hex colour`);
+    }
+    return full.toUpperCase();
+  };
+
+  return {
+    background: hex(theme.background),
+    surface: hex(theme.surface),
+    text: hex(theme.text),
+    accent: hex(theme.accent),
+    secondary: hex(theme.secondary),
+    muted: hex(theme.muted),
+    fontFamily: theme.fontFamily,
+  };
+}
+
+function extension(image: DeckImage): string {
+  return image.format === "png" ? "png" : "jpeg";
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      // Control characters are not allowed in XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+  );
+}
@@ -0,0 +1,238 @@
+import { createHash, createHmac } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * Storage for rendered presentation files. Files live on local disk by
+ * default; set PRESENTATION_STORAGE=s3 to keep them in an S3-compatible
+ * object store (AWS S3, Cloudflare R2, MinIO). Keys are
+ * `<workspaceId>/<presentationId>.<format>`.
+ */
+
+export const DEFAULT_PRESENTATION_STORAGE_DIR = ".neon/presentations";
+
+export type PresentationFileFormat = "pdf" | "pptx" | "html";
+
+export const PRESENTATION_CONTENT_TYPES: Record<
+  PresentationFileFormat,
+  string
+> = {
+  pdf: "application/pdf",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  html: "text/html; charset=utf-8",
+};
+
+export interface PresentationFileStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Null when no file is stored under the key
+  get(key: string): Promise<Buffer | null>;
+}
+
+const SAFE_ID = /^[A-Za-z0-9_-]+$/;
+
+export function presentationFileKey(
+  workspaceId: string,
+  presentationId: string,
+  format: PresentationFileFormat,
+): string {
+  if (!SAFE_ID.test(workspaceId) || !SAFE_ID.test(presentationId)) {
+    throw new Error("Invalid workspace or presentation id");
+  }
+  return `${workspaceId}/${presentationId}.${format}`;
+}
+
+const SAFE_FILE_NAME = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*$/;
+
+/**
+ * Key of a branding logo uploaded to a workspace's storage, from the
+ * `logos/<file>` path decks refer to it by. Null for any other path.
+ */
+export function presentationLogoKey(
+  workspaceId: string,
+  logoPath: string,
+): string | null {
+  const match = /^logos\/(.+)$/.exec(logoPath);
+  if (!match || !SAFE_ID.test(workspaceId) || !SAFE_FILE_NAME.test(match[1]!)) {
+    return null;
+  }
+  return `${workspaceId}/logos/${match[1]}`;
+}
+
+export class LocalPresentationFileStore implements PresentationFileStore {
+  constructor(
+    private rootDir: string = process.env.PRESENTATION_STORAGE_DIR ||
+      DEFAULT_PRESENTATION_STORAGE_DIR,
+  ) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write then rename so readers never see a partial file
+    const temporary = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.rootDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid presentation file key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export interface S3StoreConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Custom endpoint for S3-compatible stores; uses path-style URLs
+  endpoint?: string;
+}
+
+/**
+ * S3-compatible store using Signature Version 4 requests
+ */
+export class S3PresentationFileStore implements PresentationFileStore {
+  constructor(private config: S3StoreConfig) {}
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request("PUT", key, data, contentType);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to store ${key}: ${response.status} ${await response.text()}`,
+      );
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request("GET", key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(
+        `Failed to read ${key}: ${response.status} ${await response.text()}`,
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private async request(
+    method: "GET" | "PUT",
+    key: string,
+    body?: Buffer,
+    contentType?: string,
+  ): Promise<Response> {
+    const { bucket, region, endpoint } = this.config;
+    const objectPath = key.split("/").map(encodeURIComponent).join("/");
+    const url = endpoint
+      ? new URL(`${endpoint.replace(/\/$/, "")}/${bucket}/${objectPath}`)
+      : new URL(`https://${bucket}.s3.${region}.amazonaws.com/${objectPath}`);
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": sha256(body ?? ""),
+      "x-amz-date": amzDate(new Date()),
+    };
+    if (contentType) headers["content-type"] = contentType;
+    headers.authorization = this.sign(method, url, headers);
+    delete headers.host;
+
+    return fetch(url, {
+      method,
+      headers,
+      ...(body && { body: new Uint8Array(body) }),
+    });
+  }
+
+  private sign(
+    method: string,
+    url: URL,
+    headers: Record<string, string>,
+  ): string {
+    const { region, accessKeyId, secretAccessKey } = this.config;
+    const timestamp = headers["x-amz-date"]!;
+    const date = timestamp.slice(0, 8);
+    const scope = `${date}/${region}/s3/aws4_request`;
+
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...names.map((name) => `${name}:${headers[name]!.trim()}`),
+      "",
+      names.join(";"),
+      headers["x-amz-content-sha256"],
+    ].join("\n");
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      timestamp,
+      scope,
+      sha256(canonicalRequest),
+    ].join("\n");
+
+    const signingKey = [date, region, "s3", "aws4_request"].reduce<
+      Buffer | string
+    >((key, part) => hmac(key, part), `AWS4${secretAccessKey}`);
+    const signature = createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex");
+
+    return `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`;
+  }
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// 20240101T120000Z
+function amzDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+export function createPresentationFileStore(): PresentationFileStore {
+  if (process.env.PRESENTATION_STORAGE !== "s3") {
+    return new LocalPresentationFileStore();
+  }
+
+  const {
+    PRESENTATION_S3_BUCKET: bucket,
+    PRESENTATION_S3_REGION: region = "us-east-1",
+    PRESENTATION_S3_ENDPOINT: endpoint,
+    AWS_ACCESS_KEY_ID: accessKeyId,
+    AWS_SECRET_ACCESS_KEY: secretAccessKey,
+  } = process.env;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error(
+      "PRESENTATION_STORAGE=s3 needs PRESENTATION_S3_BUCKET, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY",
+    );
+  }
+
+  return new S3PresentationFileStore({
+    bucket,
+    region,
+    accessKeyId,
+    secretAccessKey,
+    ...(endpoint && { endpoint }),
+  });
+}
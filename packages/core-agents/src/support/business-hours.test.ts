@@ -0,0 +1,93 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  addBusinessMinutes,
+  businessMinutesBetween,
+  validateBusinessCalendar,
+  type BusinessCalendar,
+} from "./business-hours";
+
+const weekdays: BusinessCalendar = {
+  timeZone: "UTC",
+  hours: {
+    mon: [["09:00", "17:00"]],
+    tue: [["09:00", "17:00"]],
+    wed: [["09:00", "17:00"]],
+    thu: [["09:00", "17:00"]],
+    fri: [["09:00", "17:00"]],
+  },
+  // Monday
+  holidays: ["2026-03-09"],
+};
+
+describe("business hours", () => {
+  it("should skip weekends and holidays", () => {
+    const friday = new Date("2026-03-06T15:00:00Z");
+    const due = addBusinessMinutes(friday, 240, weekdays);
+
+    // Two hours on Friday, two on Tuesday morning
+    expect(due).toEqual(new Date("2026-03-10T11:00:00Z"));
+    expect(businessMinutesBetween(friday, due, weekdays)).toBe(240);
+
+    // Outside business hours the clock starts at the next opening
+    expect(
+      addBusinessMinutes(new Date("2026-03-07T10:00:00Z"), 30, weekdays),
+    ).toEqual(new Date("2026-03-10T09:30:00Z"));
+    expect(
+      businessMinutesBetween(
+        new Date("2026-03-06T18:00:00Z"),
+        new Date("2026-03-09T23:00:00Z"),
+        weekdays,
+      ),
+    ).toBe(0);
+  });
+
+  it("should count in the calendar's time zone across a clock change", () => {
+    const newYork: BusinessCalendar = {
+      ...weekdays,
+      timeZone: "America/New_York",
+      holidays: [],
+    };
+    // 16:00 EST on Friday; clocks go forward on Sunday
+    const due = addBusinessMinutes(
+      new Date("2026-03-06T21:00:00Z"),
+      120,
+      newYork,
+    );
+
+    expect(due).toEqual(new Date("2026-03-09T14:00:00Z"));
+  });
+
+  it("should count around the clock without business hours", () => {
+    const start = new Date("2026-12-24T23:00:00Z");
+    const always: BusinessCalendar = {
+      timeZone: "UTC",
+      hours: null,
+      holidays: [],
+    };
+
+    expect(addBusinessMinutes(start, 120, always)).toEqual(
+      new Date("2026-12-25T01:00:00Z"),
+    );
+    expect(
+      addBusinessMinutes(start, 120, { ...always, holidays: ["2026-12-25"] }),
+    ).toEqual(new Date("2026-12-26T01:00:00Z"));
+  });
+
+  it("should report unusable calendars", () => {
+    expect(validateBusinessCalendar(weekdays)).toEqual([]);
+    expect(
+      validateBusinessCalendar({
+        timeZone: "Mars/Olympus",
+        hours: { mon: [["17:00", "09:00"]], fri: [["9am", "5pm"]], funday: [] },
+        holidays: ["25/12/2026"],
+      }),
+    ).toEqual([
+      'Unknown time zone "Mars/Olympus"',
+      'Holiday "25/12/2026" should be YYYY-MM-DD',
+      "mon: 17:00-09:00 ends before it starts",
+      'fri: ["9am","5pm"] should be ["HH:mm", "HH:mm"]',
+      'Unknown weekday "funday", expected one of sun, mon, tue, wed, thu, fri, sat',
+      "Business hours need at least one open period",
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  isValidTimeZone,
+  toLocalDateTime,
+  zonedTimeToUtc,
+} from "../connectors/time-zones";
+
+/**
+ * Business-time arithmetic for SLA targets: "4 business hours" from a
+ * Friday afternoon ticket lands on Monday morning, skipping the weekend
+ * and holidays, in the support team's own time zone.
+ */
+
+export const WEEKDAYS = [
+  "sun",
+  "mon",
+  "tue",
+  "wed",
+  "thu",
+  "fri",
+  "sat",
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// Opening hours per weekday as [start, end] wall-clock times, "09:00" to
+// "17:30"; "24:00" ends at midnight. Days left out are closed.
+export type BusinessHours = Partial<Record<Weekday, Array<[string, string]>>>;
+
+export interface BusinessCalendar {
+  timeZone: string;
+  // null counts around the clock
+  hours: BusinessHours | null;
+  // YYYY-MM-DD, closed all day
+  holidays: string[];
+}
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const TIME = /^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ALL_DAY: Array<[string, string]> = [["00:00", "24:00"]];
+// Closed days in a row before a calendar counts as never open
+const MAX_DAYS = 3 * 366;
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours! * 60 + minutes!;
+};
+
+/**
+ * Problems with a calendar, such as unknown time zones, malformed times
+ * or no opening hours at all; empty when it is usable
+ */
+export function validateBusinessCalendar(calendar: {
+  timeZone: string;
+  hours: unknown;
+  holidays: string[];
+}): string[] {
+  const issues: string[] = [];
+  if (!isValidTimeZone(calendar.timeZone)) {
+    issues.push(`Unknown time zone "${calendar.timeZone}"`);
+  }
+  for (const holiday of calendar.holidays) {
+    if (!DATE.test(holiday)) {
+      issues.push(`Holiday "${holiday}" should be YYYY-MM-DD`);
+    }
+  }
+  if (calendar.hours === null || calendar.hours === undefined) return issues;
+
+  if (typeof calendar.hours !== "object" || Array.isArray(calendar.hours)) {
+    return [...issues, "Business hours should map weekdays to time ranges"];
+  }
+  let open = 0;
+  for (const [day, ranges] of Object.entries(calendar.hours)) {
+    if (!(WEEKDAYS as readonly string[]).includes(day)) {
+      issues.push(
+        `Unknown weekday "${day}", expected one of ${WEEKDAYS.join(", ")}`,
+      );
+      continue;
+    }
+    if (!Array.isArray(ranges)) {
+      issues.push(`${day}: expected a list of [start, end] times`);
+      continue;
+    }
+    for (const range of ranges) {
+      const [start, end] = Array.isArray(range) ? range : [];
+      if (
+        typeof start !== "string" ||
+        typeof end !== "string" ||
+        !TIME.test(start) ||
+        !TIME.test(end)
+      ) {
+        issues.push(
+          `${day}: ${JSON.stringify(range)} should be ["HH:mm", "HH:mm"]`,
+        );
+      } else if (minutesOf(start) >= minutesOf(end)) {
+        issues.push(`${day}: ${start}-${end} ends before it starts`);
+      } else {
+        open += minutesOf(end) - minutesOf(start);
+      }
+    }
+  }
+  if (open === 0) issues.push("Business hours need at least one open period");
+  return issues;
+}
+
+const localDate = (date: Date, timeZone: string): LocalDate => {
+  const { year, month, day } = toLocalDateTime(date, timeZone);
+  return { year, month, day };
+};
+
+const nextDay = ({ year, month, day }: LocalDate): LocalDate => {
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return {
+    year: next.getUTCFullYear(),
+    month: next.getUTCMonth() + 1,
+    day: next.getUTCDate(),
+  };
+};
+
+const isoDate = ({ year, month, day }: LocalDate) =>
+  `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+// Open periods of a local day as instants, in order
+function openPeriods(
+  date: LocalDate,
+  calendar: BusinessCalendar,
+): Array<[number, number]> {
+  if (calendar.holidays.includes(isoDate(date))) return [];
+  const weekday =
+    WEEKDAYS[
+      new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()
+    ]!;
+  const ranges = calendar.hours ? (calendar.hours[weekday] ?? []) : ALL_DAY;
+
+  const at = (time: string) => {
+    const minutes = minutesOf(time);
+    return zonedTimeToUtc(
+      {
+        ...date,
+        hour: Math.floor(minutes / 60),
+        minute: minutes % 60,
+        second: 0,
+      },
+      calendar.timeZone,
+    ).getTime();
+  };
+  return ranges
+    .map(([start, end]): [number, number] => [at(start), at(end)])
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * The instant `minutes` business minutes after `start`. A target that
+ * starts outside business hours starts counting at the next opening.
+ */
+export function addBusinessMinutes(
+  start: Date,
+  minutes: number,
+  calendar: BusinessCalendar,
+): Date {
+  if (!calendar.hours && calendar.holidays.length === 0) {
+    return new Date(start.getTime() + minutes * 60_000);
+  }
+
+  let remaining = minutes * 60_000;
+  let date = localDate(start, calendar.timeZone);
+  for (let days = 0; days < MAX_DAYS; days++) {
+    for (const [open, close] of openPeriods(date, calendar)) {
+      const from = Math.max(open, start.getTime());
+      if (from >= close) continue;
+      if (remaining <= close - from) return new Date(from + remaining);
+      remaining -= close - from;
+    }
+    date = nextDay(date);
+  }
+  throw new Error("Business calendar has no opening hours");
+}
+
+// Business minutes between two instants; zero when `end` is not later
+export function businessMinutesBetween(
+  start: Date,
+  end: Date,
+  calendar: BusinessCalendar,
+): number {
+  if (end <= start) return 0;
+  if (!calendar.hours && calendar.holidays.length === 0) {
+    return (end.getTime() - start.getTime()) / 60_000;
+  }
+
+  let total = 0;
+  let date = localDate(start, calendar.timeZone);
+  for (let days = 0; days < MAX_DAYS; days++) {
+    const periods = openPeriods(date, calendar);
+    for (const [open, close] of periods) {
+      const from = Math.max(open, start.getTime());
+      const to = Math.min(close, end.getTime());
+      if (to > from) total += to - from;
+    }
+    // Stop once a day starts after the end
+    const dayStart = zonedTimeToUtc(
+      { ...date, hour: 0, minute: 0, second: 0 },
+      calendar.timeZone,
+    );
+    if (dayStart >= end) break;
+    date = nextDay(date);
+  }
+  return total / 60_000;
+}
@@ -0,0 +1,5 @@
+export * from "./business-hours";
+export * from "./knowledge-base";
+export * from "./knowledge-import";
+export * from "./knowledge-vector-store";
+export * from "./ticket-sla";
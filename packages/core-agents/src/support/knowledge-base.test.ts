@@ -0,0 +1,296 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { LLMClient } from "../llm";
+import { KnowledgeBase, KnowledgeBaseError } from "./knowledge-base";
+import { LocalKnowledgeVectorStore } from "./knowledge-vector-store";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+const fixtureLLM = () => new LLMClient({ provider: "fixture", maxRetries: 0 });
+
+// Embedding provider that is down
+const failingLLM = {
+  embed: async () => {
+    throw new Error("embedding provider unavailable");
+  },
+};
+
+describe("KnowledgeBase", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let vectorStore: LocalKnowledgeVectorStore;
+  let kb: KnowledgeBase;
+
+  beforeEach(async () => {
+    db = createInMemoryPrisma();
+    vectorStore = new LocalKnowledgeVectorStore();
+    kb = new KnowledgeBase(db.prisma, { vectorStore, llm: fixtureLLM() });
+
+    await kb.addArticle("ws-1", {
+      title: "Resetting your password",
+      content:
+        "Open the login page and choose forgot password. We email a reset link that expires after an hour.",
+      category: "Account",
+    });
+    await kb.addArticle("ws-1", {
+      title: "Refunds and billing",
+      content:
+        "Refunds for annual plans are prorated. Billing questions go to the billing team, who reply within a day.",
+      category: "Billing",
+    });
+  });
+
+  it("should find the article closest in meaning, best passage first", async () => {
+    const matches = await kb.search("ws-1", "I forgot my password");
+
+    expect(matches[0]).toMatchObject({
+      title: "Resetting your password",
+      category: "Account",
+      source: "ARTICLE",
+      excerpt: expect.stringContaining("forgot password"),
+    });
+    expect(matches[0]!.score).toBeGreaterThan(matches[1]?.score ?? 0);
+    // Other workspaces have their own knowledge
+    expect(await kb.search("ws-2", "I forgot my password")).toEqual([]);
+  });
+
+  it("should leave out drafts and archived articles", async () => {
+    const [refunds] = await kb.search("ws-1", "refund billing annual plan");
+    await kb.archiveArticle("ws-1", refunds!.articleId);
+    await kb.addArticle("ws-1", {
+      title: "Refund policy draft",
+      content: "Refunds for annual plans will change next quarter.",
+      status: "DRAFT",
+    });
+
+    const matches = await kb.search("ws-1", "refund billing annual plan");
+
+    expect(matches.map((match) => match.title)).not.toContain(
+      "Refunds and billing",
+    );
+    expect(matches.map((match) => match.title)).not.toContain(
+      "Refund policy draft",
+    );
+  });
+
+  it("should split long articles and re-index only changed text", async () => {
+    kb = new KnowledgeBase(db.prisma, {
+      vectorStore,
+      llm: fixtureLLM(),
+      chunkSize: 200,
+      chunkOverlap: 40,
+    });
+    const content = Array.from(
+      { length: 12 },
+      (_, i) => `Paragraph ${i} about courier delivery times and tracking.`,
+    ).join("\n\n");
+    const shipping = (fields: any = {}) =>
+      kb.addArticle("ws-1", {
+        title: "Shipping",
+        content,
+        source: "DOCUMENT",
+        sourceId: "shipping.md",
+        ...fields,
+      });
+    const chunkIds = (articleId: string) =>
+      db.tables
+        .knowledgeChunk!.filter((chunk) => chunk.articleId === articleId)
+        .map((chunk) => chunk.id);
+
+    const article = await shipping();
+    const before = chunkIds(article.id);
+    expect(before.length).toBeGreaterThan(1);
+
+    // Same source: the article is updated and its chunks are kept
+    const again = await shipping({ category: "Delivery" });
+    expect(again.id).toBe(article.id);
+    expect(again.category).toBe("Delivery");
+    expect(chunkIds(article.id)).toEqual(before);
+    expect(db.tables.knowledgeArticle!).toHaveLength(3);
+
+    await shipping({ content: `${content}\n\nParagraph 12 about customs.` });
+    expect(chunkIds(article.id)).not.toEqual(before);
+    const [match] = await kb.search("ws-1", "customs");
+    expect(match?.excerpt).toContain("Paragraph 12 about customs.");
+  });
+
+  it("should match keywords when embeddings are unavailable", async () => {
+    const offline = new KnowledgeBase(db.prisma, {
+      vectorStore: new LocalKnowledgeVectorStore(),
+      llm: failingLLM,
+    });
+    await offline.addArticle("ws-1", {
+      title: "Connecting Shopify",
+      content: "Install the app from the Shopify store and approve access.",
+    });
+
+    const matches = await offline.search("ws-1", "how do I connect shopify");
+
+    expect(matches[0]).toMatchObject({ title: "Connecting Shopify" });
+    expect(matches[0]!.score).toBeGreaterThan(0);
+    expect(await offline.search("ws-1", "   ")).toEqual([]);
+  });
+
+  it("should count one vote per voter and rank helpful articles higher", async () => {
+    const [article] = await kb.search("ws-1", "password reset link");
+    const { articleId } = article!;
+
+    await kb.recordFeedback("ws-1", articleId, {
+      helpful: false,
+      voterKey: "user:1",
+    });
+    await kb.recordFeedback("ws-1", articleId, {
+      helpful: false,
+      voterKey: "user:1",
+    });
+    expect(
+      await kb.recordFeedback("ws-1", articleId, {
+        helpful: true,
+        voterKey: "user:2",
+      }),
+    ).toEqual({ helpfulVotes: 1, notHelpfulVotes: 1 });
+
+    // Changing a vote moves it to the other count
+    expect(
+      await kb.recordFeedback("ws-1", articleId, {
+        helpful: true,
+        voterKey: "user:1",
+        comment: "Found it after all",
+      }),
+    ).toEqual({ helpfulVotes: 2, notHelpfulVotes: 0 });
+    expect(db.tables.knowledgeArticleFeedback!).toHaveLength(2);
+
+    const [rated] = await kb.search("ws-1", "password reset link");
+    expect(rated!.score).toBeGreaterThan(article!.score);
+
+    await expect(
+      kb.recordFeedback("ws-2", articleId, { helpful: true }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should count citations and views", async () => {
+    const [article] = await kb.search("ws-1", "password");
+    await kb.recordCitations("ws-1", [article!.articleId, article!.articleId]);
+    const viewed = await kb.viewArticle("ws-1", article!.articleId);
+
+    expect(viewed).toMatchObject({ citations: 1, views: 1 });
+  });
+
+  it("should import documents and update them when imported again", async () => {
+    const markdown = `# Exporting reports\n\nChoose export on any dashboard.\n\n# Scheduling reports\n\nReports can be emailed every Monday.`;
+
+    const first = await kb.importDocument("ws-1", "markdown", markdown, {
+      documentId: "reports.md",
+      category: "Reports",
+    });
+    const second = await kb.importDocument("ws-1", "markdown", markdown, {
+      documentId: "reports.md",
+    });
+
+    expect(first.articles.map((a) => a.sourceId)).toEqual([
+      "reports.md#exporting-reports",
+      "reports.md#scheduling-reports",
+    ]);
+    expect(second.articles.map((a) => a.id)).toEqual(
+      first.articles.map((a) => a.id),
+    );
+    expect(first.articles[0]).toMatchObject({
+      source: "DOCUMENT",
+      category: "Reports",
+    });
+
+    const error = await kb
+      .importDocument("ws-1", "csv", "name,notes\nA,B")
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(KnowledgeBaseError);
+    expect(error).toMatchObject({
+      code: "INVALID_IMPORT",
+      issues: ["The header needs title and content columns"],
+    });
+  });
+
+  it("should import FAQ entries and resolved tickets", async () => {
+    const faq = await kb.importFaq("ws-1", [
+      {
+        id: "faq-1",
+        question: "Can I change my plan?",
+        answer: "Yes, from Settings > Billing at any time.",
+        category: "Billing",
+      },
+      { question: "Empty", answer: " " },
+    ]);
+    expect(faq.articles[0]).toMatchObject({ source: "FAQ", sourceId: "faq-1" });
+    expect(faq.issues).toEqual(["Entry 2: needs a question and answer"]);
+
+    db.seed("supportTicket", [
+      {
+        workspaceId: "ws-1",
+        ticketId: "T-1",
+        customer: { email: "ada@example.com" },
+        channel: "EMAIL",
+        subject: "Invoice shows the wrong VAT number",
+        status: "RESOLVED",
+        resolution: "Update the VAT number under Billing details.",
+        messages: [{ content: "My invoice has an old VAT number" }],
+        metadata: { category: "Billing" },
+      },
+      {
+        workspaceId: "ws-1",
+        ticketId: "T-2",
+        customer: { email: "grace@example.com" },
+        channel: "CHAT",
+        subject: "Still open",
+        status: "OPEN",
+        resolution: null,
+        messages: [],
+      },
+      {
+        workspaceId: "ws-2",
+        ticketId: "T-3",
+        customer: { email: "someone@example.com" },
+        channel: "EMAIL",
+        subject: "Another workspace's ticket",
+        status: "RESOLVED",
+        resolution: "Not for ws-1's knowledge base.",
+        messages: [{ content: "Private question" }],
+      },
+    ]);
+    const imported = await kb.importResolvedTickets("ws-1");
+
+    expect(imported.articles).toHaveLength(1);
+    expect(imported.articles[0]).toMatchObject({
+      source: "TICKET",
+      sourceId: "T-1",
+      category: "Billing",
+      content:
+        "My invoice has an old VAT number\n\nResolution: Update the VAT number under Billing details.",
+    });
+    const [match] = await kb.search("ws-1", "wrong VAT number on invoice", {
+      sources: ["TICKET"],
+    });
+    expect(match?.title).toBe("Invoice shows the wrong VAT number");
+  });
+
+  it("should embed what failed to embed on reindex", async () => {
+    const offline = new KnowledgeBase(db.prisma, {
+      vectorStore,
+      llm: failingLLM,
+    });
+    await offline.addArticle("ws-1", {
+      title: "Two-factor login",
+      content: "Turn on two-factor authentication from your profile.",
+    });
+
+    // Only the new article's chunk is missing
+    expect(await kb.reindex("ws-1", 1)).toBe(1);
+    expect(await kb.reindex("ws-1")).toBe(0);
+    const [match] = await kb.search("ws-1", "two-factor authentication");
+    expect(match?.title).toBe("Two-factor login");
+  });
+
+  it("should reject articles without a title or content", async () => {
+    await expect(
+      kb.addArticle("ws-1", { title: " ", content: "Text" }),
+    ).rejects.toMatchObject({ code: "INVALID_ARTICLE" });
+    await expect(
+      kb.updateArticle("ws-1", "missing", { title: "New" }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
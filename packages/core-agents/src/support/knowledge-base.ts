@@ -0,0 +1,729 @@
+import { randomUUID } from "crypto";
+import {
+  db,
+  type KnowledgeArticle,
+  type KnowledgeArticleStatus,
+  type KnowledgeSource,
+  type Prisma,
+  type PrismaClient,
+} from "@neon/data-model";
+import { logger } from "@neon/utils";
+import { getLLMClient, type LLMClient } from "../llm";
+import {
+  chunkText,
+  parseKnowledgeDocument,
+  type KnowledgeArticleInput,
+  type KnowledgeImportDefaults,
+  type KnowledgeImportFormat,
+} from "./knowledge-import";
+import {
+  createKnowledgeVectorStore,
+  type KnowledgeVectorStore,
+} from "./knowledge-vector-store";
+
+/**
+ * Persisted support knowledge base. Articles written by the team,
+ * imported documents and FAQ entries, and resolved tickets are split into
+ * chunks and embedded, so replies can be grounded in (and cite) the
+ * passages closest in meaning to a customer's message. "Was this helpful?"
+ * votes nudge the ranking towards articles that actually help.
+ */
+
+export type KnowledgeBaseErrorCode =
+  | "NOT_FOUND"
+  | "INVALID_ARTICLE"
+  | "INVALID_IMPORT";
+
+export class KnowledgeBaseError extends Error {
+  constructor(
+    message: string,
+    readonly code: KnowledgeBaseErrorCode,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "KnowledgeBaseError";
+  }
+}
+
+export interface KnowledgeMatch {
+  articleId: string;
+  chunkId: string;
+  title: string;
+  url: string | null;
+  category: string;
+  source: KnowledgeSource;
+  // The passage that matched
+  excerpt: string;
+  score: number;
+}
+
+export interface KnowledgeSearchOptions {
+  limit?: number | undefined;
+  category?: string | undefined;
+  sources?: KnowledgeSource[] | undefined;
+  // Least similarity, before feedback adjusts the score
+  minScore?: number | undefined;
+}
+
+export interface KnowledgeArticleUpdate {
+  title?: string | undefined;
+  content?: string | undefined;
+  url?: string | undefined;
+  category?: string | undefined;
+  tags?: string[] | undefined;
+  author?: string | undefined;
+  status?: KnowledgeArticleStatus | undefined;
+}
+
+export interface KnowledgeFeedbackInput {
+  helpful: boolean;
+  // One vote per voter and article; a new vote replaces their earlier one
+  voterKey?: string | undefined;
+  ticketId?: string | undefined;
+  comment?: string | undefined;
+}
+
+export interface FaqEntry {
+  id?: string | undefined;
+  question: string;
+  answer: string;
+  category?: string | undefined;
+  tags?: string[] | undefined;
+}
+
+export interface ResolvedTicket {
+  ticketId: string;
+  subject: string;
+  message: string;
+  resolution: string;
+  category?: string | undefined;
+}
+
+export interface KnowledgeImportResult {
+  articles: KnowledgeArticle[];
+  issues: string[];
+}
+
+export interface KnowledgeBaseOptions {
+  vectorStore?: KnowledgeVectorStore;
+  // Embeddings are requested through this client; defaults to the shared one
+  llm?: Pick<LLMClient, "embed">;
+  chunkSize?: number;
+  chunkOverlap?: number;
+  // Chunks read for keyword search when nothing is embedded
+  maxChunksScanned?: number;
+}
+
+const DEFAULT_MIN_SCORE = 0.2;
+
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 80);
+
+const terms = (text: string) =>
+  new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []);
+
+// Laplace-smoothed share of helpful votes scales a score by 0.75 to 1.25
+function feedbackWeight(article: {
+  helpfulVotes: number;
+  notHelpfulVotes: number;
+}): number {
+  const helpful =
+    (article.helpfulVotes + 1) /
+    (article.helpfulVotes + article.notHelpfulVotes + 2);
+  return 0.75 + helpful / 2;
+}
+
+type ChunkWithArticle = Prisma.KnowledgeChunkGetPayload<{
+  include: { article: true };
+}>;
+
+export class KnowledgeBase {
+  private prisma: PrismaClient;
+  private vectorStore: KnowledgeVectorStore;
+  private llm: Pick<LLMClient, "embed"> | undefined;
+  private chunkSize: number;
+  private chunkOverlap: number;
+  private maxChunksScanned: number;
+
+  constructor(prisma?: PrismaClient, options: KnowledgeBaseOptions = {}) {
+    this.prisma = prisma || db;
+    this.vectorStore =
+      options.vectorStore ?? createKnowledgeVectorStore(this.prisma);
+    this.llm = options.llm;
+    this.chunkSize = options.chunkSize ?? 1200;
+    this.chunkOverlap = options.chunkOverlap ?? 200;
+    this.maxChunksScanned = options.maxChunksScanned ?? 2000;
+  }
+
+  /**
+   * Add an article, or update the one imported from the same source
+   */
+  async addArticle(
+    workspaceId: string,
+    input: KnowledgeArticleInput,
+  ): Promise<KnowledgeArticle> {
+    const title = input.title?.trim();
+    const content = input.content?.trim();
+    if (!title || !content) {
+      throw new KnowledgeBaseError("Invalid article", "INVALID_ARTICLE", [
+        "An article needs a title and content",
+      ]);
+    }
+    const source = input.source ?? "ARTICLE";
+    const data = {
+      title,
+      content,
+      url: input.url ?? null,
+      category: input.category || "General",
+      tags: input.tags ?? [],
+      author: input.author ?? null,
+      status: input.status ?? "PUBLISHED",
+    };
+
+    const existing = input.sourceId
+      ? await this.prisma.knowledgeArticle.findUnique({
+          where: {
+            workspaceId_source_sourceId: {
+              workspaceId,
+              source,
+              sourceId: input.sourceId,
+            },
+          },
+        })
+      : null;
+    if (existing) {
+      const article = await this.prisma.knowledgeArticle.update({
+        where: { id: existing.id },
+        data,
+      });
+      if (existing.title !== title || existing.content !== content) {
+        await this.index(article);
+      }
+      return article;
+    }
+
+    const article = await this.prisma.knowledgeArticle.create({
+      data: {
+        ...data,
+        workspaceId,
+        source,
+        sourceId: input.sourceId ?? null,
+      },
+    });
+    await this.index(article);
+    return article;
+  }
+
+  async updateArticle(
+    workspaceId: string,
+    articleId: string,
+    update: KnowledgeArticleUpdate,
+  ): Promise<KnowledgeArticle> {
+    const existing = await this.findArticle(workspaceId, articleId);
+    if (update.title !== undefined && !update.title.trim()) {
+      throw new KnowledgeBaseError("Invalid article", "INVALID_ARTICLE", [
+        "An article needs a title",
+      ]);
+    }
+    if (update.content !== undefined && !update.content.trim()) {
+      throw new KnowledgeBaseError("Invalid article", "INVALID_ARTICLE", [
+        "An article needs content",
+      ]);
+    }
+
+    const article = await this.prisma.knowledgeArticle.update({
+      where: { id: existing.id },
+      data: {
+        ...(update.title !== undefined && { title: update.title.trim() }),
+        ...(update.content !== undefined && {
+          content: update.content.trim(),
+        }),
+        ...(update.url !== undefined && { url: update.url }),
+        ...(update.category !== undefined && { category: update.category }),
+        ...(update.tags !== undefined && { tags: update.tags }),
+        ...(update.author !== undefined && { author: update.author }),
+        ...(update.status !== undefined && { status: update.status }),
+      },
+    });
+    if (
+      article.title !== existing.title ||
+      article.content !== existing.content
+    ) {
+      await this.index(article);
+    }
+    return article;
+  }
+
+  // Archived articles are kept, with their votes, but no longer found
+  archiveArticle(
+    workspaceId: string,
+    articleId: string,
+  ): Promise<KnowledgeArticle> {
+    return this.updateArticle(workspaceId, articleId, { status: "ARCHIVED" });
+  }
+
+  // An article as shown to a reader, counting the view
+  async viewArticle(
+    workspaceId: string,
+    articleId: string,
+  ): Promise<KnowledgeArticle> {
+    await this.findArticle(workspaceId, articleId);
+    return this.prisma.knowledgeArticle.update({
+      where: { id: articleId },
+      data: { views: { increment: 1 } },
+    });
+  }
+
+  listArticles(
+    workspaceId: string,
+    filter: {
+      status?: KnowledgeArticleStatus | undefined;
+      category?: string | undefined;
+      source?: KnowledgeSource | undefined;
+    } = {},
+  ): Promise<KnowledgeArticle[]> {
+    return this.prisma.knowledgeArticle.findMany({
+      where: {
+        workspaceId,
+        ...(filter.status && { status: filter.status }),
+        ...(filter.category && { category: filter.category }),
+        ...(filter.source && { source: filter.source }),
+      },
+      orderBy: { updatedAt: "desc" },
+    });
+  }
+
+  /**
+   * Published articles with the passage closest in meaning to the query,
+   * best first. Falls back to keyword matching when embeddings are not
+   * available or nothing has been embedded yet.
+   */
+  async search(
+    workspaceId: string,
+    query: string,
+    options: KnowledgeSearchOptions = {},
+  ): Promise<KnowledgeMatch[]> {
+    const limit = options.limit ?? 5;
+    if (!query.trim()) return [];
+
+    let scored: Array<{ chunkId: string; score: number }> = [];
+    try {
+      const { embeddings, model } = await this.getLLM().embed({
+        input: query,
+        workspaceId,
+      });
+      const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+      scored = (
+        await this.vectorStore.query({
+          workspaceId,
+          model,
+          embedding: embeddings[0] ?? [],
+          // Leaves room for the filters and one passage per article
+          limit: limit * 4,
+        })
+      ).filter((match) => match.score >= minScore);
+    } catch (error) {
+      logger.warn(
+        "Knowledge base embedding failed, matching keywords",
+        { error: error instanceof Error ? error.message : error },
+        "KnowledgeBase",
+      );
+    }
+
+    const articleFilter: Prisma.KnowledgeArticleWhereInput = {
+      status: "PUBLISHED",
+      ...(options.category && { category: options.category }),
+      ...(options.sources && { source: { in: options.sources } }),
+    };
+    let chunks: ChunkWithArticle[];
+    if (scored.length > 0) {
+      chunks = await this.prisma.knowledgeChunk.findMany({
+        where: {
+          id: { in: scored.map(({ chunkId }) => chunkId) },
+          workspaceId,
+          article: articleFilter,
+        },
+        include: { article: true },
+      });
+    } else {
+      chunks = await this.prisma.knowledgeChunk.findMany({
+        where: { workspaceId, article: articleFilter },
+        include: { article: true },
+        orderBy: { createdAt: "desc" },
+        take: this.maxChunksScanned,
+      });
+      scored = this.keywordScores(query, chunks);
+    }
+
+    const byId = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+    const best = new Map<string, KnowledgeMatch>();
+    for (const { chunkId, score } of scored) {
+      const chunk = byId.get(chunkId);
+      if (!chunk) continue;
+      const match: KnowledgeMatch = {
+        articleId: chunk.articleId,
+        chunkId,
+        title: chunk.article.title,
+        url: chunk.article.url,
+        category: chunk.article.category,
+        source: chunk.article.source,
+        excerpt: chunk.content,
+        score: score * feedbackWeight(chunk.article),
+      };
+      const current = best.get(chunk.articleId);
+      if (!current || match.score > current.score) {
+        best.set(chunk.articleId, match);
+      }
+    }
+    return [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Record a "was this helpful?" vote. Returns the article's vote counts.
+   */
+  async recordFeedback(
+    workspaceId: string,
+    articleId: string,
+    input: KnowledgeFeedbackInput,
+  ): Promise<{ helpfulVotes: number; notHelpfulVotes: number }> {
+    await this.findArticle(workspaceId, articleId);
+    const voterKey = input.voterKey ?? `anonymous:${randomUUID()}`;
+    const previous = await this.prisma.knowledgeArticleFeedback.findUnique({
+      where: { articleId_voterKey: { articleId, voterKey } },
+    });
+    const details = {
+      helpful: input.helpful,
+      ticketId: input.ticketId ?? null,
+      comment: input.comment ?? null,
+    };
+
+    if (previous) {
+      await this.prisma.knowledgeArticleFeedback.update({
+        where: { id: previous.id },
+        data: details,
+      });
+    } else {
+      await this.prisma.knowledgeArticleFeedback.create({
+        data: { ...details, articleId, workspaceId, voterKey },
+      });
+    }
+
+    // A changed vote moves from one count to the other
+    const added = previous?.helpful === input.helpful ? 0 : 1;
+    const removed = previous && previous.helpful !== input.helpful ? 1 : 0;
+    const article = await this.prisma.knowledgeArticle.update({
+      where: { id: articleId },
+      data: input.helpful
+        ? {
+            helpfulVotes: { increment: added },
+            notHelpfulVotes: { decrement: removed },
+          }
+        : {
+            notHelpfulVotes: { increment: added },
+            helpfulVotes: { decrement: removed },
+          },
+    });
+    return {
+      helpfulVotes: article.helpfulVotes,
+      notHelpfulVotes: article.notHelpfulVotes,
+    };
+  }
+
+  // Count the articles a reply was grounded in
+  async recordCitations(
+    workspaceId: string,
+    articleIds: string[],
+  ): Promise<void> {
+    if (articleIds.length === 0) return;
+    await this.prisma.knowledgeArticle.updateMany({
+      where: { workspaceId, id: { in: [...new Set(articleIds)] } },
+      data: { citations: { increment: 1 } },
+    });
+  }
+
+  /**
+   * Import a Markdown, HTML or CSV document. `documentId`, such as the
+   * file name, lets a later import of the same document update its
+   * articles instead of adding copies.
+   */
+  async importDocument(
+    workspaceId: string,
+    format: KnowledgeImportFormat,
+    content: string,
+    options: KnowledgeImportDefaults & { documentId?: string | undefined } = {},
+  ): Promise<KnowledgeImportResult> {
+    const { documentId, ...defaults } = options;
+    const parsed = parseKnowledgeDocument(format, content, defaults);
+    if (parsed.articles.length === 0) {
+      throw new KnowledgeBaseError(
+        "Nothing to import",
+        "INVALID_IMPORT",
+        parsed.issues,
+      );
+    }
+
+    const articles: KnowledgeArticle[] = [];
+    for (const article of parsed.articles) {
+      const key = article.sourceId ?? slug(article.title);
+      articles.push(
+        await this.addArticle(workspaceId, {
+          ...article,
+          source: "DOCUMENT",
+          sourceId: documentId ? `${documentId}#${key}` : key,
+        }),
+      );
+    }
+    return { articles, issues: parsed.issues };
+  }
+
+  // FAQ entries, e.g. those of the dashboard's support FAQ page
+  async importFaq(
+    workspaceId: string,
+    entries: FaqEntry[],
+  ): Promise<KnowledgeImportResult> {
+    const articles: KnowledgeArticle[] = [];
+    const issues: string[] = [];
+    for (const [index, entry] of entries.entries()) {
+      if (!entry.question?.trim() || !entry.answer?.trim()) {
+        issues.push(`Entry ${index + 1}: needs a question and answer`);
+        continue;
+      }
+      articles.push(
+        await this.addArticle(workspaceId, {
+          title: entry.question,
+          content: entry.answer,
+          category: entry.category,
+          tags: entry.tags,
+          source: "FAQ",
+          sourceId: entry.id ?? slug(entry.question),
+        }),
+      );
+    }
+    return { articles, issues };
+  }
+
+  // A solved ticket as a question and its answer
+  addResolvedTicket(
+    workspaceId: string,
+    ticket: ResolvedTicket,
+  ): Promise<KnowledgeArticle> {
+    return this.addArticle(workspaceId, {
+      title: ticket.subject,
+      content: `${ticket.message.trim()}\n\nResolution: ${ticket.resolution.trim()}`,
+      category: ticket.category || "Resolved tickets",
+      source: "TICKET",
+      sourceId: ticket.ticketId,
+    });
+  }
+
+  /**
+   * Add the workspace's resolved and closed SupportTicket rows that have
+   * a resolution.
+   */
+  async importResolvedTickets(
+    workspaceId: string,
+    options: { since?: Date | undefined; limit?: number | undefined } = {},
+  ): Promise<KnowledgeImportResult> {
+    const tickets = await this.prisma.supportTicket.findMany({
+      where: {
+        workspaceId,
+        status: { in: ["RESOLVED", "CLOSED"] },
+        resolution: { not: null },
+        ...(options.since && { resolvedAt: { gte: options.since } }),
+      },
+      orderBy: { resolvedAt: "desc" },
+      take: options.limit ?? 200,
+    });
+
+    const articles: KnowledgeArticle[] = [];
+    const issues: string[] = [];
+    for (const ticket of tickets) {
+      const message = this.firstMessage(ticket.messages);
+      if (!message || !ticket.resolution?.trim()) {
+        issues.push(`Ticket ${ticket.ticketId}: has no message to answer`);
+        continue;
+      }
+      const metadata = ticket.metadata as { category?: unknown } | null;
+      articles.push(
+        await this.addResolvedTicket(workspaceId, {
+          ticketId: ticket.ticketId,
+          subject: ticket.subject,
+          message,
+          resolution: ticket.resolution,
+          category:
+            typeof metadata?.category === "string"
+              ? metadata.category
+              : undefined,
+        }),
+      );
+    }
+    return { articles, issues };
+  }
+
+  /**
+   * Embed chunks that have no embedding from the current model, such as
+   * those whose embedding failed or all of them after a model change.
+   * Returns the number of chunks embedded.
+   */
+  async reindex(workspaceId: string, batchSize: number = 100): Promise<number> {
+    let embedded = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const chunks = await this.prisma.knowledgeChunk.findMany({
+        where: { workspaceId },
+        include: { article: true },
+        orderBy: { id: "asc" },
+        take: batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (chunks.length === 0) break;
+      cursor = chunks[chunks.length - 1]!.id;
+
+      embedded += await this.embedChunks(workspaceId, chunks, true);
+      if (chunks.length < batchSize) break;
+    }
+    return embedded;
+  }
+
+  private async findArticle(
+    workspaceId: string,
+    articleId: string,
+  ): Promise<KnowledgeArticle> {
+    const article = await this.prisma.knowledgeArticle.findFirst({
+      where: { id: articleId, workspaceId },
+    });
+    if (!article) {
+      throw new KnowledgeBaseError("Article not found", "NOT_FOUND");
+    }
+    return article;
+  }
+
+  // Replace the article's chunks and embed them
+  private async index(article: KnowledgeArticle): Promise<void> {
+    const previous = await this.prisma.knowledgeChunk.findMany({
+      where: { articleId: article.id },
+      select: { id: true },
+    });
+    if (previous.length > 0) {
+      await this.prisma.knowledgeChunk.deleteMany({
+        where: { articleId: article.id },
+      });
+      await this.vectorStore.remove(previous.map((chunk) => chunk.id));
+    }
+
+    await this.prisma.knowledgeChunk.createMany({
+      data: chunkText(article.content, {
+        size: this.chunkSize,
+        overlap: this.chunkOverlap,
+      }).map((content, position) => ({
+        articleId: article.id,
+        workspaceId: article.workspaceId,
+        position,
+        content,
+      })),
+    });
+    const chunks = await this.prisma.knowledgeChunk.findMany({
+      where: { articleId: article.id },
+      include: { article: true },
+      orderBy: { position: "asc" },
+    });
+
+    try {
+      await this.embedChunks(article.workspaceId, chunks);
+    } catch (error) {
+      // Keyword search still finds the article; reindex() retries
+      logger.warn(
+        "Failed to embed knowledge article",
+        {
+          articleId: article.id,
+          error: error instanceof Error ? error.message : error,
+        },
+        "KnowledgeBase",
+      );
+    }
+  }
+
+  /**
+   * Embed chunks, prefixed by their article's title, and store the
+   * vectors. With `skipIndexed`, chunks that already have a vector from
+   * the current model are left alone.
+   */
+  private async embedChunks(
+    workspaceId: string,
+    chunks: ChunkWithArticle[],
+    skipIndexed: boolean = false,
+  ): Promise<number> {
+    if (chunks.length === 0) return 0;
+
+    const { embeddings, model } = await this.getLLM().embed({
+      input: chunks.map(
+        (chunk) => `${chunk.article.title}\n\n${chunk.content}`,
+      ),
+      workspaceId,
+    });
+    const indexed = skipIndexed
+      ? await this.vectorStore.indexedIds(
+          chunks.map(({ id }) => id),
+          model,
+        )
+      : new Set<string>();
+
+    const vectors = chunks.flatMap((chunk, i) =>
+      indexed.has(chunk.id) || !embeddings[i]
+        ? []
+        : [
+            {
+              chunkId: chunk.id,
+              articleId: chunk.articleId,
+              workspaceId,
+              model,
+              embedding: embeddings[i]!,
+            },
+          ],
+    );
+    await this.vectorStore.upsert(vectors);
+    return vectors.length;
+  }
+
+  // Share of the query's words found in the chunk, more in its title
+  private keywordScores(
+    query: string,
+    chunks: ChunkWithArticle[],
+  ): Array<{ chunkId: string; score: number }> {
+    const wanted = terms(query);
+    if (wanted.size === 0) return [];
+    return chunks
+      .map((chunk) => {
+        const text = terms(chunk.content);
+        const title = terms(chunk.article.title);
+        let score = 0;
+        for (const term of wanted) {
+          if (title.has(term)) score += 1;
+          else if (text.has(term)) score += 0.6;
+        }
+        return { chunkId: chunk.id, score: score / wanted.size };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Text of the customer's first message in a ticket's `messages`
+  private firstMessage(messages: Prisma.JsonValue): string | undefined {
+    const first = Array.isArray(messages) ? messages[0] : messages;
+    if (typeof first === "string") return first;
+    if (first && typeof first === "object" && !Array.isArray(first)) {
+      const text = first.content ?? first.message ?? first.text;
+      return typeof text === "string" ? text : undefined;
+    }
+    return undefined;
+  }
+
+  private getLLM(): Pick<LLMClient, "embed"> {
+    return this.llm ?? getLLMClient();
+  }
+}
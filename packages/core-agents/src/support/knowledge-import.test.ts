@@ -0,0 +1,95 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  chunkText,
+  parseCsvArticles,
+  parseHtmlArticles,
+  parseMarkdownArticles,
+} from "./knowledge-import";
+
+describe("knowledge import", () => {
+  it("should read Markdown front matter and split top-level headings", () => {
+    const single = parseMarkdownArticles(
+      `---\ntitle: Team seats\ncategory: Billing\ntags: [seats, plans]\n---\nAdd seats from **Settings**. See [pricing](https://example.com/pricing).`,
+    );
+    expect(single.articles).toEqual([
+      {
+        title: "Team seats",
+        content:
+          "Add seats from Settings. See pricing (https://example.com/pricing).",
+        category: "Billing",
+        tags: ["seats", "plans"],
+        author: undefined,
+        url: undefined,
+      },
+    ]);
+
+    const several = parseMarkdownArticles(
+      "# Exports\n\nUse the export button.\n\n## CSV\n\nComma separated.\n\n# Imports\n\nDrop a file.",
+      { category: "Data" },
+    );
+    expect(
+      several.articles.map(({ title, content }) => [title, content]),
+    ).toEqual([
+      ["Exports", "Use the export button.\n\nCSV\n\nComma separated."],
+      ["Imports", "Drop a file."],
+    ]);
+    expect(several.articles[0]!.category).toBe("Data");
+
+    expect(parseMarkdownArticles("Just text").issues).toEqual([
+      "The document needs a title and text",
+    ]);
+  });
+
+  it("should read HTML pages and their <article> elements", () => {
+    const page = parseHtmlArticles(
+      "<html><head><title>Webhooks</title></head><body><p>We sign every webhook.</p><script>track()</script></body></html>",
+    );
+    expect(page.articles).toEqual([
+      { title: "Webhooks", content: "We sign every webhook." },
+    ]);
+
+    const articles = parseHtmlArticles(
+      "<article><h2>API keys</h2><p>Create keys in Settings.</p></article><article><p>No heading</p></article>",
+    );
+    expect(articles.articles).toEqual([
+      { title: "API keys", content: "Create keys in Settings." },
+    ]);
+    expect(articles.issues).toEqual(["Article 2: needs a title and text"]);
+  });
+
+  it("should map CSV columns and report incomplete rows", () => {
+    const result = parseCsvArticles(
+      'Question,Answer,Category,Tags,ID\n"Can I pause my plan?","Yes, for up to 3 months.",Billing,plans;pause,faq-9\nNo answer,,,,',
+    );
+
+    expect(result.articles).toEqual([
+      {
+        title: "Can I pause my plan?",
+        content: "Yes, for up to 3 months.",
+        category: "Billing",
+        tags: ["plans", "pause"],
+        sourceId: "faq-9",
+      },
+    ]);
+    expect(result.issues).toEqual(["Row 3: needs a title and content"]);
+  });
+
+  it("should chunk at paragraph boundaries with overlap", () => {
+    const paragraphs = Array.from(
+      { length: 6 },
+      (_, i) => `Paragraph ${i} explains one step of the setup in detail.`,
+    );
+    const chunks = chunkText(paragraphs.join("\n\n"), {
+      size: 120,
+      overlap: 30,
+    });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach((chunk) => expect(chunk.length).toBeLessThanOrEqual(160));
+    expect(chunks[0]).toContain("Paragraph 0");
+    // Each chunk repeats the end of the one before
+    expect(chunks[1]!.startsWith("Paragraph 1")).toBe(false);
+    expect(chunks[1]).toContain("in detail.");
+    expect(chunkText("Short text.")).toEqual(["Short text."]);
+  });
+});
@@ -0,0 +1,282 @@
+import { load } from "cheerio";
+import type { KnowledgeSource } from "@neon/data-model";
+import { htmlToText } from "../email/html-to-text";
+import { parseCsv } from "../trends/csv-trend-source";
+
+/**
+ * Turns Markdown, HTML and CSV documents into knowledge base articles
+ * and splits article text into the chunks that are embedded.
+ */
+
+export type KnowledgeImportFormat = "markdown" | "html" | "csv";
+
+export interface KnowledgeArticleInput {
+  title: string;
+  content: string;
+  url?: string | undefined;
+  category?: string | undefined;
+  tags?: string[] | undefined;
+  author?: string | undefined;
+  status?: "DRAFT" | "PUBLISHED" | undefined;
+  source?: KnowledgeSource | undefined;
+  sourceId?: string | undefined;
+}
+
+export interface KnowledgeImport {
+  articles: KnowledgeArticleInput[];
+  // Parts of the document that could not be imported
+  issues: string[];
+}
+
+// Applied to every article of a document unless the document says otherwise
+export type KnowledgeImportDefaults = Partial<
+  Pick<KnowledgeArticleInput, "title" | "category" | "tags" | "author" | "url">
+>;
+
+export interface ChunkOptions {
+  // Characters per chunk
+  size?: number;
+  // Characters repeated from the end of the previous chunk
+  overlap?: number;
+}
+
+const list = (value: string) =>
+  value
+    .replace(/^\[|\]$/g, "")
+    .split(/[,;|]/)
+    .map((item) => item.trim().replace(/^["']|["']$/g, ""))
+    .filter(Boolean);
+
+// Readable text of Markdown: formatting marks dropped, links written out
+function markdownText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, "")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, "$1 ($2)")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/(\*\*|__|`)/g, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * One article per top-level heading when the document has several,
+ * otherwise the whole document titled by its heading. YAML-style front
+ * matter can set the title, category, tags and url.
+ */
+export function parseMarkdownArticles(
+  markdown: string,
+  defaults: KnowledgeImportDefaults = {},
+): KnowledgeImport {
+  let body = markdown.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const meta: Record<string, string> = {};
+  const frontMatter = /^---\n([\s\S]*?)\n---\n?/.exec(body);
+  if (frontMatter) {
+    for (const line of frontMatter[1]!.split("\n")) {
+      const match = /^(\w+):\s*(.*)$/.exec(line);
+      if (match) meta[match[1]!.toLowerCase()] = match[2]!.trim();
+    }
+    body = body.slice(frontMatter[0].length);
+  }
+  const base = {
+    category: meta.category || defaults.category,
+    tags: meta.tags ? list(meta.tags) : defaults.tags,
+    author: meta.author || defaults.author,
+    url: meta.url || defaults.url,
+  };
+
+  const sections = body.split(/^(?=# )/m).filter((part) => part.trim());
+  const headed = sections.filter((part) => part.startsWith("# "));
+  if (headed.length > 1) {
+    const articles = headed.flatMap((section) => {
+      const [heading, ...rest] = section.split("\n");
+      const content = markdownText(rest.join("\n"));
+      return content
+        ? [{ ...base, title: markdownText(heading!), content }]
+        : [];
+    });
+    return { articles, issues: [] };
+  }
+
+  const heading = /^# (.+)$/m.exec(body);
+  const title =
+    meta.title ||
+    (heading && markdownText(heading[1]!)) ||
+    defaults.title ||
+    "";
+  const content = markdownText(
+    heading && !meta.title ? body.replace(heading[0], "") : body,
+  );
+  if (!title || !content) {
+    return { articles: [], issues: ["The document needs a title and text"] };
+  }
+  return { articles: [{ ...base, title, content }], issues: [] };
+}
+
+/**
+ * One article per <article> element when there are several, otherwise
+ * the page, titled by its <title> or first <h1>
+ */
+export function parseHtmlArticles(
+  html: string,
+  defaults: KnowledgeImportDefaults = {},
+): KnowledgeImport {
+  const $ = load(html);
+  const sections = $("article").toArray();
+  const parts =
+    sections.length > 1
+      ? sections.map((section) => ({
+          title: $(section).find("h1, h2").first().text().trim(),
+          html: $.html(section),
+        }))
+      : [
+          {
+            title:
+              $("title").first().text().trim() || $("h1").first().text().trim(),
+            html,
+          },
+        ];
+
+  const articles: KnowledgeArticleInput[] = [];
+  const issues: string[] = [];
+  parts.forEach((part, index) => {
+    const title = part.title || defaults.title || "";
+    let content = htmlToText(part.html).trim();
+    // The heading is the title, not part of the text
+    if (title && content.startsWith(title)) {
+      content = content.slice(title.length).trim();
+    }
+    if (title && content) {
+      articles.push({ ...defaults, title, content });
+    } else {
+      issues.push(`Article ${index + 1}: needs a title and text`);
+    }
+  });
+  return { articles, issues };
+}
+
+const CSV_COLUMNS: Record<string, keyof KnowledgeArticleInput> = {
+  title: "title",
+  question: "title",
+  content: "content",
+  answer: "content",
+  body: "content",
+  category: "category",
+  tags: "tags",
+  url: "url",
+  author: "author",
+  id: "sourceId",
+  status: "status",
+};
+
+/**
+ * One article per row. The header names the columns: title (or
+ * question), content (or answer, body), and optionally category, tags
+ * (separated by ; or |), url, author, id and status.
+ */
+export function parseCsvArticles(
+  csv: string,
+  defaults: KnowledgeImportDefaults = {},
+): KnowledgeImport {
+  const [header, ...rows] = parseCsv(csv).filter((row) =>
+    row.some((cell) => cell.trim()),
+  );
+  const columns = (header ?? []).map(
+    (name) => CSV_COLUMNS[name.trim().toLowerCase()],
+  );
+  if (!columns.includes("title") || !columns.includes("content")) {
+    return {
+      articles: [],
+      issues: ["The header needs title and content columns"],
+    };
+  }
+
+  const articles: KnowledgeArticleInput[] = [];
+  const issues: string[] = [];
+  rows.forEach((row, index) => {
+    const fields: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      const value = row[i]?.trim();
+      if (column && value) fields[column] = value;
+    });
+    const { title, content } = fields;
+    if (!title || !content) {
+      issues.push(`Row ${index + 2}: needs a title and content`);
+      return;
+    }
+    const status = fields.status?.toUpperCase();
+    articles.push({
+      ...defaults,
+      title,
+      content,
+      ...(fields.category && { category: fields.category }),
+      ...(fields.tags && { tags: list(fields.tags) }),
+      ...(fields.url && { url: fields.url }),
+      ...(fields.author && { author: fields.author }),
+      ...(fields.sourceId && { sourceId: fields.sourceId }),
+      ...((status === "DRAFT" || status === "PUBLISHED") && { status }),
+    });
+  });
+  return { articles, issues };
+}
+
+export function parseKnowledgeDocument(
+  format: KnowledgeImportFormat,
+  content: string,
+  defaults: KnowledgeImportDefaults = {},
+): KnowledgeImport {
+  switch (format) {
+    case "markdown":
+      return parseMarkdownArticles(content, defaults);
+    case "html":
+      return parseHtmlArticles(content, defaults);
+    case "csv":
+      return parseCsvArticles(content, defaults);
+  }
+}
+
+/**
+ * Split text into chunks of about `size` characters at paragraph, then
+ * sentence boundaries. Each chunk starts with the end of the previous one
+ * so an answer spanning the boundary is still found.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const size = options.size ?? 1200;
+  const overlap = Math.min(options.overlap ?? 200, Math.floor(size / 2));
+
+  const pieces = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) =>
+      paragraph.length <= size
+        ? [paragraph]
+        : (paragraph.match(/[^.!?]+(?:[.!?]+\s*|$)/g) ?? [paragraph]).flatMap(
+            (sentence) => {
+              // Sentences longer than a chunk are cut at the limit
+              const parts: string[] = [];
+              for (let i = 0; i < sentence.length; i += size) {
+                parts.push(sentence.slice(i, i + size).trim());
+              }
+              return parts.filter(Boolean);
+            },
+          ),
+    );
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const separator = current ? "\n\n" : "";
+    if (current && current.length + separator.length + piece.length > size) {
+      chunks.push(current);
+      const tail = current.slice(-overlap);
+      // Start the overlap at a word boundary
+      const carried = overlap > 0 ? tail.slice(tail.indexOf(" ") + 1) : "";
+      current = carried && carried.length < tail.length ? carried : "";
+    }
+    current += (current ? "\n\n" : "") + piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
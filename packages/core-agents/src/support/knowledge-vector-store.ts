@@ -0,0 +1,147 @@
+import { db, type PrismaClient } from "@neon/data-model";
+import { cosineSimilarity } from "../memory/memory-vector-store";
+
+/**
+ * Embedding storage for knowledge base chunks. Production keeps vectors
+ * in the float array `embedding` column of `knowledge_chunks` and ranks
+ * them with pgvector; the local store keeps them in memory for development
+ * machines without the extension and for tests, so it starts empty after a
+ * restart until `KnowledgeBase.reindex()` runs.
+ */
+
+export interface KnowledgeVector {
+  chunkId: string;
+  articleId: string;
+  workspaceId: string;
+  model: string;
+  embedding: number[];
+}
+
+export interface KnowledgeVectorQuery {
+  workspaceId: string;
+  model: string;
+  embedding: number[];
+  limit: number;
+}
+
+export interface KnowledgeVectorMatch {
+  chunkId: string;
+  articleId: string;
+  score: number;
+}
+
+export interface KnowledgeVectorStore {
+  upsert(vectors: KnowledgeVector[]): Promise<void>;
+  query(query: KnowledgeVectorQuery): Promise<KnowledgeVectorMatch[]>;
+  // Ids among `chunkIds` that already have an embedding from `model`
+  indexedIds(chunkIds: string[], model: string): Promise<Set<string>>;
+  remove(chunkIds: string[]): Promise<void>;
+}
+
+const toVectorLiteral = (embedding: number[]) => `[${embedding.join(",")}]`;
+
+/**
+ * pgvector-backed store. Only chunks of published articles are matched.
+ * Needs the `vector` extension in the database.
+ */
+export class PgVectorKnowledgeStore implements KnowledgeVectorStore {
+  private prisma: PrismaClient;
+
+  constructor(prisma?: PrismaClient) {
+    this.prisma = prisma || db;
+  }
+
+  async upsert(vectors: KnowledgeVector[]): Promise<void> {
+    for (const vector of vectors) {
+      await this.prisma.$executeRaw`
+        UPDATE "knowledge_chunks" SET
+          "model" = ${vector.model},
+          "dimensions" = ${vector.embedding.length},
+          "embedding" = ${vector.embedding}::double precision[]
+        WHERE "id" = ${vector.chunkId}`;
+    }
+  }
+
+  async query(query: KnowledgeVectorQuery): Promise<KnowledgeVectorMatch[]> {
+    const vector = toVectorLiteral(query.embedding);
+    const rows = await this.prisma.$queryRaw<KnowledgeVectorMatch[]>`
+      SELECT c."id" AS "chunkId", c."articleId",
+             1 - (c."embedding"::vector <=> ${vector}::vector) AS "score"
+      FROM "knowledge_chunks" c
+      JOIN "knowledge_articles" a ON a."id" = c."articleId"
+      WHERE c."workspaceId" = ${query.workspaceId}
+        AND c."model" = ${query.model}
+        AND c."dimensions" = ${query.embedding.length}
+        AND a."status" = 'PUBLISHED'
+      ORDER BY c."embedding"::vector <=> ${vector}::vector
+      LIMIT ${query.limit}`;
+
+    return rows.map((row) => ({ ...row, score: Number(row.score) }));
+  }
+
+  async indexedIds(chunkIds: string[], model: string): Promise<Set<string>> {
+    const rows = await this.prisma.knowledgeChunk.findMany({
+      where: { id: { in: chunkIds }, model },
+      select: { id: true },
+    });
+    return new Set(rows.map((row) => row.id));
+  }
+
+  async remove(): Promise<void> {
+    // Embeddings are deleted with their chunk rows
+  }
+}
+
+/**
+ * Brute-force store kept in memory
+ */
+export class LocalKnowledgeVectorStore implements KnowledgeVectorStore {
+  private vectors = new Map<string, KnowledgeVector>();
+
+  async upsert(vectors: KnowledgeVector[]): Promise<void> {
+    for (const vector of vectors) {
+      this.vectors.set(vector.chunkId, vector);
+    }
+  }
+
+  async query(query: KnowledgeVectorQuery): Promise<KnowledgeVectorMatch[]> {
+    const matches: KnowledgeVectorMatch[] = [];
+    for (const vector of this.vectors.values()) {
+      if (
+        vector.workspaceId !== query.workspaceId ||
+        vector.model !== query.model ||
+        vector.embedding.length !== query.embedding.length
+      ) {
+        continue;
+      }
+      matches.push({
+        chunkId: vector.chunkId,
+        articleId: vector.articleId,
+        score: cosineSimilarity(query.embedding, vector.embedding),
+      });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, query.limit);
+  }
+
+  async indexedIds(chunkIds: string[], model: string): Promise<Set<string>> {
+    return new Set(
+      chunkIds.filter((id) => this.vectors.get(id)?.model === model),
+    );
+  }
+
+  async remove(chunkIds: string[]): Promise<void> {
+    chunkIds.forEach((id) => this.vectors.delete(id));
+  }
+}
+
+/**
+ * Vector store selected by `MEMORY_VECTOR_STORE`, as for agent memories:
+ * `local` keeps vectors in memory, anything else uses pgvector
+ */
+export function createKnowledgeVectorStore(
+  prisma?: PrismaClient,
+): KnowledgeVectorStore {
+  return process.env.MEMORY_VECTOR_STORE === "local"
+    ? new LocalKnowledgeVectorStore()
+    : new PgVectorKnowledgeStore(prisma);
+}
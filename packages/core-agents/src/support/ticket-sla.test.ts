@@ -0,0 +1,289 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { SlaError, SupportSla } from "./ticket-sla";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+const minutesAfter = (date: Date, minutes: number) =>
+  new Date(date.getTime() + minutes * 60_000);
+
+describe("SupportSla", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let now: Date;
+  let sla: SupportSla;
+
+  const ticketInput = (ticketId: string, assignedTo: string) => ({
+    ticketId,
+    customer: { email: `${ticketId}@example.com` },
+    subject: `Problem ${ticketId}`,
+    message: "The export keeps failing",
+    channel: "EMAIL" as const,
+    assignedTo,
+  });
+
+  beforeEach(() => {
+    now = new Date("2026-03-02T10:00:00Z");
+    db = createInMemoryPrisma({ now: () => now });
+    sla = new SupportSla(db.prisma, { now: () => now });
+  });
+
+  it("should reject invalid policies with every issue", async () => {
+    const error = await sla
+      .createPolicy("ws-1", {
+        name: " ",
+        firstResponseMinutes: 120,
+        resolutionMinutes: 60,
+        timeZone: "Nowhere/Else",
+        atRiskPercent: 100,
+      })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SlaError);
+    expect(error.code).toBe("INVALID_POLICY");
+    expect(error.issues).toEqual([
+      'Unknown time zone "Nowhere/Else"',
+      "A policy needs a name",
+      "resolutionMinutes can't be shorter than firstResponseMinutes",
+      "atRiskPercent should be between 1 and 99",
+    ]);
+  });
+
+  it("should pick the most specific active policy", async () => {
+    const targets = { firstResponseMinutes: 60, resolutionMinutes: 480 };
+    await sla.createPolicy("ws-1", { name: "Default", ...targets });
+    const high = await sla.createPolicy("ws-1", {
+      name: "High",
+      priority: "HIGH",
+      ...targets,
+    });
+    await sla.createPolicy("ws-1", {
+      name: "Email",
+      channel: "EMAIL",
+      ...targets,
+    });
+    const highEmail = await sla.createPolicy("ws-1", {
+      name: "High email",
+      priority: "HIGH",
+      channel: "EMAIL",
+      ...targets,
+    });
+    await sla.createPolicy("ws-2", { name: "Elsewhere", ...targets });
+
+    const nameFor = async (priority: any, channel: any) =>
+      (await sla.policyFor("ws-1", priority, channel))?.name;
+    expect(await nameFor("HIGH", "EMAIL")).toBe("High email");
+    expect(await nameFor("HIGH", "CHAT")).toBe("High");
+    expect(await nameFor("LOW", "EMAIL")).toBe("Email");
+    expect(await nameFor("LOW", "CHAT")).toBe("Default");
+
+    const updated = await sla.updatePolicy("ws-1", highEmail.id, {
+      active: false,
+    });
+    expect(updated.name).toBe("High email");
+    expect(updated.firstResponseMinutes).toBe(60);
+    expect(await nameFor("HIGH", "EMAIL")).toBe("High");
+
+    await expect(
+      sla.updatePolicy("ws-2", high.id, { name: "Stolen" }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should set deadlines in business time and move them with the priority", async () => {
+    await sla.createPolicy("ws-1", {
+      name: "Office hours",
+      firstResponseMinutes: 60,
+      resolutionMinutes: 480,
+      businessHours: {
+        mon: [["09:00", "17:00"]],
+        tue: [["09:00", "17:00"]],
+        wed: [["09:00", "17:00"]],
+        thu: [["09:00", "17:00"]],
+        fri: [["09:00", "17:00"]],
+      },
+    });
+    await sla.createPolicy("ws-1", {
+      name: "Urgent",
+      priority: "CRITICAL",
+      firstResponseMinutes: 15,
+      resolutionMinutes: 60,
+    });
+    // Friday afternoon
+    now = new Date("2026-03-06T16:30:00Z");
+
+    const ticket = await sla.openTicket("ws-1", ticketInput("T-1", "agent-a"));
+    expect(ticket.firstResponseDueAt).toEqual(new Date("2026-03-09T09:30:00Z"));
+    expect(ticket.resolutionDueAt).toEqual(new Date("2026-03-09T16:30:00Z"));
+
+    now = new Date("2026-03-06T16:40:00Z");
+    const raised = await sla.updateTicket("ws-1", "T-1", {
+      priority: "CRITICAL",
+    });
+    expect(raised.firstResponseDueAt).toEqual(new Date("2026-03-06T16:45:00Z"));
+    expect(raised.resolutionDueAt).toEqual(new Date("2026-03-06T17:30:00Z"));
+
+    const untracked = await sla.openTicket("ws-2", ticketInput("T-2", "a"));
+    expect(untracked.slaPolicyId).toBeNull();
+    expect(untracked.resolutionDueAt).toBeNull();
+  });
+
+  it("should record the first response and the resolution", async () => {
+    await sla.createPolicy("ws-1", {
+      name: "Default",
+      firstResponseMinutes: 60,
+      resolutionMinutes: 240,
+    });
+    const opened = now;
+    await sla.openTicket("ws-1", ticketInput("T-1", "agent-a"));
+
+    now = minutesAfter(opened, 20);
+    const answered = await sla.updateTicket("ws-1", "T-1", {
+      status: "IN_PROGRESS",
+      agentId: "agent-b",
+    });
+    expect(answered.firstRespondedAt).toEqual(now);
+    expect(answered.firstResponseBy).toBe("agent-b");
+
+    now = minutesAfter(opened, 90);
+    const resolved = await sla.updateTicket("ws-1", "T-1", {
+      status: "RESOLVED",
+      resolution: "Re-ran the export",
+    });
+    expect(resolved.resolvedAt).toEqual(now);
+    expect(resolved.firstRespondedAt).toEqual(minutesAfter(opened, 20));
+    expect(resolved.slaState).toBe("ON_TRACK");
+
+    const reopened = await sla.updateTicket("ws-1", "T-1", {
+      status: "IN_PROGRESS",
+    });
+    expect(reopened.resolvedAt).toBeNull();
+
+    await expect(
+      sla.updateTicket("ws-2", "T-1", { status: "CLOSED" }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should flag tickets at risk and escalate a breach once", async () => {
+    await sla.createPolicy("ws-1", {
+      name: "Default",
+      firstResponseMinutes: 60,
+      resolutionMinutes: 240,
+      escalateTo: "lead-1",
+    });
+    const opened = now;
+    await sla.openTicket("ws-1", ticketInput("T-1", "agent-a"));
+
+    now = minutesAfter(opened, 50);
+    expect(await sla.checkDue()).toEqual({
+      checked: 1,
+      atRisk: 1,
+      breached: 0,
+      escalated: 0,
+      reassigned: 0,
+    });
+    expect(db.tables.supportTicket![0]!.slaState).toBe("AT_RISK");
+
+    now = minutesAfter(opened, 61);
+    expect(await sla.checkDue()).toEqual({
+      checked: 1,
+      atRisk: 0,
+      breached: 1,
+      escalated: 1,
+      reassigned: 1,
+    });
+    expect(db.tables.supportTicket![0]).toMatchObject({
+      slaState: "BREACHED",
+      firstResponseBreachedAt: minutesAfter(opened, 60),
+      priority: "HIGH",
+      escalationLevel: 1,
+      assignedTo: "lead-1",
+    });
+    expect(
+      db.tables.supportSlaEvent!.map(({ target, type, assignee }) => [
+        target,
+        type,
+        assignee,
+      ]),
+    ).toEqual([
+      ["FIRST_RESPONSE", "AT_RISK", "agent-a"],
+      ["FIRST_RESPONSE", "BREACHED", "agent-a"],
+      ["FIRST_RESPONSE", "ESCALATED", "agent-a"],
+      ["FIRST_RESPONSE", "REASSIGNED", "agent-a"],
+    ]);
+
+    now = minutesAfter(opened, 75);
+    const again = await sla.checkDue();
+    expect(again.breached + again.escalated + again.reassigned).toBe(0);
+    expect(db.tables.supportTicket![0]!.escalationLevel).toBe(1);
+  });
+
+  it("should summarise SLA results and report them per agent", async () => {
+    await sla.createPolicy("ws-1", {
+      name: "Default",
+      firstResponseMinutes: 60,
+      resolutionMinutes: 240,
+      escalateTo: "lead-1",
+    });
+    const opened = now;
+    await sla.openTicket("ws-1", ticketInput("T-1", "agent-a"));
+    await sla.openTicket("ws-1", ticketInput("T-2", "agent-b"));
+
+    now = minutesAfter(opened, 30);
+    await sla.updateTicket("ws-1", "T-1", {
+      status: "IN_PROGRESS",
+      agentId: "agent-a",
+    });
+    now = minutesAfter(opened, 90);
+    await sla.updateTicket("ws-1", "T-1", { status: "RESOLVED" });
+    await sla.checkDue();
+
+    const range = {
+      start: minutesAfter(opened, -60),
+      end: minutesAfter(opened, 60),
+    };
+    const summary = await sla.summary("ws-1", range);
+    expect(summary).toMatchObject({
+      tracked: 2,
+      onTrack: 1,
+      atRisk: 0,
+      breached: 1,
+      firstResponse: { met: 1, breached: 1, pending: 0 },
+      resolution: { met: 1, breached: 0, pending: 1 },
+      complianceRate: 66.7,
+    });
+    expect(summary.flagged).toEqual([
+      {
+        ticketId: "T-2",
+        subject: "Problem T-2",
+        priority: "HIGH",
+        assignedTo: "lead-1",
+        state: "BREACHED",
+        target: "FIRST_RESPONSE",
+        dueAt: minutesAfter(opened, 60),
+      },
+    ]);
+    expect(
+      (await sla.summary("ws-1", range, { assignedTo: "agent-a" })).tracked,
+    ).toBe(1);
+
+    expect(await sla.agentReport("ws-1", range)).toEqual([
+      {
+        agentId: "agent-a",
+        tickets: 1,
+        firstResponses: { met: 1, breached: 0 },
+        resolutions: { met: 1, breached: 0 },
+        avgFirstResponseMinutes: 30,
+        avgResolutionMinutes: 90,
+        complianceRate: 100,
+        breachesWhileAssigned: 0,
+      },
+      {
+        agentId: "agent-b",
+        tickets: 1,
+        firstResponses: { met: 0, breached: 0 },
+        resolutions: { met: 0, breached: 0 },
+        avgFirstResponseMinutes: null,
+        avgResolutionMinutes: null,
+        complianceRate: 100,
+        breachesWhileAssigned: 1,
+      },
+    ]);
+  });
+});
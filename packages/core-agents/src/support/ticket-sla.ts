@@ -0,0 +1,838 @@
+import {
+  db,
+  type Prisma,
+  type PrismaClient,
+  type SupportChannel,
+  type SupportPriority,
+  type SupportSlaEventType,
+  type SupportSlaPolicy,
+  type SupportSlaState,
+  type SupportSlaTarget,
+  type SupportStatus,
+  type SupportTicket,
+} from "@neon/data-model";
+import { logger } from "@neon/utils";
+import {
+  addBusinessMinutes,
+  businessMinutesBetween,
+  validateBusinessCalendar,
+  WEEKDAYS,
+  type BusinessCalendar,
+  type BusinessHours,
+} from "./business-hours";
+
+/**
+ * SLA policies for support tickets. Each ticket gets first-response and
+ * resolution deadlines from the most specific active policy for its
+ * priority and channel, counted in the policy's business hours. A
+ * background check flags tickets that are at risk, and escalates or
+ * reassigns the ones that breach a deadline.
+ */
+
+export type SlaErrorCode = "INVALID_POLICY" | "NOT_FOUND";
+
+export class SlaError extends Error {
+  constructor(
+    message: string,
+    readonly code: SlaErrorCode,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "SlaError";
+  }
+}
+
+export interface SlaPolicyInput {
+  name: string;
+  // Left out, the policy covers every priority (or channel)
+  priority?: SupportPriority | null | undefined;
+  channel?: SupportChannel | null | undefined;
+  firstResponseMinutes: number;
+  resolutionMinutes: number;
+  timeZone?: string | undefined;
+  businessHours?: BusinessHours | null | undefined;
+  holidays?: string[] | undefined;
+  atRiskPercent?: number | undefined;
+  raisePriority?: boolean | undefined;
+  escalateTo?: string | null | undefined;
+  active?: boolean | undefined;
+}
+
+export type SlaPolicyUpdate = {
+  [K in keyof SlaPolicyInput]?: SlaPolicyInput[K] | undefined;
+};
+
+export interface SupportTicketInput {
+  ticketId: string;
+  customer: Record<string, unknown>;
+  subject: string;
+  message: string;
+  channel: SupportChannel;
+  priority?: SupportPriority | undefined;
+  assignedTo?: string | undefined;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+export interface SupportTicketUpdate {
+  status?: SupportStatus | undefined;
+  priority?: SupportPriority | undefined;
+  assignedTo?: string | null | undefined;
+  resolution?: string | undefined;
+  // Who made the change. The first change that moves a ticket on from
+  // OPEN is its first response.
+  agentId?: string | undefined;
+}
+
+export interface SlaCheckSummary {
+  checked: number;
+  atRisk: number;
+  breached: number;
+  escalated: number;
+  reassigned: number;
+}
+
+export interface SlaTargetCounts {
+  met: number;
+  breached: number;
+  // Open and not yet due
+  pending: number;
+}
+
+export interface SlaTicketFlag {
+  ticketId: string;
+  subject: string;
+  priority: SupportPriority;
+  assignedTo: string | null;
+  state: SupportSlaState;
+  // The deadline at risk or missed first
+  target: SupportSlaTarget;
+  dueAt: Date;
+}
+
+export interface SlaSummary {
+  tracked: number;
+  onTrack: number;
+  atRisk: number;
+  breached: number;
+  firstResponse: SlaTargetCounts;
+  resolution: SlaTargetCounts;
+  // Share of decided targets that were met, 0-100
+  complianceRate: number;
+  // Open tickets needing attention, soonest deadline first
+  flagged: SlaTicketFlag[];
+}
+
+export interface SlaReportRange {
+  start: Date;
+  end: Date;
+}
+
+export interface SlaSummaryFilters {
+  channel?: SupportChannel[] | undefined;
+  priority?: SupportPriority[] | undefined;
+  assignedTo?: string | undefined;
+}
+
+export interface AgentSlaPerformance {
+  agentId: string;
+  tickets: number;
+  firstResponses: { met: number; breached: number };
+  resolutions: { met: number; breached: number };
+  // In business minutes of the tickets' policies
+  avgFirstResponseMinutes: number | null;
+  avgResolutionMinutes: number | null;
+  complianceRate: number;
+  // Breaches of tickets while they were assigned to the agent
+  breachesWhileAssigned: number;
+}
+
+export interface SupportSlaOptions {
+  checkInterval?: number; // milliseconds
+  batchSize?: number;
+  now?: () => Date;
+}
+
+const OPEN_STATUSES: SupportStatus[] = [
+  "OPEN",
+  "IN_PROGRESS",
+  "PENDING_CUSTOMER",
+];
+const PRIORITIES: SupportPriority[] = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+const TARGETS = {
+  FIRST_RESPONSE: {
+    due: "firstResponseDueAt",
+    done: "firstRespondedAt",
+    breached: "firstResponseBreachedAt",
+    minutes: "firstResponseMinutes",
+  },
+  RESOLUTION: {
+    due: "resolutionDueAt",
+    done: "resolvedAt",
+    breached: "resolutionBreachedAt",
+    minutes: "resolutionMinutes",
+  },
+} as const;
+
+const AROUND_THE_CLOCK: Prisma.InputJsonObject = Object.fromEntries(
+  WEEKDAYS.map((day) => [day, [["00:00", "24:00"]]]),
+);
+
+const calendarOf = (policy: SupportSlaPolicy): BusinessCalendar => ({
+  timeZone: policy.timeZone,
+  hours: (policy.businessHours as BusinessHours | null) ?? null,
+  holidays: policy.holidays,
+});
+
+const percent = (part: number, whole: number) =>
+  whole === 0 ? 100 : Math.round((part / whole) * 1000) / 10;
+
+const average = (values: number[]) =>
+  values.length === 0
+    ? null
+    : Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+export class SupportSla {
+  private prisma: PrismaClient;
+  private checkInterval: number;
+  private batchSize: number;
+  private now: () => Date;
+  private running = false;
+  private checkTimer: NodeJS.Timeout | undefined;
+  private currentRun: Promise<SlaCheckSummary> | undefined;
+
+  constructor(prisma?: PrismaClient, options: SupportSlaOptions = {}) {
+    this.prisma = prisma || db;
+    this.checkInterval = options.checkInterval ?? 60 * 1000;
+    this.batchSize = options.batchSize ?? 200;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async createPolicy(
+    workspaceId: string,
+    input: SlaPolicyInput,
+  ): Promise<SupportSlaPolicy> {
+    return this.prisma.supportSlaPolicy.create({
+      data: { workspaceId, ...this.policyData(input) },
+    });
+  }
+
+  // Tickets keep their deadlines; new and re-prioritised tickets get the new ones
+  async updatePolicy(
+    workspaceId: string,
+    policyId: string,
+    update: SlaPolicyUpdate,
+  ): Promise<SupportSlaPolicy> {
+    const existing = await this.findPolicy(workspaceId, policyId);
+    const data = this.policyData({
+      ...existing,
+      businessHours: existing.businessHours as BusinessHours | null,
+      ...Object.fromEntries(
+        Object.entries(update).filter(([, value]) => value !== undefined),
+      ),
+    });
+    return this.prisma.supportSlaPolicy.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        // Back to around the clock; the column can't be cleared to null here
+        ...(update.businessHours === null &&
+          existing.businessHours && { businessHours: AROUND_THE_CLOCK }),
+      },
+    });
+  }
+
+  listPolicies(workspaceId: string): Promise<SupportSlaPolicy[]> {
+    return this.prisma.supportSlaPolicy.findMany({
+      where: { workspaceId },
+      orderBy: [{ active: "desc" }, { name: "asc" }],
+    });
+  }
+
+  /**
+   * The active policy for a priority and channel: one naming both wins
+   * over one naming the priority, then the channel, then neither
+   */
+  async policyFor(
+    workspaceId: string,
+    priority: SupportPriority,
+    channel: SupportChannel,
+  ): Promise<SupportSlaPolicy | null> {
+    const policies = await this.prisma.supportSlaPolicy.findMany({
+      where: { workspaceId, active: true },
+      orderBy: { updatedAt: "desc" },
+    });
+    let best: SupportSlaPolicy | null = null;
+    let bestScore = -1;
+    for (const policy of policies) {
+      if (policy.priority && policy.priority !== priority) continue;
+      if (policy.channel && policy.channel !== channel) continue;
+      const score = (policy.priority ? 2 : 0) + (policy.channel ? 1 : 0);
+      if (score > bestScore) {
+        best = policy;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Store a new ticket with its SLA deadlines
+   */
+  async openTicket(
+    workspaceId: string,
+    input: SupportTicketInput,
+  ): Promise<SupportTicket> {
+    const priority = input.priority ?? "MEDIUM";
+    const createdAt = this.now();
+    const policy = await this.policyFor(workspaceId, priority, input.channel);
+
+    return this.prisma.supportTicket.create({
+      data: {
+        workspaceId,
+        ticketId: input.ticketId,
+        customer: input.customer as Prisma.InputJsonValue,
+        subject: input.subject,
+        channel: input.channel,
+        priority,
+        messages: [
+          {
+            role: "customer",
+            content: input.message,
+            at: createdAt.toISOString(),
+          },
+        ] as Prisma.InputJsonValue,
+        assignedTo: input.assignedTo ?? null,
+        ...(input.metadata && {
+          metadata: input.metadata as Prisma.InputJsonValue,
+        }),
+        createdAt,
+        ...this.deadlines(policy, createdAt),
+      },
+    });
+  }
+
+  /**
+   * Apply a status, priority or assignment change. Records the first
+   * response and resolution times, and moves the deadlines when the
+   * priority changes.
+   */
+  async updateTicket(
+    workspaceId: string,
+    ticketId: string,
+    update: SupportTicketUpdate,
+  ): Promise<SupportTicket> {
+    const ticket = await this.prisma.supportTicket.findFirst({
+      where: { ticketId, workspaceId },
+    });
+    if (!ticket) throw new SlaError("Ticket not found", "NOT_FOUND");
+    const now = this.now();
+    const data: Prisma.SupportTicketUncheckedUpdateInput = {};
+
+    if (update.assignedTo !== undefined) data.assignedTo = update.assignedTo;
+    if (update.resolution !== undefined) data.resolution = update.resolution;
+    if (update.status && update.status !== ticket.status) {
+      data.status = update.status;
+      if (update.status !== "OPEN" && !ticket.firstRespondedAt) {
+        data.firstRespondedAt = now;
+        data.firstResponseBy =
+          update.agentId ?? update.assignedTo ?? ticket.assignedTo;
+      }
+      if (update.status === "RESOLVED" || update.status === "CLOSED") {
+        if (!ticket.resolvedAt) data.resolvedAt = now;
+      } else if (ticket.resolvedAt) {
+        // Reopened: the resolution deadline applies again
+        data.resolvedAt = null;
+      }
+    }
+    if (update.priority && update.priority !== ticket.priority) {
+      data.priority = update.priority;
+      const policy = await this.policyFor(
+        workspaceId,
+        update.priority,
+        ticket.channel,
+      );
+      Object.assign(data, this.deadlines(policy, ticket.createdAt));
+    }
+
+    const updated = await this.prisma.supportTicket.update({
+      where: { id: ticket.id },
+      data,
+    });
+    await this.evaluate(updated, now);
+    return this.prisma.supportTicket.findUniqueOrThrow({
+      where: { id: ticket.id },
+    });
+  }
+
+  /**
+   * Check every open ticket against its deadlines once
+   */
+  async checkDue(): Promise<SlaCheckSummary> {
+    const summary: SlaCheckSummary = {
+      checked: 0,
+      atRisk: 0,
+      breached: 0,
+      escalated: 0,
+      reassigned: 0,
+    };
+    const now = this.now();
+    let cursor: string | undefined;
+
+    for (;;) {
+      const tickets = await this.prisma.supportTicket.findMany({
+        where: {
+          status: { in: OPEN_STATUSES },
+          resolutionDueAt: { not: null },
+          resolutionBreachedAt: null,
+        },
+        orderBy: { id: "asc" },
+        take: this.batchSize,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (tickets.length === 0) break;
+      cursor = tickets[tickets.length - 1]!.id;
+
+      for (const ticket of tickets) {
+        summary.checked++;
+        try {
+          const events = await this.evaluate(ticket, now);
+          for (const type of events) {
+            if (type === "AT_RISK") summary.atRisk++;
+            if (type === "BREACHED") summary.breached++;
+            if (type === "ESCALATED") summary.escalated++;
+            if (type === "REASSIGNED") summary.reassigned++;
+          }
+        } catch (error) {
+          logger.error(
+            "SLA check failed for ticket",
+            { ticketId: ticket.ticketId, error },
+            "SupportSla",
+          );
+        }
+      }
+      if (tickets.length < this.batchSize) break;
+    }
+    return summary;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    logger.info("SLA monitor started", {}, "SupportSla");
+    await this.check();
+  }
+
+  /**
+   * Stop checking and wait for the check in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.checkTimer) {
+      clearTimeout(this.checkTimer);
+      this.checkTimer = undefined;
+    }
+    await this.currentRun;
+  }
+
+  /**
+   * SLA results of the tickets created in a range, with the open tickets
+   * that are at risk or breached
+   */
+  async summary(
+    workspaceId: string,
+    range: SlaReportRange,
+    filters: SlaSummaryFilters = {},
+  ): Promise<SlaSummary> {
+    const tickets = await this.prisma.supportTicket.findMany({
+      where: {
+        workspaceId,
+        createdAt: { gte: range.start, lte: range.end },
+        resolutionDueAt: { not: null },
+        ...(filters.channel && { channel: { in: filters.channel } }),
+        ...(filters.priority && { priority: { in: filters.priority } }),
+        ...(filters.assignedTo && { assignedTo: filters.assignedTo }),
+      },
+    });
+
+    const counts = (target: keyof typeof TARGETS): SlaTargetCounts => {
+      const fields = TARGETS[target];
+      const result = { met: 0, breached: 0, pending: 0 };
+      for (const ticket of tickets) {
+        if (ticket[fields.breached]) result.breached++;
+        else if (ticket[fields.done]) result.met++;
+        else result.pending++;
+      }
+      return result;
+    };
+    const firstResponse = counts("FIRST_RESPONSE");
+    const resolution = counts("RESOLUTION");
+
+    const flagged: SlaTicketFlag[] = [];
+    for (const ticket of tickets) {
+      if (!OPEN_STATUSES.includes(ticket.status)) continue;
+      if (ticket.slaState === "ON_TRACK") continue;
+      const target =
+        !ticket.firstRespondedAt && ticket.firstResponseDueAt
+          ? "FIRST_RESPONSE"
+          : "RESOLUTION";
+      flagged.push({
+        ticketId: ticket.ticketId,
+        subject: ticket.subject,
+        priority: ticket.priority,
+        assignedTo: ticket.assignedTo,
+        state: ticket.slaState,
+        target,
+        dueAt: ticket[TARGETS[target].due]!,
+      });
+    }
+
+    const decided =
+      firstResponse.met +
+      firstResponse.breached +
+      resolution.met +
+      resolution.breached;
+    return {
+      tracked: tickets.length,
+      onTrack: tickets.filter((t) => t.slaState === "ON_TRACK").length,
+      atRisk: tickets.filter((t) => t.slaState === "AT_RISK").length,
+      breached: tickets.filter((t) => t.slaState === "BREACHED").length,
+      firstResponse,
+      resolution,
+      complianceRate: percent(firstResponse.met + resolution.met, decided),
+      flagged: flagged.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime()),
+    };
+  }
+
+  /**
+   * SLA performance per support agent for the tickets created in a range.
+   * First responses count for the agent who gave them, resolutions for
+   * the agent the ticket was assigned to.
+   */
+  async agentReport(
+    workspaceId: string,
+    range: SlaReportRange,
+  ): Promise<AgentSlaPerformance[]> {
+    const [tickets, events] = await Promise.all([
+      this.prisma.supportTicket.findMany({
+        where: {
+          workspaceId,
+          createdAt: { gte: range.start, lte: range.end },
+          resolutionDueAt: { not: null },
+        },
+        include: { slaPolicy: true },
+      }),
+      this.prisma.supportSlaEvent.findMany({
+        where: {
+          workspaceId,
+          type: "BREACHED",
+          createdAt: { gte: range.start },
+          assignee: { not: null },
+        },
+      }),
+    ]);
+
+    const agents = new Map<
+      string,
+      {
+        tickets: Set<string>;
+        firstResponses: { met: number; breached: number };
+        resolutions: { met: number; breached: number };
+        firstResponseMinutes: number[];
+        resolutionMinutes: number[];
+      }
+    >();
+    const agent = (agentId: string) => {
+      let entry = agents.get(agentId);
+      if (!entry) {
+        entry = {
+          tickets: new Set(),
+          firstResponses: { met: 0, breached: 0 },
+          resolutions: { met: 0, breached: 0 },
+          firstResponseMinutes: [],
+          resolutionMinutes: [],
+        };
+        agents.set(agentId, entry);
+      }
+      return entry;
+    };
+    const elapsed = (ticket: (typeof tickets)[number], end: Date) =>
+      ticket.slaPolicy
+        ? businessMinutesBetween(
+            ticket.createdAt,
+            end,
+            calendarOf(ticket.slaPolicy),
+          )
+        : (end.getTime() - ticket.createdAt.getTime()) / 60_000;
+
+    for (const ticket of tickets) {
+      if (ticket.firstRespondedAt && ticket.firstResponseBy) {
+        const entry = agent(ticket.firstResponseBy);
+        entry.tickets.add(ticket.id);
+        entry.firstResponses[
+          ticket.firstResponseBreachedAt ? "breached" : "met"
+        ]++;
+        entry.firstResponseMinutes.push(
+          elapsed(ticket, ticket.firstRespondedAt),
+        );
+      }
+      if (ticket.resolvedAt && ticket.assignedTo) {
+        const entry = agent(ticket.assignedTo);
+        entry.tickets.add(ticket.id);
+        entry.resolutions[ticket.resolutionBreachedAt ? "breached" : "met"]++;
+        entry.resolutionMinutes.push(elapsed(ticket, ticket.resolvedAt));
+      }
+    }
+    const inRange = new Set(tickets.map((ticket) => ticket.id));
+    const breaches = new Map<string, number>();
+    for (const event of events) {
+      if (!inRange.has(event.ticketId)) continue;
+      agent(event.assignee!).tickets.add(event.ticketId);
+      breaches.set(event.assignee!, (breaches.get(event.assignee!) ?? 0) + 1);
+    }
+
+    return [...agents.entries()]
+      .map(([agentId, entry]) => {
+        const met = entry.firstResponses.met + entry.resolutions.met;
+        const breached =
+          entry.firstResponses.breached + entry.resolutions.breached;
+        return {
+          agentId,
+          tickets: entry.tickets.size,
+          firstResponses: entry.firstResponses,
+          resolutions: entry.resolutions,
+          avgFirstResponseMinutes: average(entry.firstResponseMinutes),
+          avgResolutionMinutes: average(entry.resolutionMinutes),
+          complianceRate: percent(met, met + breached),
+          breachesWhileAssigned: breaches.get(agentId) ?? 0,
+        };
+      })
+      .sort(
+        (a, b) => b.tickets - a.tickets || a.agentId.localeCompare(b.agentId),
+      );
+  }
+
+  private async check(): Promise<void> {
+    try {
+      this.currentRun = this.checkDue();
+      const summary = await this.currentRun;
+      logger.debug("SLA check", { ...summary }, "SupportSla");
+    } catch (error) {
+      logger.error("SLA check failed", { error }, "SupportSla");
+    } finally {
+      this.currentRun = undefined;
+    }
+
+    if (this.running) {
+      this.checkTimer = setTimeout(() => void this.check(), this.checkInterval);
+    }
+  }
+
+  private async findPolicy(
+    workspaceId: string,
+    policyId: string,
+  ): Promise<SupportSlaPolicy> {
+    const policy = await this.prisma.supportSlaPolicy.findFirst({
+      where: { id: policyId, workspaceId },
+    });
+    if (!policy) throw new SlaError("SLA policy not found", "NOT_FOUND");
+    return policy;
+  }
+
+  // Validated policy columns
+  private policyData(input: SlaPolicyInput) {
+    const calendar = {
+      timeZone: input.timeZone ?? "UTC",
+      hours: input.businessHours ?? null,
+      holidays: input.holidays ?? [],
+    };
+    const atRiskPercent = input.atRiskPercent ?? 80;
+    const issues = validateBusinessCalendar(calendar);
+    if (!input.name?.trim()) issues.push("A policy needs a name");
+    for (const field of [
+      "firstResponseMinutes",
+      "resolutionMinutes",
+    ] as const) {
+      if (!Number.isInteger(input[field]) || input[field] <= 0) {
+        issues.push(`${field} should be a positive number of minutes`);
+      }
+    }
+    if (input.resolutionMinutes < input.firstResponseMinutes) {
+      issues.push(
+        "resolutionMinutes can't be shorter than firstResponseMinutes",
+      );
+    }
+    if (!(atRiskPercent > 0 && atRiskPercent < 100)) {
+      issues.push("atRiskPercent should be between 1 and 99");
+    }
+    if (issues.length > 0) {
+      throw new SlaError("Invalid SLA policy", "INVALID_POLICY", issues);
+    }
+
+    return {
+      name: input.name.trim(),
+      priority: input.priority ?? null,
+      channel: input.channel ?? null,
+      firstResponseMinutes: input.firstResponseMinutes,
+      resolutionMinutes: input.resolutionMinutes,
+      timeZone: calendar.timeZone,
+      ...(calendar.hours && {
+        businessHours: calendar.hours as Prisma.InputJsonValue,
+      }),
+      holidays: calendar.holidays,
+      atRiskPercent,
+      raisePriority: input.raisePriority ?? true,
+      escalateTo: input.escalateTo ?? null,
+      active: input.active ?? true,
+    };
+  }
+
+  private deadlines(policy: SupportSlaPolicy | null, createdAt: Date) {
+    if (!policy) {
+      return {
+        slaPolicyId: null,
+        firstResponseDueAt: null,
+        resolutionDueAt: null,
+      };
+    }
+    const calendar = calendarOf(policy);
+    return {
+      slaPolicyId: policy.id,
+      firstResponseDueAt: addBusinessMinutes(
+        createdAt,
+        policy.firstResponseMinutes,
+        calendar,
+      ),
+      resolutionDueAt: addBusinessMinutes(
+        createdAt,
+        policy.resolutionMinutes,
+        calendar,
+      ),
+    };
+  }
+
+  /**
+   * Bring a ticket's SLA state up to date: flag targets at risk, record
+   * breaches (including targets met late) and escalate open tickets that
+   * breach. Returns the events recorded.
+   */
+  private async evaluate(
+    ticket: SupportTicket,
+    now: Date,
+  ): Promise<SupportSlaEventType[]> {
+    const policy = ticket.slaPolicyId
+      ? await this.prisma.supportSlaPolicy.findUnique({
+          where: { id: ticket.slaPolicyId },
+        })
+      : null;
+    const open = OPEN_STATUSES.includes(ticket.status);
+    const data: Prisma.SupportTicketUncheckedUpdateInput = {};
+    const recorded: SupportSlaEventType[] = [];
+    let state: SupportSlaState = "ON_TRACK";
+    let priority = ticket.priority;
+    let assignedTo = ticket.assignedTo;
+
+    for (const target of ["FIRST_RESPONSE", "RESOLUTION"] as const) {
+      const fields = TARGETS[target];
+      const due = ticket[fields.due];
+      if (!due) continue;
+      const done = ticket[fields.done];
+
+      if (ticket[fields.breached] || (done ?? now) > due) {
+        state = "BREACHED";
+        if (ticket[fields.breached]) continue;
+        data[fields.breached] = due;
+        if (await this.record(ticket, target, "BREACHED", assignedTo)) {
+          recorded.push("BREACHED");
+        }
+        // Targets met late are only recorded
+        if (done || !open || !policy) continue;
+
+        if (policy.raisePriority && priority !== "CRITICAL") {
+          const raised = PRIORITIES[PRIORITIES.indexOf(priority) + 1]!;
+          const escalated = await this.record(
+            ticket,
+            target,
+            "ESCALATED",
+            assignedTo,
+            {
+              from: priority,
+              to: raised,
+            },
+          );
+          if (escalated) {
+            recorded.push("ESCALATED");
+            priority = raised;
+            data.priority = raised;
+            data.escalationLevel = { increment: 1 };
+          }
+        }
+        if (policy.escalateTo && policy.escalateTo !== assignedTo) {
+          const reassigned = await this.record(
+            ticket,
+            target,
+            "REASSIGNED",
+            assignedTo,
+            {
+              to: policy.escalateTo,
+            },
+          );
+          if (reassigned) {
+            recorded.push("REASSIGNED");
+            assignedTo = policy.escalateTo;
+            data.assignedTo = policy.escalateTo;
+          }
+        }
+        logger.warn(
+          "Support ticket breached its SLA",
+          { ticketId: ticket.ticketId, target, priority, assignedTo },
+          "SupportSla",
+        );
+      } else if (!done && open && state !== "BREACHED" && policy) {
+        const atRiskAt = addBusinessMinutes(
+          ticket.createdAt,
+          (policy[fields.minutes] * policy.atRiskPercent) / 100,
+          calendarOf(policy),
+        );
+        if (now >= atRiskAt) {
+          state = "AT_RISK";
+          if (await this.record(ticket, target, "AT_RISK", assignedTo)) {
+            recorded.push("AT_RISK");
+          }
+        }
+      }
+    }
+
+    if (state !== ticket.slaState) data.slaState = state;
+    if (Object.keys(data).length > 0) {
+      await this.prisma.supportTicket.update({
+        where: { id: ticket.id },
+        data,
+      });
+    }
+    return recorded;
+  }
+
+  // Record an event once; false when it was already recorded
+  private async record(
+    ticket: SupportTicket,
+    target: SupportSlaTarget,
+    type: SupportSlaEventType,
+    assignee: string | null,
+    details?: Record<string, string>,
+  ): Promise<boolean> {
+    const { count } = await this.prisma.supportSlaEvent.createMany({
+      data: [
+        {
+          ticketId: ticket.id,
+          workspaceId: ticket.workspaceId,
+          target,
+          type,
+          assignee,
+          ...(details && { details }),
+        },
+      ],
+      skipDuplicates: true,
+    });
+    return count > 0;
+  }
+}
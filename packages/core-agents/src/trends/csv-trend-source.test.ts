@@ -0,0 +1,78 @@
+import { describe, it, expect } from "@jest/globals";
+import { CsvTrendSource, parseCsv } from "./csv-trend-source";
+import { TrendSourceError } from "./types";
+
+describe("parseCsv", () => {
+  it("reads quoted cells with commas, quotes and line breaks", () => {
+    expect(
+      parseCsv('\uFEFFkeyword,note\r\n"a, b","say ""hi""\nthere"\r\nc,\n'),
+    ).toEqual([
+      ["keyword", "note"],
+      ["a, b", 'say "hi"\nthere'],
+      ["c", ""],
+    ]);
+  });
+});
+
+describe("CsvTrendSource", () => {
+  it("scores rows by volume when the file has no score column", async () => {
+    const source = new CsvTrendSource({
+      name: "export.csv",
+      platform: "TIKTOK",
+      csv: [
+        "Hashtag,Posts,Change,Type,Date",
+        '#summerdrop,"40,000",25%,hashtag,2026-06-01',
+        "#beachday,10000,-0.1,hashtag,2026-06-01",
+      ].join("\n"),
+    });
+    const batch = await source.fetch();
+
+    expect(batch).toMatchObject({
+      source: "csv:export.csv",
+      adapter: "csv",
+      origin: "export.csv",
+    });
+    expect(batch.observations).toEqual([
+      expect.objectContaining({
+        keyword: "#summerdrop",
+        kind: "hashtag",
+        platform: "TIKTOK",
+        score: 100,
+        volume: 40000,
+        growth: 0.25,
+        observedAt: new Date("2026-06-01"),
+      }),
+      expect.objectContaining({
+        keyword: "#beachday",
+        score: 25,
+        growth: -0.1,
+      }),
+    ]);
+  });
+
+  it("reports every invalid row when the source is created", () => {
+    let error: TrendSourceError | undefined;
+    try {
+      new CsvTrendSource({
+        name: "bad.csv",
+        csv: "term,score,platform\n,10,TWITTER\nlaunch,high,MYSPACE\n",
+      });
+    } catch (caught) {
+      error = caught as TrendSourceError;
+    }
+
+    expect(error).toBeInstanceOf(TrendSourceError);
+    expect(error?.code).toBe("INVALID_CSV");
+    expect(error?.issues).toEqual([
+      "Row 2: no keyword",
+      "Row 3: unknown platform MYSPACE",
+      'Row 3: score "high" is not a number',
+    ]);
+  });
+
+  it("needs a keyword column", () => {
+    expect(
+      () => new CsvTrendSource({ name: "x.csv", csv: "name,volume\na,1" }),
+    ).toThrow("The CSV file needs a keyword column");
+  });
+});
@@ -0,0 +1,196 @@
+import type { Platform } from "@neon/data-model";
+import {
+  relativeScores,
+  TREND_KINDS,
+  TrendSourceError,
+  type TrendBatch,
+  type TrendKind,
+  type TrendObservation,
+  type TrendSource,
+} from "./types";
+
+export interface CsvTrendSourceOptions {
+  // File name, stored as "csv:<name>"
+  name: string;
+  csv: string;
+  // For rows without a platform, kind or region column
+  platform?: Platform | undefined;
+  kind?: TrendKind | undefined;
+  region?: string | undefined;
+}
+
+const PLATFORMS: Platform[] = [
+  "FACEBOOK",
+  "INSTAGRAM",
+  "TIKTOK",
+  "TWITTER",
+  "LINKEDIN",
+  "YOUTUBE",
+];
+
+// Header names each column is recognised by, lower-cased
+const COLUMNS = {
+  keyword: ["keyword", "term", "topic", "hashtag", "query"],
+  score: ["score", "interest"],
+  volume: ["volume", "searches", "mentions", "posts"],
+  growth: ["growth", "change"],
+  sentiment: ["sentiment"],
+  platform: ["platform"],
+  kind: ["kind", "type"],
+  region: ["region", "geo", "country"],
+  observedAt: ["date", "observed_at", "observedat", "time"],
+  url: ["url", "link"],
+};
+
+/**
+ * Trends from a CSV export, e.g. of a trends tool or a spreadsheet. The
+ * file needs a keyword column; scores are worked out from the volumes
+ * when it has no score column. Growth can be a fraction or a percentage
+ * ("12%"). The file is checked when the source is created.
+ */
+export class CsvTrendSource implements TrendSource {
+  readonly name: string;
+  readonly adapter = "csv" as const;
+  private observations: TrendObservation[];
+
+  constructor(options: CsvTrendSourceOptions) {
+    this.name = `csv:${options.name}`;
+    this.observations = parseTrendCsv(options);
+  }
+
+  async fetch(): Promise<TrendBatch> {
+    return {
+      source: this.name,
+      adapter: "csv",
+      origin: this.name.slice("csv:".length),
+      fetchedAt: new Date(),
+      observations: this.observations,
+    };
+  }
+}
+
+function parseTrendCsv(options: CsvTrendSourceOptions): TrendObservation[] {
+  const [header, ...rows] = parseCsv(options.csv).filter((row) =>
+    row.some((cell) => cell.trim()),
+  );
+  if (!header) {
+    throw new TrendSourceError("The CSV file is empty", "INVALID_CSV");
+  }
+  const names = header.map((name) => name.trim().toLowerCase());
+  const column = Object.fromEntries(
+    Object.entries(COLUMNS).map(([field, aliases]) => [
+      field,
+      names.findIndex((name) => aliases.includes(name)),
+    ]),
+  ) as Record<keyof typeof COLUMNS, number>;
+  if (column.keyword < 0) {
+    throw new TrendSourceError(
+      "The CSV file needs a keyword column",
+      "INVALID_CSV",
+      [`Columns: ${header.join(", ")}`],
+    );
+  }
+
+  const issues: string[] = [];
+  const observations = rows.map((row, index) => {
+    const at = `Row ${index + 2}`;
+    const cell = (field: keyof typeof COLUMNS) =>
+      column[field] >= 0 ? row[column[field]]?.trim() || undefined : undefined;
+    const number = (field: keyof typeof COLUMNS) => {
+      const value = cell(field);
+      if (value === undefined) return undefined;
+      const parsed = Number(value.replace(/[,%]/g, ""));
+      if (Number.isNaN(parsed)) {
+        issues.push(`${at}: ${field} "${value}" is not a number`);
+        return undefined;
+      }
+      return field === "growth" && value.endsWith("%") ? parsed / 100 : parsed;
+    };
+
+    const keyword = cell("keyword");
+    if (!keyword) issues.push(`${at}: no keyword`);
+    const platform = cell("platform")?.toUpperCase() ?? options.platform;
+    if (platform && !PLATFORMS.includes(platform as Platform)) {
+      issues.push(`${at}: unknown platform ${platform}`);
+    }
+    const kind = cell("kind")?.toLowerCase() ?? options.kind ?? "topic";
+    if (!TREND_KINDS.includes(kind as TrendKind)) {
+      issues.push(`${at}: kind must be one of ${TREND_KINDS.join(", ")}`);
+    }
+    const date = cell("observedAt");
+    const observedAt = date ? new Date(date) : undefined;
+    if (observedAt && Number.isNaN(observedAt.getTime())) {
+      issues.push(`${at}: "${date}" is not a date`);
+    }
+
+    return {
+      keyword: keyword ?? "",
+      kind: kind as TrendKind,
+      platform: platform as Platform | undefined,
+      region: cell("region") ?? options.region,
+      score: number("score") ?? -1,
+      volume: number("volume"),
+      growth: number("growth"),
+      sentiment: number("sentiment"),
+      observedAt,
+      url: cell("url"),
+    };
+  });
+  if (issues.length > 0) {
+    throw new TrendSourceError("Invalid trends CSV", "INVALID_CSV", issues);
+  }
+
+  // Without a score column, rank by volume
+  if (column.score < 0) {
+    const scores = relativeScores(observations.map((row) => row.volume ?? 0));
+    observations.forEach((row, index) => (row.score = scores[index]!));
+  }
+  return observations.map((row) => ({
+    ...row,
+    score: Math.min(100, Math.max(0, row.score)),
+  }));
+}
+
+/**
+ * Rows of an RFC 4180 CSV: quoted cells can hold commas, quotes ("") and
+ * line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
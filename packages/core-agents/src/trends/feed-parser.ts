@@ -0,0 +1,96 @@
+import { load } from "cheerio";
+import { TrendSourceError } from "./types";
+
+/**
+ * Items of an RSS 2.0, RSS 1.0 (RDF) or Atom feed. Elements from other
+ * namespaces, such as Google Trends' `ht:approx_traffic`, are kept by
+ * their qualified name in `extensions`.
+ */
+
+export interface FeedItem {
+  title: string;
+  link?: string | undefined;
+  // Plain text of the description or summary
+  summary?: string | undefined;
+  publishedAt?: Date | undefined;
+  categories: string[];
+  extensions: Record<string, string[]>;
+}
+
+export interface Feed {
+  title?: string | undefined;
+  items: FeedItem[];
+}
+
+export function parseFeed(xml: string, source = "Feed"): Feed {
+  const $ = load(xml, { xml: true });
+  const root = $.root().children().first();
+  const rootName = root.prop("tagName")?.toLowerCase();
+  if (!rootName || !["rss", "feed", "rdf:rdf"].includes(rootName)) {
+    throw new TrendSourceError(
+      `${source} is not an RSS or Atom feed`,
+      "INVALID_RESPONSE",
+    );
+  }
+
+  const text = (value: string | undefined): string | undefined => {
+    const trimmed = value?.trim();
+    // Descriptions are often HTML
+    return trimmed
+      ? load(trimmed).text().replace(/\s+/g, " ").trim()
+      : undefined;
+  };
+  const date = (value: string | undefined): Date | undefined => {
+    const parsed = value ? new Date(value.trim()) : undefined;
+    return parsed && !Number.isNaN(parsed.getTime()) ? parsed : undefined;
+  };
+
+  const items = root
+    .find("item, entry")
+    .toArray()
+    .map((element) => {
+      const item = $(element);
+      const child = (...names: string[]) => {
+        for (const name of names) {
+          const found = item.children(name.replace(":", "\\:")).first();
+          if (found.length) return found;
+        }
+        return undefined;
+      };
+      const link = child("link");
+
+      const extensions: Record<string, string[]> = {};
+      item.find("*").each((_, node) => {
+        const name = (node as { tagName?: string }).tagName;
+        if (!name?.includes(":")) return;
+        const value = $(node).children().length ? "" : $(node).text().trim();
+        if (value) (extensions[name] ??= []).push(value);
+      });
+
+      return {
+        title: text(child("title")?.text()) ?? "",
+        // Atom links are in the href attribute
+        link: link?.attr("href") ?? (link?.text().trim() || undefined),
+        summary: text(child("description", "summary", "content")?.text()),
+        publishedAt: date(
+          child("pubDate", "published", "updated", "dc:date")?.text(),
+        ),
+        categories: item
+          .children("category")
+          .toArray()
+          .map((category) =>
+            ($(category).attr("term") ?? $(category).text()).trim(),
+          )
+          .filter(Boolean),
+        extensions,
+      };
+    });
+
+  return {
+    title: text(
+      root.children("channel").children("title").first().text() ||
+        root.children("title").first().text(),
+    ),
+    items,
+  };
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "@jest/globals";
+import { FeedTrendSource } from "./feed-trend-source";
+import { SearchTrendsSource } from "./search-trends-source";
+import { TrendSourceError } from "./types";
+
+// A fetch that answers every request with the same body
+const respondWith =
+  (body: string, status = 200): typeof fetch =>
+  async () =>
+    new Response(body, { status });
+
+const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Marketing News</title>
+  <item>
+    <title>Retailers test AI agents for checkout</title>
+    <link>https://news.example.com/1</link>
+    <description><![CDATA[<p>Early results from <b>AI agents</b>.</p>]]></description>
+    <pubDate>Mon, 05 Oct 2026 09:00:00 GMT</pubDate>
+  </item>
+  <item>
+    <title>Why AI Agents need guardrails</title>
+    <link>https://news.example.com/2</link>
+    <pubDate>Tue, 06 Oct 2026 09:00:00 GMT</pubDate>
+  </item>
+  <item>
+    <title>Email open rates hold steady</title>
+    <link>https://news.example.com/3</link>
+  </item>
+</channel></rss>`;
+
+const atom = `<?xml version="1.0"?>
+<feed xmlns="http://www.w3.org/2005/Atom"><title>Creator Blog</title>
+  <entry>
+    <title>Summer launch #SummerDrop</title>
+    <link href="https://blog.example.com/a"/>
+    <category term="Launches"/>
+    <updated>2026-10-01T10:00:00Z</updated>
+  </entry>
+  <entry>
+    <title>Behind the scenes</title>
+    <summary>More on #summerdrop</summary>
+    <link href="https://blog.example.com/b"/>
+    <category term="Launches"/>
+    <updated>2026-10-02T10:00:00Z</updated>
+  </entry>
+  <entry>
+    <title>Hiring</title>
+    <category term="Company"/>
+  </entry>
+</feed>`;
+
+const googleTrends = `<?xml version="1.0"?>
+<rss xmlns:ht="https://trends.google.com/trending/rss" version="2.0"><channel>
+  <item>
+    <title>solar eclipse</title>
+    <ht:approx_traffic>200K+</ht:approx_traffic>
+    <ht:news_item>
+      <ht:news_item_title>Where to watch the eclipse</ht:news_item_title>
+      <ht:news_item_url>https://news.example.com/eclipse</ht:news_item_url>
+    </ht:news_item>
+  </item>
+  <item>
+    <title>world series</title>
+    <ht:approx_traffic>50,000+</ht:approx_traffic>
+  </item>
+</channel></rss>`;
+
+describe("FeedTrendSource", () => {
+  it("counts the items that mention each keyword", async () => {
+    const source = new FeedTrendSource({
+      url: "https://news.example.com/feed.xml",
+      keywords: ["AI agents", "email", "podcasts"],
+      fetch: respondWith(rss),
+    });
+    const batch = await source.fetch();
+
+    expect(batch).toMatchObject({
+      source: "rss:news.example.com",
+      adapter: "feed",
+      origin: "https://news.example.com/feed.xml",
+    });
+    expect(batch.observations).toEqual([
+      expect.objectContaining({
+        keyword: "AI agents",
+        kind: "news",
+        score: 100,
+        volume: 2,
+        // The newest mention
+        url: "https://news.example.com/2",
+        observedAt: new Date("2026-10-06T09:00:00Z"),
+      }),
+      expect.objectContaining({ keyword: "email", score: 50, volume: 1 }),
+    ]);
+  });
+
+  it("counts shared categories and hashtags of an Atom feed", async () => {
+    const source = new FeedTrendSource({
+      url: "https://blog.example.com/atom",
+      fetch: respondWith(atom),
+    });
+    const { observations } = await source.fetch();
+
+    expect(
+      observations.map(({ keyword, kind, volume, url }) => [
+        keyword,
+        kind,
+        volume,
+        url,
+      ]),
+    ).toEqual([
+      ["Launches", "topic", 2, "https://blog.example.com/b"],
+      ["#SummerDrop", "hashtag", 2, "https://blog.example.com/b"],
+    ]);
+  });
+
+  it("fails on responses that are not feeds", async () => {
+    const notFound = new FeedTrendSource({
+      url: "https://news.example.com/feed.xml",
+      fetch: respondWith("Not found", 404),
+    });
+    await expect(notFound.fetch()).rejects.toMatchObject({
+      code: "FETCH_FAILED",
+    });
+
+    const html = new FeedTrendSource({
+      url: "https://news.example.com/",
+      fetch: respondWith("<html><body>Hi</body></html>"),
+    });
+    await expect(html.fetch()).rejects.toBeInstanceOf(TrendSourceError);
+  });
+});
+
+describe("SearchTrendsSource", () => {
+  it("reads approximate traffic and news articles from Google Trends", async () => {
+    const source = new SearchTrendsSource({
+      geo: "gb",
+      fetch: respondWith(googleTrends),
+    });
+    const batch = await source.fetch();
+
+    expect(batch).toMatchObject({
+      source: "google-trends:GB",
+      adapter: "search",
+      origin: "https://trends.google.com/trending/rss?geo=GB",
+    });
+    expect(batch.observations).toEqual([
+      expect.objectContaining({
+        keyword: "solar eclipse",
+        kind: "search",
+        region: "GB",
+        score: 100,
+        volume: 200000,
+        url: "https://news.example.com/eclipse",
+        related: ["Where to watch the eclipse"],
+      }),
+      expect.objectContaining({
+        keyword: "world series",
+        score: 25,
+        volume: 50000,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { parseFeed, type FeedItem } from "./feed-parser";
+import {
+  fetchSource,
+  relativeScores,
+  type TrendBatch,
+  type TrendKind,
+  type TrendSource,
+} from "./types";
+
+export interface FeedTrendSourceOptions {
+  url: string;
+  // Defaults to "rss:<host>"
+  name?: string;
+  // Keywords to count mentions of; without them the feed's categories
+  // and hashtags are counted
+  keywords?: string[];
+  // Categories and hashtags need this many items to count as a trend
+  minMentions?: number;
+  region?: string;
+  fetch?: typeof fetch;
+}
+
+interface Mentions {
+  keyword: string;
+  kind: TrendKind;
+  items: FeedItem[];
+}
+
+/**
+ * News trends from an RSS or Atom feed: how many of the feed's items
+ * mention each tracked keyword, or share a category or hashtag. The
+ * newest matching item becomes the observation's url.
+ */
+export class FeedTrendSource implements TrendSource {
+  readonly name: string;
+  readonly adapter = "feed" as const;
+  private url: string;
+  private keywords: string[];
+  private minMentions: number;
+  private region: string | undefined;
+  private fetchFn: typeof fetch;
+
+  constructor(options: FeedTrendSourceOptions) {
+    this.url = options.url;
+    this.name = options.name ?? `rss:${new URL(options.url).host}`;
+    this.keywords = options.keywords ?? [];
+    this.minMentions = options.minMentions ?? 2;
+    this.region = options.region;
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  async fetch(): Promise<TrendBatch> {
+    const fetchedAt = new Date();
+    const feed = parseFeed(
+      await fetchSource(this.fetchFn, this.url, this.name),
+      this.name,
+    );
+    const mentions = (
+      this.keywords.length > 0
+        ? this.keywordMentions(feed.items)
+        : this.tagMentions(feed.items)
+    ).filter((mention) => mention.items.length > 0);
+    const scores = relativeScores(
+      mentions.map((mention) => mention.items.length),
+    );
+
+    return {
+      source: this.name,
+      adapter: "feed",
+      origin: this.url,
+      fetchedAt,
+      observations: mentions.map((mention, index) => {
+        const newest = newestFirst(mention.items);
+        return {
+          keyword: mention.keyword,
+          kind: mention.kind,
+          region: this.region,
+          score: scores[index]!,
+          volume: mention.items.length,
+          observedAt: newest[0]!.publishedAt,
+          url: newest[0]!.link,
+          related: newest.slice(0, 3).map((item) => item.title),
+        };
+      }),
+    };
+  }
+
+  private keywordMentions(items: FeedItem[]): Mentions[] {
+    return this.keywords.map((keyword) => {
+      const pattern = new RegExp(`\\b${escapeRegExp(keyword)}\\b`, "i");
+      return {
+        keyword,
+        kind: "news",
+        items: items.filter((item) =>
+          pattern.test(
+            [item.title, item.summary, ...item.categories].join(" "),
+          ),
+        ),
+      };
+    });
+  }
+
+  private tagMentions(items: FeedItem[]): Mentions[] {
+    const tags = new Map<string, Mentions>();
+    for (const item of items) {
+      const found = new Map<string, TrendKind>();
+      for (const category of item.categories) found.set(category, "topic");
+      for (const hashtag of `${item.title} ${item.summary ?? ""}`.match(
+        /#[\p{L}\p{N}_]+/gu,
+      ) ?? []) {
+        found.set(hashtag, "hashtag");
+      }
+      for (const [keyword, kind] of found) {
+        const key = keyword.toLowerCase();
+        const mention = tags.get(key) ?? { keyword, kind, items: [] };
+        mention.items.push(item);
+        tags.set(key, mention);
+      }
+    }
+    return [...tags.values()].filter(
+      (mention) => mention.items.length >= this.minMentions,
+    );
+  }
+}
+
+function newestFirst(items: FeedItem[]): FeedItem[] {
+  return [...items].sort(
+    (a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0),
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
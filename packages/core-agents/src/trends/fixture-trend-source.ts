@@ -0,0 +1,148 @@
+import {
+  TrendSourceError,
+  type TrendAdapter,
+  type TrendBatch,
+  type TrendObservation,
+  type TrendSource,
+} from "./types";
+
+/**
+ * Recorded trend batches, as JSON. Record them from live sources with
+ * `RecordingTrendSource` and replay them with `FixtureTrendSource` to run
+ * trend analysis offline and in tests.
+ */
+export interface TrendFixture {
+  name: string;
+  batches: TrendBatch[];
+}
+
+export interface FixtureTrendSourceOptions {
+  // Move every timestamp so the last batch was fetched at this time
+  endAt?: Date | undefined;
+  // Start over after the last batch instead of failing with EXHAUSTED
+  loop?: boolean | undefined;
+}
+
+/**
+ * Replays a fixture's batches in order, one per fetch. Batches keep their
+ * source names, so stored history and growth work as with the live
+ * sources; the snapshots are marked as replayed with the "fixture" adapter.
+ */
+export class FixtureTrendSource implements TrendSource {
+  readonly name: string;
+  readonly adapter = "fixture" as const;
+  private batches: TrendBatch[];
+  private loop: boolean;
+  private next = 0;
+
+  constructor(
+    fixture: TrendFixture | string,
+    options: FixtureTrendSourceOptions = {},
+  ) {
+    const parsed =
+      typeof fixture === "string" ? parseTrendFixture(fixture) : fixture;
+    this.name = `fixture:${parsed.name}`;
+    this.loop = options.loop ?? false;
+
+    const last = parsed.batches[parsed.batches.length - 1];
+    const shift =
+      options.endAt && last
+        ? options.endAt.getTime() - last.fetchedAt.getTime()
+        : 0;
+    const move = (date: Date) => new Date(date.getTime() + shift);
+    this.batches = parsed.batches.map((batch) => ({
+      ...batch,
+      fetchedAt: move(batch.fetchedAt),
+      observations: batch.observations.map((observation) => ({
+        ...observation,
+        observedAt: observation.observedAt && move(observation.observedAt),
+      })),
+    }));
+  }
+
+  get remaining(): number {
+    return this.batches.length - this.next;
+  }
+
+  async fetch(): Promise<TrendBatch> {
+    if (this.next >= this.batches.length) {
+      if (!this.loop || this.batches.length === 0) {
+        throw new TrendSourceError(
+          `${this.name} has no more batches`,
+          "EXHAUSTED",
+        );
+      }
+      this.next = 0;
+    }
+    const batch = this.batches[this.next++]!;
+    return {
+      ...batch,
+      adapter: "fixture",
+      observations: batch.observations.map((observation) => ({
+        ...observation,
+      })),
+    };
+  }
+
+  rewind(): void {
+    this.next = 0;
+  }
+}
+
+/**
+ * Passes fetches through to a live source and keeps the batches, to be
+ * saved as a fixture
+ */
+export class RecordingTrendSource implements TrendSource {
+  readonly name: string;
+  readonly adapter: TrendAdapter;
+  readonly batches: TrendBatch[] = [];
+
+  constructor(private source: TrendSource) {
+    this.name = source.name;
+    this.adapter = source.adapter;
+  }
+
+  async fetch(): Promise<TrendBatch> {
+    const batch = await this.source.fetch();
+    this.batches.push(batch);
+    return batch;
+  }
+
+  toFixture(name = this.name): TrendFixture {
+    return { name, batches: this.batches };
+  }
+}
+
+// Reads a fixture saved with JSON.stringify, turning dates back into Dates
+export function parseTrendFixture(json: string): TrendFixture {
+  let fixture: TrendFixture;
+  try {
+    fixture = JSON.parse(json);
+  } catch (error) {
+    throw new TrendSourceError(
+      `Invalid trend fixture: ${(error as Error).message}`,
+      "INVALID_RESPONSE",
+    );
+  }
+  if (!fixture || !Array.isArray(fixture.batches)) {
+    throw new TrendSourceError(
+      "Invalid trend fixture: no batches",
+      "INVALID_RESPONSE",
+    );
+  }
+  const date = (value: unknown) => new Date(value as string);
+  return {
+    name: fixture.name ?? "trends",
+    batches: fixture.batches.map((batch) => ({
+      ...batch,
+      fetchedAt: date(batch.fetchedAt),
+      observations: batch.observations.map(
+        (observation): TrendObservation => ({
+          ...observation,
+          observedAt: observation.observedAt && date(observation.observedAt),
+        }),
+      ),
+    })),
+  };
+}
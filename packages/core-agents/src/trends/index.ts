@@ -0,0 +1,9 @@
+export * from "./types";
+export * from "./feed-parser";
+export * from "./search-trends-source";
+export * from "./feed-trend-source";
+export * from "./platform-trend-source";
+export * from "./csv-trend-source";
+export * from "./fixture-trend-source";
+export * from "./trend-store";
+export * from "./trend-collector";
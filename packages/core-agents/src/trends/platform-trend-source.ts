@@ -0,0 +1,171 @@
+import type { Platform } from "@neon/data-model";
+import {
+  fetchSource,
+  relativeScores,
+  TrendSourceError,
+  type TrendBatch,
+  type TrendObservation,
+  type TrendSource,
+} from "./types";
+
+// An observation as a platform API reports it; scores are worked out from
+// the volumes, or from the order when the platform reports none
+export type PlatformTrend = Omit<TrendObservation, "platform" | "score">;
+
+export interface PlatformTrendSourceOptions {
+  name: string;
+  platform: Platform;
+  url: string;
+  headers?: Record<string, string>;
+  region?: string | undefined;
+  parse: (body: any) => PlatformTrend[];
+  fetch?: typeof fetch | undefined;
+}
+
+/**
+ * Trends from a platform's trend API. The platform specific parts are
+ * the URL, the headers and how the answer is read; see `xTrendsSource`
+ * and `youtubeTrendsSource`.
+ */
+export class PlatformTrendSource implements TrendSource {
+  readonly name: string;
+  readonly adapter = "platform" as const;
+  readonly platform: Platform;
+  private options: PlatformTrendSourceOptions;
+  private fetchFn: typeof fetch;
+
+  constructor(options: PlatformTrendSourceOptions) {
+    this.name = options.name;
+    this.platform = options.platform;
+    this.options = options;
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  async fetch(): Promise<TrendBatch> {
+    const fetchedAt = new Date();
+    const body = await fetchSource(
+      this.fetchFn,
+      this.options.url,
+      this.name,
+      this.options.headers,
+    );
+    let trends: PlatformTrend[];
+    try {
+      trends = this.options.parse(JSON.parse(body));
+    } catch (error) {
+      throw new TrendSourceError(
+        `${this.name}: unexpected answer (${error instanceof Error ? error.message : String(error)})`,
+        "INVALID_RESPONSE",
+      );
+    }
+
+    const ranked = trends.some((trend) => trend.volume);
+    const scores = ranked
+      ? relativeScores(trends.map((trend) => trend.volume ?? 0))
+      : trends.map(
+          (_, index) => Math.round((1 - index / trends.length) * 1000) / 10,
+        );
+    return {
+      source: this.name,
+      adapter: "platform",
+      origin: this.options.url.replace(/([?&]key=)[^&]+/, "$1…"),
+      fetchedAt,
+      observations: trends.map((trend, index) => ({
+        region: this.options.region,
+        ...trend,
+        platform: this.platform,
+        score: scores[index]!,
+      })),
+    };
+  }
+}
+
+/**
+ * Trending topics and hashtags of an X location (WOEID 1 is worldwide),
+ * through the X API v2 with an app bearer token
+ */
+export function xTrendsSource(options: {
+  bearerToken: string;
+  woeid?: number;
+  region?: string;
+  fetch?: typeof fetch | undefined;
+}): PlatformTrendSource {
+  const woeid = options.woeid ?? 1;
+  return new PlatformTrendSource({
+    name: `x-trends:${woeid}`,
+    platform: "TWITTER",
+    url: `https://api.x.com/2/trends/by/woeid/${woeid}?max_trends=50`,
+    headers: { Authorization: `Bearer ${options.bearerToken}` },
+    region: options.region ?? (woeid === 1 ? undefined : String(woeid)),
+    fetch: options.fetch,
+    parse: (body: { data?: { trend_name: string; tweet_count?: number }[] }) =>
+      (body.data ?? []).map((trend) => ({
+        keyword: trend.trend_name,
+        kind: trend.trend_name.startsWith("#") ? "hashtag" : "topic",
+        volume: trend.tweet_count,
+        url: `https://x.com/search?q=${encodeURIComponent(trend.trend_name)}`,
+      })),
+  });
+}
+
+/**
+ * Tags shared by the most popular YouTube videos of a country, weighted
+ * by their views, through the YouTube Data API
+ */
+export function youtubeTrendsSource(options: {
+  apiKey: string;
+  regionCode?: string;
+  // Tags need this many popular videos to count as a trend
+  minVideos?: number;
+  fetch?: typeof fetch | undefined;
+}): PlatformTrendSource {
+  const regionCode = (options.regionCode ?? "US").toUpperCase();
+  const minVideos = options.minVideos ?? 2;
+  const query = new URLSearchParams({
+    part: "snippet,statistics",
+    chart: "mostPopular",
+    regionCode,
+    maxResults: "50",
+    key: options.apiKey,
+  });
+
+  interface Video {
+    id: string;
+    snippet?: { title?: string; tags?: string[] };
+    statistics?: { viewCount?: string };
+  }
+  return new PlatformTrendSource({
+    name: `youtube-trends:${regionCode}`,
+    platform: "YOUTUBE",
+    url: `https://www.googleapis.com/youtube/v3/videos?${query}`,
+    region: regionCode,
+    fetch: options.fetch,
+    parse: (body: { items?: Video[] }) => {
+      const tags = new Map<string, { keyword: string; videos: Video[] }>();
+      for (const video of body.items ?? []) {
+        for (const tag of new Set(video.snippet?.tags ?? [])) {
+          const entry = tags.get(tag.toLowerCase()) ?? {
+            keyword: tag,
+            videos: [],
+          };
+          entry.videos.push(video);
+          tags.set(tag.toLowerCase(), entry);
+        }
+      }
+      return [...tags.values()]
+        .filter((entry) => entry.videos.length >= minVideos)
+        .map((entry) => ({
+          keyword: entry.keyword,
+          kind: "topic" as const,
+          volume: entry.videos.reduce(
+            (views, video) => views + Number(video.statistics?.viewCount ?? 0),
+            0,
+          ),
+          url: `https://www.youtube.com/watch?v=${entry.videos[0]!.id}`,
+          related: entry.videos
+            .slice(0, 3)
+            .map((video) => video.snippet?.title ?? video.id),
+        }));
+    },
+  });
+}
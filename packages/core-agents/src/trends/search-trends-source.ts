@@ -0,0 +1,79 @@
+import { parseFeed } from "./feed-parser";
+import {
+  fetchSource,
+  relativeScores,
+  type TrendBatch,
+  type TrendSource,
+} from "./types";
+
+export interface SearchTrendsSourceOptions {
+  // Country code of the trending searches, e.g. "US" or "GB"
+  geo?: string;
+  // Another feed in the Google Trends format
+  feedUrl?: string;
+  fetch?: typeof fetch;
+}
+
+const GOOGLE_TRENDS_FEED = "https://trends.google.com/trending/rss";
+
+/**
+ * Trending searches from the Google Trends RSS feed. Google reports an
+ * approximate search volume ("20,000+") and the news articles behind each
+ * search; the first article becomes the observation's url.
+ */
+export class SearchTrendsSource implements TrendSource {
+  readonly name: string;
+  readonly adapter = "search" as const;
+  private geo: string;
+  private feedUrl: string;
+  private fetchFn: typeof fetch;
+
+  constructor(options: SearchTrendsSourceOptions = {}) {
+    this.geo = (options.geo ?? "US").toUpperCase();
+    this.name = `google-trends:${this.geo}`;
+    this.feedUrl =
+      options.feedUrl ??
+      `${GOOGLE_TRENDS_FEED}?geo=${encodeURIComponent(this.geo)}`;
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  async fetch(): Promise<TrendBatch> {
+    const fetchedAt = new Date();
+    const feed = parseFeed(
+      await fetchSource(this.fetchFn, this.feedUrl, this.name),
+      this.name,
+    );
+    const items = feed.items.filter((item) => item.title);
+    const volumes = items.map((item) =>
+      approxTraffic(item.extensions["ht:approx_traffic"]?.[0]),
+    );
+    const scores = relativeScores(volumes);
+
+    return {
+      source: this.name,
+      adapter: "search",
+      origin: this.feedUrl,
+      fetchedAt,
+      observations: items.map((item, index) => ({
+        keyword: item.title,
+        kind: "search" as const,
+        region: this.geo,
+        score: scores[index]!,
+        volume: volumes[index]! || undefined,
+        observedAt: item.publishedAt,
+        url: item.extensions["ht:news_item_url"]?.[0] ?? item.link,
+        related: item.extensions["ht:news_item_title"]?.slice(0, 3),
+      })),
+    };
+  }
+}
+
+// "20,000+" or "20K+" to 20000
+function approxTraffic(value: string | undefined): number {
+  const match = value?.replace(/,/g, "").match(/([\d.]+)\s*([KM])?/i);
+  if (!match) return 0;
+  const multiplier = { K: 1_000, M: 1_000_000 }[
+    (match[2] ?? "").toUpperCase() as "K" | "M"
+  ];
+  return Math.round(Number(match[1]) * (multiplier ?? 1));
+}
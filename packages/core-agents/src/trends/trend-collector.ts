@@ -0,0 +1,158 @@
+import { readFileSync } from "fs";
+import { logger } from "@neon/utils";
+import { FeedTrendSource } from "./feed-trend-source";
+import { FixtureTrendSource } from "./fixture-trend-source";
+import { xTrendsSource, youtubeTrendsSource } from "./platform-trend-source";
+import { SearchTrendsSource } from "./search-trends-source";
+import { TrendStore, type TrendSnapshotSummary } from "./trend-store";
+import type { TrendSource } from "./types";
+
+export interface TrendCollectorOptions {
+  sources?: TrendSource[];
+  pollInterval?: number; // milliseconds
+}
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Collects from every trend source on an interval. Fixture sources are
+ * replayed in full on the first run, so a recorded history is available
+ * at once.
+ */
+export class TrendCollector {
+  private store: TrendStore;
+  private sources: TrendSource[];
+  private pollInterval: number;
+  private running = false;
+  private pollTimer: NodeJS.Timeout | undefined;
+  private currentRun: Promise<TrendSnapshotSummary[]> | undefined;
+
+  constructor(store?: TrendStore, options: TrendCollectorOptions = {}) {
+    this.store = store ?? new TrendStore();
+    this.sources = options.sources ?? [];
+    this.pollInterval = options.pollInterval ?? 60 * 60 * 1000;
+  }
+
+  get sourceNames(): string[] {
+    return this.sources.map((source) => source.name);
+  }
+
+  addSource(source: TrendSource): this {
+    this.sources.push(source);
+    return this;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    logger.info(
+      "Trend collector started",
+      { sources: this.sourceNames },
+      "TrendCollector",
+    );
+    await this.poll();
+  }
+
+  /**
+   * Stop polling and wait for the collection in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    await this.currentRun;
+  }
+
+  /**
+   * Collect once from every source, one after the other
+   */
+  async runDue(): Promise<TrendSnapshotSummary[]> {
+    const summaries: TrendSnapshotSummary[] = [];
+    for (const source of this.sources) {
+      if (source instanceof FixtureTrendSource) {
+        while (source.remaining > 0) {
+          summaries.push(await this.store.collect(source));
+        }
+      } else {
+        summaries.push(await this.store.collect(source));
+      }
+    }
+    return summaries;
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      this.currentRun = this.runDue();
+      const summaries = await this.currentRun;
+      logger.debug(
+        "Trend collection",
+        {
+          snapshots: summaries.length,
+          signals: summaries.reduce((sum, s) => sum + s.signalCount, 0),
+          failed: summaries.filter((s) => s.error).length,
+        },
+        "TrendCollector",
+      );
+    } catch (error) {
+      logger.error("Trend collection failed", { error }, "TrendCollector");
+    } finally {
+      this.currentRun = undefined;
+    }
+
+    if (this.running) {
+      this.pollTimer = setTimeout(() => void this.poll(), this.pollInterval);
+    }
+  }
+}
+
+const list = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Trend sources configured in the environment. TRENDS_FIXTURE_PATH
+ * replaces the live sources with a recorded fixture, for working offline.
+ */
+export function trendSourcesFromEnv(env: Env = process.env): TrendSource[] {
+  if (env.TRENDS_FIXTURE_PATH) {
+    return [
+      new FixtureTrendSource(readFileSync(env.TRENDS_FIXTURE_PATH, "utf8"), {
+        endAt: new Date(),
+      }),
+    ];
+  }
+
+  const keywords = list(env.TRENDS_KEYWORDS);
+  const sources: TrendSource[] = [
+    ...list(env.TRENDS_SEARCH_GEOS).map(
+      (geo) => new SearchTrendsSource({ geo }),
+    ),
+    ...list(env.TRENDS_FEEDS).map(
+      (url) => new FeedTrendSource({ url, keywords }),
+    ),
+  ];
+  if (env.X_BEARER_TOKEN) {
+    const woeids = list(env.TRENDS_X_WOEIDS);
+    for (const woeid of woeids.length > 0 ? woeids : ["1"]) {
+      sources.push(
+        xTrendsSource({
+          bearerToken: env.X_BEARER_TOKEN,
+          woeid: Number(woeid),
+        }),
+      );
+    }
+  }
+  if (env.YOUTUBE_API_KEY) {
+    const regions = list(env.TRENDS_YOUTUBE_REGIONS);
+    for (const regionCode of regions.length > 0 ? regions : ["US"]) {
+      sources.push(
+        youtubeTrendsSource({ apiKey: env.YOUTUBE_API_KEY, regionCode }),
+      );
+    }
+  }
+  return sources;
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { FixtureTrendSource, type TrendFixture } from "./fixture-trend-source";
+import { TrendStore } from "./trend-store";
+import { TrendSourceError, type TrendSource } from "./types";
+import { createInMemoryPrisma } from "../../__mocks__/in-memory-prisma";
+
+const now = Date.now();
+const minutesAgo = (minutes: number) => new Date(now - minutes * 60_000);
+
+// Two hourly fetches of a search source and one of X trends
+const fixture: TrendFixture = {
+  name: "launch-week",
+  batches: [
+    {
+      source: "google-trends:US",
+      adapter: "search",
+      origin: "https://trends.google.com/trending/rss?geo=US",
+      fetchedAt: minutesAgo(120),
+      observations: [
+        {
+          keyword: "AI agents",
+          kind: "search",
+          region: "US",
+          score: 100,
+          volume: 20000,
+        },
+        {
+          keyword: "solar eclipse",
+          kind: "search",
+          region: "US",
+          score: 50,
+          volume: 10000,
+        },
+      ],
+    },
+    {
+      source: "google-trends:US",
+      adapter: "search",
+      origin: "https://trends.google.com/trending/rss?geo=US",
+      fetchedAt: minutesAgo(60),
+      observations: [
+        {
+          keyword: "AI agents",
+          kind: "search",
+          region: "US",
+          score: 100,
+          volume: 50000,
+        },
+        {
+          keyword: "solar eclipse",
+          kind: "search",
+          region: "US",
+          score: 10,
+          volume: 5000,
+        },
+      ],
+    },
+    {
+      source: "x-trends:1",
+      adapter: "platform",
+      fetchedAt: minutesAgo(59),
+      observations: [
+        {
+          keyword: "#AIagents",
+          kind: "hashtag",
+          platform: "TWITTER",
+          score: 80,
+          volume: 12000,
+          sentiment: 0.5,
+        },
+        {
+          keyword: "AI agents",
+          kind: "topic",
+          platform: "TWITTER",
+          score: 60,
+          volume: 8000,
+        },
+      ],
+    },
+  ],
+};
+
+describe("TrendStore", () => {
+  let db: ReturnType<typeof createInMemoryPrisma>;
+  let store: TrendStore;
+
+  beforeEach(async () => {
+    db = createInMemoryPrisma();
+    store = new TrendStore(db.prisma);
+    // Replayed from JSON, as from a fixture file
+    const replay = new FixtureTrendSource(JSON.stringify(fixture));
+    while (replay.remaining > 0) await store.collect(replay);
+  });
+
+  it("stores every replayed batch as a snapshot with its provenance", async () => {
+    expect(
+      db.tables.trendSnapshot!.map(
+        ({ source, adapter, origin, signalCount }) => ({
+          source,
+          adapter,
+          origin,
+          signalCount,
+        }),
+      ),
+    ).toEqual([
+      {
+        source: "google-trends:US",
+        adapter: "fixture",
+        origin: "https://trends.google.com/trending/rss?geo=US",
+        signalCount: 2,
+      },
+      expect.objectContaining({ source: "google-trends:US", signalCount: 2 }),
+      expect.objectContaining({ source: "x-trends:1", origin: null }),
+    ]);
+    expect(db.tables.trendSignal!).toHaveLength(6);
+    // Only platform trends become Trend rows
+    expect(
+      db.tables.trend!.map((trend) => [trend.keyword, trend.platform]),
+    ).toEqual([
+      ["#AIagents", "TWITTER"],
+      ["AI agents", "TWITTER"],
+    ]);
+    expect(db.tables.trend![0]!.data).toMatchObject({ sentiment: 0.5 });
+  });
+
+  it("works out growth from the source's previous snapshot", async () => {
+    const history = await store.history("AI agents");
+    expect(
+      history.map(({ source, volume, growth }) => [source, volume, growth]),
+    ).toEqual([
+      ["google-trends:US", 20000, undefined],
+      ["google-trends:US", 50000, 1.5],
+      ["x-trends:1", 8000, undefined],
+    ]);
+  });
+
+  it("combines the latest observation of every source into current trends", async () => {
+    const trends = await store.trends({ keywords: ["ai agents"] });
+    expect(trends).toHaveLength(1);
+    expect(trends[0]).toMatchObject({
+      keyword: "AI agents",
+      score: 100,
+      // Latest search volume plus the X topic volume
+      volume: 58000,
+      growth: 1.5,
+      sources: ["x-trends:1", "google-trends:US"],
+      platforms: ["TWITTER"],
+      kinds: ["topic", "search"],
+    });
+
+    const search = await store.trends({ kind: "search" });
+    expect(search.map(({ keyword, growth }) => [keyword, growth])).toEqual([
+      ["AI agents", 1.5],
+      ["solar eclipse", -0.5],
+    ]);
+  });
+
+  it("answers SocialApiClient lookups from the stored trends", async () => {
+    expect(await store.trendingHashtags("twitter")).toEqual(["#AIagents"]);
+    const [topic] = await store.trendingTopics("twitter", 1);
+    expect(topic).toMatchObject({
+      platform: "twitter",
+      keyword: "#AIagents",
+      volume: 12000,
+      sentiment: "positive",
+    });
+    expect(await store.hashtagStats("#aiagents")).toMatchObject({
+      usage: 12000,
+      score: 80,
+      platforms: ["twitter"],
+    });
+    expect(await store.hashtagStats("#nothing")).toBeNull();
+  });
+
+  it("records failed fetches as snapshots with the error", async () => {
+    const failing: TrendSource = {
+      name: "rss:example.com",
+      adapter: "feed",
+      fetch: async () => {
+        throw new TrendSourceError("rss:example.com: 503", "FETCH_FAILED");
+      },
+    };
+    const summary = await store.collect(failing);
+    expect(summary).toMatchObject({
+      source: "rss:example.com",
+      adapter: "feed",
+      signalCount: 0,
+      error: "rss:example.com: 503",
+    });
+    expect(await store.snapshots({ source: "rss:example.com" })).toHaveLength(
+      1,
+    );
+  });
+});
@@ -0,0 +1,508 @@
+import { logger } from "@neon/utils";
+import type { HashtagStats, TrendData, TrendProvider } from "@neon/utils";
+import {
+  db,
+  type Platform,
+  type Prisma,
+  type PrismaClient,
+  type TrendSignal,
+} from "@neon/data-model";
+import type {
+  TrendBatch,
+  TrendKind,
+  TrendObservation,
+  TrendSource,
+} from "./types";
+
+export interface TrendStoreOptions {
+  // Trends older than this are not current
+  windowDays?: number;
+  // Most signals read to work out current trends
+  maxSignals?: number;
+}
+
+export interface TrendSnapshotSummary {
+  id: string;
+  source: string;
+  adapter: string;
+  origin?: string | undefined;
+  fetchedAt: Date;
+  signalCount: number;
+  error?: string | undefined;
+}
+
+export interface TrendFilter {
+  platform?: Platform | undefined;
+  kind?: TrendKind | undefined;
+  region?: string | undefined;
+  source?: string | undefined;
+  // Trends whose keyword contains one of these
+  keywords?: string[] | undefined;
+  since?: Date | undefined;
+  limit?: number | undefined;
+}
+
+// One source's observation of a trend, as stored
+export interface TrendPoint {
+  source: string;
+  kind: TrendKind;
+  platform?: Platform | undefined;
+  region?: string | undefined;
+  score: number;
+  volume?: number | undefined;
+  growth?: number | undefined;
+  sentiment?: number | undefined;
+  observedAt: Date;
+  url?: string | undefined;
+  snapshotId?: string | undefined;
+}
+
+/**
+ * A keyword's current standing: the latest observation of every source
+ * that reports it, combined
+ */
+export interface StoredTrend {
+  keyword: string;
+  kinds: TrendKind[];
+  platforms: Platform[];
+  sources: string[];
+  regions: string[];
+  // Highest score of any source
+  score: number;
+  // Sum of the sources' volumes
+  volume?: number | undefined;
+  // Average of the sources' growth
+  growth?: number | undefined;
+  sentiment?: number | undefined;
+  observedAt: Date;
+  url?: string | undefined;
+  related: string[];
+  points: TrendPoint[];
+}
+
+const DAY_MS = 86_400_000;
+// Volumes are stored as 32-bit integers
+const MAX_VOLUME = 2_147_483_647;
+
+/**
+ * Stores what trend sources report as TrendSnapshots with their
+ * TrendSignals, and platform trends as Trend rows, and reads current
+ * trends and keyword history back. Growth the source does not report is
+ * worked out from the source's previous observation of the keyword.
+ */
+export class TrendStore implements TrendProvider {
+  private prisma: PrismaClient;
+  private windowDays: number;
+  private maxSignals: number;
+
+  constructor(prisma?: PrismaClient, options: TrendStoreOptions = {}) {
+    this.prisma = prisma || db;
+    this.windowDays = options.windowDays ?? 7;
+    this.maxSignals = options.maxSignals ?? 5000;
+  }
+
+  /**
+   * Fetches a batch from the source and stores it. Failed fetches are
+   * stored as snapshots with the error, so gaps in the data show.
+   */
+  async collect(source: TrendSource): Promise<TrendSnapshotSummary> {
+    let batch: TrendBatch;
+    try {
+      batch = await source.fetch();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        "Failed to fetch trends",
+        { source: source.name, error: message },
+        "TrendStore",
+      );
+      const snapshot = await this.prisma.trendSnapshot.create({
+        data: {
+          source: source.name,
+          adapter: source.adapter,
+          fetchedAt: new Date(),
+          error: message,
+        },
+      });
+      return summarize(snapshot);
+    }
+    return this.record(batch);
+  }
+
+  async record(batch: TrendBatch): Promise<TrendSnapshotSummary> {
+    const observations = dedupe(batch.observations);
+    const previous = await this.previousPoints(batch, observations);
+
+    const snapshot = await this.prisma.trendSnapshot.create({
+      data: {
+        source: batch.source,
+        adapter: batch.adapter,
+        origin: batch.origin ?? null,
+        fetchedAt: batch.fetchedAt,
+        signalCount: observations.length,
+      },
+    });
+
+    const rows = observations.map((observation) => {
+      const before = previous.get(keyOf(observation));
+      return {
+        observation,
+        volume:
+          observation.volume === undefined
+            ? null
+            : Math.min(MAX_VOLUME, Math.round(observation.volume)),
+        growth: observation.growth ?? growthSince(observation, before) ?? null,
+        detectedAt: observation.observedAt ?? batch.fetchedAt,
+      };
+    });
+    if (rows.length > 0) {
+      await this.prisma.trendSignal.createMany({
+        data: rows.map(({ observation, volume, growth, detectedAt }) => ({
+          source: batch.source,
+          keyword: observation.keyword,
+          signalType: observation.kind,
+          score: observation.score,
+          platform: observation.platform ?? null,
+          volume,
+          growth,
+          sentiment: observation.sentiment ?? null,
+          url: observation.url ?? null,
+          region: observation.region ?? null,
+          ...metadataOf(observation),
+          detectedAt,
+          snapshotId: snapshot.id,
+        })),
+      });
+    }
+
+    // Platform trends are kept as Trend rows as well
+    const platformRows = rows.filter((row) => row.observation.platform);
+    if (platformRows.length > 0) {
+      await this.prisma.trend.createMany({
+        data: platformRows.map(
+          ({ observation, volume, growth, detectedAt }) => ({
+            keyword: observation.keyword,
+            platform: observation.platform!,
+            category: observation.kind,
+            score: observation.score,
+            volume,
+            growth,
+            region: observation.region ?? null,
+            source: batch.source,
+            snapshotId: snapshot.id,
+            detectedAt,
+            data: {
+              sentiment: observation.sentiment ?? null,
+              url: observation.url ?? null,
+              related: observation.related ?? [],
+              ...observation.metadata,
+            } as Prisma.InputJsonValue,
+          }),
+        ),
+      });
+    }
+
+    return summarize(snapshot);
+  }
+
+  /**
+   * Current trends, strongest first
+   */
+  async trends(filter: TrendFilter = {}): Promise<StoredTrend[]> {
+    const signals = await this.prisma.trendSignal.findMany({
+      where: this.signalWhere(filter),
+      orderBy: { detectedAt: "desc" },
+      take: this.maxSignals,
+    });
+
+    const byKeyword = new Map<string, TrendSignal[]>();
+    for (const signal of signals) {
+      const key = signal.keyword.toLowerCase();
+      byKeyword.set(key, [...(byKeyword.get(key) ?? []), signal]);
+    }
+
+    const trends = [...byKeyword.values()].map((keywordSignals) => {
+      // Signals are newest first, so this keeps each source's latest
+      const latest = new Map<string, TrendSignal>();
+      for (const signal of keywordSignals) {
+        const key = `${signal.source}|${signal.signalType}|${signal.platform}|${signal.region}`;
+        if (!latest.has(key)) latest.set(key, signal);
+      }
+      return combine([...latest.values()]);
+    });
+
+    return trends
+      .sort((a, b) => b.score - a.score || (b.volume ?? 0) - (a.volume ?? 0))
+      .slice(0, filter.limit ?? 50);
+  }
+
+  /**
+   * Every stored observation of a keyword, oldest first
+   */
+  async history(
+    keyword: string,
+    filter: Omit<TrendFilter, "keywords" | "limit"> = {},
+  ): Promise<TrendPoint[]> {
+    const signals = await this.prisma.trendSignal.findMany({
+      where: {
+        ...this.signalWhere(filter),
+        keyword: { equals: keyword, mode: "insensitive" },
+      },
+      orderBy: { detectedAt: "asc" },
+      take: this.maxSignals,
+    });
+    return signals.map(pointOf);
+  }
+
+  async snapshots(
+    filter: { source?: string | undefined; limit?: number | undefined } = {},
+  ): Promise<TrendSnapshotSummary[]> {
+    const snapshots = await this.prisma.trendSnapshot.findMany({
+      where: filter.source ? { source: filter.source } : {},
+      orderBy: { fetchedAt: "desc" },
+      take: filter.limit ?? 50,
+    });
+    return snapshots.map(summarize);
+  }
+
+  // TrendProvider, for SocialApiClient
+
+  async trendingTopics(platform?: string, limit = 20): Promise<TrendData[]> {
+    const trends = await this.trends({
+      platform: platform ? (platform.toUpperCase() as Platform) : undefined,
+      limit,
+    });
+    return trends.map((trend) => ({
+      platform: (
+        platform ??
+        trend.platforms[0] ??
+        "twitter"
+      ).toLowerCase() as TrendData["platform"],
+      keyword: trend.keyword,
+      volume: trend.volume ?? 0,
+      growth: trend.growth ?? 0,
+      sentiment:
+        (trend.sentiment ?? 0) > 0.2
+          ? "positive"
+          : (trend.sentiment ?? 0) < -0.2
+            ? "negative"
+            : "neutral",
+      timestamp: trend.observedAt,
+      hashtags: trend.kinds.includes("hashtag") ? [trend.keyword] : [],
+      relatedTopics: trend.related,
+    }));
+  }
+
+  async trendingHashtags(platform: string, limit = 20): Promise<string[]> {
+    const trends = await this.trends({
+      platform: platform.toUpperCase() as Platform,
+      kind: "hashtag",
+      limit,
+    });
+    return trends.map((trend) => trend.keyword);
+  }
+
+  async hashtagStats(hashtag: string): Promise<HashtagStats | null> {
+    const tag = hashtag.replace(/^#/, "").toLowerCase();
+    const trends = await this.trends({ keywords: [tag], limit: 100 });
+    const trend = trends.find(
+      (candidate) => candidate.keyword.replace(/^#/, "").toLowerCase() === tag,
+    );
+    if (!trend) return null;
+    return {
+      usage: trend.volume ?? 0,
+      score: trend.score,
+      growth: trend.growth ?? 0,
+      platforms: trend.platforms.map((platform) => platform.toLowerCase()),
+      relatedTags: trends
+        .filter(
+          (candidate) =>
+            candidate !== trend && candidate.kinds.includes("hashtag"),
+        )
+        .map((candidate) => candidate.keyword)
+        .slice(0, 5),
+    };
+  }
+
+  private signalWhere(filter: TrendFilter): Prisma.TrendSignalWhereInput {
+    return {
+      detectedAt: {
+        gte: filter.since ?? new Date(Date.now() - this.windowDays * DAY_MS),
+      },
+      ...(filter.platform && { platform: filter.platform }),
+      ...(filter.kind && { signalType: filter.kind }),
+      ...(filter.region && { region: filter.region }),
+      ...(filter.source && { source: filter.source }),
+      ...(filter.keywords?.length && {
+        OR: filter.keywords.map((keyword) => ({
+          keyword: { contains: keyword, mode: "insensitive" as const },
+        })),
+      }),
+    };
+  }
+
+  // The source's latest earlier observation of each keyword in the batch
+  private async previousPoints(
+    batch: TrendBatch,
+    observations: TrendObservation[],
+  ): Promise<Map<string, TrendSignal>> {
+    const previous = new Map<string, TrendSignal>();
+    if (observations.length === 0) return previous;
+    const signals = await this.prisma.trendSignal.findMany({
+      where: {
+        source: batch.source,
+        keyword: { in: [...new Set(observations.map((o) => o.keyword))] },
+        detectedAt: {
+          lt: batch.fetchedAt,
+          gte: new Date(
+            batch.fetchedAt.getTime() - 4 * this.windowDays * DAY_MS,
+          ),
+        },
+      },
+      orderBy: { detectedAt: "desc" },
+    });
+    for (const signal of signals) {
+      const key = keyOf({
+        keyword: signal.keyword,
+        kind: signal.signalType as TrendKind,
+        platform: signal.platform ?? undefined,
+        region: signal.region ?? undefined,
+      });
+      if (!previous.has(key)) previous.set(key, signal);
+    }
+    return previous;
+  }
+}
+
+function keyOf(
+  observation: Pick<
+    TrendObservation,
+    "keyword" | "kind" | "platform" | "region"
+  >,
+): string {
+  return [
+    observation.keyword.toLowerCase(),
+    observation.kind,
+    observation.platform ?? "",
+    observation.region ?? "",
+  ].join("|");
+}
+
+// Trimmed keywords, once per key with the highest score
+function dedupe(observations: TrendObservation[]): TrendObservation[] {
+  const unique = new Map<string, TrendObservation>();
+  for (const observation of observations) {
+    const keyword = observation.keyword.trim();
+    if (!keyword) continue;
+    const trimmed = { ...observation, keyword };
+    const key = keyOf(trimmed);
+    const seen = unique.get(key);
+    if (!seen || seen.score < trimmed.score) unique.set(key, trimmed);
+  }
+  return [...unique.values()];
+}
+
+function growthSince(
+  observation: TrendObservation,
+  before: TrendSignal | undefined,
+): number | undefined {
+  if (!before) return undefined;
+  const [now, then] =
+    observation.volume !== undefined && before.volume
+      ? [observation.volume, before.volume]
+      : [observation.score, before.score];
+  return then > 0
+    ? Math.round(((now - then) / then) * 10_000) / 10_000
+    : undefined;
+}
+
+// The signal's metadata field, left out when there is nothing to keep
+function metadataOf(observation: TrendObservation): {
+  metadata?: Prisma.InputJsonValue;
+} {
+  const metadata = {
+    ...(observation.related?.length && { related: observation.related }),
+    ...observation.metadata,
+  };
+  return Object.keys(metadata).length > 0
+    ? { metadata: metadata as Prisma.InputJsonValue }
+    : {};
+}
+
+function pointOf(signal: TrendSignal): TrendPoint {
+  return {
+    source: signal.source,
+    kind: signal.signalType as TrendKind,
+    platform: signal.platform ?? undefined,
+    region: signal.region ?? undefined,
+    score: signal.score,
+    volume: signal.volume ?? undefined,
+    growth: signal.growth ?? undefined,
+    sentiment: signal.sentiment ?? undefined,
+    observedAt: signal.detectedAt,
+    url: signal.url ?? undefined,
+    snapshotId: signal.snapshotId ?? undefined,
+  };
+}
+
+function combine(signals: TrendSignal[]): StoredTrend {
+  const points = signals.map(pointOf);
+  const defined = (values: (number | undefined)[]) =>
+    values.filter((value): value is number => value !== undefined);
+  const average = (values: number[]) =>
+    values.length > 0
+      ? Math.round(
+          (values.reduce((sum, value) => sum + value, 0) / values.length) *
+            10_000,
+        ) / 10_000
+      : undefined;
+  const unique = <T>(values: (T | undefined)[]) =>
+    [...new Set(values)].filter((value): value is T => value !== undefined);
+
+  const volumes = defined(points.map((point) => point.volume));
+  const newest = points.reduce((a, b) => (b.observedAt > a.observedAt ? b : a));
+  return {
+    keyword: signals[0]!.keyword,
+    kinds: unique(points.map((point) => point.kind)),
+    platforms: unique(points.map((point) => point.platform)),
+    sources: unique(points.map((point) => point.source)),
+    regions: unique(points.map((point) => point.region)),
+    score: Math.max(...points.map((point) => point.score)),
+    volume:
+      volumes.length > 0
+        ? volumes.reduce((sum, volume) => sum + volume, 0)
+        : undefined,
+    growth: average(defined(points.map((point) => point.growth))),
+    sentiment: average(defined(points.map((point) => point.sentiment))),
+    observedAt: newest.observedAt,
+    url: points.find((point) => point.url)?.url,
+    related: unique(
+      signals.flatMap(
+        (signal) =>
+          ((signal.metadata as { related?: string[] } | null)?.related ??
+            []) as (string | undefined)[],
+      ),
+    ).slice(0, 5),
+    points,
+  };
+}
+
+function summarize(snapshot: {
+  id: string;
+  source: string;
+  adapter: string;
+  origin: string | null;
+  fetchedAt: Date;
+  signalCount: number;
+  error: string | null;
+}): TrendSnapshotSummary {
+  return {
+    id: snapshot.id,
+    source: snapshot.source,
+    adapter: snapshot.adapter,
+    origin: snapshot.origin ?? undefined,
+    fetchedAt: snapshot.fetchedAt,
+    signalCount: snapshot.signalCount,
+    error: snapshot.error ?? undefined,
+  };
+}
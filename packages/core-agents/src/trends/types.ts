@@ -0,0 +1,113 @@
+import type { Platform } from "@neon/data-model";
+
+/**
+ * Trend sources are adapters over search trends, news feeds, platform
+ * trend APIs and CSV imports. Each fetch returns a batch of observations
+ * with where and when it was fetched; the store keeps every batch as a
+ * TrendSnapshot with its TrendSignals, so trend data can be traced back
+ * to its source and replayed.
+ */
+
+export const TREND_KINDS = [
+  "topic",
+  "hashtag",
+  "sound",
+  "search",
+  "news",
+] as const;
+
+export type TrendKind = (typeof TREND_KINDS)[number];
+
+export type TrendAdapter = "search" | "feed" | "platform" | "csv" | "fixture";
+
+export interface TrendObservation {
+  keyword: string;
+  kind: TrendKind;
+  // Where it trends; search and news trends have no platform
+  platform?: Platform | undefined;
+  region?: string | undefined;
+  // 0-100, relative to the other observations of the batch
+  score: number;
+  volume?: number | undefined;
+  // Change since the source's previous period, as a fraction. Worked out
+  // from the previous snapshot when the source does not report it.
+  growth?: number | undefined;
+  // -1 to 1
+  sentiment?: number | undefined;
+  // When the source saw it trending; the fetch time when not reported
+  observedAt?: Date | undefined;
+  // Article, search page or post the observation came from
+  url?: string | undefined;
+  related?: string[] | undefined;
+  metadata?: Record<string, unknown> | undefined;
+}
+
+export interface TrendBatch {
+  // Stored as the signals' source, e.g. "google-trends:US"
+  source: string;
+  adapter: TrendAdapter;
+  // Feed URL, API endpoint or file name
+  origin?: string | undefined;
+  fetchedAt: Date;
+  observations: TrendObservation[];
+}
+
+export interface TrendSource {
+  readonly name: string;
+  readonly adapter: TrendAdapter;
+  fetch(): Promise<TrendBatch>;
+}
+
+export type TrendSourceErrorCode =
+  | "FETCH_FAILED"
+  | "INVALID_RESPONSE"
+  | "INVALID_CSV"
+  | "EXHAUSTED";
+
+export class TrendSourceError extends Error {
+  constructor(
+    message: string,
+    readonly code: TrendSourceErrorCode,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "TrendSourceError";
+  }
+}
+
+/**
+ * GETs a source URL, failing with FETCH_FAILED on network errors and
+ * error responses
+ */
+export async function fetchSource(
+  fetchFn: typeof fetch,
+  url: string,
+  source: string,
+  headers: Record<string, string> = {},
+): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetchFn(url, { headers });
+  } catch (error) {
+    throw new TrendSourceError(
+      `${source}: ${error instanceof Error ? error.message : String(error)}`,
+      "FETCH_FAILED",
+    );
+  }
+  const body = await response.text();
+  if (!response.ok) {
+    throw new TrendSourceError(
+      `${source}: ${response.status} ${body.slice(0, 200)}`.trim(),
+      "FETCH_FAILED",
+    );
+  }
+  return body;
+}
+
+// Scores relative to the largest value, from 0 to 100
+export function relativeScores(values: number[]): number[] {
+  const max = Math.max(0, ...values);
+  return values.map((value) =>
+    max > 0 ? Math.round((value / max) * 1000) / 10 : 0,
+  );
+}
@@ -122,7 +122,7 @@ export interface TrendResult {
     unifiedStrategy: string[];
   };
   audienceInsights?: {
-    primaryAgeGroup: string;
+    primaryAgeGroup?: string;
     topLocations: string[];
     engagementPatterns: string;
   };
@@ -4,6 +4,9 @@ export { db } from "./client";
 // Export db as prisma for backward compatibility
 export { db as prisma } from "./client";
 
+// Workspace that owns rows created without an explicit workspace
+export const DEFAULT_WORKSPACE_ID = "default";
+
 // Re-export Prisma client for direct usage
 export { PrismaClient } from "../node_modules/.prisma/client";
 
@@ -11,26 +14,55 @@ export { PrismaClient } from "../node_modules/.prisma/client";
 export type {
   // Core models
   User,
+  UserApiKey,
+  Workspace,
+  WorkspaceMember,
   Campaign,
   CampaignMetric,
   AIEventLog,
   Agent,
   AgentExecution,
   AgentMemory,
+  AgentMemoryEmbedding,
   CrossCampaignMemory,
   Analytics,
   ABTest,
   Content,
+  ContentRevision,
+  ContentComment,
+  ContentApproval,
   Lead,
+  UserPersona,
+  UserSegment,
+  BehaviorTrigger,
+  PersonalizationRule,
+  UserBehaviorLog,
+  UserSegmentMember,
+  UserSegmentMembershipChange,
+  UserIdentity,
   B2BLead,
   OutreachHistory,
   Trend,
   TrendSignal,
+  TrendSnapshot,
   RegionScore,
   DesignTemplate,
   EmailCampaign,
+  EmailEvent,
+  EmailSuppression,
+  EmailSenderIdentity,
+  EmailTemplate,
+  EmailTemplatePartial,
+  EmailSequence,
+  EmailSequenceEnrollment,
   SocialSchedule,
+  SocialPostingQuota,
   SupportTicket,
+  SupportSlaPolicy,
+  SupportSlaEvent,
+  KnowledgeArticle,
+  KnowledgeChunk,
+  KnowledgeArticleFeedback,
   BrandVoice,
   BrandVoiceAnalysis,
   GoalPlan,
@@ -57,6 +89,7 @@ export type {
   CopilotSession,
   CopilotLog,
   CopilotAnalytics,
+  AgentJob,
 
   // Prisma utility types
   Prisma,
@@ -84,12 +117,19 @@ export {
   // Content related
   ContentType,
   ContentStatus,
+  ContentRevisionSource,
+  ContentReviewDecision,
 
   // Lead management
   LeadStatus,
 
   // Email campaigns
   EmailCampaignStatus,
+  EmailEventType,
+  EmailSuppressionReason,
+  EmailSequenceStatus,
+  EmailSequenceReentry,
+  EmailSequenceEnrollmentStatus,
 
   // Social media
   SocialPostStatus,
@@ -98,6 +138,11 @@ export {
   SupportPriority,
   SupportStatus,
   SupportChannel,
+  SupportSlaState,
+  SupportSlaTarget,
+  SupportSlaEventType,
+  KnowledgeSource,
+  KnowledgeArticleStatus,
 
   // Planning and consensus
   PlanPriority,
@@ -114,4 +159,12 @@ export {
   ReportPriority,
   ReportType,
   ReportStatus,
+
+  // Personalization
+  BehaviorTriggerType,
+  PersonalizationRuleType,
+  SegmentMembershipChange,
+
+  // Job queue
+  AgentJobStatus,
 } from "../node_modules/.prisma/client";
@@ -0,0 +1,47 @@
+import { PrismaClient } from "../node_modules/.prisma/client";
+import { DEFAULT_WORKSPACE_ID } from "./index";
+
+/**
+ * Creates the default workspace, which owns every row saved without a
+ * workspace, and makes users that belong to no workspace members of it
+ * with their user role. Safe to run again; run with `npm run db:seed`
+ * after pushing or migrating the schema.
+ */
+export async function seedDefaultWorkspace(
+  prisma: PrismaClient,
+): Promise<{ members: number }> {
+  await prisma.workspace.upsert({
+    where: { id: DEFAULT_WORKSPACE_ID },
+    create: { id: DEFAULT_WORKSPACE_ID, name: "Default", slug: "default" },
+    update: {},
+  });
+
+  const users = await prisma.user.findMany({
+    where: { workspaces: { none: {} } },
+    select: { id: true, role: true },
+  });
+  const { count } = await prisma.workspaceMember.createMany({
+    data: users.map((user) => ({
+      workspaceId: DEFAULT_WORKSPACE_ID,
+      userId: user.id,
+      role: user.role,
+    })),
+    skipDuplicates: true,
+  });
+  return { members: count };
+}
+
+if (require.main === module) {
+  const prisma = new PrismaClient();
+  seedDefaultWorkspace(prisma)
+    .then(({ members }) => {
+      console.log(
+        `Default workspace ready; ${members} users added to it as members`,
+      );
+    })
+    .catch((error) => {
+      console.error("Seeding the default workspace failed:", error);
+      process.exitCode = 1;
+    })
+    .finally(() => prisma.$disconnect());
+}
@@ -0,0 +1,288 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { db } from "@neon/data-model";
+import { BudgetGate } from "./budget-gate";
+
+jest.mock("@neon/data-model", () => ({
+  DEFAULT_WORKSPACE_ID: "default",
+  db: {
+    monthlyBudget: { findUnique: jest.fn() },
+    campaignCost: { findUnique: jest.fn() },
+    billingLog: { aggregate: jest.fn() },
+    budgetOverride: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    budgetAuditEvent: { create: jest.fn(), findMany: jest.fn() },
+    budgetReservation: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+  },
+}));
+
+const mockDb = db as any;
+
+interface StoredReservation {
+  id: string;
+  workspaceId: string;
+  month: string;
+  campaignId: string | null;
+  amount: number;
+  expiresAt: Date;
+}
+
+// Serves budgetReservation queries from an array, like the table would
+function mockReservationTable(): StoredReservation[] {
+  const rows: StoredReservation[] = [];
+  const matches = (row: StoredReservation, where: any) =>
+    (!where.id || row.id === where.id) &&
+    (!where.workspaceId || row.workspaceId === where.workspaceId) &&
+    (!where.month || row.month === where.month) &&
+    (!where.campaignId || row.campaignId === where.campaignId) &&
+    (!where.expiresAt?.gt || row.expiresAt > where.expiresAt.gt) &&
+    (!where.expiresAt?.lte || row.expiresAt <= where.expiresAt.lte);
+
+  mockDb.budgetReservation.create.mockImplementation(async ({ data }: any) => {
+    const row = { ...data, id: `reservation-${rows.length + 1}` };
+    rows.push(row);
+    return { id: row.id };
+  });
+  mockDb.budgetReservation.deleteMany.mockImplementation(
+    async ({ where }: any) => {
+      const removed = rows.filter((row) => matches(row, where));
+      removed.forEach((row) => rows.splice(rows.indexOf(row), 1));
+      return { count: removed.length };
+    },
+  );
+  mockDb.budgetReservation.aggregate.mockImplementation(
+    async ({ where }: any) => {
+      const amount = rows
+        .filter((row) => matches(row, where))
+        .reduce((sum, row) => sum + row.amount, 0);
+      return { _sum: { amount: amount || null } };
+    },
+  );
+  return rows;
+}
+
+describe("BudgetGate", () => {
+  let reservations: StoredReservation[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reservations = mockReservationTable();
+    mockDb.monthlyBudget.findUnique.mockResolvedValue({
+      month: "2025-01",
+      totalBudget: 100,
+      totalSpent: 90,
+    });
+    mockDb.campaignCost.findUnique.mockResolvedValue(null);
+    mockDb.budgetOverride.findFirst.mockResolvedValue(null);
+    mockDb.budgetAuditEvent.create.mockResolvedValue({});
+  });
+
+  it("should allow and reserve runs that fit the monthly budget", async () => {
+    const decision = await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 4,
+      month: "2025-01",
+    });
+
+    expect(decision.action).toBe("allow");
+    expect(decision.reservedCost).toBe(4);
+
+    const headroom = await BudgetGate.getMonthlyHeadroom("2025-01");
+    expect(headroom.reserved).toBe(4);
+    expect(headroom.remaining).toBe(6);
+  });
+
+  it("should count in-flight reservations against later runs", async () => {
+    await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 8,
+      month: "2025-01",
+    });
+    const second = await BudgetGate.reserve({
+      agentType: "seo",
+      estimatedCost: 5,
+      month: "2025-01",
+    });
+
+    expect(second.action).toBe("block");
+    expect(second.allowed).toBe(false);
+    expect(mockDb.budgetAuditEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ action: "RUN_BLOCKED" }),
+      }),
+    );
+  });
+
+  it("should free headroom when a reservation is released", async () => {
+    const first = await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 8,
+      month: "2025-01",
+    });
+    await BudgetGate.release(first.reservationId);
+
+    const second = await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 8,
+      month: "2025-01",
+    });
+    expect(second.action).toBe("allow");
+  });
+
+  it("should degrade to the remaining headroom when allowed", async () => {
+    const decision = await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 20,
+      month: "2025-01",
+      allowDegrade: true,
+    });
+
+    expect(decision.action).toBe("degrade");
+    expect(decision.maxCost).toBe(10);
+    expect(decision.reservedCost).toBe(10);
+    expect(decision.limitingBudget).toBe("monthly");
+  });
+
+  it("should keep reservations and caps separate per workspace", async () => {
+    await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 8,
+      month: "2025-01",
+      workspaceId: "ws-a",
+    });
+    const other = await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 8,
+      month: "2025-01",
+      workspaceId: "ws-b",
+    });
+
+    expect(other.action).toBe("allow");
+    expect(mockDb.monthlyBudget.findUnique).toHaveBeenLastCalledWith({
+      where: { workspaceId_month: { workspaceId: "ws-b", month: "2025-01" } },
+    });
+    expect(mockDb.budgetOverride.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("should enforce campaign budgets using this month's spend", async () => {
+    mockDb.campaignCost.findUnique.mockResolvedValue({
+      campaignId: "camp-1",
+      monthlyBudget: 5,
+    });
+    mockDb.billingLog.aggregate.mockResolvedValue({ _sum: { cost: 4.5 } });
+
+    const decision = await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 2,
+      campaignId: "camp-1",
+      month: "2025-01",
+    });
+
+    expect(decision.action).toBe("block");
+    expect(decision.limitingBudget).toBe("campaign");
+  });
+
+  it("should honour an active override and audit its use", async () => {
+    mockDb.budgetOverride.findFirst.mockResolvedValue({
+      id: "override-1",
+      reason: "Launch week",
+    });
+
+    const decision = await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 50,
+      month: "2025-01",
+    });
+
+    expect(decision.action).toBe("override");
+    expect(decision.overrideId).toBe("override-1");
+    expect(mockDb.budgetAuditEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          action: "OVERRIDE_USED",
+          overrideId: "override-1",
+        }),
+      }),
+    );
+  });
+
+  it("should not count reservations that have expired", async () => {
+    await BudgetGate.reserve({
+      agentType: "content",
+      estimatedCost: 8,
+      month: "2025-01",
+    });
+    reservations[0]!.expiresAt = new Date(Date.now() - 1000);
+
+    const headroom = await BudgetGate.getMonthlyHeadroom("2025-01");
+    expect(headroom.reserved).toBe(0);
+  });
+
+  it("should not let concurrent runs overbook the headroom", async () => {
+    const decisions = await Promise.all(
+      ["content", "seo"].map((agentType) =>
+        BudgetGate.reserve({ agentType, estimatedCost: 8, month: "2025-01" }),
+      ),
+    );
+
+    expect(decisions.filter((d) => d.allowed).length).toBeLessThanOrEqual(1);
+    const headroom = await BudgetGate.getMonthlyHeadroom("2025-01");
+    expect(headroom.remaining).toBeGreaterThanOrEqual(0);
+  });
+
+  describe("when budgets can't be read", () => {
+    beforeEach(() => {
+      mockDb.monthlyBudget.findUnique.mockRejectedValue(
+        new Error("connection refused"),
+      );
+    });
+
+    afterEach(() => {
+      delete process.env.BUDGET_FAIL_OPEN;
+    });
+
+    it("should block runs by default", async () => {
+      const decision = await BudgetGate.reserve({
+        agentType: "content",
+        estimatedCost: 4,
+      });
+
+      expect(decision).toMatchObject({
+        action: "block",
+        allowed: false,
+        maxCost: 0,
+        reason: "Budget check unavailable",
+      });
+    });
+
+    it("should let runs through uncapped when fail-open is enabled", async () => {
+      process.env.BUDGET_FAIL_OPEN = "true";
+
+      const decision = await BudgetGate.reserve({
+        agentType: "content",
+        estimatedCost: 4,
+      });
+
+      expect(decision).toMatchObject({
+        action: "allow",
+        allowed: true,
+        maxCost: Infinity,
+      });
+      expect(reservations).toHaveLength(0);
+    });
+  });
+});
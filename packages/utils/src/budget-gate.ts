@@ -0,0 +1,621 @@
+import { db as prisma, DEFAULT_WORKSPACE_ID } from "@neon/data-model";
+
+/**
+ * Pre-flight budget enforcement. Every agent run reserves its estimated
+ * cost against its workspace's monthly budget and, when it has one, its
+ * campaign budget before any provider is called. Reservations are stored
+ * in Postgres until the run finishes so concurrent runs, in any process,
+ * cannot each see the same headroom and overspend together.
+ */
+
+export type BudgetGateAction = "allow" | "degrade" | "override" | "block";
+
+export type BudgetScope = "monthly" | "campaign";
+
+export interface BudgetHeadroom {
+  budget: number;
+  spent: number;
+  reserved: number;
+  remaining: number;
+}
+
+export interface BudgetReservationRequest {
+  agentType: string;
+  workspaceId?: string | undefined;
+  estimatedCost: number;
+  campaignId?: string | undefined;
+  month?: string | undefined;
+  task?: string | undefined;
+  // The caller can run a cheaper variant (smaller model, shorter output)
+  allowDegrade?: boolean | undefined;
+  // Smallest spend that still produces a useful result when degrading
+  minimumCost?: number | undefined;
+}
+
+export interface BudgetGateDecision {
+  action: BudgetGateAction;
+  allowed: boolean;
+  estimatedCost: number;
+  reservedCost: number;
+  // Most the run may spend; Infinity when an override lifts the caps
+  maxCost: number;
+  reservationId?: string;
+  overrideId?: string;
+  limitingBudget?: BudgetScope;
+  reason?: string;
+  monthly: BudgetHeadroom;
+  campaign?: BudgetHeadroom;
+}
+
+export interface BudgetOverrideInput {
+  workspaceId?: string | undefined;
+  month: string;
+  campaignId?: string | undefined;
+  reason: string;
+  actor?: string | undefined;
+  expiresAt?: Date | undefined;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly decision?: BudgetGateDecision,
+  ) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+interface Reservation {
+  workspaceId: string;
+  month: string;
+  campaignId: string | undefined;
+  amount: number;
+}
+
+// Reservations outlive a crashed run by at most this long
+const RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+// Times a run is re-decided when concurrent runs took the headroom first
+const MAX_RESERVE_ATTEMPTS = 3;
+
+// Reservations may sum to this much over the headroom from float rounding
+const ROUNDING_TOLERANCE = 1e-9;
+
+// Without a stored cap the monthly budget defaults to the schema default
+const DEFAULT_MONTHLY_BUDGET = parseFloat(
+  process.env.MAX_MONTHLY_BUDGET || "1000",
+);
+
+// Degrading below this share of the estimate is not worth running
+const MIN_DEGRADE_RATIO = 0.1;
+
+const currentMonth = (): string => new Date().toISOString().substring(0, 7);
+
+// Runs go ahead uncapped when budgets can't be read only if this is set;
+// by default they are blocked
+const failOpen = (): boolean => process.env.BUDGET_FAIL_OPEN === "true";
+
+export class BudgetGate {
+  /**
+   * Reserve the estimated cost of a run, or decide how it must be limited.
+   * Runs that fit are allowed; runs that don't are degraded to the
+   * remaining headroom when the caller supports it, let through when an
+   * active override covers the exceeded budget, and blocked otherwise.
+   */
+  static async reserve(
+    request: BudgetReservationRequest,
+  ): Promise<BudgetGateDecision> {
+    for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+      const decision = await this.decide(request);
+      if (decision) {
+        return decision;
+      }
+    }
+
+    const month = request.month || currentMonth();
+    const workspaceId = request.workspaceId || DEFAULT_WORKSPACE_ID;
+    const reason = "Budget headroom was taken by concurrent runs";
+    await this.recordAudit("RUN_BLOCKED", {
+      workspaceId,
+      month,
+      campaignId: request.campaignId,
+      agentType: request.agentType,
+      estimatedCost: request.estimatedCost,
+      reason,
+      metadata: { task: request.task },
+    });
+
+    return {
+      action: "block",
+      allowed: false,
+      estimatedCost: request.estimatedCost,
+      reservedCost: 0,
+      maxCost: 0,
+      reason,
+      monthly: await this.getMonthlyHeadroom(month, workspaceId),
+    };
+  }
+
+  /**
+   * Decide one attempt at reserving a run. Returns null when concurrent
+   * runs reserved the headroom between reading and holding it.
+   */
+  private static async decide(
+    request: BudgetReservationRequest,
+  ): Promise<BudgetGateDecision | null> {
+    const month = request.month || currentMonth();
+    const workspaceId = request.workspaceId || DEFAULT_WORKSPACE_ID;
+    const { agentType, campaignId, estimatedCost } = request;
+
+    let monthly: BudgetHeadroom;
+    let campaign: BudgetHeadroom | undefined;
+
+    try {
+      monthly = await this.getMonthlyHeadroom(month, workspaceId);
+      campaign = campaignId
+        ? await this.getCampaignHeadroom(campaignId, month, workspaceId)
+        : undefined;
+    } catch (error) {
+      console.error("Failed to check budget before execution:", error);
+      const allowed = failOpen();
+      return {
+        action: allowed ? "allow" : "block",
+        allowed,
+        estimatedCost,
+        reservedCost: 0,
+        maxCost: allowed ? Infinity : 0,
+        reason: "Budget check unavailable",
+        monthly: emptyHeadroom(),
+      };
+    }
+
+    const exceeded: BudgetScope[] = [];
+    if (estimatedCost > monthly.remaining) exceeded.push("monthly");
+    if (campaign && estimatedCost > campaign.remaining) {
+      exceeded.push("campaign");
+    }
+
+    const headroom = Math.max(
+      0,
+      Math.min(monthly.remaining, campaign?.remaining ?? Infinity),
+    );
+    const base = {
+      estimatedCost,
+      monthly,
+      ...(campaign ? { campaign } : {}),
+    };
+
+    if (exceeded.length === 0) {
+      return this.hold(
+        { workspaceId, month, campaignId, amount: estimatedCost },
+        { ...base, action: "allow", allowed: true, maxCost: headroom },
+        { monthly, campaign },
+      );
+    }
+
+    const limitingBudget: BudgetScope = exceeded.includes("monthly")
+      ? "monthly"
+      : "campaign";
+
+    const override = await this.findOverride(
+      workspaceId,
+      month,
+      campaignId,
+      exceeded,
+    );
+    if (override) {
+      await this.recordAudit("OVERRIDE_USED", {
+        workspaceId,
+        month,
+        campaignId,
+        agentType,
+        estimatedCost,
+        overrideId: override.id,
+        reason: override.reason,
+        metadata: { exceeded, headroom },
+      });
+      return this.hold(
+        { workspaceId, month, campaignId, amount: estimatedCost },
+        {
+          ...base,
+          action: "override",
+          allowed: true,
+          maxCost: Infinity,
+          overrideId: override.id,
+          limitingBudget,
+          reason: `Budget override: ${override.reason}`,
+        },
+      );
+    }
+
+    const minimumCost =
+      request.minimumCost ?? estimatedCost * MIN_DEGRADE_RATIO;
+    if (request.allowDegrade && headroom > 0 && headroom >= minimumCost) {
+      const reason = `Degraded to fit ${limitingBudget} budget: $${headroom.toFixed(4)} of $${estimatedCost.toFixed(4)} available`;
+      const decision = await this.hold(
+        { workspaceId, month, campaignId, amount: headroom },
+        {
+          ...base,
+          action: "degrade",
+          allowed: true,
+          maxCost: headroom,
+          limitingBudget,
+          reason,
+        },
+        { monthly, campaign },
+      );
+      if (decision) {
+        await this.recordAudit("RUN_DEGRADED", {
+          workspaceId,
+          month,
+          campaignId,
+          agentType,
+          estimatedCost,
+          reason,
+          metadata: { exceeded, headroom, task: request.task },
+        });
+      }
+      return decision;
+    }
+
+    const reason = `Estimated cost $${estimatedCost.toFixed(4)} exceeds remaining ${limitingBudget} budget of $${headroom.toFixed(4)}`;
+    await this.recordAudit("RUN_BLOCKED", {
+      workspaceId,
+      month,
+      campaignId,
+      agentType,
+      estimatedCost,
+      reason,
+      metadata: { exceeded, headroom, task: request.task },
+    });
+
+    return {
+      ...base,
+      action: "block",
+      allowed: false,
+      reservedCost: 0,
+      maxCost: 0,
+      limitingBudget,
+      reason,
+    };
+  }
+
+  /**
+   * Release a reservation once the run has finished. Actual spend is
+   * recorded separately by trackCost / runLLMTask.
+   */
+  static async release(reservationId: string | undefined): Promise<void> {
+    if (!reservationId) {
+      return;
+    }
+
+    try {
+      await prisma.budgetReservation.deleteMany({
+        where: { id: reservationId },
+      });
+    } catch (error) {
+      // The reservation stops counting once it expires
+      console.error("Failed to release budget reservation:", error);
+    }
+  }
+
+  /**
+   * Workspace spend for the month against its cap, including in-flight
+   * reservations
+   */
+  static async getMonthlyHeadroom(
+    month?: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<BudgetHeadroom> {
+    const targetMonth = month || currentMonth();
+    const monthlyBudget = await prisma.monthlyBudget.findUnique({
+      where: { workspaceId_month: { workspaceId, month: targetMonth } },
+    });
+
+    const budget = monthlyBudget?.totalBudget ?? DEFAULT_MONTHLY_BUDGET;
+    const spent = monthlyBudget?.totalSpent ?? 0;
+    const reserved = await this.reservedFor(workspaceId, targetMonth);
+
+    return {
+      budget,
+      spent,
+      reserved,
+      remaining: budget - spent - reserved,
+    };
+  }
+
+  /**
+   * Campaign spend this month against its monthly budget. Campaigns
+   * without a budget are only limited by the monthly cap.
+   */
+  static async getCampaignHeadroom(
+    campaignId: string,
+    month?: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<BudgetHeadroom | undefined> {
+    const targetMonth = month || currentMonth();
+    const campaignCost = await prisma.campaignCost.findUnique({
+      where: { campaignId },
+    });
+
+    if (campaignCost?.monthlyBudget == null) {
+      return undefined;
+    }
+
+    const start = new Date(`${targetMonth}-01T00:00:00.000Z`);
+    const end = new Date(start);
+    end.setUTCMonth(end.getUTCMonth() + 1);
+
+    const spend = await prisma.billingLog.aggregate({
+      where: { workspaceId, campaignId, timestamp: { gte: start, lt: end } },
+      _sum: { cost: true },
+    });
+
+    const budget = campaignCost.monthlyBudget;
+    const spent = spend._sum.cost || 0;
+    const reserved = await this.reservedFor(
+      workspaceId,
+      targetMonth,
+      campaignId,
+    );
+
+    return {
+      budget,
+      spent,
+      reserved,
+      remaining: budget - spent - reserved,
+    };
+  }
+
+  /**
+   * Grant an explicit override. A campaign override only lifts that
+   * campaign's cap; a month-wide override lifts every cap for the month.
+   */
+  static async grantOverride(input: BudgetOverrideInput) {
+    const workspaceId = input.workspaceId || DEFAULT_WORKSPACE_ID;
+    const override = await prisma.budgetOverride.create({
+      data: {
+        workspaceId,
+        month: input.month,
+        campaignId: input.campaignId ?? null,
+        reason: input.reason,
+        createdBy: input.actor ?? null,
+        expiresAt: input.expiresAt ?? null,
+      },
+    });
+
+    await this.recordAudit("OVERRIDE_GRANTED", {
+      workspaceId,
+      month: input.month,
+      campaignId: input.campaignId,
+      overrideId: override.id,
+      actor: input.actor,
+      reason: input.reason,
+      metadata: { expiresAt: input.expiresAt?.toISOString() },
+    });
+
+    return override;
+  }
+
+  /**
+   * Revoke the active overrides for a month (or one campaign in it)
+   */
+  static async revokeOverride(input: {
+    workspaceId?: string | undefined;
+    month: string;
+    campaignId?: string | undefined;
+    actor?: string | undefined;
+    reason?: string | undefined;
+  }): Promise<number> {
+    const workspaceId = input.workspaceId || DEFAULT_WORKSPACE_ID;
+    const active = await prisma.budgetOverride.findMany({
+      where: {
+        workspaceId,
+        month: input.month,
+        campaignId: input.campaignId ?? null,
+        revokedAt: null,
+      },
+    });
+
+    for (const override of active) {
+      await prisma.budgetOverride.update({
+        where: { id: override.id },
+        data: { revokedAt: new Date(), revokedBy: input.actor ?? null },
+      });
+      await this.recordAudit("OVERRIDE_REVOKED", {
+        workspaceId,
+        month: input.month,
+        campaignId: input.campaignId,
+        overrideId: override.id,
+        actor: input.actor,
+        reason: input.reason,
+      });
+    }
+
+    return active.length;
+  }
+
+  /**
+   * The override currently in effect for a month, if any
+   */
+  static async getActiveOverride(
+    month: string,
+    campaignId?: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ) {
+    const now = new Date();
+    return prisma.budgetOverride.findFirst({
+      where: {
+        workspaceId,
+        month,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+        campaignId: campaignId ?? null,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+  }
+
+  static async getAuditTrail(
+    filter: {
+      workspaceId?: string | undefined;
+      month?: string | undefined;
+      campaignId?: string | undefined;
+      limit?: number | undefined;
+    } = {},
+  ) {
+    return prisma.budgetAuditEvent.findMany({
+      where: {
+        workspaceId: filter.workspaceId || DEFAULT_WORKSPACE_ID,
+        ...(filter.month ? { month: filter.month } : {}),
+        ...(filter.campaignId ? { campaignId: filter.campaignId } : {}),
+      },
+      orderBy: { createdAt: "desc" },
+      take: filter.limit ?? 100,
+    });
+  }
+
+  private static async findOverride(
+    workspaceId: string,
+    month: string,
+    campaignId: string | undefined,
+    exceeded: BudgetScope[],
+  ) {
+    const monthWide = await this.getActiveOverride(
+      month,
+      undefined,
+      workspaceId,
+    );
+    if (monthWide) {
+      return monthWide;
+    }
+
+    // A campaign override cannot lift the monthly cap
+    if (campaignId && !exceeded.includes("monthly")) {
+      return this.getActiveOverride(month, campaignId, workspaceId);
+    }
+
+    return null;
+  }
+
+  /**
+   * Store a reservation. With limits, the reservation is checked against
+   * them after it is stored: of runs racing for the same headroom, the ones
+   * that overbook it release theirs and get null back.
+   */
+  private static async hold(
+    reservation: Reservation,
+    decision: Omit<BudgetGateDecision, "reservedCost" | "reservationId">,
+    limits?: { monthly: BudgetHeadroom; campaign?: BudgetHeadroom | undefined },
+  ): Promise<BudgetGateDecision | null> {
+    const now = new Date();
+    await prisma.budgetReservation.deleteMany({
+      where: { expiresAt: { lte: now } },
+    });
+
+    const { id } = await prisma.budgetReservation.create({
+      data: {
+        workspaceId: reservation.workspaceId,
+        month: reservation.month,
+        campaignId: reservation.campaignId ?? null,
+        amount: reservation.amount,
+        expiresAt: new Date(now.getTime() + RESERVATION_TTL_MS),
+      },
+      select: { id: true },
+    });
+
+    if (limits && (await this.overbooked(reservation, limits))) {
+      await this.release(id);
+      return null;
+    }
+
+    return { ...decision, reservationId: id, reservedCost: reservation.amount };
+  }
+
+  private static async overbooked(
+    reservation: Reservation,
+    limits: { monthly: BudgetHeadroom; campaign?: BudgetHeadroom | undefined },
+  ): Promise<boolean> {
+    const { workspaceId, month, campaignId } = reservation;
+    const { monthly, campaign } = limits;
+
+    const reserved = await this.reservedFor(workspaceId, month);
+    if (reserved > monthly.budget - monthly.spent + ROUNDING_TOLERANCE) {
+      return true;
+    }
+    if (!campaign || !campaignId) {
+      return false;
+    }
+
+    const campaignReserved = await this.reservedFor(
+      workspaceId,
+      month,
+      campaignId,
+    );
+    return (
+      campaignReserved > campaign.budget - campaign.spent + ROUNDING_TOLERANCE
+    );
+  }
+
+  private static async reservedFor(
+    workspaceId: string,
+    month: string,
+    campaignId?: string,
+  ): Promise<number> {
+    const result = await prisma.budgetReservation.aggregate({
+      where: {
+        workspaceId,
+        month,
+        ...(campaignId ? { campaignId } : {}),
+        expiresAt: { gt: new Date() },
+      },
+      _sum: { amount: true },
+    });
+    return result._sum.amount || 0;
+  }
+
+  private static async recordAudit(
+    action:
+      | "OVERRIDE_GRANTED"
+      | "OVERRIDE_REVOKED"
+      | "OVERRIDE_USED"
+      | "RUN_BLOCKED"
+      | "RUN_DEGRADED",
+    event: {
+      workspaceId: string;
+      month: string;
+      campaignId?: string | undefined;
+      agentType?: string | undefined;
+      estimatedCost?: number | undefined;
+      overrideId?: string | undefined;
+      actor?: string | undefined;
+      reason?: string | undefined;
+      metadata?: Record<string, unknown> | undefined;
+    },
+  ): Promise<void> {
+    try {
+      await prisma.budgetAuditEvent.create({
+        data: {
+          workspaceId: event.workspaceId,
+          action,
+          month: event.month,
+          campaignId: event.campaignId ?? null,
+          agentType: event.agentType ?? null,
+          estimatedCost: event.estimatedCost ?? null,
+          overrideId: event.overrideId ?? null,
+          actor: event.actor ?? null,
+          reason: event.reason ?? null,
+          metadata: (event.metadata ?? {}) as any,
+        },
+      });
+    } catch (error) {
+      // The decision stands even if the audit write fails
+      console.error("Failed to record budget audit event:", error);
+    }
+  }
+}
+
+function emptyHeadroom(): BudgetHeadroom {
+  return { budget: 0, spent: 0, reserved: 0, remaining: 0 };
+}
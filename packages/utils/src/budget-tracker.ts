@@ -1,4 +1,5 @@
-import { db as prisma } from "@neon/data-model";
+import { db as prisma, DEFAULT_WORKSPACE_ID } from "@neon/data-model";
+import { calculateLLMCost } from "./llm-pricing";
 
 // Define AgentType enum locally
 const AgentTypeEnum = {
@@ -50,6 +51,7 @@ export interface BudgetStatus {
 
 export interface CostTrackingOptions {
   agentType: AgentType;
+  workspaceId?: string;
   campaignId?: string;
   tokens: number;
   task?: string;
@@ -61,18 +63,27 @@ export interface CostTrackingOptions {
   retryCount?: number;
   executionTime?: number;
   region?: string;
+  // Actual usage reported by the LLM provider; when present the cost is
+  // taken from the versioned model price table instead of the agent rate
+  model?: string;
+  provider?: string;
+  promptTokens?: number;
+  completionTokens?: number;
 }
 
 export class BudgetTracker {
   /**
    * Check if the current budget allows for agent execution
    */
-  static async checkBudgetStatus(month?: string): Promise<BudgetStatus> {
+  static async checkBudgetStatus(
+    month?: string,
+    workspaceId: string = DEFAULT_WORKSPACE_ID,
+  ): Promise<BudgetStatus> {
     const currentMonth = month || new Date().toISOString().substring(0, 7);
 
     try {
       const monthlyBudget = await prisma.monthlyBudget.findUnique({
-        where: { month: currentMonth },
+        where: { workspaceId_month: { workspaceId, month: currentMonth } },
       });
 
       if (!monthlyBudget) {
@@ -118,23 +129,39 @@ export class BudgetTracker {
   static async trackCost(options: CostTrackingOptions): Promise<void> {
     const {
       agentType,
+      workspaceId = DEFAULT_WORKSPACE_ID,
       campaignId,
       tokens,
       task,
       executionId,
       metadata,
       region = "UAE",
+      model,
+      provider,
+      promptTokens,
+      completionTokens,
       ...costEfficiencyMetrics
     } = options;
 
     try {
-      // Calculate cost based on agent type and tokens
+      // Price actual provider usage per model; fall back to the per-agent
+      // rate for callers that only know a total token count
+      const usage =
+        model && promptTokens !== undefined && completionTokens !== undefined
+          ? calculateLLMCost({
+              model,
+              promptTokens,
+              completionTokens,
+              provider,
+            })
+          : null;
       const costPer1K = AGENT_COST_PER_1K_TOKENS[agentType] || 0.04;
-      const cost = (tokens / 1000) * costPer1K;
+      const cost = usage ? usage.totalCost : (tokens / 1000) * costPer1K;
 
       // Log the billing entry
       await prisma.billingLog.create({
         data: {
+          workspaceId,
           agentType,
           campaignId,
           tokens,
@@ -147,6 +174,15 @@ export class BudgetTracker {
           qualityScore: costEfficiencyMetrics.qualityScore,
           retryCount: costEfficiencyMetrics.retryCount,
           executionTime: costEfficiencyMetrics.executionTime,
+          ...(usage && {
+            model,
+            provider,
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens,
+            inputCost: usage.inputCost,
+            outputCost: usage.outputCost,
+            priceVersion: usage.priceVersion,
+          }),
         },
       });
 
@@ -188,7 +224,7 @@ export class BudgetTracker {
       const currentMonth = new Date().toISOString().substring(0, 7);
       await prisma.monthlyBudget.upsert({
         where: {
-          month: currentMonth,
+          workspaceId_month: { workspaceId, month: currentMonth },
         },
         update: {
           totalSpent: {
@@ -196,6 +232,7 @@ export class BudgetTracker {
           },
         },
         create: {
+          workspaceId,
           month: currentMonth,
           totalSpent: cost,
         },
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, jest } from "@jest/globals";
+import { EventTracker } from "./event-tracker";
+
+const response = (status: number, body: unknown = {}) =>
+  ({ ok: status < 300, status, json: async () => body }) as Response;
+
+const accepted = (count: number) =>
+  response(200, {
+    accepted: count,
+    duplicates: 0,
+    rejected: [],
+    identified: 0,
+    triggered: [],
+  });
+
+describe("EventTracker", () => {
+  let fetch: jest.Mock<(url: string, init: any) => Promise<Response>>;
+  let onError: jest.Mock<(error: Error, events: any[]) => void>;
+
+  const tracker = (options = {}) =>
+    new EventTracker({
+      endpoint: "https://api.example.com/api/events",
+      apiKey: "neon_key",
+      workspaceId: "ws-1",
+      anonymousId: "anon-1",
+      sessionId: "session-1",
+      flushIntervalMs: 0,
+      retryDelayMs: 1,
+      fetch: fetch as unknown as typeof globalThis.fetch,
+      onError,
+      ...options,
+    });
+
+  const sent = (call: number) => JSON.parse(fetch.mock.calls[call]![1].body);
+
+  beforeEach(() => {
+    fetch = jest.fn<(url: string, init: any) => Promise<Response>>();
+    onError = jest.fn<(error: Error, events: any[]) => void>();
+    fetch.mockResolvedValue(accepted(1));
+  });
+
+  it("should send queued events in batches with the visitor's ids", async () => {
+    const events = tracker({ batchSize: 2 });
+    events.page({ url: "/pricing", title: "Pricing", plan: "pro" });
+    events.click("#buy", { href: "/checkout" });
+    events.formSubmit("demo", { company: "Engines Ltd" });
+    events.identify("user-1", { plan: "pro" });
+    events.track("video.played");
+    await events.shutdown();
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch.mock.calls[0]![1].headers).toEqual({
+      "Content-Type": "application/json",
+      "x-api-key": "neon_key",
+      "x-workspace-id": "ws-1",
+    });
+    expect(sent(0).events).toEqual([
+      expect.objectContaining({
+        type: "page_view",
+        anonymousId: "anon-1",
+        sessionId: "session-1",
+        url: "/pricing",
+        title: "Pricing",
+        properties: { plan: "pro" },
+      }),
+      expect.objectContaining({
+        type: "click",
+        target: "#buy",
+        href: "/checkout",
+      }),
+    ]);
+    expect(sent(0).events[1]).not.toHaveProperty("properties");
+    expect(sent(1).events[1]).toMatchObject({
+      type: "identify",
+      userId: "user-1",
+      traits: { plan: "pro" },
+    });
+    // Events after identify carry the user id
+    expect(sent(2).events[0]).toMatchObject({
+      type: "custom",
+      name: "video.played",
+      userId: "user-1",
+    });
+    expect(typeof sent(0).sentAt).toBe("number");
+  });
+
+  it("should retry server errors with the same event ids", async () => {
+    fetch
+      .mockResolvedValueOnce(response(503))
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockResolvedValueOnce(accepted(1));
+
+    const events = tracker();
+    events.track("signup");
+    await events.flush();
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(sent(2).events[0].id).toBe(sent(0).events[0].id);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("should give up on client errors and report rejected events", async () => {
+    fetch.mockResolvedValueOnce(response(401));
+    const events = tracker();
+    events.track("signup");
+    await events.flush();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0]![0].message).toBe(
+      "Event ingestion failed with 401",
+    );
+
+    fetch.mockResolvedValueOnce(
+      response(200, {
+        accepted: 0,
+        duplicates: 0,
+        rejected: [{ index: 0, id: "e1", issues: ["userId: unknown user"] }],
+        identified: 0,
+        triggered: [],
+      }),
+    );
+    events.identify("user-9");
+    await events.flush();
+
+    expect(onError.mock.calls[1]![0].message).toBe("e1: userId: unknown user");
+    expect(onError.mock.calls[1]![1]).toEqual([
+      expect.objectContaining({ type: "identify", userId: "user-9" }),
+    ]);
+  });
+});
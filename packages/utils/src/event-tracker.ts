@@ -0,0 +1,279 @@
+/**
+ * Client for the behaviour ingestion endpoint (POST /api/events). Works in
+ * the browser, where visitors keep an anonymous id in localStorage and a
+ * session id in sessionStorage, and on servers, where it authenticates
+ * with an API key. Events are queued and sent in batches; failed batches
+ * are retried with backoff and every event keeps its id, so a retry is
+ * stored once. Import it from "@neon/utils/event-tracker", which unlike the
+ * package's main entry is safe to bundle for the browser.
+ */
+
+export type TrackedEventType =
+  | "page_view"
+  | "click"
+  | "form_submit"
+  | "identify"
+  | "custom";
+
+export interface TrackedEventPayload {
+  id: string;
+  type: TrackedEventType;
+  anonymousId?: string;
+  userId?: string;
+  sessionId?: string;
+  timestamp: number;
+  url?: string;
+  referrer?: string;
+  timeZone?: string;
+  properties?: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+export interface EventBatchResult {
+  accepted: number;
+  duplicates: number;
+  rejected: Array<{ index: number; id?: string; issues: string[] }>;
+  identified: number;
+  triggered: Array<{ eventId: string; triggerId: string; success: boolean }>;
+}
+
+export interface EventTrackerOptions {
+  // e.g. https://api.example.com/api/events
+  endpoint: string;
+  // Server-side callers; browsers on the app's domain use the session cookie
+  apiKey?: string | undefined;
+  workspaceId?: string | undefined;
+  // Visitor ids, generated (and kept in web storage) when not given
+  anonymousId?: string | undefined;
+  sessionId?: string | undefined;
+  batchSize?: number | undefined;
+  flushIntervalMs?: number | undefined;
+  maxRetries?: number | undefined;
+  retryDelayMs?: number | undefined;
+  fetch?: typeof fetch | undefined;
+  // Called with batches that could not be delivered or were partly rejected
+  onError?: ((error: Error, events: TrackedEventPayload[]) => void) | undefined;
+}
+
+const ANONYMOUS_ID_KEY = "neon_anonymous_id";
+const SESSION_ID_KEY = "neon_session_id";
+
+function randomId(): string {
+  if (typeof globalThis.crypto?.randomUUID === "function") {
+    return globalThis.crypto.randomUUID();
+  }
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+// Reads or creates an id in web storage, in memory outside the browser
+function storedId(storage: () => Storage | undefined, key: string): string {
+  try {
+    const store = storage();
+    const existing = store?.getItem(key);
+    if (existing) return existing;
+    const id = randomId();
+    store?.setItem(key, id);
+    return id;
+  } catch {
+    // Storage can be disabled, e.g. in private browsing
+    return randomId();
+  }
+}
+
+const browser = typeof window !== "undefined";
+
+export class EventTracker {
+  private queue: TrackedEventPayload[] = [];
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private sending: Promise<void> = Promise.resolve();
+  private anonymousId: string;
+  private sessionId: string;
+  private userId: string | undefined;
+  private batchSize: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+  private fetch: typeof fetch;
+
+  constructor(private options: EventTrackerOptions) {
+    this.anonymousId =
+      options.anonymousId ??
+      storedId(
+        () => (browser ? window.localStorage : undefined),
+        ANONYMOUS_ID_KEY,
+      );
+    this.sessionId =
+      options.sessionId ??
+      storedId(
+        () => (browser ? window.sessionStorage : undefined),
+        SESSION_ID_KEY,
+      );
+    this.batchSize = options.batchSize ?? 20;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+
+    const interval = options.flushIntervalMs ?? 5000;
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.flush(), interval);
+      // Don't keep a server process alive for the timer
+      (this.timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  page(
+    properties: { url?: string; title?: string; referrer?: string } & Record<
+      string,
+      unknown
+    > = {},
+  ): void {
+    const { url, title, referrer, ...rest } = properties;
+    this.enqueue("page_view", {
+      url: url ?? (browser ? window.location.href : undefined),
+      title: title ?? (browser ? document.title : undefined),
+      referrer:
+        referrer ?? (browser ? document.referrer || undefined : undefined),
+      properties: rest,
+    });
+  }
+
+  click(
+    target: string,
+    properties: { href?: string } & Record<string, unknown> = {},
+  ): void {
+    const { href, ...rest } = properties;
+    this.enqueue("click", { target, href, properties: rest });
+  }
+
+  formSubmit(
+    formId: string,
+    fields?: Record<string, string | number | boolean>,
+  ): void {
+    this.enqueue("form_submit", { formId, fields });
+  }
+
+  track(name: string, properties: Record<string, unknown> = {}): void {
+    this.enqueue("custom", { name, properties });
+  }
+
+  /**
+   * Tie the visitor to a user, by id or by the email in the traits. Later
+   * events carry the user id as well.
+   */
+  identify(userId?: string, traits: Record<string, unknown> = {}): void {
+    if (userId) this.userId = userId;
+    this.enqueue("identify", { traits });
+  }
+
+  // Forget the user, e.g. on logout; the visitor gets a new anonymous id
+  reset(): void {
+    this.userId = undefined;
+    this.anonymousId = randomId();
+    try {
+      if (browser)
+        window.localStorage.setItem(ANONYMOUS_ID_KEY, this.anonymousId);
+    } catch {
+      // Storage disabled
+    }
+  }
+
+  /**
+   * Send everything queued. Batches are sent one at a time, in order.
+   */
+  flush(): Promise<void> {
+    this.sending = this.sending.then(async () => {
+      while (this.queue.length > 0) {
+        await this.send(this.queue.splice(0, this.batchSize));
+      }
+    });
+    return this.sending;
+  }
+
+  // Stop the timer and send what is left
+  async shutdown(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    await this.flush();
+  }
+
+  private enqueue(
+    type: TrackedEventType,
+    fields: Record<string, unknown>,
+  ): void {
+    const event: TrackedEventPayload = {
+      id: randomId(),
+      type,
+      anonymousId: this.anonymousId,
+      sessionId: this.sessionId,
+      timestamp: Date.now(),
+      ...(this.userId && { userId: this.userId }),
+      ...(browser && {
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }),
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      const empty =
+        value === undefined ||
+        (key === "properties" && Object.keys(value as object).length === 0);
+      if (!empty) event[key] = value;
+    }
+    this.queue.push(event);
+    if (this.queue.length >= this.batchSize) void this.flush();
+  }
+
+  private async send(events: TrackedEventPayload[]): Promise<void> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.options.apiKey) headers["x-api-key"] = this.options.apiKey;
+    if (this.options.workspaceId) {
+      headers["x-workspace-id"] = this.options.workspaceId;
+    }
+
+    let lastError: Error | undefined;
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.retryDelayMs * 2 ** (attempt - 1)),
+        );
+      }
+      try {
+        const response = await this.fetch(this.options.endpoint, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ events, sentAt: Date.now() }),
+          credentials: "include",
+          keepalive: browser,
+        });
+        if (response.ok) {
+          const result = (await response.json()) as EventBatchResult;
+          if (result.rejected.length > 0) {
+            this.options.onError?.(
+              new Error(
+                result.rejected
+                  .map(
+                    ({ id, issues }) =>
+                      `${id ?? "event"}: ${issues.join("; ")}`,
+                  )
+                  .join("\n"),
+              ),
+              result.rejected.flatMap(({ index }) => events[index] ?? []),
+            );
+          }
+          return;
+        }
+        lastError = new Error(`Event ingestion failed with ${response.status}`);
+        // Only overload and server errors are worth retrying
+        if (response.status < 500 && response.status !== 429) break;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+    this.options.onError?.(
+      lastError ?? new Error("Event ingestion failed"),
+      events,
+    );
+  }
+}
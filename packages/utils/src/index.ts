@@ -173,5 +173,8 @@ export {
 // export * from './types';
 // export * from './budgetMonitor';
 export * from "./budget-tracker";
+export * from "./budget-gate";
+export * from "./llm-pricing";
 export * from "./whatsapp-tracker";
 export * from "./twilioWithFallback";
+export * from "./social-api-client";
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  calculateLLMCost,
+  getPriceTable,
+  resolveModelPrice,
+} from "./llm-pricing";
+
+describe("llm-pricing", () => {
+  describe("getPriceTable", () => {
+    it("should select the table in effect at a given date", () => {
+      expect(getPriceTable(new Date("2024-06-15")).version).toBe("2024-05-13");
+      expect(getPriceTable(new Date("2025-01-01")).version).toBe("2024-10-01");
+    });
+  });
+
+  describe("resolveModelPrice", () => {
+    it("should match dated model snapshots to their base model", () => {
+      const table = getPriceTable(new Date("2025-01-01"));
+
+      expect(
+        resolveModelPrice("gpt-4o-mini-2024-07-18", table).matchedModel,
+      ).toBe("gpt-4o-mini");
+      expect(resolveModelPrice("gpt-4-0613", table).matchedModel).toBe("gpt-4");
+    });
+
+    it("should flag unknown models", () => {
+      expect(resolveModelPrice("mystery-model").matchedModel).toBeNull();
+    });
+  });
+
+  describe("calculateLLMCost", () => {
+    it("should price prompt and completion tokens separately", () => {
+      const cost = calculateLLMCost({
+        model: "gpt-4",
+        promptTokens: 1000,
+        completionTokens: 500,
+        at: new Date("2025-01-01"),
+      });
+
+      expect(cost.inputCost).toBeCloseTo(0.03);
+      expect(cost.outputCost).toBeCloseTo(0.03);
+      expect(cost.totalCost).toBeCloseTo(0.06);
+      expect(cost.totalTokens).toBe(1500);
+      expect(cost.priceVersion).toBe("2024-10-01");
+    });
+
+    it("should not bill local or fixture providers", () => {
+      const cost = calculateLLMCost({
+        model: "llama3",
+        promptTokens: 1000,
+        completionTokens: 1000,
+        provider: "local",
+      });
+
+      expect(cost.totalCost).toBe(0);
+      expect(cost.totalTokens).toBe(2000);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Versioned LLM price tables used for billing. Prices are USD per one
+ * million tokens and are split into input (prompt) and output
+ * (completion) rates so BillingLog rows reconcile with provider invoices.
+ *
+ * When a provider changes its prices, append a new table with the date
+ * the new prices take effect rather than editing an existing one, so
+ * historical usage keeps being priced at the rates that applied then.
+ */
+
+export interface ModelPrice {
+  inputPer1M: number;
+  outputPer1M: number;
+}
+
+export interface PriceTable {
+  version: string;
+  effectiveFrom: string; // ISO date
+  prices: Record<string, ModelPrice>;
+}
+
+export interface LLMCostInput {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  provider?: string | undefined;
+  at?: Date | undefined;
+}
+
+export interface LLMCostBreakdown {
+  model: string;
+  matchedModel: string | null;
+  priceVersion: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  inputCost: number;
+  outputCost: number;
+  totalCost: number;
+}
+
+// Models served by self-hosted or offline providers are not billed
+const UNBILLED_PROVIDERS = new Set(["local", "fixture"]);
+
+// Unknown models are priced like gpt-4 so usage is never under-billed
+const FALLBACK_PRICE_MODEL = "gpt-4";
+
+export const LLM_PRICE_TABLES: readonly PriceTable[] = [
+  {
+    version: "2024-05-13",
+    effectiveFrom: "2024-05-13",
+    prices: {
+      "gpt-4": { inputPer1M: 30, outputPer1M: 60 },
+      "gpt-4-32k": { inputPer1M: 60, outputPer1M: 120 },
+      "gpt-4-turbo": { inputPer1M: 10, outputPer1M: 30 },
+      "gpt-4o": { inputPer1M: 5, outputPer1M: 15 },
+      "gpt-3.5-turbo": { inputPer1M: 0.5, outputPer1M: 1.5 },
+      "text-embedding-3-small": { inputPer1M: 0.02, outputPer1M: 0 },
+      "text-embedding-3-large": { inputPer1M: 0.13, outputPer1M: 0 },
+    },
+  },
+  {
+    version: "2024-10-01",
+    effectiveFrom: "2024-10-01",
+    prices: {
+      "gpt-4": { inputPer1M: 30, outputPer1M: 60 },
+      "gpt-4-32k": { inputPer1M: 60, outputPer1M: 120 },
+      "gpt-4-turbo": { inputPer1M: 10, outputPer1M: 30 },
+      "gpt-4o": { inputPer1M: 2.5, outputPer1M: 10 },
+      "gpt-4o-mini": { inputPer1M: 0.15, outputPer1M: 0.6 },
+      "gpt-3.5-turbo": { inputPer1M: 0.5, outputPer1M: 1.5 },
+      "text-embedding-3-small": { inputPer1M: 0.02, outputPer1M: 0 },
+      "text-embedding-3-large": { inputPer1M: 0.13, outputPer1M: 0 },
+    },
+  },
+];
+
+/**
+ * Get the price table in effect at the given time
+ */
+export function getPriceTable(at: Date = new Date()): PriceTable {
+  const sorted = [...LLM_PRICE_TABLES].sort((a, b) =>
+    a.effectiveFrom.localeCompare(b.effectiveFrom),
+  );
+
+  let current = sorted[0]!;
+  for (const table of sorted) {
+    if (new Date(table.effectiveFrom).getTime() <= at.getTime()) {
+      current = table;
+    }
+  }
+  return current;
+}
+
+/**
+ * Resolve a model's price. Dated snapshots such as "gpt-4o-2024-08-06"
+ * match their base model by longest prefix.
+ */
+export function resolveModelPrice(
+  model: string,
+  table: PriceTable = getPriceTable(),
+): { price: ModelPrice; matchedModel: string | null } {
+  const exact = table.prices[model];
+  if (exact) {
+    return { price: exact, matchedModel: model };
+  }
+
+  const prefixMatch = Object.keys(table.prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (prefixMatch) {
+    return { price: table.prices[prefixMatch]!, matchedModel: prefixMatch };
+  }
+
+  return {
+    price: table.prices[FALLBACK_PRICE_MODEL] ?? {
+      inputPer1M: 0,
+      outputPer1M: 0,
+    },
+    matchedModel: null,
+  };
+}
+
+/**
+ * Calculate the cost of one LLM call from actual provider token counts
+ */
+export function calculateLLMCost(input: LLMCostInput): LLMCostBreakdown {
+  const { model, promptTokens, completionTokens, provider, at } = input;
+  const table = getPriceTable(at);
+  const totalTokens = promptTokens + completionTokens;
+
+  if (provider && UNBILLED_PROVIDERS.has(provider)) {
+    return {
+      model,
+      matchedModel: null,
+      priceVersion: table.version,
+      promptTokens,
+      completionTokens,
+      totalTokens,
+      inputCost: 0,
+      outputCost: 0,
+      totalCost: 0,
+    };
+  }
+
+  const { price, matchedModel } = resolveModelPrice(model, table);
+  const inputCost = (promptTokens / 1_000_000) * price.inputPer1M;
+  const outputCost = (completionTokens / 1_000_000) * price.outputPer1M;
+
+  return {
+    model,
+    matchedModel,
+    priceVersion: table.version,
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    inputCost,
+    outputCost,
+    totalCost: inputCost + outputCost,
+  };
+}
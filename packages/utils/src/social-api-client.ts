@@ -3,10 +3,12 @@
  * Handles TikTok, Instagram, Twitter trend data
  */
 
+import { logger } from "./logger";
+
 export interface SocialPlatformConfig {
-  apiKey?: string;
-  accessToken?: string;
-  apiSecret?: string;
+  apiKey?: string | undefined;
+  accessToken?: string | undefined;
+  apiSecret?: string | undefined;
   baseUrl: string;
   rateLimits: {
     requestsPerHour: number;
@@ -15,7 +17,13 @@ export interface SocialPlatformConfig {
 }
 
 export interface TrendData {
-  platform: "instagram" | "tiktok" | "twitter" | "facebook" | "linkedin";
+  platform:
+    | "instagram"
+    | "tiktok"
+    | "twitter"
+    | "facebook"
+    | "linkedin"
+    | "youtube";
   keyword: string;
   volume: number;
   growth: number;
@@ -25,6 +33,25 @@ export interface TrendData {
   relatedTopics?: string[];
 }
 
+export interface HashtagStats {
+  usage: number;
+  // Trend score from 0 to 100
+  score: number;
+  growth: number;
+  platforms: string[];
+  relatedTags: string[];
+}
+
+/**
+ * Where trend data comes from, e.g. the trend snapshots stored by the
+ * trend sources in @neon/core-agents
+ */
+export interface TrendProvider {
+  trendingTopics(platform?: string, limit?: number): Promise<TrendData[]>;
+  trendingHashtags(platform: string, limit?: number): Promise<string[]>;
+  hashtagStats(hashtag: string): Promise<HashtagStats | null>;
+}
+
 export interface SocialMetrics {
   platform: string;
   followers: number;
@@ -49,13 +76,19 @@ export interface PostData {
 }
 
 export class SocialApiClient {
-  private _initialized: boolean = false;
   private platforms: Map<string, SocialPlatformConfig> = new Map();
+  private trends: TrendProvider | undefined;
+  private warnedNoTrends = false;
 
-  constructor() {
+  constructor(options: { trends?: TrendProvider } = {}) {
+    this.trends = options.trends;
     this.initializePlatforms();
   }
 
+  setTrendProvider(provider: TrendProvider): void {
+    this.trends = provider;
+  }
+
   /**
    * Initialize platform configurations
    */
@@ -112,21 +145,14 @@ export class SocialApiClient {
         requestsPerDay: 12000,
       },
     });
-
-    this._initialized = true;
   }
 
   /**
-   * Get trending topics from all platforms
+   * Get trending topics from all platforms, or one. Empty without a trend
+   * provider.
    */
-  async getTrendingTopics(platform?: string): Promise<TrendData[]> {
-    const trends: TrendData[] = [];
-
-    // Mock trending data since we don't have real API keys
-    const mockTrends = this.generateMockTrends(platform);
-    trends.push(...mockTrends);
-
-    return trends;
+  async getTrendingTopics(platform?: string, limit = 20): Promise<TrendData[]> {
+    return (await this.trendProvider()?.trendingTopics(platform, limit)) ?? [];
   }
 
   /**
@@ -152,7 +178,7 @@ export class SocialApiClient {
    */
   async getAccountMetrics(
     platform: string,
-    accountId: string,
+    _accountId: string,
   ): Promise<SocialMetrics | null> {
     const config = this.platforms.get(platform);
     if (!config) {
@@ -174,59 +200,19 @@ export class SocialApiClient {
   }
 
   /**
-   * Analyze hashtag performance
+   * Analyze hashtag performance; null when no trend data mentions it
    */
-  async analyzeHashtag(hashtag: string): Promise<{
-    usage: number;
-    engagement: number;
-    platforms: string[];
-    relatedTags: string[];
-  }> {
-    // Mock hashtag analysis
-    return {
-      usage: Math.floor(Math.random() * 100000) + 1000,
-      engagement: Math.random() * 5 + 1,
-      platforms: ["instagram", "tiktok", "twitter"],
-      relatedTags: [
-        `${hashtag}life`,
-        `${hashtag}style`,
-        `${hashtag}daily`,
-        `love${hashtag}`,
-        `${hashtag}community`,
-      ],
-    };
+  async analyzeHashtag(hashtag: string): Promise<HashtagStats | null> {
+    return (await this.trendProvider()?.hashtagStats(hashtag)) ?? null;
   }
 
   /**
    * Get platform-specific trending hashtags
    */
-  async getTrendingHashtags(platform: string): Promise<string[]> {
-    const baseTags = [
-      "trending",
-      "viral",
-      "popular",
-      "hot",
-      "new",
-      "love",
-      "life",
-      "style",
-      "daily",
-      "motivation",
-    ];
-
-    // Add platform-specific trending hashtags
-    const platformTags = {
-      instagram: ["insta", "photo", "selfie", "ootd", "mood"],
-      tiktok: ["fyp", "viral", "trend", "dance", "challenge"],
-      twitter: ["news", "breaking", "live", "update", "thread"],
-      facebook: ["family", "friends", "community", "event", "share"],
-      linkedin: ["professional", "career", "business", "networking", "skills"],
-    };
-
-    return [
-      ...baseTags,
-      ...(platformTags[platform as keyof typeof platformTags] || []),
-    ];
+  async getTrendingHashtags(platform: string, limit = 20): Promise<string[]> {
+    return (
+      (await this.trendProvider()?.trendingHashtags(platform, limit)) ?? []
+    );
   }
 
   /**
@@ -247,44 +233,16 @@ export class SocialApiClient {
     return Boolean(config && (config.apiKey || config.accessToken));
   }
 
-  private generateMockTrends(platform?: string): TrendData[] {
-    const platforms = platform
-      ? [platform]
-      : ["instagram", "tiktok", "twitter", "facebook", "linkedin"];
-    const keywords = [
-      "artificial intelligence",
-      "sustainable fashion",
-      "remote work",
-      "healthy lifestyle",
-      "digital marketing",
-      "cryptocurrency",
-      "mental health",
-      "travel",
-      "food trends",
-      "technology",
-    ];
-
-    const trends: TrendData[] = [];
-
-    for (const plt of platforms) {
-      for (let i = 0; i < 5; i++) {
-        const keyword = keywords[Math.floor(Math.random() * keywords.length)];
-        trends.push({
-          platform: plt as any,
-          keyword,
-          volume: Math.floor(Math.random() * 100000) + 1000,
-          growth: (Math.random() - 0.5) * 100, // -50% to +50%
-          sentiment: ["positive", "negative", "neutral"][
-            Math.floor(Math.random() * 3)
-          ] as any,
-          timestamp: new Date(),
-          hashtags: [`#${keyword.replace(/\s+/g, "")}`, `#trending`, `#${plt}`],
-          relatedTopics: keywords.filter((k) => k !== keyword).slice(0, 3),
-        });
-      }
+  private trendProvider(): TrendProvider | undefined {
+    if (!this.trends && !this.warnedNoTrends) {
+      this.warnedNoTrends = true;
+      logger.warn(
+        "No trend provider configured; trend lookups return no data",
+        {},
+        "SocialApiClient",
+      );
     }
-
-    return trends;
+    return this.trends;
   }
 
   private async searchPostsByPlatform(